@@ -4,6 +4,8 @@ const fs = require('fs');
 const isDev = process.env.NODE_ENV === 'development' || !app.isPackaged;
 
 let mainWindow;
+// Last file picked from the Import Data menu
+let importFilePaths = [];
 
 function createWindow() {
   console.log('isDev:', isDev);
@@ -98,6 +100,13 @@ function createWindow() {
     mainWindow.show();
   });
 
+  // A reload drops the renderer mid-transaction; end what it left open
+  mainWindow.webContents.on('did-start-loading', () => {
+    if (database && database.inTransaction) {
+      database.exec('ROLLBACK');
+    }
+  });
+
   // Handle window closed
   mainWindow.on('closed', () => {
     mainWindow = null;
@@ -126,12 +135,18 @@ function createMenu() {
               filters: [
                 { name: 'CSV Files', extensions: ['csv'] },
                 { name: 'Excel Files', extensions: ['xlsx', 'xls'] },
+                { name: 'Q-DAS Files', extensions: ['dfq', 'dfd'] },
                 { name: 'All Files', extensions: ['*'] }
               ]
             });
             
             if (!result.canceled) {
-              mainWindow.webContents.send('menu-import-data', result.filePaths[0]);
+              const filePath = result.filePaths[0];
+              // A Q-DAS description file (.dfd) keeps its values in the .dfx of the same name
+              importFilePaths = /\.dfd$/i.test(filePath)
+                ? [filePath, filePath.replace(/\.dfd$/i, '.dfx')]
+                : [filePath];
+              mainWindow.webContents.send('menu-import-data', filePath);
             }
           }
         },
@@ -216,37 +231,58 @@ function createMenu() {
   Menu.setApplicationMenu(menu);
 }
 
+// Database connection, opened once and shared by all handlers
+let database = null;
+
+function getDatabasePath() {
+  return path.join(app.getPath('userData'), 'spc-dashboard.db');
+}
+
+function getDatabase() {
+  if (!database) {
+    const Database = require('better-sqlite3');
+    database = new Database(getDatabasePath());
+    database.pragma('journal_mode = WAL');
+    database.pragma('foreign_keys = ON');
+  }
+  return database;
+}
+
+function closeDatabase() {
+  if (database) {
+    database.close();
+    database = null;
+  }
+}
+
+// Remove the database file together with its WAL side files
+function removeDatabaseFiles(dbPath) {
+  for (const file of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+    if (fs.existsSync(file)) {
+      fs.unlinkSync(file);
+    }
+  }
+}
+
 // Database operations
 ipcMain.handle('db-execute', async (event, sql, params) => {
   try {
-    const Database = require('better-sqlite3');
-    const dbPath = path.join(app.getPath('userData'), 'spc-dashboard.db');
-    const db = new Database(dbPath);
-    
-    // Check if SQL contains multiple statements (like transactions)
-    if (sql.includes(';') && sql.split(';').length > 1) {
-      // Execute multiple statements
-      const statements = sql.split(';').filter(stmt => stmt.trim());
-      let lastResult = null;
-      
-      for (const statement of statements) {
-        const trimmedStmt = statement.trim();
-        if (trimmedStmt) {
-          const stmt = db.prepare(trimmedStmt);
-          lastResult = stmt.run(params);
-        }
+    const db = getDatabase();
+    let stmt;
+    try {
+      stmt = db.prepare(sql);
+    } catch (error) {
+      // Scripts of several statements (schema changes) go through exec,
+      // which parses them properly; they cannot take parameters
+      if (error instanceof RangeError && (!params || params.length === 0)) {
+        db.exec(sql);
+        return { success: true, result: null };
       }
-      
-      db.close();
-      return { success: true, result: lastResult };
-    } else {
-      // Single statement
-      const stmt = db.prepare(sql);
-      const result = stmt.run(params);
-      
-      db.close();
-      return { success: true, result };
+      throw error;
     }
+
+    const result = params ? stmt.run(params) : stmt.run();
+    return { success: true, result };
   } catch (error) {
     return { success: false, error: error.message };
   }
@@ -254,25 +290,46 @@ ipcMain.handle('db-execute', async (event, sql, params) => {
 
 ipcMain.handle('db-query', async (event, sql, params) => {
   try {
-    const Database = require('better-sqlite3');
-    const dbPath = path.join(app.getPath('userData'), 'spc-dashboard.db');
-    const db = new Database(dbPath);
-    
-    const stmt = db.prepare(sql);
+    const stmt = getDatabase().prepare(sql);
     const result = params ? stmt.all(params) : stmt.all();
-    
-    db.close();
     return { success: true, result };
   } catch (error) {
     return { success: false, error: error.message };
   }
 });
 
+// Transactions span several IPC calls on the shared connection
+ipcMain.handle('db-transaction', async (event, action) => {
+  try {
+    const db = getDatabase();
+    switch (action) {
+      case 'begin':
+        // Never roll back someone else's open unit to start a new one
+        if (db.inTransaction) {
+          throw new Error('A transaction is already open');
+        }
+        db.exec('BEGIN IMMEDIATE');
+        break;
+      case 'commit':
+        db.exec('COMMIT');
+        break;
+      case 'rollback':
+        if (db.inTransaction) {
+          db.exec('ROLLBACK');
+        }
+        break;
+      default:
+        throw new Error(`Unknown transaction action: ${action}`);
+    }
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+});
+
 ipcMain.handle('db-init', async () => {
   try {
-    const Database = require('better-sqlite3');
-    const dbPath = path.join(app.getPath('userData'), 'spc-dashboard.db');
-    const db = new Database(dbPath);
+    const db = getDatabase();
     
     // Create tables
     db.exec(`
@@ -452,11 +509,20 @@ ipcMain.handle('db-init', async () => {
         description TEXT,
         route_id INTEGER,
         product_id INTEGER,
+        workshop_id INTEGER,
+        gamma_id INTEGER,
+        characteristic_type TEXT DEFAULT 'variable',
         specification_type TEXT DEFAULT 'nominal',
         target_value REAL DEFAULT 0,
         tolerance_plus REAL DEFAULT 0,
         tolerance_minus REAL DEFAULT 0,
+        specification_min REAL,
+        specification_max REAL,
         unit TEXT,
+        decimal_places INTEGER DEFAULT 3,
+        characteristic_class TEXT DEFAULT 'minor',
+        image_url TEXT,
+        image_filename TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (route_id) REFERENCES routes(id),
@@ -475,12 +541,36 @@ ipcMain.handle('db-init', async () => {
         workshop_id INTEGER,
         timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
         notes TEXT,
+        sample_id INTEGER,
         FOREIGN KEY (feature_id) REFERENCES features(id),
         FOREIGN KEY (route_id) REFERENCES routes(id),
         FOREIGN KEY (product_id) REFERENCES products(id),
         FOREIGN KEY (gamma_id) REFERENCES gammas(id),
         FOREIGN KEY (operator_id) REFERENCES users(id),
         FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id),
+        FOREIGN KEY (sample_id) REFERENCES measurement_samples(id)
+      );
+      
+      CREATE TABLE IF NOT EXISTS measurement_samples (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id INTEGER,
+        route_id INTEGER,
+        gamma_id INTEGER,
+        serial_number TEXT,
+        lot_number TEXT,
+        batch TEXT,
+        subgroup_number INTEGER,
+        operator_id INTEGER,
+        workstation_id INTEGER,
+        workshop_id INTEGER,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        notes TEXT,
+        FOREIGN KEY (product_id) REFERENCES products(id),
+        FOREIGN KEY (route_id) REFERENCES routes(id),
+        FOREIGN KEY (gamma_id) REFERENCES gammas(id),
+        FOREIGN KEY (operator_id) REFERENCES users(id),
+        FOREIGN KEY (workstation_id) REFERENCES workstations(id),
         FOREIGN KEY (workshop_id) REFERENCES workshops(id)
       );
       
@@ -524,7 +614,6 @@ ipcMain.handle('db-init', async () => {
       );
     `);
     
-    db.close();
     return { success: true };
   } catch (error) {
     return { success: false, error: error.message };
@@ -534,13 +623,11 @@ ipcMain.handle('db-init', async () => {
 // Reset database handler
 ipcMain.handle('reset-database', async () => {
   try {
-    const dbPath = path.join(app.getPath('userData'), 'spc-dashboard.db');
+    const dbPath = getDatabasePath();
     
-    // Check if database file exists
-    if (fs.existsSync(dbPath)) {
-      fs.unlinkSync(dbPath);
-      console.log('Database file deleted successfully');
-    }
+    closeDatabase();
+    removeDatabaseFiles(dbPath);
+    console.log('Database file deleted successfully');
     
     return { success: true };
   } catch (error) {
@@ -551,9 +638,14 @@ ipcMain.handle('reset-database', async () => {
 
 ipcMain.handle('backup-database', async () => {
   try {
-    const dbPath = path.join(app.getPath('userData'), 'spc-dashboard.db');
+    const dbPath = getDatabasePath();
     const backupPath = path.join(app.getPath('userData'), `spc-dashboard-backup-${Date.now()}.db`);
     
+    // Move committed WAL content into the main file before copying it
+    if (database) {
+      database.pragma('wal_checkpoint(TRUNCATE)');
+    }
+    
     console.log('Backup request received:');
     console.log('  Source path:', dbPath);
     console.log('  Backup path:', backupPath);
@@ -593,7 +685,7 @@ ipcMain.handle('backup-database', async () => {
 
 ipcMain.handle('restore-database', async (event, backupPath) => {
   try {
-    const dbPath = path.join(app.getPath('userData'), 'spc-dashboard.db');
+    const dbPath = getDatabasePath();
     
     console.log('Restore request received:');
     console.log('  Backup path:', backupPath);
@@ -606,7 +698,10 @@ ipcMain.handle('restore-database', async (event, backupPath) => {
       const backupStats = fs.statSync(backupPath);
       console.log('  Backup file size:', backupStats.size, 'bytes');
       
-      // Copy the backup file
+      // Close the connection so the copied file is reopened, and drop the
+      // WAL files of the replaced database
+      closeDatabase();
+      removeDatabaseFiles(dbPath);
       fs.copyFileSync(backupPath, dbPath);
       
       // Verify the copy
@@ -626,6 +721,53 @@ ipcMain.handle('restore-database', async (event, backupPath) => {
   }
 });
 
+// The renderer may only read the file the user picked from the Import Data menu
+ipcMain.handle('read-import-file', async (event, filePath) => {
+  try {
+    if (!importFilePaths.includes(filePath)) {
+      return { success: false, error: 'File was not selected for import' };
+    }
+
+    const data = fs.readFileSync(filePath);
+    return { success: true, data: new Uint8Array(data), fileName: path.basename(filePath) };
+  } catch (error) {
+    console.error('Error reading import file:', error);
+    return { success: false, error: error.message };
+  }
+});
+
+// Renders a self-contained HTML document (control plans) in a hidden window
+// and saves it as a PDF where the user chooses
+ipcMain.handle('save-html-as-pdf', async (event, html, defaultFileName) => {
+  const tempPath = path.join(app.getPath('temp'), `spc-print-${Date.now()}.html`);
+  let printWindow = null;
+  try {
+    const result = await dialog.showSaveDialog(mainWindow, {
+      defaultPath: defaultFileName,
+      filters: [{ name: 'PDF', extensions: ['pdf'] }]
+    });
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true };
+    }
+
+    fs.writeFileSync(tempPath, html, 'utf8');
+    printWindow = new BrowserWindow({
+      show: false,
+      webPreferences: { nodeIntegration: false, contextIsolation: true, javascript: false }
+    });
+    await printWindow.loadFile(tempPath);
+    const pdf = await printWindow.webContents.printToPDF({ landscape: true, printBackground: true, pageSize: 'A4' });
+    fs.writeFileSync(result.filePath, pdf);
+    return { success: true, filePath: result.filePath };
+  } catch (error) {
+    console.error('Error saving PDF:', error);
+    return { success: false, error: error.message };
+  } finally {
+    if (printWindow) printWindow.destroy();
+    if (fs.existsSync(tempPath)) fs.unlinkSync(tempPath);
+  }
+});
+
 ipcMain.handle('show-open-dialog', async () => {
   try {
     const { dialog } = require('electron');
@@ -692,6 +834,10 @@ app.whenReady().then(() => {
   });
 });
 
+app.on('will-quit', () => {
+  closeDatabase();
+});
+
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
     app.quit();
@@ -6,12 +6,15 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // Database operations
   dbExecute: (sql, params) => ipcRenderer.invoke('db-execute', sql, params),
   dbQuery: (sql, params) => ipcRenderer.invoke('db-query', sql, params),
+  dbTransaction: (action) => ipcRenderer.invoke('db-transaction', action),
   dbInit: () => ipcRenderer.invoke('db-init'),
   resetDatabase: () => ipcRenderer.invoke('reset-database'),
   backupDatabase: () => ipcRenderer.invoke('backup-database'),
   restoreDatabase: (backupPath) => ipcRenderer.invoke('restore-database', backupPath),
   showOpenDialog: () => ipcRenderer.invoke('show-open-dialog'),
   validateBackupAdminPassword: (backupPath, password) => ipcRenderer.invoke('validate-backup-admin-password', backupPath, password),
+  readImportFile: (filePath) => ipcRenderer.invoke('read-import-file', filePath),
+  saveHtmlAsPdf: (html, defaultFileName) => ipcRenderer.invoke('save-html-as-pdf', html, defaultFileName),
   
   // Menu event listeners
   onMenuNewProcess: (callback) => ipcRenderer.on('menu-new-process', callback),
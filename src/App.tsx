@@ -5,6 +5,12 @@ import { useUserStore } from './stores/useUserStore';
 import { useI18nStore } from './stores/useI18nStore';
 import { db } from './services/database';
 import { navigationService } from './services/navigationService';
+import { permissionService } from './services/permissionService';
+import { workshopScopeService } from './services/workshopScopeService';
+import { gaugeService } from './services/gaugeService';
+import { notificationRuleService } from './services/notificationRuleService';
+import { inspectionScheduleService } from './services/inspectionScheduleService';
+import { usePermissions } from './hooks/usePermissions';
 import { useNavigationHistory } from './services/navigationHistory';
 import LoginForm from './components/auth/LoginForm';
 import FirstTimeSetup from './components/auth/FirstTimeSetup';
@@ -19,6 +25,14 @@ import ProductsWithViews from './components/modules/ProductsWithViews';
 import FeaturesSimple from './components/modules/FeaturesSimple';
 import RoutesWithViews from './components/modules/RoutesWithViews';
 import Measurements from './components/modules/Measurements';
+import CapabilityReport from './components/modules/CapabilityReport';
+import GageRR from './components/modules/GageRR';
+import Gauges from './components/modules/Gauges';
+import ReactionPlans from './components/modules/ReactionPlans';
+import NotificationRules from './components/modules/NotificationRules';
+import InspectionPlans from './components/modules/InspectionPlans';
+import ControlPlans from './components/modules/ControlPlans';
+import NonconformanceReports from './components/modules/NonconformanceReports';
 import Users from './components/modules/Users';
 import Groups from './components/modules/Groups';
 import RegistrationCodes from './components/modules/RegistrationCodes';
@@ -31,16 +45,24 @@ import StorageSettings from './components/modules/StorageSettings';
 import SystemSettings from './components/modules/SystemSettings';
 import SettingsPanel from './components/ui/SettingsPanel';
 import NotificationCenter from './components/ui/NotificationCenter';
+import MeasurementImportWizard from './components/ui/MeasurementImportWizard';
+import QdasExchangeDialog from './components/ui/QdasExchangeDialog';
 // import NavigationDebug from './components/ui/NavigationDebug';
 // import Breadcrumb from './components/ui/Breadcrumb';
 
-type ModuleType = 'home' | 'production-dashboard' | 'user-preferences' | 'sections' | 'families' | 'products' | 'features' | 'gammas' | 'measurements' | 'users' | 'groups' | 'registration-codes' | 'user-validation' | 'database' | 'database-crud' | 'translations' | 'logs' | 'storage' | 'system-settings';
+type ModuleType = 'home' | 'production-dashboard' | 'user-preferences' | 'sections' | 'families' | 'products' | 'features' | 'gammas' | 'measurements' | 'capability' | 'gage-rr' | 'gauges' | 'reaction-plans' | 'notification-rules' | 'inspection-plans' | 'control-plans' | 'ncr' | 'users' | 'groups' | 'registration-codes' | 'user-validation' | 'database' | 'database-crud' | 'translations' | 'logs' | 'storage' | 'system-settings';
+
+// Files picked from the Import Data menu go to the Q-DAS import instead of the measurement wizard
+const isQdasFile = (filePath: string) => /\.(dfq|dfd|dfx)$/i.test(filePath);
+
+const NOTIFICATION_CHECK_INTERVAL_MS = 5 * 60 * 1000;
 
 function App() {
   const { colorBlindMode } = useThemeStore();
   const { currentUser, setCurrentUser, logout, needsWorkshopSelection, needsWorkstationSelection } = useUserStore();
   const { loadTranslations } = useI18nStore();
   const { push } = useNavigationHistory();
+  const { canAccessModule } = usePermissions();
   const [currentModule, setCurrentModule] = useState<ModuleType>('home');
   const [needsFirstTimeSetup, setNeedsFirstTimeSetup] = useState(false);
   const [checkingSetup, setCheckingSetup] = useState(true);
@@ -49,6 +71,7 @@ function App() {
   const [showNotifications, setShowNotifications] = useState(false);
   const [workshops, setWorkshops] = useState<any[]>([]);
   const [skipProductionFlow, setSkipProductionFlow] = useState(false);
+  const [importFilePath, setImportFilePath] = useState<string | null>(null);
 
   // Load workshops for navigation
   useEffect(() => {
@@ -66,6 +89,50 @@ function App() {
     }
   }, [currentUser]);
 
+  // Resolve the effective permissions and workshops of the logged-in user
+  useEffect(() => {
+    permissionService.setUser(currentUser);
+    workshopScopeService.setUser(currentUser);
+  }, [currentUser]);
+
+  // Warn about gauges coming due for calibration once someone logs in
+  useEffect(() => {
+    if (!currentUser) return;
+    gaugeService.raiseCalibrationNotifications().catch(error => {
+      console.error('Failed to raise calibration notifications:', error);
+    });
+  }, [currentUser]);
+
+  // Time-based notification rules, escalations and missed inspections are
+  // checked while someone is logged in
+  useEffect(() => {
+    if (!currentUser) return;
+    const runChecks = () => {
+      notificationRuleService.runScheduledChecks().catch(error => {
+        console.error('Failed to run notification rules:', error);
+      });
+      inspectionScheduleService.recordMissedChecks().catch(error => {
+        console.error('Failed to record missed inspections:', error);
+      });
+    };
+    runChecks();
+    const interval = setInterval(runChecks, NOTIFICATION_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [currentUser]);
+
+  // File > Import Data in the Electron menu opens the measurement import wizard
+  useEffect(() => {
+    if (!window.electronAPI?.onMenuImportData) return;
+
+    window.electronAPI.onMenuImportData((_event, filePath) => {
+      if (!permissionService.ensure('measurements')) return;
+      setImportFilePath(filePath);
+    });
+    return () => {
+      window.electronAPI.removeAllListeners('menu-import-data');
+    };
+  }, []);
+
   // Subscribe to navigation service
   useEffect(() => {
     const unsubscribe = navigationService.subscribe((state) => {
@@ -232,7 +299,6 @@ function App() {
 
   // Simple authentication check - show app or login
   const isAuthenticated = currentUser !== null;
-  const isAdmin = currentUser?.role === 'admin';
   const isProductionUser = currentUser?.role === 'prod';
   
   if (!isAuthenticated) {
@@ -268,6 +334,10 @@ function App() {
   }
 
   const renderModule = () => {
+    if (!canAccessModule(currentModule)) {
+      return <div>Access Denied</div>;
+    }
+
     switch (currentModule) {
       case 'home':
         return <Dashboard onNavigate={(module: string, id?: number) => {
@@ -324,26 +394,42 @@ function App() {
         />;
       case 'measurements':
         return <Measurements />;
+      case 'capability':
+        return <CapabilityReport />;
+      case 'gage-rr':
+        return <GageRR />;
+      case 'gauges':
+        return <Gauges />;
+      case 'reaction-plans':
+        return <ReactionPlans />;
+      case 'notification-rules':
+        return <NotificationRules />;
+      case 'inspection-plans':
+        return <InspectionPlans />;
+      case 'control-plans':
+        return <ControlPlans />;
+      case 'ncr':
+        return <NonconformanceReports />;
       case 'users':
-        return isAdmin ? <Users /> : <div>Access Denied</div>;
+        return <Users />;
       case 'groups':
-        return isAdmin ? <Groups /> : <div>Access Denied</div>;
+        return <Groups />;
       case 'registration-codes':
-        return isAdmin ? <RegistrationCodes /> : <div>Access Denied</div>;
+        return <RegistrationCodes />;
       case 'user-validation':
-        return (isAdmin || currentUser?.role === 'method') ? <UserValidation /> : <div>Access Denied</div>;
+        return <UserValidation />;
       case 'database':
-        return isAdmin ? <DatabaseManagement /> : <div>Access Denied</div>;
+        return <DatabaseManagement />;
       case 'database-crud':
-        return isAdmin ? <DatabaseCRUD /> : <div>Access Denied</div>;
+        return <DatabaseCRUD />;
       case 'translations':
-        return isAdmin ? <TranslationCRUD /> : <div>Access Denied</div>;
+        return <TranslationCRUD />;
       case 'logs':
-        return isAdmin ? <LogsViewer /> : <div>Access Denied</div>;
+        return <LogsViewer />;
       case 'storage':
-        return isAdmin ? <StorageSettings /> : <div>Access Denied</div>;
+        return <StorageSettings />;
       case 'system-settings':
-        return isAdmin ? <SystemSettings /> : <div>Access Denied</div>;
+        return <SystemSettings />;
       default:
         return <Dashboard onNavigate={(module) => setCurrentModule(module as ModuleType)} />;
     }
@@ -355,7 +441,6 @@ function App() {
       <Sidebar
         currentModule={currentModule}
         setCurrentModule={(module: string) => setCurrentModule(module as ModuleType)}
-        isAdmin={isAdmin}
         isAuthenticated={isAuthenticated}
         onSettingsClick={() => setShowSettings(true)}
         onLogout={logout}
@@ -409,6 +494,19 @@ function App() {
       isOpen={showNotifications} 
       onClose={() => setShowNotifications(false)} 
     />
+
+    <MeasurementImportWizard
+      isOpen={importFilePath !== null && !isQdasFile(importFilePath)}
+      filePath={importFilePath}
+      onClose={() => setImportFilePath(null)}
+    />
+
+    <QdasExchangeDialog
+      isOpen={importFilePath !== null && isQdasFile(importFilePath)}
+      initialMode="import"
+      filePath={importFilePath}
+      onClose={() => setImportFilePath(null)}
+    />
   </div>
 );
 }
@@ -19,25 +19,36 @@ import {
   StarIcon,
   HeartIcon,
   TableCellsIcon,
-  LanguageIcon
+  LanguageIcon,
+  ChartBarIcon,
+  ScaleIcon,
+  WrenchScrewdriverIcon,
+  ShieldExclamationIcon,
+  BellAlertIcon,
+  CalendarDaysIcon,
+  DocumentCheckIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline';
 import { useI18nStore } from '../../stores/useI18nStore';
 import { useUserStore } from '../../stores/useUserStore';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
 import { db } from '../../services/database';
 
 interface SidebarProps {
   currentModule: string;
   setCurrentModule: (module: string) => void;
-  isAdmin: boolean;
   isAuthenticated: boolean;
   onSettingsClick: () => void;
   onLogout?: () => void;
   onNotificationsClick?: () => void;
 }
 
-const Sidebar = ({ currentModule, setCurrentModule, isAdmin, isAuthenticated, onSettingsClick, onLogout, onNotificationsClick }: SidebarProps) => {
+const Sidebar = ({ currentModule, setCurrentModule, isAuthenticated, onSettingsClick, onLogout, onNotificationsClick }: SidebarProps) => {
   const { t } = useI18nStore();
   const { currentUser } = useUserStore();
+  const { canAccessModule } = usePermissions();
+  const { scope, setPlantWide } = useWorkshopScope();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const [isAdminSectionOpen, setIsAdminSectionOpen] = useState(true);
   const [sidebarAlwaysVisible, setSidebarAlwaysVisible] = useState(false);
@@ -71,9 +82,19 @@ const Sidebar = ({ currentModule, setCurrentModule, isAdmin, isAuthenticated, on
     const mainItems = [
       { id: 'home', label: t('nav.dashboard'), icon: HomeIcon },
       { id: 'sections', label: t('nav.sections'), icon: FolderIcon },
+      { id: 'families', label: t('nav.families'), icon: FolderIcon },
+      { id: 'products', label: t('nav.products'), icon: CubeIcon },
       { id: 'gammas', label: t('nav.gammas'), icon: CogIcon },
       { id: 'measurements', label: t('nav.measurements'), icon: ClipboardDocumentListIcon },
-    ];
+      { id: 'capability', label: t('nav.capabilityReport'), icon: ChartBarIcon },
+      { id: 'gage-rr', label: t('nav.gageRR'), icon: ScaleIcon },
+      { id: 'gauges', label: t('nav.gauges'), icon: WrenchScrewdriverIcon },
+      { id: 'reaction-plans', label: t('nav.reactionPlans'), icon: ShieldExclamationIcon },
+      { id: 'notification-rules', label: t('nav.notificationRules'), icon: BellAlertIcon },
+      { id: 'inspection-plans', label: t('nav.inspectionPlans'), icon: CalendarDaysIcon },
+      { id: 'control-plans', label: t('nav.controlPlans'), icon: DocumentCheckIcon },
+      { id: 'ncr', label: t('nav.ncr'), icon: ExclamationTriangleIcon },
+    ].filter(item => canAccessModule(item.id));
 
     // Add production user specific items
     if (currentUser?.role === 'prod') {
@@ -83,16 +104,8 @@ const Sidebar = ({ currentModule, setCurrentModule, isAdmin, isAuthenticated, on
       );
     }
 
-    // Add management items for admins and methods (NOT for production users)
-    if ((isAdmin || currentUser?.role === 'method') && currentUser?.role !== 'prod') {
-      mainItems.splice(2, 0, 
-        { id: 'families', label: t('nav.families'), icon: FolderIcon },
-        { id: 'products', label: t('nav.products'), icon: CubeIcon }
-      );
-    }
-
-    // Admin-only items
-    const adminItems = isAdmin ? [
+    // Administration items, each shown when the user's group grants it
+    const adminItems = [
       { id: 'users', label: t('nav.users'), icon: UserGroupIcon },
       { id: 'groups', label: t('nav.groups'), icon: UserIcon },
       { id: 'registration-codes', label: t('nav.registrationCodes'), icon: KeyIcon },
@@ -103,7 +116,7 @@ const Sidebar = ({ currentModule, setCurrentModule, isAdmin, isAuthenticated, on
       { id: 'database', label: t('nav.database'), icon: ServerIcon },
       { id: 'storage', label: t('nav.storage'), icon: CircleStackIcon },
       { id: 'logs', label: t('nav.logs'), icon: DocumentTextIcon }
-    ] : [];
+    ].filter(item => canAccessModule(item.id));
 
     return {
       main: mainItems,
@@ -168,6 +181,17 @@ const Sidebar = ({ currentModule, setCurrentModule, isAdmin, isAuthenticated, on
 {t('auth.noLoginRequired')}
             </div>
           )}
+          {isAuthenticated && scope.canSwitch && scope.workshopIds.length > 0 && (
+            <label className="mt-3 flex items-center space-x-2 text-xs text-gray-600 dark:text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={scope.plantWide}
+                onChange={(e) => setPlantWide(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              <span>{t('nav.plantWideView')}</span>
+            </label>
+          )}
         </div>
 
         {/* Navigation */}
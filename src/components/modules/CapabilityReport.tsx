@@ -0,0 +1,478 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { ChartBarIcon, FunnelIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useI18nStore } from '../../stores/useI18nStore';
+import { db } from '../../services/database';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
+import { CapabilityMethod, CharacteristicType, DataPoint, FeatureSpecification, FilterParams, IndexInterval } from '../../types/spc';
+import {
+  MIN_SUBGROUP_SIZE,
+  buildHistogram,
+  buildSubgroups,
+  calculateCapabilityIntervals,
+  calculateObservedPpm,
+  calculateProcessCapability,
+  calculateStatisticalSummary,
+  hasRecordedSubgroups,
+  normalProbabilityPoints
+} from '../../utils/statistics';
+import { formatSpecification, getSpecificationLimits } from '../../utils/specifications';
+import CapabilityHistogram from '../ui/CapabilityHistogram';
+import ProbabilityPlot from '../ui/ProbabilityPlot';
+
+interface ReportFeature extends FeatureSpecification {
+  id: number;
+  name: string;
+  product_name?: string;
+  characteristic_type?: CharacteristicType;
+}
+
+interface MeasurementRow {
+  id: number;
+  measured_value: number;
+  timestamp: string;
+  operator?: string;
+  subgroup_number?: number;
+}
+
+const METHOD_OPTIONS: { value: CapabilityMethod | 'auto'; label: string }[] = [
+  { value: 'auto', label: 'Automatic' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'box-cox', label: 'Box-Cox' },
+  { value: 'johnson', label: 'Johnson' },
+  { value: 'percentile', label: 'Percentile (ISO 22514-2)' },
+];
+
+const SUBGROUP_SIZES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+// Subgroup size value meaning "use the subgroups recorded with the samples"
+const RECORDED_SUBGROUPS = 0;
+
+const formatIndex = (value: number | null | undefined): string =>
+  value === null || value === undefined || !Number.isFinite(value) ? '-' : value.toFixed(2);
+
+const formatPpm = (value: number): string => (Number.isFinite(value) ? Math.round(value).toLocaleString() : '-');
+
+const indexColor = (value: number | null): string => {
+  if (value === null) return 'text-gray-500';
+  if (value >= 1.33) return 'text-green-600 dark:text-green-400';
+  if (value >= 1.0) return 'text-yellow-600 dark:text-yellow-400';
+  return 'text-red-600 dark:text-red-400';
+};
+
+const CapabilityReport = () => {
+  const { t } = useI18nStore();
+  const { scope } = useWorkshopScope();
+  const [features, setFeatures] = useState<ReportFeature[]>([]);
+  const [workstations, setWorkstations] = useState<{ id: number; name: string }[]>([]);
+  const [operators, setOperators] = useState<{ id: number; username: string }[]>([]);
+  const [featureId, setFeatureId] = useState<number | null>(null);
+  const [filters, setFilters] = useState<FilterParams>({});
+  const [showFilters, setShowFilters] = useState(true);
+  const [method, setMethod] = useState<CapabilityMethod | 'auto'>('auto');
+  const [subgroupSize, setSubgroupSize] = useState(1);
+  const [measurements, setMeasurements] = useState<DataPoint[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    loadOptions();
+  }, [scope]);
+
+  const loadOptions = async () => {
+    try {
+      const featureScope = workshopScopeService.condition('p.workshop_id');
+      const workstationScope = workshopScopeService.condition('workshop_id');
+      const [featureRows, workstationRows, operatorRows] = await Promise.all([
+        db.queryAll(
+          `SELECT f.*, p.name as product_name
+           FROM features f
+           LEFT JOIN products p ON f.product_id = p.id
+           WHERE COALESCE(f.characteristic_type, 'variable') = 'variable' AND ${featureScope.sql}
+           ORDER BY p.name, f.name`,
+          featureScope.params
+        ),
+        db.queryAll(`SELECT id, name FROM workstations WHERE ${workstationScope.sql} ORDER BY name`, workstationScope.params),
+        db.queryAll(
+          `SELECT DISTINCT u.id, u.username
+           FROM users u
+           JOIN measurements m ON m.operator_id = u.id
+           ORDER BY u.username`
+        ),
+      ]);
+      setFeatures(featureRows);
+      setWorkstations(workstationRows);
+      setOperators(operatorRows);
+    } catch (error) {
+      console.error('Error loading capability report options:', error);
+      toast.error('Failed to load features');
+    }
+  };
+
+  const loadMeasurements = useCallback(async () => {
+    if (!featureId) return;
+    try {
+      setLoading(true);
+      const conditions = ['m.feature_id = ?'];
+      const params: (string | number)[] = [featureId];
+      if (filters.dateFrom) {
+        conditions.push('date(m.timestamp) >= date(?)');
+        params.push(filters.dateFrom);
+      }
+      if (filters.dateTo) {
+        conditions.push('date(m.timestamp) <= date(?)');
+        params.push(filters.dateTo);
+      }
+      if (filters.workstationId) {
+        conditions.push('m.workstation_id = ?');
+        params.push(filters.workstationId);
+      }
+      if (filters.userId) {
+        conditions.push('m.operator_id = ?');
+        params.push(filters.userId);
+      }
+
+      const rows: MeasurementRow[] = await db.queryAll(
+        `SELECT m.id, m.measured_value, m.timestamp, u.username as operator, s.subgroup_number
+         FROM measurements m
+         LEFT JOIN users u ON m.operator_id = u.id
+         LEFT JOIN measurement_samples s ON m.sample_id = s.id
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY m.timestamp, m.id`,
+        params
+      );
+      setMeasurements(rows.map(row => ({
+        id: row.id.toString(),
+        value: Number(row.measured_value),
+        timestamp: new Date(row.timestamp),
+        subgroup: row.subgroup_number ?? undefined,
+        operator: row.operator,
+      })));
+    } catch (error) {
+      console.error('Error loading measurements:', error);
+      toast.error('Failed to load measurements');
+    } finally {
+      setLoading(false);
+    }
+  }, [featureId, filters]);
+
+  useEffect(() => {
+    if (featureId) {
+      loadMeasurements();
+    } else {
+      setMeasurements([]);
+    }
+  }, [featureId, loadMeasurements]);
+
+  const handleFilterChange = (key: keyof FilterParams, value: string) => {
+    setFilters(prev => ({
+      ...prev,
+      [key]: value === '' ? undefined : key === 'workstationId' || key === 'userId' ? parseInt(value) : value
+    }));
+  };
+
+  const feature = features.find(f => f.id === featureId) || null;
+
+  const report = useMemo(() => {
+    if (!feature || measurements.length === 0) return null;
+
+    const specifications = getSpecificationLimits(feature);
+    const useRecorded = subgroupSize === RECORDED_SUBGROUPS && hasRecordedSubgroups(measurements);
+    const individuals = measurements.map(point => ({ ...point, subgroup: undefined }));
+    const subgroups = useRecorded || subgroupSize > 1
+      ? buildSubgroups(useRecorded ? measurements : individuals, subgroupSize)
+          .filter(subgroup => subgroup.values.length >= MIN_SUBGROUP_SIZE)
+      : buildSubgroups(individuals, 1);
+    const values = subgroups.flatMap(subgroup => subgroup.values);
+    if (values.length === 0) return null;
+
+    const capability = calculateProcessCapability(subgroups, specifications, { method });
+    // Effective degrees of freedom of R̄/d2 for rational subgroups
+    const averageSize = values.length / subgroups.length;
+    const withinDegreesOfFreedom = averageSize > 1 ? 0.9 * subgroups.length * (averageSize - 1) : undefined;
+
+    return {
+      specifications,
+      values,
+      capability,
+      intervals: calculateCapabilityIntervals(capability, 0.95, withinDegreesOfFreedom),
+      summary: calculateStatisticalSummary(values),
+      histogram: buildHistogram(values),
+      probabilityPoints: normalProbabilityPoints(values),
+      observed: calculateObservedPpm(values, specifications),
+    };
+  }, [feature, measurements, method, subgroupSize]);
+
+  const decimals = feature?.decimal_places ?? 3;
+  const formatValue = (value: number | undefined) =>
+    value === undefined || !Number.isFinite(value) ? '-' : value.toFixed(decimals);
+
+  const indexCard = (label: string, interval: IndexInterval | null, value: number | null) => (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">{label}</p>
+      <p className={`text-2xl font-bold ${indexColor(value)}`}>{formatIndex(value)}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        {interval ? `95% CI ${formatIndex(interval.lower)} – ${formatIndex(interval.upper)}` : '95% CI -'}
+      </p>
+    </div>
+  );
+
+  const summaryRows: [string, string][] = report ? [
+    ['Count', report.summary.count.toString()],
+    ['Mean', formatValue(report.summary.mean)],
+    ['Median', formatValue(report.summary.median)],
+    ['Std. deviation (overall)', formatValue(report.capability.overallSigma)],
+    ['Std. deviation (within)', formatValue(report.capability.withinSigma)],
+    ['Minimum', formatValue(report.summary.min)],
+    ['Maximum', formatValue(report.summary.max)],
+    ['Range', formatValue(report.summary.range)],
+    ['Q1', formatValue(report.summary.q1)],
+    ['Q3', formatValue(report.summary.q3)],
+    ['IQR', formatValue(report.summary.iqr)],
+    ['Skewness', formatIndex(report.summary.skewness)],
+    ['Kurtosis', formatIndex(report.summary.kurtosis)],
+  ] : [];
+
+  return (
+    <div className="p-8">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">{t('nav.capabilityReport')}</h1>
+          <p className="text-gray-600 dark:text-gray-400">Process capability study for a single feature</p>
+        </div>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className="btn btn-secondary flex items-center"
+        >
+          <FunnelIcon className="h-4 w-4 mr-2" />
+          Filters
+        </button>
+      </div>
+
+      {/* Selection and filters */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Feature</label>
+            <select
+              value={featureId ?? ''}
+              onChange={(e) => setFeatureId(e.target.value ? parseInt(e.target.value) : null)}
+              className="input"
+            >
+              <option value="">Select a feature</option>
+              {features.map(f => (
+                <option key={f.id} value={f.id}>
+                  {f.product_name ? `${f.product_name} – ${f.name}` : f.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Capability Method</label>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as CapabilityMethod | 'auto')}
+              className="input"
+            >
+              {METHOD_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Subgroup Size</label>
+            <select
+              value={subgroupSize}
+              onChange={(e) => setSubgroupSize(parseInt(e.target.value))}
+              className="input"
+            >
+              {hasRecordedSubgroups(measurements) && (
+                <option value={RECORDED_SUBGROUPS}>Recorded subgroups</option>
+              )}
+              {SUBGROUP_SIZES.map(size => (
+                <option key={size} value={size}>{size === 1 ? '1 (individuals, MR̄/d2)' : size}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {showFilters && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+              <input
+                type="date"
+                value={filters.dateFrom || ''}
+                onChange={(e) => handleFilterChange('dateFrom', e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+              <input
+                type="date"
+                value={filters.dateTo || ''}
+                onChange={(e) => handleFilterChange('dateTo', e.target.value)}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Workstation</label>
+              <select
+                value={filters.workstationId ?? ''}
+                onChange={(e) => handleFilterChange('workstationId', e.target.value)}
+                className="input"
+              >
+                <option value="">All workstations</option>
+                {workstations.map(workstation => (
+                  <option key={workstation.id} value={workstation.id}>{workstation.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Operator</label>
+              <select
+                value={filters.userId ?? ''}
+                onChange={(e) => handleFilterChange('userId', e.target.value)}
+                className="input"
+              >
+                <option value="">All operators</option>
+                {operators.map(operator => (
+                  <option key={operator.id} value={operator.id}>{operator.username}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!feature ? (
+        <div className="text-center py-16">
+          <ChartBarIcon className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">Select a feature to view its capability study</p>
+        </div>
+      ) : loading ? (
+        <div className="text-center py-16 text-gray-600 dark:text-gray-400">Loading measurements...</div>
+      ) : !report ? (
+        <div className="text-center py-16">
+          <ExclamationTriangleIcon className="h-16 w-16 text-yellow-500 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-400">No measurements match the selected filters</p>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          <div className="flex flex-wrap items-baseline gap-x-6 gap-y-1 text-sm text-gray-600 dark:text-gray-400">
+            <span className="text-lg font-semibold text-gray-900 dark:text-white">{feature.name}</span>
+            <span>Specification: {formatSpecification(feature)}</span>
+            <span>{report.values.length} values</span>
+          </div>
+
+          {/* Capability indices */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {indexCard('Cp', report.intervals.cp, report.capability.cp)}
+            {indexCard('Cpk', report.intervals.cpk, report.capability.cpk)}
+            {indexCard('Pp', report.intervals.pp, report.capability.pp)}
+            {indexCard('Ppk', report.intervals.ppk, report.capability.ppk)}
+          </div>
+          {report.capability.methodReason && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              <span className="font-medium">Method: {report.capability.method}</span> – {report.capability.methodReason}
+              {report.capability.cpm !== null && ` · Cpm ${formatIndex(report.capability.cpm)}`}
+            </p>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Histogram */}
+            <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Histogram</h3>
+              <CapabilityHistogram
+                bins={report.histogram}
+                count={report.values.length}
+                mean={report.capability.mean}
+                overallSigma={report.capability.overallSigma}
+                withinSigma={report.capability.withinSigma}
+                specLimits={report.specifications}
+                unit={feature.unit || undefined}
+                decimals={decimals}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Solid line: overall normal fit · Dashed line: within-subgroup normal fit
+              </p>
+            </div>
+
+            {/* Statistical summary */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Summary</h3>
+              <table className="min-w-full text-sm">
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {summaryRows.map(([label, value]) => (
+                    <tr key={label}>
+                      <td className="py-1 text-gray-600 dark:text-gray-400">{label}</td>
+                      <td className="py-1 text-right font-mono text-gray-900 dark:text-white">{value}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Normal probability plot */}
+            <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Normal Probability Plot</h3>
+              <ProbabilityPlot
+                points={report.probabilityPoints}
+                mean={report.capability.mean}
+                sigma={report.capability.overallSigma}
+                decimals={decimals}
+              />
+              {report.capability.normality && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Anderson-Darling A² = {report.capability.normality.statistic.toFixed(3)}, p {report.capability.normality.pValue < 0.001 ? '< 0.001' : `= ${report.capability.normality.pValue.toFixed(3)}`}
+                </p>
+              )}
+            </div>
+
+            {/* Observed vs expected PPM */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Nonconforming (PPM)</h3>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 dark:text-gray-400">
+                    <th className="py-1 text-left font-medium"></th>
+                    <th className="py-1 text-right font-medium">Observed</th>
+                    <th className="py-1 text-right font-medium">Expected</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  <tr>
+                    <td className="py-1 text-gray-600 dark:text-gray-400">&lt; LSL</td>
+                    <td className="py-1 text-right font-mono text-gray-900 dark:text-white">{formatPpm(report.observed.ppmBelowLsl)}</td>
+                    <td className="py-1 text-right font-mono text-gray-900 dark:text-white">{formatPpm(report.capability.ppmBelowLsl)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 text-gray-600 dark:text-gray-400">&gt; USL</td>
+                    <td className="py-1 text-right font-mono text-gray-900 dark:text-white">{formatPpm(report.observed.ppmAboveUsl)}</td>
+                    <td className="py-1 text-right font-mono text-gray-900 dark:text-white">{formatPpm(report.capability.ppmAboveUsl)}</td>
+                  </tr>
+                  <tr className="font-semibold">
+                    <td className="py-1 text-gray-900 dark:text-white">Total</td>
+                    <td className="py-1 text-right font-mono text-gray-900 dark:text-white">{formatPpm(report.observed.ppm)}</td>
+                    <td className="py-1 text-right font-mono text-gray-900 dark:text-white">{formatPpm(report.capability.ppm)}</td>
+                  </tr>
+                  <tr>
+                    <td className="py-1 text-gray-600 dark:text-gray-400">Total (within)</td>
+                    <td className="py-1 text-right font-mono text-gray-500">-</td>
+                    <td className="py-1 text-right font-mono text-gray-900 dark:text-white">{formatPpm(report.capability.ppmWithin)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CapabilityReport;
@@ -0,0 +1,569 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowDownIcon,
+  ArrowPathIcon,
+  ArrowUpIcon,
+  DocumentArrowDownIcon,
+  DocumentCheckIcon,
+  DocumentTextIcon,
+  PlusIcon,
+  PrinterIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { db } from '../../services/database';
+import {
+  ControlPlanHeaderInput,
+  ControlPlanRevisionRow,
+  ControlPlanRow,
+  controlPlanService
+} from '../../services/controlPlanService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useUserStore } from '../../stores/useUserStore';
+import { ControlPlanLine, ControlPlanPhase } from '../../types/spc';
+import {
+  CONTROL_PLAN_COLUMNS,
+  CONTROL_PLAN_PHASES,
+  ControlPlanSnapshot,
+  emptyControlPlanLine,
+  renderControlPlanHtml
+} from '../../utils/controlPlans';
+import { fromSqlTimestamp } from '../../utils/dateTime';
+
+type ExportFormat = 'print' | 'html' | 'pdf';
+
+const STATUS_BADGES: Record<string, string> = {
+  draft: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  released: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+};
+
+// Free-text columns get more room than codes and numbers
+const WIDE_COLUMNS: (keyof ControlPlanLine)[] = ['process_name', 'specification', 'measurement_technique', 'control_method', 'reaction_plan'];
+
+const toHeader = (plan: ControlPlanRow): ControlPlanHeaderInput => ({
+  planNumber: plan.plan_number,
+  phase: plan.phase,
+  partNumber: plan.part_number ?? '',
+  partName: plan.part_name ?? '',
+  supplierPlant: plan.supplier_plant ?? '',
+  keyContact: plan.key_contact ?? '',
+  coreTeam: plan.core_team ?? '',
+  notes: plan.notes ?? '',
+});
+
+const fileNameFor = (snapshot: ControlPlanSnapshot) =>
+  `${snapshot.plan.plan_number}-rev${snapshot.plan.revision}`.replace(/[^\w.-]+/g, '_');
+
+// Prints through a hidden frame so the page keeps the app's state
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
+
+const downloadHtml = (html: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${fileName}.html`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ControlPlans = () => {
+  const { can } = usePermissions();
+  const { currentUser } = useUserStore();
+  const [plans, setPlans] = useState<ControlPlanRow[]>([]);
+  const [routes, setRoutes] = useState<{ id: number; name: string; product_name?: string }[]>([]);
+  const [newRouteId, setNewRouteId] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [header, setHeader] = useState<ControlPlanHeaderInput | null>(null);
+  const [lines, setLines] = useState<ControlPlanLine[]>([]);
+  const [revisions, setRevisions] = useState<ControlPlanRevisionRow[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [changeDescription, setChangeDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const canManage = can('gammas', 'write');
+  const canSavePdf = !!window.electronAPI?.saveHtmlAsPdf;
+  const selected = plans.find(plan => plan.id === selectedId) ?? null;
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [planRows, routeRows] = await Promise.all([
+        controlPlanService.listPlans(),
+        db.queryAll(
+          `SELECT r.id, r.name, p.name as product_name FROM routes r
+           LEFT JOIN products p ON r.product_id = p.id
+           WHERE r.id NOT IN (SELECT route_id FROM control_plans)
+           ORDER BY p.name, r.name`
+        ),
+      ]);
+      setPlans(planRows);
+      setRoutes(routeRows);
+      return planRows;
+    } catch (error) {
+      console.error('Error loading control plans:', error);
+      toast.error('Failed to load control plans');
+      return [];
+    }
+  };
+
+  const openPlan = (plan: ControlPlanRow) => {
+    if (dirty && !confirm('Discard the unsaved changes to this control plan?')) return;
+    loadPlan(plan);
+  };
+
+  const loadPlan = async (plan: ControlPlanRow) => {
+    try {
+      const [snapshot, revisionRows] = await Promise.all([
+        controlPlanService.getSnapshot(plan.id),
+        controlPlanService.listRevisions(plan.id),
+      ]);
+      setSelectedId(plan.id);
+      setHeader(toHeader(plan));
+      setLines(snapshot.lines);
+      setRevisions(revisionRows);
+      setDirty(false);
+      setChangeDescription('');
+    } catch (error) {
+      console.error('Error loading control plan:', error);
+      toast.error('Failed to load the control plan');
+    }
+  };
+
+  const reopen = async (planId: number) => {
+    const planRows = await loadData();
+    const plan = planRows.find(row => row.id === planId);
+    if (plan) await loadPlan(plan);
+  };
+
+  const handleCreate = async () => {
+    if (!newRouteId) return;
+    try {
+      setSaving(true);
+      const planId = await controlPlanService.createFromRoute(Number(newRouteId), currentUser?.id ?? null);
+      if (planId === null) return;
+      toast.success('Control plan created from the route');
+      setNewRouteId('');
+      setDirty(false);
+      await reopen(planId);
+    } catch (error) {
+      console.error('Error creating control plan:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create the control plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (plan: ControlPlanRow) => {
+    if (!confirm(`Delete control plan ${plan.plan_number} and all its revisions?`)) return;
+    try {
+      if (!(await controlPlanService.deletePlan(plan.id))) return;
+      toast.success('Control plan deleted');
+      if (plan.id === selectedId) {
+        setSelectedId(null);
+        setDirty(false);
+      }
+      loadData();
+    } catch (error) {
+      console.error('Error deleting control plan:', error);
+      toast.error('Failed to delete the control plan');
+    }
+  };
+
+  const updateHeader = (field: keyof ControlPlanHeaderInput, value: string) => {
+    setHeader(prev => (prev ? { ...prev, [field]: value } : prev));
+    setDirty(true);
+  };
+
+  const updateLine = (index: number, field: keyof ControlPlanLine, value: string) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+    setDirty(true);
+  };
+
+  const moveLine = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= lines.length) return;
+    const next = [...lines];
+    [next[index], next[target]] = [next[target], next[index]];
+    setLines(next);
+    setDirty(true);
+  };
+
+  const removeLine = (index: number) => {
+    setLines(prev => prev.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  // Replaces the lines in the editor; nothing is stored until saved
+  const handleRegenerate = async () => {
+    if (!selected) return;
+    if (!confirm('Replace the lines with the current operations and features of the route? Manual edits will be lost once saved.')) return;
+    try {
+      setLines(await controlPlanService.generateLines(selected.route_id));
+      setDirty(true);
+    } catch (error) {
+      console.error('Error regenerating control plan:', error);
+      toast.error('Failed to read the route');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected || !header) return;
+    try {
+      setSaving(true);
+      if (!(await controlPlanService.savePlan(selected.id, header, lines, currentUser?.id ?? null))) return;
+      toast.success(selected.status === 'released' ? `Saved as draft revision ${selected.revision + 1}` : 'Control plan saved');
+      setDirty(false);
+      await reopen(selected.id);
+    } catch (error) {
+      console.error('Error saving control plan:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the control plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRelease = async () => {
+    if (!selected) return;
+    try {
+      setSaving(true);
+      if (!(await controlPlanService.releaseRevision(selected.id, changeDescription, currentUser?.id ?? null))) return;
+      toast.success(`Revision ${selected.revision} released`);
+      await reopen(selected.id);
+    } catch (error) {
+      console.error('Error releasing control plan:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to release the revision');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const exportDocument = async (snapshot: ControlPlanSnapshot, history: ControlPlanRevisionRow[], format: ExportFormat) => {
+    const html = renderControlPlanHtml(snapshot, history);
+    if (format === 'print') {
+      printHtml(html);
+    } else if (format === 'html') {
+      downloadHtml(html, fileNameFor(snapshot));
+    } else {
+      const result = await window.electronAPI.saveHtmlAsPdf(html, `${fileNameFor(snapshot)}.pdf`);
+      if (result.success) toast.success(`Saved ${result.filePath}`);
+      else if (!result.canceled) toast.error(result.error || 'Failed to save the PDF');
+    }
+  };
+
+  // The current plan as stored; unsaved edits are not exported
+  const exportCurrent = async (format: ExportFormat) => {
+    if (!selected) return;
+    if (dirty) {
+      toast.error('Save the control plan before exporting it');
+      return;
+    }
+    try {
+      await exportDocument(await controlPlanService.getSnapshot(selected.id), revisions, format);
+    } catch (error) {
+      console.error('Error exporting control plan:', error);
+      toast.error('Failed to export the control plan');
+    }
+  };
+
+  const exportRevision = async (revision: ControlPlanRevisionRow, format: ExportFormat) => {
+    try {
+      const snapshot: ControlPlanSnapshot = JSON.parse(revision.snapshot);
+      await exportDocument(snapshot, revisions.filter(item => item.revision <= revision.revision), format);
+    } catch (error) {
+      console.error('Error exporting control plan revision:', error);
+      toast.error('Failed to export the revision');
+    }
+  };
+
+  const renderExportButtons = (onExport: (format: ExportFormat) => void) => (
+    <div className="flex items-center space-x-2">
+      <button className="btn btn-secondary flex items-center text-xs" onClick={() => onExport('print')} title="Print">
+        <PrinterIcon className="h-4 w-4 mr-1" /> Print
+      </button>
+      <button className="btn btn-secondary flex items-center text-xs" onClick={() => onExport('html')} title="Save as HTML">
+        <DocumentTextIcon className="h-4 w-4 mr-1" /> HTML
+      </button>
+      {canSavePdf && (
+        <button className="btn btn-secondary flex items-center text-xs" onClick={() => onExport('pdf')} title="Save as PDF">
+          <DocumentArrowDownIcon className="h-4 w-4 mr-1" /> PDF
+        </button>
+      )}
+    </div>
+  );
+
+  const headerField = (field: keyof ControlPlanHeaderInput, label: string) => (
+    <div>
+      <label className="label block mb-1">{label}</label>
+      <input
+        className="input w-full"
+        value={header?.[field] ?? ''}
+        onChange={e => updateHeader(field, e.target.value)}
+        disabled={!canManage}
+      />
+    </div>
+  );
+
+  const renderEditor = () => {
+    if (!selected || !header) return null;
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {selected.plan_number} · revision {selected.revision}
+            <span className={`ml-2 inline-flex px-2 py-0.5 text-xs rounded-full ${STATUS_BADGES[selected.status]}`}>{selected.status}</span>
+            {dirty && <span className="ml-2 text-sm font-normal text-orange-600 dark:text-orange-400">Unsaved changes</span>}
+          </h2>
+          {renderExportButtons(exportCurrent)}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {headerField('planNumber', 'Control plan number')}
+          <div>
+            <label className="label block mb-1">Phase</label>
+            <select
+              className="input w-full"
+              value={header.phase}
+              onChange={e => updateHeader('phase', e.target.value as ControlPlanPhase)}
+              disabled={!canManage}
+            >
+              {CONTROL_PLAN_PHASES.map(phase => <option key={phase.value} value={phase.value}>{phase.label}</option>)}
+            </select>
+          </div>
+          {headerField('partNumber', 'Part number')}
+          {headerField('partName', 'Part name / description')}
+          {headerField('supplierPlant', 'Supplier / plant')}
+          {headerField('keyContact', 'Key contact')}
+          {headerField('coreTeam', 'Core team')}
+          {headerField('notes', 'Notes')}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-xs">
+            <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+              <tr>
+                {CONTROL_PLAN_COLUMNS.map(column => (
+                  <th key={column.key} className="px-2 py-2 text-left align-bottom">{column.label}</th>
+                ))}
+                {canManage && <th className="px-2 py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {lines.map((line, index) => (
+                <tr key={index}>
+                  {CONTROL_PLAN_COLUMNS.map(column => (
+                    <td key={column.key} className="px-1 py-1 align-top">
+                      <textarea
+                        className={`input w-full text-xs ${WIDE_COLUMNS.includes(column.key) ? 'min-w-[10rem]' : 'min-w-[4rem]'}`}
+                        rows={2}
+                        value={String(line[column.key] ?? '')}
+                        onChange={e => updateLine(index, column.key, e.target.value)}
+                        disabled={!canManage}
+                      />
+                    </td>
+                  ))}
+                  {canManage && (
+                    <td className="px-1 py-1 align-top whitespace-nowrap">
+                      <button className="text-gray-500 dark:text-gray-400 mr-1" onClick={() => moveLine(index, -1)} title="Move up">
+                        <ArrowUpIcon className="h-4 w-4" />
+                      </button>
+                      <button className="text-gray-500 dark:text-gray-400 mr-1" onClick={() => moveLine(index, 1)} title="Move down">
+                        <ArrowDownIcon className="h-4 w-4" />
+                      </button>
+                      <button className="text-red-600 dark:text-red-400" onClick={() => removeLine(index)} title="Remove line">
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {lines.length === 0 && (
+                <tr>
+                  <td colSpan={CONTROL_PLAN_COLUMNS.length + 1} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">
+                    No lines. Regenerate from the route or add lines by hand.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {canManage && (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center space-x-2">
+              <button
+                className="btn btn-secondary flex items-center"
+                onClick={() => {
+                  setLines(prev => [...prev, emptyControlPlanLine()]);
+                  setDirty(true);
+                }}
+              >
+                <PlusIcon className="h-4 w-4 mr-1" /> Add line
+              </button>
+              <button className="btn btn-secondary flex items-center" onClick={handleRegenerate}>
+                <ArrowPathIcon className="h-4 w-4 mr-1" /> Regenerate from route
+              </button>
+            </div>
+            <button className="btn btn-primary" onClick={handleSave} disabled={saving || !dirty}>
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+
+        {canManage && selected.status === 'draft' && (
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-4 flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[16rem]">
+              <label className="label block mb-1">Change description for revision {selected.revision}</label>
+              <input
+                className="input w-full"
+                value={changeDescription}
+                onChange={e => setChangeDescription(e.target.value)}
+                placeholder={revisions.length === 0 ? 'Initial release' : 'What changed since the last revision'}
+              />
+            </div>
+            <button
+              className="btn btn-primary flex items-center"
+              onClick={handleRelease}
+              disabled={saving || dirty || !changeDescription.trim()}
+              title={dirty ? 'Save the changes first' : undefined}
+            >
+              <DocumentCheckIcon className="h-4 w-4 mr-1" /> Release revision {selected.revision}
+            </button>
+          </div>
+        )}
+
+        <div>
+          <h3 className="text-md font-semibold text-gray-900 dark:text-white mb-2">Revision history</h3>
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+              <tr>
+                <th className="px-4 py-2 text-left">Revision</th>
+                <th className="px-4 py-2 text-left">Released</th>
+                <th className="px-4 py-2 text-left">Change</th>
+                <th className="px-4 py-2 text-left">By</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+              {[...revisions].reverse().map(revision => (
+                <tr key={revision.id}>
+                  <td className="px-4 py-2">{revision.revision}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{fromSqlTimestamp(revision.released_at).toLocaleString()}</td>
+                  <td className="px-4 py-2">{revision.change_description}</td>
+                  <td className="px-4 py-2">{revision.released_by_name ?? '-'}</td>
+                  <td className="px-4 py-2">{renderExportButtons(format => exportRevision(revision, format))}</td>
+                </tr>
+              ))}
+              {revisions.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">Not released yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <DocumentCheckIcon className="h-6 w-6 text-gray-700 dark:text-gray-300" />
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Control plans</h1>
+        </div>
+        {canManage && (
+          <div className="flex items-center space-x-2">
+            <select className="input" value={newRouteId} onChange={e => setNewRouteId(e.target.value)}>
+              <option value="">Select a route</option>
+              {routes.map(route => (
+                <option key={route.id} value={route.id}>
+                  {route.product_name ? `${route.product_name} - ${route.name}` : route.name}
+                </option>
+              ))}
+            </select>
+            <button className="btn btn-primary flex items-center" onClick={handleCreate} disabled={saving || !newRouteId}>
+              <PlusIcon className="h-5 w-5 mr-1" /> Create from route
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-2 text-left">Control plan</th>
+              <th className="px-4 py-2 text-left">Route</th>
+              <th className="px-4 py-2 text-left">Phase</th>
+              <th className="px-4 py-2 text-left">Revision</th>
+              <th className="px-4 py-2 text-left">Lines</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {plans.map(plan => (
+              <tr
+                key={plan.id}
+                className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 ${plan.id === selectedId ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                onClick={() => openPlan(plan)}
+              >
+                <td className="px-4 py-2 font-medium">{plan.plan_number}</td>
+                <td className="px-4 py-2">
+                  {plan.route_name}
+                  {plan.product_name && <div className="text-xs text-gray-500 dark:text-gray-400">{plan.product_name}</div>}
+                </td>
+                <td className="px-4 py-2">{CONTROL_PLAN_PHASES.find(phase => phase.value === plan.phase)?.label ?? plan.phase}</td>
+                <td className="px-4 py-2">
+                  {plan.revision}
+                  <span className={`ml-2 inline-flex px-2 py-0.5 text-xs rounded-full ${STATUS_BADGES[plan.status]}`}>{plan.status}</span>
+                </td>
+                <td className="px-4 py-2">{plan.line_count}</td>
+                <td className="px-4 py-2 text-right">
+                  {canManage && (
+                    <button
+                      className="text-red-600 dark:text-red-400"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(plan);
+                      }}
+                      title="Delete"
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {plans.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">
+                  No control plans. Create one from a route.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {renderEditor()}
+    </div>
+  );
+};
+
+export default ControlPlans;
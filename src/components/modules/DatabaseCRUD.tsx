@@ -155,6 +155,7 @@ interface DataTableProps {
   loading: boolean;
   onEdit: (row: any) => void;
   onDelete: (row: any) => void;
+  canModify: boolean;
   onSort: (column: string, direction: 'ASC' | 'DESC') => void;
   sortColumn?: string;
   sortDirection: 'ASC' | 'DESC';
@@ -165,6 +166,7 @@ const DataTable = ({
   loading, 
   onEdit, 
   onDelete, 
+  canModify,
   onSort, 
   sortColumn, 
   sortDirection 
@@ -234,22 +236,24 @@ const DataTable = ({
                   </td>
                 ))}
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={() => onEdit(row)}
-                      className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
-                      title="Edit"
-                    >
-                      <PencilIcon className="h-4 w-4" />
-                    </button>
-                    <button
-                      onClick={() => onDelete(row)}
-                      className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
-                      title="Delete"
-                    >
-                      <TrashIcon className="h-4 w-4" />
-                    </button>
-                  </div>
+                  {canModify && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => onEdit(row)}
+                        className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                        title="Edit"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => onDelete(row)}
+                        className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                        title="Delete"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
                 </td>
               </tr>
             ))}
@@ -641,7 +645,7 @@ const DatabaseCRUD = () => {
           <div className="flex items-center space-x-2">
             <button
               onClick={handleCreate}
-              disabled={crudService.isReadonlyTable(selectedTable)}
+              disabled={!crudService.canModifyTable(selectedTable)}
               className="flex items-center px-3 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <PlusIcon className="h-4 w-4 mr-1" />
@@ -670,6 +674,7 @@ const DatabaseCRUD = () => {
         loading={loadingTableData}
         onEdit={handleEdit}
         onDelete={handleDelete}
+        canModify={crudService.canModifyTable(selectedTable)}
         onSort={handleSort}
         sortColumn={sortColumn}
         sortDirection={sortDirection}
@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import { db } from '../../services/database';
 import { SampleDataService } from '../../services/sampleData';
-import { autoDatabaseUpdate } from '../../services/autoDatabaseUpdate';
+import { autoDatabaseUpdate, MigrationPlan, SchemaDrift, ChecksumMismatch } from '../../services/autoDatabaseUpdate';
 import { useNavigationHistory } from '../../services/navigationHistory';
 import { navigationService } from '../../services/navigationService';
 import { useI18nStore } from '../../stores/useI18nStore';
@@ -17,7 +17,9 @@ import {
   CloudArrowUpIcon,
   ArrowLeftIcon,
   ExclamationTriangleIcon,
-  Cog6ToothIcon
+  Cog6ToothIcon,
+  MagnifyingGlassIcon,
+  ListBulletIcon
 } from '@heroicons/react/24/outline';
 
 const DatabaseManagement = () => {
@@ -37,6 +39,9 @@ const DatabaseManagement = () => {
   const [schemaVersion, setSchemaVersion] = useState<number>(0);
   const [showPasswordDialog, setShowPasswordDialog] = useState(false);
   const [selectedBackupPath, setSelectedBackupPath] = useState<string>('');
+  const [migrationPlan, setMigrationPlan] = useState<MigrationPlan[] | null>(null);
+  const [schemaDrift, setSchemaDrift] = useState<SchemaDrift | null>(null);
+  const [checksumMismatches, setChecksumMismatches] = useState<ChecksumMismatch[]>([]);
 
   useEffect(() => {
     loadStats();
@@ -121,8 +126,8 @@ const DatabaseManagement = () => {
           window.location.reload();
         }, 2000);
       } else {
-        // Web version - clear localStorage
-        localStorage.removeItem('spc_database');
+        // Web version - clear the IndexedDB copy
+        await db.clearStoredDatabase();
         toast.success('Web database reset successfully! Please refresh the page.');
         // Reload the page to trigger first-time setup
         setTimeout(() => {
@@ -186,6 +191,31 @@ const DatabaseManagement = () => {
     }
   };
 
+  const handlePreviewMigrations = async () => {
+    setLoading(true);
+    try {
+      setMigrationPlan(await autoDatabaseUpdate.planMigrations());
+    } catch (error) {
+      console.error('Error planning migrations:', error);
+      toast.error('Failed to preview migrations');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCheckSchemaDrift = async () => {
+    setLoading(true);
+    try {
+      setSchemaDrift(await autoDatabaseUpdate.checkSchemaDrift());
+      setChecksumMismatches(await autoDatabaseUpdate.verifyChecksums());
+    } catch (error) {
+      console.error('Error checking schema drift:', error);
+      toast.error('Failed to check schema');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleAutoUpdate = async () => {
     setLoading(true);
     try {
@@ -257,6 +287,7 @@ const DatabaseManagement = () => {
         // Ensure tables exist and run migrations (in case restore was from old schema)
         console.log('Ensuring database schema exists and running migrations...');
         await db.createTablesPublic();
+        await autoDatabaseUpdate.checkAndUpdate();
         
         // Verify the restore by checking user count
         try {
@@ -382,7 +413,7 @@ const DatabaseManagement = () => {
                 </div>
               </div>
             </div>
-            {schemaVersion < 7 && (
+            {schemaVersion < autoDatabaseUpdate.getLatestVersion() && (
               <div className="flex items-center text-xs text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-3 py-1 rounded-full">
                 <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
                 Update Available
@@ -475,6 +506,94 @@ const DatabaseManagement = () => {
         </div>
       </div>
 
+      {/* Schema Migrations */}
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-8 mb-8">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-6 flex items-center">
+          <ListBulletIcon className="h-6 w-6 mr-3 text-blue-600" />
+          Schema Migrations
+        </h2>
+
+        <div className="flex flex-wrap gap-4 mb-6">
+          <button
+            onClick={handlePreviewMigrations}
+            disabled={loading}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ListBulletIcon className="h-5 w-5 mr-2" />
+            Preview Pending Migrations
+          </button>
+          <button
+            onClick={handleCheckSchemaDrift}
+            disabled={loading}
+            className="inline-flex items-center px-4 py-2 border border-gray-300 dark:border-gray-600 text-sm font-medium rounded-md text-gray-700 dark:text-gray-200 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <MagnifyingGlassIcon className="h-5 w-5 mr-2" />
+            Check Schema Drift
+          </button>
+        </div>
+
+        {migrationPlan && (
+          <div className="mb-6">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Dry Run</h3>
+            {migrationPlan.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">No pending migrations.</p>
+            ) : (
+              <div className="space-y-3">
+                {migrationPlan.map(plan => (
+                  <div key={plan.version} className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white">
+                      v{plan.version} • {plan.name}
+                      <span className="ml-2 text-xs font-mono text-gray-500 dark:text-gray-400">{plan.checksum}</span>
+                    </div>
+                    {plan.statements.length === 0 ? (
+                      <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">Already satisfied, only recorded</div>
+                    ) : (
+                      <pre className="text-xs text-gray-700 dark:text-gray-300 mt-2 whitespace-pre-wrap font-mono">
+                        {plan.statements.map(statement => statement.replace(/\s+/g, ' ').trim()).join(';\n')}
+                      </pre>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {schemaDrift && (
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Schema Drift</h3>
+            {schemaDrift.missingTables.length === 0 && schemaDrift.missingColumns.length === 0
+              && schemaDrift.unexpectedTables.length === 0 && schemaDrift.unexpectedColumns.length === 0
+              && checksumMismatches.length === 0 ? (
+              <div className="flex items-center text-sm text-green-700 dark:text-green-400">
+                <CheckCircleIcon className="h-5 w-5 mr-2" />
+                The database matches the expected schema for v{autoDatabaseUpdate.getLatestVersion()}.
+              </div>
+            ) : (
+              <ul className="text-sm space-y-1">
+                {schemaDrift.missingTables.map(table => (
+                  <li key={`mt-${table}`} className="text-red-600 dark:text-red-400">Missing table: {table}</li>
+                ))}
+                {schemaDrift.missingColumns.map(({ table, column }) => (
+                  <li key={`mc-${table}-${column}`} className="text-red-600 dark:text-red-400">Missing column: {table}.{column}</li>
+                ))}
+                {schemaDrift.unexpectedTables.map(table => (
+                  <li key={`ut-${table}`} className="text-amber-600 dark:text-amber-400">Unexpected table: {table}</li>
+                ))}
+                {schemaDrift.unexpectedColumns.map(({ table, column }) => (
+                  <li key={`uc-${table}-${column}`} className="text-amber-600 dark:text-amber-400">Unexpected column: {table}.{column}</li>
+                ))}
+                {checksumMismatches.map(mismatch => (
+                  <li key={`cs-${mismatch.version}`} className="text-amber-600 dark:text-amber-400">
+                    Migration v{mismatch.version} ({mismatch.name}) changed after it was applied: {mismatch.recorded} → {mismatch.expected}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Password Validation Dialog */}
       <RestorePasswordDialog
         isOpen={showPasswordDialog}
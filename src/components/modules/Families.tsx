@@ -3,6 +3,10 @@ import { db } from '../../services/database';
 import toast from 'react-hot-toast';
 import { useI18nStore } from '../../stores/useI18nStore';
 import { navigationService } from '../../services/navigationService';
+import { permissionService } from '../../services/permissionService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
 import { useNavigationHistory } from '../../services/navigationHistory';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 import EnhancedTableWithFilters from '../ui/EnhancedTableWithFilters';
@@ -27,6 +31,9 @@ type ViewMode = 'list' | 'cards';
 const Families = ({ onNavigateToProducts }: FamiliesProps) => {
   const { t } = useI18nStore();
   const { canGoBack, goBack } = useNavigationHistory();
+  const { can } = usePermissions();
+  const canEdit = can('families', 'write');
+  const { scope } = useWorkshopScope();
   const [families, setFamilies] = useState<Family[]>([]);
   const [loading, setLoading] = useState(true);
   const [viewMode, setViewMode] = useState<ViewMode>(() => {
@@ -51,8 +58,6 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
   };
 
   useEffect(() => {
-    loadFamilies();
-    
     // Subscribe to navigation changes to apply filters
     const unsubscribe = navigationService.subscribe((state) => {
       // Check if we have a workshop filter
@@ -77,6 +82,11 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
     return unsubscribe;
   }, []);
 
+  // Load families for the user's workshops, again when the scope changes
+  useEffect(() => {
+    loadFamilies();
+  }, [scope]);
+
   // Reload families when workshop filter changes
   useEffect(() => {
     if (selectedWorkshopFilter !== null) {
@@ -110,16 +120,18 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
         LEFT JOIN workshops w ON w.id = fw.workshop_id
       `;
       
-      // Add workshop filter if selected
+      // Restrict to the user's workshops, and to the selected workshop if any
+      const scopeCondition = workshopScopeService.familyCondition('f.id');
+      const conditions = [scopeCondition.sql];
+      const params: number[] = [...scopeCondition.params];
       if (selectedWorkshopFilter) {
-        query += ` WHERE fw.workshop_id = ?`;
+        conditions.push('fw.workshop_id = ?');
+        params.push(selectedWorkshopFilter);
       }
       
-      query += ` GROUP BY f.id ORDER BY f.name`;
+      query += ` WHERE ${conditions.join(' AND ')} GROUP BY f.id ORDER BY f.name`;
       
-      const familiesData = selectedWorkshopFilter 
-        ? await db.queryAll(query, [selectedWorkshopFilter])
-        : await db.queryAll(query);
+      const familiesData = await db.queryAll(query, params);
       
       console.log('Loaded families:', familiesData.length, 'with filter:', selectedWorkshopFilter);
       setFamilies(familiesData);
@@ -152,6 +164,7 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!permissionService.ensure('families')) return;
     
     if (!formData.name.trim()) {
       toast.error('Family name is required');
@@ -188,19 +201,17 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
         toast.success('Family updated successfully');
       } else {
         // Create new family
-        const result = await db.execute(
+        const familyId = await db.insert(
           'INSERT INTO families (name, description, image_filename) VALUES (?, ?, ?)',
           [formData.name, formData.description, imageFilename]
         );
         
-        // Get the ID of the inserted family
-        const familyId = result;
-        
-        // If workshop is selected, create the relationship
-        if (selectedWorkshopFilter && familyId && typeof familyId === 'number' && typeof selectedWorkshopFilter === 'number') {
+        // Link the family to the selected workshop, or to the user's own
+        const workshopId = selectedWorkshopFilter ?? workshopScopeService.getDefaultWorkshopId();
+        if (workshopId) {
           await db.execute(
             'INSERT INTO family_workshops (family_id, workshop_id) VALUES (?, ?)',
-            [familyId, selectedWorkshopFilter]
+            [familyId, workshopId]
           );
         }
         
@@ -234,6 +245,7 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
   };
 
   const handleDelete = async (id: number) => {
+    if (!permissionService.ensure('families')) return;
     try {
       // Check if family has products
       const products = await db.queryAll('SELECT COUNT(*) as count FROM products WHERE family_id = ?', [id]);
@@ -312,6 +324,7 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
 
   // Enhanced table handlers
   const handleEditCell = async (rowIndex: number, columnKey: string, value: any) => {
+    if (!permissionService.ensure('families')) return;
     const family = families[rowIndex];
     try {
       if (columnKey === 'name') {
@@ -334,8 +347,8 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
   };
 
   const tableColumns = [
-    { key: 'name', label: t('families.familyName'), editable: true, required: true },
-    { key: 'description', label: t('families.familyDescription'), editable: true, type: 'textarea' as const },
+    { key: 'name', label: t('families.familyName'), editable: canEdit, required: true },
+    { key: 'description', label: t('families.familyDescription'), editable: canEdit, type: 'textarea' as const },
     { key: 'created_at', label: t('common.created'), editable: false, type: 'date' as const },
   ];
 
@@ -418,12 +431,14 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
               List
             </button>
           </div>
-          <button
-            onClick={() => setShowForm(true)}
-            className="btn btn-primary"
-          >
-            {t('families.addFamily')}
-          </button>
+          {canEdit && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="btn btn-primary"
+            >
+              {t('families.addFamily')}
+            </button>
+          )}
         </div>
       </div>
 
@@ -530,12 +545,14 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
           {families.length === 0 ? (
             <div className="col-span-full bg-gray-50 dark:bg-gray-700 rounded-lg p-8 text-center">
               <p className="text-gray-500 dark:text-gray-400 mb-4">No families found</p>
-              <button
-                onClick={() => setShowForm(true)}
-                className="btn btn-primary"
-              >
-                Add Your First Family
-              </button>
+              {canEdit && (
+                <button
+                  onClick={() => setShowForm(true)}
+                  className="btn btn-primary"
+                >
+                  Add Your First Family
+                </button>
+              )}
             </div>
           ) : (
             families.map((family) => (
@@ -545,7 +562,7 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
                 onClick={() => onNavigateToProducts?.(family.id)}
                 onDoubleClick={(e) => {
                   e.stopPropagation();
-                  handleEdit(family);
+                  if (canEdit) handleEdit(family);
                 }}
                 title="Click to view products, double-click to edit"
               >
@@ -585,32 +602,34 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
                     <span className="text-xs text-gray-400 dark:text-gray-500">
                       {new Date(family.created_at).toLocaleDateString()}
                     </span>
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleEdit(family);
-                        }}
-                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
-                        title="Edit"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                        </svg>
-                      </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDelete(family.id);
-                        }}
-                        className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
-                        title="Delete"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                        </svg>
-                      </button>
-                    </div>
+                    {canEdit && (
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleEdit(family);
+                          }}
+                          className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                          title="Edit"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(family.id);
+                          }}
+                          className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                          title="Delete"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                          </svg>
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -622,9 +641,9 @@ const Families = ({ onNavigateToProducts }: FamiliesProps) => {
         <EnhancedTableWithFilters
           data={families}
           columns={tableColumns}
-          onEdit={handleEditCell}
-          onDelete={handleDeleteRow}
-          onAdd={() => setShowForm(true)}
+          onEdit={canEdit ? handleEditCell : undefined}
+          onDelete={canEdit ? handleDeleteRow : undefined}
+          onAdd={canEdit ? () => setShowForm(true) : undefined}
           onRowClick={(_, rowData) => onNavigateToProducts?.(rowData.id)}
           loading={loading}
           emptyMessage="No families found"
@@ -2,16 +2,24 @@ import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 // import { useI18nStore } from '../../stores/useI18nStore';
 import { db } from '../../services/database';
+import { permissionService } from '../../services/permissionService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
+import { SpecificationType } from '../../types/spc';
+import { normalizeSpecification } from '../../utils/specifications';
 import EnhancedTableWithFilters from '../ui/EnhancedTableWithFilters';
 
 interface Feature {
   id?: number;
   name: string;
   product_id: number;
-  specification_type: string;
+  specification_type: SpecificationType;
   target_value: number;
   tolerance_plus: number;
   tolerance_minus: number;
+  specification_min?: number | null;
+  specification_max?: number | null;
   unit: string;
   image_url: string;
   description: string;
@@ -28,6 +36,9 @@ interface FeaturesSimpleProps {
 
 const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
   // const { t } = useI18nStore();
+  const { can } = usePermissions();
+  const canEdit = can('features', 'write');
+  const { scope } = useWorkshopScope();
   const [features, setFeatures] = useState<Feature[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
@@ -37,7 +48,7 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
 
   useEffect(() => {
     loadData();
-  }, []);
+  }, [scope]);
 
   // Separate effect to handle product filtering after products are loaded
   useEffect(() => {
@@ -60,16 +71,19 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
       // Database is initialized globally in App.tsx
       
       // Load products for dropdown
-      const productsData = await db.queryAll('SELECT * FROM products ORDER BY name');
+      const productScope = workshopScopeService.condition('workshop_id');
+      const productsData = await db.queryAll(`SELECT * FROM products WHERE ${productScope.sql} ORDER BY name`, productScope.params);
       setProducts(productsData);
 
-      // Load features with product names
+      // Load features with product names, scoped by their product's workshop
+      const featureScope = workshopScopeService.condition('p.workshop_id');
       const featuresData = await db.queryAll(`
         SELECT f.*, p.name as product_name 
         FROM features f 
         LEFT JOIN products p ON f.product_id = p.id 
+        WHERE ${featureScope.sql}
         ORDER BY f.name
-      `);
+      `, featureScope.params);
       setFeatures(featuresData);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -122,6 +136,7 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
   };
 
   const saveAllFeatures = async () => {
+    if (!permissionService.ensure('features')) return;
     if (!selectedProduct) {
       toast.error('Please select a product');
       return;
@@ -137,15 +152,18 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
       
       for (const feature of newFeatures) {
         if (feature.name.trim()) {
+          const specification = normalizeSpecification(feature);
           await db.execute(
-            'INSERT INTO features (name, product_id, specification_type, target_value, tolerance_plus, tolerance_minus, unit, image_url, description) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+            'INSERT INTO features (name, product_id, specification_type, target_value, tolerance_plus, tolerance_minus, specification_min, specification_max, unit, image_url, description) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
             [
               feature.name,
               feature.product_id,
-              feature.specification_type,
-              feature.target_value,
-              feature.tolerance_plus,
-              feature.tolerance_minus,
+              specification.specification_type,
+              specification.target_value,
+              specification.tolerance_plus,
+              specification.tolerance_minus,
+              specification.specification_min,
+              specification.specification_max,
               feature.unit,
               feature.image_url,
               feature.description
@@ -169,6 +187,7 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
   };
 
   const handleDelete = async (id: number) => {
+    if (!permissionService.ensure('features')) return;
     try {
       // Check if feature has measurements
       const measurements = await db.queryAll('SELECT COUNT(*) as count FROM measurements WHERE feature_id = ?', [id]);
@@ -188,16 +207,23 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
   };
 
   const handleEditCell = async (rowIndex: number, columnKey: string, value: any) => {
+    if (!permissionService.ensure('features')) return;
     const feature = features[rowIndex];
     try {
       if (columnKey === 'name') {
         await db.execute('UPDATE features SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [value, feature.id]);
-      } else if (columnKey === 'target_value') {
-        await db.execute('UPDATE features SET target_value = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [parseFloat(value) || 0, feature.id]);
-      } else if (columnKey === 'tolerance_plus') {
-        await db.execute('UPDATE features SET tolerance_plus = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [parseFloat(value) || 0, feature.id]);
-      } else if (columnKey === 'tolerance_minus') {
-        await db.execute('UPDATE features SET tolerance_minus = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [parseFloat(value) || 0, feature.id]);
+      } else if (columnKey === 'target_value' || columnKey === 'tolerance_plus' || columnKey === 'tolerance_minus') {
+        // Re-derive the limits from the edited target and tolerances
+        const specification = normalizeSpecification({
+          ...feature,
+          specification_min: null,
+          specification_max: null,
+          [columnKey]: parseFloat(value) || 0
+        });
+        await db.execute(
+          'UPDATE features SET target_value = ?, tolerance_plus = ?, tolerance_minus = ?, specification_min = ?, specification_max = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [specification.target_value, specification.tolerance_plus, specification.tolerance_minus, specification.specification_min, specification.specification_max, feature.id]
+        );
       } else if (columnKey === 'unit') {
         await db.execute('UPDATE features SET unit = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [value, feature.id]);
       }
@@ -218,7 +244,7 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
   };
 
   const tableColumns = [
-    { key: 'name', label: 'Feature Name', editable: true, required: true },
+    { key: 'name', label: 'Feature Name', editable: canEdit, required: true },
     { 
       key: 'product_name', 
       label: 'Product', 
@@ -238,10 +264,12 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
         { value: 'range', label: 'Range' }
       ]
     },
-    { key: 'target_value', label: 'Target', editable: true, type: 'number' as const },
-    { key: 'tolerance_plus', label: 'Tolerance +', editable: true, type: 'number' as const },
-    { key: 'tolerance_minus', label: 'Tolerance -', editable: true, type: 'number' as const },
-    { key: 'unit', label: 'Unit', editable: true },
+    { key: 'target_value', label: 'Target', editable: canEdit, type: 'number' as const },
+    { key: 'tolerance_plus', label: 'Tolerance +', editable: canEdit, type: 'number' as const },
+    { key: 'tolerance_minus', label: 'Tolerance -', editable: canEdit, type: 'number' as const },
+    { key: 'specification_min', label: 'LSL', editable: false, type: 'number' as const },
+    { key: 'specification_max', label: 'USL', editable: false, type: 'number' as const },
+    { key: 'unit', label: 'Unit', editable: canEdit },
     { key: 'created_at', label: 'Created', editable: false, type: 'date' as const },
   ];
 
@@ -264,12 +292,14 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Quality Features</h1>
           <p className="text-gray-600 dark:text-gray-400">Define quality characteristics for products</p>
         </div>
-        <button
-          onClick={() => setShowCreator(true)}
-          className="btn btn-primary"
-        >
-          Add Features
-        </button>
+        {canEdit && (
+          <button
+            onClick={() => setShowCreator(true)}
+            className="btn btn-primary"
+          >
+            Add Features
+          </button>
+        )}
       </div>
 
       {/* Feature Creator Modal */}
@@ -393,7 +423,7 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
                           <div className="col-span-1">
                             <select
                               value={feature.specification_type}
-                              onChange={(e) => updateFeatureLine(index, 'specification_type', e.target.value)}
+                              onChange={(e) => updateFeatureLine(index, 'specification_type', e.target.value as SpecificationType)}
                               className="input w-full text-sm"
                             >
                               <option value="nominal">Nominal</option>
@@ -477,9 +507,9 @@ const FeaturesSimple = ({ onNavigateToGammas }: FeaturesSimpleProps) => {
       <EnhancedTableWithFilters
         data={features}
         columns={tableColumns}
-        onEdit={handleEditCell}
-        onDelete={handleDeleteRow}
-        onAdd={() => setShowCreator(true)}
+        onEdit={canEdit ? handleEditCell : undefined}
+        onDelete={canEdit ? handleDeleteRow : undefined}
+        onAdd={canEdit ? () => setShowCreator(true) : undefined}
         onRowClick={(_rowIndex, rowData) => onNavigateToGammas?.(rowData.product_id)}
         loading={loading}
         emptyMessage="No features found"
@@ -0,0 +1,655 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { ArrowLeftIcon, PlusIcon, ScaleIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { db } from '../../services/database';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import {
+  GageStudyDetails,
+  GageStudyFeature,
+  GageStudyReadingRow,
+  GageStudySummary,
+  gageStudyService,
+  operatorLabel
+} from '../../services/gageStudyService';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useUserStore } from '../../stores/useUserStore';
+import { GageRRMethod, GageRRResult } from '../../types/spc';
+import { GAGE_LIMITS, GageAcceptance, assessGage } from '../../utils/gageRR';
+import { formatSpecification, getSpecificationLimits } from '../../utils/specifications';
+import GageRRCharts from '../ui/GageRRCharts';
+import GageReadingEntry from '../ui/GageReadingEntry';
+
+interface StudyFeature extends GageStudyFeature {
+  product_name?: string;
+}
+
+interface StudyForm {
+  name: string;
+  featureId: string;
+  gauge: string;
+  parts: number;
+  trials: number;
+  operatorIds: number[];
+  tolerance: string;
+  notes: string;
+}
+
+const EMPTY_FORM: StudyForm = {
+  name: '',
+  featureId: '',
+  gauge: '',
+  parts: 10,
+  trials: 3,
+  operatorIds: [],
+  tolerance: '',
+  notes: '',
+};
+
+const ACCEPTANCE_CLASSES: Record<GageAcceptance, string> = {
+  acceptable: 'text-green-600 dark:text-green-400',
+  marginal: 'text-yellow-600 dark:text-yellow-400',
+  unacceptable: 'text-red-600 dark:text-red-400',
+};
+
+const COMPONENT_LABELS: Record<string, string> = {
+  grr: 'Total Gage R&R',
+  repeatability: '  Repeatability (EV)',
+  reproducibility: '  Reproducibility (AV)',
+  operator: '    Operator',
+  interaction: '    Operator × part',
+  part: 'Part-to-part (PV)',
+  total: 'Total variation (TV)',
+};
+
+const ANOVA_LABELS: Record<string, string> = {
+  part: 'Part',
+  operator: 'Operator',
+  interaction: 'Operator × part',
+  repeatability: 'Repeatability',
+  total: 'Total',
+};
+
+const formatNumber = (value: number | null | undefined, decimals: number): string =>
+  value === null || value === undefined || !Number.isFinite(value) ? '-' : value.toFixed(decimals);
+
+const formatPercent = (value: number | null | undefined): string =>
+  value === null || value === undefined || !Number.isFinite(value) ? '-' : `${value.toFixed(1)} %`;
+
+// Number of distinct categories: at least 5 is expected
+const ndcClass = (ndc: number): string =>
+  ndc >= 5 ? ACCEPTANCE_CLASSES.acceptable : ndc >= 2 ? ACCEPTANCE_CLASSES.marginal : ACCEPTANCE_CLASSES.unacceptable;
+
+const GageRR = () => {
+  const { scope } = useWorkshopScope();
+  const { can } = usePermissions();
+  const { currentUser } = useUserStore();
+  const [studies, setStudies] = useState<GageStudySummary[]>([]);
+  const [features, setFeatures] = useState<StudyFeature[]>([]);
+  const [users, setUsers] = useState<{ id: number; username: string }[]>([]);
+  const [details, setDetails] = useState<GageStudyDetails | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<StudyForm>(EMPTY_FORM);
+  const [method, setMethod] = useState<GageRRMethod>('anova');
+  const [editing, setEditing] = useState<{ readingId: number; value: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const canManage = can('features', 'write');
+
+  useEffect(() => {
+    loadStudies();
+    loadOptions();
+  }, [scope]);
+
+  const loadStudies = async () => {
+    try {
+      setLoading(true);
+      setStudies(await gageStudyService.listStudies());
+    } catch (error) {
+      console.error('Error loading Gage R&R studies:', error);
+      toast.error('Failed to load studies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadOptions = async () => {
+    try {
+      const featureScope = workshopScopeService.condition('p.workshop_id');
+      const [featureRows, userRows] = await Promise.all([
+        db.queryAll(
+          `SELECT f.*, p.name as product_name
+           FROM features f
+           LEFT JOIN gammas g ON f.gamma_id = g.id
+           LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+           WHERE COALESCE(f.characteristic_type, 'variable') = 'variable' AND ${featureScope.sql}
+           ORDER BY p.name, f.name`,
+          featureScope.params
+        ),
+        db.queryAll(`SELECT id, username FROM users WHERE status = 'active' ORDER BY username`),
+      ]);
+      setFeatures(featureRows);
+      setUsers(userRows);
+    } catch (error) {
+      console.error('Error loading Gage R&R options:', error);
+      toast.error('Failed to load features');
+    }
+  };
+
+  const openStudy = async (studyId: number) => {
+    try {
+      const study = await gageStudyService.getStudy(studyId);
+      if (!study) {
+        toast.error('Study not found');
+        return;
+      }
+      setDetails(study);
+      setEditing(null);
+    } catch (error) {
+      console.error('Error loading Gage R&R study:', error);
+      toast.error('Failed to load study');
+    }
+  };
+
+  const refresh = async () => {
+    if (details) await openStudy(details.study.id);
+    await loadStudies();
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const tolerance = form.tolerance.trim() === '' ? null : Number(form.tolerance);
+    if (!form.name.trim() || !form.featureId || !form.gauge.trim()) {
+      toast.error('Name, feature and gauge are required');
+      return;
+    }
+    if (tolerance !== null && !(tolerance > 0)) {
+      toast.error('Tolerance must be a positive number');
+      return;
+    }
+
+    try {
+      const studyId = await gageStudyService.createStudy({
+        name: form.name.trim(),
+        featureId: Number(form.featureId),
+        gauge: form.gauge.trim(),
+        parts: form.parts,
+        operatorIds: form.operatorIds,
+        trials: form.trials,
+        tolerance,
+        notes: form.notes.trim(),
+      }, currentUser?.id ?? null);
+      if (!studyId) return;
+
+      toast.success('Study created');
+      setShowForm(false);
+      setForm(EMPTY_FORM);
+      await loadStudies();
+      await openStudy(studyId);
+    } catch (error) {
+      console.error('Error creating Gage R&R study:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to create study');
+    }
+  };
+
+  const handleDelete = async (study: GageStudySummary) => {
+    if (!confirm(`Delete the study "${study.name}" and all its readings?`)) return;
+    try {
+      if (!(await gageStudyService.deleteStudy(study.id))) return;
+      toast.success('Study deleted');
+      setDetails(null);
+      await loadStudies();
+    } catch (error) {
+      console.error('Error deleting Gage R&R study:', error);
+      toast.error('Failed to delete study');
+    }
+  };
+
+  const handleSaveReading = async () => {
+    if (!editing) return;
+    const value = Number(editing.value);
+    if (editing.value.trim() === '' || !Number.isFinite(value)) {
+      setEditing(null);
+      return;
+    }
+    try {
+      if (await gageStudyService.recordReading(editing.readingId, value, currentUser?.id ?? null)) {
+        setEditing(null);
+        await refresh();
+      }
+    } catch (error) {
+      console.error('Error saving Gage R&R reading:', error);
+      toast.error('Failed to save reading');
+    }
+  };
+
+  const toggleOperator = (userId: number) => {
+    setForm(prev => ({
+      ...prev,
+      operatorIds: prev.operatorIds.includes(userId)
+        ? prev.operatorIds.filter(id => id !== userId)
+        : [...prev.operatorIds, userId],
+    }));
+  };
+
+  const analysis = useMemo(() => {
+    if (!details || details.readings.some(reading => reading.measured_value === null)) return null;
+    try {
+      return gageStudyService.analyze(details);
+    } catch (error) {
+      console.error('Error analysing Gage R&R study:', error);
+      return null;
+    }
+  }, [details]);
+
+  const selectedFeature = features.find(feature => feature.id === Number(form.featureId));
+  const specificationWidth = (() => {
+    if (!selectedFeature) return null;
+    const { usl, lsl } = getSpecificationLimits(selectedFeature);
+    return usl !== undefined && lsl !== undefined && usl > lsl ? usl - lsl : null;
+  })();
+
+  const renderForm = () => (
+    <form onSubmit={handleCreate} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">New Gage R&R study</h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+          <input className="input w-full" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Feature</label>
+          <select className="input w-full" value={form.featureId} onChange={e => setForm({ ...form, featureId: e.target.value })}>
+            <option value="">Select a feature</option>
+            {features.map(feature => (
+              <option key={feature.id} value={feature.id}>
+                {feature.product_name ? `${feature.product_name} - ` : ''}{feature.name} ({formatSpecification(feature)})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Gauge</label>
+          <input className="input w-full" value={form.gauge} onChange={e => setForm({ ...form, gauge: e.target.value })} placeholder="Caliper 0-150 #12" />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Parts</label>
+          <input
+            type="number"
+            className="input w-full"
+            min={GAGE_LIMITS.parts.min}
+            max={GAGE_LIMITS.parts.max}
+            value={form.parts}
+            onChange={e => setForm({ ...form, parts: parseInt(e.target.value) || 0 })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Trials</label>
+          <input
+            type="number"
+            className="input w-full"
+            min={GAGE_LIMITS.trials.min}
+            max={GAGE_LIMITS.trials.max}
+            value={form.trials}
+            onChange={e => setForm({ ...form, trials: parseInt(e.target.value) || 0 })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Tolerance</label>
+          <input
+            type="number"
+            step="any"
+            className="input w-full"
+            value={form.tolerance}
+            onChange={e => setForm({ ...form, tolerance: e.target.value })}
+            placeholder={specificationWidth !== null ? `Specification width: ${specificationWidth}` : 'None'}
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Operators ({GAGE_LIMITS.operators.min}-{GAGE_LIMITS.operators.max}, in the order they are selected)
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {users.map(user => {
+            const index = form.operatorIds.indexOf(user.id);
+            return (
+              <button
+                key={user.id}
+                type="button"
+                onClick={() => toggleOperator(user.id)}
+                className={`px-3 py-1 rounded-full text-sm border ${
+                  index >= 0
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                {index >= 0 && `${operatorLabel(index)} · `}{user.username}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Notes</label>
+        <textarea className="input w-full" rows={2} value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        {form.parts * form.operatorIds.length * form.trials} readings. Each operator measures the parts in a random order on every trial.
+      </p>
+      <div className="flex justify-end space-x-2">
+        <button type="button" className="btn btn-secondary" onClick={() => setShowForm(false)}>Cancel</button>
+        <button type="submit" className="btn btn-primary">Create study</button>
+      </div>
+    </form>
+  );
+
+  const renderReadingCell = (reading: GageStudyReadingRow | undefined, decimals: number) => {
+    if (!reading) return <td className="px-2 py-1" />;
+    const editable = canManage || reading.operator_id === currentUser?.id;
+
+    if (editing?.readingId === reading.id) {
+      return (
+        <td className="px-1 py-0.5">
+          <input
+            type="number"
+            step="any"
+            autoFocus
+            className="input w-24 py-0.5 text-sm"
+            value={editing.value}
+            onChange={e => setEditing({ readingId: reading.id, value: e.target.value })}
+            onBlur={handleSaveReading}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleSaveReading();
+              if (e.key === 'Escape') setEditing(null);
+            }}
+          />
+        </td>
+      );
+    }
+
+    return (
+      <td
+        className={`px-2 py-1 text-right font-mono ${editable ? 'cursor-pointer hover:bg-blue-50 dark:hover:bg-blue-900/20' : ''}`}
+        title={`Run ${reading.run_order}`}
+        onClick={() => editable && setEditing({ readingId: reading.id, value: reading.measured_value?.toString() ?? '' })}
+      >
+        {reading.measured_value !== null ? formatNumber(reading.measured_value, decimals) : <span className="text-gray-400">·</span>}
+      </td>
+    );
+  };
+
+  const renderResultSummary = (result: GageRRResult) => {
+    const cards = [
+      { label: '%EV', value: result.percentEV, acceptance: null },
+      { label: '%AV', value: result.percentAV, acceptance: null },
+      { label: '%GRR', value: result.percentGRR, acceptance: assessGage(result.percentGRR) },
+      {
+        label: '%Tolerance',
+        value: result.percentTolerance,
+        acceptance: result.percentTolerance !== null ? assessGage(result.percentTolerance) : null
+      },
+    ];
+
+    return (
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {cards.map(card => (
+          <div key={card.label} className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+            <div className="text-sm text-gray-500 dark:text-gray-400">{card.label}</div>
+            <div className={`text-2xl font-semibold ${card.acceptance ? ACCEPTANCE_CLASSES[card.acceptance] : 'text-gray-900 dark:text-white'}`}>
+              {formatPercent(card.value)}
+            </div>
+            {card.acceptance && <div className="text-xs text-gray-500 capitalize">{card.acceptance}</div>}
+          </div>
+        ))}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+          <div className="text-sm text-gray-500 dark:text-gray-400">ndc</div>
+          <div className={`text-2xl font-semibold ${ndcClass(result.ndc)}`}>
+            {Number.isFinite(result.ndc) ? result.ndc : '∞'}
+          </div>
+          <div className="text-xs text-gray-500">{result.ndc >= 5 ? 'Acceptable' : 'Below 5'}</div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderResults = (details: GageStudyDetails) => {
+    if (!analysis) return null;
+    const result = method === 'anova' ? analysis.anova : analysis.averageRange;
+    const decimals = (details.feature.decimal_places ?? 3) + 1;
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Results</h3>
+          <div className="flex items-center space-x-3 text-sm">
+            {analysis.tolerance !== null && (
+              <span className="text-gray-500 dark:text-gray-400">Tolerance {formatNumber(analysis.tolerance, decimals)}</span>
+            )}
+            <select className="input" value={method} onChange={e => setMethod(e.target.value as GageRRMethod)}>
+              <option value="anova">ANOVA</option>
+              <option value="average-range">Average & Range</option>
+            </select>
+          </div>
+        </div>
+
+        {renderResultSummary(result)}
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                <tr>
+                  <th className="px-3 py-2 text-left">Source</th>
+                  <th className="px-3 py-2 text-right">Variance</th>
+                  <th className="px-3 py-2 text-right">% Contribution</th>
+                  <th className="px-3 py-2 text-right">Study var (6σ)</th>
+                  <th className="px-3 py-2 text-right">% Study var</th>
+                  <th className="px-3 py-2 text-right">% Tolerance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+                {result.components.map(component => (
+                  <tr key={component.source} className={component.source === 'grr' ? 'font-medium' : ''}>
+                    <td className="px-3 py-1.5 whitespace-pre">{COMPONENT_LABELS[component.source]}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{component.variance.toExponential(3)}</td>
+                    <td className="px-3 py-1.5 text-right">{formatPercent(component.percentContribution)}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{formatNumber(component.studyVariation, decimals)}</td>
+                    <td className="px-3 py-1.5 text-right">{formatPercent(component.percentStudyVariation)}</td>
+                    <td className="px-3 py-1.5 text-right">{formatPercent(component.percentTolerance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {result.anova && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Source</th>
+                    <th className="px-3 py-2 text-right">DF</th>
+                    <th className="px-3 py-2 text-right">SS</th>
+                    <th className="px-3 py-2 text-right">MS</th>
+                    <th className="px-3 py-2 text-right">F</th>
+                    <th className="px-3 py-2 text-right">P</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+                  {result.anova.rows.map(row => (
+                    <tr key={row.source}>
+                      <td className="px-3 py-1.5">{ANOVA_LABELS[row.source]}</td>
+                      <td className="px-3 py-1.5 text-right">{row.df}</td>
+                      <td className="px-3 py-1.5 text-right font-mono">{row.ss.toExponential(3)}</td>
+                      <td className="px-3 py-1.5 text-right font-mono">{row.source === 'total' ? '' : row.ms.toExponential(3)}</td>
+                      <td className="px-3 py-1.5 text-right">{formatNumber(row.f, 2)}</td>
+                      <td className="px-3 py-1.5 text-right">{formatNumber(row.p, 3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.anova.interactionPooled && (
+                <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+                  The operator × part interaction is not significant (p &gt; {result.anova.interactionAlpha}) and is pooled into repeatability.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <GageRRCharts
+          result={result}
+          charts={analysis.charts}
+          operatorLabels={details.operators.map((_, index) => operatorLabel(index))}
+          decimals={decimals}
+        />
+      </div>
+    );
+  };
+
+  const renderDetails = (details: GageStudyDetails) => {
+    const { study, feature, operators, readings } = details;
+    const decimals = feature.decimal_places ?? 3;
+    const trials = Array.from({ length: study.trial_count }, (_, i) => i + 1);
+    const cell = (part: number, operatorId: number, trial: number) =>
+      readings.find(r => r.part_number === part && r.operator_id === operatorId && r.trial === trial);
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <button className="flex items-center text-sm text-blue-600 dark:text-blue-400 mb-2" onClick={() => setDetails(null)}>
+              <ArrowLeftIcon className="h-4 w-4 mr-1" /> All studies
+            </button>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">{study.name}</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {study.product_name} - {feature.name} ({formatSpecification(feature)}) · Gauge {study.gauge} ·{' '}
+              {study.part_count} parts × {operators.length} operators × {study.trial_count} trials
+            </p>
+            {study.notes && <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{study.notes}</p>}
+          </div>
+          {canManage && (
+            <button className="btn btn-secondary flex items-center" onClick={() => handleDelete(study)}>
+              <TrashIcon className="h-4 w-4 mr-1" /> Delete
+            </button>
+          )}
+        </div>
+
+        {currentUser && study.status === 'open' && (
+          <GageReadingEntry key={study.readings_done} operatorId={currentUser.id} onRecorded={refresh} />
+        )}
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+              <tr>
+                <th className="px-2 py-2 text-left" rowSpan={2}>Part</th>
+                {operators.map((operator, index) => (
+                  <th key={operator.id} colSpan={trials.length} className="px-2 py-1 text-center border-l border-gray-200 dark:border-gray-600">
+                    {operatorLabel(index)} · {operator.username}
+                  </th>
+                ))}
+              </tr>
+              <tr>
+                {operators.map(operator => trials.map(trial => (
+                  <th key={`${operator.id}-${trial}`} className="px-2 py-1 text-right font-normal">Trial {trial}</th>
+                )))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+              {Array.from({ length: study.part_count }, (_, i) => i + 1).map(part => (
+                <tr key={part}>
+                  <td className="px-2 py-1 font-medium">{part}</td>
+                  {operators.map(operator => trials.map(trial => (
+                    <React.Fragment key={`${operator.id}-${trial}`}>
+                      {renderReadingCell(cell(part, operator.id, trial), decimals)}
+                    </React.Fragment>
+                  )))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {analysis ? renderResults(details) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {study.readings_total - study.readings_done} of {study.readings_total} readings still to be taken. Results appear once the study is complete.
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  if (details) {
+    return <div className="p-6">{renderDetails(details)}</div>;
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <ScaleIcon className="h-6 w-6 text-gray-700 dark:text-gray-300" />
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Gage R&R studies</h1>
+        </div>
+        {canManage && !showForm && (
+          <button className="btn btn-primary flex items-center" onClick={() => setShowForm(true)}>
+            <PlusIcon className="h-5 w-5 mr-1" /> New study
+          </button>
+        )}
+      </div>
+
+      {currentUser && <GageReadingEntry operatorId={currentUser.id} onRecorded={loadStudies} />}
+
+      {showForm && renderForm()}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-2 text-left">Study</th>
+              <th className="px-4 py-2 text-left">Feature</th>
+              <th className="px-4 py-2 text-left">Gauge</th>
+              <th className="px-4 py-2 text-left">Design</th>
+              <th className="px-4 py-2 text-left">Progress</th>
+              <th className="px-4 py-2 text-left">Created</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {studies.map(study => (
+              <tr key={study.id} className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700" onClick={() => openStudy(study.id)}>
+                <td className="px-4 py-2 font-medium">{study.name}</td>
+                <td className="px-4 py-2">{study.product_name} - {study.feature_name}</td>
+                <td className="px-4 py-2">{study.gauge}</td>
+                <td className="px-4 py-2">{study.part_count} × {study.operator_count} × {study.trial_count}</td>
+                <td className="px-4 py-2">
+                  {study.status === 'completed' ? (
+                    <span className="text-green-600 dark:text-green-400">Completed</span>
+                  ) : (
+                    <div className="flex items-center space-x-2">
+                      <div className="w-24 h-2 bg-gray-200 dark:bg-gray-600 rounded">
+                        <div
+                          className="h-2 bg-blue-500 rounded"
+                          style={{ width: `${study.readings_total ? (100 * study.readings_done) / study.readings_total : 0}%` }}
+                        />
+                      </div>
+                      <span className="text-gray-500">{study.readings_done}/{study.readings_total}</span>
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-gray-500">{new Date(study.created_at).toLocaleDateString()}</td>
+              </tr>
+            ))}
+            {!loading && studies.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">No Gage R&R studies yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default GageRR;
@@ -0,0 +1,563 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  CheckBadgeIcon,
+  ExclamationTriangleIcon,
+  MagnifyingGlassIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  WrenchScrewdriverIcon
+} from '@heroicons/react/24/outline';
+import { db } from '../../services/database';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import { CalibrationInput, GaugeCalibrationRow, GaugeInput, GaugeRow, gaugeService } from '../../services/gaugeService';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useUserStore } from '../../stores/useUserStore';
+import { CalibrationResult, GaugeStatus } from '../../types/spc';
+import {
+  CalibrationState,
+  DEFAULT_CALIBRATION_WARNING_DAYS,
+  daysUntil,
+  getCalibrationState,
+  todayIsoDate
+} from '../../utils/calibration';
+
+interface GaugeForm {
+  code: string;
+  name: string;
+  gaugeType: string;
+  resolution: string;
+  rangeMin: string;
+  rangeMax: string;
+  unit: string;
+  location: string;
+  workshopId: string;
+  status: GaugeStatus;
+  calibrationIntervalDays: string;
+  lastCalibrationDate: string;
+  calibrationDueDate: string;
+  notes: string;
+}
+
+const EMPTY_FORM: GaugeForm = {
+  code: '',
+  name: '',
+  gaugeType: '',
+  resolution: '',
+  rangeMin: '',
+  rangeMax: '',
+  unit: '',
+  location: '',
+  workshopId: '',
+  status: 'active',
+  calibrationIntervalDays: '365',
+  lastCalibrationDate: '',
+  calibrationDueDate: '',
+  notes: '',
+};
+
+const STATUS_LABELS: Record<GaugeStatus, string> = {
+  active: 'Active',
+  'out-of-service': 'Out of service',
+  retired: 'Retired',
+};
+
+const RESULT_LABELS: Record<CalibrationResult, string> = {
+  pass: 'Pass',
+  adjusted: 'Adjusted',
+  fail: 'Fail',
+};
+
+const STATE_BADGES: Record<CalibrationState, string> = {
+  ok: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  'due-soon': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  overdue: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  unscheduled: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+};
+
+type StateFilter = CalibrationState | 'out-of-service' | 'all';
+
+const optionalNumber = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const toForm = (gauge: GaugeRow): GaugeForm => ({
+  code: gauge.code,
+  name: gauge.name,
+  gaugeType: gauge.gauge_type ?? '',
+  resolution: gauge.resolution?.toString() ?? '',
+  rangeMin: gauge.range_min?.toString() ?? '',
+  rangeMax: gauge.range_max?.toString() ?? '',
+  unit: gauge.unit ?? '',
+  location: gauge.location ?? '',
+  workshopId: gauge.workshop_id?.toString() ?? '',
+  status: gauge.status,
+  calibrationIntervalDays: gauge.calibration_interval_days?.toString() ?? '',
+  lastCalibrationDate: gauge.last_calibration_date ?? '',
+  calibrationDueDate: gauge.calibration_due_date ?? '',
+  notes: gauge.notes ?? '',
+});
+
+const Gauges = () => {
+  const { scope } = useWorkshopScope();
+  const { can } = usePermissions();
+  const { currentUser } = useUserStore();
+  const [gauges, setGauges] = useState<GaugeRow[]>([]);
+  const [workshops, setWorkshops] = useState<{ id: number; name: string }[]>([]);
+  const [warningDays, setWarningDays] = useState(DEFAULT_CALIBRATION_WARNING_DAYS);
+  const [filter, setFilter] = useState<StateFilter>('all');
+  const [search, setSearch] = useState('');
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<GaugeForm>(EMPTY_FORM);
+  const [calibrating, setCalibrating] = useState<GaugeRow | null>(null);
+  const [calibration, setCalibration] = useState<CalibrationInput>({ calibrationDate: todayIsoDate(), result: 'pass' });
+  const [historyFor, setHistoryFor] = useState<number | null>(null);
+  const [history, setHistory] = useState<GaugeCalibrationRow[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const canManage = can('features', 'write');
+
+  useEffect(() => {
+    loadGauges();
+  }, [scope]);
+
+  const loadGauges = async () => {
+    try {
+      setLoading(true);
+      const workshopScope = workshopScopeService.condition('id');
+      // Raise any notification now due before showing the dashboard
+      await gaugeService.raiseCalibrationNotifications();
+      const [gaugeRows, workshopRows, days] = await Promise.all([
+        gaugeService.listGauges(),
+        db.queryAll(`SELECT id, name FROM workshops WHERE ${workshopScope.sql} ORDER BY name`, workshopScope.params),
+        gaugeService.getWarningDays(),
+      ]);
+      setGauges(gaugeRows);
+      setWorkshops(workshopRows);
+      setWarningDays(days);
+    } catch (error) {
+      console.error('Error loading gauges:', error);
+      toast.error('Failed to load gauges');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadHistory = async (gaugeId: number) => {
+    if (historyFor === gaugeId) {
+      setHistoryFor(null);
+      return;
+    }
+    try {
+      setHistory(await gaugeService.getCalibrations(gaugeId));
+      setHistoryFor(gaugeId);
+    } catch (error) {
+      console.error('Error loading calibration history:', error);
+      toast.error('Failed to load calibration history');
+    }
+  };
+
+  const today = todayIsoDate();
+  const stateOf = (gauge: GaugeRow) => getCalibrationState(gauge, warningDays, today);
+
+  const activeGauges = gauges.filter(gauge => gauge.status === 'active');
+  const counts = {
+    overdue: activeGauges.filter(gauge => stateOf(gauge) === 'overdue').length,
+    dueSoon: activeGauges.filter(gauge => stateOf(gauge) === 'due-soon').length,
+    ok: activeGauges.filter(gauge => stateOf(gauge) === 'ok').length,
+    outOfService: gauges.filter(gauge => gauge.status === 'out-of-service').length,
+  };
+
+  const visibleGauges = gauges.filter(gauge => {
+    const term = search.trim().toLowerCase();
+    if (term && ![gauge.code, gauge.name, gauge.gauge_type, gauge.location].some(value => value?.toLowerCase().includes(term))) {
+      return false;
+    }
+    if (filter === 'all') return gauge.status !== 'retired';
+    if (filter === 'out-of-service') return gauge.status === 'out-of-service';
+    return gauge.status === 'active' && stateOf(gauge) === filter;
+  });
+
+  const openForm = (gauge?: GaugeRow) => {
+    setEditingId(gauge ? gauge.id : 'new');
+    setForm(gauge ? toForm(gauge) : { ...EMPTY_FORM, workshopId: workshopScopeService.getDefaultWorkshopId()?.toString() ?? '' });
+    setCalibrating(null);
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const numbers = [form.resolution, form.rangeMin, form.rangeMax, form.calibrationIntervalDays].map(optionalNumber);
+    if (numbers.some(value => value !== null && !Number.isFinite(value))) {
+      toast.error('Resolution, range and interval must be numbers');
+      return;
+    }
+    const [resolution, rangeMin, rangeMax, interval] = numbers;
+    if (rangeMin !== null && rangeMax !== null && rangeMin >= rangeMax) {
+      toast.error('The range minimum must be below the maximum');
+      return;
+    }
+
+    const input: GaugeInput = {
+      code: form.code,
+      name: form.name,
+      gaugeType: form.gaugeType.trim(),
+      resolution,
+      rangeMin,
+      rangeMax,
+      unit: form.unit.trim(),
+      location: form.location.trim(),
+      workshopId: form.workshopId ? Number(form.workshopId) : null,
+      status: form.status,
+      calibrationIntervalDays: interval,
+      lastCalibrationDate: form.lastCalibrationDate || null,
+      calibrationDueDate: form.calibrationDueDate || null,
+      notes: form.notes.trim(),
+    };
+
+    try {
+      const id = await gaugeService.saveGauge(input, editingId === 'new' ? undefined : editingId ?? undefined);
+      if (!id) return;
+      toast.success(editingId === 'new' ? 'Gauge registered' : 'Gauge updated');
+      setEditingId(null);
+      await loadGauges();
+    } catch (error) {
+      console.error('Error saving gauge:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save gauge');
+    }
+  };
+
+  const handleDelete = async (gauge: GaugeRow) => {
+    if (!confirm(`Delete gauge ${gauge.code} and its calibration history?`)) return;
+    try {
+      if (!(await gaugeService.deleteGauge(gauge.id))) return;
+      toast.success('Gauge deleted');
+      await loadGauges();
+    } catch (error) {
+      console.error('Error deleting gauge:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete gauge');
+    }
+  };
+
+  const openCalibration = (gauge: GaugeRow) => {
+    setCalibrating(gauge);
+    setCalibration({ calibrationDate: today, result: 'pass' });
+    setEditingId(null);
+  };
+
+  const handleCalibrate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!calibrating || !calibration.calibrationDate) return;
+    try {
+      if (!(await gaugeService.recordCalibration(calibrating.id, calibration, currentUser?.id ?? null))) return;
+      toast.success(calibration.result === 'fail' ? `${calibrating.code} taken out of service` : `Calibration of ${calibrating.code} recorded`);
+      setCalibrating(null);
+      if (historyFor === calibrating.id) setHistoryFor(null);
+      await loadGauges();
+    } catch (error) {
+      console.error('Error recording calibration:', error);
+      toast.error('Failed to record calibration');
+    }
+  };
+
+  const renderDue = (gauge: GaugeRow) => {
+    if (gauge.status !== 'active') {
+      return <span className={`px-2 py-0.5 rounded text-xs ${STATE_BADGES.unscheduled}`}>{STATUS_LABELS[gauge.status]}</span>;
+    }
+    const state = stateOf(gauge);
+    if (!gauge.calibration_due_date) {
+      return <span className={`px-2 py-0.5 rounded text-xs ${STATE_BADGES[state]}`}>Not scheduled</span>;
+    }
+    const days = daysUntil(gauge.calibration_due_date, today);
+    const label = days < 0 ? `${-days} d overdue` : days === 0 ? 'Due today' : `in ${days} d`;
+    return (
+      <div className="flex items-center space-x-2">
+        <span>{gauge.calibration_due_date}</span>
+        <span className={`px-2 py-0.5 rounded text-xs ${STATE_BADGES[state]}`}>{label}</span>
+      </div>
+    );
+  };
+
+  const field = (label: string, key: keyof GaugeForm, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+      <input
+        className="input w-full"
+        value={form[key]}
+        onChange={e => setForm({ ...form, [key]: e.target.value })}
+        {...props}
+      />
+    </div>
+  );
+
+  const renderForm = () => (
+    <form onSubmit={handleSave} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        {editingId === 'new' ? 'Register gauge' : `Edit gauge ${form.code}`}
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {field('Gauge ID', 'code', { placeholder: 'CAL-012' })}
+        {field('Name', 'name', { placeholder: 'Digital caliper 0-150 mm' })}
+        {field('Type', 'gaugeType', { placeholder: 'Caliper' })}
+        {field('Location', 'location')}
+        {field('Range min', 'rangeMin', { type: 'number', step: 'any' })}
+        {field('Range max', 'rangeMax', { type: 'number', step: 'any' })}
+        {field('Resolution', 'resolution', { type: 'number', step: 'any', min: 0 })}
+        {field('Unit', 'unit', { placeholder: 'mm' })}
+        {field('Calibration interval (days)', 'calibrationIntervalDays', { type: 'number', min: 1, step: 1 })}
+        {field('Last calibration', 'lastCalibrationDate', { type: 'date' })}
+        {field('Calibration due', 'calibrationDueDate', { type: 'date', title: 'Defaults to the last calibration plus the interval' })}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Workshop</label>
+          <select className="input w-full" value={form.workshopId} onChange={e => setForm({ ...form, workshopId: e.target.value })}>
+            <option value="">Shared (all workshops)</option>
+            {workshops.map(workshop => <option key={workshop.id} value={workshop.id}>{workshop.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Status</label>
+          <select className="input w-full" value={form.status} onChange={e => setForm({ ...form, status: e.target.value as GaugeStatus })}>
+            {(Object.keys(STATUS_LABELS) as GaugeStatus[]).map(status => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-3">
+          {field('Notes', 'notes')}
+        </div>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button type="button" className="btn btn-secondary" onClick={() => setEditingId(null)}>Cancel</button>
+        <button type="submit" className="btn btn-primary">Save</button>
+      </div>
+    </form>
+  );
+
+  const renderCalibrationForm = (gauge: GaugeRow) => (
+    <form onSubmit={handleCalibrate} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        Record calibration of {gauge.code} - {gauge.name}
+      </h2>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Calibration date</label>
+          <input
+            type="date"
+            className="input w-full"
+            max={today}
+            value={calibration.calibrationDate}
+            onChange={e => setCalibration({ ...calibration, calibrationDate: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Result</label>
+          <select
+            className="input w-full"
+            value={calibration.result}
+            onChange={e => setCalibration({ ...calibration, result: e.target.value as CalibrationResult })}
+          >
+            {(Object.keys(RESULT_LABELS) as CalibrationResult[]).map(result => (
+              <option key={result} value={result}>{RESULT_LABELS[result]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Next due</label>
+          <input
+            type="date"
+            className="input w-full"
+            disabled={calibration.result === 'fail'}
+            value={calibration.dueDate ?? ''}
+            onChange={e => setCalibration({ ...calibration, dueDate: e.target.value || null })}
+            title={gauge.calibration_interval_days ? `Defaults to ${gauge.calibration_interval_days} days after the calibration` : undefined}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Certificate</label>
+          <input className="input w-full" value={calibration.certificate ?? ''} onChange={e => setCalibration({ ...calibration, certificate: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Performed by</label>
+          <input className="input w-full" value={calibration.performedBy ?? ''} onChange={e => setCalibration({ ...calibration, performedBy: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Notes</label>
+          <input className="input w-full" value={calibration.notes ?? ''} onChange={e => setCalibration({ ...calibration, notes: e.target.value })} />
+        </div>
+      </div>
+      {calibration.result === 'fail' && (
+        <p className="text-sm text-red-600 dark:text-red-400">A failed calibration takes the gauge out of service until it passes again.</p>
+      )}
+      <div className="flex justify-end space-x-2">
+        <button type="button" className="btn btn-secondary" onClick={() => setCalibrating(null)}>Cancel</button>
+        <button type="submit" className="btn btn-primary">Record</button>
+      </div>
+    </form>
+  );
+
+  const cards: { key: StateFilter; label: string; count: number; className: string }[] = [
+    { key: 'overdue', label: 'Overdue', count: counts.overdue, className: 'text-red-600 dark:text-red-400' },
+    { key: 'due-soon', label: `Due within ${warningDays} days`, count: counts.dueSoon, className: 'text-yellow-600 dark:text-yellow-400' },
+    { key: 'ok', label: 'Calibrated', count: counts.ok, className: 'text-green-600 dark:text-green-400' },
+    { key: 'out-of-service', label: 'Out of service', count: counts.outOfService, className: 'text-gray-700 dark:text-gray-300' },
+  ];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <WrenchScrewdriverIcon className="h-6 w-6 text-gray-700 dark:text-gray-300" />
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Gauges and calibration</h1>
+        </div>
+        {canManage && editingId === null && (
+          <button className="btn btn-primary flex items-center" onClick={() => openForm()}>
+            <PlusIcon className="h-5 w-5 mr-1" /> Register gauge
+          </button>
+        )}
+      </div>
+
+      {/* Calibration-due dashboard */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {cards.map(card => (
+          <button
+            key={card.key}
+            onClick={() => setFilter(filter === card.key ? 'all' : card.key)}
+            className={`bg-white dark:bg-gray-800 rounded-lg shadow p-4 text-left border-2 ${
+              filter === card.key ? 'border-blue-500' : 'border-transparent'
+            }`}
+          >
+            <div className="text-sm text-gray-500 dark:text-gray-400">{card.label}</div>
+            <div className={`text-3xl font-semibold ${card.className}`}>{card.count}</div>
+          </button>
+        ))}
+      </div>
+
+      {editingId !== null && renderForm()}
+      {calibrating && renderCalibrationForm(calibrating)}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <div className="relative max-w-sm">
+            <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-2.5 text-gray-400" />
+            <input
+              className="input w-full pl-10"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search by ID, name, type or location"
+            />
+          </div>
+        </div>
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-2 text-left">Gauge ID</th>
+              <th className="px-4 py-2 text-left">Name</th>
+              <th className="px-4 py-2 text-left">Range / resolution</th>
+              <th className="px-4 py-2 text-left">Location</th>
+              <th className="px-4 py-2 text-left">Last calibration</th>
+              <th className="px-4 py-2 text-left">Calibration due</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {visibleGauges.map(gauge => (
+              <React.Fragment key={gauge.id}>
+                <tr className="hover:bg-gray-50 dark:hover:bg-gray-700">
+                  <td className="px-4 py-2 font-mono font-medium">
+                    <button className="text-blue-600 dark:text-blue-400 hover:underline" onClick={() => loadHistory(gauge.id)}>
+                      {gauge.code}
+                    </button>
+                  </td>
+                  <td className="px-4 py-2">
+                    {gauge.name}
+                    {gauge.gauge_type && <span className="text-gray-500"> · {gauge.gauge_type}</span>}
+                  </td>
+                  <td className="px-4 py-2">
+                    {gauge.range_min ?? '…'} – {gauge.range_max ?? '…'} {gauge.unit}
+                    {gauge.resolution !== null && gauge.resolution !== undefined && (
+                      <span className="text-gray-500"> / {gauge.resolution}</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2">
+                    {gauge.location}
+                    {gauge.workshop_name && <div className="text-xs text-gray-500">{gauge.workshop_name}</div>}
+                  </td>
+                  <td className="px-4 py-2">{gauge.last_calibration_date ?? '-'}</td>
+                  <td className="px-4 py-2">{renderDue(gauge)}</td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    {canManage && (
+                      <div className="flex justify-end space-x-2">
+                        {gauge.status !== 'retired' && (
+                          <button className="p-1 text-green-600 hover:text-green-800" title="Record calibration" onClick={() => openCalibration(gauge)}>
+                            <CheckBadgeIcon className="h-5 w-5" />
+                          </button>
+                        )}
+                        <button className="p-1 text-blue-600 hover:text-blue-800" title="Edit" onClick={() => openForm(gauge)}>
+                          <PencilIcon className="h-5 w-5" />
+                        </button>
+                        <button className="p-1 text-red-600 hover:text-red-800" title="Delete" onClick={() => handleDelete(gauge)}>
+                          <TrashIcon className="h-5 w-5" />
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+                {historyFor === gauge.id && (
+                  <tr>
+                    <td colSpan={7} className="px-8 py-3 bg-gray-50 dark:bg-gray-900/40">
+                      {history.length === 0 ? (
+                        <p className="text-gray-500 dark:text-gray-400">No calibration recorded yet</p>
+                      ) : (
+                        <table className="min-w-full text-xs">
+                          <thead className="text-gray-500">
+                            <tr>
+                              <th className="py-1 text-left">Date</th>
+                              <th className="py-1 text-left">Result</th>
+                              <th className="py-1 text-left">Next due</th>
+                              <th className="py-1 text-left">Certificate</th>
+                              <th className="py-1 text-left">Performed by</th>
+                              <th className="py-1 text-left">Recorded by</th>
+                              <th className="py-1 text-left">Notes</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {history.map(entry => (
+                              <tr key={entry.id}>
+                                <td className="py-1">{entry.calibration_date}</td>
+                                <td className={`py-1 ${entry.result === 'fail' ? 'text-red-600 dark:text-red-400' : ''}`}>{RESULT_LABELS[entry.result]}</td>
+                                <td className="py-1">{entry.due_date ?? '-'}</td>
+                                <td className="py-1">{entry.certificate}</td>
+                                <td className="py-1">{entry.performed_by}</td>
+                                <td className="py-1">{entry.recorded_by_name}</td>
+                                <td className="py-1">{entry.notes}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+            {!loading && visibleGauges.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">
+                  {gauges.length === 0 ? 'No gauges registered yet' : 'No gauges match the filter'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {counts.overdue > 0 && (
+        <div className="flex items-center text-sm text-red-600 dark:text-red-400">
+          <ExclamationTriangleIcon className="h-5 w-5 mr-2" />
+          Overdue gauges are blocked for measurement entry until their calibration is recorded.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Gauges;
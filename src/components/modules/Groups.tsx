@@ -3,6 +3,7 @@ import { db } from '../../services/database';
 import toast from 'react-hot-toast';
 import { useNavigationHistory } from '../../services/navigationHistory';
 import { navigationService } from '../../services/navigationService';
+import { permissionService } from '../../services/permissionService';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 
 interface Group {
@@ -109,6 +110,7 @@ const Groups = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!permissionService.ensure('users', 'admin')) return;
     
     if (!formData.name.trim()) {
       toast.error('Group name is required');
@@ -151,6 +153,8 @@ const Groups = () => {
       
       resetForm();
       loadGroups();
+      // The current user's rights may come from this group
+      permissionService.refresh();
     } catch (error) {
       console.error('Error saving group:', error);
       toast.error('Failed to save group');
@@ -158,6 +162,7 @@ const Groups = () => {
   };
 
   const handleDelete = async (group: Group) => {
+    if (!permissionService.ensure('users', 'admin')) return;
     if (!confirm(`Are you sure you want to delete the group "${group.name}"? This will affect all users in this group.`)) {
       return;
     }
@@ -171,6 +176,7 @@ const Groups = () => {
       
       toast.success('Group deleted successfully');
       loadGroups();
+      permissionService.refresh();
     } catch (error) {
       console.error('Error deleting group:', error);
       toast.error('Failed to delete group');
@@ -179,6 +185,7 @@ const Groups = () => {
 
   const getPermissionBadgeColor = (permission: string) => {
     switch (permission) {
+      case 'admin':
       case 'all': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
       case 'write': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
       case 'read': return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
@@ -388,7 +395,7 @@ const Groups = () => {
                       <option value="none">Aucun</option>
                       <option value="read">Lecture</option>
                       <option value="write">Écriture</option>
-                      <option value="all">Complet</option>
+                      <option value="admin">Complet</option>
                     </select>
                   </div>
                 ))}
@@ -0,0 +1,543 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { CalendarDaysIcon, PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { db } from '../../services/database';
+import {
+  AdherenceRow,
+  InspectionCheckRow,
+  InspectionFrequencyInput,
+  InspectionFrequencyRow,
+  inspectionScheduleService
+} from '../../services/inspectionScheduleService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useUserStore } from '../../stores/useUserStore';
+import { InspectionCheckStatus, InspectionTrigger } from '../../types/spc';
+import {
+  describeInspectionFrequency,
+  INSPECTION_TRIGGERS,
+  parseShiftTimes,
+  TRIGGER_LABELS,
+  triggerNeedsInterval
+} from '../../utils/inspectionSchedule';
+import { addDays, todayIsoDate } from '../../utils/calibration';
+import { fromSqlTimestamp } from '../../utils/dateTime';
+
+interface FrequencyForm {
+  featureId: string;
+  gammaId: string;
+  workstationId: string;
+  triggerType: InspectionTrigger;
+  intervalValue: string;
+  sampleSize: string;
+  graceMinutes: string;
+  active: boolean;
+  notes: string;
+}
+
+interface FeatureOption {
+  id: number;
+  name: string;
+  product_id?: number;
+  product_name?: string;
+}
+
+interface GammaOption {
+  id: number;
+  product_id: number;
+  sequence_number?: number;
+  operation_name?: string;
+  name: string;
+}
+
+const CHECK_BADGES: Record<InspectionCheckStatus, string> = {
+  done: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  late: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  missed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+const CHECK_LABELS: Record<InspectionCheckStatus, string> = {
+  done: 'On time',
+  late: 'Late',
+  missed: 'Missed',
+};
+
+const ADHERENCE_DAYS = 30;
+
+const emptyForm = (): FrequencyForm => ({
+  featureId: '',
+  gammaId: '',
+  workstationId: '',
+  triggerType: 'parts',
+  intervalValue: '',
+  sampleSize: '1',
+  graceMinutes: '15',
+  active: true,
+  notes: '',
+});
+
+const toForm = (frequency: InspectionFrequencyRow): FrequencyForm => ({
+  featureId: String(frequency.feature_id),
+  gammaId: frequency.gamma_id?.toString() ?? '',
+  workstationId: frequency.workstation_id?.toString() ?? '',
+  triggerType: frequency.trigger_type,
+  intervalValue: frequency.interval_value?.toString() ?? '',
+  sampleSize: String(frequency.sample_size),
+  graceMinutes: String(frequency.grace_minutes),
+  active: !!frequency.active,
+  notes: frequency.notes ?? '',
+});
+
+const optionalNumber = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+// Share of checks done on time
+const adherence = (row: Pick<AdherenceRow, 'done' | 'late' | 'missed'>) => {
+  const total = row.done + row.late + row.missed;
+  return total > 0 ? (row.done / total) * 100 : null;
+};
+
+const InspectionPlans = () => {
+  const { can } = usePermissions();
+  const { currentUser } = useUserStore();
+  const [frequencies, setFrequencies] = useState<InspectionFrequencyRow[]>([]);
+  const [features, setFeatures] = useState<FeatureOption[]>([]);
+  const [gammas, setGammas] = useState<GammaOption[]>([]);
+  const [workstations, setWorkstations] = useState<{ id: number; name: string }[]>([]);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<FrequencyForm>(emptyForm());
+  const [saving, setSaving] = useState(false);
+  const [shiftTimes, setShiftTimes] = useState('');
+  const [from, setFrom] = useState(addDays(todayIsoDate(), -ADHERENCE_DAYS));
+  const [to, setTo] = useState(todayIsoDate());
+  const [adherenceRows, setAdherenceRows] = useState<AdherenceRow[]>([]);
+  const [checkStatus, setCheckStatus] = useState<InspectionCheckStatus | 'all'>('missed');
+  const [checks, setChecks] = useState<InspectionCheckRow[]>([]);
+
+  const canManage = can('features', 'write');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    loadAdherence(from, to);
+  }, [from, to]);
+
+  useEffect(() => {
+    loadChecks(checkStatus);
+  }, [checkStatus]);
+
+  const loadData = async () => {
+    try {
+      const [frequencyRows, featureRows, gammaRows, workstationRows, times] = await Promise.all([
+        inspectionScheduleService.listFrequencies(),
+        db.queryAll(
+          `SELECT f.id, f.name, COALESCE(f.product_id, g.product_id) as product_id, p.name as product_name FROM features f
+           LEFT JOIN gammas g ON f.gamma_id = g.id
+           LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+           ORDER BY p.name, f.name`
+        ),
+        db.queryAll('SELECT id, product_id, sequence_number, operation_name, name FROM gammas ORDER BY product_id, sequence_number'),
+        db.queryAll('SELECT id, name FROM workstations ORDER BY name'),
+        inspectionScheduleService.getShiftTimes(),
+      ]);
+      setFrequencies(frequencyRows);
+      setFeatures(featureRows);
+      setGammas(gammaRows);
+      setWorkstations(workstationRows);
+      setShiftTimes(times.join(', '));
+    } catch (error) {
+      console.error('Error loading inspection frequencies:', error);
+      toast.error('Failed to load inspection frequencies');
+    }
+  };
+
+  const loadAdherence = async (fromDate: string, toDate: string) => {
+    if (!fromDate || !toDate) return;
+    try {
+      setAdherenceRows(await inspectionScheduleService.getAdherence(fromDate, toDate));
+    } catch (error) {
+      console.error('Error loading inspection adherence:', error);
+      toast.error('Failed to load inspection adherence');
+    }
+  };
+
+  const loadChecks = async (status: InspectionCheckStatus | 'all') => {
+    try {
+      setChecks(await inspectionScheduleService.listChecks(status));
+    } catch (error) {
+      console.error('Error loading inspection checks:', error);
+      toast.error('Failed to load inspection checks');
+    }
+  };
+
+  const openForm = (frequency?: InspectionFrequencyRow) => {
+    setEditingId(frequency ? frequency.id : 'new');
+    setForm(frequency ? toForm(frequency) : emptyForm());
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.featureId) {
+      toast.error('Choose a feature');
+      return;
+    }
+    const numbers = [form.intervalValue, form.sampleSize, form.graceMinutes].map(optionalNumber);
+    if (numbers.some(value => value !== null && !Number.isFinite(value))) {
+      toast.error('Interval, sample size and grace period must be numbers');
+      return;
+    }
+    const [intervalValue, sampleSize, graceMinutes] = numbers;
+
+    const input: InspectionFrequencyInput = {
+      featureId: Number(form.featureId),
+      gammaId: optionalNumber(form.gammaId),
+      workstationId: optionalNumber(form.workstationId),
+      triggerType: form.triggerType,
+      intervalValue,
+      sampleSize: sampleSize ?? 1,
+      graceMinutes: graceMinutes ?? 0,
+      active: form.active,
+      notes: form.notes,
+    };
+
+    try {
+      setSaving(true);
+      const saved = await inspectionScheduleService.saveFrequency(
+        editingId === 'new' ? null : editingId,
+        input,
+        currentUser?.id ?? null
+      );
+      if (!saved) return;
+      toast.success('Inspection frequency saved');
+      setEditingId(null);
+      loadData();
+    } catch (error) {
+      console.error('Error saving inspection frequency:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save inspection frequency');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (frequency: InspectionFrequencyRow) => {
+    if (!confirm(`Delete the inspection frequency for "${frequency.feature_name}" and its check history?`)) return;
+    try {
+      if (!(await inspectionScheduleService.deleteFrequency(frequency.id))) return;
+      toast.success('Inspection frequency deleted');
+      loadData();
+      loadAdherence(from, to);
+      loadChecks(checkStatus);
+    } catch (error) {
+      console.error('Error deleting inspection frequency:', error);
+      toast.error('Failed to delete inspection frequency');
+    }
+  };
+
+  const handleSaveShiftTimes = async () => {
+    const times = parseShiftTimes(shiftTimes);
+    if (times.length === 0) {
+      toast.error('Enter at least one start time as HH:MM');
+      return;
+    }
+    try {
+      if (!(await inspectionScheduleService.saveShiftTimes(times))) return;
+      setShiftTimes(times.join(', '));
+      toast.success('Shift start times saved');
+    } catch (error) {
+      console.error('Error saving shift start times:', error);
+      toast.error('Failed to save shift start times');
+    }
+  };
+
+  const selectedFeature = features.find(feature => feature.id === Number(form.featureId));
+  const featureGammas = gammas.filter(gamma => gamma.product_id === selectedFeature?.product_id);
+
+  const renderForm = () => (
+    <form onSubmit={handleSave} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        {editingId === 'new' ? 'New inspection frequency' : 'Edit inspection frequency'}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="label block mb-1">Feature</label>
+          <select
+            className="input w-full"
+            value={form.featureId}
+            onChange={e => setForm({ ...form, featureId: e.target.value, gammaId: '' })}
+            required
+          >
+            <option value="">Select a feature</option>
+            {features.map(feature => (
+              <option key={feature.id} value={feature.id}>
+                {feature.product_name ? `${feature.product_name} - ${feature.name}` : feature.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label block mb-1">Route operation</label>
+          <select className="input w-full" value={form.gammaId} onChange={e => setForm({ ...form, gammaId: e.target.value })}>
+            <option value="">Any operation</option>
+            {featureGammas.map(gamma => (
+              <option key={gamma.id} value={gamma.id}>
+                {gamma.sequence_number ? `${gamma.sequence_number} - ` : ''}{gamma.operation_name || gamma.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label block mb-1">Workstation</label>
+          <select className="input w-full" value={form.workstationId} onChange={e => setForm({ ...form, workstationId: e.target.value })}>
+            <option value="">Where the feature is measured</option>
+            {workstations.map(workstation => <option key={workstation.id} value={workstation.id}>{workstation.name}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="label block mb-1">Trigger</label>
+          <select
+            className="input w-full"
+            value={form.triggerType}
+            onChange={e => setForm({ ...form, triggerType: e.target.value as InspectionTrigger })}
+          >
+            {INSPECTION_TRIGGERS.map(trigger => <option key={trigger} value={trigger}>{TRIGGER_LABELS[trigger]}</option>)}
+          </select>
+        </div>
+        {triggerNeedsInterval(form.triggerType) && (
+          <div>
+            <label className="label block mb-1">{form.triggerType === 'parts' ? 'Parts between checks' : 'Minutes between checks'}</label>
+            <input
+              className="input w-full"
+              type="number"
+              min={1}
+              value={form.intervalValue}
+              onChange={e => setForm({ ...form, intervalValue: e.target.value })}
+              required
+            />
+          </div>
+        )}
+        <div>
+          <label className="label block mb-1">Parts per check</label>
+          <input className="input w-full" type="number" min={1} value={form.sampleSize} onChange={e => setForm({ ...form, sampleSize: e.target.value })} />
+        </div>
+        <div>
+          <label className="label block mb-1">Overdue after (minutes)</label>
+          <input className="input w-full" type="number" min={0} value={form.graceMinutes} onChange={e => setForm({ ...form, graceMinutes: e.target.value })} />
+        </div>
+      </div>
+
+      <div>
+        <label className="label block mb-1">Notes</label>
+        <input className="input w-full" value={form.notes} onChange={e => setForm({ ...form, notes: e.target.value })} />
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+        <input type="checkbox" checked={form.active} onChange={e => setForm({ ...form, active: e.target.checked })} />
+        <span>Active</span>
+      </label>
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" className="btn btn-secondary" onClick={() => setEditingId(null)}>Cancel</button>
+        <button type="submit" className="btn btn-primary" disabled={saving}>{saving ? 'Saving...' : 'Save frequency'}</button>
+      </div>
+    </form>
+  );
+
+  const totals = adherenceRows.reduce(
+    (sum, row) => ({ done: sum.done + row.done, late: sum.late + row.late, missed: sum.missed + row.missed }),
+    { done: 0, late: 0, missed: 0 }
+  );
+  const overall = adherence(totals);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <CalendarDaysIcon className="h-6 w-6 text-gray-700 dark:text-gray-300" />
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Inspection frequencies</h1>
+        </div>
+        {canManage && editingId === null && (
+          <button className="btn btn-primary flex items-center" onClick={() => openForm()}>
+            <PlusIcon className="h-5 w-5 mr-1" /> New frequency
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && renderForm()}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-2 text-left">Feature</th>
+              <th className="px-4 py-2 text-left">Operation</th>
+              <th className="px-4 py-2 text-left">Workstation</th>
+              <th className="px-4 py-2 text-left">Frequency</th>
+              <th className="px-4 py-2 text-left">Parts per check</th>
+              <th className="px-4 py-2 text-left">Overdue after</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {frequencies.map(frequency => (
+              <tr key={frequency.id} className={frequency.active ? '' : 'opacity-50'}>
+                <td className="px-4 py-2">
+                  <div className="font-medium">{frequency.feature_name}</div>
+                  {frequency.product_name && <div className="text-xs text-gray-500 dark:text-gray-400">{frequency.product_name}</div>}
+                </td>
+                <td className="px-4 py-2">{frequency.gamma_id ? frequency.operation_name ?? '-' : 'Any'}</td>
+                <td className="px-4 py-2">{frequency.workstation_name ?? 'Workshop'}</td>
+                <td className="px-4 py-2">{describeInspectionFrequency(frequency.trigger_type, frequency.interval_value)}</td>
+                <td className="px-4 py-2">{frequency.sample_size}</td>
+                <td className="px-4 py-2">{frequency.grace_minutes} min</td>
+                <td className="px-4 py-2 text-right whitespace-nowrap">
+                  {canManage && (
+                    <>
+                      <button className="text-blue-600 dark:text-blue-400 mr-3" onClick={() => openForm(frequency)} title="Edit">
+                        <PencilIcon className="h-5 w-5" />
+                      </button>
+                      <button className="text-red-600 dark:text-red-400" onClick={() => handleDelete(frequency)} title="Delete">
+                        <TrashIcon className="h-5 w-5" />
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {frequencies.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">No inspection frequencies</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">Shift start times</h2>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+          Local times, comma-separated. Checks triggered at shift start fall due at each of them.
+        </p>
+        <div className="flex items-center space-x-3">
+          <input
+            className="input w-64"
+            value={shiftTimes}
+            onChange={e => setShiftTimes(e.target.value)}
+            placeholder="06:00, 14:00, 22:00"
+            disabled={!canManage}
+          />
+          {canManage && <button className="btn btn-secondary" onClick={handleSaveShiftTimes}>Save</button>}
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Adherence{overall !== null && <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">{overall.toFixed(1)}% on time overall</span>}
+          </h2>
+          <div className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="date" className="input" value={from} onChange={e => setFrom(e.target.value)} />
+            <span>to</span>
+            <input type="date" className="input" value={to} onChange={e => setTo(e.target.value)} />
+          </div>
+        </div>
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-2 text-left">Feature</th>
+              <th className="px-4 py-2 text-left">Workstation</th>
+              <th className="px-4 py-2 text-left">Frequency</th>
+              <th className="px-4 py-2 text-right">On time</th>
+              <th className="px-4 py-2 text-right">Late</th>
+              <th className="px-4 py-2 text-right">Missed</th>
+              <th className="px-4 py-2 text-right">Adherence</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {adherenceRows.map(row => {
+              const rate = adherence(row);
+              return (
+                <tr key={`${row.frequency_id}-${row.workstation_id}`}>
+                  <td className="px-4 py-2">
+                    <div className="font-medium">{row.feature_name}</div>
+                    {row.product_name && <div className="text-xs text-gray-500 dark:text-gray-400">{row.product_name}</div>}
+                  </td>
+                  <td className="px-4 py-2">{row.workstation_name ?? '-'}</td>
+                  <td className="px-4 py-2">{describeInspectionFrequency(row.trigger_type, row.interval_value)}</td>
+                  <td className="px-4 py-2 text-right">{row.done}</td>
+                  <td className="px-4 py-2 text-right">{row.late}</td>
+                  <td className="px-4 py-2 text-right">{row.missed}</td>
+                  <td className={`px-4 py-2 text-right font-medium ${rate !== null && rate < 95 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                    {rate === null ? '-' : `${rate.toFixed(1)}%`}
+                  </td>
+                </tr>
+              );
+            })}
+            {adherenceRows.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">No scheduled checks in this period</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Check log</h2>
+          <select className="input" value={checkStatus} onChange={e => setCheckStatus(e.target.value as InspectionCheckStatus | 'all')}>
+            <option value="missed">Missed</option>
+            <option value="late">Late</option>
+            <option value="done">On time</option>
+            <option value="all">All checks</option>
+          </select>
+        </div>
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-2 text-left">Due</th>
+              <th className="px-4 py-2 text-left">Feature</th>
+              <th className="px-4 py-2 text-left">Workstation</th>
+              <th className="px-4 py-2 text-left">Trigger</th>
+              <th className="px-4 py-2 text-left">Status</th>
+              <th className="px-4 py-2 text-left">Measured</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {checks.map(check => (
+              <tr key={check.id}>
+                <td className="px-4 py-2 whitespace-nowrap">{fromSqlTimestamp(check.due_at).toLocaleString()}</td>
+                <td className="px-4 py-2">
+                  <div className="font-medium">{check.feature_name}</div>
+                  {check.product_name && <div className="text-xs text-gray-500 dark:text-gray-400">{check.product_name}</div>}
+                </td>
+                <td className="px-4 py-2">{check.workstation_name ?? '-'}</td>
+                <td className="px-4 py-2">{TRIGGER_LABELS[check.trigger_type]}</td>
+                <td className="px-4 py-2">
+                  <span className={`inline-flex px-2 py-0.5 text-xs rounded-full ${CHECK_BADGES[check.status]}`}>
+                    {CHECK_LABELS[check.status]}{check.status === 'missed' && check.missed_count > 1 ? ` × ${check.missed_count}` : ''}
+                  </span>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  {check.completed_at
+                    ? `${fromSqlTimestamp(check.completed_at).toLocaleString()}${check.operator_name ? ` by ${check.operator_name}` : ''}`
+                    : '-'}
+                </td>
+              </tr>
+            ))}
+            {checks.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">No checks</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default InspectionPlans;
@@ -0,0 +1,844 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowUturnLeftIcon,
+  ChartBarIcon,
+  ClipboardDocumentListIcon,
+  ExclamationTriangleIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import { db } from '../../services/database';
+import {
+  NcrHistoryRow,
+  NcrInput,
+  NcrListFilter,
+  NcrRow,
+  OutOfSpecMeasurement,
+  ncrService
+} from '../../services/ncrService';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
+import { useUserStore } from '../../stores/useUserStore';
+import { NcrDisposition, NcrSource, NcrStatus } from '../../types/spc';
+import { DEFAULT_REACTION_CAUSES } from '../../utils/reactionPlans';
+import { addDays, todayIsoDate } from '../../utils/calibration';
+import { fromSqlTimestamp } from '../../utils/dateTime';
+import {
+  EIGHT_D_SECTIONS,
+  EightDField,
+  NCR_DISPOSITIONS,
+  NCR_STATUSES,
+  NCR_TRANSITIONS,
+  NcrCauseCount,
+  buildPareto,
+  isBackwardTransition,
+  missingForStatus,
+  ncrStatusLabel,
+  parseFiveWhys
+} from '../../utils/ncr';
+
+type View = 'reports' | 'pareto';
+
+type TextField = 'title' | 'serial_number' | 'lot_number' | 'cause_code' | 'cause_description' | 'disposition_notes' | 'due_date';
+
+type IdField = 'product_id' | 'route_id' | 'feature_id' | 'workshop_id' | 'workstation_id' | 'assigned_to';
+
+interface Option {
+  id: number;
+  name: string;
+}
+
+interface FeatureOption extends Option {
+  product_id?: number | null;
+  route_id?: number | null;
+}
+
+interface RouteOption extends Option {
+  product_id?: number | null;
+}
+
+interface Lookups {
+  products: Option[];
+  routes: RouteOption[];
+  features: FeatureOption[];
+  workshops: Option[];
+  workstations: Option[];
+  users: Option[];
+}
+
+const STATUS_BADGES: Record<NcrStatus, string> = {
+  open: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  investigating: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  action: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  verified: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+  closed: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+};
+
+const LIST_FILTERS: { value: NcrListFilter; label: string }[] = [
+  { value: 'active', label: 'Not closed' },
+  ...NCR_STATUSES,
+  { value: 'all', label: 'All' },
+];
+
+// Share of the defects the Pareto highlights as the vital few
+const VITAL_FEW_PERCENT = 80;
+
+const EMPTY_LOOKUPS: Lookups = { products: [], routes: [], features: [], workshops: [], workstations: [], users: [] };
+
+const toInput = (ncr: NcrRow): NcrInput => ({
+  title: ncr.title,
+  product_id: ncr.product_id ?? null,
+  route_id: ncr.route_id ?? null,
+  feature_id: ncr.feature_id ?? null,
+  serial_number: ncr.serial_number ?? null,
+  lot_number: ncr.lot_number ?? null,
+  quantity: ncr.quantity,
+  workshop_id: ncr.workshop_id ?? null,
+  workstation_id: ncr.workstation_id ?? null,
+  cause_code: ncr.cause_code ?? null,
+  cause_description: ncr.cause_description ?? null,
+  disposition: ncr.disposition ?? null,
+  disposition_notes: ncr.disposition_notes ?? null,
+  assigned_to: ncr.assigned_to ?? null,
+  due_date: ncr.due_date ?? null,
+  team: ncr.team ?? null,
+  problem_description: ncr.problem_description ?? null,
+  containment_action: ncr.containment_action ?? null,
+  root_cause: ncr.root_cause ?? null,
+  corrective_action: ncr.corrective_action ?? null,
+  verification: ncr.verification ?? null,
+  preventive_action: ncr.preventive_action ?? null,
+  closure_notes: ncr.closure_notes ?? null,
+  five_whys: parseFiveWhys(ncr.five_whys),
+});
+
+const loadLookups = async (): Promise<Lookups> => {
+  const scope = workshopScopeService.condition('id');
+  const [products, routes, features, workshops, workstations, users] = await Promise.all([
+    db.queryAll('SELECT id, name FROM products ORDER BY name'),
+    db.queryAll('SELECT id, name, product_id FROM routes ORDER BY name'),
+    db.queryAll(
+      `SELECT f.id, f.name, COALESCE(f.product_id, g.product_id) as product_id, f.route_id
+       FROM features f LEFT JOIN gammas g ON f.gamma_id = g.id ORDER BY f.name`
+    ),
+    db.queryAll(`SELECT id, name FROM workshops WHERE ${scope.sql} ORDER BY name`, scope.params),
+    db.queryAll('SELECT id, name FROM workstations ORDER BY name'),
+    db.queryAll("SELECT id, username as name FROM users WHERE status = 'active' ORDER BY username"),
+  ]);
+  return { products, routes, features, workshops, workstations, users };
+};
+
+const NonconformanceReports = () => {
+  const { can } = usePermissions();
+  const { scope } = useWorkshopScope();
+  const { currentUser } = useUserStore();
+  const [view, setView] = useState<View>('reports');
+  const [filter, setFilter] = useState<NcrListFilter>('active');
+  const [ncrs, setNcrs] = useState<NcrRow[]>([]);
+  const [lookups, setLookups] = useState<Lookups>(EMPTY_LOOKUPS);
+  const [causeCodes, setCauseCodes] = useState<{ code: string; description?: string | null }[]>([]);
+  const [outOfSpec, setOutOfSpec] = useState<OutOfSpecMeasurement[] | null>(null);
+
+  // Editor: an existing NCR, or a new one with where it came from
+  const [selected, setSelected] = useState<NcrRow | null>(null);
+  const [origin, setOrigin] = useState<{ source: NcrSource; measurementId?: number; nonconformanceId?: number | null } | null>(null);
+  const [form, setForm] = useState<NcrInput | null>(null);
+  const [history, setHistory] = useState<NcrHistoryRow[]>([]);
+  const [dirty, setDirty] = useState(false);
+  const [statusComment, setStatusComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Pareto
+  const [paretoWorkshop, setParetoWorkshop] = useState('');
+  const [paretoFrom, setParetoFrom] = useState(() => addDays(todayIsoDate(), -90));
+  const [paretoTo, setParetoTo] = useState(() => todayIsoDate());
+  const [paretoMeasure, setParetoMeasure] = useState<'ncrs' | 'quantity'>('ncrs');
+  const [causeCounts, setCauseCounts] = useState<NcrCauseCount[]>([]);
+
+  const canEdit = can('measurements', 'write');
+  const canApprove = can('features', 'write');
+  const editable = canEdit && selected?.status !== 'closed';
+
+  useEffect(() => {
+    loadNcrs(filter);
+  }, [filter, scope]);
+
+  useEffect(() => {
+    loadReferenceData();
+  }, [scope]);
+
+  useEffect(() => {
+    if (view === 'pareto') loadPareto(paretoWorkshop, paretoFrom, paretoTo);
+  }, [view, paretoWorkshop, paretoFrom, paretoTo, scope]);
+
+  const loadNcrs = async (listFilter: NcrListFilter) => {
+    try {
+      setNcrs(await ncrService.listNcrs(listFilter));
+    } catch (error) {
+      console.error('Error loading NCRs:', error);
+      toast.error('Failed to load NCRs');
+    }
+  };
+
+  const loadReferenceData = async () => {
+    try {
+      const [lookupRows, codes] = await Promise.all([loadLookups(), ncrService.listCauseCodes()]);
+      setLookups(lookupRows);
+      setCauseCodes(codes);
+    } catch (error) {
+      console.error('Error loading NCR reference data:', error);
+    }
+  };
+
+  const loadPareto = async (workshopId: string, from: string, to: string) => {
+    try {
+      setCauseCounts(await ncrService.paretoByCause(workshopId ? Number(workshopId) : null, from, to));
+    } catch (error) {
+      console.error('Error loading NCR Pareto:', error);
+      toast.error('Failed to load the defect causes');
+    }
+  };
+
+  const confirmDiscard = () => !dirty || confirm('Discard the unsaved changes to this NCR?');
+
+  const openNcr = (ncr: NcrRow) => {
+    if (!confirmDiscard()) return;
+    loadNcr(ncr.id);
+  };
+
+  const loadNcr = async (ncrId: number) => {
+    try {
+      const [ncr, historyRows] = await Promise.all([ncrService.getNcr(ncrId), ncrService.listHistory(ncrId)]);
+      setSelected(ncr);
+      setOrigin(null);
+      setForm(toInput(ncr));
+      setHistory(historyRows);
+      setDirty(false);
+      setStatusComment('');
+    } catch (error) {
+      console.error('Error loading NCR:', error);
+      toast.error('Failed to load the NCR');
+    }
+  };
+
+  const startNew = (input: NcrInput, source: NcrSource, measurement?: OutOfSpecMeasurement) => {
+    if (!confirmDiscard()) return;
+    setSelected(null);
+    setOrigin({ source, measurementId: measurement?.measurement_id, nonconformanceId: measurement?.nonconformance_id });
+    setForm(input);
+    setHistory([]);
+    setDirty(true);
+    setOutOfSpec(null);
+  };
+
+  const closeEditor = () => {
+    if (!confirmDiscard()) return;
+    setSelected(null);
+    setOrigin(null);
+    setForm(null);
+    setDirty(false);
+  };
+
+  const toggleOutOfSpec = async () => {
+    if (outOfSpec) {
+      setOutOfSpec(null);
+      return;
+    }
+    try {
+      setOutOfSpec(await ncrService.listOutOfSpecMeasurements());
+    } catch (error) {
+      console.error('Error loading out-of-specification values:', error);
+      toast.error('Failed to load the out-of-specification values');
+    }
+  };
+
+  const update = <K extends keyof NcrInput>(field: K, value: NcrInput[K]) => {
+    setForm(prev => (prev ? { ...prev, [field]: value } : prev));
+    setDirty(true);
+  };
+
+  const updateWhy = (index: number, value: string) => {
+    setForm(prev => (prev ? { ...prev, five_whys: prev.five_whys.map((why, i) => (i === index ? value : why)) } : prev));
+    setDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    try {
+      setSaving(true);
+      if (selected) {
+        if (!(await ncrService.updateNcr(selected.id, form, currentUser?.id ?? null))) return;
+        toast.success(`${selected.ncr_number} saved`);
+        setDirty(false);
+        await loadNcrs(filter);
+        await loadNcr(selected.id);
+      } else {
+        const ncrId = await ncrService.createNcr(form, origin ?? { source: 'manual' }, currentUser?.id ?? null);
+        if (ncrId === null) return;
+        toast.success('NCR created');
+        setDirty(false);
+        await loadNcrs(filter);
+        await loadNcr(ncrId);
+      }
+      setCauseCodes(await ncrService.listCauseCodes());
+    } catch (error) {
+      console.error('Error saving NCR:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save the NCR');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStatus = async (to: NcrStatus) => {
+    if (!selected) return;
+    if (dirty) {
+      toast.error('Save the NCR before changing its status');
+      return;
+    }
+    try {
+      setSaving(true);
+      if (!(await ncrService.changeStatus(selected.id, to, statusComment, currentUser?.id ?? null))) return;
+      toast.success(`${selected.ncr_number} is now ${ncrStatusLabel(to).toLowerCase()}`);
+      await loadNcrs(filter);
+      await loadNcr(selected.id);
+    } catch (error) {
+      console.error('Error changing NCR status:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to change the status');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (ncr: NcrRow) => {
+    if (!confirm(`Delete ${ncr.ncr_number} and its history?`)) return;
+    try {
+      if (!(await ncrService.deleteNcr(ncr.id))) return;
+      toast.success('NCR deleted');
+      if (ncr.id === selected?.id) {
+        setSelected(null);
+        setForm(null);
+        setDirty(false);
+      }
+      loadNcrs(filter);
+    } catch (error) {
+      console.error('Error deleting NCR:', error);
+      toast.error('Failed to delete the NCR');
+    }
+  };
+
+  const textInput = (field: TextField, label: string, type: string = 'text') => (
+    <div>
+      <label className="label block mb-1">{label}</label>
+      <input
+        type={type}
+        className="input w-full"
+        value={form?.[field] ?? ''}
+        onChange={e => update(field, e.target.value)}
+        disabled={!editable}
+        list={field === 'cause_code' ? 'ncr-cause-codes' : undefined}
+      />
+    </div>
+  );
+
+  const idSelect = (field: IdField, label: string, options: Option[]) => (
+    <div>
+      <label className="label block mb-1">{label}</label>
+      <select
+        className="input w-full"
+        value={form?.[field] ?? ''}
+        onChange={e => update(field, e.target.value ? Number(e.target.value) : null)}
+        disabled={!editable}
+      >
+        <option value="">-</option>
+        {options.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+      </select>
+    </div>
+  );
+
+  const textArea = (field: EightDField, label: string) => (
+    <div key={field}>
+      <label className="label block mb-1">{label}</label>
+      <textarea
+        className="input w-full"
+        rows={3}
+        value={form?.[field] ?? ''}
+        onChange={e => update(field, e.target.value)}
+        disabled={!editable}
+      />
+    </div>
+  );
+
+  const renderWorkflow = () => {
+    if (!selected || !form) return null;
+    const currentIndex = NCR_STATUSES.findIndex(item => item.value === selected.status);
+    return (
+      <div className="space-y-3">
+        <ol className="flex flex-wrap items-center gap-2 text-sm">
+          {NCR_STATUSES.map((item, index) => (
+            <li
+              key={item.value}
+              className={`px-3 py-1 rounded-full ${
+                index === currentIndex
+                  ? STATUS_BADGES[item.value]
+                  : index < currentIndex
+                    ? 'bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200'
+                    : 'bg-gray-50 text-gray-400 dark:bg-gray-700 dark:text-gray-500'
+              }`}
+            >
+              {index + 1}. {item.label}
+            </li>
+          ))}
+        </ol>
+        {canEdit && (
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="flex-1 min-w-[16rem]">
+              <label className="label block mb-1">Comment</label>
+              <input
+                className="input w-full"
+                value={statusComment}
+                onChange={e => setStatusComment(e.target.value)}
+                placeholder="Required when moving back or reopening"
+              />
+            </div>
+            {NCR_TRANSITIONS[selected.status].map(to => {
+              const backward = isBackwardTransition(selected.status, to);
+              const missing = backward ? [] : missingForStatus(selected, to);
+              const needsApproval = !backward && (to === 'verified' || to === 'closed') && !canApprove;
+              return (
+                <button
+                  key={to}
+                  className={`btn ${backward ? 'btn-secondary' : 'btn-primary'} flex items-center`}
+                  onClick={() => handleStatus(to)}
+                  disabled={saving || needsApproval}
+                  title={
+                    needsApproval
+                      ? 'Needs write access to features'
+                      : missing.length > 0 ? `Missing ${missing.join(', ')}` : undefined
+                  }
+                >
+                  {backward && <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />}
+                  {selected.status === 'closed' ? 'Reopen' : backward ? `Back to ${ncrStatusLabel(to).toLowerCase()}` : `Move to ${ncrStatusLabel(to).toLowerCase()}`}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderEditor = () => {
+    if (!form) return null;
+    const productRoutes = lookups.routes.filter(route => !form.product_id || route.product_id === form.product_id);
+    const productFeatures = lookups.features.filter(feature =>
+      (!form.product_id || feature.product_id === form.product_id) && (!form.route_id || !feature.route_id || feature.route_id === form.route_id)
+    );
+    const rootCauseIndex = EIGHT_D_SECTIONS.findIndex(section => section.key === 'root_cause');
+
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {selected ? selected.ncr_number : 'New NCR'}
+            {selected && (
+              <span className={`ml-2 inline-flex px-2 py-0.5 text-xs rounded-full ${STATUS_BADGES[selected.status]}`}>
+                {ncrStatusLabel(selected.status)}
+              </span>
+            )}
+            {origin?.source === 'measurement' && (
+              <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">from an out-of-specification value</span>
+            )}
+            {dirty && <span className="ml-2 text-sm font-normal text-orange-600 dark:text-orange-400">Unsaved changes</span>}
+          </h2>
+          <div className="flex items-center space-x-2">
+            <button className="btn btn-secondary" onClick={closeEditor}>Close</button>
+            {editable && (
+              <button className="btn btn-primary" onClick={handleSave} disabled={saving || !dirty}>
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {selected && (
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            Raised {fromSqlTimestamp(selected.created_at).toLocaleString()}
+            {selected.created_by_name && ` by ${selected.created_by_name}`}
+            {selected.closed_at && ` · closed ${fromSqlTimestamp(selected.closed_at).toLocaleString()}`}
+          </div>
+        )}
+
+        {renderWorkflow()}
+
+        <section className="space-y-3">
+          <h3 className="text-md font-semibold text-gray-900 dark:text-white">Nonconforming product</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-3">{textInput('title', 'Title')}</div>
+            {idSelect('product_id', 'Product', lookups.products)}
+            {idSelect('route_id', 'Route', productRoutes)}
+            {idSelect('feature_id', 'Feature', productFeatures)}
+            {textInput('serial_number', 'Serial number')}
+            {textInput('lot_number', 'Lot number')}
+            <div>
+              <label className="label block mb-1">Quantity</label>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                className="input w-full"
+                value={form.quantity}
+                onChange={e => update('quantity', Number(e.target.value))}
+                disabled={!editable}
+              />
+            </div>
+            {idSelect('workshop_id', 'Workshop', lookups.workshops)}
+            {idSelect('workstation_id', 'Workstation', lookups.workstations)}
+          </div>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-md font-semibold text-gray-900 dark:text-white">Assignment and disposition</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {idSelect('assigned_to', 'Assigned to', lookups.users)}
+            {textInput('due_date', 'Due date', 'date')}
+            <div>
+              <label className="label block mb-1">Disposition</label>
+              <select
+                className="input w-full"
+                value={form.disposition ?? ''}
+                onChange={e => update('disposition', (e.target.value || null) as NcrDisposition | null)}
+                disabled={!editable}
+              >
+                <option value="">Not decided</option>
+                {NCR_DISPOSITIONS.map(item => <option key={item.value} value={item.value}>{item.label}</option>)}
+              </select>
+            </div>
+            {textInput('cause_code', 'Cause code')}
+            <div className="md:col-span-2">{textInput('cause_description', 'Cause description')}</div>
+            <div className="md:col-span-3">{textInput('disposition_notes', 'Disposition notes')}</div>
+          </div>
+          <datalist id="ncr-cause-codes">
+            {[...causeCodes, ...DEFAULT_REACTION_CAUSES.filter(item => !causeCodes.some(code => code.code === item.code))].map(item => (
+              <option key={item.code} value={item.code}>{item.description}</option>
+            ))}
+          </datalist>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-md font-semibold text-gray-900 dark:text-white">8D report</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {EIGHT_D_SECTIONS.slice(0, rootCauseIndex).map(section => textArea(section.key, `${section.code} - ${section.label}`))}
+          </div>
+          <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-2">
+            <h4 className="text-sm font-semibold text-gray-900 dark:text-white">5 Whys</h4>
+            {form.five_whys.map((why, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <span className="w-16 text-sm text-gray-500 dark:text-gray-400">Why {index + 1}</span>
+                <input
+                  className="input flex-1"
+                  value={why}
+                  onChange={e => updateWhy(index, e.target.value)}
+                  disabled={!editable}
+                  placeholder={index === 0 ? 'Why did the nonconformance happen?' : `Why ${form.five_whys[index - 1] ? `"${form.five_whys[index - 1]}"` : ''}?`}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {EIGHT_D_SECTIONS.slice(rootCauseIndex).map(section => textArea(section.key, `${section.code} - ${section.label}`))}
+          </div>
+        </section>
+
+        {selected && (
+          <section>
+            <h3 className="text-md font-semibold text-gray-900 dark:text-white mb-2">History</h3>
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                <tr>
+                  <th className="px-4 py-2 text-left">Date</th>
+                  <th className="px-4 py-2 text-left">Status</th>
+                  <th className="px-4 py-2 text-left">Comment</th>
+                  <th className="px-4 py-2 text-left">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+                {history.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="px-4 py-2 whitespace-nowrap">{fromSqlTimestamp(entry.changed_at).toLocaleString()}</td>
+                    <td className="px-4 py-2">
+                      {entry.from_status ? `${ncrStatusLabel(entry.from_status)} → ` : ''}{ncrStatusLabel(entry.to_status)}
+                    </td>
+                    <td className="px-4 py-2">{entry.comment ?? '-'}</td>
+                    <td className="px-4 py-2">{entry.changed_by_name ?? '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  const renderOutOfSpec = () => {
+    if (!outOfSpec) return null;
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700 text-sm text-gray-600 dark:text-gray-300">
+          Out-of-specification values of the last 30 days without an NCR
+        </div>
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-2 text-left">Measured</th>
+              <th className="px-4 py-2 text-left">Product / feature</th>
+              <th className="px-4 py-2 text-left">Value</th>
+              <th className="px-4 py-2 text-left">Serial / lot</th>
+              <th className="px-4 py-2 text-left">Operator reaction</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {outOfSpec.map(row => (
+              <tr key={row.measurement_id}>
+                <td className="px-4 py-2 whitespace-nowrap">{fromSqlTimestamp(row.timestamp).toLocaleString()}</td>
+                <td className="px-4 py-2">
+                  {row.feature_name}
+                  {row.product_name && <div className="text-xs text-gray-500 dark:text-gray-400">{row.product_name}</div>}
+                </td>
+                <td className="px-4 py-2 text-red-600 dark:text-red-400">
+                  {row.measured_value} {row.unit}
+                  <div className="text-xs text-gray-500 dark:text-gray-400">limit {row.limit}</div>
+                </td>
+                <td className="px-4 py-2">{[row.serial_number, row.lot_number].filter(Boolean).join(' / ') || '-'}</td>
+                <td className="px-4 py-2">{row.cause_code ? `${row.cause_code}${row.cause_description ? ` - ${row.cause_description}` : ''}` : '-'}</td>
+                <td className="px-4 py-2 text-right">
+                  <button
+                    className="btn btn-primary text-xs"
+                    onClick={() => startNew(ncrService.draftFromMeasurement(row), 'measurement', row)}
+                  >
+                    Raise NCR
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {outOfSpec.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">
+                  No out-of-specification value waiting for an NCR
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  const renderReports = () => (
+    <>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <select className="input" value={filter} onChange={e => setFilter(e.target.value as NcrListFilter)}>
+          {LIST_FILTERS.map(item => <option key={item.value} value={item.value}>{item.label}</option>)}
+        </select>
+        {canEdit && (
+          <div className="flex items-center space-x-2">
+            <button className="btn btn-secondary flex items-center" onClick={toggleOutOfSpec}>
+              <ExclamationTriangleIcon className="h-5 w-5 mr-1" /> From out-of-spec value
+            </button>
+            <button className="btn btn-primary flex items-center" onClick={() => startNew(ncrService.emptyInput(), 'manual')}>
+              <PlusIcon className="h-5 w-5 mr-1" /> New NCR
+            </button>
+          </div>
+        )}
+      </div>
+
+      {renderOutOfSpec()}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-2 text-left">NCR</th>
+              <th className="px-4 py-2 text-left">Product / feature</th>
+              <th className="px-4 py-2 text-left">Qty</th>
+              <th className="px-4 py-2 text-left">Cause</th>
+              <th className="px-4 py-2 text-left">Disposition</th>
+              <th className="px-4 py-2 text-left">Assigned to</th>
+              <th className="px-4 py-2 text-left">Status</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {ncrs.map(ncr => (
+              <tr
+                key={ncr.id}
+                className={`cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 ${ncr.id === selected?.id ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                onClick={() => openNcr(ncr)}
+              >
+                <td className="px-4 py-2">
+                  <div className="font-medium">{ncr.ncr_number}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{ncr.title}</div>
+                </td>
+                <td className="px-4 py-2">
+                  {ncr.product_name ?? '-'}
+                  {ncr.feature_name && <div className="text-xs text-gray-500 dark:text-gray-400">{ncr.feature_name}</div>}
+                </td>
+                <td className="px-4 py-2">{ncr.quantity}</td>
+                <td className="px-4 py-2">{ncr.cause_code ?? '-'}</td>
+                <td className="px-4 py-2">{NCR_DISPOSITIONS.find(item => item.value === ncr.disposition)?.label ?? '-'}</td>
+                <td className="px-4 py-2">
+                  {ncr.assignee_name ?? '-'}
+                  {ncr.due_date && (
+                    <div className={`text-xs ${ncr.status !== 'closed' && ncr.due_date < todayIsoDate() ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                      due {ncr.due_date}
+                    </div>
+                  )}
+                </td>
+                <td className="px-4 py-2">
+                  <span className={`inline-flex px-2 py-0.5 text-xs rounded-full ${STATUS_BADGES[ncr.status]}`}>{ncrStatusLabel(ncr.status)}</span>
+                </td>
+                <td className="px-4 py-2 text-right">
+                  {canApprove && (
+                    <button
+                      className="text-red-600 dark:text-red-400"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(ncr);
+                      }}
+                      title="Delete"
+                    >
+                      <TrashIcon className="h-5 w-5" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {ncrs.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">No NCRs</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {renderEditor()}
+    </>
+  );
+
+  const renderPareto = () => {
+    const bars = buildPareto(causeCounts, paretoMeasure);
+    const max = bars[0]?.value ?? 0;
+    const total = bars.reduce((sum, bar) => sum + bar.value, 0);
+    return (
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div>
+            <label className="label block mb-1">Workshop</label>
+            <select className="input w-full" value={paretoWorkshop} onChange={e => setParetoWorkshop(e.target.value)}>
+              <option value="">All workshops</option>
+              {lookups.workshops.map(workshop => <option key={workshop.id} value={workshop.id}>{workshop.name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="label block mb-1">From</label>
+            <input type="date" className="input w-full" value={paretoFrom} onChange={e => setParetoFrom(e.target.value)} />
+          </div>
+          <div>
+            <label className="label block mb-1">To</label>
+            <input type="date" className="input w-full" value={paretoTo} onChange={e => setParetoTo(e.target.value)} />
+          </div>
+          <div>
+            <label className="label block mb-1">Count</label>
+            <select className="input w-full" value={paretoMeasure} onChange={e => setParetoMeasure(e.target.value as 'ncrs' | 'quantity')}>
+              <option value="ncrs">NCRs</option>
+              <option value="quantity">Nonconforming parts</option>
+            </select>
+          </div>
+        </div>
+
+        {bars.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-6">No NCRs in this period</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead className="text-gray-600 dark:text-gray-300">
+              <tr>
+                <th className="px-2 py-2 text-left">Cause</th>
+                <th className="px-2 py-2 text-left w-1/2" />
+                <th className="px-2 py-2 text-right">{paretoMeasure === 'ncrs' ? 'NCRs' : 'Parts'}</th>
+                <th className="px-2 py-2 text-right">%</th>
+                <th className="px-2 py-2 text-right">Cumulative</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-900 dark:text-gray-100">
+              {bars.map((bar, index) => {
+                const vitalFew = index === 0 || bars[index - 1].cumulativePercent < VITAL_FEW_PERCENT;
+                return (
+                  <tr key={bar.cause}>
+                    <td className="px-2 py-1">
+                      <div className="font-medium">{bar.cause}</div>
+                      {bar.description && <div className="text-xs text-gray-500 dark:text-gray-400">{bar.description}</div>}
+                    </td>
+                    <td className="px-2 py-1">
+                      <div
+                        className={`h-5 rounded ${vitalFew ? 'bg-red-500' : 'bg-gray-400 dark:bg-gray-500'}`}
+                        style={{ width: `${max > 0 ? (bar.value / max) * 100 : 0}%` }}
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-right">{bar.value}</td>
+                    <td className="px-2 py-1 text-right">{bar.percent.toFixed(1)}</td>
+                    <td className="px-2 py-1 text-right">{bar.cumulativePercent.toFixed(1)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot className="text-gray-600 dark:text-gray-300">
+              <tr>
+                <td className="px-2 py-2 font-medium">Total</td>
+                <td />
+                <td className="px-2 py-2 text-right font-medium">{total}</td>
+                <td colSpan={2} className="px-2 py-2 text-right text-xs">
+                  Red: causes making up the first {VITAL_FEW_PERCENT} %
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </div>
+    );
+  };
+
+  const tabClass = (tab: View) =>
+    `py-2 px-1 border-b-2 font-medium text-sm flex items-center ${
+      view === tab
+        ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+        : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+    }`;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center space-x-2">
+        <ClipboardDocumentListIcon className="h-6 w-6 text-gray-700 dark:text-gray-300" />
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Nonconformance reports</h1>
+      </div>
+
+      <div className="border-b border-gray-200 dark:border-gray-700">
+        <nav className="-mb-px flex space-x-8">
+          <button className={tabClass('reports')} onClick={() => setView('reports')}>
+            <ClipboardDocumentListIcon className="h-4 w-4 mr-1" /> Reports
+          </button>
+          <button className={tabClass('pareto')} onClick={() => setView('pareto')}>
+            <ChartBarIcon className="h-4 w-4 mr-1" /> Cause Pareto
+          </button>
+        </nav>
+      </div>
+
+      {view === 'reports' ? renderReports() : renderPareto()}
+    </div>
+  );
+};
+
+export default NonconformanceReports;
@@ -0,0 +1,540 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { BellAlertIcon, CheckIcon, PencilIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { db } from '../../services/database';
+import {
+  NotificationEventRow,
+  NotificationRuleInput,
+  NotificationRuleRow,
+  notificationRuleService
+} from '../../services/notificationRuleService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
+import { useUserStore } from '../../stores/useUserStore';
+import { CharacteristicClass, NotificationEventType, NotificationSeverity } from '../../types/spc';
+import { NELSON_RULES } from '../../utils/statistics';
+import { CHARACTERISTIC_CLASSES } from '../../utils/specifications';
+import {
+  DEFAULT_DEDUP_MINUTES,
+  NOTIFICATION_ROLES,
+  parseList,
+  RULE_DEFAULTS,
+  SEVERITIES
+} from '../../utils/notificationRules';
+
+interface RuleForm {
+  name: string;
+  eventType: NotificationEventType;
+  severity: NotificationSeverity;
+  enabled: boolean;
+  featureId: string;
+  characteristicClass: string;
+  workshopId: string;
+  controlRules: string[];
+  threshold: string;
+  windowSize: string;
+  recipientRoles: string[];
+  recipientGroupId: string;
+  dedupMinutes: string;
+  escalateAfterMinutes: string;
+  escalationRoles: string[];
+}
+
+const EVENT_TYPES: { value: NotificationEventType; label: string; threshold?: string; window?: string }[] = [
+  { value: 'control-rule', label: 'Control rule violation', window: 'Points examined' },
+  { value: 'capability', label: 'Cpk below threshold', threshold: 'Minimum Cpk', window: 'Last N subgroups' },
+  { value: 'missed-inspection', label: 'Missed inspection check', threshold: 'Look back (hours)' },
+  { value: 'calibration-due', label: 'Gauge nearing calibration', threshold: 'Days before due date' },
+];
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: 'Administrators',
+  method: 'Method',
+  controle: 'Quality control',
+  prod: 'Production',
+};
+
+const SEVERITY_BADGES: Record<NotificationSeverity, string> = {
+  info: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  critical: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
+const emptyForm = (eventType: NotificationEventType = 'control-rule'): RuleForm => ({
+  name: '',
+  eventType,
+  severity: 'warning',
+  enabled: true,
+  featureId: '',
+  characteristicClass: '',
+  workshopId: '',
+  controlRules: NELSON_RULES.map(rule => rule.id),
+  threshold: RULE_DEFAULTS[eventType].threshold?.toString() ?? '',
+  windowSize: RULE_DEFAULTS[eventType].windowSize?.toString() ?? '',
+  recipientRoles: ['method', 'controle'],
+  recipientGroupId: '',
+  dedupMinutes: String(DEFAULT_DEDUP_MINUTES),
+  escalateAfterMinutes: '',
+  escalationRoles: ['admin'],
+});
+
+const toForm = (rule: NotificationRuleRow): RuleForm => ({
+  name: rule.name,
+  eventType: rule.event_type,
+  severity: rule.severity,
+  enabled: !!rule.enabled,
+  featureId: rule.feature_id?.toString() ?? '',
+  characteristicClass: rule.characteristic_class ?? '',
+  workshopId: rule.workshop_id?.toString() ?? '',
+  controlRules: rule.control_rules ? parseList(rule.control_rules) : NELSON_RULES.map(r => r.id),
+  threshold: rule.threshold?.toString() ?? '',
+  windowSize: rule.window_size?.toString() ?? '',
+  recipientRoles: parseList(rule.recipient_roles),
+  recipientGroupId: rule.recipient_group_id?.toString() ?? '',
+  dedupMinutes: String(rule.dedup_minutes),
+  escalateAfterMinutes: rule.escalate_after_minutes?.toString() ?? '',
+  escalationRoles: rule.escalation_roles ? parseList(rule.escalation_roles) : ['admin'],
+});
+
+const optionalNumber = (value: string): number | null => (value.trim() === '' ? null : Number(value));
+
+const NotificationRules = () => {
+  const { can } = usePermissions();
+  const { scope } = useWorkshopScope();
+  const { currentUser } = useUserStore();
+  const [rules, setRules] = useState<NotificationRuleRow[]>([]);
+  const [events, setEvents] = useState<NotificationEventRow[]>([]);
+  const [showAllEvents, setShowAllEvents] = useState(false);
+  const [features, setFeatures] = useState<{ id: number; name: string; product_name?: string }[]>([]);
+  const [workshops, setWorkshops] = useState<{ id: number; name: string }[]>([]);
+  const [groups, setGroups] = useState<{ id: number; name: string }[]>([]);
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [form, setForm] = useState<RuleForm>(emptyForm());
+  const [saving, setSaving] = useState(false);
+
+  const canManage = can('features', 'write');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    loadEvents(showAllEvents);
+  }, [showAllEvents, scope]);
+
+  const loadData = async () => {
+    try {
+      const [ruleRows, featureRows, workshopRows, groupRows] = await Promise.all([
+        notificationRuleService.listRules(),
+        db.queryAll(
+          `SELECT f.id, f.name, p.name as product_name FROM features f
+           LEFT JOIN gammas g ON f.gamma_id = g.id
+           LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+           WHERE COALESCE(f.characteristic_type, 'variable') = 'variable'
+           ORDER BY p.name, f.name`
+        ),
+        db.queryAll('SELECT id, name FROM workshops ORDER BY name'),
+        db.queryAll('SELECT id, name FROM groups ORDER BY name'),
+      ]);
+      setRules(ruleRows);
+      setFeatures(featureRows);
+      setWorkshops(workshopRows);
+      setGroups(groupRows);
+    } catch (error) {
+      console.error('Error loading notification rules:', error);
+      toast.error('Failed to load notification rules');
+    }
+  };
+
+  const loadEvents = async (all: boolean) => {
+    try {
+      setEvents(await notificationRuleService.listEvents(all ? 'all' : 'open'));
+    } catch (error) {
+      console.error('Error loading alerts:', error);
+      toast.error('Failed to load alerts');
+    }
+  };
+
+  const openForm = (rule?: NotificationRuleRow) => {
+    setEditingId(rule ? rule.id : 'new');
+    setForm(rule ? toForm(rule) : emptyForm());
+  };
+
+  // Switching the event type resets the thresholds to that type's defaults
+  const changeEventType = (eventType: NotificationEventType) => {
+    setForm(prev => ({
+      ...prev,
+      eventType,
+      threshold: RULE_DEFAULTS[eventType].threshold?.toString() ?? '',
+      windowSize: RULE_DEFAULTS[eventType].windowSize?.toString() ?? '',
+    }));
+  };
+
+  const toggle = (field: 'controlRules' | 'recipientRoles' | 'escalationRoles', value: string) => {
+    setForm(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value) ? prev[field].filter(item => item !== value) : [...prev[field], value],
+    }));
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const numbers = [form.threshold, form.windowSize, form.dedupMinutes, form.escalateAfterMinutes].map(optionalNumber);
+    if (numbers.some(value => value !== null && !Number.isFinite(value))) {
+      toast.error('Threshold, window, de-duplication and escalation must be numbers');
+      return;
+    }
+    const [threshold, windowSize, dedupMinutes, escalateAfterMinutes] = numbers;
+
+    const input: NotificationRuleInput = {
+      name: form.name,
+      eventType: form.eventType,
+      severity: form.severity,
+      enabled: form.enabled,
+      featureId: form.eventType === 'calibration-due' ? null : optionalNumber(form.featureId),
+      characteristicClass: form.eventType === 'calibration-due' || !form.characteristicClass
+        ? null
+        : (form.characteristicClass as CharacteristicClass),
+      workshopId: optionalNumber(form.workshopId),
+      controlRules: form.controlRules,
+      threshold,
+      windowSize: windowSize === null ? null : Math.round(windowSize),
+      recipientRoles: form.recipientRoles,
+      recipientGroupId: optionalNumber(form.recipientGroupId),
+      dedupMinutes: dedupMinutes ?? DEFAULT_DEDUP_MINUTES,
+      escalateAfterMinutes,
+      escalationRoles: form.escalationRoles,
+    };
+
+    try {
+      setSaving(true);
+      const saved = await notificationRuleService.saveRule(
+        editingId === 'new' ? null : editingId,
+        input,
+        currentUser?.id ?? null
+      );
+      if (!saved) return;
+      toast.success('Notification rule saved');
+      setEditingId(null);
+      loadData();
+    } catch (error) {
+      console.error('Error saving notification rule:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save notification rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: NotificationRuleRow) => {
+    if (!confirm(`Delete the rule "${rule.name}" and its alert history?`)) return;
+    try {
+      if (!(await notificationRuleService.deleteRule(rule.id))) return;
+      toast.success('Notification rule deleted');
+      loadData();
+      loadEvents(showAllEvents);
+    } catch (error) {
+      console.error('Error deleting notification rule:', error);
+      toast.error('Failed to delete notification rule');
+    }
+  };
+
+  const handleAcknowledge = async (eventId: number) => {
+    try {
+      await notificationRuleService.acknowledge(eventId, currentUser?.id ?? null);
+      loadEvents(showAllEvents);
+      loadData();
+    } catch (error) {
+      console.error('Error acknowledging alert:', error);
+      toast.error('Failed to acknowledge the alert');
+    }
+  };
+
+  const eventType = EVENT_TYPES.find(type => type.value === form.eventType) ?? EVENT_TYPES[0];
+  const watchesFeatures = form.eventType !== 'calibration-due';
+
+  const renderRoles = (field: 'recipientRoles' | 'escalationRoles') => (
+    <div className="flex flex-wrap gap-3">
+      {NOTIFICATION_ROLES.map(role => (
+        <label key={role} className="flex items-center space-x-1 text-sm text-gray-700 dark:text-gray-300">
+          <input type="checkbox" checked={form[field].includes(role)} onChange={() => toggle(field, role)} />
+          <span>{ROLE_LABELS[role]}</span>
+        </label>
+      ))}
+    </div>
+  );
+
+  const renderForm = () => (
+    <form onSubmit={handleSave} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+        {editingId === 'new' ? 'New notification rule' : 'Edit notification rule'}
+      </h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="label block mb-1">Name</label>
+          <input className="input w-full" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} required />
+        </div>
+        <div>
+          <label className="label block mb-1">Event</label>
+          <select className="input w-full" value={form.eventType} onChange={e => changeEventType(e.target.value as NotificationEventType)}>
+            {EVENT_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="label block mb-1">Severity</label>
+          <select className="input w-full" value={form.severity} onChange={e => setForm({ ...form, severity: e.target.value as NotificationSeverity })}>
+            {SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {watchesFeatures && (
+          <>
+            <div>
+              <label className="label block mb-1">Feature</label>
+              <select className="input w-full" value={form.featureId} onChange={e => setForm({ ...form, featureId: e.target.value })}>
+                <option value="">All features</option>
+                {features.map(feature => (
+                  <option key={feature.id} value={feature.id}>
+                    {feature.product_name ? `${feature.product_name} - ${feature.name}` : feature.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="label block mb-1">Characteristic class</label>
+              <select className="input w-full" value={form.characteristicClass} onChange={e => setForm({ ...form, characteristicClass: e.target.value })}>
+                <option value="">Any class</option>
+                {CHARACTERISTIC_CLASSES.map(item => <option key={item.value} value={item.value}>{item.label}</option>)}
+              </select>
+            </div>
+          </>
+        )}
+        <div>
+          <label className="label block mb-1">Workshop</label>
+          <select className="input w-full" value={form.workshopId} onChange={e => setForm({ ...form, workshopId: e.target.value })}>
+            <option value="">All workshops</option>
+            {workshops.map(workshop => <option key={workshop.id} value={workshop.id}>{workshop.name}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {eventType.threshold && (
+          <div>
+            <label className="label block mb-1">{eventType.threshold}</label>
+            <input className="input w-full" type="number" step="any" value={form.threshold} onChange={e => setForm({ ...form, threshold: e.target.value })} />
+          </div>
+        )}
+        {eventType.window && (
+          <div>
+            <label className="label block mb-1">{eventType.window}</label>
+            <input className="input w-full" type="number" min={1} value={form.windowSize} onChange={e => setForm({ ...form, windowSize: e.target.value })} />
+          </div>
+        )}
+        <div>
+          <label className="label block mb-1">Repeat after acknowledgement (minutes)</label>
+          <input className="input w-full" type="number" min={0} value={form.dedupMinutes} onChange={e => setForm({ ...form, dedupMinutes: e.target.value })} />
+        </div>
+      </div>
+
+      {form.eventType === 'control-rule' && (
+        <div>
+          <label className="label block mb-1">Nelson rules</label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+            {NELSON_RULES.map(rule => (
+              <label key={rule.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={form.controlRules.includes(rule.id)} onChange={() => toggle('controlRules', rule.id)} />
+                <span>{rule.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="label block mb-1">Notify</label>
+          {renderRoles('recipientRoles')}
+        </div>
+        <div>
+          <label className="label block mb-1">Only members of group</label>
+          <select className="input w-full" value={form.recipientGroupId} onChange={e => setForm({ ...form, recipientGroupId: e.target.value })}>
+            <option value="">Any group</option>
+            {groups.map(group => <option key={group.id} value={group.id}>{group.name}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="label block mb-1">Escalate when not acknowledged after (minutes)</label>
+          <input
+            className="input w-full"
+            type="number"
+            min={1}
+            value={form.escalateAfterMinutes}
+            onChange={e => setForm({ ...form, escalateAfterMinutes: e.target.value })}
+            placeholder="No escalation"
+          />
+        </div>
+        {form.escalateAfterMinutes.trim() !== '' && (
+          <div>
+            <label className="label block mb-1">Escalate to</label>
+            {renderRoles('escalationRoles')}
+          </div>
+        )}
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+        <input type="checkbox" checked={form.enabled} onChange={e => setForm({ ...form, enabled: e.target.checked })} />
+        <span>Enabled</span>
+      </label>
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" className="btn btn-secondary" onClick={() => setEditingId(null)}>Cancel</button>
+        <button type="submit" className="btn btn-primary" disabled={saving}>{saving ? 'Saving...' : 'Save rule'}</button>
+      </div>
+    </form>
+  );
+
+  const describeScope = (rule: NotificationRuleRow) => {
+    if (rule.event_type === 'calibration-due') return rule.workshop_name ?? 'All gauges';
+    const parts = [
+      rule.feature_name ?? 'All features',
+      rule.characteristic_class ? `${rule.characteristic_class} only` : null,
+      rule.workshop_name ?? null,
+    ];
+    return parts.filter(Boolean).join(' · ');
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <BellAlertIcon className="h-6 w-6 text-gray-700 dark:text-gray-300" />
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Notification rules</h1>
+        </div>
+        {canManage && editingId === null && (
+          <button className="btn btn-primary flex items-center" onClick={() => openForm()}>
+            <PlusIcon className="h-5 w-5 mr-1" /> New rule
+          </button>
+        )}
+      </div>
+
+      {editingId !== null && renderForm()}
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-2 text-left">Rule</th>
+              <th className="px-4 py-2 text-left">Event</th>
+              <th className="px-4 py-2 text-left">Scope</th>
+              <th className="px-4 py-2 text-left">Recipients</th>
+              <th className="px-4 py-2 text-left">Escalation</th>
+              <th className="px-4 py-2 text-left">Open alerts</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {rules.map(rule => (
+              <tr key={rule.id} className={rule.enabled ? '' : 'opacity-50'}>
+                <td className="px-4 py-2">
+                  <div className="font-medium">{rule.name}</div>
+                  <span className={`inline-flex px-2 py-0.5 text-xs rounded-full ${SEVERITY_BADGES[rule.severity]}`}>{rule.severity}</span>
+                </td>
+                <td className="px-4 py-2">{EVENT_TYPES.find(type => type.value === rule.event_type)?.label ?? rule.event_type}</td>
+                <td className="px-4 py-2">{describeScope(rule)}</td>
+                <td className="px-4 py-2">
+                  {parseList(rule.recipient_roles).map(role => ROLE_LABELS[role] ?? role).join(', ')}
+                  {rule.group_name && <div className="text-xs text-gray-500 dark:text-gray-400">Group {rule.group_name}</div>}
+                </td>
+                <td className="px-4 py-2">
+                  {rule.escalate_after_minutes
+                    ? `${rule.escalate_after_minutes} min → ${parseList(rule.escalation_roles).map(role => ROLE_LABELS[role] ?? role).join(', ')}`
+                    : '-'}
+                </td>
+                <td className="px-4 py-2">{rule.open_events}</td>
+                <td className="px-4 py-2 text-right whitespace-nowrap">
+                  {canManage && (
+                    <>
+                      <button className="text-blue-600 dark:text-blue-400 mr-3" onClick={() => openForm(rule)} title="Edit">
+                        <PencilIcon className="h-5 w-5" />
+                      </button>
+                      <button className="text-red-600 dark:text-red-400" onClick={() => handleDelete(rule)} title="Delete">
+                        <TrashIcon className="h-5 w-5" />
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {rules.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">No notification rules</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{showAllEvents ? 'Alert history' : 'Open alerts'}</h2>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={showAllEvents} onChange={e => setShowAllEvents(e.target.checked)} />
+            <span>Show acknowledged</span>
+          </label>
+        </div>
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+            <tr>
+              <th className="px-4 py-2 text-left">Raised</th>
+              <th className="px-4 py-2 text-left">Alert</th>
+              <th className="px-4 py-2 text-left">Rule</th>
+              <th className="px-4 py-2 text-left">Occurrences</th>
+              <th className="px-4 py-2 text-left">Status</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+            {events.map(event => (
+              <tr key={event.id}>
+                <td className="px-4 py-2 whitespace-nowrap">{new Date(event.created_at).toLocaleString()}</td>
+                <td className="px-4 py-2">
+                  <div className="flex items-center space-x-2">
+                    <span className={`inline-flex px-2 py-0.5 text-xs rounded-full ${SEVERITY_BADGES[event.severity]}`}>{event.severity}</span>
+                    <span className="font-medium">{event.title}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">{event.message}</div>
+                </td>
+                <td className="px-4 py-2">{event.rule_name}</td>
+                <td className="px-4 py-2">{event.occurrences}</td>
+                <td className="px-4 py-2 whitespace-nowrap">
+                  {event.status === 'open' ? (
+                    <button className="btn btn-secondary flex items-center text-xs" onClick={() => handleAcknowledge(event.id)}>
+                      <CheckIcon className="h-4 w-4 mr-1" /> Acknowledge
+                    </button>
+                  ) : (
+                    <span className="text-green-600 dark:text-green-400">
+                      Acknowledged{event.acknowledged_by_name ? ` by ${event.acknowledged_by_name}` : ''}
+                    </span>
+                  )}
+                  {event.escalation_level > 0 && <div className="text-xs text-red-600 dark:text-red-400">Escalated</div>}
+                </td>
+              </tr>
+            ))}
+            {events.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">No alerts</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default NotificationRules;
@@ -4,6 +4,7 @@ import { useI18nStore } from '../../stores/useI18nStore';
 import { db } from '../../services/database';
 // import { logger } from '../../services/logger';
 import { toast } from 'react-hot-toast';
+import InspectionQueue from '../ui/InspectionQueue';
 import { 
   BuildingOfficeIcon,
   ComputerDesktopIcon,
@@ -172,6 +173,15 @@ const ProductionDashboard: React.FC = () => {
         </div>
       ) : (
         <div className="space-y-6">
+          {/* Inspections due at the selected workstation */}
+          {currentUser.selected_workstation_id ? (
+            <InspectionQueue workstationId={currentUser.selected_workstation_id} operatorId={currentUser.id} />
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 text-sm text-gray-500 dark:text-gray-400">
+              {t('production.inspection.noWorkstation')}
+            </div>
+          )}
+
           {/* Quick Stats */}
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
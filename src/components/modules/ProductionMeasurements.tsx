@@ -1,18 +1,35 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { toast } from 'react-hot-toast';
 import { useI18nStore } from '../../stores/useI18nStore';
 import { useUserStore } from '../../stores/useUserStore';
 import { db } from '../../services/database';
 import { logger } from '../../services/logger';
+import { permissionService } from '../../services/permissionService';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import { gaugeService } from '../../services/gaugeService';
+import { PendingViolation, ViolationReaction, reactionPlanService } from '../../services/reactionPlanService';
+import { notificationRuleService } from '../../services/notificationRuleService';
+import { inspectionScheduleService } from '../../services/inspectionScheduleService';
+import { CharacteristicType, FeatureSpecification, Gauge } from '../../types/spc';
+import { formatSpecification, getMeasurementStep, isOutOfSpecification } from '../../utils/specifications';
+import { DEFAULT_CALIBRATION_WARNING_DAYS, getGaugeBlockReason, isWithinGaugeRange } from '../../utils/calibration';
+import { usePermissions } from '../../hooks/usePermissions';
+import MeasurementImportWizard from '../ui/MeasurementImportWizard';
+import QdasExchangeDialog from '../ui/QdasExchangeDialog';
+import GageReadingEntry from '../ui/GageReadingEntry';
+import GaugePicker from '../ui/GaugePicker';
+import ReactionPlanDialog from '../ui/ReactionPlanDialog';
 import { 
   PlusIcon,
   // QrCodeIcon,
   ClipboardDocumentListIcon,
   ClockIcon,
   CheckCircleIcon,
-  // ExclamationTriangleIcon,
+  ExclamationTriangleIcon,
   MagnifyingGlassIcon,
-  ArrowPathIcon
+  ArrowPathIcon,
+  ArrowUpTrayIcon,
+  ArrowsRightLeftIcon
 } from '@heroicons/react/24/outline';
 
 interface Product {
@@ -20,17 +37,19 @@ interface Product {
   name: string;
   family_id: number;
   family_name?: string;
+  workshop_id?: number | null;
 }
 
-interface Feature {
+interface Feature extends FeatureSpecification {
   id: number;
   name: string;
   product_id: number;
-  specification_type: string;
-  target_value: number;
-  tolerance_plus: number;
-  tolerance_minus: number;
-  unit: string;
+  characteristic_type?: CharacteristicType;
+}
+
+interface AttributeEntry {
+  sampleSize: string;
+  count: string;
 }
 
 interface Gamma {
@@ -54,6 +73,7 @@ interface MeasurementTemplate {
 const ProductionMeasurements = () => {
   const { t } = useI18nStore();
   const { currentUser } = useUserStore();
+  const { can } = usePermissions();
   const [products, setProducts] = useState<Product[]>([]);
   const [routes, setRoutes] = useState<any[]>([]);
   const [features, setFeatures] = useState<Feature[]>([]);
@@ -66,17 +86,29 @@ const ProductionMeasurements = () => {
   const [selectedGamma, setSelectedGamma] = useState<Gamma | null>(null);
   const [selectedTemplate, setSelectedTemplate] = useState<MeasurementTemplate | null>(null);
   const [measurements, setMeasurements] = useState<Record<number, string>>({});
+  const [attributeEntries, setAttributeEntries] = useState<Record<number, AttributeEntry>>({});
   const [operator, setOperator] = useState(currentUser?.username || '');
   const [notes, setNotes] = useState('');
+  const [serialNumber, setSerialNumber] = useState('');
+  const [lotNumber, setLotNumber] = useState('');
+  const [batch, setBatch] = useState('');
+  const [subgroupNumber, setSubgroupNumber] = useState(1);
+  const [gauges, setGauges] = useState<Gauge[]>([]);
+  const [selectedGauge, setSelectedGauge] = useState<Gauge | null>(null);
+  const [calibrationWarningDays, setCalibrationWarningDays] = useState(DEFAULT_CALIBRATION_WARNING_DAYS);
+  const [pendingViolations, setPendingViolations] = useState<{ gauge: Gauge | null; violations: PendingViolation[] } | null>(null);
   
   // UI state
   const [showQuickAdd, setShowQuickAdd] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showQdas, setShowQdas] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [recentMeasurements, setRecentMeasurements] = useState<any[]>([]);
 
   useEffect(() => {
     loadData();
     loadRecentMeasurements();
+    loadGauges();
   }, []);
 
   useEffect(() => {
@@ -147,6 +179,19 @@ const ProductionMeasurements = () => {
     }
   };
 
+  const loadGauges = async () => {
+    try {
+      const [gaugeRows, warningDays] = await Promise.all([
+        gaugeService.listActiveGauges(),
+        gaugeService.getWarningDays()
+      ]);
+      setGauges(gaugeRows);
+      setCalibrationWarningDays(warningDays);
+    } catch (error) {
+      console.error('Error loading gauges:', error);
+    }
+  };
+
   const loadProductData = async () => {
     if (!selectedProduct) return;
     
@@ -197,8 +242,30 @@ const ProductionMeasurements = () => {
     
     // Clear previous measurements
     setMeasurements({});
+    setAttributeEntries({});
   };
 
+  // Continue the last subgroup recorded on this route
+  const loadCurrentSubgroup = useCallback(async () => {
+    if (!selectedGamma) return;
+
+    try {
+      const result = await db.queryOne(
+        'SELECT MAX(subgroup_number) as last_subgroup FROM measurement_samples WHERE gamma_id = ?',
+        [selectedGamma.id]
+      );
+      setSubgroupNumber(result?.last_subgroup || 1);
+    } catch (error) {
+      console.error('Error loading current subgroup:', error);
+    }
+  }, [selectedGamma]);
+
+  useEffect(() => {
+    if (selectedGamma) {
+      loadCurrentSubgroup();
+    }
+  }, [selectedGamma, loadCurrentSubgroup]);
+
   const loadRecentMeasurements = async () => {
     try {
       const recentData = await db.queryAll(`
@@ -206,11 +273,14 @@ const ProductionMeasurements = () => {
           m.*,
           f.name as feature_name,
           p.name as product_name,
-          g.name as gamma_name
+          g.name as gamma_name,
+          s.serial_number,
+          s.subgroup_number
         FROM measurements m
         LEFT JOIN features f ON m.feature_id = f.id
         LEFT JOIN products p ON f.product_id = p.id
         LEFT JOIN gammas g ON m.gamma_id = g.id
+        LEFT JOIN measurement_samples s ON m.sample_id = s.id
         ORDER BY m.timestamp DESC
         LIMIT 10
       `);
@@ -221,33 +291,176 @@ const ProductionMeasurements = () => {
   };
 
   const handleSubmit = async () => {
+    if (!permissionService.ensure('measurements')) return;
     if (!selectedProduct || !selectedGamma) {
       toast.error(t('production.measurements.selectProductRoute'));
       return;
     }
+    if (!workshopScopeService.ensure(selectedProduct.workshop_id)) return;
 
     const featureIds = Object.keys(measurements).map(Number);
-    if (featureIds.length === 0) {
+    const attributeFeatureIds = Object.keys(attributeEntries).map(Number);
+    if (featureIds.length === 0 && attributeFeatureIds.length === 0) {
       toast.error(t('production.measurements.enterMeasurement'));
       return;
     }
 
+    // Variable values must be taken with a registered gauge that is in
+    // calibration, once the workshop has gauges registered
+    let gauge: Gauge | null = null;
+    if (featureIds.length > 0 && selectedGauge) {
+      gauge = await gaugeService.getGauge(selectedGauge.id);
+      const reason = gauge ? getGaugeBlockReason(gauge) : 'inactive';
+      if (!gauge || reason) {
+        toast.error(reason === 'overdue' && gauge
+          ? t('production.measurements.gaugeOverdue', { code: gauge.code, date: gauge.calibration_due_date ?? '' })
+          : t('production.measurements.gaugeInactive', { code: selectedGauge.code }));
+        setSelectedGauge(null);
+        loadGauges();
+        return;
+      }
+      const outOfRange = features.find(feature =>
+        featureIds.includes(feature.id) && !isWithinGaugeRange(gauge as Gauge, Number(measurements[feature.id]))
+      );
+      if (outOfRange) {
+        toast.error(t('production.measurements.gaugeOutOfRange', { feature: outOfRange.name, code: gauge.code }));
+        return;
+      }
+    } else if (featureIds.length > 0 && gauges.length > 0) {
+      toast.error(t('production.measurements.gaugeRequired'));
+      return;
+    }
+
+    // A value beyond a limit is only recorded once the operator has picked
+    // a cause and a corrective action from the feature's reaction plan
+    let violations: PendingViolation[];
+    try {
+      violations = await reactionPlanService.detectViolations(
+        features
+          .filter(feature => featureIds.includes(feature.id) && measurements[feature.id] && !isNaN(Number(measurements[feature.id])))
+          .map(feature => ({ feature, value: Number(measurements[feature.id]) }))
+      );
+    } catch (error) {
+      console.error('Error checking reaction plans:', error);
+      toast.error(t('production.measurements.recordError'));
+      return;
+    }
+    if (violations.length > 0) {
+      setPendingViolations({ gauge, violations });
+      return;
+    }
+
+    await recordMeasurements(gauge, [], []);
+  };
+
+  const handleReactionsConfirmed = async (reactions: ViolationReaction[]) => {
+    if (!pendingViolations) return;
+    const { gauge, violations } = pendingViolations;
+    setPendingViolations(null);
+    await recordMeasurements(gauge, violations, reactions);
+  };
+
+  const recordMeasurements = async (gauge: Gauge | null, violations: PendingViolation[], reactions: ViolationReaction[]) => {
+    if (!selectedProduct || !selectedGamma) return;
+    const featureIds = Object.keys(measurements).map(Number);
+    const attributeFeatureIds = Object.keys(attributeEntries).map(Number);
+
     try {
       setLoading(true);
+      const workstationId = currentUser?.selected_workstation_id || null;
+      const workshopId = currentUser?.selected_workshop_id || null;
+      // Checks this sample closes, judged as they stood before it
+      const inspectionQueue = workstationId ? await inspectionScheduleService.getQueue(workstationId) : [];
+
+      // The sample and its values are stored as one unit
+      const sampleId = await db.transaction(async tx => {
+        // One sample per part: every value entered below belongs to it
+        const newSampleId = await tx.insert(
+          'INSERT INTO measurement_samples (product_id, route_id, gamma_id, serial_number, lot_number, batch, subgroup_number, operator_id, workstation_id, workshop_id, notes, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)',
+          [
+            selectedProduct.id,
+            selectedGamma.id,
+            selectedGamma.id,
+            serialNumber.trim() || null,
+            lotNumber.trim() || null,
+            batch.trim() || null,
+            subgroupNumber,
+            currentUser?.id ?? null,
+            workstationId,
+            workshopId,
+            notes
+          ]
+        );
       
-      // Submit all measurements
-      for (const featureId of featureIds) {
-        const value = measurements[featureId];
-        if (!value || isNaN(Number(value))) {
-          toast.error(t('production.measurements.invalidMeasurement', { featureId }));
-          continue;
+        // Submit all measurements
+        for (const featureId of featureIds) {
+          const value = measurements[featureId];
+          if (!value || isNaN(Number(value))) {
+            toast.error(t('production.measurements.invalidMeasurement', { featureId }));
+            continue;
+          }
+
+          const measurementId = await tx.insert(
+            'INSERT INTO measurements (feature_id, route_id, product_id, gamma_id, measured_value, operator_id, workstation_id, workshop_id, sample_id, gauge_id, notes, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)',
+            [featureId, selectedGamma.id, selectedProduct.id, selectedGamma.id, Number(value), currentUser?.id, workstationId, workshopId, newSampleId || null, gauge?.id ?? null, notes]
+          );
+
+          const violation = violations.find(v => v.featureId === featureId);
+          const reaction = reactions.find(r => r.featureId === featureId);
+          if (violation && reaction) {
+            await reactionPlanService.recordNonconformance(tx, {
+              measurementId: measurementId || null,
+              featureId,
+              productId: selectedProduct.id,
+              sampleId: newSampleId || null,
+              violation: violation.violation,
+              value: Number(value),
+              limit: violation.limit,
+              reaction,
+              operatorId: currentUser?.id ?? null,
+              workstationId,
+              workshopId
+            });
+          }
         }
 
-        await db.execute(
-          'INSERT INTO measurements (feature_id, route_id, measured_value, operator_id, notes, timestamp) VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)',
-          [featureId, selectedGamma.id, Number(value), currentUser?.id, notes]
-        );
-      }
+        // Submit attribute inspections (defectives or defects per inspected lot)
+        for (const featureId of attributeFeatureIds) {
+          const feature = features.find(f => f.id === featureId);
+          const entry = attributeEntries[featureId];
+          const sampleSize = parseInt(entry.sampleSize, 10);
+          const count = parseInt(entry.count, 10);
+          if (!feature || isNaN(sampleSize) || sampleSize <= 0 || isNaN(count) || count < 0) {
+            toast.error(t('production.measurements.invalidMeasurement', { featureId }));
+            continue;
+          }
+          if (feature.characteristic_type === 'defectives' && count > sampleSize) {
+            toast.error(t('production.measurements.defectivesExceedSample', { feature: feature.name }));
+            continue;
+          }
+
+          await tx.execute(
+            'INSERT INTO attribute_inspections (feature_id, route_id, product_id, gamma_id, sample_size, defective_count, defect_count, lot_number, operator_id, workstation_id, workshop_id, sample_id, notes, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)',
+            [
+              featureId,
+              selectedGamma.id,
+              selectedProduct.id,
+              selectedGamma.id,
+              sampleSize,
+              feature.characteristic_type === 'defectives' ? count : null,
+              feature.characteristic_type === 'defects' ? count : null,
+              lotNumber.trim() || null,
+              currentUser?.id,
+              workstationId,
+              workshopId,
+              newSampleId || null,
+              notes
+            ]
+          );
+        }
+
+        return newSampleId;
+      });
 
       // Database automatically saved in Electron mode
       
@@ -260,18 +473,62 @@ const ProductionMeasurements = () => {
           productName: selectedProduct.name,
           gammaId: selectedGamma.id,
           gammaName: selectedGamma.name,
-          featureCount: featureIds.length,
+          featureCount: featureIds.length + attributeFeatureIds.length,
+          sampleId,
+          serialNumber,
+          subgroupNumber,
+          gaugeId: gauge?.id,
+          nonconformances: reactions.length,
           operator
         },
         currentUser?.id?.toString(),
         currentUser?.role
       );
 
-      toast.success(t('production.measurements.recordSuccess', { count: featureIds.length }));
+      toast.success(t('production.measurements.recordSuccess', { count: featureIds.length + attributeFeatureIds.length }));
+
+      // Alert rules run in the background; the operator does not wait on them
+      notificationRuleService.evaluateMeasurements(featureIds).catch(error => {
+        logger.error('system', 'Failed to evaluate notification rules', { error });
+      });
+      if (workstationId) {
+        inspectionScheduleService.recordCompletedChecks(
+          inspectionQueue,
+          workstationId,
+          [...featureIds, ...attributeFeatureIds],
+          selectedGamma.id,
+          sampleId,
+          currentUser?.id || null
+        ).catch(error => {
+          logger.error('database', 'Failed to record completed inspection checks', { error, sampleId });
+        });
+      }
+
+      // The values are stored; a failed notification must not hide that
+      if (reactions.length > 0) {
+        try {
+          await reactionPlanService.notifyNonconformances(
+            violations.map(violation => ({
+              featureName: violation.featureName,
+              productName: selectedProduct.name,
+              value: violation.value,
+              violation: violation.violation,
+              reaction: reactions.find(r => r.featureId === violation.featureId) as ViolationReaction
+            })),
+            workshopId,
+            operator
+          );
+          toast.success(t('production.ocap.recorded', { count: reactions.length }));
+        } catch (error) {
+          logger.error('database', 'Failed to notify nonconformances', { error });
+        }
+      }
       
-      // Reset form
+      // Reset form; lot, batch and subgroup carry over to the next part
       setMeasurements({});
+      setAttributeEntries({});
       setNotes('');
+      setSerialNumber('');
       loadRecentMeasurements();
       
     } catch (error) {
@@ -284,7 +541,7 @@ const ProductionMeasurements = () => {
   };
 
   const createTemplate = () => {
-    if (!selectedProduct || !selectedGamma || Object.keys(measurements).length === 0) {
+    if (!selectedProduct || !selectedGamma || enteredCount === 0) {
       toast.error(t('production.measurements.createTemplateError'));
       return;
     }
@@ -297,7 +554,7 @@ const ProductionMeasurements = () => {
       name: templateName,
       product_id: selectedProduct.id,
       gamma_id: selectedGamma.id,
-      features: Object.keys(measurements).map(Number),
+      features: [...Object.keys(measurements), ...Object.keys(attributeEntries)].map(Number),
       workstation: selectedGamma.workstation
     };
 
@@ -306,6 +563,20 @@ const ProductionMeasurements = () => {
     toast.success(t('production.measurements.templateCreated'));
   };
 
+  const updateAttributeEntry = (featureId: number, field: keyof AttributeEntry, value: string) => {
+    setAttributeEntries(prev => {
+      const entry = { ...(prev[featureId] || { sampleSize: '', count: '' }), [field]: value };
+      if (!entry.sampleSize && !entry.count) {
+        const rest = { ...prev };
+        delete rest[featureId];
+        return rest;
+      }
+      return { ...prev, [featureId]: entry };
+    });
+  };
+
+  const enteredCount = Object.keys(measurements).length + Object.keys(attributeEntries).length;
+
   const filteredProducts = products.filter(product =>
     product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     product.family_name?.toLowerCase().includes(searchTerm.toLowerCase())
@@ -335,6 +606,22 @@ const ProductionMeasurements = () => {
           <p className="text-gray-600 dark:text-gray-400">{t('production.measurements.subtitle')}</p>
         </div>
         <div className="flex space-x-3">
+          {can('measurements', 'write') && (
+            <button
+              onClick={() => setShowImport(true)}
+              className="btn btn-secondary flex items-center"
+            >
+              <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+              Import
+            </button>
+          )}
+          <button
+            onClick={() => setShowQdas(true)}
+            className="btn btn-secondary flex items-center"
+          >
+            <ArrowsRightLeftIcon className="h-4 w-4 mr-2" />
+            Q-DAS
+          </button>
           <button
             onClick={() => setShowQuickAdd(!showQuickAdd)}
             className="btn btn-primary flex items-center"
@@ -345,6 +632,9 @@ const ProductionMeasurements = () => {
         </div>
       </div>
 
+      {/* Gage R&R readings assigned to the operator */}
+      {currentUser && <GageReadingEntry operatorId={currentUser.id} className="mb-8" />}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Left Column - Selection */}
         <div className="space-y-6">
@@ -479,6 +769,13 @@ const ProductionMeasurements = () => {
                         <div className="text-sm text-gray-500 dark:text-gray-400">
                           {measurement.product_name} • {measurement.gamma_name}
                         </div>
+                        {(measurement.serial_number || measurement.subgroup_number) && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">
+                            {measurement.serial_number && `${t('production.measurements.serialNumber')}: ${measurement.serial_number}`}
+                            {measurement.serial_number && measurement.subgroup_number && ' • '}
+                            {measurement.subgroup_number && `${t('production.measurements.subgroup')} ${measurement.subgroup_number}`}
+                          </div>
+                        )}
                       </div>
                       <div className="text-right">
                         <div className="font-bold text-gray-900 dark:text-white">{measurement.measured_value}</div>
@@ -512,18 +809,69 @@ const ProductionMeasurements = () => {
                 <p className="text-gray-500 dark:text-gray-400 text-sm">{t('production.measurements.noFeaturesAvailable')}</p>
               ) : (
                 <div className="space-y-4">
-                  {features.map((feature) => (
+                  {features.map((feature) => {
+                    const isAttribute = feature.characteristic_type === 'defectives' || feature.characteristic_type === 'defects';
+                    const entry = attributeEntries[feature.id];
+
+                    if (isAttribute) {
+                      return (
+                        <div key={feature.id} className="space-y-2">
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                            {feature.name}
+                            <span className="text-gray-500 dark:text-gray-400 ml-2">
+                              ({feature.characteristic_type === 'defectives'
+                                ? t('production.measurements.attributeDefectives')
+                                : t('production.measurements.attributeDefects')})
+                            </span>
+                          </label>
+                          <div className="flex space-x-2">
+                            <input
+                              type="number"
+                              min="1"
+                              step="1"
+                              value={entry?.sampleSize || ''}
+                              onChange={(e) => updateAttributeEntry(feature.id, 'sampleSize', e.target.value)}
+                              placeholder={t('production.measurements.inspectedQuantity')}
+                              className="input flex-1"
+                            />
+                            <input
+                              type="number"
+                              min="0"
+                              step="1"
+                              value={entry?.count || ''}
+                              onChange={(e) => updateAttributeEntry(feature.id, 'count', e.target.value)}
+                              placeholder={feature.characteristic_type === 'defectives'
+                                ? t('production.measurements.defectiveCount')
+                                : t('production.measurements.defectCount')}
+                              className="input flex-1"
+                            />
+                            <div className="flex items-center">
+                              {entry?.sampleSize && entry?.count && (
+                                <CheckCircleIcon className="h-5 w-5 text-green-500" />
+                              )}
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    }
+
+                    return (
                     <div key={feature.id} className="space-y-2">
                       <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
                         {feature.name}
                         <span className="text-gray-500 dark:text-gray-400 ml-2">
-                          ({feature.target_value} ±{feature.tolerance_plus}/{feature.tolerance_minus} {feature.unit})
+                          ({formatSpecification(feature)})
                         </span>
+                        {feature.characteristic_class === 'critical' && (
+                          <span className="ml-2 text-xs font-medium text-red-600 dark:text-red-400 uppercase">
+                            {t('production.measurements.critical')}
+                          </span>
+                        )}
                       </label>
                       <div className="flex space-x-2">
                         <input
                           type="number"
-                          step="0.001"
+                          step={getMeasurementStep(feature)}
                           value={measurements[feature.id] || ''}
                           onChange={(e) => setMeasurements(prev => ({
                             ...prev,
@@ -534,15 +882,83 @@ const ProductionMeasurements = () => {
                         />
                         <div className="flex items-center">
                           {measurements[feature.id] && (
-                            <CheckCircleIcon className="h-5 w-5 text-green-500" />
+                            isOutOfSpecification(Number(measurements[feature.id]), feature) ? (
+                              <span title={t('production.measurements.outOfSpecification')}>
+                                <ExclamationTriangleIcon className="h-5 w-5 text-red-500" />
+                              </span>
+                            ) : (
+                              <CheckCircleIcon className="h-5 w-5 text-green-500" />
+                            )
                           )}
                         </div>
                       </div>
                     </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
 
+              {/* Instrument used for the variable values */}
+              <div className="mt-6">
+                <GaugePicker
+                  gauges={gauges}
+                  value={selectedGauge}
+                  onChange={setSelectedGauge}
+                  warningDays={calibrationWarningDays}
+                />
+              </div>
+
+              {/* Part identification */}
+              <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="label block mb-2">{t('production.measurements.serialNumber')}</label>
+                  <input
+                    type="text"
+                    value={serialNumber}
+                    onChange={(e) => setSerialNumber(e.target.value)}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="label block mb-2">{t('production.measurements.lotNumber')}</label>
+                  <input
+                    type="text"
+                    value={lotNumber}
+                    onChange={(e) => setLotNumber(e.target.value)}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="label block mb-2">{t('production.measurements.batch')}</label>
+                  <input
+                    type="text"
+                    value={batch}
+                    onChange={(e) => setBatch(e.target.value)}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="label block mb-2">{t('production.measurements.subgroup')}</label>
+                  <div className="flex space-x-2">
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={subgroupNumber}
+                      onChange={(e) => setSubgroupNumber(Math.max(1, parseInt(e.target.value) || 1))}
+                      className="input flex-1"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setSubgroupNumber(prev => prev + 1)}
+                      className="btn btn-secondary text-sm"
+                    >
+                      {t('production.measurements.newSubgroup')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+
               {/* Operator and Notes */}
               <div className="mt-6 space-y-4">
                 <div>
@@ -570,7 +986,7 @@ const ProductionMeasurements = () => {
               {/* Submit Button */}
               <button
                 onClick={handleSubmit}
-                disabled={loading || Object.keys(measurements).length === 0}
+                disabled={loading || enteredCount === 0}
                 className="w-full btn btn-primary mt-6 flex items-center justify-center"
               >
                 {loading ? (
@@ -578,7 +994,7 @@ const ProductionMeasurements = () => {
                 ) : (
                   <ClipboardDocumentListIcon className="h-4 w-4 mr-2" />
                 )}
-                {loading ? t('production.measurements.recording') : t('production.measurements.recordMeasurements', { count: Object.keys(measurements).length })}
+                {loading ? t('production.measurements.recording') : t('production.measurements.recordMeasurements', { count: enteredCount })}
               </button>
             </div>
           )}
@@ -609,6 +1025,26 @@ const ProductionMeasurements = () => {
           )}
         </div>
       </div>
+
+      <MeasurementImportWizard
+        isOpen={showImport}
+        onClose={() => setShowImport(false)}
+        onImported={loadRecentMeasurements}
+      />
+
+      <QdasExchangeDialog
+        isOpen={showQdas}
+        onClose={() => setShowQdas(false)}
+        onImported={loadRecentMeasurements}
+      />
+
+      {pendingViolations && (
+        <ReactionPlanDialog
+          violations={pendingViolations.violations}
+          onConfirm={handleReactionsConfirmed}
+          onCancel={() => setPendingViolations(null)}
+        />
+      )}
     </div>
   );
 };
@@ -1,10 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import { useI18nStore } from '../../stores/useI18nStore';
-import { useUserStore } from '../../stores/useUserStore';
 import { db } from '../../services/database';
 import { useNavigationHistory } from '../../services/navigationHistory';
 import { navigationService } from '../../services/navigationService';
+import { permissionService } from '../../services/permissionService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 import EnhancedTableWithFilters from '../ui/EnhancedTableWithFilters';
 import FeaturesList from '../ui/FeaturesList';
@@ -44,7 +47,9 @@ interface ProductsWithViewsProps {
 
 const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
   const { t } = useI18nStore();
-  const { currentUser } = useUserStore();
+  const { can } = usePermissions();
+  const canEdit = can('products', 'write');
+  const { scope } = useWorkshopScope();
   const { canGoBack, goBack } = useNavigationHistory();
   const [products, setProducts] = useState<Product[]>([]);
   const [families, setFamilies] = useState<Family[]>([]);
@@ -82,7 +87,7 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
 
   useEffect(() => {
     loadData();
-  }, []);
+  }, [scope]);
 
   // Handle family filter from navigation
   useEffect(() => {
@@ -111,7 +116,8 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
       // Database is initialized globally in App.tsx
       
       // Load families for dropdown
-      const familiesData = await db.queryAll('SELECT * FROM families ORDER BY name');
+      const familyScope = workshopScopeService.familyCondition('families.id');
+      const familiesData = await db.queryAll(`SELECT * FROM families WHERE ${familyScope.sql} ORDER BY name`, familyScope.params);
       setFamilies(familiesData);
 
       // Load workshops for dropdown
@@ -119,6 +125,7 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
       // setWorkshops(workshopsData);
 
       // Load products with family names, workshop info, and feature counts
+      const productScope = workshopScopeService.condition('p.workshop_id');
       const productsData = await db.queryAll(`
         SELECT p.*, f.name as family_name, ws.name as workshop_name, w.name as workstation_name,
                COALESCE(feat_count.feature_count, 0) as feature_count
@@ -131,8 +138,9 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
           FROM features 
           GROUP BY product_id
         ) feat_count ON p.id = feat_count.product_id
+        WHERE ${productScope.sql}
         ORDER BY p.name
-      `);
+      `, productScope.params);
       setProducts(productsData);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -159,11 +167,7 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    // Check permissions
-    if (!currentUser || (currentUser.role !== 'admin' && currentUser.role !== 'controle' && currentUser.role !== 'method')) {
-      toast.error('You do not have permission to save products');
-      return;
-    }
+    if (!permissionService.ensure('products')) return;
     
     if (!formData.name.trim()) {
       toast.error('Product name is required');
@@ -201,8 +205,8 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
       } else {
         // Create new product
         await db.execute(
-          'INSERT INTO products (name, family_id, description, image_filename) VALUES (?, ?, ?, ?)',
-          [formData.name, parseInt(formData.family_id), formData.description, imageFilename]
+          'INSERT INTO products (name, family_id, description, image_filename, workshop_id) VALUES (?, ?, ?, ?, ?)',
+          [formData.name, parseInt(formData.family_id), formData.description, imageFilename, workshopScopeService.getDefaultWorkshopId()]
         );
         toast.success(t('common.success'));
       }
@@ -217,11 +221,7 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
   };
 
   const handleEdit = (product: Product) => {
-    // Check permissions
-    if (!currentUser || (currentUser.role !== 'admin' && currentUser.role !== 'controle' && currentUser.role !== 'method')) {
-      toast.error('You do not have permission to edit products');
-      return;
-    }
+    if (!permissionService.ensure('products')) return;
     
     setFormData({
       name: product.name,
@@ -239,11 +239,7 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
   };
 
   const handleDelete = async (id: number) => {
-    // Check permissions
-    if (!currentUser || (currentUser.role !== 'admin' && currentUser.role !== 'controle' && currentUser.role !== 'method')) {
-      toast.error('You do not have permission to delete products');
-      return;
-    }
+    if (!permissionService.ensure('products')) return;
     
     try {
       // Check if product has features
@@ -276,11 +272,7 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
 
   // Enhanced table handlers
   const handleEditCell = async (rowIndex: number, columnKey: string, value: any) => {
-    // Check permissions
-    if (!currentUser || (currentUser.role !== 'admin' && currentUser.role !== 'controle' && currentUser.role !== 'method')) {
-      toast.error('You do not have permission to edit products');
-      return;
-    }
+    if (!permissionService.ensure('products')) return;
     
     const product = products[rowIndex];
     try {
@@ -314,10 +306,10 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
   };
 
   const tableColumns = [
-    { key: 'name', label: t('products.productName'), editable: true, required: true },
+    { key: 'name', label: t('products.productName'), editable: canEdit, required: true },
     { key: 'family_name', label: t('products.productFamily'), editable: false },
-    { key: 'description', label: t('products.productDescription'), editable: true, type: 'textarea' as const },
-    { key: 'image_url', label: 'Image URL', editable: true },
+    { key: 'description', label: t('products.productDescription'), editable: canEdit, type: 'textarea' as const },
+    { key: 'image_url', label: 'Image URL', editable: canEdit },
     { key: 'created_at', label: t('common.created'), editable: false, type: 'date' as const },
   ];
 
@@ -403,7 +395,7 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
             </button>
           </div>
           
-          {currentUser && (currentUser.role === 'admin' || currentUser.role === 'controle' || currentUser.role === 'method') && (
+          {canEdit && (
             <button
               onClick={() => setShowForm(true)}
               className="btn btn-primary"
@@ -553,7 +545,7 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
               <p className="text-gray-500 dark:text-gray-400 mb-4">
                 {selectedFamilyFilter ? 'No products found for this family' : 'No products found'}
               </p>
-              {currentUser && (currentUser.role === 'admin' || currentUser.role === 'controle' || currentUser.role === 'method') && (
+              {canEdit && (
                 <button
                   onClick={() => setShowForm(true)}
                   className="btn btn-primary"
@@ -570,11 +562,11 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
                 onClick={() => onNavigateToGammas?.(product.id)}
                 onDoubleClick={(e) => {
                   e.stopPropagation();
-                  if (currentUser && (currentUser.role === 'admin' || currentUser.role === 'controle' || currentUser.role === 'method')) {
+                  if (canEdit) {
                     handleEdit(product);
                   }
                 }}
-                title={currentUser && (currentUser.role === 'admin' || currentUser.role === 'controle' || currentUser.role === 'method') 
+                title={canEdit 
                   ? "Click to view features, double-click to edit" 
                   : "Click to view features"}
               >
@@ -626,7 +618,7 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
                     <span className="text-xs text-gray-400 dark:text-gray-500">
                       {new Date(product.created_at).toLocaleDateString()}
                     </span>
-                    {currentUser && (currentUser.role === 'admin' || currentUser.role === 'controle' || currentUser.role === 'method') && (
+                    {canEdit && (
                       <div className="flex space-x-2">
                         <button
                           onClick={(e) => {
@@ -665,9 +657,9 @@ const ProductsWithViews = ({ onNavigateToGammas }: ProductsWithViewsProps) => {
         <EnhancedTableWithFilters
           data={filteredProducts}
           columns={tableColumns}
-          onEdit={handleEditCell}
-          onDelete={handleDeleteRow}
-          onAdd={() => setShowForm(true)}
+          onEdit={canEdit ? handleEditCell : undefined}
+          onDelete={canEdit ? handleDeleteRow : undefined}
+          onAdd={canEdit ? () => setShowForm(true) : undefined}
           loading={loading}
           emptyMessage={selectedFamilyFilter ? "No products found for this family" : "No products found"}
           className="table-zebra"
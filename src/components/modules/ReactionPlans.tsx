@@ -0,0 +1,321 @@
+import { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  MagnifyingGlassIcon,
+  PlusIcon,
+  ShieldExclamationIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+import {
+  NonconformanceRow,
+  ReactionPlanDetails,
+  ReactionPlanSummary,
+  reactionPlanService
+} from '../../services/reactionPlanService';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useUserStore } from '../../stores/useUserStore';
+import { ReactionPlanItem, ReactionPlanItemKind, ViolationKind } from '../../types/spc';
+import { isSpecificationViolation } from '../../utils/reactionPlans';
+
+const VIOLATION_LABELS: Record<ViolationKind, string> = {
+  'above-usl': 'Above USL',
+  'below-lsl': 'Below LSL',
+  'above-ucl': 'Above UCL',
+  'below-lcl': 'Below LCL',
+};
+
+const ReactionPlans = () => {
+  const { scope } = useWorkshopScope();
+  const { can } = usePermissions();
+  const { currentUser } = useUserStore();
+  const [plans, setPlans] = useState<ReactionPlanSummary[]>([]);
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<ReactionPlanSummary | null>(null);
+  const [plan, setPlan] = useState<ReactionPlanDetails | null>(null);
+  const [nonconformances, setNonconformances] = useState<NonconformanceRow[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const canManage = can('features', 'write');
+
+  useEffect(() => {
+    loadPlans();
+    setSelected(null);
+    setPlan(null);
+  }, [scope]);
+
+  const loadPlans = async () => {
+    try {
+      setPlans(await reactionPlanService.listPlans());
+    } catch (error) {
+      console.error('Error loading reaction plans:', error);
+      toast.error('Failed to load reaction plans');
+    }
+  };
+
+  const selectFeature = async (summary: ReactionPlanSummary) => {
+    try {
+      const [details, rows] = await Promise.all([
+        reactionPlanService.getPlan(summary.feature_id),
+        reactionPlanService.listNonconformances(summary.feature_id),
+      ]);
+      setSelected(summary);
+      setPlan(details);
+      setNonconformances(rows);
+    } catch (error) {
+      console.error('Error loading reaction plan:', error);
+      toast.error('Failed to load reaction plan');
+    }
+  };
+
+  const updateItem = (kind: ReactionPlanItemKind, index: number, changes: Partial<ReactionPlanItem>) => {
+    if (!plan) return;
+    const key = kind === 'cause' ? 'causes' : 'actions';
+    setPlan({ ...plan, [key]: plan[key].map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+  };
+
+  const addItem = (kind: ReactionPlanItemKind) => {
+    if (!plan) return;
+    const key = kind === 'cause' ? 'causes' : 'actions';
+    setPlan({ ...plan, [key]: [...plan[key], { kind, code: '', description: '' }] });
+  };
+
+  const removeItem = (kind: ReactionPlanItemKind, index: number) => {
+    if (!plan) return;
+    const key = kind === 'cause' ? 'causes' : 'actions';
+    setPlan({ ...plan, [key]: plan[key].filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    if (!plan || !selected) return;
+    const codes = [...plan.causes, ...plan.actions].map(item => `${item.kind}:${item.code.trim().toUpperCase()}`).filter(code => !code.endsWith(':'));
+    if (new Set(codes).size !== codes.length) {
+      toast.error('Cause and action codes must be unique');
+      return;
+    }
+    try {
+      setSaving(true);
+      const saved = await reactionPlanService.savePlan(selected.feature_id, plan, currentUser?.id ?? null);
+      if (!saved) return;
+      toast.success('Reaction plan saved');
+      await loadPlans();
+      await selectFeature(selected);
+    } catch (error) {
+      console.error('Error saving reaction plan:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save reaction plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Remove the reaction plan of ${selected.feature_name}? The plant defaults will apply.`)) return;
+    try {
+      if (!(await reactionPlanService.deletePlan(selected.feature_id))) return;
+      toast.success('Reaction plan removed');
+      await loadPlans();
+      await selectFeature(selected);
+    } catch (error) {
+      console.error('Error deleting reaction plan:', error);
+      toast.error('Failed to remove reaction plan');
+    }
+  };
+
+  const term = search.trim().toLowerCase();
+  const visiblePlans = plans.filter(summary =>
+    !term || [summary.feature_name, summary.product_name].some(value => value?.toLowerCase().includes(term))
+  );
+
+  const renderItems = (kind: ReactionPlanItemKind, items: ReactionPlanItem[]) => (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-medium text-gray-900 dark:text-white">{kind === 'cause' ? 'Cause codes' : 'Corrective actions'}</h3>
+        {canManage && (
+          <button className="text-sm text-blue-600 dark:text-blue-400 flex items-center" onClick={() => addItem(kind)}>
+            <PlusIcon className="h-4 w-4 mr-1" /> Add
+          </button>
+        )}
+      </div>
+      <div className="space-y-2">
+        {items.map((item, index) => (
+          <div key={index} className="flex items-center space-x-2">
+            <input
+              className="input w-32 font-mono uppercase"
+              value={item.code}
+              onChange={e => updateItem(kind, index, { code: e.target.value })}
+              placeholder="Code"
+              disabled={!canManage}
+            />
+            <input
+              className="input flex-1"
+              value={item.description ?? ''}
+              onChange={e => updateItem(kind, index, { description: e.target.value })}
+              placeholder="Description"
+              disabled={!canManage}
+            />
+            {canManage && (
+              <button className="text-red-600 dark:text-red-400" onClick={() => removeItem(kind, index)} title="Remove">
+                <TrashIcon className="h-5 w-5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center space-x-2">
+        <ShieldExclamationIcon className="h-6 w-6 text-gray-700 dark:text-gray-300" />
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Out-of-control reaction plans</h1>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        When a value falls outside the specification or the control limits, the operator must pick a cause and a corrective
+        action from the feature's plan before it is recorded. Features without a plan use the plant defaults.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="relative">
+              <MagnifyingGlassIcon className="h-5 w-5 absolute left-3 top-2.5 text-gray-400" />
+              <input
+                className="input w-full pl-10"
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+                placeholder="Search by feature or product"
+              />
+            </div>
+          </div>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-[70vh] overflow-y-auto">
+            {visiblePlans.map(summary => (
+              <li key={summary.feature_id}>
+                <button
+                  onClick={() => selectFeature(summary)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                    selected?.feature_id === summary.feature_id ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                  }`}
+                >
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium text-gray-900 dark:text-white">{summary.feature_name}</span>
+                    {summary.open_nonconformances > 0 && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+                        {summary.open_nonconformances} open
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {summary.product_name ?? '-'} · {summary.plan_id
+                      ? `${summary.cause_count} causes, ${summary.action_count} actions`
+                      : 'Plant defaults'}
+                  </div>
+                </button>
+              </li>
+            ))}
+            {visiblePlans.length === 0 && (
+              <li className="px-4 py-6 text-center text-sm text-gray-500 dark:text-gray-400">No variable features</li>
+            )}
+          </ul>
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          {plan && selected ? (
+            <>
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-6">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{selected.feature_name}</h2>
+                    <div className="text-sm text-gray-500 dark:text-gray-400">
+                      {plan.planId ? 'Feature-specific plan' : 'Using the plant defaults until this plan is saved'}
+                    </div>
+                  </div>
+                  {canManage && (
+                    <div className="flex space-x-2">
+                      {plan.planId && (
+                        <button className="btn btn-secondary" onClick={handleDelete}>Reset to defaults</button>
+                      )}
+                      <button className="btn btn-primary" onClick={handleSave} disabled={saving}>
+                        {saving ? 'Saving...' : 'Save plan'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <label className="label block mb-1">Instructions shown to the operator</label>
+                  <textarea
+                    className="input w-full"
+                    rows={3}
+                    value={plan.instructions}
+                    onChange={e => setPlan({ ...plan, instructions: e.target.value })}
+                    placeholder="e.g. Isolate the last 50 parts and call the cell leader"
+                    disabled={!canManage}
+                  />
+                </div>
+
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={plan.checkControlLimits}
+                    onChange={e => setPlan({ ...plan, checkControlLimits: e.target.checked })}
+                    disabled={!canManage}
+                  />
+                  <span>Also react to values outside the control limits (not only the specification)</span>
+                </label>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  {renderItems('cause', plan.causes)}
+                  {renderItems('action', plan.actions)}
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+                <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Recent nonconformances</h2>
+                </div>
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Date</th>
+                      <th className="px-4 py-2 text-left">Value</th>
+                      <th className="px-4 py-2 text-left">Violation</th>
+                      <th className="px-4 py-2 text-left">Cause</th>
+                      <th className="px-4 py-2 text-left">Action</th>
+                      <th className="px-4 py-2 text-left">Operator</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-gray-100">
+                    {nonconformances.map(row => (
+                      <tr key={row.id}>
+                        <td className="px-4 py-2">{new Date(row.created_at).toLocaleString()}</td>
+                        <td className="px-4 py-2 font-mono">{row.measured_value}</td>
+                        <td className={`px-4 py-2 ${isSpecificationViolation(row.violation) ? 'text-red-600 dark:text-red-400' : 'text-yellow-600 dark:text-yellow-400'}`}>
+                          {VIOLATION_LABELS[row.violation]} ({row.limit_value})
+                        </td>
+                        <td className="px-4 py-2" title={row.cause_description ?? undefined}>{row.cause_code}</td>
+                        <td className="px-4 py-2" title={row.action_description ?? undefined}>{row.action_code}</td>
+                        <td className="px-4 py-2">{row.operator_name ?? '-'}</td>
+                      </tr>
+                    ))}
+                    {nonconformances.length === 0 && (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">No nonconformances recorded</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-12 text-center text-gray-500 dark:text-gray-400">
+              Select a feature to edit its reaction plan
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReactionPlans;
@@ -4,6 +4,10 @@ import { useI18nStore } from '../../stores/useI18nStore';
 import { db } from '../../services/database';
 import { useNavigationHistory } from '../../services/navigationHistory';
 import { navigationService } from '../../services/navigationService';
+import { permissionService } from '../../services/permissionService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 import EnhancedTableWithFilters from '../ui/EnhancedTableWithFilters';
 import RouteFeaturesList from '../ui/RouteFeaturesList';
@@ -52,6 +56,9 @@ type ViewMode = 'list' | 'cards';
 const RoutesWithViews = ({}: RoutesWithViewsProps) => {
   const { t } = useI18nStore();
   const { canGoBack, goBack } = useNavigationHistory();
+  const { can } = usePermissions();
+  const canEdit = can('gammas', 'write');
+  const { scope } = useWorkshopScope();
   const [routes, setRoutes] = useState<Route[]>([]);
   const [products, setProducts] = useState<Product[]>([]);
   const [workshops, setWorkshops] = useState<Workshop[]>([]);
@@ -82,7 +89,7 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
 
   useEffect(() => {
     loadData();
-  }, []);
+  }, [scope]);
 
   // Handle product filter from navigation
   useEffect(() => {
@@ -98,17 +105,23 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
   const loadData = async () => {
     try {
       // Load products for dropdown
-      const productsData = await db.queryAll('SELECT * FROM products ORDER BY name');
+      const productScope = workshopScopeService.condition('workshop_id');
+      const productsData = await db.queryAll(`SELECT * FROM products WHERE ${productScope.sql} ORDER BY name`, productScope.params);
       setProducts(productsData);
 
       // Load workshops for dropdown
-      const workshopsData = await db.queryAll('SELECT * FROM workshops ORDER BY name');
+      const workshopScope = workshopScopeService.condition('id');
+      const workshopsData = await db.queryAll(`SELECT * FROM workshops WHERE ${workshopScope.sql} ORDER BY name`, workshopScope.params);
       setWorkshops(workshopsData);
 
       // Load workstations for dropdown
-      const workstationsData = await db.queryAll('SELECT * FROM workstations ORDER BY name');
+      const workstationScope = workshopScopeService.condition('workshop_id');
+      const workstationsData = await db.queryAll(`SELECT * FROM workstations WHERE ${workstationScope.sql} ORDER BY name`, workstationScope.params);
       setWorkstations(workstationsData);
 
+      // A route belongs to its own workshop, or to its product's
+      const routeScope = workshopScopeService.condition('COALESCE(g.workshop_id, p.workshop_id)');
+
       // Load routes (gammas) with product names, family info, workshop info, and feature counts
       const routesData = await db.queryAll(`
         SELECT g.*, p.name as product_name, f.name as family_name, w.name as workshop_name,
@@ -123,8 +136,9 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
           WHERE gamma_id IS NOT NULL
           GROUP BY gamma_id
         ) feat_count ON g.id = feat_count.gamma_id
+        WHERE ${routeScope.sql}
         ORDER BY g.sequence_number, g.name
-      `);
+      `, routeScope.params);
       setRoutes(routesData);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -143,7 +157,7 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
       operation_name: '',
       workstation: '',
       estimated_time: '',
-      workshop_id: ''
+      workshop_id: workshopScopeService.getDefaultWorkshopId()?.toString() || ''
     });
     setShowForm(true);
   };
@@ -163,6 +177,7 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
   };
 
   const handleSave = async () => {
+    if (!permissionService.ensure('gammas')) return;
     try {
       if (!formData.name.trim()) {
         toast.error('Route name is required');
@@ -174,6 +189,11 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
         return;
       }
 
+      if (!workshopScopeService.includes(formData.workshop_id ? parseInt(formData.workshop_id) : null)) {
+        toast.error('Routes can only be assigned to your own workshops');
+        return;
+      }
+
       if (editingRoute) {
         // Update existing route
         await db.execute(
@@ -221,6 +241,7 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
   };
 
   const handleDelete = async (routeId: number) => {
+    if (!permissionService.ensure('gammas')) return;
     if (!confirm('Are you sure you want to delete this route?')) {
       return;
     }
@@ -512,12 +533,14 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
           </div>
           <p className="text-gray-600 dark:text-gray-400">Manage manufacturing operations and sequences</p>
         </div>
-        <button
-          onClick={handleAdd}
-          className="btn btn-primary"
-        >
-          Add Route
-        </button>
+        {canEdit && (
+          <button
+            onClick={handleAdd}
+            className="btn btn-primary"
+          >
+            Add Route
+          </button>
+        )}
       </div>
 
       {/* Filters */}
@@ -662,32 +685,34 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
                   <span className="text-xs text-gray-400 dark:text-gray-500">
                     {new Date(route.created_at).toLocaleDateString()}
                   </span>
-                  <div className="flex space-x-2">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleEdit(route);
-                      }}
-                      className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
-                      title="Edit"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                      </svg>
-                    </button>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDelete(route.id);
-                      }}
-                      className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
-                      title="Delete"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
-                  </div>
+                  {canEdit && (
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleEdit(route);
+                        }}
+                        className="text-blue-600 hover:text-blue-800 dark:text-blue-400 dark:hover:text-blue-300"
+                        title="Edit"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(route.id);
+                        }}
+                        className="text-red-600 hover:text-red-800 dark:text-red-400 dark:hover:text-red-300"
+                        title="Delete"
+                      >
+                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -707,8 +732,8 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
             { key: 'created_at', label: 'Created', sortable: true }
           ]}
           onEdit={() => {}}
-          onDelete={handleDeleteRow}
-          onAdd={() => setShowForm(true)}
+          onDelete={canEdit ? handleDeleteRow : undefined}
+          onAdd={canEdit ? () => setShowForm(true) : undefined}
           onRowClick={(_, rowData) => handleEdit(rowData)}
           loading={loading}
           emptyMessage="No routes found"
@@ -746,12 +771,14 @@ const RoutesWithViews = ({}: RoutesWithViewsProps) => {
           </div>
           <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">No routes created yet</h3>
           <p className="text-gray-600 dark:text-gray-400 mb-4">Get started by creating your first route</p>
+          {canEdit && (
             <button
-            onClick={handleAdd}
+              onClick={handleAdd}
               className="btn btn-primary"
             >
               Add First Route
             </button>
+          )}
         </div>
       )}
     </div>
@@ -2,9 +2,12 @@ import React, { useState, useEffect } from 'react';
 import { db } from '../../services/database';
 import toast from 'react-hot-toast';
 // import { useI18nStore } from '../../stores/useI18nStore';
-import { useUserStore } from '../../stores/useUserStore';
 import { useNavigationHistory } from '../../services/navigationHistory';
 import { navigationService } from '../../services/navigationService';
+import { permissionService } from '../../services/permissionService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
 import { 
   FolderIcon,
   PlusIcon,
@@ -223,7 +226,8 @@ const SortableWorkshopCard: React.FC<SortableWorkshopCardProps> = ({
 
 const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
   // const { t } = useI18nStore();
-  const { hasRole } = useUserStore();
+  const { can } = usePermissions();
+  const { scope } = useWorkshopScope();
   const { canGoBack, goBack } = useNavigationHistory();
   const [workshops, setWorkshops] = useState<Workshop[]>([]);
   const [workstations, setWorkstations] = useState<Workstation[]>([]);
@@ -250,8 +254,8 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
     })
   );
 
-  const isAdmin = hasRole('admin');
-  const isMethod = hasRole('method');
+  const canView = can('sections');
+  const canEdit = can('sections', 'write');
 
   // Handle drag end for workshops
   const handleDragEnd = (event: DragEndEvent) => {
@@ -269,13 +273,14 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
 
   useEffect(() => {
     loadData();
-  }, []);
+  }, [scope]);
 
   const loadData = async () => {
     try {
       setLoading(true);
       
       // Load workshops with counts and methods
+      const workshopScope = workshopScopeService.condition('a.id');
       const workshopsData = await db.queryAll(`
         SELECT a.*, 
                COUNT(DISTINCT w.id) as workstation_count,
@@ -285,9 +290,10 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
         LEFT JOIN workstations w ON w.workshop_id = a.id
         LEFT JOIN users u2 ON u2.workshop_id = a.id
         LEFT JOIN products p ON p.workshop_id = a.id
+        WHERE ${workshopScope.sql}
         GROUP BY a.id
         ORDER BY a.name
-      `);
+      `, workshopScope.params);
 
       // Load methods for each workshop
       const workshopsWithMethods = await Promise.all(
@@ -310,6 +316,7 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
       setWorkshops(workshopsWithMethods);
 
       // Load workstations with workshop info and user counts
+      const workstationScope = workshopScopeService.condition('w.workshop_id');
       const workstationsData = await db.queryAll(`
         SELECT w.*, 
                a.name as workshop_name,
@@ -317,9 +324,10 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
         FROM workstations w
         LEFT JOIN workshops a ON w.workshop_id = a.id
         LEFT JOIN users u ON u.workstation_id = w.id
+        WHERE ${workstationScope.sql}
         GROUP BY w.id
         ORDER BY a.name, w.name
-      `);
+      `, workstationScope.params);
       setWorkstations(workstationsData);
 
       // Load users for manager selection
@@ -431,6 +439,7 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (!permissionService.ensure('sections')) return;
     
     if (!formData.name.trim()) {
       toast.error('Name is required');
@@ -487,6 +496,7 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
   };
 
   const handleDelete = async (item: Workshop | Workstation) => {
+    if (!permissionService.ensure('sections')) return;
     if (!confirm(`Are you sure you want to delete "${item.name}"?`)) {
       return;
     }
@@ -536,7 +546,7 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
     }
   };
 
-  if (!isAdmin && !isMethod) {
+  if (!canView) {
     return (
       <div className="p-8">
         <div className="text-center">
@@ -620,13 +630,15 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
               : 'Workstations are specific production stations within workshops where operators work.'
             }
           </div>
-          <button
-            onClick={() => setShowForm(true)}
-            className="btn btn-primary flex items-center"
-          >
-            <PlusIcon className="h-4 w-4 mr-2" />
-            Add {activeTab === 'workshops' ? 'Workshop' : 'Workstation'}
-          </button>
+          {canEdit && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="btn btn-primary flex items-center"
+            >
+              <PlusIcon className="h-4 w-4 mr-2" />
+              Add {activeTab === 'workshops' ? 'Workshop' : 'Workstation'}
+            </button>
+          )}
         </div>
 
         {/* Content */}
@@ -650,7 +662,7 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
                   {workshops.length === 0 ? (
                     <div className="col-span-full bg-gray-50 dark:bg-gray-700 rounded-lg p-8 text-center">
                       <p className="text-gray-500 dark:text-gray-400 mb-4">No workshops found</p>
-                      {(isAdmin || isMethod) && (
+                      {canEdit && (
                         <button
                           onClick={() => setShowForm(true)}
                           className="btn btn-primary"
@@ -667,7 +679,7 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
                         onNavigateToFamilies={onNavigateToFamilies}
                         onEdit={handleEdit}
                         onDelete={handleDelete}
-                        canEdit={isAdmin || isMethod}
+                        canEdit={canEdit}
                       />
                     ))
                   )}
@@ -677,7 +689,7 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
               workstations.length === 0 ? (
                 <div className="col-span-full bg-gray-50 dark:bg-gray-700 rounded-lg p-8 text-center">
                   <p className="text-gray-500 dark:text-gray-400 mb-4">No workstations found</p>
-                  {(isAdmin || isMethod) && (
+                  {canEdit && (
                     <button
                       onClick={() => setShowForm(true)}
                       className="btn btn-primary"
@@ -711,7 +723,7 @@ const Sections: React.FC<SectionsProps> = ({ onNavigateToFamilies }) => {
                             {workstation.name}
                           </h3>
                         </div>
-                        {(isAdmin || isMethod) && (
+                        {canEdit && (
                           <div className="flex space-x-2">
                             <button
                               onClick={() => handleEdit(workstation)}
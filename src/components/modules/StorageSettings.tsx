@@ -1,51 +1,51 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
-// import { db } from '../../services/database';
+import { databaseStorage, StorageUsage } from '../../services/databaseStorage';
 import { 
   ServerIcon, 
-  ExclamationTriangleIcon,
   CheckCircleIcon,
-  InformationCircleIcon
+  InformationCircleIcon,
+  ChartPieIcon
 } from '@heroicons/react/24/outline';
 
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
 const StorageSettings = () => {
-  const [loading, setLoading] = useState(false);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
 
-  const handleClearLocalStorage = async () => {
-    if (!window.confirm('Are you sure you want to clear all SPC data from localStorage? This action cannot be undone!')) {
-      return;
+  useEffect(() => {
+    if (!window.electronAPI) {
+      loadUsage();
     }
+  }, []);
 
-    setLoading(true);
+  const loadUsage = async () => {
     try {
-      // Get all localStorage keys that start with 'spc_'
-      const keysToRemove = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith('spc_')) {
-          keysToRemove.push(key);
-        }
-      }
-
-      if (keysToRemove.length === 0) {
-        toast('No SPC data found in localStorage. Database is already clean!');
-        return;
-      }
-
-      // Remove all SPC-related keys
-      keysToRemove.forEach(key => {
-        localStorage.removeItem(key);
-      });
-
-      toast.success(`Cleared ${keysToRemove.length} SPC data entries from localStorage`);
+      setUsage(await databaseStorage.getUsage());
     } catch (error) {
-      console.error('Error clearing localStorage:', error);
-      toast.error(`Failed to clear localStorage: ${error instanceof Error ? error.message : String(error)}`);
-    } finally {
-      setLoading(false);
+      console.error('Error reading storage usage:', error);
     }
   };
 
+  const handleRequestPersistence = async () => {
+    const granted = await databaseStorage.requestPersistence();
+    if (granted) {
+      toast.success('The browser will keep the database when disk space runs low');
+    } else {
+      toast.error('The browser declined persistent storage');
+    }
+    await loadUsage();
+  };
+
+  const usagePercent = usage && usage.usageBytes !== null && usage.quotaBytes
+    ? Math.min(100, (usage.usageBytes / usage.quotaBytes) * 100)
+    : null;
+
   return (
     <div className="p-6">
       <div className="mb-6">
@@ -74,43 +74,62 @@ const StorageSettings = () => {
               </h3>
               <p className="text-sm text-blue-700 dark:text-blue-300 mt-1">
                 Database is running in {window.electronAPI ? 'Electron' : 'Browser'} mode.
-                {window.electronAPI ? ' Data is automatically saved to file system.' : ' Data is stored in memory.'}
+                {window.electronAPI ? ' Data is automatically saved to file system.' : ' Data is saved to the browser\'s IndexedDB and stays available offline.'}
               </p>
             </div>
           </div>
         </div>
       </div>
 
-      {/* Storage Actions */}
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
-        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
-          <ExclamationTriangleIcon className="h-5 w-5 mr-2 text-red-600" />
-          Storage Actions
-        </h2>
-        
-        <div className="space-y-4">
-          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
-            <div className="flex items-start">
-              <ExclamationTriangleIcon className="h-5 w-5 text-red-600 mt-0.5 mr-3" />
-              <div className="flex-1">
-                <h3 className="text-sm font-medium text-red-800 dark:text-red-200">
-                  Clear localStorage Data
-                </h3>
-                <p className="text-sm text-red-700 dark:text-red-300 mt-1">
-                  This will remove all SPC-related data from browser localStorage. This includes image data and cached information.
-                </p>
+      {/* Storage Usage (browser only) */}
+      {!window.electronAPI && usage && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+            <ChartPieIcon className="h-5 w-5 mr-2 text-blue-600" />
+            Storage Usage
+          </h2>
+
+          <div className="space-y-4">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Database size</span>
+              <span className="font-medium text-gray-900 dark:text-white">{formatBytes(usage.databaseBytes)}</span>
+            </div>
+
+            {usagePercent !== null && (
+              <div>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="text-gray-600 dark:text-gray-400">Browser storage used</span>
+                  <span className="font-medium text-gray-900 dark:text-white">
+                    {formatBytes(usage.usageBytes!)} / {formatBytes(usage.quotaBytes!)} ({usagePercent.toFixed(1)}%)
+                  </span>
+                </div>
+                <div className="w-full h-3 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className={`h-3 rounded-full ${usagePercent > 90 ? 'bg-red-600' : usagePercent > 70 ? 'bg-yellow-500' : 'bg-blue-600'}`}
+                    style={{ width: `${Math.max(usagePercent, 1)}%` }}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">
+                {usage.persisted
+                  ? 'Persistent storage granted: the browser will not evict the database.'
+                  : 'Best-effort storage: the browser may evict the database when disk space runs low.'}
+              </span>
+              {!usage.persisted && (
                 <button
-                  onClick={handleClearLocalStorage}
-                  disabled={loading}
-                  className="mt-3 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-red-600 hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={handleRequestPersistence}
+                  className="ml-4 inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
                 >
-                  {loading ? 'Clearing...' : 'Clear localStorage Data'}
+                  Request persistent storage
                 </button>
-              </div>
+              )}
             </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
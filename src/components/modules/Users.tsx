@@ -4,6 +4,7 @@ import { encryption } from '../../services/encryption';
 import toast from 'react-hot-toast';
 import { useNavigationHistory } from '../../services/navigationHistory';
 import { navigationService } from '../../services/navigationService';
+import { permissionService } from '../../services/permissionService';
 import { useI18nStore } from '../../stores/useI18nStore';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 import ScrollableSelect from '../ui/ScrollableSelect';
@@ -115,6 +116,7 @@ const Users = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     console.log('Form submitted!', formData);
+    if (!permissionService.ensure('users')) return;
     
     if (!formData.username.trim()) {
       toast.error('Username is required');
@@ -193,6 +195,7 @@ const Users = () => {
   };
 
   const handleDelete = async (id: number) => {
+    if (!permissionService.ensure('users')) return;
     if (!confirm('Are you sure you want to delete this user?')) {
       return;
     }
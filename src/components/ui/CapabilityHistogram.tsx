@@ -0,0 +1,133 @@
+import React from 'react';
+import { HistogramBin } from '../../types/spc';
+import { normalPDF } from '../../utils/statistics';
+
+interface CapabilityHistogramProps {
+  bins: HistogramBin[];
+  count: number;
+  mean: number;
+  overallSigma: number;
+  withinSigma?: number;
+  specLimits?: { usl?: number; lsl?: number; target?: number };
+  unit?: string;
+  decimals?: number;
+  height?: number;
+}
+
+const WIDTH = 800;
+const MARGIN = { top: 24, right: 24, bottom: 36, left: 48 };
+const CURVE_STEPS = 120;
+
+const formatValue = (value: number, decimals: number): string =>
+  Number.isFinite(value) ? value.toFixed(decimals) : '-';
+
+// Histogram with the fitted normal curves (overall solid, within dashed)
+// scaled to counts, and vertical markers for the specification limits
+const CapabilityHistogram: React.FC<CapabilityHistogramProps> = ({
+  bins,
+  count,
+  mean,
+  overallSigma,
+  withinSigma,
+  specLimits,
+  unit,
+  decimals = 3,
+  height = 280
+}) => {
+  if (bins.length === 0) return null;
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+  const binWidth = bins[0].end - bins[0].start;
+
+  // X domain covers the bins, the spec limits and ±3σ around the mean
+  const candidates = [bins[0].start, bins[bins.length - 1].end];
+  [specLimits?.usl, specLimits?.lsl, specLimits?.target].forEach(value => {
+    if (value !== undefined) candidates.push(value);
+  });
+  if (overallSigma > 0) candidates.push(mean - 3 * overallSigma, mean + 3 * overallSigma);
+  const low = Math.min(...candidates);
+  const high = Math.max(...candidates);
+  const padding = (high - low || 1) * 0.04;
+  const xMin = low - padding;
+  const xMax = high + padding;
+
+  const curve = (sigma: number | undefined) => {
+    if (!sigma || sigma <= 0) return [];
+    return Array.from({ length: CURVE_STEPS + 1 }, (_, i) => {
+      const x = xMin + ((xMax - xMin) * i) / CURVE_STEPS;
+      return { x, y: normalPDF(x, mean, sigma) * count * binWidth };
+    });
+  };
+  const overallCurve = curve(overallSigma);
+  const withinCurve = curve(withinSigma);
+
+  const yMax = Math.max(1, ...bins.map(bin => bin.count), ...overallCurve.map(p => p.y), ...withinCurve.map(p => p.y)) * 1.1;
+  const xFor = (value: number) => MARGIN.left + ((value - xMin) / (xMax - xMin)) * plotWidth;
+  const yFor = (value: number) => MARGIN.top + (1 - value / yMax) * plotHeight;
+  const curvePath = (points: { x: number; y: number }[]) =>
+    points.map((p, i) => `${i === 0 ? 'M' : 'L'}${xFor(p.x)},${yFor(p.y)}`).join(' ');
+
+  const marker = (value: number | undefined, label: string, className: string) => {
+    if (value === undefined || !Number.isFinite(value)) return null;
+    const x = xFor(value);
+    return (
+      <g key={label}>
+        <line x1={x} x2={x} y1={MARGIN.top} y2={MARGIN.top + plotHeight} className={className} strokeWidth={1.5} strokeDasharray="6 4" />
+        <text x={x} y={MARGIN.top - 6} textAnchor="middle" fontSize={11} className="fill-current text-gray-600 dark:text-gray-300">
+          {label} {formatValue(value, decimals)}
+        </text>
+      </g>
+    );
+  };
+
+  const yTicks = Array.from({ length: 5 }, (_, i) => Math.round((yMax * i) / 4));
+  const xTicks = Array.from({ length: 7 }, (_, i) => xMin + ((xMax - xMin) * i) / 6);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full select-none text-gray-400">
+      <rect x={MARGIN.left} y={MARGIN.top} width={plotWidth} height={plotHeight} fill="none" className="stroke-gray-300 dark:stroke-gray-600" />
+      {yTicks.map(tick => (
+        <text key={tick} x={MARGIN.left - 6} y={yFor(tick) + 4} textAnchor="end" fontSize={10} className="fill-current text-gray-500">
+          {tick}
+        </text>
+      ))}
+      {xTicks.map(tick => (
+        <text key={tick} x={xFor(tick)} y={height - MARGIN.bottom + 16} textAnchor="middle" fontSize={10} className="fill-current text-gray-500">
+          {formatValue(tick, decimals)}
+        </text>
+      ))}
+      {unit && (
+        <text x={WIDTH - MARGIN.right} y={height - 4} textAnchor="end" fontSize={10} className="fill-current text-gray-500">
+          {unit}
+        </text>
+      )}
+
+      {bins.map((bin, index) => (
+        <rect
+          key={index}
+          x={xFor(bin.start) + 0.5}
+          y={yFor(bin.count)}
+          width={Math.max(0, xFor(bin.end) - xFor(bin.start) - 1)}
+          height={MARGIN.top + plotHeight - yFor(bin.count)}
+          className="fill-blue-200 stroke-blue-500 dark:fill-blue-900"
+        >
+          <title>{`${formatValue(bin.start, decimals)} – ${formatValue(bin.end, decimals)}: ${bin.count}`}</title>
+        </rect>
+      ))}
+
+      {withinCurve.length > 0 && (
+        <path d={curvePath(withinCurve)} fill="none" className="stroke-green-600" strokeWidth={1.5} strokeDasharray="4 3" />
+      )}
+      {overallCurve.length > 0 && (
+        <path d={curvePath(overallCurve)} fill="none" className="stroke-red-500" strokeWidth={2} />
+      )}
+
+      {marker(specLimits?.lsl, 'LSL', 'stroke-orange-500')}
+      {marker(specLimits?.usl, 'USL', 'stroke-orange-500')}
+      {marker(specLimits?.target, 'Target', 'stroke-gray-500')}
+    </svg>
+  );
+};
+
+export default CapabilityHistogram;
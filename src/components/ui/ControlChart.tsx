@@ -0,0 +1,301 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ControlLimits } from '../../types/spc';
+import { useI18nStore } from '../../stores/useI18nStore';
+
+export interface ControlChartPoint {
+  value: number;
+  timestamp: Date;
+  label: string; // Measurement or subgroup number
+  operator?: string;
+  notes?: string;
+  detail?: string; // e.g. subgroup size or lot size
+}
+
+interface ControlChartProps {
+  title: string;
+  points: ControlChartPoint[];
+  limits: ControlLimits;
+  pointLimits?: ControlLimits[]; // Variable limits (p/u charts, EWMA)
+  secondaryValues?: number[]; // Second series, e.g. the lower CUSUM
+  specLimits?: { usl?: number; lsl?: number; target?: number };
+  violations?: Map<number, string[]>; // Point index -> violated rule names
+  visibleRange: [number, number]; // Inclusive point indices
+  onRangeChange: (range: [number, number]) => void;
+  unit?: string;
+  decimals?: number;
+  height?: number;
+}
+
+const WIDTH = 800;
+const MARGIN = { top: 16, right: 72, bottom: 36, left: 56 };
+
+const formatValue = (value: number, decimals: number): string =>
+  Number.isFinite(value) ? value.toFixed(decimals) : '-';
+
+const ControlChart: React.FC<ControlChartProps> = ({
+  title,
+  points,
+  limits,
+  pointLimits,
+  secondaryValues,
+  specLimits,
+  violations,
+  visibleRange,
+  onRangeChange,
+  unit,
+  decimals = 3,
+  height = 260
+}) => {
+  const { t } = useI18nStore();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [brush, setBrush] = useState<{ start: number; end: number } | null>(null);
+
+  const [first, last] = visibleRange;
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+  const span = Math.max(1, last - first);
+
+  // Y domain covers the visible data, the limits and any spec limits
+  const [yMin, yMax] = useMemo(() => {
+    const candidates: number[] = [limits.ucl, limits.lcl, limits.centerLine];
+    for (let i = first; i <= last && i < points.length; i++) {
+      candidates.push(points[i].value);
+      if (secondaryValues?.[i] !== undefined) candidates.push(secondaryValues[i]);
+      if (pointLimits?.[i]) candidates.push(pointLimits[i].ucl, pointLimits[i].lcl);
+    }
+    if (specLimits?.usl !== undefined) candidates.push(specLimits.usl);
+    if (specLimits?.lsl !== undefined) candidates.push(specLimits.lsl);
+    const finite = candidates.filter(Number.isFinite);
+    const low = Math.min(...finite);
+    const high = Math.max(...finite);
+    const padding = (high - low || Math.abs(high) || 1) * 0.08;
+    return [low - padding, high + padding];
+  }, [points, limits, pointLimits, secondaryValues, specLimits, first, last]);
+
+  const xFor = (index: number) => MARGIN.left + ((index - first) / span) * plotWidth;
+  const yFor = (value: number) => MARGIN.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+  // Convert a mouse position to the nearest point index
+  const indexAt = (clientX: number): number => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return first;
+    const x = ((clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.round(first + ((x - MARGIN.left) / plotWidth) * span);
+    return Math.min(last, Math.max(first, index));
+  };
+
+  const handleMouseUp = () => {
+    if (brush && Math.abs(brush.end - brush.start) >= 2) {
+      onRangeChange([Math.min(brush.start, brush.end), Math.max(brush.start, brush.end)]);
+    }
+    setBrush(null);
+  };
+
+  const visibleIndices: number[] = [];
+  for (let i = first; i <= last && i < points.length; i++) visibleIndices.push(i);
+
+  const linePath = (values: (number | undefined)[]) => visibleIndices
+    .filter(i => values[i] !== undefined && Number.isFinite(values[i] as number))
+    .map((i, position) => `${position === 0 ? 'M' : 'L'}${xFor(i)},${yFor(values[i] as number)}`)
+    .join(' ');
+
+  const stepPath = (key: 'ucl' | 'lcl') => visibleIndices
+    .map((i, position) => {
+      const value = pointLimits?.[i]?.[key] ?? limits[key];
+      const half = span > 0 ? plotWidth / span / 2 : 0;
+      return `${position === 0 ? 'M' : 'L'}${xFor(i) - half},${yFor(value)} L${xFor(i) + half},${yFor(value)}`;
+    })
+    .join(' ');
+
+  const horizontalLine = (value: number | undefined, label: string, className: string, dashed = false) => {
+    if (value === undefined || value === null || !Number.isFinite(value)) return null;
+    const y = yFor(value);
+    return (
+      <g key={label}>
+        <line
+          x1={MARGIN.left}
+          x2={WIDTH - MARGIN.right}
+          y1={y}
+          y2={y}
+          className={className}
+          strokeWidth={1.5}
+          strokeDasharray={dashed ? '6 4' : undefined}
+        />
+        <text x={WIDTH - MARGIN.right + 4} y={y + 4} className="fill-current text-gray-600 dark:text-gray-300" fontSize={11}>
+          {label} {formatValue(value, decimals)}
+        </text>
+      </g>
+    );
+  };
+
+  const yTicks = Array.from({ length: 5 }, (_, i) => yMin + ((yMax - yMin) * i) / 4);
+  const xTickCount = Math.min(6, visibleIndices.length);
+  const xTicks = Array.from({ length: xTickCount }, (_, i) =>
+    visibleIndices[Math.round((i * (visibleIndices.length - 1)) / Math.max(1, xTickCount - 1))]
+  );
+
+  const hovered = hoveredIndex !== null ? points[hoveredIndex] : null;
+
+  return (
+    <div className="relative">
+      <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-1">{title}</h4>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full select-none text-gray-400"
+        onMouseDown={(e) => setBrush({ start: indexAt(e.clientX), end: indexAt(e.clientX) })}
+        onMouseMove={(e) => brush && setBrush({ ...brush, end: indexAt(e.clientX) })}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => {
+          setBrush(null);
+          setHoveredIndex(null);
+        }}
+      >
+        {/* Axes */}
+        <rect x={MARGIN.left} y={MARGIN.top} width={plotWidth} height={plotHeight} fill="none" className="stroke-gray-300 dark:stroke-gray-600" />
+        {yTicks.map(tick => (
+          <text key={tick} x={MARGIN.left - 6} y={yFor(tick) + 4} textAnchor="end" fontSize={10} className="fill-current text-gray-500">
+            {formatValue(tick, decimals)}
+          </text>
+        ))}
+        {xTicks.map(index => (
+          <text key={index} x={xFor(index)} y={height - MARGIN.bottom + 16} textAnchor="middle" fontSize={10} className="fill-current text-gray-500">
+            {points[index]?.timestamp.toLocaleDateString()}
+          </text>
+        ))}
+
+        {/* Specification limits */}
+        {horizontalLine(specLimits?.usl, 'USL', 'stroke-orange-500', true)}
+        {horizontalLine(specLimits?.lsl, 'LSL', 'stroke-orange-500', true)}
+
+        {/* Control limits */}
+        {horizontalLine(limits.centerLine, 'CL', 'stroke-green-600')}
+        {pointLimits && pointLimits.length > 0 ? (
+          <>
+            <path d={stepPath('ucl')} fill="none" className="stroke-red-500" strokeWidth={1.5} />
+            <path d={stepPath('lcl')} fill="none" className="stroke-red-500" strokeWidth={1.5} />
+          </>
+        ) : (
+          <>
+            {horizontalLine(limits.ucl, 'UCL', 'stroke-red-500')}
+            {horizontalLine(limits.lcl, 'LCL', 'stroke-red-500')}
+          </>
+        )}
+
+        {/* Data */}
+        {secondaryValues && (
+          <path d={linePath(secondaryValues)} fill="none" className="stroke-purple-500" strokeWidth={1.5} />
+        )}
+        <path d={linePath(points.map(point => point.value))} fill="none" className="stroke-blue-500" strokeWidth={1.5} />
+        {visibleIndices.map(index => {
+          const violated = violations?.has(index);
+          return (
+            <circle
+              key={index}
+              cx={xFor(index)}
+              cy={yFor(points[index].value)}
+              r={hoveredIndex === index ? 5 : violated ? 4 : 3}
+              className={violated ? 'fill-red-600 stroke-red-800' : 'fill-blue-500 stroke-blue-700'}
+              onMouseEnter={() => setHoveredIndex(index)}
+              onMouseLeave={() => setHoveredIndex(null)}
+            />
+          );
+        })}
+
+        {/* Brush selection */}
+        {brush && brush.start !== brush.end && (
+          <rect
+            x={Math.min(xFor(brush.start), xFor(brush.end))}
+            y={MARGIN.top}
+            width={Math.abs(xFor(brush.end) - xFor(brush.start))}
+            height={plotHeight}
+            className="fill-primary-500"
+            fillOpacity={0.15}
+          />
+        )}
+      </svg>
+
+      {/* Hover details */}
+      {hovered && hoveredIndex !== null && (
+        <div
+          className="absolute z-10 pointer-events-none bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg px-3 py-2 text-xs text-gray-700 dark:text-gray-200"
+          style={{
+            left: `${(xFor(hoveredIndex) / WIDTH) * 100}%`,
+            top: 24,
+            transform: xFor(hoveredIndex) > WIDTH / 2 ? 'translateX(-105%)' : 'translateX(5%)',
+          }}
+        >
+          <div className="font-medium">
+            #{hovered.label}: {formatValue(hovered.value, decimals)}{unit ? ` ${unit}` : ''}
+          </div>
+          <div>{hovered.timestamp.toLocaleString()}</div>
+          {hovered.detail && <div>{hovered.detail}</div>}
+          {hovered.operator && <div>{t('ui.controlChart.operator', { name: hovered.operator })}</div>}
+          {hovered.notes && <div className="max-w-xs truncate">{t('ui.controlChart.notes', { notes: hovered.notes })}</div>}
+          {violations?.get(hoveredIndex)?.map(rule => (
+            <div key={rule} className="text-red-600 dark:text-red-400">{rule}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Overview strip of the full series; dragging selects the visible range
+export const ChartOverview: React.FC<{
+  values: number[];
+  visibleRange: [number, number];
+  onRangeChange: (range: [number, number]) => void;
+}> = ({ values, visibleRange, onRangeChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragStart, setDragStart] = useState<number | null>(null);
+  const height = 48;
+  const finite = values.filter(Number.isFinite);
+  const low = Math.min(...finite);
+  const high = Math.max(...finite);
+  const last = Math.max(1, values.length - 1);
+  const xFor = (index: number) => (index / last) * WIDTH;
+  const yFor = (value: number) => 4 + (1 - (value - low) / (high - low || 1)) * (height - 8);
+
+  const indexAt = (clientX: number): number => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return 0;
+    return Math.min(values.length - 1, Math.max(0, Math.round(((clientX - rect.left) / rect.width) * last)));
+  };
+
+  const updateRange = (start: number, end: number) => {
+    if (Math.abs(end - start) >= 2) {
+      onRangeChange([Math.min(start, end), Math.max(start, end)]);
+    }
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full select-none cursor-crosshair bg-gray-50 dark:bg-gray-900 rounded"
+      onMouseDown={(e) => setDragStart(indexAt(e.clientX))}
+      onMouseMove={(e) => dragStart !== null && updateRange(dragStart, indexAt(e.clientX))}
+      onMouseUp={() => setDragStart(null)}
+      onMouseLeave={() => setDragStart(null)}
+    >
+      <path
+        d={values.map((value, index) => `${index === 0 ? 'M' : 'L'}${xFor(index)},${yFor(value)}`).join(' ')}
+        fill="none"
+        className="stroke-gray-400"
+        strokeWidth={1}
+      />
+      <rect
+        x={xFor(visibleRange[0])}
+        y={0}
+        width={Math.max(2, xFor(visibleRange[1]) - xFor(visibleRange[0]))}
+        height={height}
+        className="fill-primary-500 stroke-primary-600"
+        fillOpacity={0.15}
+      />
+    </svg>
+  );
+};
+
+export default ControlChart;
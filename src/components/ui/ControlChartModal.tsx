@@ -0,0 +1,418 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { XMarkIcon, ArrowsPointingOutIcon } from '@heroicons/react/24/outline';
+import { db } from '../../services/database';
+import { useI18nStore } from '../../stores/useI18nStore';
+import { AttributeChartType, AttributeInspection, ChartLimits, ChartType, CharacteristicType, DataPoint, FeatureSpecification, Subgroup } from '../../types/spc';
+import {
+  MIN_SUBGROUP_SIZE,
+  NELSON_RULES,
+  buildSubgroups,
+  calculateAttributeChart,
+  calculateChartLimits,
+  evaluateControlRules,
+  hasRecordedSubgroups,
+  mean,
+  toAttributeSamples
+} from '../../utils/statistics';
+import { formatSpecification, getSpecificationLimits } from '../../utils/specifications';
+import ControlChart, { ChartOverview, ControlChartPoint } from './ControlChart';
+
+export interface ChartFeature extends FeatureSpecification {
+  id: number;
+  name: string;
+  characteristic_type?: CharacteristicType;
+}
+
+interface ControlChartModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  feature: ChartFeature | null;
+  routeId?: number; // Restrict to measurements taken on this route
+}
+
+interface MeasurementRow {
+  id: number;
+  measured_value: number;
+  timestamp: string;
+  notes?: string;
+  operator?: string;
+  subgroup_number?: number;
+  lot_number?: string;
+  batch?: string;
+  serial_number?: string;
+}
+
+const CHART_OPTIONS: Record<CharacteristicType, { value: ChartType; label: string }[]> = {
+  variable: [
+    { value: 'i-mr', label: 'I-MR (individuals)' },
+    { value: 'xbar-r', label: 'X̄-R' },
+    { value: 'xbar-s', label: 'X̄-S' },
+    { value: 'ewma', label: 'EWMA' },
+    { value: 'cusum', label: 'CUSUM' },
+  ],
+  defectives: [
+    { value: 'p-chart', label: 'p (proportion defective)' },
+    { value: 'np-chart', label: 'np (number defective)' },
+  ],
+  defects: [
+    { value: 'u-chart', label: 'u (defects per unit)' },
+    { value: 'c-chart', label: 'c (defect count)' },
+  ],
+};
+
+const isSubgroupChart = (chartType: ChartType) => chartType === 'xbar-r' || chartType === 'xbar-s';
+
+// Subgroup size value meaning "use the subgroups recorded with the samples"
+const RECORDED_SUBGROUPS = 0;
+
+// Point indices flagged by each rule, merged into index -> rule names
+const collectViolations = (limits: ChartLimits, values: number[], useRunRules: boolean): Map<number, string[]> => {
+  const violations = new Map<number, string[]>();
+  const flag = (index: number, rule: string) => violations.set(index, [...(violations.get(index) || []), rule]);
+
+  if (limits.pointLimits && limits.pointLimits.length > 0) {
+    // Variable limits: only the beyond-limits test is meaningful
+    values.forEach((value, index) => {
+      const pointLimits = limits.pointLimits?.[index];
+      if (pointLimits && (value > pointLimits.ucl || value < pointLimits.lcl)) {
+        flag(index, NELSON_RULES[0].name);
+      }
+    });
+    return violations;
+  }
+
+  const rules = useRunRules ? NELSON_RULES : NELSON_RULES.filter(rule => rule.kind === 'beyond-limits');
+  evaluateControlRules(values, limits.location, rules).forEach(result => {
+    result.points.forEach(index => flag(index, result.rule));
+  });
+  // Lower CUSUM signals below −H
+  limits.secondaryPoints?.forEach((value, index) => {
+    if (value < limits.location.lcl) flag(index, NELSON_RULES[0].name);
+  });
+  return violations;
+};
+
+const ControlChartModal: React.FC<ControlChartModalProps> = ({
+  isOpen,
+  onClose,
+  feature,
+  routeId
+}) => {
+  const { t } = useI18nStore();
+  const characteristicType: CharacteristicType = feature?.characteristic_type || 'variable';
+  const [measurements, setMeasurements] = useState<DataPoint[]>([]);
+  const [inspections, setInspections] = useState<AttributeInspection[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [chartType, setChartType] = useState<ChartType>('i-mr');
+  const [subgroupSize, setSubgroupSize] = useState(5);
+  const [visibleRange, setVisibleRange] = useState<[number, number]>([0, 0]);
+
+  const loadData = useCallback(async () => {
+    if (!feature) return;
+    try {
+      setLoading(true);
+      const params = routeId ? [feature.id, routeId] : [feature.id];
+
+      if (characteristicType === 'variable') {
+        const rows: MeasurementRow[] = await db.queryAll(
+          `SELECT m.id, m.measured_value, m.timestamp, m.notes, u.username as operator,
+                  s.subgroup_number, s.lot_number, s.batch, s.serial_number
+           FROM measurements m
+           LEFT JOIN users u ON m.operator_id = u.id
+           LEFT JOIN measurement_samples s ON m.sample_id = s.id
+           WHERE m.feature_id = ?${routeId ? ' AND m.route_id = ?' : ''}
+           ORDER BY m.timestamp, m.id`,
+          params
+        );
+        const points: DataPoint[] = rows.map(row => ({
+          id: row.id.toString(),
+          value: Number(row.measured_value),
+          timestamp: new Date(row.timestamp),
+          subgroup: row.subgroup_number ?? undefined,
+          batch: row.lot_number || row.batch || undefined,
+          serialNumber: row.serial_number || undefined,
+          operator: row.operator,
+          notes: row.notes,
+        }));
+        setMeasurements(points);
+        setSubgroupSize(hasRecordedSubgroups(points) ? RECORDED_SUBGROUPS : 5);
+      } else {
+        const rows: AttributeInspection[] = await db.queryAll(
+          `SELECT * FROM attribute_inspections WHERE feature_id = ?${routeId ? ' AND route_id = ?' : ''} ORDER BY timestamp, id`,
+          params
+        );
+        setInspections(rows);
+      }
+    } catch (error) {
+      console.error('Error loading chart data:', error);
+      toast.error(t('ui.controlChart.loadError'));
+    } finally {
+      setLoading(false);
+    }
+  }, [feature, routeId, characteristicType, t]);
+
+  useEffect(() => {
+    if (isOpen && feature) {
+      setChartType(CHART_OPTIONS[characteristicType][0].value);
+      loadData();
+    }
+  }, [isOpen, feature, characteristicType, loadData]);
+
+  // Chart statistics plus the metadata of each plotted point
+  const chart = useMemo((): { limits: ChartLimits; points: ControlChartPoint[]; dispersion: ControlChartPoint[] } | null => {
+    try {
+      if (characteristicType !== 'variable') {
+        const samples = toAttributeSamples(inspections, chartType as AttributeChartType)
+          .filter(sample => sample.sampleSize > 0);
+        if (samples.length < 2) return null;
+        const limits = calculateAttributeChart(samples, chartType as AttributeChartType);
+        return {
+          limits,
+          points: samples.map((sample, index) => ({
+            value: limits.locationPoints[index],
+            timestamp: sample.timestamp,
+            label: sample.batch || (index + 1).toString(),
+            detail: `${sample.count} / ${sample.sampleSize} inspected`,
+          })),
+          dispersion: [],
+        };
+      }
+
+      // Recorded subgroup numbers are only used when explicitly selected
+      const individuals = measurements.map(point => ({ ...point, subgroup: undefined }));
+      const subgroups: Subgroup[] = (isSubgroupChart(chartType)
+        ? buildSubgroups(subgroupSize === RECORDED_SUBGROUPS ? measurements : individuals, subgroupSize)
+            .filter(subgroup => subgroup.values.length >= MIN_SUBGROUP_SIZE)
+        : buildSubgroups(individuals, 1));
+      if (subgroups.length < 2) return null;
+
+      const limits = calculateChartLimits(subgroups, chartType);
+      const subgroupPoints = subgroups.map((subgroup, index): ControlChartPoint => {
+        const source = measurements.filter(point => subgroup.dataPointIds?.includes(point.id));
+        return {
+          value: limits.locationPoints[index],
+          timestamp: subgroup.timestamp,
+          label: subgroup.subgroupNumber.toString(),
+          operator: Array.from(new Set(source.map(point => point.operator).filter(Boolean))).join(', ') || undefined,
+          notes: source.map(point => point.notes).filter(Boolean).join('; ') || undefined,
+          detail: [
+            subgroup.values.length > 1 ? `n = ${subgroup.values.length}, mean ${mean(subgroup.values).toFixed(4)}` : '',
+            source.length === 1 && source[0].serialNumber ? `S/N ${source[0].serialNumber}` : '',
+            subgroup.batch ? `Lot ${subgroup.batch}` : '',
+          ].filter(Boolean).join(' · ') || undefined,
+        };
+      });
+
+      // Moving ranges start at the second point
+      const offset = chartType === 'i-mr' ? 1 : 0;
+      return {
+        limits,
+        points: subgroupPoints,
+        dispersion: limits.dispersionPoints.map((value, index) => ({ ...subgroupPoints[index + offset], value })),
+      };
+    } catch (error) {
+      console.error('Error calculating control chart:', error);
+      return null;
+    }
+  }, [characteristicType, chartType, subgroupSize, measurements, inspections]);
+
+  useEffect(() => {
+    setVisibleRange([0, Math.max(0, (chart?.points.length || 1) - 1)]);
+  }, [chart?.points.length]);
+
+  const locationViolations = useMemo(
+    () => chart ? collectViolations(chart.limits, chart.limits.locationPoints, chartType !== 'cusum' && chartType !== 'ewma') : new Map<number, string[]>(),
+    [chart, chartType]
+  );
+
+  const dispersionViolations = useMemo(() => {
+    if (!chart?.limits.dispersion) return new Map<number, string[]>();
+    return collectViolations(
+      { ...chart.limits, location: chart.limits.dispersion, pointLimits: undefined },
+      chart.limits.dispersionPoints,
+      false
+    );
+  }, [chart]);
+
+  // Summary of which rules fired, for the legend below the charts
+  const ruleSummary = useMemo(() => {
+    const counts = new Map<string, number>();
+    locationViolations.forEach(rules => rules.forEach(rule => counts.set(rule, (counts.get(rule) || 0) + 1)));
+    return Array.from(counts.entries());
+  }, [locationViolations]);
+
+  if (!isOpen || !feature) return null;
+
+  // Spec limits are in measurement units, so only the individuals and X̄ charts show them
+  const specLimits = characteristicType === 'variable' && (chartType === 'i-mr' || isSubgroupChart(chartType))
+    ? getSpecificationLimits(feature)
+    : undefined;
+
+  const locationTitle: Record<ChartType, string> = {
+    'i-mr': 'Individuals',
+    'xbar-r': 'Subgroup means (X̄)',
+    'xbar-s': 'Subgroup means (X̄)',
+    'ewma': 'EWMA',
+    'cusum': 'CUSUM (upper C+ / lower −C−)',
+    'p-chart': 'Proportion defective',
+    'np-chart': 'Number defective',
+    'c-chart': 'Defect count',
+    'u-chart': 'Defects per unit',
+  };
+  const dispersionTitle = chartType === 'i-mr' ? 'Moving range' : chartType === 'xbar-r' ? 'Range (R)' : 'Standard deviation (S)';
+  const isZoomed = chart ? visibleRange[0] > 0 || visibleRange[1] < chart.points.length - 1 : false;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              {t('ui.controlChart.title')}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {t('ui.controlChart.feature', { name: feature.name })}
+              {characteristicType === 'variable' && ` (${formatSpecification(feature)})`}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {/* Controls */}
+          <div className="flex flex-wrap items-center gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                {t('ui.controlChart.chartType')}
+              </label>
+              <select
+                value={chartType}
+                onChange={(e) => setChartType(e.target.value as ChartType)}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white text-sm"
+              >
+                {CHART_OPTIONS[characteristicType].map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            {isSubgroupChart(chartType) && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  {t('ui.controlChart.subgroupSize')}
+                </label>
+                <select
+                  value={subgroupSize}
+                  onChange={(e) => setSubgroupSize(parseInt(e.target.value))}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 dark:bg-gray-700 dark:text-white text-sm"
+                >
+                  {hasRecordedSubgroups(measurements) && (
+                    <option value={RECORDED_SUBGROUPS}>{t('ui.controlChart.recordedSubgroups')}</option>
+                  )}
+                  {[2, 3, 4, 5, 6, 7, 8, 9, 10].map(size => (
+                    <option key={size} value={size}>{size}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {isZoomed && chart && (
+              <button
+                type="button"
+                onClick={() => setVisibleRange([0, chart.points.length - 1])}
+                className="self-end inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-600"
+              >
+                <ArrowsPointingOutIcon className="h-4 w-4 mr-2" />
+                {t('ui.controlChart.resetZoom')}
+              </button>
+            )}
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : !chart ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <p>{t('ui.controlChart.notEnoughData')}</p>
+              <p className="text-sm mt-1">{t('ui.controlChart.notEnoughDataHint')}</p>
+            </div>
+          ) : (
+            <>
+              <ControlChart
+                title={locationTitle[chartType]}
+                points={chart.points}
+                limits={chart.limits.location}
+                pointLimits={chart.limits.pointLimits}
+                secondaryValues={chart.limits.secondaryPoints}
+                specLimits={specLimits}
+                violations={locationViolations}
+                visibleRange={visibleRange}
+                onRangeChange={setVisibleRange}
+                unit={feature.unit}
+                decimals={feature.decimal_places}
+              />
+
+              {chart.limits.dispersion && chart.dispersion.length > 1 && (
+                <ControlChart
+                  title={dispersionTitle}
+                  points={chart.dispersion}
+                  limits={chart.limits.dispersion}
+                  violations={dispersionViolations}
+                  visibleRange={[
+                    Math.max(0, visibleRange[0] - (chartType === 'i-mr' ? 1 : 0)),
+                    Math.min(chart.dispersion.length - 1, visibleRange[1] - (chartType === 'i-mr' ? 1 : 0))
+                  ]}
+                  onRangeChange={([start, end]) => {
+                    const offset = chartType === 'i-mr' ? 1 : 0;
+                    setVisibleRange([start + offset, end + offset]);
+                  }}
+                  unit={feature.unit}
+                  decimals={feature.decimal_places}
+                  height={180}
+                />
+              )}
+
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                  {t('ui.controlChart.zoomHint')}
+                </p>
+                <ChartOverview
+                  values={chart.limits.locationPoints}
+                  visibleRange={visibleRange}
+                  onRangeChange={setVisibleRange}
+                />
+              </div>
+
+              {/* Rule violations */}
+              <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+                <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                  {t('ui.controlChart.ruleViolations')}
+                </h4>
+                {ruleSummary.length === 0 && dispersionViolations.size === 0 ? (
+                  <p className="text-sm text-green-600 dark:text-green-400">{t('ui.controlChart.noViolations')}</p>
+                ) : (
+                  <ul className="space-y-1 text-sm text-red-600 dark:text-red-400">
+                    {ruleSummary.map(([rule, count]) => (
+                      <li key={rule}>{rule} ({t('ui.controlChart.pointCount', { count })})</li>
+                    ))}
+                    {dispersionViolations.size > 0 && (
+                      <li>{t('ui.controlChart.beyondLimits', { chart: dispersionTitle, count: dispersionViolations.size })}</li>
+                    )}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ControlChartModal;
@@ -0,0 +1,396 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  ArrowPathIcon,
+  ArrowsPointingOutIcon,
+  Bars3Icon,
+  CheckIcon,
+  Cog6ToothIcon,
+  MinusIcon,
+  PlusIcon,
+  TrashIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+import {
+  DndContext,
+  closestCenter,
+  KeyboardSensor,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  arrayMove,
+  SortableContext,
+  sortableKeyboardCoordinates,
+  rectSortingStrategy,
+  useSortable,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { useI18nStore } from '../../stores/useI18nStore';
+import { dashboardService, DashboardChartFeature, DashboardLayoutSource } from '../../services/dashboardService';
+import { permissionService } from '../../services/permissionService';
+import { logger } from '../../services/logger';
+import { DashboardWidget, DashboardWidgetConfig, DashboardWidgetType } from '../../types/spc';
+import { createWidget, resizeWidget, widgetDefinition, WIDGET_DEFINITIONS } from '../../utils/dashboardLayout';
+import { NOTIFICATION_ROLES } from '../../utils/notificationRules';
+import DashboardWidgetContent from './DashboardWidgets';
+
+interface DashboardGridProps {
+  userId: number;
+  role: string;
+  onNavigate: (module: string, id?: number) => void;
+}
+
+// Class names are spelled out so Tailwind keeps them
+const COLUMN_SPANS: Record<number, string> = { 1: 'lg:col-span-1', 2: 'lg:col-span-2', 3: 'lg:col-span-3', 4: 'lg:col-span-4' };
+const ROW_SPANS: Record<number, string> = { 1: 'lg:row-span-1', 2: 'lg:row-span-2', 3: 'lg:row-span-3' };
+
+const CHART_POINT_OPTIONS = [25, 50, 100, 200];
+const DAY_OPTIONS = [1, 7, 30, 90];
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: 'Administrators',
+  method: 'Method',
+  controle: 'Quality control',
+  prod: 'Production',
+};
+
+interface WidgetCardProps {
+  widget: DashboardWidget;
+  editing: boolean;
+  features: DashboardChartFeature[];
+  onChange: (widget: DashboardWidget) => void;
+  onRemove: () => void;
+  onNavigate: (module: string, id?: number) => void;
+}
+
+const WidgetCard: React.FC<WidgetCardProps> = ({ widget, editing, features, onChange, onRemove, onNavigate }) => {
+  const { t } = useI18nStore();
+  const [showSettings, setShowSettings] = useState(false);
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id: widget.id, disabled: !editing });
+
+  const style = {
+    transform: CSS.Transform.toString(transform),
+    transition,
+    opacity: isDragging ? 0.5 : 1,
+  };
+  const title = t(widgetDefinition(widget.type)?.titleKey ?? widget.type);
+  const configurable = widget.type === 'control-chart' || widget.type === 'cpk-heatmap' || widget.type === 'out-of-control';
+  const setConfig = (config: DashboardWidgetConfig) => onChange({ ...widget, config: { ...widget.config, ...config } });
+
+  const sizeControl = (dimension: 'width' | 'height', label: string) => (
+    <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400" title={label}>
+      <button onClick={() => onChange(resizeWidget(widget, dimension, -1))} className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+        <MinusIcon className="h-3 w-3" />
+      </button>
+      <span>{dimension === 'width' ? '↔' : '↕'} {widget[dimension]}</span>
+      <button onClick={() => onChange(resizeWidget(widget, dimension, 1))} className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700">
+        <PlusIcon className="h-3 w-3" />
+      </button>
+    </div>
+  );
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      className={`${COLUMN_SPANS[widget.width]} ${ROW_SPANS[widget.height]} flex flex-col bg-white dark:bg-gray-800 rounded-lg shadow-sm border ${
+        editing ? 'border-dashed border-blue-400 dark:border-blue-500' : 'border-gray-200 dark:border-gray-700'
+      } min-h-0`}
+    >
+      <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-2 min-w-0">
+          {editing && (
+            <button {...attributes} {...listeners} className="cursor-grab text-gray-400 hover:text-gray-600" title={t('dashboard.layout.drag')}>
+              <Bars3Icon className="h-4 w-4" />
+            </button>
+          )}
+          <h2 className="text-sm font-semibold text-gray-900 dark:text-white truncate">{title}</h2>
+        </div>
+        {editing && (
+          <div className="flex items-center gap-2 shrink-0">
+            {sizeControl('width', t('dashboard.layout.width'))}
+            {sizeControl('height', t('dashboard.layout.height'))}
+            {configurable && (
+              <button
+                onClick={() => setShowSettings(!showSettings)}
+                className={`p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${showSettings ? 'text-blue-600' : 'text-gray-500'}`}
+                title={t('dashboard.layout.settings')}
+              >
+                <Cog6ToothIcon className="h-4 w-4" />
+              </button>
+            )}
+            <button onClick={onRemove} className="p-1 rounded text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20" title={t('dashboard.layout.remove')}>
+              <TrashIcon className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {editing && showSettings && (
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-gray-50 dark:bg-gray-900/40 text-sm">
+          {widget.type === 'control-chart' && (
+            <>
+              <select
+                value={widget.config.featureId ?? ''}
+                onChange={(e) => setConfig({ featureId: e.target.value ? Number(e.target.value) : null })}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white max-w-xs"
+              >
+                <option value="">{t('dashboard.layout.feature')}</option>
+                {features.map(feature => (
+                  <option key={feature.id} value={feature.id}>
+                    {feature.product_name ? `${feature.product_name} – ` : ''}{feature.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={widget.config.points ?? 50}
+                onChange={(e) => setConfig({ points: Number(e.target.value) })}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                {CHART_POINT_OPTIONS.map(points => (
+                  <option key={points} value={points}>{t('dashboard.layout.points', { count: points })}</option>
+                ))}
+              </select>
+            </>
+          )}
+          {(widget.type === 'cpk-heatmap' || widget.type === 'out-of-control') && (
+            <select
+              value={widget.config.days ?? 30}
+              onChange={(e) => setConfig({ days: Number(e.target.value) })}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {DAY_OPTIONS.map(days => (
+                <option key={days} value={days}>{t('dashboard.layout.days', { count: days })}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+
+      <div className="flex-1 min-h-0 overflow-auto p-4">
+        <DashboardWidgetContent widget={widget} onNavigate={onNavigate} />
+      </div>
+    </div>
+  );
+};
+
+// The user's widget dashboard. Widgets are arranged on a four-column grid;
+// in edit mode they can be added, dragged, resized and configured, and the
+// layout is saved for the user or, by an administrator, as a role default.
+const DashboardGrid: React.FC<DashboardGridProps> = ({ userId, role, onNavigate }) => {
+  const { t } = useI18nStore();
+  const [widgets, setWidgets] = useState<DashboardWidget[]>([]);
+  const [source, setSource] = useState<DashboardLayoutSource>('built-in');
+  const [draft, setDraft] = useState<DashboardWidget[] | null>(null);
+  const [features, setFeatures] = useState<DashboardChartFeature[]>([]);
+  const [defaultRole, setDefaultRole] = useState(role);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const loadLayout = useCallback(async () => {
+    try {
+      setLoading(true);
+      const stored = await dashboardService.getLayout(userId, role);
+      // Widgets the user has no right to are kept out of view and out of edits
+      setWidgets(stored.layout.widgets.filter(widget => dashboardService.canUseWidget(widget.type)));
+      setSource(stored.source);
+    } catch (error) {
+      logger.error('database', 'Failed to load dashboard layout', { error, userId });
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, role]);
+
+  useEffect(() => {
+    loadLayout();
+  }, [loadLayout]);
+
+  const startEditing = async () => {
+    setDraft(widgets);
+    setDefaultRole(role);
+    try {
+      setFeatures(await dashboardService.listChartFeatures());
+    } catch (error) {
+      logger.error('database', 'Failed to load chart features', { error });
+    }
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+
+    if (draft && over && active.id !== over.id) {
+      const oldIndex = draft.findIndex(widget => widget.id === active.id);
+      const newIndex = draft.findIndex(widget => widget.id === over.id);
+      setDraft(arrayMove(draft, oldIndex, newIndex));
+    }
+  };
+
+  const addWidget = (type: DashboardWidgetType) => {
+    if (!draft) return;
+    setDraft([...draft, createWidget(type)]);
+  };
+
+  const saveLayout = async () => {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      await dashboardService.saveLayout(userId, { widgets: draft });
+      setWidgets(draft);
+      setSource('user');
+      setDraft(null);
+      toast.success(t('dashboard.layout.saved'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('dashboard.layout.saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveRoleDefault = async () => {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      if (await dashboardService.saveRoleDefault(defaultRole, { widgets: draft }, userId)) {
+        toast.success(t('dashboard.layout.roleSaved', { role: ROLE_LABELS[defaultRole] ?? defaultRole }));
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('dashboard.layout.saveError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetLayout = async () => {
+    try {
+      await dashboardService.resetLayout(userId);
+      setDraft(null);
+      await loadLayout();
+      toast.success(t('dashboard.layout.resetDone'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('dashboard.layout.saveError'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="animate-pulse grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {[...Array(4)].map((_, i) => (
+          <div key={i} className="h-40 bg-gray-200 dark:bg-gray-700 rounded lg:col-span-2"></div>
+        ))}
+      </div>
+    );
+  }
+
+  const shown = draft ?? widgets;
+  const addable = WIDGET_DEFINITIONS.filter(definition => dashboardService.canUseWidget(definition.type));
+
+  return (
+    <div className="space-y-4">
+      {/* Layout toolbar */}
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {draft ? (
+          <>
+            <select
+              value=""
+              onChange={(e) => e.target.value && addWidget(e.target.value as DashboardWidgetType)}
+              className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              <option value="">{t('dashboard.layout.addWidget')}</option>
+              {addable.map(definition => (
+                <option key={definition.type} value={definition.type}>{t(definition.titleKey)}</option>
+              ))}
+            </select>
+            {permissionService.can('database', 'admin') && (
+              <div className="flex items-center gap-1">
+                <select
+                  value={defaultRole}
+                  onChange={(e) => setDefaultRole(e.target.value)}
+                  className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                >
+                  {NOTIFICATION_ROLES.map(item => (
+                    <option key={item} value={item}>{ROLE_LABELS[item] ?? item}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={saveRoleDefault}
+                  disabled={saving}
+                  className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  {t('dashboard.layout.saveRoleDefault')}
+                </button>
+              </div>
+            )}
+            {source === 'user' && (
+              <button
+                onClick={resetLayout}
+                className="inline-flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                <ArrowPathIcon className="h-4 w-4" />
+                {t('dashboard.layout.reset')}
+              </button>
+            )}
+            <button
+              onClick={() => setDraft(null)}
+              className="inline-flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              <XMarkIcon className="h-4 w-4" />
+              {t('dashboard.layout.cancel')}
+            </button>
+            <button
+              onClick={saveLayout}
+              disabled={saving}
+              className="inline-flex items-center gap-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              <CheckIcon className="h-4 w-4" />
+              {t('dashboard.layout.save')}
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={startEditing}
+            className="inline-flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            <ArrowsPointingOutIcon className="h-4 w-4" />
+            {t('dashboard.layout.customize')}
+          </button>
+        )}
+      </div>
+
+      {shown.length === 0 ? (
+        <div className="text-center py-16 bg-white dark:bg-gray-800 rounded-lg border border-dashed border-gray-300 dark:border-gray-600">
+          <p className="text-gray-500 dark:text-gray-400">{t('dashboard.layout.empty')}</p>
+        </div>
+      ) : (
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+          <SortableContext items={shown.map(widget => widget.id)} strategy={rectSortingStrategy}>
+            <div className="grid grid-cols-1 lg:grid-cols-4 lg:auto-rows-[11rem] gap-6">
+              {shown.map(widget => (
+                <WidgetCard
+                  key={widget.id}
+                  widget={widget}
+                  editing={draft !== null}
+                  features={features}
+                  onChange={(changed) => draft && setDraft(draft.map(item => item.id === changed.id ? changed : item))}
+                  onRemove={() => draft && setDraft(draft.filter(item => item.id !== widget.id))}
+                  onNavigate={onNavigate}
+                />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+      )}
+    </div>
+  );
+};
+
+export default DashboardGrid;
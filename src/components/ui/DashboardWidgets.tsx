@@ -0,0 +1,385 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ChartBarIcon, CubeIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { useI18nStore } from '../../stores/useI18nStore';
+import { logger } from '../../services/logger';
+import { useWorkshopScope } from '../../hooks/useWorkshopScope';
+import {
+  dashboardService,
+  CpkHeatmapRow,
+  DashboardChartFeature,
+  DueInspection,
+  KeyFigures,
+  OutOfControlCounts,
+  RecentMeasurement,
+  WorkshopSummary
+} from '../../services/dashboardService';
+import { ncrService, NcrRow } from '../../services/ncrService';
+import { registrationService, UserValidationRequest } from '../../services/registrationService';
+import { DashboardWidget, DataPoint } from '../../types/spc';
+import { buildSubgroups, calculateChartLimits, evaluateControlRules } from '../../utils/statistics';
+import { getSpecificationLimits } from '../../utils/specifications';
+import { cpkColor } from '../../utils/dashboardLayout';
+import { InspectionState } from '../../utils/inspectionSchedule';
+import { ncrStatusLabel } from '../../utils/ncr';
+import ControlChart from './ControlChart';
+
+interface WidgetProps {
+  widget: DashboardWidget;
+  onNavigate: (module: string, id?: number) => void;
+}
+
+// Live widgets follow new measurements while the dashboard is open
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+// Plot height of the control chart per grid row
+const CHART_HEIGHT_PER_ROW = 150;
+
+const STATE_STYLES: Record<InspectionState, string> = {
+  overdue: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  due: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  ok: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+};
+
+// Loads a widget's data on mount and whenever `load` (memoized by the
+// widget) or the workshop scope changes, optionally refreshing it on a timer
+function useWidgetData<T>(load: () => Promise<T>, initial: T, refresh = false): T {
+  const [data, setData] = useState<T>(initial);
+  const { scope } = useWorkshopScope();
+
+  useEffect(() => {
+    let active = true;
+    const run = async () => {
+      try {
+        const result = await load();
+        if (active) setData(result);
+      } catch (error) {
+        logger.error('database', 'Failed to load dashboard widget', { error });
+      }
+    };
+    run();
+    const timer = refresh ? setInterval(run, REFRESH_INTERVAL_MS) : undefined;
+    return () => {
+      active = false;
+      if (timer) clearInterval(timer);
+    };
+  }, [load, refresh, scope]);
+
+  return data;
+}
+
+const Empty = ({ text }: { text: string }) => (
+  <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">{text}</p>
+);
+
+const KeyFiguresWidget = () => {
+  const { t } = useI18nStore();
+  const load = useCallback(() => dashboardService.getKeyFigures(), []);
+  const figures = useWidgetData<KeyFigures | null>(load, null);
+  const items = [
+    { label: t('dashboard.totalWorkshops'), value: figures?.workshops, color: 'text-blue-600' },
+    { label: t('dashboard.totalProducts'), value: figures?.products, color: 'text-green-600' },
+    { label: t('dashboard.totalMeasurements'), value: figures?.measurements, color: 'text-purple-600' },
+    { label: t('dashboard.qualityFeatures'), value: figures?.features, color: 'text-orange-600' },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 h-full">
+      {items.map(item => (
+        <div key={item.label} className="bg-gray-50 dark:bg-gray-700 rounded-lg p-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">{item.label}</p>
+          <p className={`text-2xl font-bold ${item.color}`}>{item.value ?? '–'}</p>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const WorkshopsWidget = ({ onNavigate }: WidgetProps) => {
+  const load = useCallback(() => dashboardService.listWorkshops(), []);
+  const workshops = useWidgetData<WorkshopSummary[]>(load, []);
+  if (workshops.length === 0) return <Empty text="No workshops assigned to you" />;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {workshops.map(workshop => (
+        <button
+          key={workshop.id}
+          onClick={() => onNavigate('sections')}
+          className="bg-gray-50 dark:bg-gray-700 p-3 rounded-lg text-left hover:bg-gray-100 dark:hover:bg-gray-600 transition-colors"
+        >
+          <h3 className="font-medium text-gray-900 dark:text-white">{workshop.name}</h3>
+          {workshop.description && <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 truncate">{workshop.description}</p>}
+          <div className="mt-2 flex justify-between text-xs text-gray-500 dark:text-gray-400">
+            <span>{workshop.workstation_count} workstations</span>
+            <span>{workshop.product_count} products</span>
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const RecentMeasurementsWidget = () => {
+  const load = useCallback(() => dashboardService.listRecentMeasurements(10), []);
+  const measurements = useWidgetData<RecentMeasurement[]>(load, [], true);
+  if (measurements.length === 0) return <Empty text="No measurements available" />;
+
+  return (
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 dark:text-gray-400 uppercase">
+          <th className="py-1 pr-2">Product</th>
+          <th className="py-1 pr-2">Feature</th>
+          <th className="py-1 pr-2 text-right">Value</th>
+          <th className="py-1 pr-2">Operator</th>
+          <th className="py-1">Date</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+        {measurements.map(measurement => (
+          <tr key={measurement.id} className="text-gray-700 dark:text-gray-300">
+            <td className="py-1 pr-2">{measurement.product_name}</td>
+            <td className="py-1 pr-2">{measurement.feature_name}</td>
+            <td className="py-1 pr-2 text-right font-mono">{measurement.measured_value}</td>
+            <td className="py-1 pr-2">{measurement.operator}</td>
+            <td className="py-1 text-xs text-gray-500 dark:text-gray-400">{new Date(measurement.timestamp).toLocaleString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+// Individuals chart of the feature's latest values
+const ControlChartWidget = ({ widget }: WidgetProps) => {
+  const { featureId, points = 50 } = widget.config;
+  const load = useCallback(
+    () => featureId ? dashboardService.getChartData(featureId, points) : Promise.resolve(null),
+    [featureId, points]
+  );
+  const data = useWidgetData<{ feature: DashboardChartFeature; values: DataPoint[] } | null>(load, null, true);
+  const [visibleRange, setVisibleRange] = useState<[number, number]>([0, 0]);
+
+  const chart = useMemo(() => {
+    if (!data || data.values.length < 2) return null;
+    const limits = calculateChartLimits(buildSubgroups(data.values, 1), 'i-mr').location;
+    const violations = new Map<number, string[]>();
+    evaluateControlRules(data.values.map(point => point.value), limits).forEach(result => {
+      result.points.forEach(index => violations.set(index, [...(violations.get(index) || []), result.rule]));
+    });
+    return { limits, violations };
+  }, [data]);
+
+  useEffect(() => {
+    setVisibleRange([0, Math.max(0, (data?.values.length ?? 1) - 1)]);
+  }, [data]);
+
+  if (!featureId) return <Empty text="Choose a feature in the widget settings" />;
+  if (!data || !chart) return <Empty text="Not enough measurements to chart" />;
+
+  const specifications = getSpecificationLimits(data.feature);
+  return (
+    <ControlChart
+      title={`${data.feature.product_name ? `${data.feature.product_name} – ` : ''}${data.feature.name}`}
+      points={data.values.map((point, index) => ({
+        value: point.value,
+        timestamp: point.timestamp,
+        label: (index + 1).toString(),
+        operator: point.operator,
+        notes: point.notes,
+      }))}
+      limits={chart.limits}
+      specLimits={{ usl: specifications.usl, lsl: specifications.lsl, target: specifications.target }}
+      violations={chart.violations}
+      visibleRange={visibleRange}
+      onRangeChange={setVisibleRange}
+      unit={data.feature.unit}
+      decimals={data.feature.decimal_places}
+      height={widget.height * CHART_HEIGHT_PER_ROW}
+    />
+  );
+};
+
+const CpkHeatmapWidget = ({ widget }: WidgetProps) => {
+  const days = widget.config.days ?? 30;
+  const load = useCallback(() => dashboardService.getCpkHeatmap(days), [days]);
+  const rows = useWidgetData<CpkHeatmapRow[]>(load, []);
+  if (rows.length === 0) return <Empty text={`No measurements at a workstation in the last ${days} days`} />;
+
+  return (
+    <div className="space-y-2">
+      {rows.map(row => (
+        <div key={row.workstation_id} className="flex items-start gap-2">
+          <div className="w-28 shrink-0 text-sm font-medium text-gray-700 dark:text-gray-300 truncate pt-1" title={row.workstation_name}>
+            {row.workstation_name}
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {row.cells.map(cell => (
+              <div
+                key={cell.feature_id}
+                className={`px-2 py-1 rounded text-xs font-mono ${cpkColor(cell.value)}`}
+                title={cell.value === null
+                  ? `${cell.feature_name}: not enough data`
+                  : `${cell.feature_name}: ${cell.index} ${cell.value.toFixed(2)} over ${cell.subgroups} subgroups`}
+              >
+                <span className="font-sans mr-1">{cell.feature_name}</span>
+                {cell.value === null ? '–' : cell.value.toFixed(2)}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const OutOfControlWidget = ({ widget, onNavigate }: WidgetProps) => {
+  const days = widget.config.days ?? 1;
+  const load = useCallback(() => dashboardService.getOutOfControlCounts(days), [days]);
+  const counts = useWidgetData<OutOfControlCounts | null>(load, null, true);
+  const total = counts ? counts.specification + counts.control : 0;
+
+  return (
+    <button onClick={() => onNavigate('reaction-plans')} className="w-full h-full text-left">
+      <p className={`text-4xl font-bold ${total > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+        {counts ? total : '–'}
+      </p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        {days === 1 ? 'in the last 24 hours' : `in the last ${days} days`}
+      </p>
+      {counts && total > 0 && (
+        <p className="text-xs text-gray-600 dark:text-gray-300 mt-2">
+          {counts.specification} out of tolerance, {counts.control} out of control limits, {counts.open} awaiting reaction
+        </p>
+      )}
+    </button>
+  );
+};
+
+const OverdueInspectionsWidget = ({ onNavigate }: WidgetProps) => {
+  const load = useCallback(() => dashboardService.listDueInspections(), []);
+  const items = useWidgetData<DueInspection[]>(load, [], true);
+  if (items.length === 0) return <Empty text="No inspection due" />;
+
+  return (
+    <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+      {items.map(item => (
+        <li key={`${item.frequencyId}-${item.workstationName}`} className="py-2 flex items-center justify-between gap-2">
+          <button onClick={() => onNavigate('inspection-plans')} className="text-left min-w-0">
+            <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+              {item.productName ? `${item.productName} – ` : ''}{item.featureName}
+            </div>
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {item.workstationName}
+              {item.dueAt && ` · due ${item.dueAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+            </div>
+          </button>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${STATE_STYLES[item.state]}`}>
+            {item.state === 'overdue' ? 'Overdue' : 'Due'}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const RecentNcrsWidget = ({ onNavigate }: WidgetProps) => {
+  const load = useCallback(async () => (await ncrService.listNcrs('active')).slice(0, 10), []);
+  const ncrs = useWidgetData<NcrRow[]>(load, []);
+  if (ncrs.length === 0) return <Empty text="No open nonconformance report" />;
+
+  return (
+    <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+      {ncrs.map(ncr => (
+        <li key={ncr.id}>
+          <button onClick={() => onNavigate('ncr', ncr.id)} className="w-full py-2 flex items-center justify-between gap-2 text-left">
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{ncr.ncr_number} · {ncr.title}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {[ncr.product_name, ncr.feature_name, ncr.assignee_name].filter(Boolean).join(' · ')}
+              </div>
+            </div>
+            <span className="px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300 shrink-0">
+              {ncrStatusLabel(ncr.status)}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const PendingValidationsWidget = ({ onNavigate }: WidgetProps) => {
+  const load = useCallback(() => registrationService.getPendingValidationRequests(), []);
+  const requests = useWidgetData<UserValidationRequest[]>(load, []);
+
+  return (
+    <button onClick={() => onNavigate('user-validation')} className="w-full text-left">
+      <p className={`text-3xl font-bold ${requests.length > 0 ? 'text-yellow-600 dark:text-yellow-400' : 'text-gray-400'}`}>{requests.length}</p>
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">accounts waiting for validation</p>
+      <ul className="mt-2 space-y-1">
+        {requests.slice(0, 5).map(request => (
+          <li key={request.id} className="text-sm text-gray-700 dark:text-gray-300">
+            {request.username} <span className="text-xs text-gray-500 dark:text-gray-400">({request.requested_role})</span>
+          </li>
+        ))}
+      </ul>
+    </button>
+  );
+};
+
+const QuickActionsWidget = ({ onNavigate }: WidgetProps) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+    <button
+      onClick={() => onNavigate('measurements')}
+      className="bg-blue-600 hover:bg-blue-700 text-white p-3 rounded-lg text-left transition-colors flex items-center"
+    >
+      <PlusIcon className="h-6 w-6 mr-3" />
+      <div>
+        <h3 className="font-medium">Add Measurement</h3>
+        <p className="text-sm opacity-90">Record new quality measurements</p>
+      </div>
+    </button>
+    <button
+      onClick={() => onNavigate('production-dashboard')}
+      className="bg-green-600 hover:bg-green-700 text-white p-3 rounded-lg text-left transition-colors flex items-center"
+    >
+      <ChartBarIcon className="h-6 w-6 mr-3" />
+      <div>
+        <h3 className="font-medium">Production Dashboard</h3>
+        <p className="text-sm opacity-90">Favorite features and inspection queue</p>
+      </div>
+    </button>
+    <button
+      onClick={() => onNavigate('products')}
+      className="bg-gray-600 hover:bg-gray-700 text-white p-3 rounded-lg text-left transition-colors flex items-center md:col-span-2"
+    >
+      <CubeIcon className="h-6 w-6 mr-3" />
+      <div>
+        <h3 className="font-medium">View Products</h3>
+        <p className="text-sm opacity-90">Browse available products</p>
+      </div>
+    </button>
+  </div>
+);
+
+const WIDGET_COMPONENTS: Record<DashboardWidget['type'], React.FC<WidgetProps>> = {
+  'key-figures': KeyFiguresWidget,
+  workshops: WorkshopsWidget,
+  'recent-measurements': RecentMeasurementsWidget,
+  'control-chart': ControlChartWidget,
+  'cpk-heatmap': CpkHeatmapWidget,
+  'out-of-control': OutOfControlWidget,
+  'overdue-inspections': OverdueInspectionsWidget,
+  'recent-ncrs': RecentNcrsWidget,
+  'pending-validations': PendingValidationsWidget,
+  'quick-actions': QuickActionsWidget,
+};
+
+// Body of a dashboard widget; each one loads its own data
+const DashboardWidgetContent: React.FC<WidgetProps> = (props) => {
+  const Widget = WIDGET_COMPONENTS[props.widget.type];
+  return <Widget {...props} />;
+};
+
+export default DashboardWidgetContent;
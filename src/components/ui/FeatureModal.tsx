@@ -1,33 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import { XMarkIcon, PhotoIcon } from '@heroicons/react/24/outline';
+import { CharacteristicType, FeatureSpecification } from '../../types/spc';
+import { normalizeSpecification, validateSpecification } from '../../utils/specifications';
+import SpecificationFields from './SpecificationFields';
 
-interface Feature {
+interface Feature extends FeatureSpecification {
   id: number;
   name: string;
   description?: string;
   product_id: number;
   route_id?: number;
-  specification_type?: string;
-  target_value?: number;
-  tolerance_plus?: number;
-  tolerance_minus?: number;
-  unit?: string;
+  characteristic_type?: CharacteristicType;
   image_filename?: string;
   created_at: string;
   updated_at: string;
 }
 
-interface FeatureFormData {
+interface FeatureFormData extends FeatureSpecification {
   name: string;
   description?: string;
   product_id: number;
   route_id?: number;
-  specification_type?: string;
-  target_value?: number;
-  tolerance_plus?: number;
-  tolerance_minus?: number;
-  unit?: string;
+  characteristic_type?: CharacteristicType;
   image_filename?: string;
 }
 
@@ -52,11 +47,8 @@ const FeatureModal: React.FC<FeatureModalProps> = ({
     name: '',
     description: '',
     product_id: productId,
-    specification_type: 'nominal',
-    target_value: 0,
-    tolerance_plus: 0,
-    tolerance_minus: 0,
-    unit: '',
+    ...normalizeSpecification({ target_value: 0, tolerance_plus: 0, tolerance_minus: 0 }),
+    characteristic_type: 'variable',
     image_filename: ''
   });
   const [imageFile, setImageFile] = useState<File | null>(null);
@@ -68,6 +60,7 @@ const FeatureModal: React.FC<FeatureModalProps> = ({
       if (feature) {
         setFormData({
           ...feature,
+          ...normalizeSpecification(feature),
           product_id: productId
         });
         // Load existing image if available
@@ -81,11 +74,8 @@ const FeatureModal: React.FC<FeatureModalProps> = ({
           name: '',
           description: '',
           product_id: productId,
-          specification_type: 'nominal',
-          target_value: 0,
-          tolerance_plus: 0,
-          tolerance_minus: 0,
-          unit: '',
+          ...normalizeSpecification({ target_value: 0, tolerance_plus: 0, tolerance_minus: 0 }),
+          characteristic_type: 'variable',
           image_filename: ''
         });
         setImagePreview('');
@@ -125,6 +115,12 @@ const FeatureModal: React.FC<FeatureModalProps> = ({
         return;
       }
 
+      const specificationError = validateSpecification(formData);
+      if (specificationError) {
+        toast.error(specificationError);
+        return;
+      }
+
       let imageFilename = formData.image_filename;
 
       // Handle image upload
@@ -144,10 +140,8 @@ const FeatureModal: React.FC<FeatureModalProps> = ({
 
       const featureData = {
         ...formData,
-        image_filename: imageFilename,
-        target_value: formData.target_value || 0,
-        tolerance_plus: formData.tolerance_plus || 0,
-        tolerance_minus: formData.tolerance_minus || 0
+        ...normalizeSpecification(formData),
+        image_filename: imageFilename
       };
 
       onSave(featureData);
@@ -164,8 +158,7 @@ const FeatureModal: React.FC<FeatureModalProps> = ({
     const { name, value } = e.target;
     setFormData(prev => ({
       ...prev,
-      [name]: name.includes('value') || name.includes('tolerance') ? 
-        (value === '' ? 0 : parseFloat(value)) : value
+      [name]: value
     }));
   };
 
@@ -213,18 +206,17 @@ const FeatureModal: React.FC<FeatureModalProps> = ({
 
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Specification Type
+                Inspection Method
               </label>
               <select
-                name="specification_type"
-                value={formData.specification_type}
+                name="characteristic_type"
+                value={formData.characteristic_type || 'variable'}
                 onChange={handleInputChange}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
               >
-                <option value="nominal">Nominal</option>
-                <option value="minimum">Minimum</option>
-                <option value="maximum">Maximum</option>
-                <option value="range">Range</option>
+                <option value="variable">Measured value (variable)</option>
+                <option value="defectives">Go/no-go (defective parts)</option>
+                <option value="defects">Defect count (nonconformities)</option>
               </select>
             </div>
           </div>
@@ -244,65 +236,12 @@ const FeatureModal: React.FC<FeatureModalProps> = ({
           </div>
 
           {/* Specifications */}
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Target Value
-              </label>
-              <input
-                type="number"
-                name="target_value"
-                value={formData.target_value}
-                onChange={handleInputChange}
-                step="0.001"
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
-                placeholder="0.000"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Tolerance (+)
-              </label>
-              <input
-                type="number"
-                name="tolerance_plus"
-                value={formData.tolerance_plus}
-                onChange={handleInputChange}
-                step="0.001"
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
-                placeholder="0.000"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Tolerance (-)
-              </label>
-              <input
-                type="number"
-                name="tolerance_minus"
-                value={formData.tolerance_minus}
-                onChange={handleInputChange}
-                step="0.001"
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
-                placeholder="0.000"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Unit
-              </label>
-              <input
-                type="text"
-                name="unit"
-                value={formData.unit}
-                onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
-                placeholder="mm, kg, etc."
-              />
-            </div>
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Specification</h3>
+            <SpecificationFields
+              value={formData}
+              onChange={(specification) => setFormData(prev => ({ ...prev, ...specification }))}
+            />
           </div>
 
           {/* Image Upload */}
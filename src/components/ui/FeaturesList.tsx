@@ -1,35 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import { db } from '../../services/database';
-import { PencilIcon, TrashIcon, PlusIcon, EyeIcon, Squares2X2Icon, ListBulletIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { permissionService } from '../../services/permissionService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { CharacteristicType, FeatureSpecification } from '../../types/spc';
+import { formatSpecification } from '../../utils/specifications';
+import { PencilIcon, TrashIcon, PlusIcon, EyeIcon, Squares2X2Icon, ListBulletIcon, MagnifyingGlassIcon, ChartBarIcon } from '@heroicons/react/24/outline';
 import FeatureModal from './FeatureModal';
+import ControlChartModal from './ControlChartModal';
 
-interface Feature {
+interface Feature extends FeatureSpecification {
   id: number;
   name: string;
   description?: string;
   product_id: number;
   route_id?: number;
-  specification_type?: string;
-  target_value?: number;
-  tolerance_plus?: number;
-  tolerance_minus?: number;
-  unit?: string;
+  characteristic_type?: CharacteristicType;
   image_filename?: string;
   created_at: string;
   updated_at: string;
 }
 
-interface FeatureFormData {
+interface FeatureFormData extends FeatureSpecification {
   name: string;
   description?: string;
   product_id: number;
   route_id?: number;
-  specification_type?: string;
-  target_value?: number;
-  tolerance_plus?: number;
-  tolerance_minus?: number;
-  unit?: string;
+  characteristic_type?: CharacteristicType;
   image_filename?: string;
 }
 
@@ -46,10 +43,13 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
   productName,
   onFeaturesChange
 }) => {
+  const { can } = usePermissions();
+  const canEdit = can('features', 'write');
   const [features, setFeatures] = useState<Feature[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingFeature, setEditingFeature] = useState<Feature | null>(null);
+  const [chartFeature, setChartFeature] = useState<Feature | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('cards');
   const [searchTerm, setSearchTerm] = useState('');
 
@@ -84,6 +84,7 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
   };
 
   const handleSaveFeature = async (featureData: FeatureFormData) => {
+    if (!permissionService.ensure('features')) return;
     try {
       if (editingFeature) {
         // Update existing feature
@@ -91,7 +92,7 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
           `UPDATE features SET 
            name = ?, description = ?, specification_type = ?, 
            target_value = ?, tolerance_plus = ?, tolerance_minus = ?, 
-           unit = ?, image_filename = ?, updated_at = CURRENT_TIMESTAMP 
+           specification_min = ?, specification_max = ?, unit = ?, decimal_places = ?, characteristic_class = ?, characteristic_type = ?, image_filename = ?, updated_at = CURRENT_TIMESTAMP 
            WHERE id = ?`,
           [
             featureData.name,
@@ -100,7 +101,12 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
             featureData.target_value,
             featureData.tolerance_plus,
             featureData.tolerance_minus,
+            featureData.specification_min,
+            featureData.specification_max,
             featureData.unit,
+            featureData.decimal_places,
+            featureData.characteristic_class,
+            featureData.characteristic_type || 'variable',
             featureData.image_filename,
             editingFeature.id
           ]
@@ -111,8 +117,9 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
         await db.execute(
           `INSERT INTO features 
            (name, description, product_id, specification_type, target_value, 
-            tolerance_plus, tolerance_minus, unit, image_filename) 
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            tolerance_plus, tolerance_minus, specification_min, specification_max, unit, 
+            decimal_places, characteristic_class, characteristic_type, image_filename) 
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           [
             featureData.name,
             featureData.description,
@@ -121,7 +128,12 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
             featureData.target_value,
             featureData.tolerance_plus,
             featureData.tolerance_minus,
+            featureData.specification_min,
+            featureData.specification_max,
             featureData.unit,
+            featureData.decimal_places,
+            featureData.characteristic_class,
+            featureData.characteristic_type || 'variable',
             featureData.image_filename
           ]
         );
@@ -137,6 +149,7 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
   };
 
   const handleDeleteFeature = async (featureId: number) => {
+    if (!permissionService.ensure('features')) return;
     if (!confirm('Are you sure you want to delete this feature?')) {
       return;
     }
@@ -182,14 +195,16 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
         <h3 className="text-lg font-medium text-gray-900 dark:text-white">
           Features ({filteredFeatures.length}{searchTerm ? ` of ${features.length}` : ''})
         </h3>
-        <button
-          type="button"
-          onClick={handleAddFeature}
-          className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-        >
-          <PlusIcon className="h-4 w-4 mr-2" />
-          Add Feature
-        </button>
+        {canEdit && (
+          <button
+            type="button"
+            onClick={handleAddFeature}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+          >
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add Feature
+          </button>
+        )}
       </div>
 
       {/* Controls */}
@@ -285,39 +300,44 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
                 <div className="flex items-center space-x-1 ml-2">
                   <button
                     type="button"
-                    onClick={() => handleEditFeature(feature)}
+                    onClick={() => setChartFeature(feature)}
                     className="p-1 text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
-                    title="Edit feature"
+                    title="View control chart"
                   >
-                    <PencilIcon className="h-3 w-3" />
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => handleDeleteFeature(feature.id)}
-                    className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
-                    title="Delete feature"
-                  >
-                    <TrashIcon className="h-3 w-3" />
+                    <ChartBarIcon className="h-3 w-3" />
                   </button>
+                  {canEdit && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleEditFeature(feature)}
+                        className="p-1 text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                        title="Edit feature"
+                      >
+                        <PencilIcon className="h-3 w-3" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteFeature(feature.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        title="Delete feature"
+                      >
+                        <TrashIcon className="h-3 w-3" />
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
-              <div className="space-y-1 text-xs text-gray-500 dark:text-gray-400">
-                {feature.target_value !== undefined && (
-                  <div>
-                    Target: {feature.target_value}
-                    {feature.unit && ` ${feature.unit}`}
-                  </div>
-                )}
-                {(feature.tolerance_plus || feature.tolerance_minus) && (
-                  <div>
-                    Tolerance: {feature.tolerance_minus || 0} / +{feature.tolerance_plus || 0}
-                    {feature.unit && ` ${feature.unit}`}
-                  </div>
-                )}
-                {feature.specification_type && (
-                  <div className="capitalize">
-                    Type: {feature.specification_type}
-                  </div>
+              <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                <span>Specification: {formatSpecification(feature)}</span>
+                {feature.characteristic_class && feature.characteristic_class !== 'minor' && (
+                  <span className={`inline-block px-2 py-1 rounded text-xs font-medium capitalize ${
+                    feature.characteristic_class === 'critical'
+                      ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
+                      : 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
+                  }`}>
+                    {feature.characteristic_class}
+                  </span>
                 )}
               </div>
             </div>
@@ -356,21 +376,14 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
                         </p>
                       )}
                       <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500 dark:text-gray-400">
-                        {feature.target_value !== undefined && (
-                          <span>
-                            Target: {feature.target_value}
-                            {feature.unit && ` ${feature.unit}`}
-                          </span>
-                        )}
-                        {(feature.tolerance_plus || feature.tolerance_minus) && (
-                          <span>
-                            Tolerance: {feature.tolerance_minus || 0} / +{feature.tolerance_plus || 0}
-                            {feature.unit && ` ${feature.unit}`}
-                          </span>
-                        )}
-                        {feature.specification_type && (
-                          <span className="capitalize">
-                            Type: {feature.specification_type}
+                        <span>Specification: {formatSpecification(feature)}</span>
+                        {feature.characteristic_class && feature.characteristic_class !== 'minor' && (
+                          <span className={`inline-block px-2 py-1 rounded text-xs font-medium capitalize ${
+                            feature.characteristic_class === 'critical'
+                              ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
+                              : 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
+                          }`}>
+                            {feature.characteristic_class}
                           </span>
                         )}
                       </div>
@@ -380,20 +393,32 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
                 <div className="flex items-center space-x-2 ml-4">
                   <button
                     type="button"
-                    onClick={() => handleEditFeature(feature)}
+                    onClick={() => setChartFeature(feature)}
                     className="p-2 text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
-                    title="Edit feature"
-                  >
-                    <PencilIcon className="h-4 w-4" />
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => handleDeleteFeature(feature.id)}
-                    className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
-                    title="Delete feature"
+                    title="View control chart"
                   >
-                    <TrashIcon className="h-4 w-4" />
+                    <ChartBarIcon className="h-4 w-4" />
                   </button>
+                  {canEdit && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleEditFeature(feature)}
+                        className="p-2 text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                        title="Edit feature"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteFeature(feature.id)}
+                        className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        title="Delete feature"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
@@ -410,6 +435,13 @@ const FeaturesList: React.FC<FeaturesListProps> = ({
         productId={productId}
         productName={productName}
       />
+
+      {/* Control Chart */}
+      <ControlChartModal
+        isOpen={chartFeature !== null}
+        onClose={() => setChartFeature(null)}
+        feature={chartFeature}
+      />
     </div>
   );
 };
@@ -0,0 +1,263 @@
+import React from 'react';
+import { GageRRResult } from '../../types/spc';
+import { GageChartData } from '../../utils/gageRR';
+
+interface GageRRChartsProps {
+  result: GageRRResult;
+  charts: GageChartData;
+  operatorLabels: string[];
+  decimals?: number;
+}
+
+const WIDTH = 480;
+const HEIGHT = 240;
+const MARGIN = { top: 28, right: 16, bottom: 32, left: 52 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+// One colour per operator, for the interaction and by-operator plots
+const OPERATOR_CLASSES = ['stroke-blue-500 fill-blue-500', 'stroke-red-500 fill-red-500', 'stroke-green-600 fill-green-600', 'stroke-amber-500 fill-amber-500', 'stroke-purple-500 fill-purple-500'];
+
+const formatValue = (value: number, decimals: number): string =>
+  Number.isFinite(value) ? value.toFixed(decimals) : '-';
+
+// Y scale with a little headroom over the given values
+const yScale = (values: number[]) => {
+  const finite = values.filter(Number.isFinite);
+  const low = Math.min(...finite);
+  const high = Math.max(...finite);
+  const padding = (high - low || Math.abs(high) || 1) * 0.08;
+  const yMin = low - padding;
+  const yMax = high + padding;
+  return {
+    ticks: Array.from({ length: 5 }, (_, i) => yMin + ((yMax - yMin) * i) / 4),
+    y: (value: number) => MARGIN.top + (1 - (value - yMin) / (yMax - yMin)) * PLOT_HEIGHT,
+  };
+};
+
+const Frame: React.FC<{ title: string; ticks: number[]; y: (value: number) => number; decimals: number; children: React.ReactNode }> = ({
+  title,
+  ticks,
+  y,
+  decimals,
+  children
+}) => (
+  <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 p-2">
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full select-none text-gray-400">
+      <text x={MARGIN.left} y={16} fontSize={12} fontWeight={600} className="fill-current text-gray-700 dark:text-gray-200">{title}</text>
+      <rect x={MARGIN.left} y={MARGIN.top} width={PLOT_WIDTH} height={PLOT_HEIGHT} fill="none" className="stroke-gray-300 dark:stroke-gray-600" />
+      {ticks.map(tick => (
+        <text key={tick} x={MARGIN.left - 6} y={y(tick) + 4} textAnchor="end" fontSize={10} className="fill-current text-gray-500">
+          {formatValue(tick, decimals)}
+        </text>
+      ))}
+      {children}
+    </svg>
+  </div>
+);
+
+const limitLine = (value: number, y: (value: number) => number, label: string, className: string, decimals: number) => (
+  <g key={label}>
+    <line x1={MARGIN.left} x2={MARGIN.left + PLOT_WIDTH} y1={y(value)} y2={y(value)} className={className} strokeDasharray={label === 'CL' ? undefined : '6 4'} />
+    <text x={MARGIN.left + PLOT_WIDTH - 2} y={y(value) - 3} textAnchor="end" fontSize={9} className="fill-current text-gray-500">
+      {label} {formatValue(value, decimals)}
+    </text>
+  </g>
+);
+
+// X̄ or R chart: one segment of parts per operator, as in the AIAG layout
+const OperatorControlChart: React.FC<{
+  title: string;
+  series: number[][];
+  limits: { lcl: number; center: number; ucl: number };
+  operatorLabels: string[];
+  decimals: number;
+}> = ({ title, series, limits, operatorLabels, decimals }) => {
+  const points = series.flat();
+  const { ticks, y } = yScale([...points, limits.lcl, limits.ucl]);
+  const step = PLOT_WIDTH / points.length;
+  const x = (index: number) => MARGIN.left + step * (index + 0.5);
+  let offset = 0;
+
+  return (
+    <Frame title={title} ticks={ticks} y={y} decimals={decimals}>
+      {limitLine(limits.ucl, y, 'UCL', 'stroke-red-400', decimals)}
+      {limitLine(limits.center, y, 'CL', 'stroke-gray-400', decimals)}
+      {limitLine(limits.lcl, y, 'LCL', 'stroke-red-400', decimals)}
+      {series.map((values, operator) => {
+        const start = offset;
+        offset += values.length;
+        const path = values.map((value, i) => `${i === 0 ? 'M' : 'L'}${x(start + i)},${y(value)}`).join(' ');
+        return (
+          <g key={operator}>
+            {operator > 0 && (
+              <line x1={x(start) - step / 2} x2={x(start) - step / 2} y1={MARGIN.top} y2={MARGIN.top + PLOT_HEIGHT} className="stroke-gray-300 dark:stroke-gray-600" />
+            )}
+            <path d={path} fill="none" className="stroke-blue-500" strokeWidth={1.5} />
+            {values.map((value, i) => (
+              <circle
+                key={i}
+                cx={x(start + i)}
+                cy={y(value)}
+                r={3}
+                className={value > limits.ucl || value < limits.lcl ? 'fill-red-500' : 'fill-blue-500'}
+              >
+                <title>{`${operatorLabels[operator]}, part ${i + 1}: ${formatValue(value, decimals)}`}</title>
+              </circle>
+            ))}
+            <text x={x(start + (values.length - 1) / 2)} y={HEIGHT - 10} textAnchor="middle" fontSize={10} className="fill-current text-gray-500">
+              {operatorLabels[operator]}
+            </text>
+          </g>
+        );
+      })}
+    </Frame>
+  );
+};
+
+// Individual readings per group with the group means joined
+const GroupedReadingsChart: React.FC<{
+  title: string;
+  groups: number[][];
+  labels: string[];
+  decimals: number;
+}> = ({ title, groups, labels, decimals }) => {
+  const { ticks, y } = yScale(groups.flat());
+  const step = PLOT_WIDTH / groups.length;
+  const x = (index: number) => MARGIN.left + step * (index + 0.5);
+  const means = groups.map(values => values.reduce((sum, value) => sum + value, 0) / values.length);
+
+  return (
+    <Frame title={title} ticks={ticks} y={y} decimals={decimals}>
+      {groups.map((values, index) => (
+        <g key={index}>
+          {values.map((value, i) => (
+            <circle key={i} cx={x(index)} cy={y(value)} r={2.5} className="fill-gray-400 dark:fill-gray-500" />
+          ))}
+          <text x={x(index)} y={HEIGHT - 10} textAnchor="middle" fontSize={10} className="fill-current text-gray-500">{labels[index]}</text>
+        </g>
+      ))}
+      <path d={means.map((value, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(value)}`).join(' ')} fill="none" className="stroke-blue-500" strokeWidth={1.5} />
+      {means.map((value, i) => (
+        <circle key={i} cx={x(i)} cy={y(value)} r={3.5} className="fill-blue-500">
+          <title>{`${labels[i]}: mean ${formatValue(value, decimals)}`}</title>
+        </circle>
+      ))}
+    </Frame>
+  );
+};
+
+// Operator × part interaction: each operator's part averages as one line
+const InteractionChart: React.FC<{ cellMeans: number[][]; operatorLabels: string[]; decimals: number }> = ({
+  cellMeans,
+  operatorLabels,
+  decimals
+}) => {
+  const { ticks, y } = yScale(cellMeans.flat());
+  const parts = cellMeans[0]?.length ?? 0;
+  const step = PLOT_WIDTH / parts;
+  const x = (index: number) => MARGIN.left + step * (index + 0.5);
+
+  return (
+    <Frame title="Operator × part interaction" ticks={ticks} y={y} decimals={decimals}>
+      {Array.from({ length: parts }, (_, i) => (
+        <text key={i} x={x(i)} y={HEIGHT - 10} textAnchor="middle" fontSize={10} className="fill-current text-gray-500">{i + 1}</text>
+      ))}
+      {cellMeans.map((means, operator) => {
+        const className = OPERATOR_CLASSES[operator % OPERATOR_CLASSES.length];
+        return (
+          <g key={operator} className={className}>
+            <path d={means.map((value, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(value)}`).join(' ')} fill="none" strokeWidth={1.5} />
+            {means.map((value, i) => <circle key={i} cx={x(i)} cy={y(value)} r={3} />)}
+            <text x={MARGIN.left + 8 + operator * 28} y={MARGIN.top + 12} fontSize={10} stroke="none">{operatorLabels[operator]}</text>
+          </g>
+        );
+      })}
+    </Frame>
+  );
+};
+
+const COMPONENT_LABELS: Record<string, string> = {
+  grr: 'Gage R&R',
+  repeatability: 'Repeat',
+  reproducibility: 'Reprod',
+  part: 'Part-to-part',
+};
+
+// Components of variation: %Contribution, %Study variation and %Tolerance
+const ComponentsChart: React.FC<{ result: GageRRResult }> = ({ result }) => {
+  const components = result.components.filter(component => COMPONENT_LABELS[component.source]);
+  const series = [
+    { key: 'percentContribution' as const, label: '% Contribution', className: 'fill-blue-500' },
+    { key: 'percentStudyVariation' as const, label: '% Study var', className: 'fill-amber-500' },
+    ...(result.percentTolerance !== null ? [{ key: 'percentTolerance' as const, label: '% Tolerance', className: 'fill-green-600' }] : []),
+  ];
+  const values = components.flatMap(component => series.map(({ key }) => component[key] ?? 0));
+  const yMax = Math.max(100, ...values) * 1.05;
+  const y = (value: number) => MARGIN.top + (1 - value / yMax) * PLOT_HEIGHT;
+  const ticks = Array.from({ length: 5 }, (_, i) => (yMax * i) / 4);
+  const groupWidth = PLOT_WIDTH / components.length;
+  const barWidth = (groupWidth * 0.7) / series.length;
+
+  return (
+    <Frame title="Components of variation" ticks={ticks} y={y} decimals={0}>
+      {[10, 30].map(level => (
+        <line key={level} x1={MARGIN.left} x2={MARGIN.left + PLOT_WIDTH} y1={y(level)} y2={y(level)} className="stroke-gray-300 dark:stroke-gray-600" strokeDasharray="3 3" />
+      ))}
+      {components.map((component, index) => {
+        const groupX = MARGIN.left + index * groupWidth + groupWidth * 0.15;
+        return (
+          <g key={component.source}>
+            {series.map(({ key, label, className }, s) => {
+              const value = component[key] ?? 0;
+              return (
+                <rect key={key} x={groupX + s * barWidth} y={y(value)} width={barWidth - 2} height={MARGIN.top + PLOT_HEIGHT - y(value)} className={className}>
+                  <title>{`${COMPONENT_LABELS[component.source]} ${label}: ${value.toFixed(1)} %`}</title>
+                </rect>
+              );
+            })}
+            <text x={MARGIN.left + (index + 0.5) * groupWidth} y={HEIGHT - 10} textAnchor="middle" fontSize={10} className="fill-current text-gray-500">
+              {COMPONENT_LABELS[component.source]}
+            </text>
+          </g>
+        );
+      })}
+      {series.map(({ label, className }, s) => (
+        <g key={label}>
+          <rect x={WIDTH - MARGIN.right - 90} y={MARGIN.top + 6 + s * 14} width={8} height={8} className={className} />
+          <text x={WIDTH - MARGIN.right - 78} y={MARGIN.top + 14 + s * 14} fontSize={9} className="fill-current text-gray-600 dark:text-gray-300">{label}</text>
+        </g>
+      ))}
+    </Frame>
+  );
+};
+
+// The standard six-panel Gage R&R report
+const GageRRCharts: React.FC<GageRRChartsProps> = ({ result, charts, operatorLabels, decimals = 3 }) => {
+  const partLabels = charts.partMeans.map((_, i) => String(i + 1));
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <ComponentsChart result={result} />
+      <OperatorControlChart
+        title="R chart by operator"
+        series={charts.cellRanges}
+        limits={charts.rangeLimits}
+        operatorLabels={operatorLabels}
+        decimals={decimals}
+      />
+      <OperatorControlChart
+        title="X̄ chart by operator"
+        series={charts.cellMeans}
+        limits={charts.xbarLimits}
+        operatorLabels={operatorLabels}
+        decimals={decimals}
+      />
+      <GroupedReadingsChart title="Readings by part" groups={charts.byPart} labels={partLabels} decimals={decimals} />
+      <GroupedReadingsChart title="Readings by operator" groups={charts.byOperator} labels={operatorLabels} decimals={decimals} />
+      <InteractionChart cellMeans={charts.cellMeans} operatorLabels={operatorLabels} decimals={decimals} />
+    </div>
+  );
+};
+
+export default GageRRCharts;
@@ -0,0 +1,95 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { ScaleIcon } from '@heroicons/react/24/outline';
+import { PendingGageReading, gageStudyService } from '../../services/gageStudyService';
+
+interface GageReadingEntryProps {
+  operatorId: number;
+  onRecorded?: () => void;
+  className?: string;
+}
+
+// Prompts an operator for the next reading of each Gage R&R study waiting on
+// them. Only part number and trial are shown, so the run order stays blind.
+const GageReadingEntry: React.FC<GageReadingEntryProps> = ({ operatorId, onRecorded, className = '' }) => {
+  const [pending, setPending] = useState<PendingGageReading[]>([]);
+  const [values, setValues] = useState<Record<number, string>>({});
+  const [saving, setSaving] = useState<number | null>(null);
+
+  const loadPending = useCallback(async () => {
+    try {
+      setPending(await gageStudyService.getPendingReadings(operatorId));
+    } catch (error) {
+      console.error('Error loading pending Gage R&R readings:', error);
+    }
+  }, [operatorId]);
+
+  useEffect(() => {
+    loadPending();
+  }, [loadPending]);
+
+  const handleSave = async (reading: PendingGageReading) => {
+    const value = Number(values[reading.studyId]);
+    if (values[reading.studyId] === undefined || values[reading.studyId].trim() === '' || !Number.isFinite(value)) {
+      toast.error('Enter a numeric reading');
+      return;
+    }
+
+    try {
+      setSaving(reading.studyId);
+      if (!(await gageStudyService.recordReading(reading.readingId, value, operatorId))) return;
+      setValues(prev => ({ ...prev, [reading.studyId]: '' }));
+      toast.success(reading.remaining > 1 ? `Reading saved, ${reading.remaining - 1} to go` : 'Study readings complete');
+      await loadPending();
+      onRecorded?.();
+    } catch (error) {
+      console.error('Error saving Gage R&R reading:', error);
+      toast.error('Failed to save reading');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className={`${className} bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-lg p-4 space-y-3`}>
+      <div className="flex items-center space-x-2 text-indigo-800 dark:text-indigo-200">
+        <ScaleIcon className="h-5 w-5" />
+        <h3 className="font-medium">Gage R&R readings waiting for you</h3>
+      </div>
+      {pending.map(reading => (
+        <form
+          key={reading.studyId}
+          className="flex flex-wrap items-center gap-3"
+          onSubmit={event => {
+            event.preventDefault();
+            handleSave(reading);
+          }}
+        >
+          <div className="flex-1 min-w-[14rem] text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-medium">{reading.studyName}</span>
+            {' · '}{reading.featureName} with {reading.gauge}
+            <div className="text-gray-900 dark:text-gray-100">
+              Measure <span className="font-semibold">part {reading.partNumber}</span>, trial {reading.trial}
+              <span className="text-gray-500"> ({reading.remaining} left)</span>
+            </div>
+          </div>
+          <input
+            type="number"
+            step={reading.decimalPlaces !== undefined ? Math.pow(10, -reading.decimalPlaces) : 'any'}
+            className="input w-36"
+            value={values[reading.studyId] ?? ''}
+            onChange={event => setValues(prev => ({ ...prev, [reading.studyId]: event.target.value }))}
+            placeholder={reading.unit || 'Value'}
+          />
+          <button type="submit" className="btn btn-primary" disabled={saving === reading.studyId}>
+            Save
+          </button>
+        </form>
+      ))}
+    </div>
+  );
+};
+
+export default GageReadingEntry;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { QrCodeIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useI18nStore } from '../../stores/useI18nStore';
+import { gaugeService } from '../../services/gaugeService';
+import { Gauge } from '../../types/spc';
+import { getCalibrationState, getGaugeBlockReason } from '../../utils/calibration';
+
+interface GaugePickerProps {
+  gauges: Gauge[]; // Active gauges of the operator's workshops
+  value: Gauge | null;
+  onChange: (gauge: Gauge | null) => void;
+  warningDays: number;
+}
+
+// Gauge selection for measurement entry: pick from the list or scan the
+// barcode into the field (scanners type the ID followed by Enter)
+const GaugePicker: React.FC<GaugePickerProps> = ({ gauges, value, onChange, warningDays }) => {
+  const { t } = useI18nStore();
+  const [scan, setScan] = useState('');
+
+  // Overdue or inactive gauges are refused rather than selected
+  const select = (gauge: Gauge | null) => {
+    if (!gauge) {
+      onChange(null);
+      return;
+    }
+    const reason = getGaugeBlockReason(gauge);
+    if (reason === 'overdue') {
+      toast.error(t('production.measurements.gaugeOverdue', { code: gauge.code, date: gauge.calibration_due_date ?? '' }));
+      return;
+    }
+    if (reason === 'inactive') {
+      toast.error(t('production.measurements.gaugeInactive', { code: gauge.code }));
+      return;
+    }
+    onChange(gauge);
+  };
+
+  const handleScan = async () => {
+    const code = scan.trim();
+    if (!code) return;
+    setScan('');
+
+    const gauge = gauges.find(candidate => candidate.code.toLowerCase() === code.toLowerCase())
+      ?? await gaugeService.findByCode(code);
+    if (!gauge) {
+      toast.error(t('production.measurements.gaugeNotFound', { code }));
+      return;
+    }
+    select(gauge);
+  };
+
+  const state = value ? getCalibrationState(value, warningDays) : null;
+
+  return (
+    <div>
+      <label className="label block mb-2">{t('production.measurements.gauge')}</label>
+      <div className="flex space-x-2">
+        <div className="relative flex-1">
+          <QrCodeIcon className="h-5 w-5 absolute left-3 top-2.5 text-gray-400" />
+          <input
+            type="text"
+            value={scan}
+            onChange={(e) => setScan(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                handleScan();
+              }
+            }}
+            onBlur={handleScan}
+            className="input w-full pl-10"
+            placeholder={t('production.measurements.gaugeScanPlaceholder')}
+          />
+        </div>
+        <select
+          value={value?.id ?? ''}
+          onChange={(e) => select(gauges.find(gauge => gauge.id === Number(e.target.value)) ?? null)}
+          className="input flex-1"
+        >
+          <option value="">{t('production.measurements.selectGauge')}</option>
+          {gauges.map(gauge => (
+            <option key={gauge.id} value={gauge.id} disabled={getGaugeBlockReason(gauge) !== null}>
+              {gauge.code} - {gauge.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      {value && (
+        <div className="mt-2 flex items-center justify-between text-sm">
+          <span className="text-gray-700 dark:text-gray-300">
+            <span className="font-mono font-medium">{value.code}</span> {value.name}
+            {value.calibration_due_date && (
+              <span className={state === 'due-soon' ? 'text-yellow-600 dark:text-yellow-400' : 'text-gray-500 dark:text-gray-400'}>
+                {' · '}{t('production.measurements.gaugeCalibrationDue', { date: value.calibration_due_date })}
+              </span>
+            )}
+          </span>
+          <button type="button" onClick={() => onChange(null)} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GaugePicker;
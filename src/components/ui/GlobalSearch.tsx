@@ -3,6 +3,7 @@ import { toast } from 'react-hot-toast';
 import { useI18nStore } from '../../stores/useI18nStore';
 // import { useUserStore } from '../../stores/useUserStore';
 import { db } from '../../services/database';
+import { workshopScopeService } from '../../services/workshopScopeService';
 import { 
   MagnifyingGlassIcon, 
   XMarkIcon,
@@ -13,6 +14,7 @@ import {
   ClipboardDocumentListIcon,
   ArrowRightIcon
 } from '@heroicons/react/24/outline';
+import { formatSpecification } from '../../utils/specifications';
 
 interface SearchResult {
   id: number;
@@ -111,6 +113,10 @@ const GlobalSearch = ({ onNavigate }: GlobalSearchProps) => {
     try {
       // Database is initialized globally in App.tsx
       const allResults: SearchResult[] = [];
+      // Only search the user's workshops
+      const familyScope = workshopScopeService.familyCondition('f.id');
+      const productScope = workshopScopeService.condition('p.workshop_id');
+      const routeScope = workshopScopeService.condition('COALESCE(g.workshop_id, p.workshop_id)');
 
       // Search Families
       const families = await db.queryAll(`
@@ -118,10 +124,10 @@ const GlobalSearch = ({ onNavigate }: GlobalSearchProps) => {
                COUNT(p.id) as product_count
         FROM families f 
         LEFT JOIN products p ON f.id = p.family_id 
-        WHERE f.name LIKE ? OR f.description LIKE ?
+        WHERE (f.name LIKE ? OR f.description LIKE ?) AND ${familyScope.sql}
         GROUP BY f.id
         ORDER BY f.name
-      `, [`%${searchQuery}%`, `%${searchQuery}%`]);
+      `, [`%${searchQuery}%`, `%${searchQuery}%`, ...familyScope.params]);
 
       families.forEach((family: any) => {
         allResults.push({
@@ -140,9 +146,9 @@ const GlobalSearch = ({ onNavigate }: GlobalSearchProps) => {
         SELECT p.*, f.name as family_name
         FROM products p 
         LEFT JOIN families f ON p.family_id = f.id
-        WHERE p.name LIKE ? OR p.description LIKE ? OR f.name LIKE ?
+        WHERE (p.name LIKE ? OR p.description LIKE ? OR f.name LIKE ?) AND ${productScope.sql}
         ORDER BY p.name
-      `, [`%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`]);
+      `, [`%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`, ...productScope.params]);
 
       products.forEach((product: any) => {
         allResults.push({
@@ -162,9 +168,9 @@ const GlobalSearch = ({ onNavigate }: GlobalSearchProps) => {
         FROM gammas g 
         LEFT JOIN products p ON g.product_id = p.id 
         LEFT JOIN families f ON p.family_id = f.id
-        WHERE g.name LIKE ? OR g.operation_name LIKE ? OR g.workstation LIKE ? OR p.name LIKE ?
+        WHERE (g.name LIKE ? OR g.operation_name LIKE ? OR g.workstation LIKE ? OR p.name LIKE ?) AND ${routeScope.sql}
         ORDER BY g.sequence_number, g.name
-      `, [`%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`]);
+      `, [`%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`, ...routeScope.params]);
 
       routes.forEach((route: any) => {
         allResults.push({
@@ -184,17 +190,17 @@ const GlobalSearch = ({ onNavigate }: GlobalSearchProps) => {
         FROM features f 
         LEFT JOIN products p ON f.product_id = p.id 
         LEFT JOIN families fam ON p.family_id = fam.id
-        WHERE f.name LIKE ? OR f.description LIKE ? OR p.name LIKE ?
+        WHERE (f.name LIKE ? OR f.description LIKE ? OR p.name LIKE ?) AND ${productScope.sql}
         ORDER BY f.name
-      `, [`%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`]);
+      `, [`%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`, ...productScope.params]);
 
       features.forEach((feature: any) => {
         allResults.push({
           id: feature.id,
           type: 'feature',
           title: feature.name,
-          subtitle: `${feature.product_name} - ${feature.specification_type}`,
-          description: `Target: ${feature.target_value} ±${feature.tolerance_plus}/${feature.tolerance_minus} ${feature.unit || ''}`,
+          subtitle: `${feature.product_name} - ${feature.characteristic_class || 'minor'}`,
+          description: `Specification: ${formatSpecification(feature)}`,
           module: 'features',
           icon: ChartBarIcon
         });
@@ -208,10 +214,10 @@ const GlobalSearch = ({ onNavigate }: GlobalSearchProps) => {
         LEFT JOIN products p ON f.product_id = p.id
         LEFT JOIN gammas g ON m.gamma_id = g.id
         LEFT JOIN users u ON m.operator_id = u.id
-        WHERE f.name LIKE ? OR p.name LIKE ? OR g.name LIKE ? OR u.username LIKE ?
+        WHERE (f.name LIKE ? OR p.name LIKE ? OR g.name LIKE ? OR u.username LIKE ?) AND ${productScope.sql}
         ORDER BY m.timestamp DESC
         LIMIT 20
-      `, [`%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`]);
+      `, [`%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`, `%${searchQuery}%`, ...productScope.params]);
 
       measurements.forEach((measurement: any) => {
         allResults.push({
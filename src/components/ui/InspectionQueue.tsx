@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import { toast } from 'react-hot-toast';
+import {
+  ClipboardDocumentCheckIcon,
+  PlusIcon,
+  SunIcon,
+  WrenchScrewdriverIcon
+} from '@heroicons/react/24/outline';
+import { useI18nStore } from '../../stores/useI18nStore';
+import { inspectionScheduleService, InspectionQueueItem } from '../../services/inspectionScheduleService';
+import { logger } from '../../services/logger';
+import { ProductionEventType } from '../../types/spc';
+import { InspectionState } from '../../utils/inspectionSchedule';
+
+interface InspectionQueueProps {
+  workstationId: number;
+  operatorId: number | null;
+}
+
+// The queue follows the clock, so it is refreshed while it is on screen
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const STATE_STYLES: Record<InspectionState, string> = {
+  overdue: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  due: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  ok: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+};
+
+// Live due / overdue list for the operator's workstation, with the
+// production events that drive part-count, tool-change and shift triggers
+const InspectionQueue: React.FC<InspectionQueueProps> = ({ workstationId, operatorId }) => {
+  const { t } = useI18nStore();
+  const [items, setItems] = useState<InspectionQueueItem[]>([]);
+  const [partsProduced, setPartsProduced] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadQueue = async (id: number) => {
+    try {
+      setItems(await inspectionScheduleService.getQueue(id));
+    } catch (error) {
+      logger.error('database', 'Failed to load inspection queue', { error, workstationId: id });
+    }
+  };
+
+  useEffect(() => {
+    loadQueue(workstationId);
+    const timer = setInterval(() => loadQueue(workstationId), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [workstationId]);
+
+  const recordEvent = async (eventType: ProductionEventType, quantity: number | null = null) => {
+    try {
+      setSaving(true);
+      if (await inspectionScheduleService.recordProductionEvent(workstationId, eventType, quantity, operatorId)) {
+        toast.success(t('production.inspection.eventRecorded'));
+        setPartsProduced('');
+        await loadQueue(workstationId);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : t('production.inspection.eventError'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const describeTrigger = (item: InspectionQueueItem) => {
+    const { trigger_type, interval_value } = item.frequency;
+    return t(`production.inspection.trigger.${trigger_type}`, { value: interval_value ?? '' });
+  };
+
+  const describeStatus = (item: InspectionQueueItem) => {
+    const { state, dueAt, partsRemaining } = item.status;
+    if (state !== 'ok' && dueAt) {
+      return t('production.inspection.dueSince', { time: dueAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) });
+    }
+    if (partsRemaining !== undefined) return t('production.inspection.partsRemaining', { count: partsRemaining });
+    if (dueAt) return t('production.inspection.nextAt', { time: dueAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) });
+    return t('production.inspection.waiting');
+  };
+
+  const overdue = items.filter(item => item.status.state === 'overdue').length;
+  const due = items.filter(item => item.status.state === 'due').length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <ClipboardDocumentCheckIcon className="h-5 w-5 mr-2 text-blue-600" />
+          {t('production.inspection.title')}
+          {items.length > 0 && (
+            <span className="ml-3 text-sm font-normal text-gray-500 dark:text-gray-400">
+              {t('production.inspection.summary', { overdue, due })}
+            </span>
+          )}
+        </h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="number"
+            min="1"
+            value={partsProduced}
+            onChange={(e) => setPartsProduced(e.target.value)}
+            className="input w-28"
+            placeholder={t('production.inspection.partsProduced')}
+          />
+          <button
+            onClick={() => recordEvent('parts', partsProduced === '' ? null : Number(partsProduced))}
+            disabled={saving || partsProduced === ''}
+            className="btn btn-secondary flex items-center"
+          >
+            <PlusIcon className="h-4 w-4 mr-1" />
+            {t('production.inspection.addParts')}
+          </button>
+          <button onClick={() => recordEvent('tool-change')} disabled={saving} className="btn btn-secondary flex items-center">
+            <WrenchScrewdriverIcon className="h-4 w-4 mr-1" />
+            {t('production.inspection.toolChange')}
+          </button>
+          <button onClick={() => recordEvent('shift-start')} disabled={saving} className="btn btn-secondary flex items-center">
+            <SunIcon className="h-4 w-4 mr-1" />
+            {t('production.inspection.shiftStart')}
+          </button>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('production.inspection.empty')}</p>
+      ) : (
+        <div className="space-y-2">
+          {items.map(item => (
+            <div
+              key={item.frequency.id}
+              className="flex flex-wrap items-center justify-between gap-2 p-3 bg-gray-50 dark:bg-gray-700 rounded-lg"
+            >
+              <div>
+                <div className="text-sm font-medium text-gray-900 dark:text-white">
+                  {item.frequency.product_name ? `${item.frequency.product_name} - ` : ''}{item.frequency.feature_name}
+                </div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  {item.frequency.operation_name ? `${item.frequency.operation_name} | ` : ''}
+                  {describeTrigger(item)} | {t('production.inspection.sample', { count: item.frequency.sample_size })}
+                </div>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-xs text-gray-600 dark:text-gray-300">{describeStatus(item)}</span>
+                <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATE_STYLES[item.status.state]}`}>
+                  {t(`production.inspection.state.${item.status.state}`)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InspectionQueue;
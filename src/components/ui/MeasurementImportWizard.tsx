@@ -0,0 +1,434 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { useUserStore } from '../../stores/useUserStore';
+import { readSpreadsheet } from '../../utils/spreadsheet';
+import {
+  measurementImportService,
+  IMPORT_FIELDS,
+  ColumnMapping,
+  DateOrder,
+  ImportField,
+  ImportRow,
+  ImportResult
+} from '../../services/measurementImportService';
+import {
+  XMarkIcon,
+  ArrowUpTrayIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  XCircleIcon,
+  ArrowDownTrayIcon
+} from '@heroicons/react/24/outline';
+
+interface MeasurementImportWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+  filePath?: string | null; // File picked from the Electron Import Data menu
+  onImported?: () => void;
+}
+
+type WizardStep = 'file' | 'mapping' | 'preview' | 'result';
+
+// Rows rendered in the preview table; every row is still validated and imported
+const PREVIEW_LIMIT = 200;
+
+const MeasurementImportWizard: React.FC<MeasurementImportWizardProps> = ({
+  isOpen,
+  onClose,
+  filePath,
+  onImported
+}) => {
+  const { currentUser } = useUserStore();
+  const [step, setStep] = useState<WizardStep>('file');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [dateOrder, setDateOrder] = useState<DateOrder>('dmy');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [validatedRows, setValidatedRows] = useState<ImportRow[]>([]);
+  const [showProblemsOnly, setShowProblemsOnly] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const reset = () => {
+    setStep('file');
+    setFileName('');
+    setRows([]);
+    setMapping({});
+    setValidatedRows([]);
+    setShowProblemsOnly(false);
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const loadRows = useCallback(async (name: string, data: Uint8Array) => {
+    setLoading(true);
+    try {
+      const parsedRows = await readSpreadsheet(name, data);
+      if (parsedRows.length === 0) {
+        toast.error('The file contains no rows');
+        return;
+      }
+      setFileName(name);
+      setRows(parsedRows);
+      setMapping(measurementImportService.guessMapping(parsedRows[0]));
+      setStep('mapping');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadElectronFile = useCallback(async (path: string) => {
+    const response = await window.electronAPI.readImportFile(path);
+    if (!response.success || !response.data) {
+      toast.error(response.error || 'Failed to read the file');
+      return;
+    }
+    await loadRows(response.fileName || path, response.data);
+  }, [loadRows]);
+
+  useEffect(() => {
+    if (isOpen && filePath && window.electronAPI) {
+      loadElectronFile(filePath);
+    }
+  }, [isOpen, filePath, loadElectronFile]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    await loadRows(file.name, new Uint8Array(await file.arrayBuffer()));
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = parseInt(value, 10);
+      }
+      return next;
+    });
+  };
+
+  const handleValidate = async () => {
+    const missing = IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined);
+    if (missing.length > 0) {
+      toast.error(`Map a column to: ${missing.map(({ label }) => label).join(', ')}`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      setValidatedRows(await measurementImportService.validateRows(rows, mapping, { hasHeader, dateOrder }));
+      setStep('preview');
+    } catch (error) {
+      console.error('Error validating import rows:', error);
+      toast.error('Failed to validate the rows');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+    try {
+      const importResult = await measurementImportService.importRows(validatedRows, currentUser?.id ?? null);
+      setResult(importResult);
+      setStep('result');
+      if (importResult.error) {
+        toast.error(`Import failed: ${importResult.error}`);
+      } else {
+        toast.success(`Imported ${importResult.imported} measurements`);
+        onImported?.();
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownloadReport = () => {
+    if (!result) return;
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const lines = [
+      'row,errors',
+      ...result.skipped.map(({ rowNumber, errors }) => `${rowNumber},${escape(errors.join('; '))}`)
+    ];
+    const blob = new Blob([lines.join('\n')], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `import-errors-${fileName.replace(/\.[^.]+$/, '')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!isOpen) return null;
+
+  const headers = rows[0] || [];
+  const columnCount = Math.max(0, ...rows.slice(0, 50).map(row => row.length));
+  const columnLabel = (index: number) => hasHeader && headers[index] ? headers[index] : `Column ${index + 1}`;
+  const errorCount = validatedRows.filter(row => row.errors.length > 0).length;
+  const warningCount = validatedRows.filter(row => row.errors.length === 0 && row.warnings.length > 0).length;
+  const validCount = validatedRows.length - errorCount;
+  const displayedRows = validatedRows
+    .filter(row => !showProblemsOnly || row.errors.length > 0 || row.warnings.length > 0)
+    .slice(0, PREVIEW_LIMIT);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-5xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center">
+            <ArrowUpTrayIcon className="h-6 w-6 text-blue-600 mr-3" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Import Measurements</h3>
+              {fileName && <p className="text-sm text-gray-500 dark:text-gray-400">{fileName} • {rows.length} rows</p>}
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={loading}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-50"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {step === 'file' && (
+            <div className="text-center py-8">
+              {loading ? (
+                <p className="text-gray-600 dark:text-gray-400">Reading file...</p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                    Select a CSV export (CMM, data logger) or an Excel .xlsx sheet with one measured value per row.
+                  </p>
+                  <input
+                    type="file"
+                    accept=".csv,.txt,.xlsx"
+                    onChange={handleFileChange}
+                    className="block mx-auto text-sm text-gray-700 dark:text-gray-300"
+                  />
+                </>
+              )}
+            </div>
+          )}
+
+          {step === 'mapping' && (
+            <div className="space-y-6">
+              <div className="flex flex-wrap gap-6">
+                <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={hasHeader}
+                    onChange={(e) => setHasHeader(e.target.checked)}
+                    className="mr-2"
+                  />
+                  First row contains column names
+                </label>
+                <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                  Dates written as
+                  <select
+                    value={dateOrder}
+                    onChange={(e) => setDateOrder(e.target.value as DateOrder)}
+                    className="ml-2 input"
+                  >
+                    <option value="dmy">Day/Month/Year</option>
+                    <option value="mdy">Month/Day/Year</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      {label}{required && ' *'}
+                    </label>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                      className="input w-full"
+                    >
+                      <option value="">{required ? 'Select a column' : 'Not imported'}</option>
+                      {Array.from({ length: columnCount }, (_, index) => (
+                        <option key={index} value={index}>{columnLabel(index)}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Without a timestamp column the import time is used; without an operator column the values are recorded under your user.
+              </p>
+
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="min-w-full text-xs">
+                  <tbody>
+                    {rows.slice(0, 6).map((row, rowIndex) => (
+                      <tr
+                        key={rowIndex}
+                        className={rowIndex === 0 && hasHeader ? 'bg-gray-100 dark:bg-gray-700 font-semibold' : 'border-t border-gray-200 dark:border-gray-700'}
+                      >
+                        {Array.from({ length: columnCount }, (_, index) => (
+                          <td key={index} className="px-3 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">{row[index] ?? ''}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span className="flex items-center text-green-700 dark:text-green-400">
+                  <CheckCircleIcon className="h-5 w-5 mr-1" />
+                  {validCount} to import
+                </span>
+                <span className="flex items-center text-amber-600 dark:text-amber-400">
+                  <ExclamationTriangleIcon className="h-5 w-5 mr-1" />
+                  {warningCount} with warnings
+                </span>
+                <span className="flex items-center text-red-600 dark:text-red-400">
+                  <XCircleIcon className="h-5 w-5 mr-1" />
+                  {errorCount} skipped
+                </span>
+                <label className="flex items-center ml-auto text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={showProblemsOnly}
+                    onChange={(e) => setShowProblemsOnly(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Show only rows with issues
+                </label>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="min-w-full text-xs">
+                  <thead className="bg-gray-50 dark:bg-gray-700">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-gray-600 dark:text-gray-300">Row</th>
+                      <th className="px-3 py-2 text-left text-gray-600 dark:text-gray-300">Product</th>
+                      <th className="px-3 py-2 text-left text-gray-600 dark:text-gray-300">Feature</th>
+                      <th className="px-3 py-2 text-left text-gray-600 dark:text-gray-300">Serial</th>
+                      <th className="px-3 py-2 text-right text-gray-600 dark:text-gray-300">Value</th>
+                      <th className="px-3 py-2 text-left text-gray-600 dark:text-gray-300">Timestamp (UTC)</th>
+                      <th className="px-3 py-2 text-left text-gray-600 dark:text-gray-300">Issues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {displayedRows.map(row => (
+                      <tr
+                        key={row.rowNumber}
+                        className={`border-t border-gray-200 dark:border-gray-700 ${
+                          row.errors.length > 0 ? 'bg-red-50 dark:bg-red-900/20' : row.warnings.length > 0 ? 'bg-amber-50 dark:bg-amber-900/20' : ''
+                        }`}
+                      >
+                        <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{row.rowNumber}</td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-white">{row.productName ?? ''}</td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-white">{row.featureName ?? ''}</td>
+                        <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{row.serialNumber ?? ''}</td>
+                        <td className="px-3 py-2 text-right font-mono text-gray-900 dark:text-white">{row.value ?? ''}</td>
+                        <td className="px-3 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">{row.timestamp ?? ''}</td>
+                        <td className="px-3 py-2">
+                          {row.errors.map(message => (
+                            <div key={message} className="text-red-600 dark:text-red-400">{message}</div>
+                          ))}
+                          {row.warnings.map(message => (
+                            <div key={message} className="text-amber-600 dark:text-amber-400">{message}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {validatedRows.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">Showing the first {PREVIEW_LIMIT} rows.</p>
+              )}
+            </div>
+          )}
+
+          {step === 'result' && result && (
+            <div className="space-y-4">
+              {result.error ? (
+                <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-800 dark:text-red-200">
+                  Nothing was imported: {result.error}
+                </div>
+              ) : (
+                <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-sm text-green-800 dark:text-green-200">
+                  Imported {result.imported} measurements in {result.samples} samples.
+                </div>
+              )}
+
+              {result.skipped.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+                      {result.skipped.length} rows skipped
+                    </h4>
+                    <button onClick={handleDownloadReport} className="btn btn-secondary flex items-center text-sm">
+                      <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+                      Download error report
+                    </button>
+                  </div>
+                  <ul className="text-xs space-y-1 max-h-64 overflow-y-auto">
+                    {result.skipped.map(({ rowNumber, errors }) => (
+                      <li key={rowNumber} className="text-red-600 dark:text-red-400">
+                        Row {rowNumber}: {errors.join('; ')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-between p-6 border-t border-gray-200 dark:border-gray-700">
+          <div>
+            {(step === 'mapping' || step === 'preview') && (
+              <button
+                onClick={() => setStep(step === 'preview' ? 'mapping' : 'file')}
+                disabled={loading}
+                className="btn btn-secondary"
+              >
+                Back
+              </button>
+            )}
+          </div>
+          <div className="flex space-x-3">
+            {step === 'mapping' && (
+              <button onClick={handleValidate} disabled={loading} className="btn btn-primary">
+                {loading ? 'Validating...' : 'Validate rows'}
+              </button>
+            )}
+            {step === 'preview' && (
+              <button onClick={handleImport} disabled={loading || validCount === 0} className="btn btn-primary">
+                {loading ? 'Importing...' : `Import ${validCount} rows`}
+              </button>
+            )}
+            {step === 'result' && (
+              <button onClick={handleClose} className="btn btn-primary">Close</button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MeasurementImportWizard;
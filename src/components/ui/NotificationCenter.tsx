@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { registrationService } from '../../services/registrationService';
+import { notificationRuleService } from '../../services/notificationRuleService';
 import { useUserStore } from '../../stores/useUserStore';
 import { useI18nStore } from '../../stores/useI18nStore';
 import toast from 'react-hot-toast';
@@ -12,8 +13,17 @@ interface Notification {
   user_id?: number;
   read_at?: string;
   created_at: string;
+  severity?: string | null;
+  event_id?: number | null;
+  event_status?: string | null;
 }
 
+const SEVERITY_BADGES: Record<string, string> = {
+  info: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  critical: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+};
+
 interface NotificationCenterProps {
   isOpen: boolean;
   onClose: () => void;
@@ -61,6 +71,24 @@ const NotificationCenter = ({ isOpen, onClose }: NotificationCenterProps) => {
     }
   };
 
+  // Acknowledging a quality alert stops its escalation for every recipient
+  const acknowledge = async (eventId: number) => {
+    try {
+      await notificationRuleService.acknowledge(eventId, currentUser?.id ?? null);
+      setNotifications(prev =>
+        prev.map(notif =>
+          notif.event_id === eventId
+            ? { ...notif, event_status: 'acknowledged', read_at: notif.read_at || new Date().toISOString() }
+            : notif
+        )
+      );
+      toast.success(t('ui.notifications.acknowledged'));
+    } catch (error) {
+      console.error('Error acknowledging alert:', error);
+      toast.error(t('ui.notifications.acknowledgeError'));
+    }
+  };
+
   const markAllAsRead = async () => {
     try {
       const unreadNotifications = notifications.filter(n => !n.read_at);
@@ -77,7 +105,7 @@ const NotificationCenter = ({ isOpen, onClose }: NotificationCenterProps) => {
     }
   };
 
-  const getNotificationIcon = (type: string) => {
+  const getNotificationIcon = (type: string, severity?: string | null) => {
     switch (type) {
       case 'registration_request':
         return (
@@ -97,6 +125,31 @@ const NotificationCenter = ({ isOpen, onClose }: NotificationCenterProps) => {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2m7-2a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
         );
+      case 'calibration_due':
+      case 'calibration_overdue':
+        return (
+          <svg className={`h-5 w-5 ${type === 'calibration_overdue' ? 'text-red-500' : 'text-yellow-500'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        );
+      case 'quality_alert':
+        return (
+          <svg className={`h-5 w-5 ${severity === 'critical' ? 'text-red-500' : severity === 'info' ? 'text-blue-500' : 'text-yellow-500'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+          </svg>
+        );
+      case 'nonconformance':
+        return (
+          <svg className="h-5 w-5 text-red-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+          </svg>
+        );
+      case 'ncr':
+        return (
+          <svg className="h-5 w-5 text-orange-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+          </svg>
+        );
       default:
         return (
           <svg className="h-5 w-5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -113,7 +166,13 @@ const NotificationCenter = ({ isOpen, onClose }: NotificationCenterProps) => {
       case 'registration_approved':
         return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
       case 'registration_rejected':
+      case 'calibration_overdue':
+      case 'nonconformance':
         return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
+      case 'ncr':
+        return 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200';
+      case 'calibration_due':
+        return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200';
     }
@@ -183,7 +242,7 @@ const NotificationCenter = ({ isOpen, onClose }: NotificationCenterProps) => {
               >
                 <div className="flex items-start space-x-3">
                   <div className="flex-shrink-0">
-                    {getNotificationIcon(notification.type)}
+                    {getNotificationIcon(notification.type, notification.severity)}
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center justify-between">
@@ -195,9 +254,15 @@ const NotificationCenter = ({ isOpen, onClose }: NotificationCenterProps) => {
                         {notification.title}
                       </p>
                       <div className="flex items-center space-x-2">
-                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getNotificationBadge(notification.type)}`}>
-                          {notification.type.replace('_', ' ')}
-                        </span>
+                        {notification.severity ? (
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${SEVERITY_BADGES[notification.severity] ?? getNotificationBadge(notification.type)}`}>
+                            {t(`ui.notifications.severity.${notification.severity}`)}
+                          </span>
+                        ) : (
+                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getNotificationBadge(notification.type)}`}>
+                            {notification.type.replace('_', ' ')}
+                          </span>
+                        )}
                         {!notification.read_at && (
                           <div className="w-2 h-2 bg-primary-600 rounded-full"></div>
                         )}
@@ -210,9 +275,25 @@ const NotificationCenter = ({ isOpen, onClose }: NotificationCenterProps) => {
                     }`}>
                       {notification.message}
                     </p>
-                    <p className="mt-2 text-xs text-gray-400 dark:text-gray-500">
-                      {new Date(notification.created_at).toLocaleString()}
-                    </p>
+                    <div className="mt-2 flex items-center justify-between">
+                      <p className="text-xs text-gray-400 dark:text-gray-500">
+                        {new Date(notification.created_at).toLocaleString()}
+                      </p>
+                      {notification.event_id && notification.event_status === 'open' && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            acknowledge(notification.event_id as number);
+                          }}
+                          className="text-xs font-medium text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300"
+                        >
+                          {t('ui.notifications.acknowledge')}
+                        </button>
+                      )}
+                      {notification.event_id && notification.event_status === 'acknowledged' && (
+                        <span className="text-xs text-green-600 dark:text-green-400">{t('ui.notifications.acknowledgedLabel')}</span>
+                      )}
+                    </div>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,93 @@
+import React from 'react';
+import { ProbabilityPlotPoint } from '../../types/spc';
+import { normalQuantile } from '../../utils/statistics';
+
+interface ProbabilityPlotProps {
+  points: ProbabilityPlotPoint[];
+  mean: number;
+  sigma: number;
+  decimals?: number;
+  height?: number;
+}
+
+const WIDTH = 800;
+const MARGIN = { top: 16, right: 24, bottom: 36, left: 56 };
+const PERCENT_TICKS = [1, 5, 10, 25, 50, 75, 90, 95, 99];
+
+const formatValue = (value: number, decimals: number): string =>
+  Number.isFinite(value) ? value.toFixed(decimals) : '-';
+
+// Normal probability plot: values against normal quantiles of their
+// plotting positions, with the fitted normal line. Points close to the
+// line indicate normally distributed data.
+const ProbabilityPlot: React.FC<ProbabilityPlotProps> = ({
+  points,
+  mean,
+  sigma,
+  decimals = 3,
+  height = 280
+}) => {
+  if (points.length === 0) return null;
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = height - MARGIN.top - MARGIN.bottom;
+
+  const low = points[0].value;
+  const high = points[points.length - 1].value;
+  const padding = (high - low || Math.abs(high) || 1) * 0.08;
+  const xMin = low - padding;
+  const xMax = high + padding;
+  const zLimit = Math.max(normalQuantile(0.995), Math.abs(points[0].z), Math.abs(points[points.length - 1].z));
+
+  const xFor = (value: number) => MARGIN.left + ((value - xMin) / (xMax - xMin)) * plotWidth;
+  const yFor = (z: number) => MARGIN.top + (1 - (z + zLimit) / (2 * zLimit)) * plotHeight;
+
+  // Fitted line z = (x − mean) / σ, clipped to the plot
+  const fitted = sigma > 0
+    ? [xMin, xMax].map(x => {
+        const z = Math.max(-zLimit, Math.min(zLimit, (x - mean) / sigma));
+        return { x: mean + z * sigma, z };
+      })
+    : [];
+  const xTicks = Array.from({ length: 7 }, (_, i) => xMin + ((xMax - xMin) * i) / 6);
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full select-none text-gray-400">
+      <rect x={MARGIN.left} y={MARGIN.top} width={plotWidth} height={plotHeight} fill="none" className="stroke-gray-300 dark:stroke-gray-600" />
+      {PERCENT_TICKS.map(percent => {
+        const y = yFor(normalQuantile(percent / 100));
+        return (
+          <g key={percent}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y} y2={y} className="stroke-gray-200 dark:stroke-gray-700" />
+            <text x={MARGIN.left - 6} y={y + 4} textAnchor="end" fontSize={10} className="fill-current text-gray-500">
+              {percent}%
+            </text>
+          </g>
+        );
+      })}
+      {xTicks.map(tick => (
+        <text key={tick} x={xFor(tick)} y={height - MARGIN.bottom + 16} textAnchor="middle" fontSize={10} className="fill-current text-gray-500">
+          {formatValue(tick, decimals)}
+        </text>
+      ))}
+
+      {fitted.length === 2 && (
+        <line
+          x1={xFor(fitted[0].x)}
+          y1={yFor(fitted[0].z)}
+          x2={xFor(fitted[1].x)}
+          y2={yFor(fitted[1].z)}
+          className="stroke-red-500"
+          strokeWidth={1.5}
+        />
+      )}
+      {points.map((point, index) => (
+        <circle key={index} cx={xFor(point.value)} cy={yFor(point.z)} r={3} className="fill-blue-500 stroke-blue-700">
+          <title>{`${formatValue(point.value, decimals)} (${(point.probability * 100).toFixed(1)}%)`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default ProbabilityPlot;
@@ -20,6 +20,14 @@ const getModuleName = (module: string, t: (key: string) => string): string => {
     'features': t('ui.breadcrumb.features'),
     'gammas': t('ui.breadcrumb.gammas'),
     'measurements': t('ui.breadcrumb.measurements'),
+    'capability': t('ui.breadcrumb.capability'),
+    'gage-rr': t('ui.breadcrumb.gageRR'),
+    'gauges': t('ui.breadcrumb.gauges'),
+    'reaction-plans': t('ui.breadcrumb.reactionPlans'),
+    'notification-rules': t('ui.breadcrumb.notificationRules'),
+    'inspection-plans': t('ui.breadcrumb.inspectionPlans'),
+    'control-plans': t('ui.breadcrumb.controlPlans'),
+    'ncr': t('ui.breadcrumb.ncr'),
     'users': t('ui.breadcrumb.users'),
     'groups': t('ui.breadcrumb.groups'),
     'registration-codes': t('ui.breadcrumb.registrationCodes'),
@@ -0,0 +1,420 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { db } from '../../services/database';
+import { workshopScopeService } from '../../services/workshopScopeService';
+import { useUserStore } from '../../stores/useUserStore';
+import {
+  qdasService,
+  QdasCharacteristicMatch,
+  QdasImportResult
+} from '../../services/qdasService';
+import { QdasPart } from '../../utils/qdas';
+import { formatSpecification } from '../../utils/specifications';
+import {
+  XMarkIcon,
+  ArrowsRightLeftIcon,
+  ArrowDownTrayIcon,
+  ArrowUpTrayIcon
+} from '@heroicons/react/24/outline';
+
+type ExchangeMode = 'export' | 'import';
+
+interface QdasExchangeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialMode?: ExchangeMode;
+  filePath?: string | null; // File picked from the Electron Import Data menu
+  onImported?: () => void;
+}
+
+const QdasExchangeDialog: React.FC<QdasExchangeDialogProps> = ({
+  isOpen,
+  onClose,
+  initialMode = 'export',
+  filePath,
+  onImported
+}) => {
+  const { currentUser } = useUserStore();
+  const [mode, setMode] = useState<ExchangeMode>(initialMode);
+  const [products, setProducts] = useState<{ id: number; name: string }[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Export
+  const [exportProductId, setExportProductId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  // Import
+  const [fileNames, setFileNames] = useState<string[]>([]);
+  const [parts, setParts] = useState<QdasPart[]>([]);
+  const [partIndex, setPartIndex] = useState(0);
+  const [targetProductId, setTargetProductId] = useState('');
+  const [matches, setMatches] = useState<QdasCharacteristicMatch[]>([]);
+  const [result, setResult] = useState<QdasImportResult | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setMode(initialMode);
+      loadProducts();
+    }
+  }, [isOpen, initialMode]);
+
+  useEffect(() => {
+    const part = parts[partIndex];
+    if (part && targetProductId) {
+      qdasService.matchCharacteristics(part, parseInt(targetProductId, 10))
+        .then(setMatches)
+        .catch(error => {
+          console.error('Error matching characteristics:', error);
+          toast.error('Failed to read the product features');
+        });
+    } else {
+      setMatches([]);
+    }
+  }, [parts, partIndex, targetProductId]);
+
+  const loadProducts = async () => {
+    try {
+      const scope = workshopScopeService.condition('p.workshop_id');
+      setProducts(await db.queryAll(`SELECT p.id, p.name FROM products p WHERE ${scope.sql} ORDER BY p.name`, scope.params));
+    } catch (error) {
+      console.error('Error loading products:', error);
+    }
+  };
+
+  const reset = () => {
+    setExportProductId('');
+    setFromDate('');
+    setToDate('');
+    setFileNames([]);
+    setParts([]);
+    setPartIndex(0);
+    setTargetProductId('');
+    setMatches([]);
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleExport = async () => {
+    if (!exportProductId) {
+      toast.error('Select a product');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const exported = await qdasService.exportProduct(parseInt(exportProductId, 10), {
+        from: fromDate || undefined,
+        to: toDate || undefined
+      });
+      const url = URL.createObjectURL(exported.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = exported.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${exported.characteristics} characteristics and ${exported.values} values`);
+    } catch (error) {
+      console.error('Error exporting Q-DAS file:', error);
+      toast.error('Failed to export the Q-DAS file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectPart = useCallback(async (availableParts: QdasPart[], index: number) => {
+    setPartIndex(index);
+    const productId = await qdasService.findProduct(availableParts[index]);
+    setTargetProductId(productId ? String(productId) : '');
+  }, []);
+
+  const loadFiles = useCallback(async (files: { name: string; data: Uint8Array }[]) => {
+    setLoading(true);
+    try {
+      const parsedParts = qdasService.readFiles(files);
+      if (parsedParts.length === 0) {
+        toast.error('No part found in the file');
+        return;
+      }
+      setFileNames(files.map(file => file.name));
+      setParts(parsedParts);
+      setResult(null);
+      await selectPart(parsedParts, 0);
+    } catch (error) {
+      console.error('Error reading Q-DAS file:', error);
+      toast.error('Failed to read the Q-DAS file');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectPart]);
+
+  // A .dfd picked from the menu brings the .dfx of the same name, when there is one
+  const loadElectronFiles = useCallback(async (path: string) => {
+    const paths = /\.dfd$/i.test(path) ? [path, path.replace(/\.dfd$/i, '.dfx')] : [path];
+    const files: { name: string; data: Uint8Array }[] = [];
+    for (const candidate of paths) {
+      const response = await window.electronAPI.readImportFile(candidate);
+      if (response.success && response.data) {
+        files.push({ name: response.fileName || candidate, data: response.data });
+      } else if (candidate === path) {
+        toast.error(response.error || 'Failed to read the file');
+        return;
+      }
+    }
+    setMode('import');
+    await loadFiles(files);
+  }, [loadFiles]);
+
+  useEffect(() => {
+    if (isOpen && filePath && window.electronAPI) {
+      loadElectronFiles(filePath);
+    }
+  }, [isOpen, filePath, loadElectronFiles]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    if (selected.length === 0) return;
+    await loadFiles(await Promise.all(selected.map(async file => ({
+      name: file.name,
+      data: new Uint8Array(await file.arrayBuffer())
+    }))));
+  };
+
+  const handleImport = async () => {
+    const part = parts[partIndex];
+    if (!part || !targetProductId) {
+      toast.error('Select the product to import into');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const importResult = await qdasService.importPart(part, parseInt(targetProductId, 10), currentUser?.id ?? null);
+      setResult(importResult);
+      if (importResult.error) {
+        toast.error(`Import failed: ${importResult.error}`);
+      } else {
+        toast.success(`Imported ${importResult.measurements + importResult.inspections} values`);
+        onImported?.();
+        setMatches(await qdasService.matchCharacteristics(part, parseInt(targetProductId, 10)));
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const part = parts[partIndex];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-5xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center">
+            <ArrowsRightLeftIcon className="h-6 w-6 text-blue-600 mr-3" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Q-DAS Exchange</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400">AQDEF .dfq files, or .dfd/.dfx pairs, for qs-STAT</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={loading}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-50"
+          >
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex border-b border-gray-200 dark:border-gray-700 px-6">
+          {(['export', 'import'] as ExchangeMode[]).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setMode(tab)}
+              className={`px-4 py-3 text-sm font-medium border-b-2 -mb-px ${
+                mode === tab
+                  ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 dark:text-gray-400'
+              }`}
+            >
+              {tab === 'export' ? 'Export' : 'Import'}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {mode === 'export' && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Product *</label>
+                  <select
+                    value={exportProductId}
+                    onChange={(e) => setExportProductId(e.target.value)}
+                    className="input w-full"
+                  >
+                    <option value="">Select a product</option>
+                    {products.map(product => (
+                      <option key={product.id} value={product.id}>{product.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+                  <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="input w-full" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+                  <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="input w-full" />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Writes the product (K1001), its features with specification limits (K2xxx) and the recorded values
+                with date, operator, batch and serial number (K0001, K0004, K0006, K0008, K0014).
+              </p>
+            </div>
+          )}
+
+          {mode === 'import' && (
+            <div className="space-y-4">
+              <div>
+                <input
+                  type="file"
+                  multiple
+                  accept=".dfq,.dfd,.dfx"
+                  onChange={handleFileChange}
+                  className="block text-sm text-gray-700 dark:text-gray-300"
+                />
+                {fileNames.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{fileNames.join(', ')}</p>
+                )}
+              </div>
+
+              {part && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Part in the file</label>
+                      <select
+                        value={partIndex}
+                        onChange={(e) => selectPart(parts, parseInt(e.target.value, 10))}
+                        disabled={parts.length < 2}
+                        className="input w-full"
+                      >
+                        {parts.map((filePart, index) => (
+                          <option key={index} value={index}>
+                            {filePart.number || `Part ${index + 1}`}{filePart.description ? ` – ${filePart.description}` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Import into product *</label>
+                      <select
+                        value={targetProductId}
+                        onChange={(e) => setTargetProductId(e.target.value)}
+                        className="input w-full"
+                      >
+                        <option value="">Select a product</option>
+                        {products.map(product => (
+                          <option key={product.id} value={product.id}>{product.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  {matches.length > 0 && (
+                    <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                      <table className="min-w-full text-xs">
+                        <thead className="bg-gray-50 dark:bg-gray-700">
+                          <tr>
+                            <th className="px-3 py-2 text-left text-gray-600 dark:text-gray-300">Characteristic</th>
+                            <th className="px-3 py-2 text-left text-gray-600 dark:text-gray-300">Specification</th>
+                            <th className="px-3 py-2 text-right text-gray-600 dark:text-gray-300">Values</th>
+                            <th className="px-3 py-2 text-left text-gray-600 dark:text-gray-300">Feature</th>
+                            <th className="px-3 py-2 text-left text-gray-600 dark:text-gray-300">Notes</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {matches.map((match, index) => (
+                            <tr key={index} className="border-t border-gray-200 dark:border-gray-700">
+                              <td className="px-3 py-2 text-gray-900 dark:text-white">{match.name}</td>
+                              <td className="px-3 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                                {match.characteristic.attribute ? 'Attribute' : formatSpecification(match.specification)}
+                              </td>
+                              <td className="px-3 py-2 text-right text-gray-700 dark:text-gray-300">{match.validValues}</td>
+                              <td className="px-3 py-2">
+                                {match.featureId ? (
+                                  <span className="text-gray-700 dark:text-gray-300">Existing</span>
+                                ) : (
+                                  <span className="text-blue-600 dark:text-blue-400">New</span>
+                                )}
+                              </td>
+                              <td className="px-3 py-2">
+                                {match.notes.map(note => (
+                                  <div key={note} className="text-amber-600 dark:text-amber-400">{note}</div>
+                                ))}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {result && (
+                result.error ? (
+                  <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-800 dark:text-red-200">
+                    Nothing was imported: {result.error}
+                  </div>
+                ) : (
+                  <div className="p-4 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-sm text-green-800 dark:text-green-200">
+                    <p>
+                      Created {result.featuresCreated} features, imported {result.measurements} measurements
+                      and {result.inspections} attribute inspections in {result.samples} samples.
+                    </p>
+                    {result.skipped.length > 0 && (
+                      <ul className="mt-2 text-xs text-amber-700 dark:text-amber-300 space-y-1">
+                        {result.skipped.map((message, index) => <li key={index}>{message}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200 dark:border-gray-700">
+          <button onClick={handleClose} disabled={loading} className="btn btn-secondary">
+            Close
+          </button>
+          {mode === 'export' ? (
+            <button onClick={handleExport} disabled={loading || !exportProductId} className="btn btn-primary flex items-center">
+              <ArrowDownTrayIcon className="h-4 w-4 mr-2" />
+              {loading ? 'Exporting...' : 'Export .dfq'}
+            </button>
+          ) : (
+            <button
+              onClick={handleImport}
+              disabled={loading || !part || !targetProductId}
+              className="btn btn-primary flex items-center"
+            >
+              <ArrowUpTrayIcon className="h-4 w-4 mr-2" />
+              {loading ? 'Importing...' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QdasExchangeDialog;
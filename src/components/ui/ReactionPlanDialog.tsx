@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { useI18nStore } from '../../stores/useI18nStore';
+import { PendingViolation, ViolationReaction } from '../../services/reactionPlanService';
+import { ReactionPlanItem, ViolationKind } from '../../types/spc';
+import { DEFAULT_DECIMAL_PLACES } from '../../utils/specifications';
+import { isSpecificationViolation } from '../../utils/reactionPlans';
+
+interface ReactionPlanDialogProps {
+  violations: PendingViolation[];
+  onConfirm: (reactions: ViolationReaction[]) => void;
+  onCancel: () => void;
+}
+
+const VIOLATION_KEYS: Record<ViolationKind, string> = {
+  'above-usl': 'production.ocap.aboveUsl',
+  'below-lsl': 'production.ocap.belowLsl',
+  'above-ucl': 'production.ocap.aboveUcl',
+  'below-lcl': 'production.ocap.belowLcl',
+};
+
+// Out-of-control action plan prompt: every flagged value needs a cause code
+// and a corrective action before the entry can be recorded
+const ReactionPlanDialog: React.FC<ReactionPlanDialogProps> = ({ violations, onConfirm, onCancel }) => {
+  const { t } = useI18nStore();
+  const [choices, setChoices] = useState<Record<number, { cause: string; action: string; comment: string }>>({});
+
+  // The plant defaults are translated; a feature's own plan is shown as written
+  const itemLabel = (violation: PendingViolation, item: ReactionPlanItem) => {
+    if (violation.plan.planId === null) {
+      return t(`production.ocap.${item.kind}.${item.code}`);
+    }
+    return item.description ? `${item.code} - ${item.description}` : item.code;
+  };
+
+  const update = (featureId: number, field: 'cause' | 'action' | 'comment', value: string) => {
+    setChoices(prev => ({
+      ...prev,
+      [featureId]: { ...(prev[featureId] || { cause: '', action: '', comment: '' }), [field]: value }
+    }));
+  };
+
+  const complete = violations.every(violation => choices[violation.featureId]?.cause && choices[violation.featureId]?.action);
+
+  const handleConfirm = () => {
+    if (!complete) return;
+    onConfirm(violations.map(violation => {
+      const choice = choices[violation.featureId];
+      const cause = violation.plan.causes.find(item => item.code === choice.cause);
+      const action = violation.plan.actions.find(item => item.code === choice.action);
+      return {
+        featureId: violation.featureId,
+        causeCode: choice.cause,
+        causeDescription: cause ? itemLabel(violation, cause) : '',
+        actionCode: choice.action,
+        actionDescription: action ? itemLabel(violation, action) : '',
+        comment: choice.comment,
+      };
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center space-x-2 mb-2">
+          <ExclamationTriangleIcon className="h-6 w-6 text-red-500" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{t('production.ocap.title')}</h3>
+        </div>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{t('production.ocap.description')}</p>
+
+        <div className="space-y-4">
+          {violations.map(violation => {
+            const decimals = violation.decimalPlaces ?? DEFAULT_DECIMAL_PLACES;
+            const choice = choices[violation.featureId];
+            const severe = isSpecificationViolation(violation.violation);
+            return (
+              <div
+                key={violation.featureId}
+                className={`rounded-lg border p-4 ${severe ? 'border-red-300 dark:border-red-700' : 'border-yellow-300 dark:border-yellow-700'}`}
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <div className="font-medium text-gray-900 dark:text-white">{violation.featureName}</div>
+                  <div className={`font-bold ${severe ? 'text-red-600 dark:text-red-400' : 'text-yellow-600 dark:text-yellow-400'}`}>
+                    {violation.value.toFixed(decimals)} {violation.unit}
+                  </div>
+                </div>
+                <div className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                  {t(VIOLATION_KEYS[violation.violation], { limit: violation.limit.toFixed(decimals) })}
+                </div>
+                {violation.plan.instructions && (
+                  <div className="text-sm bg-gray-50 dark:bg-gray-700 rounded p-3 mb-3 whitespace-pre-line text-gray-800 dark:text-gray-200">
+                    {violation.plan.instructions}
+                  </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="label block mb-1">{t('production.ocap.cause')}</label>
+                    <select
+                      value={choice?.cause ?? ''}
+                      onChange={(e) => update(violation.featureId, 'cause', e.target.value)}
+                      className="input w-full"
+                    >
+                      <option value="">{t('production.ocap.selectCause')}</option>
+                      {violation.plan.causes.map(item => (
+                        <option key={item.code} value={item.code}>{itemLabel(violation, item)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="label block mb-1">{t('production.ocap.action')}</label>
+                    <select
+                      value={choice?.action ?? ''}
+                      onChange={(e) => update(violation.featureId, 'action', e.target.value)}
+                      className="input w-full"
+                    >
+                      <option value="">{t('production.ocap.selectAction')}</option>
+                      {violation.plan.actions.map(item => (
+                        <option key={item.code} value={item.code}>{itemLabel(violation, item)}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="md:col-span-2">
+                    <input
+                      type="text"
+                      value={choice?.comment ?? ''}
+                      onChange={(e) => update(violation.featureId, 'comment', e.target.value)}
+                      className="input w-full"
+                      placeholder={t('production.ocap.comment')}
+                    />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button onClick={onCancel} className="btn btn-secondary">{t('production.ocap.correctValues')}</button>
+          <button onClick={handleConfirm} disabled={!complete} className="btn btn-primary">
+            {t('production.ocap.confirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReactionPlanDialog;
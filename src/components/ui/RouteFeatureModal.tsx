@@ -1,34 +1,29 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import { db } from '../../services/database';
+import { CharacteristicType, FeatureSpecification } from '../../types/spc';
+import { normalizeSpecification, validateSpecification } from '../../utils/specifications';
 import { XMarkIcon } from '@heroicons/react/24/outline';
+import SpecificationFields from './SpecificationFields';
 
-interface Feature {
+interface Feature extends FeatureSpecification {
   id: number;
   name: string;
   description?: string;
   product_id: number;
   route_id?: number;
-  specification_type?: string;
-  target_value?: number;
-  tolerance_plus?: number;
-  tolerance_minus?: number;
-  unit?: string;
+  characteristic_type?: CharacteristicType;
   image_filename?: string;
   created_at: string;
   updated_at: string;
 }
 
-interface FeatureFormData {
+interface FeatureFormData extends FeatureSpecification {
   name: string;
   description?: string;
   product_id: number;
   route_id?: number;
-  specification_type?: string;
-  target_value?: number;
-  tolerance_plus?: number;
-  tolerance_minus?: number;
-  unit?: string;
+  characteristic_type?: CharacteristicType;
   image_filename?: string;
 }
 
@@ -54,11 +49,8 @@ const RouteFeatureModal: React.FC<RouteFeatureModalProps> = ({
     description: '',
     product_id: 0,
     route_id: routeId,
-    specification_type: '',
-    target_value: undefined,
-    tolerance_plus: undefined,
-    tolerance_minus: undefined,
-    unit: '',
+    ...normalizeSpecification({}),
+    characteristic_type: 'variable',
     image_filename: ''
   });
   const [products, setProducts] = useState<Array<{id: number, name: string}>>([]);
@@ -72,6 +64,7 @@ const RouteFeatureModal: React.FC<RouteFeatureModalProps> = ({
       if (feature) {
         setFormData({
           ...feature,
+          ...normalizeSpecification(feature),
           route_id: routeId
         });
         // Load image preview if exists
@@ -88,11 +81,8 @@ const RouteFeatureModal: React.FC<RouteFeatureModalProps> = ({
           description: '',
           product_id: 0,
           route_id: routeId,
-          specification_type: '',
-          target_value: undefined,
-          tolerance_plus: undefined,
-          tolerance_minus: undefined,
-          unit: '',
+          ...normalizeSpecification({}),
+          characteristic_type: 'variable',
           image_filename: ''
         });
         setImagePreview('');
@@ -126,6 +116,12 @@ const RouteFeatureModal: React.FC<RouteFeatureModalProps> = ({
         return;
       }
 
+      const specificationError = validateSpecification(formData);
+      if (specificationError) {
+        toast.error(specificationError);
+        return;
+      }
+
       let imageFilename = formData.image_filename;
 
       // Handle image upload
@@ -141,6 +137,7 @@ const RouteFeatureModal: React.FC<RouteFeatureModalProps> = ({
           
           const featureData = {
             ...formData,
+            ...normalizeSpecification(formData),
             product_id: formData.product_id,
             route_id: routeId,
             image_filename: imageFilename
@@ -155,6 +152,7 @@ const RouteFeatureModal: React.FC<RouteFeatureModalProps> = ({
 
       const featureData = {
         ...formData,
+        ...normalizeSpecification(formData),
         product_id: formData.product_id,
         route_id: routeId,
         image_filename: imageFilename
@@ -178,14 +176,6 @@ const RouteFeatureModal: React.FC<RouteFeatureModalProps> = ({
     }));
   };
 
-  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({
-      ...prev,
-      [name]: value === '' ? undefined : parseFloat(value)
-    }));
-  };
-
   const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -281,88 +271,31 @@ const RouteFeatureModal: React.FC<RouteFeatureModalProps> = ({
             />
           </div>
 
-          {/* Specification Details */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Specification Type
+                Inspection Method
               </label>
               <select
-                name="specification_type"
-                value={formData.specification_type}
+                name="characteristic_type"
+                value={formData.characteristic_type || 'variable'}
                 onChange={handleInputChange}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
               >
-                <option value="">Select type</option>
-                <option value="dimensional">Dimensional</option>
-                <option value="surface">Surface</option>
-                <option value="material">Material</option>
-                <option value="functional">Functional</option>
-                <option value="appearance">Appearance</option>
+                <option value="variable">Measured value (variable)</option>
+                <option value="defectives">Go/no-go (defective parts)</option>
+                <option value="defects">Defect count (nonconformities)</option>
               </select>
             </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Unit
-              </label>
-              <input
-                type="text"
-                name="unit"
-                value={formData.unit}
-                onChange={handleInputChange}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
-                placeholder="e.g., mm, μm, °C"
-              />
-            </div>
           </div>
 
-          {/* Target Value and Tolerances */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Target Value
-              </label>
-              <input
-                type="number"
-                step="any"
-                name="target_value"
-                value={formData.target_value || ''}
-                onChange={handleNumberChange}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
-                placeholder="Target value"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Tolerance (+)
-              </label>
-              <input
-                type="number"
-                step="any"
-                name="tolerance_plus"
-                value={formData.tolerance_plus || ''}
-                onChange={handleNumberChange}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
-                placeholder="+Tolerance"
-              />
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Tolerance (-)
-              </label>
-              <input
-                type="number"
-                step="any"
-                name="tolerance_minus"
-                value={formData.tolerance_minus || ''}
-                onChange={handleNumberChange}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white"
-                placeholder="-Tolerance"
-              />
-            </div>
+          {/* Specification */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Specification</h3>
+            <SpecificationFields
+              value={formData}
+              onChange={(specification) => setFormData(prev => ({ ...prev, ...specification }))}
+            />
           </div>
 
           {/* Image Upload */}
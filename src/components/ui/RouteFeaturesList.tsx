@@ -1,21 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import { db } from '../../services/database';
-import { PencilIcon, TrashIcon, PlusIcon, EyeIcon, Squares2X2Icon, ListBulletIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { permissionService } from '../../services/permissionService';
+import { usePermissions } from '../../hooks/usePermissions';
+import { CharacteristicType, FeatureSpecification } from '../../types/spc';
+import { formatSpecification } from '../../utils/specifications';
+import { PencilIcon, TrashIcon, PlusIcon, EyeIcon, Squares2X2Icon, ListBulletIcon, MagnifyingGlassIcon, ChartBarIcon } from '@heroicons/react/24/outline';
 import RouteFeatureModal from './RouteFeatureModal';
+import ControlChartModal from './ControlChartModal';
 
-interface Feature {
+interface Feature extends FeatureSpecification {
   id: number;
   name: string;
   description?: string;
   product_id: number;
   route_id?: number;
   gamma_id?: number;
-  specification_type?: string;
-  target_value?: number;
-  tolerance_plus?: number;
-  tolerance_minus?: number;
-  unit?: string;
+  characteristic_type?: CharacteristicType;
   image_filename?: string;
   created_at: string;
   updated_at: string;
@@ -23,16 +24,12 @@ interface Feature {
   assignment_status?: 'assigned' | 'available';
 }
 
-interface FeatureFormData {
+interface FeatureFormData extends FeatureSpecification {
   name: string;
   description?: string;
   product_id: number;
   route_id?: number;
-  specification_type?: string;
-  target_value?: number;
-  tolerance_plus?: number;
-  tolerance_minus?: number;
-  unit?: string;
+  characteristic_type?: CharacteristicType;
   image_filename?: string;
 }
 
@@ -51,10 +48,13 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
   productId,
   onFeaturesChange
 }) => {
+  const { can } = usePermissions();
+  const canEdit = can('features', 'write');
   const [features, setFeatures] = useState<Feature[]>([]);
   const [loading, setLoading] = useState(true);
   const [showModal, setShowModal] = useState(false);
   const [editingFeature, setEditingFeature] = useState<Feature | null>(null);
+  const [chartFeature, setChartFeature] = useState<Feature | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('cards');
   const [searchTerm, setSearchTerm] = useState('');
 
@@ -116,6 +116,7 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
   };
 
   const handleSaveFeature = async (featureData: FeatureFormData) => {
+    if (!permissionService.ensure('features')) return;
     try {
       if (editingFeature) {
         // Update existing feature
@@ -123,7 +124,7 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
           `UPDATE features SET 
            name = ?, description = ?, product_id = ?, route_id = ?, 
            specification_type = ?, target_value = ?, tolerance_plus = ?, tolerance_minus = ?, 
-           unit = ?, image_filename = ?, updated_at = CURRENT_TIMESTAMP 
+           specification_min = ?, specification_max = ?, unit = ?, decimal_places = ?, characteristic_class = ?, characteristic_type = ?, image_filename = ?, updated_at = CURRENT_TIMESTAMP 
            WHERE id = ?`,
           [
             featureData.name,
@@ -134,7 +135,12 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
             featureData.target_value,
             featureData.tolerance_plus,
             featureData.tolerance_minus,
+            featureData.specification_min,
+            featureData.specification_max,
             featureData.unit,
+            featureData.decimal_places,
+            featureData.characteristic_class,
+            featureData.characteristic_type || 'variable',
             featureData.image_filename,
             editingFeature.id
           ]
@@ -144,8 +150,9 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
         // Create new feature
         await db.execute(
           `INSERT INTO features 
-           (name, description, product_id, route_id, specification_type, target_value, tolerance_plus, tolerance_minus, unit, image_filename) 
-           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+           (name, description, product_id, route_id, specification_type, target_value, tolerance_plus, tolerance_minus, 
+            specification_min, specification_max, unit, decimal_places, characteristic_class, characteristic_type, image_filename) 
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
           [
             featureData.name,
             featureData.description,
@@ -155,7 +162,12 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
             featureData.target_value,
             featureData.tolerance_plus,
             featureData.tolerance_minus,
+            featureData.specification_min,
+            featureData.specification_max,
             featureData.unit,
+            featureData.decimal_places,
+            featureData.characteristic_class,
+            featureData.characteristic_type || 'variable',
             featureData.image_filename
           ]
         );
@@ -171,6 +183,7 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
   };
 
   const handleDeleteFeature = async (featureId: number) => {
+    if (!permissionService.ensure('features')) return;
     if (!confirm('Are you sure you want to delete this feature?')) {
       return;
     }
@@ -187,6 +200,7 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
   };
 
   const handleAssignFeature = async (featureId: number) => {
+    if (!permissionService.ensure('features')) return;
     if (routeId === -1) {
       toast.error('Cannot assign features to a route that hasn\'t been saved yet. Please save the route first.');
       return;
@@ -207,6 +221,7 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
   };
 
   const handleUnassignFeature = async (featureId: number) => {
+    if (!permissionService.ensure('features')) return;
     if (routeId === -1) {
       toast.error('Cannot unassign features from a route that hasn\'t been saved yet.');
       return;
@@ -248,13 +263,15 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
         <h3 className="text-lg font-medium text-gray-900 dark:text-white">
           Features ({filteredFeatures.length}{searchTerm ? ` of ${features.length}` : ''})
         </h3>
-        <button
-          onClick={handleAddFeature}
-          className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-        >
-          <PlusIcon className="h-4 w-4 mr-2" />
-          Add Feature
-        </button>
+        {canEdit && (
+          <button
+            onClick={handleAddFeature}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-white bg-primary-600 hover:bg-primary-700 rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
+          >
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add Feature
+          </button>
+        )}
       </div>
 
       {/* Controls */}
@@ -343,31 +360,50 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
                       {feature.description}
                     </p>
                   )}
-                  {feature.specification_type && (
-                    <div className="mt-2">
-                      <span className="inline-block bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded text-xs font-medium">
-                        {feature.specification_type}
+                  <div className="mt-2 flex items-center gap-2">
+                    <span className="inline-block bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded text-xs font-medium">
+                      {formatSpecification(feature)}
+                    </span>
+                    {feature.characteristic_class && feature.characteristic_class !== 'minor' && (
+                      <span className={`inline-block px-2 py-1 rounded text-xs font-medium capitalize ${
+                        feature.characteristic_class === 'critical'
+                          ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
+                          : 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
+                      }`}>
+                        {feature.characteristic_class}
                       </span>
-                    </div>
-                  )}
+                    )}
+                  </div>
                 </div>
                 <div className="flex items-center space-x-1 ml-2">
                   <button
                     type="button"
-                    onClick={() => handleEditFeature(feature)}
+                    onClick={() => setChartFeature(feature)}
                     className="p-1 text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
-                    title="Edit feature"
-                  >
-                    <PencilIcon className="h-3 w-3" />
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => handleDeleteFeature(feature.id)}
-                    className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
-                    title="Delete feature"
+                    title="View control chart"
                   >
-                    <TrashIcon className="h-3 w-3" />
+                    <ChartBarIcon className="h-3 w-3" />
                   </button>
+                  {canEdit && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleEditFeature(feature)}
+                        className="p-1 text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                        title="Edit feature"
+                      >
+                        <PencilIcon className="h-3 w-3" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteFeature(feature.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        title="Delete feature"
+                      >
+                        <TrashIcon className="h-3 w-3" />
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
               <div className="text-xs text-gray-500 dark:text-gray-400 mb-3">
@@ -380,21 +416,25 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
                     Save route first to assign features
                   </div>
                 ) : feature.assignment_status === 'assigned' ? (
-                  <button
-                    type="button"
-                    onClick={() => handleUnassignFeature(feature.id)}
-                    className="px-3 py-1 text-xs font-medium text-red-700 bg-red-100 hover:bg-red-200 dark:bg-red-900 dark:text-red-200 dark:hover:bg-red-800 rounded-md transition-colors"
-                  >
-                    Remove from Route
-                  </button>
+                  canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => handleUnassignFeature(feature.id)}
+                      className="px-3 py-1 text-xs font-medium text-red-700 bg-red-100 hover:bg-red-200 dark:bg-red-900 dark:text-red-200 dark:hover:bg-red-800 rounded-md transition-colors"
+                    >
+                      Remove from Route
+                    </button>
+                  )
                 ) : (
-                  <button
-                    type="button"
-                    onClick={() => handleAssignFeature(feature.id)}
-                    className="px-3 py-1 text-xs font-medium text-green-700 bg-green-100 hover:bg-green-200 dark:bg-green-900 dark:text-green-200 dark:hover:bg-green-800 rounded-md transition-colors"
-                  >
-                    Add to Route
-                  </button>
+                  canEdit && (
+                    <button
+                      type="button"
+                      onClick={() => handleAssignFeature(feature.id)}
+                      className="px-3 py-1 text-xs font-medium text-green-700 bg-green-100 hover:bg-green-200 dark:bg-green-900 dark:text-green-200 dark:hover:bg-green-800 rounded-md transition-colors"
+                    >
+                      Add to Route
+                    </button>
+                  )
                 )}
               </div>
             </div>
@@ -433,9 +473,16 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
                       )}
                       <div className="flex items-center space-x-4 mt-2 text-xs text-gray-500 dark:text-gray-400">
                         <span>Product: {feature.product_name || 'Unknown'}</span>
-                        {feature.specification_type && (
-                          <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded">
-                            {feature.specification_type}
+                        <span className="bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 px-2 py-1 rounded">
+                          {formatSpecification(feature)}
+                        </span>
+                        {feature.characteristic_class && feature.characteristic_class !== 'minor' && (
+                          <span className={`inline-block px-2 py-1 rounded text-xs font-medium capitalize ${
+                            feature.characteristic_class === 'critical'
+                              ? 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200'
+                              : 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200'
+                          }`}>
+                            {feature.characteristic_class}
                           </span>
                         )}
                         <span>Created: {new Date(feature.created_at).toLocaleDateString()}</span>
@@ -449,38 +496,54 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
                       Save route first
                     </div>
                   ) : feature.assignment_status === 'assigned' ? (
-                    <button
-                      type="button"
-                      onClick={() => handleUnassignFeature(feature.id)}
-                      className="px-3 py-1 text-xs font-medium text-red-700 bg-red-100 hover:bg-red-200 dark:bg-red-900 dark:text-red-200 dark:hover:bg-red-800 rounded-md transition-colors"
-                    >
-                      Remove from Route
-                    </button>
+                    canEdit && (
+                      <button
+                        type="button"
+                        onClick={() => handleUnassignFeature(feature.id)}
+                        className="px-3 py-1 text-xs font-medium text-red-700 bg-red-100 hover:bg-red-200 dark:bg-red-900 dark:text-red-200 dark:hover:bg-red-800 rounded-md transition-colors"
+                      >
+                        Remove from Route
+                      </button>
+                    )
                   ) : (
-                    <button
-                      type="button"
-                      onClick={() => handleAssignFeature(feature.id)}
-                      className="px-3 py-1 text-xs font-medium text-green-700 bg-green-100 hover:bg-green-200 dark:bg-green-900 dark:text-green-200 dark:hover:bg-green-800 rounded-md transition-colors"
-                    >
-                      Add to Route
-                    </button>
+                    canEdit && (
+                      <button
+                        type="button"
+                        onClick={() => handleAssignFeature(feature.id)}
+                        className="px-3 py-1 text-xs font-medium text-green-700 bg-green-100 hover:bg-green-200 dark:bg-green-900 dark:text-green-200 dark:hover:bg-green-800 rounded-md transition-colors"
+                      >
+                        Add to Route
+                      </button>
+                    )
                   )}
                   <button
                     type="button"
-                    onClick={() => handleEditFeature(feature)}
+                    onClick={() => setChartFeature(feature)}
                     className="p-2 text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
-                    title="Edit feature"
+                    title="View control chart"
                   >
-                    <PencilIcon className="h-4 w-4" />
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => handleDeleteFeature(feature.id)}
-                    className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
-                    title="Delete feature"
-                  >
-                    <TrashIcon className="h-4 w-4" />
+                    <ChartBarIcon className="h-4 w-4" />
                   </button>
+                  {canEdit && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => handleEditFeature(feature)}
+                        className="p-2 text-gray-400 hover:text-primary-600 dark:hover:text-primary-400 transition-colors"
+                        title="Edit feature"
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteFeature(feature.id)}
+                        className="p-2 text-gray-400 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+                        title="Delete feature"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
@@ -497,6 +560,14 @@ const RouteFeaturesList: React.FC<RouteFeaturesListProps> = ({
         routeId={routeId}
         routeName={routeName}
       />
+
+      {/* Control Chart */}
+      <ControlChartModal
+        isOpen={chartFeature !== null}
+        onClose={() => setChartFeature(null)}
+        feature={chartFeature}
+        routeId={routeId}
+      />
     </div>
   );
 };
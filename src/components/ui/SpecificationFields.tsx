@@ -0,0 +1,143 @@
+import React from 'react';
+import { FeatureSpecification } from '../../types/spc';
+import {
+  CHARACTERISTIC_CLASSES,
+  DEFAULT_DECIMAL_PLACES,
+  SPECIFICATION_TYPES,
+  formatSpecification,
+  getMeasurementStep,
+  validateSpecification
+} from '../../utils/specifications';
+
+interface SpecificationFieldsProps {
+  value: FeatureSpecification;
+  onChange: (value: FeatureSpecification) => void;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 dark:bg-gray-700 dark:text-white';
+
+// Specification section shared by the feature editors
+const SpecificationFields: React.FC<SpecificationFieldsProps> = ({ value, onChange }) => {
+  const type = value.specification_type || 'nominal';
+  const step = getMeasurementStep(value);
+  const error = validateSpecification(value);
+
+  const setField = (field: keyof FeatureSpecification, fieldValue: FeatureSpecification[keyof FeatureSpecification]) => {
+    onChange({ ...value, [field]: fieldValue });
+  };
+
+  const numberInput = (field: keyof FeatureSpecification, label: string, placeholder?: string) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {label}
+      </label>
+      <input
+        type="number"
+        step={step}
+        value={value[field] ?? ''}
+        onChange={(e) => setField(field, e.target.value === '' ? null : parseFloat(e.target.value))}
+        className={inputClassName}
+        placeholder={placeholder}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Specification Type
+          </label>
+          <select
+            value={type}
+            onChange={(e) => setField('specification_type', e.target.value as FeatureSpecification['specification_type'])}
+            className={inputClassName}
+          >
+            {SPECIFICATION_TYPES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Unit
+          </label>
+          <input
+            type="text"
+            value={value.unit || ''}
+            onChange={(e) => setField('unit', e.target.value)}
+            className={inputClassName}
+            placeholder="mm, μm, °C"
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Decimals
+          </label>
+          <input
+            type="number"
+            min="0"
+            max="6"
+            step="1"
+            value={value.decimal_places ?? DEFAULT_DECIMAL_PLACES}
+            onChange={(e) => setField('decimal_places', e.target.value === '' ? DEFAULT_DECIMAL_PLACES : parseInt(e.target.value))}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        {type === 'nominal' && (
+          <>
+            {numberInput('target_value', 'Target Value *', '0.000')}
+            {numberInput('tolerance_plus', 'Tolerance (+)', '0.000')}
+            {numberInput('tolerance_minus', 'Tolerance (-)', '0.000')}
+          </>
+        )}
+        {type === 'range' && (
+          <>
+            {numberInput('specification_min', 'Lower Limit *')}
+            {numberInput('specification_max', 'Upper Limit *')}
+            {numberInput('target_value', 'Target Value', 'Midpoint')}
+          </>
+        )}
+        {type === 'maximum' && (
+          <>
+            {numberInput('specification_max', 'Upper Limit *')}
+            {numberInput('target_value', 'Target Value', 'Optional')}
+          </>
+        )}
+        {type === 'minimum' && (
+          <>
+            {numberInput('specification_min', 'Lower Limit *')}
+            {numberInput('target_value', 'Target Value', 'Optional')}
+          </>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Characteristic Class
+          </label>
+          <select
+            value={value.characteristic_class || 'minor'}
+            onChange={(e) => setField('characteristic_class', e.target.value as FeatureSpecification['characteristic_class'])}
+            className={inputClassName}
+          >
+            {CHARACTERISTIC_CLASSES.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <p className={`text-sm ${error ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}`}>
+        {error || `Specification: ${formatSpecification(value)}`}
+      </p>
+    </div>
+  );
+};
+
+export default SpecificationFields;
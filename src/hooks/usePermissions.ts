@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { permissionService, Permissions, PermissionLevel, PermissionResource } from '../services/permissionService';
+
+export const usePermissions = () => {
+  const [permissions, setPermissions] = useState<Permissions>(permissionService.getPermissions());
+
+  useEffect(() => {
+    const unsubscribe = permissionService.subscribe(setPermissions);
+    return unsubscribe;
+  }, []);
+
+  // Re-evaluated on every render, so components update when permissions change
+  const can = (resource: PermissionResource, level: PermissionLevel = 'read') => {
+    return permissionService.can(resource, level);
+  };
+
+  const canAccessModule = (module: string) => {
+    return permissionService.canAccessModule(module);
+  };
+
+  const canAccessTable = (tableName: string, level: PermissionLevel = 'read') => {
+    return permissionService.canAccessTable(tableName, level);
+  };
+
+  return {
+    permissions,
+    can,
+    canAccessModule,
+    canAccessTable
+  };
+};
@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import { workshopScopeService, WorkshopScope } from '../services/workshopScopeService';
+
+export const useWorkshopScope = () => {
+  const [scope, setScope] = useState<WorkshopScope>(workshopScopeService.getScope());
+
+  useEffect(() => {
+    const unsubscribe = workshopScopeService.subscribe(setScope);
+    return unsubscribe;
+  }, []);
+
+  const setPlantWide = (plantWide: boolean) => {
+    workshopScopeService.setPlantWide(plantWide);
+  };
+
+  return {
+    scope,
+    setPlantWide
+  };
+};
@@ -0,0 +1,269 @@
+import { db, DatabaseTransaction } from './database';
+import { logger } from './logger';
+import { permissionService } from './permissionService';
+import { workshopScopeService } from './workshopScopeService';
+import { reactionPlanService } from './reactionPlanService';
+import { ControlPlan, ControlPlanLine, ControlPlanPhase, ControlPlanRevision, InspectionFrequency } from '../types/spc';
+import { CHARACTERISTIC_CLASSES, formatSpecification } from '../utils/specifications';
+import { describeInspectionFrequency } from '../utils/inspectionSchedule';
+import { ControlPlanSnapshot, controlMethodFor } from '../utils/controlPlans';
+import { todayIsoDate } from '../utils/calibration';
+
+export interface ControlPlanHeaderInput {
+  planNumber: string;
+  phase: ControlPlanPhase;
+  partNumber: string;
+  partName: string;
+  supplierPlant: string;
+  keyContact: string;
+  coreTeam: string;
+  notes: string;
+}
+
+export interface ControlPlanRow extends ControlPlan {
+  route_name: string;
+  product_name?: string;
+  line_count: number;
+}
+
+export interface ControlPlanRevisionRow extends ControlPlanRevision {
+  released_by_name?: string;
+}
+
+const LINE_COLUMNS: (keyof ControlPlanLine)[] = [
+  'gamma_id', 'feature_id', 'process_number', 'process_name', 'machine', 'characteristic_number',
+  'product_characteristic', 'process_characteristic', 'special_class', 'specification',
+  'measurement_technique', 'sample_size', 'frequency', 'control_method', 'reaction_plan',
+];
+
+class ControlPlanService {
+  async listPlans(): Promise<ControlPlanRow[]> {
+    const scope = workshopScopeService.condition('COALESCE(r.workshop_id, p.workshop_id)');
+    return db.queryAll(
+      `SELECT cp.*, r.name as route_name, p.name as product_name,
+              (SELECT COUNT(*) FROM control_plan_lines l WHERE l.plan_id = cp.id) as line_count
+       FROM control_plans cp
+       JOIN routes r ON cp.route_id = r.id
+       LEFT JOIN products p ON p.id = COALESCE(cp.product_id, r.product_id)
+       WHERE ${scope.sql}
+       ORDER BY cp.plan_number`,
+      scope.params
+    );
+  }
+
+  async getSnapshot(planId: number): Promise<ControlPlanSnapshot> {
+    const plan = await db.queryOne(
+      `SELECT cp.*, r.name as route_name, p.name as product_name
+       FROM control_plans cp
+       JOIN routes r ON cp.route_id = r.id
+       LEFT JOIN products p ON p.id = COALESCE(cp.product_id, r.product_id)
+       WHERE cp.id = ?`,
+      [planId]
+    );
+    if (!plan) throw new Error('Control plan not found');
+
+    const lines: ControlPlanLine[] = await db.queryAll(
+      `SELECT id, ${LINE_COLUMNS.join(', ')} FROM control_plan_lines WHERE plan_id = ? ORDER BY sort_order, id`,
+      [planId]
+    );
+    return { plan, lines };
+  }
+
+  async listRevisions(planId: number): Promise<ControlPlanRevisionRow[]> {
+    return db.queryAll(
+      `SELECT cr.*, u.username as released_by_name
+       FROM control_plan_revisions cr LEFT JOIN users u ON cr.released_by = u.id
+       WHERE cr.plan_id = ? ORDER BY cr.revision`,
+      [planId]
+    );
+  }
+
+  // One line per characteristic of the route, in operation order, filled
+  // from the feature, its inspection frequency, the gauge last used on it
+  // and its reaction plan
+  async generateLines(routeId: number): Promise<ControlPlanLine[]> {
+    const route = await db.queryOne('SELECT id, product_id FROM routes WHERE id = ?', [routeId]);
+    if (!route) throw new Error('Route not found');
+
+    const features = await db.queryAll(
+      `SELECT f.*, g.sequence_number, g.operation_name, g.name as gamma_name, g.workstation as gamma_workstation,
+              w.name as workstation_name
+       FROM features f
+       LEFT JOIN gammas g ON f.gamma_id = g.id
+       LEFT JOIN workstations w ON f.workstation_id = w.id
+       WHERE f.route_id = ? OR (f.route_id IS NULL AND g.product_id = ?)
+       ORDER BY g.sequence_number IS NULL, g.sequence_number, f.id`,
+      [routeId, route.product_id]
+    );
+    if (features.length === 0) return [];
+
+    const placeholders = features.map(() => '?').join(', ');
+    const featureIds = features.map(feature => feature.id);
+    const frequencies: InspectionFrequency[] = await db.queryAll(
+      `SELECT * FROM inspection_frequencies WHERE active = 1 AND feature_id IN (${placeholders}) ORDER BY id`,
+      featureIds
+    );
+    const gauges = await db.queryAll(
+      `SELECT m.feature_id, gg.code, gg.name
+       FROM measurements m JOIN gauges gg ON m.gauge_id = gg.id
+       WHERE m.id IN (
+         SELECT MAX(id) FROM measurements WHERE gauge_id IS NOT NULL AND feature_id IN (${placeholders}) GROUP BY feature_id
+       )`,
+      featureIds
+    );
+
+    const lines: ControlPlanLine[] = [];
+    for (const [index, feature] of features.entries()) {
+      // A frequency for the feature's own operation wins over a general one
+      const frequency = frequencies.find(item => item.feature_id === feature.id && item.gamma_id === feature.gamma_id)
+        ?? frequencies.find(item => item.feature_id === feature.id && !item.gamma_id);
+      const gauge = gauges.find(item => item.feature_id === feature.id);
+      const reaction = await reactionPlanService.getPlan(feature.id);
+      const attribute = feature.characteristic_type === 'attribute';
+
+      lines.push({
+        gamma_id: feature.gamma_id ?? null,
+        feature_id: feature.id,
+        process_number: feature.sequence_number != null ? String(feature.sequence_number) : '',
+        process_name: feature.operation_name || feature.gamma_name || '',
+        machine: feature.workstation_name || feature.gamma_workstation || '',
+        characteristic_number: String(index + 1),
+        product_characteristic: feature.name,
+        process_characteristic: '',
+        special_class: CHARACTERISTIC_CLASSES.find(item => item.value === feature.characteristic_class)?.label ?? '',
+        specification: attribute ? feature.description ?? '' : formatSpecification(feature),
+        measurement_technique: gauge ? `${gauge.code} ${gauge.name}` : '',
+        sample_size: frequency ? String(frequency.sample_size) : '',
+        frequency: frequency ? describeInspectionFrequency(frequency.trigger_type, frequency.interval_value) : '',
+        control_method: controlMethodFor(feature.characteristic_type, frequency?.sample_size ?? null),
+        reaction_plan: reaction.instructions || reaction.actions.map(action => action.description || action.code).join('; '),
+      });
+    }
+    return lines;
+  }
+
+  async createFromRoute(routeId: number, userId: number | null): Promise<number | null> {
+    if (!permissionService.ensure('gammas')) return null;
+
+    const route = await db.queryOne(
+      `SELECT r.id, r.name, r.product_id, p.name as product_name, p.description as product_description, w.name as workshop_name
+       FROM routes r
+       LEFT JOIN products p ON r.product_id = p.id
+       LEFT JOIN workshops w ON w.id = COALESCE(r.workshop_id, p.workshop_id)
+       WHERE r.id = ?`,
+      [routeId]
+    );
+    if (!route) throw new Error('Route not found');
+    const existing = await db.queryOne('SELECT id FROM control_plans WHERE route_id = ?', [routeId]);
+    if (existing) throw new Error('This route already has a control plan');
+
+    const lines = await this.generateLines(routeId);
+    const planId = await db.transaction(async tx => {
+      const newPlanId = await tx.insert(
+        `INSERT INTO control_plans (route_id, product_id, plan_number, part_number, part_name, supplier_plant, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [routeId, route.product_id, `CP-${route.name}`, route.product_name, route.product_description, route.workshop_name, userId]
+      );
+      await this.insertLines(tx, newPlanId, lines);
+      return newPlanId;
+    });
+
+    logger.logUserAction('Create control plan', 'ControlPlans', { planId, routeId, lines: lines.length }, userId?.toString());
+    return planId;
+  }
+
+  // Editing a released plan starts the next revision as a draft
+  async savePlan(planId: number, header: ControlPlanHeaderInput, lines: ControlPlanLine[], userId: number | null): Promise<boolean> {
+    if (!permissionService.ensure('gammas')) return false;
+
+    if (!header.planNumber.trim()) {
+      throw new Error('The control plan needs a number');
+    }
+    const plan = await db.queryOne('SELECT revision, status FROM control_plans WHERE id = ?', [planId]);
+    if (!plan) throw new Error('Control plan not found');
+    const revision = plan.status === 'released' ? plan.revision + 1 : plan.revision;
+
+    await db.transaction(async tx => {
+      await tx.execute(
+        `UPDATE control_plans SET plan_number = ?, phase = ?, part_number = ?, part_name = ?, supplier_plant = ?,
+           key_contact = ?, core_team = ?, notes = ?, revision = ?, status = 'draft', updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [
+          header.planNumber.trim(),
+          header.phase,
+          header.partNumber.trim() || null,
+          header.partName.trim() || null,
+          header.supplierPlant.trim() || null,
+          header.keyContact.trim() || null,
+          header.coreTeam.trim() || null,
+          header.notes.trim() || null,
+          revision,
+          planId,
+        ]
+      );
+      await tx.execute('DELETE FROM control_plan_lines WHERE plan_id = ?', [planId]);
+      await this.insertLines(tx, planId, lines);
+    });
+
+    logger.logUserAction('Save control plan', 'ControlPlans', { planId, revision, lines: lines.length }, userId?.toString());
+    return true;
+  }
+
+  // Freezes the current draft as a numbered revision
+  async releaseRevision(planId: number, changeDescription: string, userId: number | null): Promise<boolean> {
+    if (!permissionService.ensure('gammas')) return false;
+
+    if (!changeDescription.trim()) {
+      throw new Error('Describe what changed in this revision');
+    }
+    const snapshot = await this.getSnapshot(planId);
+    if (snapshot.plan.status === 'released') {
+      throw new Error(`Revision ${snapshot.plan.revision} is already released`);
+    }
+
+    const revisionDate = todayIsoDate();
+    const released: ControlPlanSnapshot = {
+      plan: { ...snapshot.plan, status: 'released', revision_date: revisionDate },
+      lines: snapshot.lines,
+    };
+    await db.transaction(async tx => {
+      await tx.insert(
+        `INSERT INTO control_plan_revisions (plan_id, revision, change_description, snapshot, released_by)
+         VALUES (?, ?, ?, ?, ?)`,
+        [planId, snapshot.plan.revision, changeDescription.trim(), JSON.stringify(released), userId]
+      );
+      await tx.execute(
+        `UPDATE control_plans SET status = 'released', revision_date = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+        [revisionDate, planId]
+      );
+    });
+
+    logger.logUserAction('Release control plan revision', 'ControlPlans', { planId, revision: snapshot.plan.revision }, userId?.toString());
+    return true;
+  }
+
+  async deletePlan(planId: number): Promise<boolean> {
+    if (!permissionService.ensure('gammas')) return false;
+
+    await db.transaction(async tx => {
+      await tx.execute('DELETE FROM control_plan_revisions WHERE plan_id = ?', [planId]);
+      await tx.execute('DELETE FROM control_plan_lines WHERE plan_id = ?', [planId]);
+      await tx.execute('DELETE FROM control_plans WHERE id = ?', [planId]);
+    });
+    logger.logUserAction('Delete control plan', 'ControlPlans', { planId });
+    return true;
+  }
+
+  private async insertLines(tx: DatabaseTransaction, planId: number, lines: ControlPlanLine[]): Promise<void> {
+    for (const [index, line] of lines.entries()) {
+      await tx.insert(
+        `INSERT INTO control_plan_lines (plan_id, sort_order, ${LINE_COLUMNS.join(', ')})
+         VALUES (?, ?, ${LINE_COLUMNS.map(() => '?').join(', ')})`,
+        [planId, index, ...LINE_COLUMNS.map(column => line[column] ?? null)]
+      );
+    }
+  }
+}
+
+// Export singleton instance
+export const controlPlanService = new ControlPlanService();
@@ -1,5 +1,6 @@
 import { db } from './database';
 import { logger } from './logger';
+import { permissionService } from './permissionService';
 
 export interface TableInfo {
   name: string;
@@ -52,10 +53,13 @@ export interface TableData {
 class CrudService {
   private readonly ADMIN_TABLES = [
     'users', 'workshops', 'workstations', 'groups', 'families', 'products', 
-    'routes', 'features', 'gammas', 'measurements', 'registration_codes',
+    'routes', 'features', 'gammas', 'measurements', 'attribute_inspections', 'measurement_samples', 'registration_codes',
     'user_validation_requests', 'notifications', 'system_settings',
     'user_preferences', 'user_settings', 'images', 'workshop_methods',
-    'family_workshops', 'schema_version'
+    'family_workshops', 'schema_version', 'gage_studies', 'gage_study_readings',
+    'gauges', 'gauge_calibrations', 'reaction_plans', 'reaction_plan_items', 'nonconformances',
+    'notification_rules', 'notification_events', 'inspection_frequencies', 'production_events', 'inspection_checks',
+    'control_plans', 'control_plan_lines', 'control_plan_revisions', 'ncrs', 'ncr_history'
   ];
 
   private readonly READONLY_TABLES = [
@@ -74,13 +78,22 @@ class CrudService {
         WHERE type='table' AND name NOT LIKE 'sqlite_%'
         ORDER BY name
       `);
-      return tables.map(t => t.name).filter(name => this.ADMIN_TABLES.includes(name));
+      return tables
+        .map(t => t.name)
+        .filter(name => this.ADMIN_TABLES.includes(name) && permissionService.canAccessTable(name));
     } catch (error) {
       console.error('Error getting available tables:', error);
       return [];
     }
   }
 
+  // Writes need database write rights and write rights on the table's resource
+  canModifyTable(tableName: string): boolean {
+    return !this.READONLY_TABLES.includes(tableName)
+      && permissionService.can('database', 'write')
+      && permissionService.canAccessTable(tableName, 'write');
+  }
+
   // Get detailed table information
   async getTableInfo(tableName: string): Promise<TableInfo | null> {
     try {
@@ -206,6 +219,10 @@ class CrudService {
         return { success: false, error: 'Cannot modify readonly table' };
       }
 
+      if (!this.canModifyTable(tableName)) {
+        return { success: false, error: 'Permission denied' };
+      }
+
       const tableInfo = await this.getTableInfo(tableName);
       if (!tableInfo) {
         return { success: false, error: 'Table not found' };
@@ -242,6 +259,10 @@ class CrudService {
         return { success: false, error: 'Cannot modify readonly table' };
       }
 
+      if (!this.canModifyTable(tableName)) {
+        return { success: false, error: 'Permission denied' };
+      }
+
       const tableInfo = await this.getTableInfo(tableName);
       if (!tableInfo) {
         return { success: false, error: 'Table not found' };
@@ -290,6 +311,10 @@ class CrudService {
         return { success: false, error: 'Cannot modify readonly table' };
       }
 
+      if (!this.canModifyTable(tableName)) {
+        return { success: false, error: 'Permission denied' };
+      }
+
       if (this.DANGEROUS_TABLES.includes(tableName)) {
         return { success: false, error: 'Cannot delete from dangerous table. Use specialized functions.' };
       }
@@ -321,6 +346,10 @@ class CrudService {
   async executeQuery(sql: string, params: any[] = []): Promise<QueryResult> {
     try {
       const startTime = Date.now();
+
+      if (!permissionService.can('database', 'read')) {
+        return { success: false, error: 'Permission denied' };
+      }
       
       // Basic SQL injection protection
       const dangerousKeywords = ['DROP', 'ALTER', 'CREATE', 'DELETE', 'UPDATE', 'INSERT'];
@@ -0,0 +1,343 @@
+import { db } from './database';
+import { logger } from './logger';
+import { permissionService, PermissionLevel, PermissionResource } from './permissionService';
+import { workshopScopeService } from './workshopScopeService';
+import { inspectionScheduleService } from './inspectionScheduleService';
+import { DashboardLayout, DashboardWidgetType, DataPoint, FeatureSpecification } from '../types/spc';
+import { builtInLayout, parseLayout } from '../utils/dashboardLayout';
+import { InspectionState } from '../utils/inspectionSchedule';
+import { windowCapability } from '../utils/notificationRules';
+import { fromSqlTimestamp, toSqlTimestamp } from '../utils/dateTime';
+
+export type DashboardLayoutSource = 'user' | 'role' | 'built-in';
+
+export interface KeyFigures {
+  workshops: number;
+  products: number;
+  features: number;
+  measurements: number;
+}
+
+export interface WorkshopSummary {
+  id: number;
+  name: string;
+  description?: string;
+  workstation_count: number;
+  product_count: number;
+}
+
+export interface RecentMeasurement {
+  id: number;
+  measured_value: number;
+  timestamp: string;
+  feature_name?: string;
+  product_name?: string;
+  workshop_name?: string;
+  operator?: string;
+}
+
+export interface DashboardChartFeature extends FeatureSpecification {
+  id: number;
+  name: string;
+  product_name?: string;
+}
+
+export interface CpkHeatmapCell {
+  feature_id: number;
+  feature_name: string;
+  index: 'Cpk' | 'Ppk' | null;
+  value: number | null;
+  subgroups: number;
+}
+
+export interface CpkHeatmapRow {
+  workstation_id: number;
+  workstation_name: string;
+  cells: CpkHeatmapCell[];
+}
+
+export interface OutOfControlCounts {
+  specification: number; // Beyond a specification limit
+  control: number; // Beyond a control limit only
+  open: number; // Still waiting for a reaction
+}
+
+export interface DueInspection {
+  frequencyId: number;
+  featureName: string;
+  productName?: string;
+  workstationName: string;
+  state: InspectionState;
+  dueAt: Date | null;
+}
+
+const USER_LAYOUT_SETTING = 'dashboard_layout';
+const roleLayoutSetting = (role: string) => `dashboard_layout_${role}`;
+
+// Capability needs some history; fewer subgroups leave the cell blank
+const HEATMAP_MIN_SUBGROUPS = 10;
+const HEATMAP_MAX_MEASUREMENTS = 20000;
+
+// Right a user needs to see each widget; the others show data anyone
+// logged in can already see
+const WIDGET_PERMISSIONS: Partial<Record<DashboardWidgetType, [PermissionResource, PermissionLevel]>> = {
+  'recent-measurements': ['measurements', 'read'],
+  'control-chart': ['measurements', 'read'],
+  'cpk-heatmap': ['features', 'read'],
+  'out-of-control': ['measurements', 'read'],
+  'overdue-inspections': ['measurements', 'read'],
+  'recent-ncrs': ['measurements', 'read'],
+  'pending-validations': ['users', 'read'],
+};
+
+const daysAgo = (days: number) => toSqlTimestamp(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+
+class DashboardService {
+  canUseWidget(type: DashboardWidgetType): boolean {
+    const required = WIDGET_PERMISSIONS[type];
+    return !required || permissionService.can(required[0], required[1]);
+  }
+
+  // The user's own layout, else the default an administrator set for the
+  // role, else the built-in one
+  async getLayout(userId: number, role: string): Promise<{ layout: DashboardLayout; source: DashboardLayoutSource }> {
+    const own = parseLayout(await db.getUserSetting(userId, USER_LAYOUT_SETTING));
+    if (own) return { layout: own, source: 'user' };
+
+    const roleDefault = await this.getRoleDefault(role);
+    if (roleDefault) return { layout: roleDefault, source: 'role' };
+    return { layout: builtInLayout(role), source: 'built-in' };
+  }
+
+  async saveLayout(userId: number, layout: DashboardLayout): Promise<void> {
+    const saved = await db.setUserSetting(userId, USER_LAYOUT_SETTING, JSON.stringify(layout));
+    if (!saved) throw new Error('The dashboard layout could not be saved');
+    logger.logUserAction('Save dashboard layout', 'Dashboard', { widgets: layout.widgets.length }, userId.toString());
+  }
+
+  // Drops the user's layout so the role default applies again
+  async resetLayout(userId: number): Promise<void> {
+    await db.deleteUserSetting(userId, USER_LAYOUT_SETTING);
+    logger.logUserAction('Reset dashboard layout', 'Dashboard', {}, userId.toString());
+  }
+
+  async getRoleDefault(role: string): Promise<DashboardLayout | null> {
+    const row = await db.queryOne('SELECT setting_value FROM system_settings WHERE setting_key = ?', [roleLayoutSetting(role)]);
+    return parseLayout(row?.setting_value);
+  }
+
+  async saveRoleDefault(role: string, layout: DashboardLayout, userId: number | null): Promise<boolean> {
+    if (!permissionService.ensure('database', 'admin')) return false;
+
+    const key = roleLayoutSetting(role);
+    const value = JSON.stringify(layout);
+    const existing = await db.queryOne('SELECT id FROM system_settings WHERE setting_key = ?', [key]);
+    if (existing) {
+      await db.execute(
+        'UPDATE system_settings SET setting_value = ?, updated_at = CURRENT_TIMESTAMP WHERE setting_key = ?',
+        [value, key]
+      );
+    } else {
+      await db.insert(
+        'INSERT INTO system_settings (setting_key, setting_value, description) VALUES (?, ?, ?)',
+        [key, value, `Default dashboard layout for the ${role} role`]
+      );
+    }
+    logger.logUserAction('Save role dashboard layout', 'Dashboard', { role, widgets: layout.widgets.length }, userId?.toString());
+    return true;
+  }
+
+  async getKeyFigures(): Promise<KeyFigures> {
+    const workshopScope = workshopScopeService.condition('id');
+    const productScope = workshopScopeService.condition('p.workshop_id');
+    const measurementScope = workshopScopeService.condition('workshop_id');
+    const [workshops, products, features, measurements] = await Promise.all([
+      db.queryOne(`SELECT COUNT(*) as count FROM workshops WHERE ${workshopScope.sql}`, workshopScope.params),
+      db.queryOne(`SELECT COUNT(*) as count FROM products p WHERE ${productScope.sql}`, productScope.params),
+      db.queryOne(
+        `SELECT COUNT(*) as count FROM features f
+         LEFT JOIN gammas g ON f.gamma_id = g.id
+         LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+         WHERE ${productScope.sql}`,
+        productScope.params
+      ),
+      db.queryOne(`SELECT COUNT(*) as count FROM measurements WHERE ${measurementScope.sql}`, measurementScope.params),
+    ]);
+    return {
+      workshops: workshops?.count ?? 0,
+      products: products?.count ?? 0,
+      features: features?.count ?? 0,
+      measurements: measurements?.count ?? 0,
+    };
+  }
+
+  async listWorkshops(): Promise<WorkshopSummary[]> {
+    const scope = workshopScopeService.condition('ws.id');
+    return db.queryAll(
+      `SELECT ws.id, ws.name, ws.description,
+              (SELECT COUNT(*) FROM workstations w WHERE w.workshop_id = ws.id) as workstation_count,
+              (SELECT COUNT(*) FROM products p WHERE p.workshop_id = ws.id) as product_count
+       FROM workshops ws
+       WHERE ${scope.sql}
+       ORDER BY ws.name`,
+      scope.params
+    );
+  }
+
+  async listRecentMeasurements(limit: number = 10): Promise<RecentMeasurement[]> {
+    const scope = workshopScopeService.condition('m.workshop_id');
+    return db.queryAll(
+      `SELECT m.id, m.measured_value, m.timestamp, f.name as feature_name, p.name as product_name,
+              ws.name as workshop_name, u.username as operator
+       FROM measurements m
+       LEFT JOIN features f ON m.feature_id = f.id
+       LEFT JOIN products p ON m.product_id = p.id
+       LEFT JOIN workshops ws ON m.workshop_id = ws.id
+       LEFT JOIN users u ON m.operator_id = u.id
+       WHERE ${scope.sql}
+       ORDER BY m.timestamp DESC, m.id DESC LIMIT ?`,
+      [...scope.params, limit]
+    );
+  }
+
+  // Variable features in scope, for picking what a chart widget follows
+  async listChartFeatures(): Promise<DashboardChartFeature[]> {
+    const scope = workshopScopeService.condition('p.workshop_id');
+    return db.queryAll(
+      `SELECT f.id, f.name, p.name as product_name
+       FROM features f
+       LEFT JOIN gammas g ON f.gamma_id = g.id
+       LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+       WHERE COALESCE(f.characteristic_type, 'variable') = 'variable' AND ${scope.sql}
+       ORDER BY p.name, f.name`,
+      scope.params
+    );
+  }
+
+  // The feature and its newest `points` values, oldest first
+  async getChartData(featureId: number, points: number): Promise<{ feature: DashboardChartFeature; values: DataPoint[] } | null> {
+    const feature = await db.queryOne(
+      `SELECT f.*, p.name as product_name
+       FROM features f
+       LEFT JOIN gammas g ON f.gamma_id = g.id
+       LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+       WHERE f.id = ?`,
+      [featureId]
+    );
+    if (!feature) return null;
+
+    const rows = await db.queryAll(
+      `SELECT m.id, m.measured_value, m.timestamp, m.notes, u.username as operator
+       FROM measurements m LEFT JOIN users u ON m.operator_id = u.id
+       WHERE m.feature_id = ? ORDER BY m.timestamp DESC, m.id DESC LIMIT ?`,
+      [featureId, points]
+    );
+    return {
+      feature,
+      values: rows.reverse().map(row => ({
+        id: String(row.id),
+        value: Number(row.measured_value),
+        timestamp: fromSqlTimestamp(row.timestamp),
+        operator: row.operator ?? undefined,
+        notes: row.notes ?? undefined,
+      })),
+    };
+  }
+
+  // Capability of each feature measured at each workstation over the last
+  // `days` days
+  async getCpkHeatmap(days: number): Promise<CpkHeatmapRow[]> {
+    const scope = workshopScopeService.condition('m.workshop_id');
+    const rows = await db.queryAll(
+      `SELECT m.id, m.feature_id, m.workstation_id, m.measured_value, m.timestamp, s.subgroup_number,
+              w.name as workstation_name
+       FROM measurements m
+       JOIN workstations w ON m.workstation_id = w.id
+       JOIN features f ON m.feature_id = f.id
+       LEFT JOIN measurement_samples s ON m.sample_id = s.id
+       WHERE m.timestamp >= ? AND COALESCE(f.characteristic_type, 'variable') = 'variable' AND ${scope.sql}
+       ORDER BY m.timestamp, m.id LIMIT ?`,
+      [daysAgo(days), ...scope.params, HEATMAP_MAX_MEASUREMENTS]
+    );
+    if (rows.length === 0) return [];
+
+    const featureIds = Array.from(new Set(rows.map(row => row.feature_id)));
+    const features: DashboardChartFeature[] = await db.queryAll(
+      `SELECT * FROM features WHERE id IN (${featureIds.map(() => '?').join(', ')})`,
+      featureIds
+    );
+
+    const groups = new Map<string, { workstationId: number; workstationName: string; featureId: number; points: DataPoint[] }>();
+    for (const row of rows) {
+      const key = `${row.workstation_id}:${row.feature_id}`;
+      const group = groups.get(key)
+        ?? { workstationId: row.workstation_id, workstationName: row.workstation_name, featureId: row.feature_id, points: [] as DataPoint[] };
+      group.points.push({
+        id: String(row.id),
+        value: Number(row.measured_value),
+        timestamp: fromSqlTimestamp(row.timestamp),
+        subgroup: row.subgroup_number ?? undefined,
+      });
+      groups.set(key, group);
+    }
+
+    const heatmap = new Map<number, CpkHeatmapRow>();
+    for (const group of groups.values()) {
+      const feature = features.find(item => item.id === group.featureId);
+      if (!feature) continue;
+      const capability = windowCapability(group.points, feature, group.points.length, HEATMAP_MIN_SUBGROUPS);
+      const row = heatmap.get(group.workstationId) ?? { workstation_id: group.workstationId, workstation_name: group.workstationName, cells: [] };
+      row.cells.push({
+        feature_id: feature.id,
+        feature_name: feature.name,
+        index: capability?.index ?? null,
+        value: capability?.value ?? null,
+        subgroups: capability?.subgroups ?? 0,
+      });
+      heatmap.set(group.workstationId, row);
+    }
+    return Array.from(heatmap.values())
+      .map(row => ({ ...row, cells: row.cells.sort((a, b) => a.feature_name.localeCompare(b.feature_name)) }))
+      .sort((a, b) => a.workstation_name.localeCompare(b.workstation_name));
+  }
+
+  // Values recorded out of control over the last `days` days
+  async getOutOfControlCounts(days: number): Promise<OutOfControlCounts> {
+    const scope = workshopScopeService.condition('workshop_id');
+    const row = await db.queryOne(
+      `SELECT SUM(CASE WHEN violation IN ('above-usl', 'below-lsl') THEN 1 ELSE 0 END) as specification,
+              SUM(CASE WHEN violation IN ('above-ucl', 'below-lcl') THEN 1 ELSE 0 END) as control,
+              SUM(CASE WHEN status = 'open' THEN 1 ELSE 0 END) as open
+       FROM nonconformances
+       WHERE created_at >= ? AND ${scope.sql}`,
+      [daysAgo(days), ...scope.params]
+    );
+    return {
+      specification: row?.specification ?? 0,
+      control: row?.control ?? 0,
+      open: row?.open ?? 0,
+    };
+  }
+
+  async listDueInspections(): Promise<DueInspection[]> {
+    const due = await inspectionScheduleService.listDueChecks();
+    if (due.length === 0) return [];
+
+    const workstationIds = Array.from(new Set(due.map(item => item.workstationId)));
+    const workstations = await db.queryAll(
+      `SELECT id, name FROM workstations WHERE id IN (${workstationIds.map(() => '?').join(', ')})`,
+      workstationIds
+    );
+    return due.map(item => ({
+      frequencyId: item.frequency.id,
+      featureName: item.frequency.feature_name,
+      productName: item.frequency.product_name,
+      workstationName: workstations.find(workstation => workstation.id === item.workstationId)?.name ?? '',
+      state: item.status.state,
+      dueAt: item.status.dueAt,
+    }));
+  }
+}
+
+// Export singleton instance
+export const dashboardService = new DashboardService();
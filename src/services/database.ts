@@ -1,6 +1,37 @@
 // SQL.js will be imported dynamically
 import { logger } from './logger';
 import { encryption } from './encryption';
+import { databaseStorage } from './databaseStorage';
+import {
+  LATEST_SCHEMA_VERSION,
+  GAGE_STUDIES_TABLE,
+  GAGE_STUDY_READINGS_TABLE,
+  GAGE_STUDY_READINGS_INDEX,
+  GAUGES_TABLE,
+  GAUGE_CALIBRATIONS_TABLE,
+  GAUGE_CALIBRATIONS_INDEX,
+  CALIBRATION_WARNING_SETTING,
+  REACTION_PLANS_TABLE,
+  REACTION_PLAN_ITEMS_TABLE,
+  NONCONFORMANCES_TABLE,
+  NONCONFORMANCES_INDEX,
+  NOTIFICATION_RULES_TABLE,
+  NOTIFICATION_EVENTS_TABLE,
+  NOTIFICATION_EVENTS_INDEX,
+  INSPECTION_FREQUENCIES_TABLE,
+  PRODUCTION_EVENTS_TABLE,
+  PRODUCTION_EVENTS_INDEX,
+  INSPECTION_CHECKS_TABLE,
+  SHIFT_START_SETTING,
+  CONTROL_PLANS_TABLE,
+  CONTROL_PLAN_LINES_TABLE,
+  CONTROL_PLAN_REVISIONS_TABLE,
+  NCRS_TABLE,
+  NCRS_INDEX,
+  NCR_HISTORY_TABLE,
+  LOGS_TABLE
+} from './schemaMigrations';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
 
 // Electron API types
 declare global {
@@ -8,23 +39,43 @@ declare global {
     electronAPI: {
       dbExecute: (sql: string, params?: any[]) => Promise<{ success: boolean; result?: any; error?: string }>;
       dbQuery: (sql: string, params?: any[]) => Promise<{ success: boolean; result?: any[]; error?: string }>;
+      dbTransaction: (action: 'begin' | 'commit' | 'rollback') => Promise<{ success: boolean; error?: string }>;
       dbInit: () => Promise<{ success: boolean; error?: string }>;
       validateBackupAdminPassword: (backupPath: string, password: string) => Promise<{ success: boolean; valid?: boolean; error?: string }>;
       resetDatabase: () => Promise<{ success: boolean; error?: string }>;
       backupDatabase: () => Promise<{ success: boolean; filePath?: string; error?: string }>;
       restoreDatabase: (backupPath: string) => Promise<{ success: boolean; error?: string }>;
       showOpenDialog: () => Promise<{ success: boolean; filePath?: string; error?: string }>;
+      readImportFile: (filePath: string) => Promise<{ success: boolean; data?: Uint8Array; fileName?: string; error?: string }>;
+      saveHtmlAsPdf: (html: string, defaultFileName: string) => Promise<{ success: boolean; filePath?: string; canceled?: boolean; error?: string }>;
+      onMenuImportData: (callback: (event: unknown, filePath: string) => void) => void;
+      removeAllListeners: (channel: string) => void;
     };
   }
 }
 
+// Statements run inside db.transaction(); they bypass the lock that holds
+// back other callers until the transaction ends
+export interface DatabaseTransaction {
+  execute(sql: string, params?: unknown[]): Promise<number>;
+  insert(sql: string, params?: unknown[]): Promise<number>;
+  queryAll<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]>;
+  queryOne<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T | null>;
+}
+
 class DatabaseService {
   private db: any = null;
   private initialized: boolean = false;
   private initializing: boolean = false;
-  private readonly SCHEMA_VERSION = 1; // Clean start - no migrations needed
   private isElectron: boolean = false;
   private SQLConstructor: any = null;
+  // Tail of the FIFO queue every statement and transaction runs through
+  private queue: Promise<unknown> = Promise.resolve();
+  private inTransaction: boolean = false;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private dirty: boolean = false;
+  private saving: Promise<void> = Promise.resolve();
+  private readonly SAVE_DELAY_MS = 1000;
 
   async initialize() {
     if (this.initialized) {
@@ -83,29 +134,32 @@ class DatabaseService {
       const initSqlJs = (await import('sql.js')).default;
       
       // Initialize SQL.js for web environment with proper configuration
+      // The WASM binary ships with the app bundle so web mode works offline
       const SQL = await initSqlJs({
-        locateFile: file => {
-          // Use CDN for WASM files to avoid MIME type issues
-          if (file.endsWith('.wasm')) {
-            return `https://sql.js.org/dist/${file}`;
-          }
-          return file;
-        }
+        locateFile: () => sqlWasmUrl
       });
       
       // Store the SQL constructor for later use
       this.SQLConstructor = SQL.Database;
       
-      // Try to load existing database from localStorage first
-      if (this.loadFromLocalStorage()) {
-        console.log('Loaded existing database from localStorage');
-        logger.logDatabase('INIT', 'Database loaded from localStorage');
+      // Try to load existing database from IndexedDB first
+      if (await this.loadFromStorage()) {
+        console.log('Loaded existing database from IndexedDB');
+        logger.logDatabase('INIT', 'Database loaded from IndexedDB');
       } else {
         // No existing database, create a fresh one
         console.log('Creating fresh database with complete schema...');
         this.db = new SQL.Database();
         await this.createTables();
       }
+
+      // Write pending changes before the tab goes away
+      window.addEventListener('pagehide', () => { void this.flushSave(); });
+      document.addEventListener('visibilitychange', () => {
+        if (document.visibilityState === 'hidden') {
+          void this.flushSave();
+        }
+      });
       
       logger.logDatabase('INIT', 'Database initialized successfully (Web)');
     } catch (error) {
@@ -174,7 +228,6 @@ class DatabaseService {
       `CREATE TABLE IF NOT EXISTS measurements (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         product_id INTEGER NOT NULL,
-        value REAL NOT NULL,
         feature_id INTEGER,
         route_id INTEGER,
         gamma_id INTEGER,
@@ -184,7 +237,8 @@ class DatabaseService {
         workshop_id INTEGER,
         timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
         notes TEXT,
-        user_id INTEGER,
+        sample_id INTEGER,
+        gauge_id INTEGER,
         FOREIGN KEY (product_id) REFERENCES products(id),
         FOREIGN KEY (feature_id) REFERENCES features(id),
         FOREIGN KEY (route_id) REFERENCES routes(id),
@@ -192,7 +246,31 @@ class DatabaseService {
         FOREIGN KEY (workstation_id) REFERENCES workstations(id),
         FOREIGN KEY (workshop_id) REFERENCES workshops(id),
         FOREIGN KEY (operator_id) REFERENCES users(id),
-        FOREIGN KEY (user_id) REFERENCES users(id)
+        FOREIGN KEY (sample_id) REFERENCES measurement_samples(id),
+        FOREIGN KEY (gauge_id) REFERENCES gauges(id)
+      )`,
+      
+      // Measurement samples table (one inspected part: serial/lot traceability and subgroup)
+      `CREATE TABLE IF NOT EXISTS measurement_samples (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id INTEGER,
+        route_id INTEGER,
+        gamma_id INTEGER,
+        serial_number TEXT,
+        lot_number TEXT,
+        batch TEXT,
+        subgroup_number INTEGER,
+        operator_id INTEGER,
+        workstation_id INTEGER,
+        workshop_id INTEGER,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        notes TEXT,
+        FOREIGN KEY (product_id) REFERENCES products(id),
+        FOREIGN KEY (route_id) REFERENCES routes(id),
+        FOREIGN KEY (gamma_id) REFERENCES gammas(id),
+        FOREIGN KEY (operator_id) REFERENCES users(id),
+        FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id)
       )`,
       
       // Groups table
@@ -200,6 +278,7 @@ class DatabaseService {
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         name TEXT NOT NULL,
         description TEXT,
+        permissions TEXT,
         permissions_families TEXT DEFAULT "read",
         permissions_products TEXT DEFAULT "read",
         permissions_features TEXT DEFAULT "read",
@@ -210,7 +289,8 @@ class DatabaseService {
         permissions_database TEXT DEFAULT "read",
         permissions_storage TEXT DEFAULT "read",
         permissions_logs TEXT DEFAULT "read",
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )`,
       
       // Sections table
@@ -241,8 +321,20 @@ class DatabaseService {
         product_id INTEGER,
         workshop_id INTEGER,
         workstation_id INTEGER,
+        route_id INTEGER,
         image_filename TEXT,
+        image_url TEXT,
         gamma_id INTEGER,
+        characteristic_type TEXT DEFAULT 'variable',
+        specification_type TEXT DEFAULT 'nominal',
+        target_value REAL,
+        tolerance_plus REAL,
+        tolerance_minus REAL,
+        specification_min REAL,
+        specification_max REAL,
+        unit TEXT,
+        decimal_places INTEGER DEFAULT 3,
+        characteristic_class TEXT DEFAULT 'minor',
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (product_id) REFERENCES products(id),
@@ -251,6 +343,33 @@ class DatabaseService {
         FOREIGN KEY (gamma_id) REFERENCES gammas(id)
       )`,
       
+      // Attribute inspections table (go/no-go and defect counts per inspected lot)
+      `CREATE TABLE IF NOT EXISTS attribute_inspections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        feature_id INTEGER NOT NULL,
+        route_id INTEGER,
+        product_id INTEGER,
+        gamma_id INTEGER,
+        sample_size INTEGER NOT NULL,
+        defective_count INTEGER,
+        defect_count INTEGER,
+        lot_number TEXT,
+        operator_id INTEGER,
+        workstation_id INTEGER,
+        workshop_id INTEGER,
+        sample_id INTEGER,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        notes TEXT,
+        FOREIGN KEY (feature_id) REFERENCES features(id),
+        FOREIGN KEY (route_id) REFERENCES routes(id),
+        FOREIGN KEY (product_id) REFERENCES products(id),
+        FOREIGN KEY (gamma_id) REFERENCES gammas(id),
+        FOREIGN KEY (operator_id) REFERENCES users(id),
+        FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id),
+        FOREIGN KEY (sample_id) REFERENCES measurement_samples(id)
+      )`,
+      
       // Registration codes table
       `CREATE TABLE IF NOT EXISTS registration_codes (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -338,6 +457,7 @@ class DatabaseService {
         family_id INTEGER NOT NULL,
         workshop_id INTEGER NOT NULL,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (family_id) REFERENCES families(id),
         FOREIGN KEY (workshop_id) REFERENCES workshops(id),
         UNIQUE(family_id, workshop_id)
@@ -368,11 +488,14 @@ class DatabaseService {
         validated_by INTEGER,
         validated_at DATETIME,
         rejection_reason TEXT,
+        processed_at DATETIME,
+        processed_by INTEGER,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (requested_workshop_id) REFERENCES workshops(id),
         FOREIGN KEY (requested_workstation_id) REFERENCES workstations(id),
         FOREIGN KEY (requested_group_id) REFERENCES groups(id),
-        FOREIGN KEY (validated_by) REFERENCES users(id)
+        FOREIGN KEY (validated_by) REFERENCES users(id),
+        FOREIGN KEY (processed_by) REFERENCES users(id)
       )`,
       
       // Notifications table
@@ -384,7 +507,10 @@ class DatabaseService {
         user_id INTEGER,
         read_at DATETIME,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (user_id) REFERENCES users(id)
+        severity TEXT,
+        event_id INTEGER,
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        FOREIGN KEY (event_id) REFERENCES notification_events(id) ON DELETE SET NULL
       )`,
       
       // User preferences table
@@ -416,7 +542,32 @@ class DatabaseService {
         filename TEXT UNIQUE NOT NULL,
         image_data TEXT NOT NULL,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )`
+      )`,
+
+      GAGE_STUDIES_TABLE,
+      GAGE_STUDY_READINGS_TABLE,
+      GAGE_STUDY_READINGS_INDEX,
+      GAUGES_TABLE,
+      GAUGE_CALIBRATIONS_TABLE,
+      GAUGE_CALIBRATIONS_INDEX,
+      REACTION_PLANS_TABLE,
+      REACTION_PLAN_ITEMS_TABLE,
+      NONCONFORMANCES_TABLE,
+      NONCONFORMANCES_INDEX,
+      NOTIFICATION_RULES_TABLE,
+      NOTIFICATION_EVENTS_TABLE,
+      NOTIFICATION_EVENTS_INDEX,
+      INSPECTION_FREQUENCIES_TABLE,
+      PRODUCTION_EVENTS_TABLE,
+      PRODUCTION_EVENTS_INDEX,
+      INSPECTION_CHECKS_TABLE,
+      CONTROL_PLANS_TABLE,
+      CONTROL_PLAN_LINES_TABLE,
+      CONTROL_PLAN_REVISIONS_TABLE,
+      NCRS_TABLE,
+      NCRS_INDEX,
+      NCR_HISTORY_TABLE,
+      LOGS_TABLE
     ];
 
     for (const tableSql of tables) {
@@ -430,60 +581,68 @@ class DatabaseService {
       ('password_optional_for_production', 'true', 'Whether passwords are optional for production users'),
       ('password_required_for_all', 'false', 'Whether passwords are required for all user types'),
       ('sidebar_always_visible', 'false', 'Whether sidebar should always be visible on desktop')`);
+    this.db.exec(CALIBRATION_WARNING_SETTING);
+    this.db.exec(SHIFT_START_SETTING);
     
     // Initialize schema version
-    this.db.exec(`INSERT OR IGNORE INTO schema_version (version) VALUES (7)`);
+    this.db.exec(`INSERT OR IGNORE INTO schema_version (version) VALUES (${LATEST_SCHEMA_VERSION})`);
     
-    this.saveToLocalStorage();
+    this.dirty = true;
+    await this.flushSave();
   }
 
-  private saveToLocalStorage() {
-    if (this.db && typeof window !== 'undefined' && window.localStorage) {
-      try {
-        const data = this.db.export();
-        const uint8Array = new Uint8Array(data);
-        
-        // Use a more efficient method to convert to base64
-        let binary = '';
-        const len = uint8Array.byteLength;
-        for (let i = 0; i < len; i++) {
-          binary += String.fromCharCode(uint8Array[i]);
-        }
-        const base64 = btoa(binary);
-        
-        // Check if the data is too large for localStorage
-        if (base64.length > 5 * 1024 * 1024) { // 5MB limit
-          console.warn('Database too large for localStorage, skipping save');
-          return;
-        }
-        
-        localStorage.setItem('spc_database', base64);
-      } catch (error) {
-        console.warn('Failed to save database to localStorage:', error);
-      }
+  // sql.js keeps the database in memory and exports it whole; databaseStorage
+  // compares the export with the last saved one and writes only the pages
+  // that changed. Single statements are batched: each one marks the database
+  // dirty and the save runs once they settle. Committed transactions are
+  // saved right away. The save started on pagehide is asynchronous and the
+  // browser may not finish it, so statements from the last SAVE_DELAY_MS
+  // outside a transaction can be lost when the tab closes.
+  private scheduleSave() {
+    if (!this.db || window.electronAPI) return;
+
+    this.dirty = true;
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
     }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      void this.flushSave();
+    }, this.SAVE_DELAY_MS);
   }
 
-  private loadFromLocalStorage() {
-    if (typeof window !== 'undefined' && window.localStorage) {
-      try {
-        const base64 = localStorage.getItem('spc_database');
-        if (base64) {
-          const binaryString = atob(base64);
-          const bytes = new Uint8Array(binaryString.length);
-          for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-          }
-          // Create a new database instance with the loaded data
-          // We'll need to store the SQL constructor reference
-          if (this.SQLConstructor) {
-            this.db = new this.SQLConstructor(bytes);
-            return true;
-          }
-        }
-      } catch (error) {
-        console.warn('Failed to load database from localStorage:', error);
+  private flushSave(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.dirty || !this.db || window.electronAPI) return this.saving;
+    // export() would end the open transaction; try again after the commit
+    if (this.inTransaction) {
+      this.scheduleSave();
+      return this.saving;
+    }
+
+    this.dirty = false;
+    const data: Uint8Array = this.db.export();
+    this.saving = this.saving
+      .then(() => databaseStorage.save(data))
+      .catch(error => {
+        this.dirty = true;
+        console.warn('Failed to save database to IndexedDB:', error);
+      });
+    return this.saving;
+  }
+
+  private async loadFromStorage(): Promise<boolean> {
+    try {
+      const data = await databaseStorage.load();
+      if (data && this.SQLConstructor) {
+        this.db = new this.SQLConstructor(data);
+        return true;
       }
+    } catch (error) {
+      console.warn('Failed to load database from IndexedDB:', error);
     }
     return false;
   }
@@ -702,11 +861,17 @@ class DatabaseService {
       route_id INTEGER,
       product_id INTEGER,
       workshop_id INTEGER,
-      specification_type TEXT,
+      gamma_id INTEGER,
+      characteristic_type TEXT DEFAULT 'variable',
+      specification_type TEXT DEFAULT 'nominal',
       target_value REAL,
       tolerance_plus REAL,
       tolerance_minus REAL,
+      specification_min REAL,
+      specification_max REAL,
       unit TEXT,
+      decimal_places INTEGER DEFAULT 3,
+      characteristic_class TEXT DEFAULT 'minor',
       image_url TEXT,
       image_filename TEXT,
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
@@ -728,13 +893,15 @@ class DatabaseService {
       workshop_id INTEGER,
       timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
       notes TEXT,
+      sample_id INTEGER,
       FOREIGN KEY (feature_id) REFERENCES features (id),
       FOREIGN KEY (route_id) REFERENCES routes (id),
       FOREIGN KEY (product_id) REFERENCES products (id),
       FOREIGN KEY (gamma_id) REFERENCES gammas (id),
       FOREIGN KEY (workstation_id) REFERENCES workstations (id),
       FOREIGN KEY (workshop_id) REFERENCES workshops (id),
-      FOREIGN KEY (operator_id) REFERENCES users (id)
+      FOREIGN KEY (operator_id) REFERENCES users (id),
+      FOREIGN KEY (sample_id) REFERENCES measurement_samples (id)
     )`);
 
     // User preferences table for favorites
@@ -768,36 +935,17 @@ class DatabaseService {
       created_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )`);
 
-    // Run schema migrations
-    await this.runMigrations();
+    // Schema versions and migrations are applied by autoDatabaseUpdate
 
     logger.logDatabase('CREATE', 'All tables created successfully');
   }
 
-  private async runMigrations(): Promise<void> {
-    // Create schema version table if it doesn't exist
-    try {
-      await this.execute(`CREATE TABLE IF NOT EXISTS schema_version (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        version INTEGER NOT NULL,
-        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
-      )`);
-      
-      // Check if we need to initialize schema version
-      const versionResult = await this.queryOne('SELECT MAX(version) as version FROM schema_version');
-      if (!versionResult || versionResult.version < this.SCHEMA_VERSION) {
-        await this.execute('INSERT INTO schema_version (version) VALUES (?)', [this.SCHEMA_VERSION]);
-        logger.logDatabase('MIGRATION', `Schema initialized to version ${this.SCHEMA_VERSION}`);
-      }
-    } catch (error) {
-      logger.logDatabase('MIGRATION', `Schema version setup failed: ${error}`);
-    }
-  }
-
-
   async execute(sql: string, params: any[] = []): Promise<number> {
     await this.initialize();
-    
+    return this.exclusive(() => this.runExecute(sql, params));
+  }
+
+  private async runExecute(sql: string, params: unknown[]): Promise<number> {
     try {
       if (window.electronAPI) {
         const result = await window.electronAPI.dbExecute(sql, params);
@@ -807,17 +955,8 @@ class DatabaseService {
         return result.result || 0;
       } else {
         // Use exec for database modifications
-        // For exec, we need to substitute parameters manually
-        let finalSql = sql;
-        if (params && params.length > 0) {
-          params.forEach((param, _index) => {
-            const value = typeof param === 'string' ? `'${param.replace(/'/g, "''")}'` : param;
-            finalSql = finalSql.replace('?', value);
-          });
-        }
-        
-        const result = this.db.exec(finalSql);
-        this.saveToLocalStorage(); // Save database after modification
+        const result = this.db.exec(sql, this.bindings(params));
+        this.saveAfterWrite();
         return result.length > 0 ? 1 : 0; // Return 1 if successful, 0 if not
       }
     } catch (error) {
@@ -827,9 +966,46 @@ class DatabaseService {
     }
   }
 
+  // Runs an INSERT and returns the id of the new row
+  async insert(sql: string, params: unknown[] = []): Promise<number> {
+    await this.initialize();
+    return this.exclusive(() => this.runInsert(sql, params));
+  }
+
+  private async runInsert(sql: string, params: unknown[]): Promise<number> {
+    try {
+      if (window.electronAPI) {
+        const result = await window.electronAPI.dbExecute(sql, params);
+        if (!result.success) {
+          throw new Error(result.error || 'Database execution failed');
+        }
+        return Number(result.result?.lastInsertRowid || 0);
+      } else {
+        this.db.exec(sql, this.bindings(params));
+        // Read the id before saving, exporting the database resets it
+        const idResult = this.db.exec('SELECT last_insert_rowid()');
+        this.saveAfterWrite();
+        return Number(idResult[0]?.values[0]?.[0] || 0);
+      }
+    } catch (error) {
+      console.error('Database insert error:', error);
+      logger.logDatabase('ERROR', 'Database insert failed', { sql, params, error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  // sql.js binds the parameters to each statement of the text, so they are
+  // left out when there are none and a script of several statements runs as is
+  private bindings(params: unknown[]): unknown[] | undefined {
+    return params && params.length > 0 ? params : undefined;
+  }
+
   async queryAll(sql: string, params: any[] = []): Promise<any[]> {
     await this.initialize();
-    
+    return this.exclusive(() => this.runQuery(sql, params));
+  }
+
+  private async runQuery<T = Record<string, unknown>>(sql: string, params: unknown[]): Promise<T[]> {
     try {
       if (window.electronAPI) {
         const result = await window.electronAPI.dbQuery(sql, params);
@@ -839,23 +1015,14 @@ class DatabaseService {
         return result.result || [];
       } else {
         // Use exec for queries that return multiple rows
-        // For exec, we need to substitute parameters manually
-        let finalSql = sql;
-        if (params && params.length > 0) {
-          params.forEach((param, _index) => {
-            const value = typeof param === 'string' ? `'${param.replace(/'/g, "''")}'` : param;
-            finalSql = finalSql.replace('?', value);
-          });
-        }
-        
-        const result = this.db.exec(finalSql);
+        const result = this.db.exec(sql, this.bindings(params));
         if (result && result.length > 0 && result[0]) {
-          return result[0].values.map((row: any[]) => {
-            const obj: any = {};
+          return result[0].values.map((row: unknown[]) => {
+            const obj: Record<string, unknown> = {};
             result[0].columns.forEach((col: string, index: number) => {
               obj[col] = row[index];
             });
-            return obj;
+            return obj as T;
           });
         }
         return [];
@@ -872,6 +1039,74 @@ class DatabaseService {
     return results[0] || null;
   }
 
+  // Runs work inside a SQLite transaction: committed when it resolves,
+  // rolled back when it throws. Use the tx argument for every statement of
+  // the unit; calling db.* from inside would wait for the transaction itself.
+  async transaction<T>(work: (tx: DatabaseTransaction) => Promise<T>): Promise<T> {
+    await this.initialize();
+    return this.exclusive(() => this.runTransaction(work));
+  }
+
+  private async runTransaction<T>(work: (tx: DatabaseTransaction) => Promise<T>): Promise<T> {
+    const tx: DatabaseTransaction = {
+      execute: (sql, params = []) => this.runExecute(sql, params),
+      insert: (sql, params = []) => this.runInsert(sql, params),
+      queryAll: <R>(sql: string, params: unknown[] = []) => this.runQuery<R>(sql, params),
+      queryOne: async <R>(sql: string, params: unknown[] = []) => (await this.runQuery<R>(sql, params))[0] ?? null,
+    };
+
+    try {
+      await this.runTransactionStatement('begin');
+      this.inTransaction = true;
+      const result = await work(tx);
+      await this.runTransactionStatement('commit');
+      this.inTransaction = false;
+      // Persist the committed unit now rather than after the save delay
+      this.dirty = true;
+      await this.flushSave();
+      return result;
+    } catch (error) {
+      if (this.inTransaction) {
+        this.inTransaction = false;
+        try {
+          await this.runTransactionStatement('rollback');
+        } catch (rollbackError) {
+          console.error('Database rollback error:', rollbackError);
+        }
+      }
+      logger.logDatabase('ERROR', 'Transaction rolled back', { error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  private async runTransactionStatement(action: 'begin' | 'commit' | 'rollback'): Promise<void> {
+    if (window.electronAPI) {
+      const result = await window.electronAPI.dbTransaction(action);
+      if (!result.success) {
+        throw new Error(result.error || `Transaction ${action} failed`);
+      }
+    } else {
+      this.db.exec(action === 'begin' ? 'BEGIN' : action.toUpperCase());
+    }
+  }
+
+  // Runs task once everything queued before it has settled, so a statement
+  // never lands inside another caller's transaction and two transactions
+  // never overlap
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Web mode persists after each write; inside a transaction the save waits
+  // for the commit, exporting mid-transaction would end it
+  private saveAfterWrite() {
+    if (!this.inTransaction) {
+      this.scheduleSave();
+    }
+  }
+
   // Authentication methods
   async authenticateUser(username: string, password: string): Promise<{ success: boolean; user?: any; error?: string }> {
     try {
@@ -1019,99 +1254,59 @@ class DatabaseService {
     try {
       await this.initialize();
       
-      if (window.electronAPI) {
-        // For Electron, use a single transaction with multiple statements
-        const clearOrder = [
-          'measurements',           // References features, routes, products, gammas, workstations, workshops
-          'features',              // References routes, products
-          'routes',                // References products, workshops
-          'gammas',                // References products
-          'products',              // References families, workshops, workstations
-          'families',              // References workshops
-          'user_preferences',      // References users
-          'user_validation_requests', // References users, workshops, workstations, groups
-          'registration_codes',    // References users, workshops, workstations, groups
-          'notifications',         // References users
-          'workshop_methods',      // References users, workshops
-          'users',                 // References workshops, groups
-          'workstations',          // References workshops
-          'workshops',             // No dependencies
-          'groups'                 // No dependencies
-          // Note: system_settings is NOT cleared to preserve admin settings
-        ];
-
-        // Build a single SQL statement with all operations
-        let sql = `
-          BEGIN TRANSACTION;
-          PRAGMA foreign_keys = OFF;
-        `;
-        
-        // Add DELETE statements for each table
-        for (const table of clearOrder) {
-          sql += `DELETE FROM ${table};\n`;
-        }
-        
-        // Reset sequences and re-enable foreign keys
-        sql += `
-          DELETE FROM sqlite_sequence;
-          PRAGMA foreign_keys = ON;
-          COMMIT;
-        `;
-
-        // Execute the entire transaction as one statement
-        const result = await window.electronAPI.dbExecute(sql, []);
-        if (!result.success) {
-          // If the transaction fails, try individual table deletions
-          console.warn('Transaction failed, trying individual deletions:', result.error);
-          
-          // Disable foreign keys first
-          await window.electronAPI.dbExecute('PRAGMA foreign_keys = OFF', []);
-          
-          // Clear each table individually
+      const clearOrder = [
+        'ncr_history',            // References ncrs, users
+        'ncrs',                   // References nonconformances, measurements, products, routes, features, workshops, workstations, users
+        'control_plan_revisions', // References control_plans, users
+        'control_plan_lines',     // References control_plans, gammas, features
+        'control_plans',          // References routes, products, users
+        'inspection_checks',      // References inspection_frequencies, features, workstations, measurement_samples, users
+        'inspection_frequencies', // References features, gammas, workstations, users
+        'production_events',      // References workstations, gammas, users
+        'notifications',          // References users, notification_events
+        'notification_events',    // References notification_rules, features, gauges, workshops, users
+        'notification_rules',     // References features, workshops, groups, users
+        'reaction_plan_items',    // References reaction_plans
+        'reaction_plans',         // References features, users
+        'nonconformances',        // References measurements, features, products, measurement_samples, users, workstations, workshops
+        'gauge_calibrations',     // References gauges, users
+        'gauges',                 // References workshops
+        'gage_study_readings',    // References gage_studies, users
+        'gage_studies',           // References features, workshops, users
+        'measurements',           // References features, routes, products, gammas, workstations, workshops
+        'attribute_inspections',  // References features, routes, products, gammas, workstations, workshops
+        'measurement_samples',    // References products, routes, gammas, workstations, workshops
+        'features',              // References routes, products
+        'routes',                // References products, workshops
+        'gammas',                // References products
+        'products',              // References families, workshops, workstations
+        'families',              // References workshops
+        'user_preferences',      // References users
+        'user_validation_requests', // References users, workshops, workstations, groups
+        'registration_codes',    // References users, workshops, workstations, groups
+        'workshop_methods',      // References users, workshops
+        'users',                 // References workshops, groups
+        'workstations',          // References workshops
+        'workshops',             // No dependencies
+        'groups'                 // No dependencies
+        // Note: system_settings is NOT cleared to preserve admin settings
+      ];
+
+      // Foreign keys cannot be toggled inside a transaction
+      await this.execute('PRAGMA foreign_keys = OFF');
+      try {
+        await this.transaction(async tx => {
           for (const table of clearOrder) {
-            try {
-              await window.electronAPI.dbExecute(`DELETE FROM ${table}`, []);
-            } catch (tableError) {
-              console.warn(`Failed to clear table ${table}:`, tableError);
-            }
-          }
-          
-          // Reset sequences and re-enable foreign keys
-          await window.electronAPI.dbExecute('DELETE FROM sqlite_sequence', []);
-          await window.electronAPI.dbExecute('PRAGMA foreign_keys = ON', []);
-        }
-        
-        logger.logDatabase('CLEAR', 'All data cleared successfully');
-        return { success: true };
-      } else {
-        // For web mode, use the existing approach
-        const clearOrder = [
-          'measurements', 'features', 'routes', 'gammas', 'products', 'families',
-          'user_preferences', 'user_validation_requests', 'registration_codes', 'notifications',
-          'workshop_methods', 'users', 'workstations', 'workshops', 'groups'
-          // Note: system_settings is NOT cleared to preserve admin settings
-        ];
-
-        // Disable foreign keys
-        this.db.exec('PRAGMA foreign_keys = OFF');
-        
-        // Clear each table
-        for (const table of clearOrder) {
-          try {
-            this.db.exec(`DELETE FROM ${table}`);
-          } catch (tableError) {
-            console.warn(`Failed to clear table ${table}:`, tableError);
+            await tx.execute(`DELETE FROM ${table}`);
           }
-        }
-
-        // Reset sequences and re-enable foreign keys
-        this.db.exec('DELETE FROM sqlite_sequence');
-        this.db.exec('PRAGMA foreign_keys = ON');
-        this.saveToLocalStorage();
-        
-        logger.logDatabase('CLEAR', 'All data cleared successfully');
-        return { success: true };
+          await tx.execute('DELETE FROM sqlite_sequence');
+        });
+      } finally {
+        await this.execute('PRAGMA foreign_keys = ON');
       }
+      
+      logger.logDatabase('CLEAR', 'All data cleared successfully');
+      return { success: true };
     } catch (error) {
       console.error('Clear data error:', error);
       logger.logDatabase('ERROR', 'Failed to clear data', { error: error instanceof Error ? error.message : String(error) });
@@ -1207,13 +1402,33 @@ class DatabaseService {
     }
   }
 
-  // Save database to localStorage (browser only) - OLD VERSION REMOVED
+  // Snapshot of the whole database (browser only)
+  async exportDatabaseImage(): Promise<Uint8Array | null> {
+    await this.initialize();
+    return this.exclusive(async () => (this.db && !window.electronAPI ? this.db.export() : null));
+  }
 
-  // Clear localStorage database (browser only)
-  clearLocalStorage(): void {
+  // Replace the database with a snapshot and persist it (browser only)
+  async restoreDatabaseImage(data: Uint8Array): Promise<void> {
+    await this.initialize();
+    await this.exclusive(async () => {
+      this.db = new this.SQLConstructor(data);
+      this.dirty = true;
+      await this.flushSave();
+    });
+  }
+
+  // Clear the stored database image (browser only)
+  async clearStoredDatabase(): Promise<void> {
     if (!window.electronAPI) {
-      localStorage.removeItem('spc-database');
-      console.log('Cleared database from localStorage');
+      if (this.saveTimer) {
+        clearTimeout(this.saveTimer);
+        this.saveTimer = null;
+      }
+      this.dirty = false;
+      await this.saving;
+      await databaseStorage.clear();
+      console.log('Cleared database from IndexedDB');
     }
   }
 
@@ -1307,8 +1522,8 @@ class DatabaseService {
   async forceReinitialize(): Promise<void> {
     this.initialized = false;
     this.initializing = false;
+    await this.clearStoredDatabase();
     this.db = null;
-    this.clearLocalStorage();
     await this.initialize();
   }
 }
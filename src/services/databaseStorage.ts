@@ -0,0 +1,214 @@
+// IndexedDB persistence for the web (sql.js) database. The image is kept
+// as fixed-size pages and a save only writes the pages that changed.
+
+const IDB_NAME = 'spc-dashboard';
+const IDB_VERSION = 2;
+const IDB_STORE = 'database';
+const IDB_PAGE_STORE = 'pages';
+// Whole image written by versions before the paged store
+const IDB_KEY = 'main';
+const IDB_META_KEY = 'main-pages';
+const IDB_BACKUP_KEY = 'pre-migration';
+// A multiple of the SQLite page size, so a row change touches one or two pages
+const PAGE_BYTES = 64 * 1024;
+// Where the database was kept before IndexedDB, as a base64 string
+const LEGACY_STORAGE_KEY = 'spc_database';
+
+export interface StorageUsage {
+  databaseBytes: number; // Size of the last saved database image
+  usageBytes: number | null; // Everything the origin stores, when the browser reports it
+  quotaBytes: number | null;
+  persisted: boolean; // Whether the browser may evict the data under storage pressure
+}
+
+interface PagedImageMeta {
+  byteLength: number;
+  pageCount: number;
+}
+
+const pageOf = (data: Uint8Array, index: number) => data.subarray(index * PAGE_BYTES, (index + 1) * PAGE_BYTES);
+
+const samePage = (a: Uint8Array, b: Uint8Array) => {
+  if (a.byteLength !== b.byteLength) return false;
+  for (let i = 0; i < a.byteLength; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+class DatabaseStorage {
+  private connection: Promise<IDBDatabase> | null = null;
+  private databaseBytes = 0;
+  // Image as last written, to find the pages the next save has to write
+  private stored: Uint8Array | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.connection) {
+      this.connection = new Promise((resolve, reject) => {
+        const request = indexedDB.open(IDB_NAME, IDB_VERSION);
+        request.onupgradeneeded = () => {
+          const names = request.result.objectStoreNames;
+          if (!names.contains(IDB_STORE)) request.result.createObjectStore(IDB_STORE);
+          if (!names.contains(IDB_PAGE_STORE)) request.result.createObjectStore(IDB_PAGE_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry after a failure
+      this.connection.catch(() => {
+        this.connection = null;
+      });
+    }
+    return this.connection;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const idb = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = idb.transaction(IDB_STORE, mode);
+      const request = run(transaction.objectStore(IDB_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  // Runs `run` in one transaction over the image and page stores, so a
+  // save lands whole or not at all
+  private async paged(mode: IDBTransactionMode, run: (images: IDBObjectStore, pages: IDBObjectStore) => void): Promise<void> {
+    const idb = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = idb.transaction([IDB_STORE, IDB_PAGE_STORE], mode);
+      run(transaction.objectStore(IDB_STORE), transaction.objectStore(IDB_PAGE_STORE));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  // Returns the saved database image, moving a whole image or a
+  // localStorage copy left by earlier versions into pages on first use
+  async load(): Promise<Uint8Array | null> {
+    const image = await this.loadPages();
+    if (image) {
+      this.stored = image;
+      this.databaseBytes = image.byteLength;
+      return image;
+    }
+
+    const whole = await this.request<Uint8Array | undefined>('readonly', store => store.get(IDB_KEY));
+    if (whole) {
+      await this.save(whole);
+      await this.request('readwrite', store => store.delete(IDB_KEY));
+      return whole;
+    }
+
+    const legacy = this.loadLegacy();
+    if (legacy) {
+      await this.save(legacy);
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      console.log('Moved database from localStorage to IndexedDB');
+    }
+    return legacy;
+  }
+
+  // Writes the pages that differ from the last saved image, drops those past
+  // its new end and records the new size
+  async save(data: Uint8Array): Promise<void> {
+    const previous = this.stored;
+    const pageCount = Math.ceil(data.byteLength / PAGE_BYTES);
+    const previousCount = previous ? Math.ceil(previous.byteLength / PAGE_BYTES) : 0;
+    const meta: PagedImageMeta = { byteLength: data.byteLength, pageCount };
+
+    await this.paged('readwrite', (images, pages) => {
+      for (let index = 0; index < pageCount; index++) {
+        const page = pageOf(data, index);
+        if (!previous || index >= previousCount || !samePage(page, pageOf(previous, index))) {
+          pages.put(page.slice(), index);
+        }
+      }
+      if (previousCount > pageCount) {
+        pages.delete(IDBKeyRange.bound(pageCount, previousCount - 1));
+      }
+      images.put(meta, IDB_META_KEY);
+    });
+    this.stored = data;
+    this.databaseBytes = data.byteLength;
+  }
+
+  async clear(): Promise<void> {
+    await this.paged('readwrite', (images, pages) => {
+      images.delete(IDB_KEY);
+      images.delete(IDB_META_KEY);
+      pages.clear();
+    });
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    this.stored = null;
+    this.databaseBytes = 0;
+  }
+
+  // Copy of the database taken before schema migrations run
+  async saveBackup(data: Uint8Array): Promise<void> {
+    await this.request('readwrite', store => store.put(data, IDB_BACKUP_KEY));
+  }
+
+  async loadBackup(): Promise<Uint8Array | null> {
+    const backup = await this.request<Uint8Array | undefined>('readonly', store => store.get(IDB_BACKUP_KEY));
+    return backup || null;
+  }
+
+  async getUsage(): Promise<StorageUsage> {
+    const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+    const persisted = navigator.storage?.persisted ? await navigator.storage.persisted() : false;
+    return {
+      databaseBytes: this.databaseBytes,
+      usageBytes: estimate.usage ?? null,
+      quotaBytes: estimate.quota ?? null,
+      persisted,
+    };
+  }
+
+  // Ask the browser not to evict the database when disk space runs low
+  async requestPersistence(): Promise<boolean> {
+    return navigator.storage?.persist ? navigator.storage.persist() : false;
+  }
+
+  private async loadPages(): Promise<Uint8Array | null> {
+    let meta: PagedImageMeta | undefined;
+    let pages: Uint8Array[] = [];
+    await this.paged('readonly', (images, pageStore) => {
+      const metaRequest = images.get(IDB_META_KEY);
+      const pagesRequest = pageStore.getAll();
+      metaRequest.onsuccess = () => { meta = metaRequest.result; };
+      pagesRequest.onsuccess = () => { pages = pagesRequest.result; };
+    });
+    if (!meta) return null;
+    if (pages.length !== meta.pageCount) {
+      throw new Error(`Stored database is incomplete: ${pages.length} of ${meta.pageCount} pages`);
+    }
+
+    const image = new Uint8Array(meta.byteLength);
+    pages.forEach((page, index) => image.set(page, index * PAGE_BYTES));
+    return image;
+  }
+
+  private loadLegacy(): Uint8Array | null {
+    try {
+      const base64 = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!base64) return null;
+
+      const binaryString = atob(base64);
+      const bytes = new Uint8Array(binaryString.length);
+      for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+      }
+      return bytes;
+    } catch (error) {
+      console.warn('Failed to read database from localStorage:', error);
+      return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const databaseStorage = new DatabaseStorage();
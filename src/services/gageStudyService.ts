@@ -0,0 +1,291 @@
+import { db } from './database';
+import { logger } from './logger';
+import { permissionService } from './permissionService';
+import { workshopScopeService } from './workshopScopeService';
+import { FeatureSpecification, GageRRReading, GageRRResult, GageStudy, GageStudyReading } from '../types/spc';
+import { getSpecificationLimits } from '../utils/specifications';
+import { GAGE_LIMITS, GageChartData, buildGageChartData, calculateGageAnova, calculateGageAverageRange } from '../utils/gageRR';
+
+export interface GageStudySummary extends GageStudy {
+  feature_name: string;
+  product_name: string;
+  readings_total: number;
+  readings_done: number;
+}
+
+export interface GageStudyFeature extends FeatureSpecification {
+  id: number;
+  name: string;
+}
+
+export interface GageStudyReadingRow extends GageStudyReading {
+  username: string;
+}
+
+export interface GageStudyDetails {
+  study: GageStudySummary;
+  feature: GageStudyFeature;
+  operators: { id: number; username: string }[]; // In study order: A, B, C...
+  readings: GageStudyReadingRow[];
+}
+
+export interface NewGageStudy {
+  name: string;
+  featureId: number;
+  gauge: string;
+  parts: number;
+  operatorIds: number[];
+  trials: number;
+  tolerance?: number | null;
+  notes?: string;
+}
+
+export interface GageStudyAnalysis {
+  tolerance: number | null;
+  anova: GageRRResult;
+  averageRange: GageRRResult;
+  charts: GageChartData;
+}
+
+// The next reading an operator has to take in an open study
+export interface PendingGageReading {
+  readingId: number;
+  studyId: number;
+  studyName: string;
+  gauge: string;
+  featureName: string;
+  unit?: string;
+  decimalPlaces?: number;
+  partNumber: number;
+  trial: number;
+  remaining: number;
+}
+
+export const operatorLabel = (index: number) => String.fromCharCode(65 + index);
+
+const SUMMARY_QUERY = `
+  SELECT s.*, f.name as feature_name, p.name as product_name,
+         (SELECT COUNT(*) FROM gage_study_readings r WHERE r.study_id = s.id) as readings_total,
+         (SELECT COUNT(*) FROM gage_study_readings r WHERE r.study_id = s.id AND r.measured_value IS NOT NULL) as readings_done
+  FROM gage_studies s
+  JOIN features f ON s.feature_id = f.id
+  LEFT JOIN gammas g ON f.gamma_id = g.id
+  LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+`;
+
+class GageStudyService {
+  async listStudies(): Promise<GageStudySummary[]> {
+    const scope = workshopScopeService.condition('s.workshop_id');
+    return db.queryAll(`${SUMMARY_QUERY} WHERE ${scope.sql} ORDER BY s.created_at DESC`, scope.params);
+  }
+
+  async getStudy(studyId: number): Promise<GageStudyDetails | null> {
+    const study: GageStudySummary | null = await db.queryOne(`${SUMMARY_QUERY} WHERE s.id = ?`, [studyId]);
+    if (!study) return null;
+
+    const feature: GageStudyFeature = await db.queryOne(
+      `SELECT id, name, specification_type, target_value, tolerance_plus, tolerance_minus,
+              specification_min, specification_max, unit, decimal_places
+       FROM features WHERE id = ?`,
+      [study.feature_id]
+    );
+    const readings: GageStudyReadingRow[] = await db.queryAll(
+      `SELECT r.*, u.username FROM gage_study_readings r
+       LEFT JOIN users u ON r.operator_id = u.id
+       WHERE r.study_id = ? ORDER BY r.run_order`,
+      [studyId]
+    );
+
+    // Operators in the order they were listed: their first run comes first
+    const operators: { id: number; username: string }[] = [];
+    readings.forEach(reading => {
+      if (!operators.some(operator => operator.id === reading.operator_id)) {
+        operators.push({ id: reading.operator_id, username: reading.username });
+      }
+    });
+
+    return { study, feature, operators, readings };
+  }
+
+  // Every reading is planned up front. Within each trial, each operator
+  // measures the parts in a fresh random order, so no operator knows which
+  // part they measured before.
+  async createStudy(input: NewGageStudy, createdBy: number | null): Promise<number | null> {
+    if (!permissionService.ensure('features')) return null;
+
+    const { parts, operatorIds, trials } = input;
+    const inRange = (value: number, limits: { min: number; max: number }) => value >= limits.min && value <= limits.max;
+    if (!inRange(parts, GAGE_LIMITS.parts) || !inRange(operatorIds.length, GAGE_LIMITS.operators) || !inRange(trials, GAGE_LIMITS.trials)) {
+      throw new Error(
+        `A study needs ${GAGE_LIMITS.parts.min}-${GAGE_LIMITS.parts.max} parts, ` +
+        `${GAGE_LIMITS.operators.min}-${GAGE_LIMITS.operators.max} operators and ` +
+        `${GAGE_LIMITS.trials.min}-${GAGE_LIMITS.trials.max} trials`
+      );
+    }
+
+    const feature = await db.queryOne(
+      `SELECT f.id, p.workshop_id FROM features f
+       LEFT JOIN gammas g ON f.gamma_id = g.id
+       LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+       WHERE f.id = ?`,
+      [input.featureId]
+    );
+    if (!feature) {
+      throw new Error('Feature not found');
+    }
+
+    const studyId = await db.transaction(async tx => {
+      const id = await tx.insert(
+        `INSERT INTO gage_studies (name, feature_id, gauge, part_count, operator_count, trial_count, tolerance, notes, workshop_id, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [input.name, input.featureId, input.gauge, parts, operatorIds.length, trials, input.tolerance ?? null, input.notes || null, feature.workshop_id ?? null, createdBy]
+      );
+
+      let runOrder = 1;
+      for (let trial = 1; trial <= trials; trial++) {
+        for (const operatorId of operatorIds) {
+          for (const partNumber of shuffle(Array.from({ length: parts }, (_, i) => i + 1))) {
+            await tx.execute(
+              'INSERT INTO gage_study_readings (study_id, part_number, operator_id, trial, run_order) VALUES (?, ?, ?, ?, ?)',
+              [id, partNumber, operatorId, trial, runOrder++]
+            );
+          }
+        }
+      }
+      return id;
+    });
+
+    logger.logUserAction('Create Gage R&R study', 'GageRR', {
+      studyId,
+      featureId: input.featureId,
+      parts,
+      operators: operatorIds.length,
+      trials
+    }, createdBy ? String(createdBy) : undefined);
+
+    return studyId;
+  }
+
+  // Operators enter their own readings; anyone who may edit studies can
+  // enter or correct a reading for another operator
+  async recordReading(readingId: number, value: number, userId: number | null): Promise<boolean> {
+    const reading = await db.queryOne('SELECT id, study_id, operator_id FROM gage_study_readings WHERE id = ?', [readingId]);
+    if (!reading) return false;
+
+    if (!permissionService.ensure('measurements')) return false;
+    if (reading.operator_id !== userId && !permissionService.ensure('features')) return false;
+
+    await db.transaction(async tx => {
+      await tx.execute(
+        'UPDATE gage_study_readings SET measured_value = ?, measured_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [value, readingId]
+      );
+      const remaining = await tx.queryOne(
+        'SELECT COUNT(*) as count FROM gage_study_readings WHERE study_id = ? AND measured_value IS NULL',
+        [reading.study_id]
+      );
+      if (remaining?.count === 0) {
+        await tx.execute(
+          `UPDATE gage_studies SET status = 'completed', completed_at = COALESCE(completed_at, CURRENT_TIMESTAMP), updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [reading.study_id]
+        );
+      } else {
+        await tx.execute('UPDATE gage_studies SET updated_at = CURRENT_TIMESTAMP WHERE id = ?', [reading.study_id]);
+      }
+    });
+    return true;
+  }
+
+  async deleteStudy(studyId: number): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+
+    await db.transaction(async tx => {
+      await tx.execute('DELETE FROM gage_study_readings WHERE study_id = ?', [studyId]);
+      await tx.execute('DELETE FROM gage_studies WHERE id = ?', [studyId]);
+    });
+    logger.logUserAction('Delete Gage R&R study', 'GageRR', { studyId });
+    return true;
+  }
+
+  // The next reading of each open study waiting on this operator
+  async getPendingReadings(operatorId: number): Promise<PendingGageReading[]> {
+    const rows = await db.queryAll(
+      `SELECT r.id, r.study_id, r.part_number, r.trial, s.name as study_name, s.gauge,
+              f.name as feature_name, f.unit, f.decimal_places
+       FROM gage_study_readings r
+       JOIN gage_studies s ON r.study_id = s.id
+       JOIN features f ON s.feature_id = f.id
+       WHERE r.operator_id = ? AND r.measured_value IS NULL AND s.status = 'open'
+       ORDER BY r.study_id, r.run_order`,
+      [operatorId]
+    );
+
+    const pending = new Map<number, PendingGageReading>();
+    rows.forEach(row => {
+      const existing = pending.get(row.study_id);
+      if (existing) {
+        existing.remaining++;
+        return;
+      }
+      pending.set(row.study_id, {
+        readingId: row.id,
+        studyId: row.study_id,
+        studyName: row.study_name,
+        gauge: row.gauge,
+        featureName: row.feature_name,
+        unit: row.unit || undefined,
+        decimalPlaces: row.decimal_places ?? undefined,
+        partNumber: row.part_number,
+        trial: row.trial,
+        remaining: 1
+      });
+    });
+    return [...pending.values()];
+  }
+
+  // Tolerance for %Tolerance: the study's own value, else the width of the
+  // feature's bilateral specification
+  getTolerance(details: GageStudyDetails): number | null {
+    if (details.study.tolerance && details.study.tolerance > 0) {
+      return details.study.tolerance;
+    }
+    const { usl, lsl } = getSpecificationLimits(details.feature);
+    return usl !== undefined && lsl !== undefined && usl > lsl ? usl - lsl : null;
+  }
+
+  // Both methods on a complete study; throws while readings are missing
+  analyze(details: GageStudyDetails): GageStudyAnalysis {
+    const design = {
+      parts: details.study.part_count,
+      operators: details.operators.length,
+      trials: details.study.trial_count
+    };
+    const readings: GageRRReading[] = details.readings.map(reading => ({
+      part: reading.part_number - 1,
+      operator: details.operators.findIndex(operator => operator.id === reading.operator_id),
+      trial: reading.trial - 1,
+      value: reading.measured_value ?? NaN
+    }));
+    const tolerance = this.getTolerance(details);
+
+    return {
+      tolerance,
+      anova: calculateGageAnova(readings, design, tolerance),
+      averageRange: calculateGageAverageRange(readings, design, tolerance),
+      charts: buildGageChartData(readings, design)
+    };
+  }
+}
+
+// Fisher-Yates shuffle of a copy
+const shuffle = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Export singleton instance
+export const gageStudyService = new GageStudyService();
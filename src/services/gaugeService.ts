@@ -0,0 +1,261 @@
+import { db } from './database';
+import { logger } from './logger';
+import { permissionService } from './permissionService';
+import { workshopScopeService } from './workshopScopeService';
+import { CalibrationResult, Gauge, GaugeCalibration, GaugeStatus } from '../types/spc';
+import { DEFAULT_CALIBRATION_WARNING_DAYS, addDays, daysUntil, nextCalibrationDue, todayIsoDate } from '../utils/calibration';
+
+export interface GaugeInput {
+  code: string;
+  name: string;
+  gaugeType?: string;
+  resolution?: number | null;
+  rangeMin?: number | null;
+  rangeMax?: number | null;
+  unit?: string;
+  location?: string;
+  workshopId?: number | null;
+  status: GaugeStatus;
+  calibrationIntervalDays?: number | null;
+  lastCalibrationDate?: string | null;
+  calibrationDueDate?: string | null;
+  notes?: string;
+}
+
+export interface CalibrationInput {
+  calibrationDate: string;
+  result: CalibrationResult;
+  dueDate?: string | null; // Defaults to the date plus the gauge's interval
+  certificate?: string;
+  performedBy?: string;
+  notes?: string;
+}
+
+export interface GaugeCalibrationRow extends GaugeCalibration {
+  recorded_by_name?: string;
+}
+
+export interface GaugeRow extends Gauge {
+  workshop_name?: string;
+}
+
+// Roles told about calibrations coming due, besides the method engineers
+// of the gauge's workshop
+const CALIBRATION_NOTIFIED_ROLES = ['admin', 'controle'];
+
+class GaugeService {
+  async listGauges(): Promise<GaugeRow[]> {
+    const scope = workshopScopeService.condition('g.workshop_id');
+    return db.queryAll(
+      `SELECT g.*, w.name as workshop_name FROM gauges g
+       LEFT JOIN workshops w ON g.workshop_id = w.id
+       WHERE ${scope.sql}
+       ORDER BY g.calibration_due_date IS NULL, g.calibration_due_date, g.code`,
+      scope.params
+    );
+  }
+
+  // Gauges an operator can pick for measurement entry
+  async listActiveGauges(): Promise<Gauge[]> {
+    const scope = workshopScopeService.condition('workshop_id');
+    return db.queryAll(
+      `SELECT * FROM gauges WHERE status = 'active' AND ${scope.sql} ORDER BY code`,
+      scope.params
+    );
+  }
+
+  async getGauge(gaugeId: number): Promise<Gauge | null> {
+    return db.queryOne('SELECT * FROM gauges WHERE id = ?', [gaugeId]);
+  }
+
+  // Lookup for a typed or scanned gauge ID
+  async findByCode(code: string): Promise<Gauge | null> {
+    return db.queryOne('SELECT * FROM gauges WHERE code = ? COLLATE NOCASE', [code.trim()]);
+  }
+
+  async saveGauge(input: GaugeInput, gaugeId?: number): Promise<number | null> {
+    if (!permissionService.ensure('features')) return null;
+
+    const code = input.code.trim();
+    if (!code || !input.name.trim()) {
+      throw new Error('Gauge ID and name are required');
+    }
+    const duplicate = await db.queryOne(
+      'SELECT id FROM gauges WHERE code = ? COLLATE NOCASE AND id <> ?',
+      [code, gaugeId ?? 0]
+    );
+    if (duplicate) {
+      throw new Error(`Gauge ID ${code} is already registered`);
+    }
+
+    const dueDate = input.calibrationDueDate
+      || (input.lastCalibrationDate ? nextCalibrationDue(input.lastCalibrationDate, input.calibrationIntervalDays) : null);
+    const values = [
+      code,
+      input.name.trim(),
+      input.gaugeType || null,
+      input.resolution ?? null,
+      input.rangeMin ?? null,
+      input.rangeMax ?? null,
+      input.unit || null,
+      input.location || null,
+      input.workshopId ?? null,
+      input.status,
+      input.calibrationIntervalDays || null,
+      input.lastCalibrationDate || null,
+      dueDate,
+      input.notes || null,
+    ];
+
+    let id = gaugeId;
+    if (id) {
+      await db.execute(
+        `UPDATE gauges SET code = ?, name = ?, gauge_type = ?, resolution = ?, range_min = ?, range_max = ?, unit = ?,
+           location = ?, workshop_id = ?, status = ?, calibration_interval_days = ?, last_calibration_date = ?,
+           calibration_due_date = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [...values, id]
+      );
+    } else {
+      id = await db.insert(
+        `INSERT INTO gauges (code, name, gauge_type, resolution, range_min, range_max, unit, location, workshop_id, status,
+           calibration_interval_days, last_calibration_date, calibration_due_date, notes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        values
+      );
+    }
+
+    logger.logUserAction(gaugeId ? 'Update gauge' : 'Create gauge', 'Gauges', { gaugeId: id, code });
+    return id;
+  }
+
+  // Gauges that took measurements stay for traceability; retire them instead
+  async deleteGauge(gaugeId: number): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+
+    const used = await db.queryOne('SELECT COUNT(*) as count FROM measurements WHERE gauge_id = ?', [gaugeId]);
+    if (used?.count > 0) {
+      throw new Error(`This gauge took ${used.count} measurements; retire it instead of deleting it`);
+    }
+
+    await db.transaction(async tx => {
+      await tx.execute('DELETE FROM gauge_calibrations WHERE gauge_id = ?', [gaugeId]);
+      await tx.execute('DELETE FROM gauges WHERE id = ?', [gaugeId]);
+    });
+    logger.logUserAction('Delete gauge', 'Gauges', { gaugeId });
+    return true;
+  }
+
+  async getCalibrations(gaugeId: number): Promise<GaugeCalibrationRow[]> {
+    return db.queryAll(
+      `SELECT c.*, u.username as recorded_by_name FROM gauge_calibrations c
+       LEFT JOIN users u ON c.recorded_by = u.id
+       WHERE c.gauge_id = ? ORDER BY c.calibration_date DESC, c.id DESC`,
+      [gaugeId]
+    );
+  }
+
+  // A passed or adjusted calibration restarts the interval; a failed one
+  // takes the gauge out of service until it passes again
+  async recordCalibration(gaugeId: number, input: CalibrationInput, userId: number | null): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+
+    const gauge = await this.getGauge(gaugeId);
+    if (!gauge) return false;
+
+    const passed = input.result !== 'fail';
+    const dueDate = passed
+      ? input.dueDate || nextCalibrationDue(input.calibrationDate, gauge.calibration_interval_days)
+      : null;
+
+    await db.transaction(async tx => {
+      await tx.execute(
+        `INSERT INTO gauge_calibrations (gauge_id, calibration_date, due_date, result, certificate, performed_by, notes, recorded_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [gaugeId, input.calibrationDate, dueDate, input.result, input.certificate || null, input.performedBy || null, input.notes || null, userId]
+      );
+      if (passed) {
+        await tx.execute(
+          `UPDATE gauges SET last_calibration_date = ?, calibration_due_date = ?,
+             status = CASE WHEN status = 'out-of-service' THEN 'active' ELSE status END,
+             updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`,
+          [input.calibrationDate, dueDate, gaugeId]
+        );
+      } else {
+        await tx.execute(
+          `UPDATE gauges SET last_calibration_date = ?, status = 'out-of-service', updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [input.calibrationDate, gaugeId]
+        );
+      }
+    });
+
+    logger.logUserAction('Record gauge calibration', 'Gauges', {
+      gaugeId,
+      code: gauge.code,
+      result: input.result,
+      dueDate
+    }, userId ? String(userId) : undefined);
+    return true;
+  }
+
+  async getWarningDays(): Promise<number> {
+    const setting = await db.queryOne("SELECT setting_value FROM system_settings WHERE setting_key = 'calibration_warning_days'");
+    const days = parseInt(setting?.setting_value, 10);
+    return Number.isFinite(days) && days >= 0 ? days : DEFAULT_CALIBRATION_WARNING_DAYS;
+  }
+
+  // Raises one notification per gauge and due date once the date is within
+  // the warning window. Safe to call repeatedly (at login, on the dashboard).
+  async raiseCalibrationNotifications(): Promise<number> {
+    const today = todayIsoDate();
+    const warningDays = await this.getWarningDays();
+    const gauges: Gauge[] = await db.queryAll(
+      `SELECT * FROM gauges
+       WHERE status = 'active' AND calibration_due_date IS NOT NULL AND calibration_due_date <= ?
+         AND (due_notified_for IS NULL OR due_notified_for <> calibration_due_date)`,
+      [addDays(today, warningDays)]
+    );
+    if (gauges.length === 0) return 0;
+
+    const placeholders = CALIBRATION_NOTIFIED_ROLES.map(() => '?').join(',');
+    const managers: { id: number }[] = await db.queryAll(
+      `SELECT id FROM users WHERE role IN (${placeholders}) AND status = 'active'`,
+      CALIBRATION_NOTIFIED_ROLES
+    );
+
+    for (const gauge of gauges) {
+      const dueDate = gauge.calibration_due_date as string;
+      const days = daysUntil(dueDate, today);
+      const overdue = days < 0;
+      const recipients = new Set(managers.map(user => user.id));
+      if (gauge.workshop_id) {
+        const methodUsers: { user_id: number }[] = await db.queryAll(
+          'SELECT user_id FROM workshop_methods WHERE workshop_id = ?',
+          [gauge.workshop_id]
+        );
+        methodUsers.forEach(row => recipients.add(row.user_id));
+      }
+
+      const title = overdue ? `Calibration overdue: ${gauge.code}` : `Calibration due: ${gauge.code}`;
+      const message = overdue
+        ? `${gauge.name} (${gauge.code}) was due for calibration on ${dueDate} and is blocked for measurement entry.`
+        : `${gauge.name} (${gauge.code}) is due for calibration on ${dueDate}, in ${days} day${days === 1 ? '' : 's'}.`;
+
+      await db.transaction(async tx => {
+        for (const userId of recipients) {
+          await tx.execute(
+            'INSERT INTO notifications (type, title, message, user_id) VALUES (?, ?, ?, ?)',
+            [overdue ? 'calibration_overdue' : 'calibration_due', title, message, userId]
+          );
+        }
+        await tx.execute('UPDATE gauges SET due_notified_for = ? WHERE id = ?', [dueDate, gauge.id]);
+      });
+    }
+
+    return gauges.length;
+  }
+}
+
+// Export singleton instance
+export const gaugeService = new GaugeService();
@@ -0,0 +1,428 @@
+import { db } from './database';
+import { logger } from './logger';
+import { permissionService } from './permissionService';
+import { workshopScopeService } from './workshopScopeService';
+import {
+  InspectionCheck,
+  InspectionCheckStatus,
+  InspectionFrequency,
+  InspectionTrigger,
+  ProductionEventType
+} from '../types/spc';
+import {
+  DEFAULT_SHIFT_START_TIMES,
+  evaluateSchedule,
+  Lapse,
+  lapseSince,
+  latestShiftStart,
+  parseShiftTimes,
+  ScheduleInput,
+  ScheduleStatus,
+  triggerNeedsInterval
+} from '../utils/inspectionSchedule';
+import { addDays } from '../utils/calibration';
+import { fromSqlTimestamp, toSqlTimestamp } from '../utils/dateTime';
+
+export interface InspectionFrequencyInput {
+  featureId: number;
+  gammaId: number | null;
+  workstationId: number | null;
+  triggerType: InspectionTrigger;
+  intervalValue: number | null;
+  sampleSize: number;
+  graceMinutes: number;
+  active: boolean;
+  notes: string;
+}
+
+export interface InspectionFrequencyRow extends InspectionFrequency {
+  feature_name: string;
+  product_name?: string;
+  operation_name?: string;
+  sequence_number?: number;
+  workstation_name?: string;
+}
+
+export interface InspectionQueueItem {
+  frequency: InspectionFrequencyRow;
+  status: ScheduleStatus;
+  // Due times whose grace period ran out since the last check
+  lapse: Lapse | null;
+  lastCheckAt: Date | null;
+}
+
+export interface InspectionCheckRow extends InspectionCheck {
+  feature_name: string;
+  product_name?: string;
+  workstation_name?: string;
+  operator_name?: string;
+  trigger_type: InspectionTrigger;
+}
+
+export interface AdherenceRow {
+  frequency_id: number;
+  workstation_id: number;
+  feature_name: string;
+  product_name?: string;
+  workstation_name?: string;
+  trigger_type: InspectionTrigger;
+  interval_value?: number | null;
+  done: number;
+  late: number;
+  missed: number;
+}
+
+const SHIFT_SETTING = 'shift_start_times';
+
+const STATE_ORDER = { overdue: 0, due: 1, ok: 2 };
+
+class InspectionScheduleService {
+  private recording = false;
+
+  async listFrequencies(): Promise<InspectionFrequencyRow[]> {
+    const scope = workshopScopeService.condition('p.workshop_id');
+    return db.queryAll(
+      `SELECT fr.*, f.name as feature_name, p.name as product_name, g.operation_name, g.sequence_number, w.name as workstation_name
+       FROM inspection_frequencies fr
+       JOIN features f ON fr.feature_id = f.id
+       LEFT JOIN gammas g ON g.id = COALESCE(fr.gamma_id, f.gamma_id)
+       LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+       LEFT JOIN workstations w ON w.id = COALESCE(fr.workstation_id, f.workstation_id)
+       WHERE ${scope.sql}
+       ORDER BY p.name, g.sequence_number, f.name`,
+      scope.params
+    );
+  }
+
+  async saveFrequency(frequencyId: number | null, input: InspectionFrequencyInput, userId: number | null): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+
+    if (triggerNeedsInterval(input.triggerType) && (input.intervalValue === null || !(input.intervalValue > 0))) {
+      throw new Error(input.triggerType === 'parts' ? 'Enter the number of parts between checks' : 'Enter the minutes between checks');
+    }
+    if (!(input.sampleSize >= 1)) {
+      throw new Error('The sample size must be at least 1');
+    }
+    if (!(input.graceMinutes >= 0)) {
+      throw new Error('The grace period cannot be negative');
+    }
+
+    // Frequencies belong to the workshop of the feature's product
+    const workshops = [await this.getProductWorkshop(input.featureId, input.gammaId)];
+    if (frequencyId) {
+      const existing = await db.queryOne('SELECT feature_id, gamma_id FROM inspection_frequencies WHERE id = ?', [frequencyId]);
+      if (existing) workshops.push(await this.getProductWorkshop(existing.feature_id, existing.gamma_id));
+    }
+    if (!workshopScopeService.ensure(...workshops)) return false;
+
+    const values = [
+      input.featureId,
+      input.gammaId,
+      input.workstationId,
+      input.triggerType,
+      triggerNeedsInterval(input.triggerType) ? Math.round(input.intervalValue as number) : null,
+      Math.round(input.sampleSize),
+      Math.round(input.graceMinutes),
+      input.active ? 1 : 0,
+      input.notes.trim() || null,
+    ];
+
+    if (frequencyId) {
+      await db.execute(
+        `UPDATE inspection_frequencies SET feature_id = ?, gamma_id = ?, workstation_id = ?, trigger_type = ?, interval_value = ?,
+           sample_size = ?, grace_minutes = ?, active = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [...values, frequencyId]
+      );
+    } else {
+      frequencyId = await db.insert(
+        `INSERT INTO inspection_frequencies (feature_id, gamma_id, workstation_id, trigger_type, interval_value, sample_size,
+           grace_minutes, active, notes, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [...values, userId]
+      );
+    }
+
+    logger.logUserAction('Save inspection frequency', 'InspectionPlans', { frequencyId, ...input }, userId?.toString());
+    return true;
+  }
+
+  // The audit trail goes with the frequency
+  async deleteFrequency(frequencyId: number): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+
+    await db.transaction(async tx => {
+      await tx.execute('DELETE FROM inspection_checks WHERE frequency_id = ?', [frequencyId]);
+      await tx.execute('DELETE FROM inspection_frequencies WHERE id = ?', [frequencyId]);
+    });
+    logger.logUserAction('Delete inspection frequency', 'InspectionPlans', { frequencyId });
+    return true;
+  }
+
+  async getShiftTimes(): Promise<string[]> {
+    const row = await db.queryOne('SELECT setting_value FROM system_settings WHERE setting_key = ?', [SHIFT_SETTING]);
+    return row ? parseShiftTimes(row.setting_value) : DEFAULT_SHIFT_START_TIMES;
+  }
+
+  async saveShiftTimes(times: string[]): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+
+    await db.execute(
+      'UPDATE system_settings SET setting_value = ?, updated_at = CURRENT_TIMESTAMP WHERE setting_key = ?',
+      [times.join(','), SHIFT_SETTING]
+    );
+    logger.logUserAction('Update shift start times', 'InspectionPlans', { times });
+    return true;
+  }
+
+  async recordProductionEvent(
+    workstationId: number,
+    eventType: ProductionEventType,
+    quantity: number | null,
+    operatorId: number | null
+  ): Promise<boolean> {
+    if (!permissionService.ensure('measurements')) return false;
+
+    if (eventType === 'parts' && (quantity === null || !(quantity > 0))) {
+      throw new Error('The quantity must be a positive number');
+    }
+    await db.insert(
+      'INSERT INTO production_events (workstation_id, event_type, quantity, operator_id) VALUES (?, ?, ?, ?)',
+      [workstationId, eventType, eventType === 'parts' ? Math.round(quantity as number) : null, operatorId]
+    );
+    logger.logUserAction('Record production event', 'InspectionQueue', { workstationId, eventType, quantity }, operatorId?.toString());
+    return true;
+  }
+
+  // Checks expected at a workstation, most urgent first
+  async getQueue(workstationId: number, now: Date = new Date()): Promise<InspectionQueueItem[]> {
+    const frequencies: InspectionFrequencyRow[] = await db.queryAll(
+      `SELECT fr.*, f.name as feature_name, p.name as product_name, g.operation_name, g.sequence_number, w.name as workstation_name
+       FROM inspection_frequencies fr
+       JOIN features f ON fr.feature_id = f.id
+       LEFT JOIN gammas g ON g.id = COALESCE(fr.gamma_id, f.gamma_id)
+       LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+       LEFT JOIN workstations w ON w.id = ?
+       WHERE fr.active = 1
+         AND (COALESCE(fr.workstation_id, f.workstation_id) = ?
+           OR (fr.workstation_id IS NULL AND f.workstation_id IS NULL
+             AND COALESCE(f.workshop_id, p.workshop_id) = (SELECT workshop_id FROM workstations WHERE id = ?)))`,
+      [workstationId, workstationId, workstationId]
+    );
+    if (frequencies.length === 0) return [];
+
+    // A shift started by hand at the workstation counts as well as the scheduled start times
+    const scheduled = latestShiftStart(await this.getShiftTimes(), now);
+    const reported = await this.getShiftStartEvent(workstationId);
+    const shiftStart = scheduled && reported && reported > scheduled ? reported : scheduled ?? reported;
+    const items: InspectionQueueItem[] = [];
+
+    for (const frequency of frequencies) {
+      const lastCheck = await this.getLastCheck(frequency, workstationId);
+      const lastCheckAt = lastCheck ? fromSqlTimestamp(lastCheck) : null;
+      // Values taken before the frequency existed do not start its clock
+      const since = fromSqlTimestamp(lastCheck && lastCheck > frequency.created_at ? lastCheck : frequency.created_at);
+      const sinceText = toSqlTimestamp(since);
+
+      const parts = frequency.trigger_type === 'parts'
+        ? await db.queryAll(
+          `SELECT created_at, quantity FROM production_events
+           WHERE workstation_id = ? AND event_type = 'parts' AND created_at > ? ORDER BY created_at, id`,
+          [workstationId, sinceText]
+        )
+        : [];
+      const toolChanges = frequency.trigger_type === 'tool-change'
+        ? await db.queryAll(
+          `SELECT created_at FROM production_events
+           WHERE workstation_id = ? AND event_type = 'tool-change' AND created_at > ? ORDER BY created_at, id`,
+          [workstationId, sinceText]
+        )
+        : [];
+
+      const schedule: ScheduleInput = {
+        frequency,
+        since,
+        now,
+        parts: parts.map(row => ({ at: fromSqlTimestamp(row.created_at), quantity: Number(row.quantity) })),
+        toolChanges: toolChanges.map(row => fromSqlTimestamp(row.created_at)),
+        shiftStart,
+      };
+      items.push({ frequency, lastCheckAt, status: evaluateSchedule(schedule), lapse: lapseSince(schedule) });
+    }
+
+    return items.sort((a, b) =>
+      STATE_ORDER[a.status.state] - STATE_ORDER[b.status.state]
+      || (a.status.dueAt?.getTime() ?? Infinity) - (b.status.dueAt?.getTime() ?? Infinity)
+    );
+  }
+
+  // Writes missed checks to the audit trail for every workstation, including
+  // those no one is looking at; run periodically while the app is open. The
+  // only place the queue is turned into audit rows.
+  async recordMissedChecks(): Promise<void> {
+    if (this.recording) return;
+    this.recording = true;
+    try {
+      const workstations = await db.queryAll('SELECT id FROM workstations');
+      for (const workstation of workstations) {
+        await this.recordMissed(await this.getQueue(workstation.id), workstation.id);
+      }
+    } finally {
+      this.recording = false;
+    }
+  }
+
+  // Checks due or overdue right now at the workstations in scope, most
+  // urgent first, for the dashboards
+  async listDueChecks(now: Date = new Date()): Promise<(InspectionQueueItem & { workstationId: number })[]> {
+    const scope = workshopScopeService.condition('workshop_id');
+    const workstations = await db.queryAll(`SELECT id FROM workstations WHERE ${scope.sql}`, scope.params);
+    const due: (InspectionQueueItem & { workstationId: number })[] = [];
+    for (const workstation of workstations) {
+      const queue = await this.getQueue(workstation.id, now);
+      due.push(...queue.filter(item => item.status.state !== 'ok').map(item => ({ ...item, workstationId: workstation.id })));
+    }
+    return due.sort((a, b) =>
+      STATE_ORDER[a.status.state] - STATE_ORDER[b.status.state]
+      || (a.status.dueAt?.getTime() ?? Infinity) - (b.status.dueAt?.getTime() ?? Infinity)
+    );
+  }
+
+  // Closes the checks a new sample satisfies. `queue` is the workstation's
+  // queue taken before the sample was stored.
+  async recordCompletedChecks(
+    queue: InspectionQueueItem[],
+    workstationId: number,
+    featureIds: number[],
+    gammaId: number,
+    sampleId: number,
+    operatorId: number | null
+  ): Promise<void> {
+    const satisfied = queue.filter(item =>
+      item.status.state !== 'ok'
+      && item.status.dueAt
+      && featureIds.includes(item.frequency.feature_id)
+      && (!item.frequency.gamma_id || item.frequency.gamma_id === gammaId)
+    );
+    if (satisfied.length === 0) return;
+
+    // A late check goes in beside the missed row of its gap, which starts at
+    // the same due time and stays as it was recorded
+    await db.transaction(async tx => {
+      for (const item of satisfied) {
+        const dueAt = item.status.dueAt as Date;
+        const status: InspectionCheckStatus = item.status.state === 'overdue' ? 'late' : 'done';
+        await tx.execute(
+          `INSERT OR IGNORE INTO inspection_checks (frequency_id, feature_id, workstation_id, due_at, status, completed_at, sample_id, operator_id)
+           VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP, ?, ?)`,
+          [item.frequency.id, item.frequency.feature_id, workstationId, toSqlTimestamp(dueAt), status, sampleId, operatorId]
+        );
+      }
+    });
+  }
+
+  // Checks due between two local calendar dates, both included. A gap
+  // closed by a late check counts that due time as late, the rest as missed.
+  async getAdherence(from: string, to: string): Promise<AdherenceRow[]> {
+    const scope = workshopScopeService.condition('p.workshop_id');
+    return db.queryAll(
+      `SELECT c.frequency_id, c.workstation_id, f.name as feature_name, p.name as product_name, w.name as workstation_name,
+              fr.trigger_type, fr.interval_value,
+              SUM(CASE WHEN c.status = 'done' THEN 1 ELSE 0 END) as done,
+              SUM(CASE WHEN c.status = 'late' THEN 1 ELSE 0 END) as late,
+              SUM(CASE WHEN c.status = 'missed' THEN MAX(c.missed_count - EXISTS (
+                SELECT 1 FROM inspection_checks l
+                WHERE l.frequency_id = c.frequency_id AND l.workstation_id = c.workstation_id
+                  AND l.due_at = c.due_at AND l.status = 'late'
+              ), 0) ELSE 0 END) as missed
+       FROM inspection_checks c
+       JOIN inspection_frequencies fr ON c.frequency_id = fr.id
+       JOIN features f ON c.feature_id = f.id
+       LEFT JOIN gammas g ON g.id = COALESCE(fr.gamma_id, f.gamma_id)
+       LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+       LEFT JOIN workstations w ON c.workstation_id = w.id
+       WHERE c.due_at >= ? AND c.due_at < ? AND ${scope.sql}
+       GROUP BY c.frequency_id, c.workstation_id
+       ORDER BY p.name, f.name, w.name`,
+      [toSqlTimestamp(new Date(`${from}T00:00:00`)), toSqlTimestamp(new Date(`${addDays(to, 1)}T00:00:00`)), ...scope.params]
+    );
+  }
+
+  async listChecks(status: InspectionCheckStatus | 'all' = 'all', limit: number = 200): Promise<InspectionCheckRow[]> {
+    const scope = workshopScopeService.condition('p.workshop_id');
+    return db.queryAll(
+      `SELECT c.*, f.name as feature_name, p.name as product_name, w.name as workstation_name, u.username as operator_name, fr.trigger_type
+       FROM inspection_checks c
+       JOIN inspection_frequencies fr ON c.frequency_id = fr.id
+       JOIN features f ON c.feature_id = f.id
+       LEFT JOIN gammas g ON g.id = COALESCE(fr.gamma_id, f.gamma_id)
+       LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+       LEFT JOIN workstations w ON c.workstation_id = w.id
+       LEFT JOIN users u ON c.operator_id = u.id
+       WHERE (? = 'all' OR c.status = ?) AND ${scope.sql}
+       ORDER BY c.due_at DESC
+       LIMIT ?`,
+      [status, status, ...scope.params, limit]
+    );
+  }
+
+  // Most recent value of the feature at the workstation, variable or
+  // attribute, restricted to the frequency's operation when it has one
+  private async getLastCheck(frequency: InspectionFrequency, workstationId: number): Promise<string | null> {
+    const gammaFilter = frequency.gamma_id ? ' AND gamma_id = ?' : '';
+    const params = frequency.gamma_id
+      ? [frequency.feature_id, workstationId, frequency.gamma_id]
+      : [frequency.feature_id, workstationId];
+    const row = await db.queryOne(
+      `SELECT MAX(timestamp) as last_at FROM (
+         SELECT timestamp FROM measurements WHERE feature_id = ? AND workstation_id = ?${gammaFilter}
+         UNION ALL
+         SELECT timestamp FROM attribute_inspections WHERE feature_id = ? AND workstation_id = ?${gammaFilter}
+       )`,
+      [...params, ...params]
+    );
+    return row?.last_at ?? null;
+  }
+
+  private async getProductWorkshop(featureId: number, gammaId: number | null): Promise<number | null> {
+    const row = await db.queryOne(
+      `SELECT p.workshop_id
+       FROM features f
+       LEFT JOIN gammas g ON g.id = COALESCE(?, f.gamma_id)
+       LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+       WHERE f.id = ?`,
+      [gammaId, featureId]
+    );
+    return row?.workshop_id ?? null;
+  }
+
+  private async getShiftStartEvent(workstationId: number): Promise<Date | null> {
+    const row = await db.queryOne(
+      `SELECT MAX(created_at) as started_at FROM production_events WHERE workstation_id = ? AND event_type = 'shift-start'`,
+      [workstationId]
+    );
+    return row?.started_at ? fromSqlTimestamp(row.started_at) : null;
+  }
+
+  // One row per gap, keyed on its first due time; later runs only raise
+  // the count as the gap grows
+  private async recordMissed(items: InspectionQueueItem[], workstationId: number): Promise<void> {
+    const lapsed = items.filter(item => item.lapse);
+    if (lapsed.length === 0) return;
+
+    await db.transaction(async tx => {
+      for (const item of lapsed) {
+        const lapse = item.lapse as Lapse;
+        await tx.execute(
+          `INSERT INTO inspection_checks (frequency_id, feature_id, workstation_id, due_at, status, missed_count)
+           VALUES (?, ?, ?, ?, 'missed', ?)
+           ON CONFLICT (frequency_id, workstation_id, due_at, status) DO UPDATE SET missed_count = excluded.missed_count`,
+          [item.frequency.id, item.frequency.feature_id, workstationId, toSqlTimestamp(lapse.firstDueAt), lapse.count]
+        );
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const inspectionScheduleService = new InspectionScheduleService();
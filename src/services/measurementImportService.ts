@@ -0,0 +1,327 @@
+import { db } from './database';
+import { logger } from './logger';
+import { permissionService } from './permissionService';
+import { workshopScopeService } from './workshopScopeService';
+import { CharacteristicType, FeatureSpecification } from '../types/spc';
+import { formatSpecification, isOutOfSpecification } from '../utils/specifications';
+import { toSqlTimestamp } from '../utils/dateTime';
+
+export type ImportField = 'product' | 'feature' | 'serial' | 'value' | 'timestamp' | 'operator';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'product', label: 'Product', required: true },
+  { field: 'feature', label: 'Feature', required: true },
+  { field: 'value', label: 'Measured value', required: true },
+  { field: 'serial', label: 'Serial number', required: false },
+  { field: 'timestamp', label: 'Timestamp', required: false },
+  { field: 'operator', label: 'Operator', required: false },
+];
+
+// Column index per field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type DateOrder = 'dmy' | 'mdy';
+
+export interface ImportOptions {
+  hasHeader: boolean;
+  dateOrder: DateOrder; // How to read ambiguous dates such as 03/04/2024
+}
+
+export interface ImportRow {
+  rowNumber: number; // 1-based line in the file
+  cells: string[];
+  productId?: number;
+  productName?: string;
+  featureId?: number;
+  featureName?: string;
+  gammaId?: number | null;
+  workshopId?: number | null;
+  serialNumber?: string;
+  value?: number;
+  timestamp?: string; // UTC, in the format CURRENT_TIMESTAMP uses
+  operatorId?: number;
+  errors: string[]; // The row is skipped
+  warnings: string[]; // The row is imported
+}
+
+export interface ImportResult {
+  imported: number;
+  samples: number;
+  skipped: { rowNumber: number; errors: string[] }[];
+  error?: string; // Set when the whole import was rolled back
+}
+
+interface ImportFeature extends FeatureSpecification {
+  id: number;
+  name: string;
+  product_id: number;
+  gamma_id?: number | null;
+  characteristic_type?: CharacteristicType;
+}
+
+interface ImportProduct {
+  id: number;
+  name: string;
+  workshop_id?: number | null;
+}
+
+// Header names that CMM and spreadsheet exports commonly use for each field
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  product: ['product', 'part', 'part number', 'part name', 'produit', 'reference'],
+  feature: ['feature', 'characteristic', 'char', 'dimension', 'caracteristique', 'cote'],
+  serial: ['serial', 'serial number', 'sn', 's/n', 'part id', 'numero de serie'],
+  value: ['value', 'measured', 'measured value', 'measurement', 'actual', 'valeur', 'mesure'],
+  timestamp: ['timestamp', 'date', 'date/time', 'datetime', 'time', 'measured at'],
+  operator: ['operator', 'user', 'inspector', 'operateur'],
+};
+
+const normalizeHeader = (header: string) => {
+  return header.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[_-]+/g, ' ');
+};
+
+const parseNumber = (text: string): number | null => {
+  const cleaned = text.trim().replace(/\s/g, '');
+  if (cleaned === '') return null;
+  // Decimal comma, as written by European exports
+  const normalized = /^-?\d+,\d+$/.test(cleaned) ? cleaned.replace(',', '.') : cleaned;
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+};
+
+export const parseTimestamp = (text: string, dateOrder: DateOrder): string | null => {
+  const value = text.trim();
+  if (value === '') return null;
+
+  // Excel serial date (days since 1899-12-30, fraction = time of day)
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const serial = Number(value);
+    if (serial < 1 || serial > 100000) return null;
+    const wallClock = new Date(Math.round((serial - 25569) * 86400000));
+    return toSqlTimestamp(new Date(
+      wallClock.getUTCFullYear(), wallClock.getUTCMonth(), wallClock.getUTCDate(),
+      wallClock.getUTCHours(), wallClock.getUTCMinutes(), wallClock.getUTCSeconds()
+    ));
+  }
+
+  // Optional time (fractions of a second are dropped) and UTC offset
+  const time = '(?:[ T](\\d{1,2}):(\\d{2})(?::(\\d{2})(?:\\.\\d+)?)?)?\\s*(Z|[+-]\\d{2}:?\\d{2})?$';
+  const isoMatch = value.match(new RegExp(`^(\\d{4})-(\\d{1,2})-(\\d{1,2})${time}`, 'i'));
+  const localMatch = value.match(new RegExp(`^(\\d{1,2})[/.-](\\d{1,2})[/.-](\\d{4})${time}`, 'i'));
+
+  let year: number, month: number, day: number, rest: (string | undefined)[];
+  if (isoMatch) {
+    [year, month, day] = [Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3])];
+    rest = isoMatch.slice(4);
+  } else if (localMatch) {
+    const [first, second] = [Number(localMatch[1]), Number(localMatch[2])];
+    [day, month] = dateOrder === 'dmy' ? [first, second] : [second, first];
+    year = Number(localMatch[3]);
+    rest = localMatch.slice(4);
+  } else {
+    return null;
+  }
+
+  const [hours, minutes, seconds] = rest.slice(0, 3).map(part => Number(part || 0));
+  const offset = rest[3];
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  if (!offset) {
+    // No offset: local wall-clock time
+    const date = new Date(year, month - 1, day, hours, minutes, seconds);
+    // Reject overflowing dates such as 31/02
+    if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+    return toSqlTimestamp(date);
+  }
+
+  const wallClock = new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+  if (wallClock.getUTCMonth() !== month - 1 || wallClock.getUTCDate() !== day) return null;
+  const offsetMinutes = offset.toUpperCase() === 'Z'
+    ? 0
+    : (offset[0] === '-' ? -1 : 1) * (Number(offset.slice(1, 3)) * 60 + Number(offset.slice(-2)));
+  return toSqlTimestamp(new Date(wallClock.getTime() - offsetMinutes * 60000));
+};
+
+class MeasurementImportService {
+  // Guess the column of each field from the header row
+  guessMapping(headers: string[]): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    const normalized = headers.map(normalizeHeader);
+    for (const { field } of IMPORT_FIELDS) {
+      const index = normalized.findIndex(header => FIELD_ALIASES[field].includes(header));
+      if (index !== -1 && !Object.values(mapping).includes(index)) {
+        mapping[field] = index;
+      }
+    }
+    return mapping;
+  }
+
+  // Resolve and check every row against the products, features and users
+  // in the database; nothing is written
+  async validateRows(rows: string[][], mapping: ColumnMapping, options: ImportOptions): Promise<ImportRow[]> {
+    const scope = workshopScopeService.condition('p.workshop_id');
+    const products: ImportProduct[] = await db.queryAll(
+      `SELECT p.id, p.name, p.workshop_id FROM products p WHERE ${scope.sql}`,
+      scope.params
+    );
+    // Features hang off a product directly or through one of its routes
+    const features: ImportFeature[] = await db.queryAll(`
+      SELECT f.id, f.name, COALESCE(f.product_id, g.product_id) as product_id, f.gamma_id,
+             f.characteristic_type, f.specification_type, f.target_value, f.tolerance_plus, f.tolerance_minus,
+             f.specification_min, f.specification_max, f.unit, f.decimal_places
+      FROM features f
+      LEFT JOIN gammas g ON f.gamma_id = g.id
+    `);
+    const users = await db.queryAll('SELECT id, username FROM users');
+
+    const productsByKey = new Map<string, ImportProduct>();
+    products.forEach(product => {
+      productsByKey.set(product.name.trim().toLowerCase(), product);
+      productsByKey.set(String(product.id), product);
+    });
+    const usersByName = new Map<string, number>(users.map(user => [String(user.username).toLowerCase(), user.id]));
+    const cell = (cells: string[], field: ImportField) => {
+      const index = mapping[field];
+      return index === undefined ? '' : (cells[index] ?? '').trim();
+    };
+
+    const dataRows = options.hasHeader ? rows.slice(1) : rows;
+    const firstRowNumber = options.hasHeader ? 2 : 1;
+
+    return dataRows.map((cells, index) => {
+      const row: ImportRow = { rowNumber: firstRowNumber + index, cells, errors: [], warnings: [] };
+
+      const productText = cell(cells, 'product');
+      const product = productsByKey.get(productText.toLowerCase());
+      if (!productText) {
+        row.errors.push('Product is empty');
+      } else if (!product) {
+        row.errors.push(`Unknown product "${productText}"`);
+      } else {
+        row.productId = product.id;
+        row.productName = product.name;
+        row.workshopId = product.workshop_id ?? null;
+      }
+
+      const featureText = cell(cells, 'feature');
+      const feature = product
+        ? features.find(f => f.product_id === product.id
+            && (f.name.trim().toLowerCase() === featureText.toLowerCase() || String(f.id) === featureText))
+        : undefined;
+      if (!featureText) {
+        row.errors.push('Feature is empty');
+      } else if (product && !feature) {
+        row.errors.push(`Unknown feature "${featureText}" for ${product.name}`);
+      } else if (feature && feature.characteristic_type && feature.characteristic_type !== 'variable') {
+        row.errors.push(`${feature.name} is an attribute characteristic, only measured values can be imported`);
+      } else if (feature) {
+        row.featureId = feature.id;
+        row.featureName = feature.name;
+        row.gammaId = feature.gamma_id ?? null;
+      }
+
+      const valueText = cell(cells, 'value');
+      const value = parseNumber(valueText);
+      if (value === null) {
+        row.errors.push(valueText ? `"${valueText}" is not a number` : 'Value is empty');
+      } else {
+        row.value = value;
+        if (feature && isOutOfSpecification(value, feature)) {
+          row.warnings.push(`Out of specification (${formatSpecification(feature)})`);
+        }
+      }
+
+      row.serialNumber = cell(cells, 'serial') || undefined;
+
+      if (mapping.timestamp !== undefined) {
+        const timestampText = cell(cells, 'timestamp');
+        const timestamp = parseTimestamp(timestampText, options.dateOrder);
+        if (timestamp) {
+          row.timestamp = timestamp;
+        } else {
+          row.errors.push(timestampText ? `Unreadable timestamp "${timestampText}"` : 'Timestamp is empty');
+        }
+      }
+
+      if (mapping.operator !== undefined) {
+        const operatorText = cell(cells, 'operator');
+        const operatorId = usersByName.get(operatorText.toLowerCase());
+        if (operatorId) {
+          row.operatorId = operatorId;
+        } else if (operatorText) {
+          row.warnings.push(`Unknown operator "${operatorText}", recorded as the importing user`);
+        }
+      }
+
+      return row;
+    });
+  }
+
+  // Insert the valid rows in one transaction. Rows of the same product,
+  // serial number and timestamp form one sample, like a manual entry; a row
+  // with neither serial number nor timestamp is a sample of its own.
+  async importRows(rows: ImportRow[], currentUserId: number | null): Promise<ImportResult> {
+    const skipped = rows
+      .filter(row => row.errors.length > 0)
+      .map(row => ({ rowNumber: row.rowNumber, errors: row.errors }));
+    const validRows = rows.filter(row => row.errors.length === 0);
+
+    if (!permissionService.ensure('measurements')) {
+      return { imported: 0, samples: 0, skipped, error: 'Permission denied' };
+    }
+    if (!workshopScopeService.ensure(...validRows.map(row => row.workshopId))) {
+      return { imported: 0, samples: 0, skipped, error: 'Permission denied' };
+    }
+    // Every value needs an operator: the mapped one or the importing user
+    if (currentUserId === null && validRows.some(row => row.operatorId === undefined)) {
+      return { imported: 0, samples: 0, skipped, error: 'Map an operator for every row or log in to import measurements' };
+    }
+
+    const groups = new Map<string, ImportRow[]>();
+    validRows.forEach(row => {
+      const key = row.serialNumber || row.timestamp
+        ? `${row.productId}|${row.serialNumber ?? ''}|${row.timestamp ?? ''}`
+        : `row|${row.rowNumber}`;
+      groups.set(key, [...(groups.get(key) || []), row]);
+    });
+
+    try {
+      await db.transaction(async tx => {
+        for (const group of groups.values()) {
+          const first = group[0];
+          const timestamp = first.timestamp ?? toSqlTimestamp(new Date());
+          const operatorId = first.operatorId ?? currentUserId;
+          const sampleId = await tx.insert(
+            'INSERT INTO measurement_samples (product_id, route_id, gamma_id, serial_number, operator_id, workshop_id, notes, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+            [first.productId, first.gammaId ?? null, first.gammaId ?? null, first.serialNumber ?? null, operatorId, first.workshopId ?? null, 'Imported', timestamp]
+          );
+
+          for (const row of group) {
+            await tx.execute(
+              'INSERT INTO measurements (feature_id, route_id, product_id, gamma_id, measured_value, operator_id, workshop_id, sample_id, notes, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [row.featureId, row.gammaId ?? null, row.productId, row.gammaId ?? null, row.value, row.operatorId ?? currentUserId, row.workshopId ?? null, sampleId || null, 'Imported', timestamp]
+            );
+          }
+        }
+      });
+    } catch (error) {
+      logger.error('database', 'Measurement import failed', { error });
+      return {
+        imported: 0,
+        samples: 0,
+        skipped,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    logger.logUserAction('Import measurements', 'MeasurementImport', {
+      imported: validRows.length,
+      samples: groups.size,
+      skipped: skipped.length
+    }, currentUserId ? String(currentUserId) : undefined);
+
+    return { imported: validRows.length, samples: groups.size, skipped };
+  }
+}
+
+// Export singleton instance
+export const measurementImportService = new MeasurementImportService();
@@ -0,0 +1,418 @@
+import { db, DatabaseTransaction } from './database';
+import { logger } from './logger';
+import { permissionService } from './permissionService';
+import { workshopScopeService } from './workshopScopeService';
+import { Ncr, NcrHistoryEntry, NcrSource, NcrStatus, ViolationKind } from '../types/spc';
+import { detectLimitViolation } from '../utils/reactionPlans';
+import { toSqlTimestamp } from '../utils/dateTime';
+import {
+  NcrCauseCount,
+  NCR_TRANSITIONS,
+  formatNcrNumber,
+  isBackwardTransition,
+  missingForStatus,
+  ncrStatusLabel,
+  serializeFiveWhys
+} from '../utils/ncr';
+
+// Fields edited on the NCR form, stored as they are
+const EDITABLE_COLUMNS = [
+  'title', 'product_id', 'route_id', 'feature_id', 'serial_number', 'lot_number', 'quantity',
+  'workshop_id', 'workstation_id', 'cause_code', 'cause_description', 'disposition', 'disposition_notes',
+  'assigned_to', 'due_date', 'team', 'problem_description', 'containment_action', 'root_cause',
+  'corrective_action', 'verification', 'preventive_action', 'closure_notes',
+] as const;
+
+type EditableColumn = typeof EDITABLE_COLUMNS[number];
+
+export type NcrInput = Pick<Ncr, EditableColumn> & { five_whys: string[] };
+
+export interface NcrRow extends Ncr {
+  product_name?: string;
+  route_name?: string;
+  feature_name?: string;
+  workshop_name?: string;
+  workstation_name?: string;
+  assignee_name?: string;
+  created_by_name?: string;
+}
+
+export interface NcrHistoryRow extends NcrHistoryEntry {
+  changed_by_name?: string;
+}
+
+// Out-of-specification value not yet covered by an NCR
+export interface OutOfSpecMeasurement {
+  measurement_id: number;
+  measured_value: number;
+  timestamp: string;
+  violation: ViolationKind;
+  limit: number;
+  product_id?: number | null;
+  product_name?: string;
+  route_id?: number | null;
+  feature_id: number;
+  feature_name: string;
+  unit?: string | null;
+  workshop_id?: number | null;
+  workstation_id?: number | null;
+  serial_number?: string | null;
+  lot_number?: string | null;
+  nonconformance_id?: number | null;
+  cause_code?: string | null;
+  cause_description?: string | null;
+}
+
+export type NcrListFilter = NcrStatus | 'active' | 'all';
+
+// Recent measurements scanned for out-of-specification values
+const OUT_OF_SPEC_SCAN_LIMIT = 5000;
+
+const VIOLATION_TEXT: Record<ViolationKind, string> = {
+  'above-usl': 'above the upper specification limit',
+  'below-lsl': 'below the lower specification limit',
+  'above-ucl': 'above the upper control limit',
+  'below-lcl': 'below the lower control limit',
+};
+
+const text = (value: string | null | undefined) => value?.trim() || null;
+
+class NcrService {
+  async listNcrs(filter: NcrListFilter = 'active'): Promise<NcrRow[]> {
+    const scope = workshopScopeService.condition('n.workshop_id');
+    const status = filter === 'all' ? '1 = 1' : filter === 'active' ? "n.status <> 'closed'" : 'n.status = ?';
+    return db.queryAll(
+      `SELECT n.*, p.name as product_name, f.name as feature_name, ws.name as workshop_name, u.username as assignee_name
+       FROM ncrs n
+       LEFT JOIN products p ON n.product_id = p.id
+       LEFT JOIN features f ON n.feature_id = f.id
+       LEFT JOIN workshops ws ON n.workshop_id = ws.id
+       LEFT JOIN users u ON n.assigned_to = u.id
+       WHERE ${status} AND ${scope.sql}
+       ORDER BY n.created_at DESC, n.id DESC`,
+      [...(filter === 'all' || filter === 'active' ? [] : [filter]), ...scope.params]
+    );
+  }
+
+  async getNcr(ncrId: number): Promise<NcrRow> {
+    const ncr = await db.queryOne(
+      `SELECT n.*, p.name as product_name, r.name as route_name, f.name as feature_name, ws.name as workshop_name,
+              wst.name as workstation_name, u.username as assignee_name, c.username as created_by_name
+       FROM ncrs n
+       LEFT JOIN products p ON n.product_id = p.id
+       LEFT JOIN routes r ON n.route_id = r.id
+       LEFT JOIN features f ON n.feature_id = f.id
+       LEFT JOIN workshops ws ON n.workshop_id = ws.id
+       LEFT JOIN workstations wst ON n.workstation_id = wst.id
+       LEFT JOIN users u ON n.assigned_to = u.id
+       LEFT JOIN users c ON n.created_by = c.id
+       WHERE n.id = ?`,
+      [ncrId]
+    );
+    if (!ncr) throw new Error('NCR not found');
+    return ncr;
+  }
+
+  async listHistory(ncrId: number): Promise<NcrHistoryRow[]> {
+    return db.queryAll(
+      `SELECT h.*, u.username as changed_by_name
+       FROM ncr_history h LEFT JOIN users u ON h.changed_by = u.id
+       WHERE h.ncr_id = ? ORDER BY h.changed_at, h.id`,
+      [ncrId]
+    );
+  }
+
+  // Recent values beyond the specification that no NCR covers yet, with
+  // the operator's reaction when one was recorded
+  async listOutOfSpecMeasurements(days: number = 30): Promise<OutOfSpecMeasurement[]> {
+    const scope = workshopScopeService.condition('m.workshop_id');
+    const since = toSqlTimestamp(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+    const rows = await db.queryAll(
+      `SELECT m.id as measurement_id, m.measured_value, m.timestamp, COALESCE(m.product_id, s.product_id) as product_id,
+              COALESCE(m.route_id, s.route_id) as route_id, m.feature_id, m.workshop_id, m.workstation_id,
+              s.serial_number, s.lot_number, p.name as product_name, f.name as feature_name,
+              f.specification_type, f.target_value, f.tolerance_plus, f.tolerance_minus, f.specification_min, f.specification_max,
+              f.unit, f.decimal_places,
+              (SELECT MAX(nc.id) FROM nonconformances nc WHERE nc.measurement_id = m.id) as nonconformance_id
+       FROM measurements m
+       JOIN features f ON m.feature_id = f.id
+       LEFT JOIN measurement_samples s ON m.sample_id = s.id
+       LEFT JOIN products p ON p.id = COALESCE(m.product_id, s.product_id)
+       WHERE m.timestamp >= ? AND ${scope.sql}
+         AND NOT EXISTS (SELECT 1 FROM ncrs n WHERE n.measurement_id = m.id)
+       ORDER BY m.timestamp DESC, m.id DESC
+       LIMIT ?`,
+      [since, ...scope.params, OUT_OF_SPEC_SCAN_LIMIT]
+    );
+
+    const outOfSpec: OutOfSpecMeasurement[] = [];
+    for (const row of rows) {
+      const violation = detectLimitViolation(Number(row.measured_value), row, null);
+      if (!violation) continue;
+      outOfSpec.push({ ...row, violation: violation.kind, limit: violation.limit });
+    }
+
+    const reactionIds = outOfSpec.map(row => row.nonconformance_id).filter((id): id is number => !!id);
+    if (reactionIds.length > 0) {
+      const reactions: { id: number; cause_code: string; cause_description?: string | null }[] = await db.queryAll(
+        `SELECT id, cause_code, cause_description FROM nonconformances WHERE id IN (${reactionIds.map(() => '?').join(', ')})`,
+        reactionIds
+      );
+      for (const row of outOfSpec) {
+        const reaction = reactions.find(item => item.id === row.nonconformance_id);
+        row.cause_code = reaction?.cause_code ?? null;
+        row.cause_description = reaction?.cause_description ?? null;
+      }
+    }
+    return outOfSpec;
+  }
+
+  // Form pre-filled from an out-of-specification value
+  draftFromMeasurement(measurement: OutOfSpecMeasurement): NcrInput {
+    const value = `${measurement.measured_value}${measurement.unit ? ` ${measurement.unit}` : ''}`;
+    return {
+      ...this.emptyInput(),
+      title: `${measurement.feature_name} out of specification`,
+      product_id: measurement.product_id ?? null,
+      route_id: measurement.route_id ?? null,
+      feature_id: measurement.feature_id,
+      serial_number: measurement.serial_number ?? null,
+      lot_number: measurement.lot_number ?? null,
+      workshop_id: measurement.workshop_id ?? null,
+      workstation_id: measurement.workstation_id ?? null,
+      cause_code: measurement.cause_code ?? null,
+      cause_description: measurement.cause_description ?? null,
+      problem_description: `${measurement.feature_name} measured ${value}, ${VIOLATION_TEXT[measurement.violation]} (${measurement.limit}).`,
+    };
+  }
+
+  emptyInput(): NcrInput {
+    return {
+      title: '',
+      product_id: null,
+      route_id: null,
+      feature_id: null,
+      serial_number: null,
+      lot_number: null,
+      quantity: 1,
+      workshop_id: null,
+      workstation_id: null,
+      cause_code: null,
+      cause_description: null,
+      disposition: null,
+      disposition_notes: null,
+      assigned_to: null,
+      due_date: null,
+      team: null,
+      problem_description: null,
+      containment_action: null,
+      root_cause: null,
+      corrective_action: null,
+      verification: null,
+      preventive_action: null,
+      closure_notes: null,
+      five_whys: [],
+    };
+  }
+
+  async createNcr(
+    input: NcrInput,
+    origin: { source: NcrSource; measurementId?: number | null; nonconformanceId?: number | null },
+    userId: number | null
+  ): Promise<number | null> {
+    if (!permissionService.ensure('measurements')) return null;
+    const values = this.validate(input);
+    if (!workshopScopeService.ensure(input.workshop_id)) return null;
+
+    const ncrId = await db.transaction(async tx => {
+      const year = new Date().getFullYear();
+      const last = await tx.queryOne(
+        'SELECT ncr_number FROM ncrs WHERE ncr_number LIKE ? ORDER BY ncr_number DESC LIMIT 1',
+        [`NCR-${year}-%`]
+      );
+      const sequence = last ? Number(String(last.ncr_number).split('-').pop()) + 1 : 1;
+
+      const newId = await tx.insert(
+        `INSERT INTO ncrs (ncr_number, source, measurement_id, nonconformance_id, created_by, five_whys, ${EDITABLE_COLUMNS.join(', ')})
+         VALUES (?, ?, ?, ?, ?, ?, ${EDITABLE_COLUMNS.map(() => '?').join(', ')})`,
+        [
+          formatNcrNumber(year, sequence),
+          origin.source,
+          origin.measurementId ?? null,
+          origin.nonconformanceId ?? null,
+          userId,
+          serializeFiveWhys(input.five_whys),
+          ...EDITABLE_COLUMNS.map(column => values[column]),
+        ]
+      );
+      await this.addHistory(tx, newId, null, 'open', origin.source === 'measurement' ? 'Raised from an out-of-specification value' : null, userId);
+      return newId;
+    });
+
+    if (values.assigned_to && values.assigned_to !== userId) {
+      await this.notifyAssignee(ncrId, 'You have been assigned');
+    }
+    logger.logUserAction('Create NCR', 'NCR', { ncrId, source: origin.source }, userId?.toString());
+    return ncrId;
+  }
+
+  async updateNcr(ncrId: number, input: NcrInput, userId: number | null): Promise<boolean> {
+    if (!permissionService.ensure('measurements')) return false;
+    const current = await this.getNcr(ncrId);
+    if (current.status === 'closed') {
+      throw new Error('Reopen the NCR before editing it');
+    }
+    const values = this.validate(input);
+    if (!workshopScopeService.ensure(current.workshop_id, input.workshop_id)) return false;
+
+    await db.execute(
+      `UPDATE ncrs SET ${EDITABLE_COLUMNS.map(column => `${column} = ?`).join(', ')}, five_whys = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`,
+      [...EDITABLE_COLUMNS.map(column => values[column]), serializeFiveWhys(input.five_whys), ncrId]
+    );
+
+    if (values.assigned_to && values.assigned_to !== current.assigned_to && values.assigned_to !== userId) {
+      await this.notifyAssignee(ncrId, 'You have been assigned');
+    }
+    logger.logUserAction('Update NCR', 'NCR', { ncrId }, userId?.toString());
+    return true;
+  }
+
+  // Moves the NCR along its workflow. Going forward needs the sections of
+  // the step filled in and, for verification and closure, quality rights;
+  // going back needs a reason. Closing it also closes the operator reaction
+  // it was raised from.
+  async changeStatus(ncrId: number, to: NcrStatus, comment: string, userId: number | null): Promise<boolean> {
+    const ncr = await this.getNcr(ncrId);
+    const backward = isBackwardTransition(ncr.status, to);
+    const resource = !backward && (to === 'verified' || to === 'closed') ? 'features' : 'measurements';
+    if (!permissionService.ensure(resource)) return false;
+    if (!workshopScopeService.ensure(ncr.workshop_id)) return false;
+
+    if (!NCR_TRANSITIONS[ncr.status].includes(to)) {
+      throw new Error(`An NCR cannot go from ${ncrStatusLabel(ncr.status)} to ${ncrStatusLabel(to)}`);
+    }
+    if (backward && !comment.trim()) {
+      throw new Error(`Give a reason for moving the NCR back to ${ncrStatusLabel(to)}`);
+    }
+    const missing = backward ? [] : missingForStatus(ncr, to);
+    if (missing.length > 0) {
+      throw new Error(`Fill in ${missing.join(', ')} before moving to ${ncrStatusLabel(to)}`);
+    }
+
+    await db.transaction(async tx => {
+      if (to === 'closed') {
+        await tx.execute(
+          `UPDATE ncrs SET status = ?, closed_at = CURRENT_TIMESTAMP, closed_by = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [to, userId, ncrId]
+        );
+        if (ncr.nonconformance_id) {
+          await tx.execute(
+            `UPDATE nonconformances SET status = 'closed', closed_at = CURRENT_TIMESTAMP, closed_by = ? WHERE id = ? AND status = 'open'`,
+            [userId, ncr.nonconformance_id]
+          );
+        }
+      } else {
+        await tx.execute(
+          'UPDATE ncrs SET status = ?, closed_at = NULL, closed_by = NULL, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [to, ncrId]
+        );
+      }
+      await this.addHistory(tx, ncrId, ncr.status, to, text(comment), userId);
+    });
+
+    if (ncr.assigned_to && ncr.assigned_to !== userId) {
+      await this.notifyAssignee(ncrId, `Moved to ${ncrStatusLabel(to)}`);
+    }
+    logger.logUserAction('Change NCR status', 'NCR', { ncrId, from: ncr.status, to }, userId?.toString());
+    return true;
+  }
+
+  async deleteNcr(ncrId: number): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+    const ncr = await this.getNcr(ncrId);
+    if (!workshopScopeService.ensure(ncr.workshop_id)) return false;
+
+    await db.transaction(async tx => {
+      await tx.execute('DELETE FROM ncr_history WHERE ncr_id = ?', [ncrId]);
+      await tx.execute('DELETE FROM ncrs WHERE id = ?', [ncrId]);
+    });
+    logger.logUserAction('Delete NCR', 'NCR', { ncrId });
+    return true;
+  }
+
+  // NCRs and affected parts per cause code, for the Pareto chart; NCRs
+  // whose cause is still unknown are counted apart
+  async paretoByCause(workshopId: number | null, from: string, to: string): Promise<NcrCauseCount[]> {
+    const scope = workshopScopeService.condition('workshop_id');
+    const workshop = workshopId ? 'workshop_id = ?' : '1 = 1';
+    return db.queryAll(
+      `SELECT COALESCE(NULLIF(TRIM(cause_code), ''), 'UNKNOWN') as cause, MAX(cause_description) as description,
+              COUNT(*) as ncrs, COALESCE(SUM(quantity), 0) as quantity
+       FROM ncrs
+       WHERE DATE(created_at) BETWEEN ? AND ? AND ${workshop} AND ${scope.sql}
+       GROUP BY 1`,
+      [from, to, ...(workshopId ? [workshopId] : []), ...scope.params]
+    );
+  }
+
+  // Cause codes already used on NCRs, to keep the Pareto buckets consistent
+  async listCauseCodes(): Promise<{ code: string; description?: string | null }[]> {
+    return db.queryAll(
+      `SELECT cause_code as code, MAX(cause_description) as description FROM ncrs
+       WHERE cause_code IS NOT NULL AND TRIM(cause_code) <> ''
+       GROUP BY cause_code ORDER BY cause_code`
+    );
+  }
+
+  private validate(input: NcrInput): Record<EditableColumn, unknown> {
+    if (!input.title.trim()) {
+      throw new Error('The NCR needs a title');
+    }
+    if (!Number.isInteger(input.quantity) || input.quantity < 1) {
+      throw new Error('The quantity must be a whole number of at least 1');
+    }
+    const values = {} as Record<EditableColumn, unknown>;
+    for (const column of EDITABLE_COLUMNS) {
+      const value = input[column];
+      values[column] = typeof value === 'string' ? text(value) : value ?? null;
+    }
+    values.cause_code = typeof values.cause_code === 'string' ? values.cause_code.toUpperCase() : null;
+    return values;
+  }
+
+  private async addHistory(
+    tx: DatabaseTransaction,
+    ncrId: number,
+    from: NcrStatus | null,
+    to: NcrStatus,
+    comment: string | null,
+    userId: number | null
+  ): Promise<void> {
+    await tx.insert(
+      'INSERT INTO ncr_history (ncr_id, from_status, to_status, comment, changed_by) VALUES (?, ?, ?, ?, ?)',
+      [ncrId, from, to, comment, userId]
+    );
+  }
+
+  private async notifyAssignee(ncrId: number, reason: string): Promise<void> {
+    try {
+      const ncr = await this.getNcr(ncrId);
+      if (!ncr.assigned_to) return;
+      await db.execute(
+        'INSERT INTO notifications (type, title, message, user_id) VALUES (?, ?, ?, ?)',
+        [
+          'ncr',
+          `${ncr.ncr_number}: ${ncr.title}`,
+          `${reason}. Status: ${ncrStatusLabel(ncr.status)}` + (ncr.due_date ? `, due ${ncr.due_date}.` : '.'),
+          ncr.assigned_to,
+        ]
+      );
+    } catch (error) {
+      logger.error('database', 'Failed to notify the NCR assignee', { ncrId, error });
+    }
+  }
+}
+
+// Export singleton instance
+export const ncrService = new NcrService();
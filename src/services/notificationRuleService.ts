@@ -0,0 +1,462 @@
+import { db } from './database';
+import { logger } from './logger';
+import { permissionService } from './permissionService';
+import { workshopScopeService } from './workshopScopeService';
+import {
+  CharacteristicClass,
+  DataPoint,
+  FeatureSpecification,
+  NotificationEvent,
+  NotificationEventStatus,
+  NotificationEventType,
+  NotificationRule,
+  NotificationSeverity
+} from '../types/spc';
+import { MAX_SUBGROUP_SIZE } from '../utils/statistics';
+import { fromSqlTimestamp } from '../utils/dateTime';
+import {
+  escalateSeverity,
+  joinList,
+  latestControlRuleViolations,
+  parseList,
+  RULE_DEFAULTS,
+  windowCapability
+} from '../utils/notificationRules';
+
+export interface NotificationRuleInput {
+  name: string;
+  eventType: NotificationEventType;
+  severity: NotificationSeverity;
+  enabled: boolean;
+  featureId: number | null;
+  characteristicClass: CharacteristicClass | null;
+  workshopId: number | null;
+  controlRules: string[];
+  threshold: number | null;
+  windowSize: number | null;
+  recipientRoles: string[];
+  recipientGroupId: number | null;
+  dedupMinutes: number;
+  escalateAfterMinutes: number | null;
+  escalationRoles: string[];
+}
+
+export interface NotificationRuleRow extends NotificationRule {
+  feature_name?: string;
+  workshop_name?: string;
+  group_name?: string;
+  open_events: number;
+}
+
+export interface NotificationEventRow extends NotificationEvent {
+  rule_name?: string;
+  acknowledged_by_name?: string;
+}
+
+interface WatchedFeature extends FeatureSpecification {
+  id: number;
+  name: string;
+  product_name?: string;
+  workshop_id?: number | null;
+}
+
+// What a rule found; the key identifies the condition for de-duplication
+interface RaisedEvent {
+  key: string;
+  title: string;
+  message: string;
+  featureId?: number | null;
+  gaugeId?: number | null;
+  workshopId?: number | null;
+}
+
+const NOTIFICATION_TYPE = 'quality_alert';
+
+class NotificationRuleService {
+  private checking = false;
+
+  async listRules(): Promise<NotificationRuleRow[]> {
+    return db.queryAll(
+      `SELECT r.*, f.name as feature_name, w.name as workshop_name, g.name as group_name,
+              (SELECT COUNT(*) FROM notification_events e WHERE e.rule_id = r.id AND e.status = 'open') as open_events
+       FROM notification_rules r
+       LEFT JOIN features f ON r.feature_id = f.id
+       LEFT JOIN workshops w ON r.workshop_id = w.id
+       LEFT JOIN groups g ON r.recipient_group_id = g.id
+       ORDER BY r.name`
+    );
+  }
+
+  async saveRule(ruleId: number | null, input: NotificationRuleInput, userId: number | null): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+
+    if (!input.name.trim()) {
+      throw new Error('The rule needs a name');
+    }
+    if (input.recipientRoles.length === 0) {
+      throw new Error('Choose at least one role to notify');
+    }
+    if (input.eventType !== 'control-rule' && (input.threshold === null || !(input.threshold > 0))) {
+      throw new Error('The threshold must be a positive number');
+    }
+    if (input.eventType === 'capability' && (input.windowSize === null || input.windowSize < 5)) {
+      throw new Error('Cpk needs a window of at least 5 subgroups');
+    }
+    if (input.escalateAfterMinutes !== null && (input.escalateAfterMinutes <= 0 || input.escalationRoles.length === 0)) {
+      throw new Error('Escalation needs a positive delay and at least one role');
+    }
+
+    const values = [
+      input.name.trim(),
+      input.eventType,
+      input.severity,
+      input.enabled ? 1 : 0,
+      input.featureId,
+      input.characteristicClass,
+      input.workshopId,
+      input.eventType === 'control-rule' ? joinList(input.controlRules) || null : null,
+      input.threshold,
+      input.windowSize,
+      joinList(input.recipientRoles),
+      input.recipientGroupId,
+      Math.max(0, Math.round(input.dedupMinutes)),
+      input.escalateAfterMinutes,
+      input.escalateAfterMinutes !== null ? joinList(input.escalationRoles) : null,
+    ];
+
+    if (ruleId) {
+      await db.execute(
+        `UPDATE notification_rules SET name = ?, event_type = ?, severity = ?, enabled = ?, feature_id = ?, characteristic_class = ?,
+           workshop_id = ?, control_rules = ?, threshold = ?, window_size = ?, recipient_roles = ?, recipient_group_id = ?,
+           dedup_minutes = ?, escalate_after_minutes = ?, escalation_roles = ?, updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`,
+        [...values, ruleId]
+      );
+    } else {
+      ruleId = await db.insert(
+        `INSERT INTO notification_rules (name, event_type, severity, enabled, feature_id, characteristic_class, workshop_id, control_rules,
+           threshold, window_size, recipient_roles, recipient_group_id, dedup_minutes, escalate_after_minutes, escalation_roles, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [...values, userId]
+      );
+    }
+
+    logger.logUserAction('Save notification rule', 'NotificationRules', {
+      ruleId,
+      name: input.name,
+      eventType: input.eventType
+    }, userId ? String(userId) : undefined);
+    return true;
+  }
+
+  async deleteRule(ruleId: number): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+
+    await db.transaction(async tx => {
+      await tx.execute(
+        'UPDATE notifications SET event_id = NULL WHERE event_id IN (SELECT id FROM notification_events WHERE rule_id = ?)',
+        [ruleId]
+      );
+      await tx.execute('DELETE FROM notification_events WHERE rule_id = ?', [ruleId]);
+      await tx.execute('DELETE FROM notification_rules WHERE id = ?', [ruleId]);
+    });
+    logger.logUserAction('Delete notification rule', 'NotificationRules', { ruleId });
+    return true;
+  }
+
+  async listEvents(status: NotificationEventStatus | 'all' = 'all', limit: number = 100): Promise<NotificationEventRow[]> {
+    const scope = workshopScopeService.condition('e.workshop_id');
+    return db.queryAll(
+      `SELECT e.*, r.name as rule_name, u.username as acknowledged_by_name
+       FROM notification_events e
+       JOIN notification_rules r ON e.rule_id = r.id
+       LEFT JOIN users u ON e.acknowledged_by = u.id
+       WHERE (? = 'all' OR e.status = ?) AND ${scope.sql}
+       ORDER BY e.last_seen_at DESC, e.id DESC LIMIT ?`,
+      [status, status, ...scope.params, limit]
+    );
+  }
+
+  // Whoever acknowledges first stops the escalation for everyone
+  async acknowledge(eventId: number, userId: number | null): Promise<void> {
+    await db.transaction(async tx => {
+      await tx.execute(
+        "UPDATE notification_events SET status = 'acknowledged', acknowledged_at = CURRENT_TIMESTAMP, acknowledged_by = ? WHERE id = ? AND status = 'open'",
+        [userId, eventId]
+      );
+      await tx.execute(
+        'UPDATE notifications SET read_at = COALESCE(read_at, CURRENT_TIMESTAMP) WHERE event_id = ?',
+        [eventId]
+      );
+    });
+    logger.logUserAction('Acknowledge quality alert', 'NotificationCenter', { eventId }, userId ? String(userId) : undefined);
+  }
+
+  // Rules that judge the values themselves, run after new measurements
+  async evaluateMeasurements(featureIds: number[]): Promise<void> {
+    if (featureIds.length === 0) return;
+    const rules = await this.getEnabledRules(['control-rule', 'capability']);
+
+    for (const rule of rules) {
+      const features = await this.getWatchedFeatures(rule, featureIds);
+      for (const feature of features) {
+        const event = rule.event_type === 'control-rule'
+          ? await this.checkControlRules(rule, feature)
+          : await this.checkCapability(rule, feature);
+        if (event) await this.raise(rule, event);
+      }
+    }
+  }
+
+  // Time-based rules and escalations, run periodically while the app is open
+  async runScheduledChecks(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+    try {
+      const rules = await this.getEnabledRules(['missed-inspection', 'calibration-due']);
+      for (const rule of rules) {
+        const events = rule.event_type === 'missed-inspection'
+          ? await this.checkMissedInspections(rule)
+          : await this.checkCalibrations(rule);
+        for (const event of events) {
+          await this.raise(rule, event);
+        }
+      }
+      await this.escalate();
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private async getEnabledRules(types: NotificationEventType[]): Promise<NotificationRule[]> {
+    return db.queryAll(
+      `SELECT * FROM notification_rules WHERE enabled = 1 AND event_type IN (${types.map(() => '?').join(', ')})`,
+      types
+    );
+  }
+
+  private async getWatchedFeatures(rule: NotificationRule, featureIds?: number[]): Promise<WatchedFeature[]> {
+    const conditions = ["COALESCE(f.characteristic_type, 'variable') = 'variable'"];
+    const params: unknown[] = [];
+    if (rule.feature_id) {
+      conditions.push('f.id = ?');
+      params.push(rule.feature_id);
+    }
+    if (rule.characteristic_class) {
+      conditions.push('f.characteristic_class = ?');
+      params.push(rule.characteristic_class);
+    }
+    if (rule.workshop_id) {
+      conditions.push('COALESCE(f.workshop_id, p.workshop_id) = ?');
+      params.push(rule.workshop_id);
+    }
+    if (featureIds) {
+      conditions.push(`f.id IN (${featureIds.map(() => '?').join(', ')})`);
+      params.push(...featureIds);
+    }
+
+    return db.queryAll(
+      `SELECT f.*, p.name as product_name, COALESCE(f.workshop_id, p.workshop_id) as workshop_id
+       FROM features f
+       LEFT JOIN gammas g ON f.gamma_id = g.id
+       LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+       WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+  }
+
+  private featureLabel(feature: WatchedFeature): string {
+    return feature.product_name ? `${feature.product_name} - ${feature.name}` : feature.name;
+  }
+
+  private async checkControlRules(rule: NotificationRule, feature: WatchedFeature): Promise<RaisedEvent | null> {
+    const rows = await db.queryAll(
+      'SELECT measured_value FROM measurements WHERE feature_id = ? ORDER BY timestamp DESC, id DESC LIMIT ?',
+      [feature.id, rule.window_size || RULE_DEFAULTS['control-rule'].windowSize]
+    );
+    const values = rows.map(row => Number(row.measured_value)).reverse();
+    const violations = latestControlRuleViolations(values, parseList(rule.control_rules));
+    if (violations.length === 0) return null;
+
+    return {
+      key: `feature:${feature.id}`,
+      title: `Control rule violation: ${this.featureLabel(feature)}`,
+      message: `${violations.map(violation => violation.rule).join('; ')}. Latest value ${values[values.length - 1]}.`,
+      featureId: feature.id,
+      workshopId: feature.workshop_id,
+    };
+  }
+
+  private async checkCapability(rule: NotificationRule, feature: WatchedFeature): Promise<RaisedEvent | null> {
+    const windowSize = rule.window_size || (RULE_DEFAULTS.capability.windowSize as number);
+    const threshold = rule.threshold ?? (RULE_DEFAULTS.capability.threshold as number);
+    const rows = await db.queryAll(
+      `SELECT m.id, m.measured_value, m.timestamp, s.subgroup_number
+       FROM measurements m LEFT JOIN measurement_samples s ON m.sample_id = s.id
+       WHERE m.feature_id = ? ORDER BY m.timestamp DESC, m.id DESC LIMIT ?`,
+      [feature.id, windowSize * MAX_SUBGROUP_SIZE]
+    );
+    const points: DataPoint[] = rows.map(row => ({
+      id: String(row.id),
+      value: Number(row.measured_value),
+      timestamp: fromSqlTimestamp(row.timestamp),
+      subgroup: row.subgroup_number ?? undefined,
+    }));
+    const capability = windowCapability(points, feature, windowSize);
+    if (!capability || capability.value >= threshold) return null;
+
+    return {
+      key: `feature:${feature.id}`,
+      title: `Low capability: ${this.featureLabel(feature)}`,
+      message: `${capability.index} ${capability.value.toFixed(2)} over the last ${capability.subgroups} subgroups is below ${threshold}.`,
+      featureId: feature.id,
+      workshopId: feature.workshop_id,
+    };
+  }
+
+  // Missed checks the inspection schedule recorded for the watched features
+  // in the last `threshold` hours; each gap is raised once
+  private async checkMissedInspections(rule: NotificationRule): Promise<RaisedEvent[]> {
+    const hours = rule.threshold ?? (RULE_DEFAULTS['missed-inspection'].threshold as number);
+    const features = await this.getWatchedFeatures(rule);
+    if (features.length === 0) return [];
+
+    const rows: { id: number; feature_id: number; due_at: string; missed_count: number; workstation_name: string | null }[] =
+      await db.queryAll(
+        `SELECT c.id, c.feature_id, c.due_at, c.missed_count, w.name as workstation_name
+         FROM inspection_checks c
+         LEFT JOIN workstations w ON c.workstation_id = w.id
+         WHERE c.status = 'missed' AND c.feature_id IN (${features.map(() => '?').join(', ')})
+           AND c.recorded_at >= datetime('now', ?)
+           AND NOT EXISTS (SELECT 1 FROM notification_events e WHERE e.rule_id = ? AND e.event_key = 'check:' || c.id)`,
+        [...features.map(feature => feature.id), `-${Math.round(hours * 60)} minutes`, rule.id]
+      );
+
+    return rows.map(row => {
+      const feature = features.find(f => f.id === row.feature_id) as WatchedFeature;
+      const checks = row.missed_count > 1 ? `${row.missed_count} checks` : 'The check';
+      return {
+        key: `check:${row.id}`,
+        title: `Missed inspection: ${this.featureLabel(feature)}`,
+        message: `${checks} due from ${fromSqlTimestamp(row.due_at).toLocaleString()}${row.workstation_name ? ` at ${row.workstation_name}` : ''} not done in time.`,
+        featureId: feature.id,
+        workshopId: feature.workshop_id,
+      };
+    });
+  }
+
+  private async checkCalibrations(rule: NotificationRule): Promise<RaisedEvent[]> {
+    const days = rule.threshold ?? (RULE_DEFAULTS['calibration-due'].threshold as number);
+    const conditions = ["status = 'active'", 'calibration_due_date IS NOT NULL', "calibration_due_date <= date('now', 'localtime', ?)"];
+    const params: unknown[] = [`+${Math.round(days)} days`];
+    if (rule.workshop_id) {
+      conditions.push('workshop_id = ?');
+      params.push(rule.workshop_id);
+    }
+
+    const gauges: { id: number; code: string; name: string; calibration_due_date: string; workshop_id: number | null }[] =
+      await db.queryAll(
+        `SELECT id, code, name, calibration_due_date, workshop_id FROM gauges WHERE ${conditions.join(' AND ')}`,
+        params
+      );
+    return gauges.map(gauge => ({
+      key: `gauge:${gauge.id}:${gauge.calibration_due_date}`,
+      title: `Calibration due: ${gauge.code}`,
+      message: `Gauge ${gauge.code} (${gauge.name}) is due for calibration on ${gauge.calibration_due_date}.`,
+      gaugeId: gauge.id,
+      workshopId: gauge.workshop_id,
+    }));
+  }
+
+  // Active users holding one of the roles, in the group if the rule names
+  // one, and working in the event's workshop (or plant-wide); the
+  // administrators when nobody matches
+  private async getRecipients(roles: string[], groupId: number | null, workshopId: number | null): Promise<number[]> {
+    if (roles.length > 0) {
+      const conditions = ["status = 'active'", `role IN (${roles.map(() => '?').join(', ')})`];
+      const params: unknown[] = [...roles];
+      if (groupId) {
+        conditions.push('group_id = ?');
+        params.push(groupId);
+      }
+      if (workshopId) {
+        conditions.push(`(role = 'admin' OR workshop_id IS NULL OR workshop_id = ?
+          OR id IN (SELECT user_id FROM workshop_methods WHERE workshop_id = ?))`);
+        params.push(workshopId, workshopId);
+      }
+      const rows: { id: number }[] = await db.queryAll(`SELECT id FROM users WHERE ${conditions.join(' AND ')}`, params);
+      if (rows.length > 0) return rows.map(row => row.id);
+    }
+
+    const admins: { id: number }[] = await db.queryAll("SELECT id FROM users WHERE role = 'admin' AND status = 'active'");
+    return admins.map(row => row.id);
+  }
+
+  // Notifies once per condition: while its event is open, or within the
+  // de-duplication window after it was acknowledged, a repeat only counts
+  private async raise(rule: NotificationRule, event: RaisedEvent): Promise<void> {
+    const existing = await db.queryOne(
+      `SELECT id FROM notification_events
+       WHERE rule_id = ? AND event_key = ? AND (status = 'open' OR acknowledged_at > datetime('now', ?))
+       ORDER BY id DESC LIMIT 1`,
+      [rule.id, event.key, `-${rule.dedup_minutes} minutes`]
+    );
+    if (existing) {
+      await db.execute(
+        'UPDATE notification_events SET occurrences = occurrences + 1, last_seen_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [existing.id]
+      );
+      return;
+    }
+
+    const recipients = await this.getRecipients(parseList(rule.recipient_roles), rule.recipient_group_id ?? null, event.workshopId ?? null);
+    await db.transaction(async tx => {
+      const eventId = await tx.insert(
+        `INSERT INTO notification_events (rule_id, event_key, severity, title, message, feature_id, gauge_id, workshop_id)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [rule.id, event.key, rule.severity, event.title, event.message, event.featureId ?? null, event.gaugeId ?? null, event.workshopId ?? null]
+      );
+      for (const userId of recipients) {
+        await tx.execute(
+          'INSERT INTO notifications (type, title, message, user_id, severity, event_id) VALUES (?, ?, ?, ?, ?, ?)',
+          [NOTIFICATION_TYPE, event.title, event.message, userId, rule.severity, eventId]
+        );
+      }
+    });
+    logger.info('system', 'Quality alert raised', { ruleId: rule.id, key: event.key, recipients: recipients.length });
+  }
+
+  // Open events nobody acknowledged in time go to the escalation roles,
+  // one severity level up
+  private async escalate(): Promise<void> {
+    const events: (NotificationEvent & { escalate_after_minutes: number; escalation_roles: string | null })[] = await db.queryAll(
+      `SELECT e.*, r.escalate_after_minutes, r.escalation_roles
+       FROM notification_events e JOIN notification_rules r ON e.rule_id = r.id
+       WHERE e.status = 'open' AND e.escalation_level = 0 AND r.enabled = 1 AND r.escalate_after_minutes IS NOT NULL
+         AND e.created_at <= datetime('now', '-' || r.escalate_after_minutes || ' minutes')`
+    );
+
+    for (const event of events) {
+      const severity = escalateSeverity(event.severity);
+      const recipients = await this.getRecipients(parseList(event.escalation_roles), null, event.workshop_id ?? null);
+      const title = `Escalated: ${event.title}`;
+      const message = `Not acknowledged within ${event.escalate_after_minutes} min. ${event.message}`;
+      await db.transaction(async tx => {
+        await tx.execute(
+          'UPDATE notification_events SET escalation_level = 1, escalated_at = CURRENT_TIMESTAMP, severity = ? WHERE id = ?',
+          [severity, event.id]
+        );
+        for (const userId of recipients) {
+          await tx.execute(
+            'INSERT INTO notifications (type, title, message, user_id, severity, event_id) VALUES (?, ?, ?, ?, ?, ?)',
+            [NOTIFICATION_TYPE, title, message, userId, severity, event.id]
+          );
+        }
+      });
+      logger.info('system', 'Quality alert escalated', { eventId: event.id, recipients: recipients.length });
+    }
+  }
+}
+
+// Export singleton instance
+export const notificationRuleService = new NotificationRuleService();
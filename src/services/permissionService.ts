@@ -0,0 +1,253 @@
+import toast from 'react-hot-toast';
+import { db } from './database';
+import { logger } from './logger';
+
+// Resources match the permissions_* columns of the groups table
+export type PermissionResource =
+  | 'families'
+  | 'products'
+  | 'features'
+  | 'gammas'
+  | 'measurements'
+  | 'sections'
+  | 'users'
+  | 'database'
+  | 'storage'
+  | 'logs';
+
+export type PermissionLevel = 'none' | 'read' | 'write' | 'admin';
+
+export type Permissions = Record<PermissionResource, PermissionLevel>;
+
+export interface PermissionUser {
+  id: number;
+  username?: string;
+  role: string;
+  group_id?: number | null;
+}
+
+export const PERMISSION_RESOURCES: PermissionResource[] = [
+  'families', 'products', 'features', 'gammas', 'measurements',
+  'sections', 'users', 'database', 'storage', 'logs'
+];
+
+const LEVEL_RANK: Record<PermissionLevel, number> = { none: 0, read: 1, write: 2, admin: 3 };
+
+const allLevels = (level: PermissionLevel): Permissions =>
+  PERMISSION_RESOURCES.reduce((permissions, resource) => ({ ...permissions, [resource]: level }), {} as Permissions);
+
+// Rights of users without a group
+const ROLE_PERMISSIONS: Record<string, Permissions> = {
+  admin: allLevels('admin'),
+  method: {
+    ...allLevels('none'),
+    sections: 'write',
+    families: 'write',
+    products: 'write',
+    features: 'write',
+    gammas: 'write',
+    measurements: 'write',
+    users: 'read',
+  },
+  controle: {
+    ...allLevels('none'),
+    families: 'write',
+    products: 'write',
+    features: 'write',
+    gammas: 'read',
+    measurements: 'write',
+  },
+  prod: {
+    ...allLevels('none'),
+    gammas: 'read',
+    measurements: 'write',
+  },
+};
+
+// Hard ceiling per role for the resources a group must never open up, so a
+// group left at the schema defaults cannot give an operator the database tools
+const ROLE_CEILINGS: Record<string, Partial<Permissions>> = {
+  method: { database: 'none', users: 'read' },
+  controle: { database: 'none', users: 'none' },
+  prod: { database: 'none', users: 'none' },
+};
+
+// Without a login only measurement entry is available
+const ANONYMOUS_PERMISSIONS: Permissions = { ...allLevels('none'), measurements: 'write' };
+
+// Resource governing each table, for the generic CRUD tools
+const TABLE_RESOURCES: Record<string, PermissionResource> = {
+  workshops: 'sections',
+  workstations: 'sections',
+  families: 'families',
+  family_workshops: 'families',
+  products: 'products',
+  features: 'features',
+  gammas: 'gammas',
+  routes: 'gammas',
+  measurements: 'measurements',
+  measurement_samples: 'measurements',
+  attribute_inspections: 'measurements',
+  gage_studies: 'features',
+  gage_study_readings: 'measurements',
+  gauges: 'features',
+  gauge_calibrations: 'features',
+  reaction_plans: 'features',
+  reaction_plan_items: 'features',
+  nonconformances: 'measurements',
+  notification_rules: 'features',
+  notification_events: 'measurements',
+  inspection_frequencies: 'features',
+  production_events: 'measurements',
+  inspection_checks: 'measurements',
+  control_plans: 'gammas',
+  control_plan_lines: 'gammas',
+  control_plan_revisions: 'gammas',
+  ncrs: 'measurements',
+  ncr_history: 'measurements',
+  users: 'users',
+  groups: 'users',
+  registration_codes: 'users',
+  user_validation_requests: 'users',
+  workshop_methods: 'users',
+  images: 'storage',
+  logs: 'logs',
+};
+
+// Resource and level required to open each module
+const MODULE_PERMISSIONS: Record<string, [PermissionResource, PermissionLevel]> = {
+  sections: ['sections', 'read'],
+  families: ['families', 'read'],
+  products: ['products', 'read'],
+  features: ['features', 'read'],
+  gammas: ['gammas', 'read'],
+  measurements: ['measurements', 'read'],
+  capability: ['features', 'read'],
+  'gage-rr': ['measurements', 'read'],
+  gauges: ['measurements', 'read'],
+  'reaction-plans': ['features', 'read'],
+  'notification-rules': ['features', 'read'],
+  'inspection-plans': ['features', 'read'],
+  'control-plans': ['gammas', 'read'],
+  ncr: ['measurements', 'read'],
+  users: ['users', 'write'],
+  groups: ['users', 'admin'],
+  'registration-codes': ['users', 'write'],
+  'user-validation': ['users', 'read'],
+  database: ['database', 'admin'],
+  'database-crud': ['database', 'read'],
+  translations: ['database', 'write'],
+  'system-settings': ['database', 'admin'],
+  storage: ['storage', 'read'],
+  logs: ['logs', 'read'],
+};
+
+// Group editors stored 'all' before the 'admin' level existed
+const toLevel = (value: unknown): PermissionLevel => {
+  if (value === 'all') return 'admin';
+  return typeof value === 'string' && value in LEVEL_RANK ? (value as PermissionLevel) : 'none';
+};
+
+const minLevel = (a: PermissionLevel, b: PermissionLevel): PermissionLevel =>
+  LEVEL_RANK[a] <= LEVEL_RANK[b] ? a : b;
+
+class PermissionService {
+  private user: PermissionUser | null = null;
+  private permissions: Permissions = ANONYMOUS_PERMISSIONS;
+  private listeners: Array<(permissions: Permissions) => void> = [];
+
+  // Subscribe to permission changes (login, logout, group edits)
+  subscribe(listener: (permissions: Permissions) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  getPermissions(): Permissions {
+    return { ...this.permissions };
+  }
+
+  // Resolve the effective rights of a user: the group's rights when one is
+  // assigned (within the role ceiling), otherwise the role's rights
+  async setUser(user: PermissionUser | null): Promise<void> {
+    this.user = user;
+    if (!user) {
+      this.update(ANONYMOUS_PERMISSIONS);
+      return;
+    }
+
+    const rolePermissions = ROLE_PERMISSIONS[user.role] || allLevels('none');
+    if (user.role === 'admin' || !user.group_id) {
+      this.update(rolePermissions);
+      return;
+    }
+
+    try {
+      const group = await db.queryOne('SELECT * FROM groups WHERE id = ?', [user.group_id]);
+      if (this.user !== user) return; // Superseded by a later call
+
+      const ceiling = ROLE_CEILINGS[user.role] || allLevels('none');
+      this.update(group
+        ? PERMISSION_RESOURCES.reduce((permissions, resource) => {
+            const level = toLevel(group[`permissions_${resource}`]);
+            const max = ceiling[resource];
+            return { ...permissions, [resource]: max ? minLevel(max, level) : level };
+          }, {} as Permissions)
+        : rolePermissions);
+    } catch (error) {
+      console.error('Error loading group permissions:', error);
+      this.update(rolePermissions);
+    }
+  }
+
+  // Re-resolve after the groups table changed
+  async refresh(): Promise<void> {
+    await this.setUser(this.user);
+  }
+
+  getLevel(resource: PermissionResource): PermissionLevel {
+    return this.permissions[resource];
+  }
+
+  can(resource: PermissionResource, level: PermissionLevel = 'read'): boolean {
+    return LEVEL_RANK[this.permissions[resource]] >= LEVEL_RANK[level];
+  }
+
+  resourceForTable(tableName: string): PermissionResource {
+    return TABLE_RESOURCES[tableName] || 'database';
+  }
+
+  canAccessTable(tableName: string, level: PermissionLevel = 'read'): boolean {
+    return this.can(this.resourceForTable(tableName), level);
+  }
+
+  canAccessModule(module: string): boolean {
+    if (module === 'home') return true;
+    // Without a login only measurement entry can be reached
+    if (!this.user && module !== 'measurements') return false;
+
+    const required = MODULE_PERMISSIONS[module];
+    return required ? this.can(required[0], required[1]) : true;
+  }
+
+  // Guard for write paths: reports and logs a refusal, returns whether allowed
+  ensure(resource: PermissionResource, level: PermissionLevel = 'write'): boolean {
+    if (this.can(resource, level)) return true;
+
+    logger.logSecurity('PERMISSION_DENIED', { resource, level, granted: this.permissions[resource] }, this.user?.id?.toString());
+    toast.error(`You do not have ${level} permission on ${resource}`);
+    return false;
+  }
+
+  private update(permissions: Permissions): void {
+    this.permissions = { ...permissions };
+    this.listeners.forEach(listener => listener(this.getPermissions()));
+  }
+}
+
+// Export singleton instance
+export const permissionService = new PermissionService();
@@ -0,0 +1,409 @@
+import { db } from './database';
+import { logger } from './logger';
+import { permissionService } from './permissionService';
+import { workshopScopeService } from './workshopScopeService';
+import { CharacteristicClass, CharacteristicType, FeatureSpecification } from '../types/spc';
+import { DEFAULT_DECIMAL_PLACES, formatSpecification, normalizeSpecification } from '../utils/specifications';
+import { fromSqlTimestamp, toSqlTimestamp } from '../utils/dateTime';
+import {
+  QdasCharacteristic,
+  QdasPart,
+  QdasValue,
+  decodeQdasFile,
+  encodeQdasFile,
+  parseQdas,
+  writeDfq
+} from '../utils/qdas';
+
+export interface QdasExportOptions {
+  from?: string; // Local dates, YYYY-MM-DD, both inclusive
+  to?: string;
+}
+
+export interface QdasExportResult {
+  fileName: string;
+  data: Blob;
+  characteristics: number;
+  values: number;
+}
+
+// How a characteristic of the file maps onto the product's features
+export interface QdasCharacteristicMatch {
+  characteristic: QdasCharacteristic;
+  name: string;
+  featureId: number | null; // Null when the import creates the feature
+  specification: FeatureSpecification;
+  validValues: number;
+  notes: string[];
+}
+
+export interface QdasImportResult {
+  featuresCreated: number;
+  measurements: number;
+  inspections: number;
+  samples: number;
+  skipped: string[];
+  error?: string; // Set when the whole import was rolled back
+}
+
+interface QdasFeature extends FeatureSpecification {
+  id: number;
+  name: string;
+  product_id: number;
+  gamma_id?: number | null;
+  characteristic_type?: CharacteristicType;
+}
+
+// K2005 characteristic class
+const CLASS_TO_QDAS: Record<CharacteristicClass, number> = { critical: 4, major: 3, minor: 2 };
+
+const classFromQdas = (value?: number): CharacteristicClass => {
+  if (value !== undefined && value >= 4) return 'critical';
+  if (value === 3) return 'major';
+  return 'minor';
+};
+
+// K0002 of 255 and above marks values deleted or deactivated in qs-STAT
+const isValidValue = (value: QdasValue) => value.attribute < 255;
+
+const FEATURE_COLUMNS = `f.id, f.name, COALESCE(f.product_id, g.product_id) as product_id, f.gamma_id,
+  f.characteristic_type, f.specification_type, f.target_value, f.tolerance_plus, f.tolerance_minus,
+  f.specification_min, f.specification_max, f.unit, f.decimal_places, f.characteristic_class`;
+
+class QdasService {
+  // One .dfq file with the product's features and the values recorded for them
+  async exportProduct(productId: number, options: QdasExportOptions = {}): Promise<QdasExportResult> {
+    const product = await db.queryOne('SELECT id, name, description FROM products WHERE id = ?', [productId]);
+    if (!product) {
+      throw new Error('Product not found');
+    }
+
+    const features: QdasFeature[] = await db.queryAll(`
+      SELECT ${FEATURE_COLUMNS}
+      FROM features f
+      LEFT JOIN gammas g ON f.gamma_id = g.id
+      WHERE COALESCE(f.product_id, g.product_id) = ?
+      ORDER BY f.id
+    `, [productId]);
+
+    const conditions = ['m.product_id = ?'];
+    const params: (string | number)[] = [productId];
+    if (options.from) {
+      conditions.push('m.timestamp >= ?');
+      params.push(toSqlTimestamp(new Date(`${options.from}T00:00:00`)));
+    }
+    if (options.to) {
+      const end = new Date(`${options.to}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      conditions.push('m.timestamp < ?');
+      params.push(toSqlTimestamp(end));
+    }
+    const where = conditions.join(' AND ');
+
+    const measurements = await db.queryAll(`
+      SELECT m.feature_id, m.measured_value, m.timestamp, s.serial_number, s.lot_number, u.username
+      FROM measurements m
+      LEFT JOIN measurement_samples s ON m.sample_id = s.id
+      LEFT JOIN users u ON m.operator_id = u.id
+      WHERE ${where}
+      ORDER BY m.timestamp, m.id
+    `, params);
+    const inspections = await db.queryAll(`
+      SELECT m.feature_id, m.sample_size, m.defective_count, m.defect_count, m.timestamp, m.lot_number,
+             s.serial_number, u.username
+      FROM attribute_inspections m
+      LEFT JOIN measurement_samples s ON m.sample_id = s.id
+      LEFT JOIN users u ON m.operator_id = u.id
+      WHERE ${where}
+      ORDER BY m.timestamp, m.id
+    `, params);
+
+    let valueCount = 0;
+    const characteristics = features.map((feature, index): QdasCharacteristic => {
+      const spec = normalizeSpecification(feature);
+      const attribute = !!feature.characteristic_type && feature.characteristic_type !== 'variable';
+      const characteristic: QdasCharacteristic = {
+        number: String(index + 1),
+        description: feature.name,
+        attribute,
+        unit: spec.unit || undefined,
+        decimalPlaces: attribute ? undefined : spec.decimal_places,
+        characteristicClass: CLASS_TO_QDAS[spec.characteristic_class ?? 'minor'],
+        values: []
+      };
+
+      if (!attribute) {
+        characteristic.nominal = spec.target_value ?? undefined;
+        characteristic.lowerLimit = spec.specification_min ?? undefined;
+        characteristic.upperLimit = spec.specification_max ?? undefined;
+        if (spec.specification_type === 'nominal') {
+          characteristic.lowerAllowance = spec.tolerance_minus !== null && spec.tolerance_minus !== undefined ? -spec.tolerance_minus : undefined;
+          characteristic.upperAllowance = spec.tolerance_plus ?? undefined;
+        }
+        characteristic.values = measurements
+          .filter(row => row.feature_id === feature.id)
+          .map(row => ({
+            value: row.measured_value,
+            attribute: 0,
+            timestamp: fromSqlTimestamp(row.timestamp),
+            batch: row.lot_number || undefined,
+            operator: row.username || undefined,
+            partIdent: row.serial_number || undefined
+          }));
+      } else {
+        characteristic.values = inspections
+          .filter(row => row.feature_id === feature.id)
+          .map(row => ({
+            value: (feature.characteristic_type === 'defects' ? row.defect_count : row.defective_count) ?? 0,
+            attribute: 0,
+            timestamp: fromSqlTimestamp(row.timestamp),
+            batch: row.lot_number || undefined,
+            operator: row.username || undefined,
+            partIdent: row.serial_number || undefined,
+            subgroupSize: row.sample_size
+          }));
+      }
+
+      valueCount += characteristic.values.length;
+      return characteristic;
+    });
+
+    const content = writeDfq({ number: product.name, description: product.description || '', characteristics });
+    return {
+      fileName: `${product.name.replace(/[^\w.-]+/g, '_')}.dfq`,
+      data: new Blob([encodeQdasFile(content)], { type: 'application/octet-stream' }),
+      characteristics: characteristics.length,
+      values: valueCount
+    };
+  }
+
+  // Parse the selected files. A .dfd is read together with the .dfx of the
+  // same name; every other file stands on its own.
+  readFiles(files: { name: string; data: Uint8Array }[]): QdasPart[] {
+    const groups = new Map<string, { name: string; data: Uint8Array }[]>();
+    files.forEach(file => {
+      const extension = file.name.split('.').pop()?.toLowerCase();
+      const key = extension === 'dfd' || extension === 'dfx' ? file.name.replace(/\.[^.]+$/, '').toLowerCase() : file.name;
+      groups.set(key, [...(groups.get(key) || []), file]);
+    });
+
+    const parts: QdasPart[] = [];
+    for (const group of groups.values()) {
+      const ordered = [...group].sort((a, b) => Number(a.name.toLowerCase().endsWith('.dfx')) - Number(b.name.toLowerCase().endsWith('.dfx')));
+      parts.push(...parseQdas(ordered.map(file => decodeQdasFile(file.data)).join('\n')));
+    }
+    return parts;
+  }
+
+  // The product in the user's workshops whose name is the file's part number
+  // or part description
+  async findProduct(part: QdasPart): Promise<number | null> {
+    const scope = workshopScopeService.condition('p.workshop_id');
+    const product = await db.queryOne(
+      `SELECT p.id FROM products p
+       WHERE ${scope.sql} AND (LOWER(TRIM(p.name)) = LOWER(?) OR LOWER(TRIM(p.name)) = LOWER(?))
+       ORDER BY LOWER(TRIM(p.name)) = LOWER(?) DESC`,
+      [...scope.params, part.number, part.description || part.number, part.number]
+    );
+    return product?.id ?? null;
+  }
+
+  // Characteristics are matched to features by name; existing features keep
+  // their specification
+  async matchCharacteristics(part: QdasPart, productId: number): Promise<QdasCharacteristicMatch[]> {
+    const features: QdasFeature[] = await db.queryAll(`
+      SELECT ${FEATURE_COLUMNS}
+      FROM features f
+      LEFT JOIN gammas g ON f.gamma_id = g.id
+      WHERE COALESCE(f.product_id, g.product_id) = ?
+    `, [productId]);
+
+    return part.characteristics.map(characteristic => {
+      const name = characteristic.description || characteristic.number;
+      const feature = features.find(f => f.name.trim().toLowerCase() === name.toLowerCase());
+      const specification = this.toSpecification(characteristic);
+      const notes: string[] = [];
+
+      if (feature) {
+        const featureAttribute = !!feature.characteristic_type && feature.characteristic_type !== 'variable';
+        if (featureAttribute !== characteristic.attribute) {
+          notes.push(`${feature.name} is ${featureAttribute ? 'an attribute' : 'a variable'} characteristic in the database, its values are skipped`);
+        } else if (!characteristic.attribute && formatSpecification(feature) !== formatSpecification(specification)) {
+          notes.push(`Specification differs: ${formatSpecification(specification)} in the file, ${formatSpecification(feature)} kept`);
+        }
+      }
+
+      const invalid = characteristic.values.filter(value => !isValidValue(value)).length;
+      if (invalid > 0) {
+        notes.push(`${invalid} values marked invalid in the file are skipped`);
+      }
+
+      return {
+        characteristic,
+        name,
+        featureId: feature?.id ?? null,
+        specification,
+        validValues: characteristic.values.length - invalid,
+        notes
+      };
+    });
+  }
+
+  // Create the missing features and insert the values in one transaction.
+  // Values of the same timestamp and part ident form one sample.
+  async importPart(part: QdasPart, productId: number, currentUserId: number | null): Promise<QdasImportResult> {
+    const empty: QdasImportResult = { featuresCreated: 0, measurements: 0, inspections: 0, samples: 0, skipped: [] };
+    const matches = await this.matchCharacteristics(part, productId);
+
+    if (!permissionService.ensure('measurements')) {
+      return { ...empty, error: 'Permission denied' };
+    }
+    if (matches.some(match => match.featureId === null) && !permissionService.ensure('features')) {
+      return { ...empty, error: 'Permission denied' };
+    }
+
+    const product = await db.queryOne('SELECT id, workshop_id FROM products WHERE id = ?', [productId]);
+    if (!workshopScopeService.ensure(product?.workshop_id)) {
+      return { ...empty, error: 'Permission denied' };
+    }
+    const features: QdasFeature[] = await db.queryAll(`
+      SELECT ${FEATURE_COLUMNS}
+      FROM features f
+      LEFT JOIN gammas g ON f.gamma_id = g.id
+      WHERE COALESCE(f.product_id, g.product_id) = ?
+    `, [productId]);
+    const users = await db.queryAll('SELECT id, username FROM users');
+    const usersByName = new Map<string, number>(users.map(user => [String(user.username).toLowerCase(), user.id]));
+    const workshopId = product?.workshop_id ?? null;
+    const importTime = toSqlTimestamp(new Date());
+
+    const result: QdasImportResult = { ...empty };
+
+    try {
+      await db.transaction(async tx => {
+        const samples = new Map<string, number>();
+        const getSample = async (value: QdasValue, timestamp: string, operatorId: number | null, gammaId: number | null) => {
+          const key = `${timestamp}|${value.partIdent ?? ''}`;
+          let sampleId = samples.get(key);
+          if (sampleId === undefined) {
+            sampleId = await tx.insert(
+              'INSERT INTO measurement_samples (product_id, route_id, gamma_id, serial_number, lot_number, operator_id, workshop_id, notes, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [productId, gammaId, gammaId, value.partIdent ?? null, value.batch ?? null, operatorId, workshopId, 'Imported from Q-DAS', timestamp]
+            );
+            samples.set(key, sampleId);
+          }
+          return sampleId;
+        };
+
+        for (const match of matches) {
+          const { characteristic } = match;
+          let feature = features.find(f => f.id === match.featureId);
+
+          if (!feature) {
+            const spec = match.specification;
+            const characteristicType: CharacteristicType = characteristic.attribute ? 'defects' : 'variable';
+            const featureId = await tx.insert(
+              `INSERT INTO features
+               (name, product_id, specification_type, target_value, tolerance_plus, tolerance_minus,
+                specification_min, specification_max, unit, decimal_places, characteristic_class, characteristic_type, workshop_id)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+              [
+                match.name, productId, spec.specification_type, spec.target_value, spec.tolerance_plus, spec.tolerance_minus,
+                spec.specification_min, spec.specification_max, spec.unit, spec.decimal_places, spec.characteristic_class,
+                characteristicType, workshopId
+              ]
+            );
+            feature = { id: featureId, name: match.name, product_id: productId, gamma_id: null, characteristic_type: characteristicType, ...spec };
+            result.featuresCreated++;
+          }
+
+          const featureAttribute = !!feature.characteristic_type && feature.characteristic_type !== 'variable';
+          if (featureAttribute !== characteristic.attribute) {
+            result.skipped.push(`${match.name}: ${characteristic.values.length} values of a different characteristic type`);
+            continue;
+          }
+
+          const gammaId = feature.gamma_id ?? null;
+          for (const value of characteristic.values.filter(isValidValue)) {
+            const timestamp = value.timestamp ? toSqlTimestamp(value.timestamp) : importTime;
+            const operatorId = (value.operator && usersByName.get(value.operator.toLowerCase())) || currentUserId;
+            const sampleId = await getSample(value, timestamp, operatorId, gammaId);
+
+            if (!characteristic.attribute) {
+              await tx.execute(
+                'INSERT INTO measurements (feature_id, route_id, product_id, gamma_id, measured_value, operator_id, workshop_id, sample_id, notes, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+                [feature.id, gammaId, productId, gammaId, value.value, operatorId, workshopId, sampleId, 'Imported from Q-DAS', timestamp]
+              );
+              result.measurements++;
+              continue;
+            }
+
+            const sampleSize = value.subgroupSize ?? 1;
+            const count = Math.round(value.value);
+            if (count < 0 || (feature.characteristic_type === 'defectives' && count > sampleSize)) {
+              result.skipped.push(`${match.name}: ${count} defectives in a sample of ${sampleSize}`);
+              continue;
+            }
+            await tx.execute(
+              'INSERT INTO attribute_inspections (feature_id, route_id, product_id, gamma_id, sample_size, defective_count, defect_count, lot_number, operator_id, workshop_id, sample_id, notes, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+              [
+                feature.id, gammaId, productId, gammaId, sampleSize,
+                feature.characteristic_type === 'defectives' ? count : null,
+                feature.characteristic_type === 'defects' ? count : null,
+                value.batch ?? null, operatorId, workshopId, sampleId, 'Imported from Q-DAS', timestamp
+              ]
+            );
+            result.inspections++;
+          }
+        }
+
+        result.samples = samples.size;
+      });
+    } catch (error) {
+      logger.error('database', 'Q-DAS import failed', { error });
+      return { ...empty, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    logger.logUserAction('Import Q-DAS file', 'QdasExchange', {
+      part: part.number,
+      productId,
+      featuresCreated: result.featuresCreated,
+      measurements: result.measurements,
+      inspections: result.inspections
+    }, currentUserId ? String(currentUserId) : undefined);
+
+    return result;
+  }
+
+  // Spec limits from K2101 (nominal), K2110/K2111 (limits) and K2112/K2113
+  // (allowances relative to the nominal)
+  private toSpecification(characteristic: QdasCharacteristic): FeatureSpecification {
+    const { nominal, lowerAllowance, upperAllowance } = characteristic;
+    const lower = characteristic.lowerLimit ?? (nominal !== undefined && lowerAllowance !== undefined ? nominal + lowerAllowance : undefined);
+    const upper = characteristic.upperLimit ?? (nominal !== undefined && upperAllowance !== undefined ? nominal + upperAllowance : undefined);
+
+    const spec: FeatureSpecification = {
+      target_value: nominal ?? null,
+      unit: characteristic.unit || '',
+      decimal_places: characteristic.decimalPlaces ?? DEFAULT_DECIMAL_PLACES,
+      characteristic_class: classFromQdas(characteristic.characteristicClass)
+    };
+
+    if (lower !== undefined && upper !== undefined) {
+      if (nominal !== undefined && lower <= nominal && nominal <= upper) {
+        return normalizeSpecification({ ...spec, specification_type: 'nominal', tolerance_plus: upper - nominal, tolerance_minus: nominal - lower });
+      }
+      return normalizeSpecification({ ...spec, specification_type: 'range', specification_min: lower, specification_max: upper });
+    }
+    if (upper !== undefined) {
+      return normalizeSpecification({ ...spec, specification_type: 'maximum', specification_max: upper });
+    }
+    if (lower !== undefined) {
+      return normalizeSpecification({ ...spec, specification_type: 'minimum', specification_min: lower });
+    }
+    return normalizeSpecification({ ...spec, specification_type: 'nominal' });
+  }
+}
+
+// Export singleton instance
+export const qdasService = new QdasService();
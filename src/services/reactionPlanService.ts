@@ -0,0 +1,313 @@
+import { db, DatabaseTransaction } from './database';
+import { logger } from './logger';
+import { permissionService } from './permissionService';
+import { workshopScopeService } from './workshopScopeService';
+import { FeatureSpecification, Nonconformance, ReactionPlanItem, ViolationKind } from '../types/spc';
+import {
+  CONTROL_LIMIT_HISTORY,
+  DEFAULT_REACTION_ACTIONS,
+  DEFAULT_REACTION_CAUSES,
+  detectLimitViolation,
+  entryControlLimits,
+  isSpecificationViolation
+} from '../utils/reactionPlans';
+
+export interface ReactionPlanDetails {
+  featureId: number;
+  planId: number | null; // Null when the plant defaults apply
+  instructions: string;
+  checkControlLimits: boolean;
+  causes: ReactionPlanItem[];
+  actions: ReactionPlanItem[];
+}
+
+export interface ReactionPlanInput {
+  instructions: string;
+  checkControlLimits: boolean;
+  causes: ReactionPlanItem[];
+  actions: ReactionPlanItem[];
+}
+
+export interface ViolationCheckFeature extends FeatureSpecification {
+  id: number;
+  name: string;
+}
+
+// A value the operator has to react to before it is recorded
+export interface PendingViolation {
+  featureId: number;
+  featureName: string;
+  value: number;
+  unit?: string | null;
+  decimalPlaces?: number | null;
+  violation: ViolationKind;
+  limit: number;
+  plan: ReactionPlanDetails;
+}
+
+export interface ViolationReaction {
+  featureId: number;
+  causeCode: string;
+  causeDescription: string;
+  actionCode: string;
+  actionDescription: string;
+  comment: string;
+}
+
+export interface NewNonconformance {
+  measurementId: number | null;
+  featureId: number;
+  productId: number | null;
+  sampleId: number | null;
+  violation: ViolationKind;
+  value: number;
+  limit: number;
+  reaction: ViolationReaction;
+  operatorId: number | null;
+  workstationId: number | null;
+  workshopId: number | null;
+}
+
+export interface NonconformanceRow extends Nonconformance {
+  feature_name?: string;
+  product_name?: string;
+  operator_name?: string;
+}
+
+export interface ReactionPlanSummary {
+  feature_id: number;
+  feature_name: string;
+  product_name?: string;
+  plan_id: number | null;
+  cause_count: number;
+  action_count: number;
+  open_nonconformances: number;
+}
+
+const VIOLATION_LABELS: Record<ViolationKind, string> = {
+  'above-usl': 'above the upper specification limit',
+  'below-lsl': 'below the lower specification limit',
+  'above-ucl': 'above the upper control limit',
+  'below-lcl': 'below the lower control limit',
+};
+
+class ReactionPlanService {
+  async listPlans(): Promise<ReactionPlanSummary[]> {
+    const scope = workshopScopeService.condition('p.workshop_id');
+    return db.queryAll(
+      `SELECT f.id as feature_id, f.name as feature_name, p.name as product_name, rp.id as plan_id,
+              (SELECT COUNT(*) FROM reaction_plan_items i WHERE i.plan_id = rp.id AND i.kind = 'cause') as cause_count,
+              (SELECT COUNT(*) FROM reaction_plan_items i WHERE i.plan_id = rp.id AND i.kind = 'action') as action_count,
+              (SELECT COUNT(*) FROM nonconformances n WHERE n.feature_id = f.id AND n.status = 'open') as open_nonconformances
+       FROM features f
+       LEFT JOIN gammas g ON f.gamma_id = g.id
+       LEFT JOIN products p ON p.id = COALESCE(f.product_id, g.product_id)
+       LEFT JOIN reaction_plans rp ON rp.feature_id = f.id
+       WHERE COALESCE(f.characteristic_type, 'variable') = 'variable' AND ${scope.sql}
+       ORDER BY p.name, f.name`,
+      scope.params
+    );
+  }
+
+  // The feature's plan, or the plant defaults when it has none
+  async getPlan(featureId: number): Promise<ReactionPlanDetails> {
+    const plan = await db.queryOne('SELECT * FROM reaction_plans WHERE feature_id = ?', [featureId]);
+    if (!plan) {
+      return {
+        featureId,
+        planId: null,
+        instructions: '',
+        checkControlLimits: true,
+        causes: DEFAULT_REACTION_CAUSES,
+        actions: DEFAULT_REACTION_ACTIONS,
+      };
+    }
+
+    const items: ReactionPlanItem[] = await db.queryAll(
+      'SELECT id, kind, code, description, sort_order FROM reaction_plan_items WHERE plan_id = ? ORDER BY sort_order, id',
+      [plan.id]
+    );
+    return {
+      featureId,
+      planId: plan.id,
+      instructions: plan.instructions ?? '',
+      checkControlLimits: !!plan.check_control_limits,
+      causes: items.filter(item => item.kind === 'cause'),
+      actions: items.filter(item => item.kind === 'action'),
+    };
+  }
+
+  async savePlan(featureId: number, input: ReactionPlanInput, userId: number | null): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+
+    const causes = input.causes.filter(item => item.code.trim());
+    const actions = input.actions.filter(item => item.code.trim());
+    if (causes.length === 0 || actions.length === 0) {
+      throw new Error('A reaction plan needs at least one cause code and one corrective action');
+    }
+
+    await db.transaction(async tx => {
+      const existing = await tx.queryOne<{ id: number }>('SELECT id FROM reaction_plans WHERE feature_id = ?', [featureId]);
+      let planId = existing?.id ?? 0;
+      if (planId) {
+        await tx.execute(
+          'UPDATE reaction_plans SET instructions = ?, check_control_limits = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+          [input.instructions.trim() || null, input.checkControlLimits ? 1 : 0, planId]
+        );
+        await tx.execute('DELETE FROM reaction_plan_items WHERE plan_id = ?', [planId]);
+      } else {
+        planId = await tx.insert(
+          'INSERT INTO reaction_plans (feature_id, instructions, check_control_limits, created_by) VALUES (?, ?, ?, ?)',
+          [featureId, input.instructions.trim() || null, input.checkControlLimits ? 1 : 0, userId]
+        );
+      }
+
+      const items = [...causes, ...actions];
+      for (let index = 0; index < items.length; index++) {
+        const item = items[index];
+        await tx.execute(
+          'INSERT INTO reaction_plan_items (plan_id, kind, code, description, sort_order) VALUES (?, ?, ?, ?, ?)',
+          [planId, item.kind, item.code.trim().toUpperCase(), item.description?.trim() || null, index]
+        );
+      }
+    });
+
+    logger.logUserAction('Save reaction plan', 'ReactionPlans', {
+      featureId,
+      causes: causes.length,
+      actions: actions.length
+    }, userId ? String(userId) : undefined);
+    return true;
+  }
+
+  // Back to the plant defaults
+  async deletePlan(featureId: number): Promise<boolean> {
+    if (!permissionService.ensure('features')) return false;
+
+    await db.transaction(async tx => {
+      await tx.execute(
+        'DELETE FROM reaction_plan_items WHERE plan_id IN (SELECT id FROM reaction_plans WHERE feature_id = ?)',
+        [featureId]
+      );
+      await tx.execute('DELETE FROM reaction_plans WHERE feature_id = ?', [featureId]);
+    });
+    logger.logUserAction('Delete reaction plan', 'ReactionPlans', { featureId });
+    return true;
+  }
+
+  // Values beyond the specification, or beyond control limits from the
+  // feature's recent history when its plan checks them
+  async detectViolations(entries: { feature: ViolationCheckFeature; value: number }[]): Promise<PendingViolation[]> {
+    const violations: PendingViolation[] = [];
+
+    for (const { feature, value } of entries) {
+      const plan = await this.getPlan(feature.id);
+      let controlLimits = null;
+      if (plan.checkControlLimits) {
+        const rows = await db.queryAll(
+          'SELECT measured_value FROM measurements WHERE feature_id = ? ORDER BY timestamp DESC, id DESC LIMIT ?',
+          [feature.id, CONTROL_LIMIT_HISTORY]
+        );
+        controlLimits = entryControlLimits(rows.map(row => Number(row.measured_value)).reverse());
+      }
+
+      const violation = detectLimitViolation(value, feature, controlLimits);
+      if (!violation) continue;
+
+      violations.push({
+        featureId: feature.id,
+        featureName: feature.name,
+        value,
+        unit: feature.unit,
+        decimalPlaces: feature.decimal_places,
+        violation: violation.kind,
+        limit: violation.limit,
+        plan,
+      });
+    }
+
+    return violations;
+  }
+
+  // Stored with the measurement, in the caller's transaction
+  async recordNonconformance(tx: DatabaseTransaction, record: NewNonconformance): Promise<number> {
+    const { reaction } = record;
+    return tx.insert(
+      `INSERT INTO nonconformances (measurement_id, feature_id, product_id, sample_id, violation, measured_value, limit_value,
+         cause_code, cause_description, action_code, action_description, comment, operator_id, workstation_id, workshop_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        record.measurementId,
+        record.featureId,
+        record.productId,
+        record.sampleId,
+        record.violation,
+        record.value,
+        record.limit,
+        reaction.causeCode,
+        reaction.causeDescription || null,
+        reaction.actionCode,
+        reaction.actionDescription || null,
+        reaction.comment.trim() || null,
+        record.operatorId,
+        record.workstationId,
+        record.workshopId,
+      ]
+    );
+  }
+
+  // Method engineers of the workshop and its controle users; the whole
+  // controle team when the entry has no workshop
+  private async getResponsibleUsers(workshopId: number | null): Promise<number[]> {
+    const rows: { id: number }[] = workshopId
+      ? await db.queryAll(
+        `SELECT wm.user_id as id FROM workshop_methods wm JOIN users u ON u.id = wm.user_id WHERE wm.workshop_id = ? AND u.status = 'active'
+         UNION
+         SELECT id FROM users WHERE role = 'controle' AND workshop_id = ? AND status = 'active'`,
+        [workshopId, workshopId]
+      )
+      : await db.queryAll("SELECT id FROM users WHERE role = 'controle' AND status = 'active'");
+    if (rows.length > 0) return rows.map(row => row.id);
+
+    const admins: { id: number }[] = await db.queryAll("SELECT id FROM users WHERE role = 'admin' AND status = 'active'");
+    return admins.map(row => row.id);
+  }
+
+  async notifyNonconformances(
+    records: { featureName: string; productName: string; value: number; violation: ViolationKind; reaction: ViolationReaction }[],
+    workshopId: number | null,
+    operatorName: string
+  ): Promise<void> {
+    if (records.length === 0) return;
+    const recipients = await this.getResponsibleUsers(workshopId);
+
+    await db.transaction(async tx => {
+      for (const record of records) {
+        const severity = isSpecificationViolation(record.violation) ? 'Out of specification' : 'Out of control';
+        const title = `${severity}: ${record.productName} - ${record.featureName}`;
+        const message = `${operatorName || 'An operator'} measured ${record.value}, ${VIOLATION_LABELS[record.violation]}. ` +
+          `Cause: ${record.reaction.causeDescription || record.reaction.causeCode}. ` +
+          `Action: ${record.reaction.actionDescription || record.reaction.actionCode}.` +
+          (record.reaction.comment.trim() ? ` ${record.reaction.comment.trim()}` : '');
+        for (const userId of recipients) {
+          await tx.execute(
+            'INSERT INTO notifications (type, title, message, user_id) VALUES (?, ?, ?, ?)',
+            ['nonconformance', title, message, userId]
+          );
+        }
+      }
+    });
+  }
+
+  async listNonconformances(featureId: number, limit: number = 50): Promise<NonconformanceRow[]> {
+    return db.queryAll(
+      `SELECT n.*, u.username as operator_name FROM nonconformances n
+       LEFT JOIN users u ON n.operator_id = u.id
+       WHERE n.feature_id = ? ORDER BY n.created_at DESC, n.id DESC LIMIT ?`,
+      [featureId, limit]
+    );
+  }
+}
+
+// Export singleton instance
+export const reactionPlanService = new ReactionPlanService();
@@ -55,6 +55,9 @@ export interface NotificationData {
   user_id?: number;
   read_at?: string;
   created_at: string;
+  severity?: string | null;
+  event_id?: number | null;
+  event_status?: string | null; // Status of the quality alert the notification reports
 }
 
 class RegistrationService {
@@ -475,9 +478,10 @@ class RegistrationService {
       // Database is initialized globally in App.tsx
 
       const notifications = await db.queryAll(`
-        SELECT * FROM notifications 
-        WHERE user_id = ? OR user_id IS NULL
-        ORDER BY created_at DESC
+        SELECT n.*, e.status as event_status FROM notifications n
+        LEFT JOIN notification_events e ON n.event_id = e.id
+        WHERE n.user_id = ? OR n.user_id IS NULL
+        ORDER BY n.created_at DESC
         LIMIT 50
       `, [userId]);
 
@@ -1,4 +1,5 @@
 import { db } from './database';
+import { normalizeSpecification } from '../utils/specifications';
 
 export interface SampleDataConfig {
   workshops: Array<{
@@ -1346,9 +1347,10 @@ export class SampleDataService {
 
       // Insert features AFTER gammas (since features reference gamma_id)
       for (const feature of sampleData.features) {
+        const specification = normalizeSpecification({ ...feature, specification_type: 'nominal' });
         await db.execute(
-          'INSERT INTO features (name, description, gamma_id, product_id, target_value, tolerance_plus, tolerance_minus, unit) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-          [feature.name, feature.description, feature.gamma_id, feature.product_id, feature.target_value, feature.tolerance_plus, feature.tolerance_minus, feature.unit]
+          'INSERT INTO features (name, description, gamma_id, product_id, specification_type, target_value, tolerance_plus, tolerance_minus, specification_min, specification_max, unit) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [feature.name, feature.description, feature.gamma_id, feature.product_id, specification.specification_type, specification.target_value, specification.tolerance_plus, specification.tolerance_minus, specification.specification_min, specification.specification_max, feature.unit]
         );
       }
 
@@ -1446,9 +1448,10 @@ export class SampleDataService {
 
       // Insert features AFTER gammas (since features reference gamma_id)
       for (const feature of sampleData.features) {
+        const specification = normalizeSpecification({ ...feature, specification_type: 'nominal' });
         await db.execute(
-          'INSERT OR IGNORE INTO features (name, description, gamma_id, product_id, target_value, tolerance_plus, tolerance_minus, unit) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-          [feature.name, feature.description, feature.gamma_id, feature.product_id, feature.target_value, feature.tolerance_plus, feature.tolerance_minus, feature.unit]
+          'INSERT OR IGNORE INTO features (name, description, gamma_id, product_id, specification_type, target_value, tolerance_plus, tolerance_minus, specification_min, specification_max, unit) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+          [feature.name, feature.description, feature.gamma_id, feature.product_id, specification.specification_type, specification.target_value, specification.tolerance_plus, specification.tolerance_minus, specification.specification_min, specification.specification_max, feature.unit]
         );
       }
 
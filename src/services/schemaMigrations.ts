@@ -0,0 +1,878 @@
+// Ordered registry of schema migrations. Steps are declarative so that a
+// migration can be previewed (dry run) and checksummed; the runner lives in
+// autoDatabaseUpdate.
+
+// Step applies only when the live table has (or lacks) a column
+export interface ColumnCondition {
+  table: string;
+  column: string;
+  exists: boolean;
+}
+
+export type MigrationStep =
+  | { kind: 'sql'; sql: string; when?: ColumnCondition }
+  | { kind: 'addColumn'; table: string; column: string; definition: string }
+  // SQLite cannot drop or retype columns: the table is recreated from the
+  // definition and the columns both versions share are copied over
+  | { kind: 'rebuildTable'; table: string; definition: string; when?: ColumnCondition };
+
+export interface Migration {
+  version: number;
+  name: string;
+  steps: MigrationStep[];
+}
+
+const FAMILIES_DEFINITION = `
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  description TEXT,
+  image_filename TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+`;
+
+const MEASUREMENTS_DEFINITION = `
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  product_id INTEGER NOT NULL,
+  feature_id INTEGER,
+  route_id INTEGER,
+  gamma_id INTEGER,
+  measured_value REAL NOT NULL,
+  operator_id INTEGER NOT NULL,
+  workstation_id INTEGER,
+  workshop_id INTEGER,
+  timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+  notes TEXT,
+  sample_id INTEGER,
+  FOREIGN KEY (product_id) REFERENCES products(id),
+  FOREIGN KEY (feature_id) REFERENCES features(id),
+  FOREIGN KEY (route_id) REFERENCES routes(id),
+  FOREIGN KEY (gamma_id) REFERENCES gammas(id),
+  FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+  FOREIGN KEY (workshop_id) REFERENCES workshops(id),
+  FOREIGN KEY (operator_id) REFERENCES users(id),
+  FOREIGN KEY (sample_id) REFERENCES measurement_samples(id)
+`;
+
+// Tables added after the web schema was aligned (v11) are created from the
+// same statement by their migration and by the web database's createTables
+export const GAGE_STUDIES_TABLE = `CREATE TABLE IF NOT EXISTS gage_studies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  feature_id INTEGER NOT NULL,
+  gauge TEXT NOT NULL,
+  part_count INTEGER NOT NULL,
+  operator_count INTEGER NOT NULL,
+  trial_count INTEGER NOT NULL,
+  tolerance REAL,
+  status TEXT NOT NULL DEFAULT 'open',
+  notes TEXT,
+  workshop_id INTEGER,
+  created_by INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  completed_at DATETIME,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE,
+  FOREIGN KEY (workshop_id) REFERENCES workshops(id),
+  FOREIGN KEY (created_by) REFERENCES users(id)
+)`;
+
+export const GAGE_STUDY_READINGS_TABLE = `CREATE TABLE IF NOT EXISTS gage_study_readings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  study_id INTEGER NOT NULL,
+  part_number INTEGER NOT NULL,
+  operator_id INTEGER NOT NULL,
+  trial INTEGER NOT NULL,
+  run_order INTEGER NOT NULL,
+  measured_value REAL,
+  measured_at DATETIME,
+  FOREIGN KEY (study_id) REFERENCES gage_studies(id) ON DELETE CASCADE,
+  FOREIGN KEY (operator_id) REFERENCES users(id),
+  UNIQUE(study_id, part_number, operator_id, trial)
+)`;
+
+export const GAGE_STUDY_READINGS_INDEX = 'CREATE INDEX IF NOT EXISTS idx_gage_study_readings_study ON gage_study_readings(study_id, run_order)';
+
+export const GAUGES_TABLE = `CREATE TABLE IF NOT EXISTS gauges (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  code TEXT UNIQUE NOT NULL,
+  name TEXT NOT NULL,
+  gauge_type TEXT,
+  resolution REAL,
+  range_min REAL,
+  range_max REAL,
+  unit TEXT,
+  location TEXT,
+  workshop_id INTEGER,
+  status TEXT NOT NULL DEFAULT 'active',
+  calibration_interval_days INTEGER,
+  last_calibration_date DATE,
+  calibration_due_date DATE,
+  due_notified_for DATE,
+  notes TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (workshop_id) REFERENCES workshops(id)
+)`;
+
+export const GAUGE_CALIBRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS gauge_calibrations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  gauge_id INTEGER NOT NULL,
+  calibration_date DATE NOT NULL,
+  due_date DATE,
+  result TEXT NOT NULL DEFAULT 'pass',
+  certificate TEXT,
+  performed_by TEXT,
+  notes TEXT,
+  recorded_by INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (gauge_id) REFERENCES gauges(id) ON DELETE CASCADE,
+  FOREIGN KEY (recorded_by) REFERENCES users(id)
+)`;
+
+export const GAUGE_CALIBRATIONS_INDEX = 'CREATE INDEX IF NOT EXISTS idx_gauge_calibrations_gauge ON gauge_calibrations(gauge_id, calibration_date)';
+
+// Out-of-control action plan (OCAP) of a feature and its cause codes and
+// corrective actions
+export const REACTION_PLANS_TABLE = `CREATE TABLE IF NOT EXISTS reaction_plans (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature_id INTEGER UNIQUE NOT NULL,
+  instructions TEXT,
+  check_control_limits BOOLEAN DEFAULT 1,
+  created_by INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE,
+  FOREIGN KEY (created_by) REFERENCES users(id)
+)`;
+
+export const REACTION_PLAN_ITEMS_TABLE = `CREATE TABLE IF NOT EXISTS reaction_plan_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  plan_id INTEGER NOT NULL,
+  kind TEXT NOT NULL,
+  code TEXT NOT NULL,
+  description TEXT,
+  sort_order INTEGER DEFAULT 0,
+  FOREIGN KEY (plan_id) REFERENCES reaction_plans(id) ON DELETE CASCADE
+)`;
+
+// A value beyond the specification or control limits and the operator's reaction
+export const NONCONFORMANCES_TABLE = `CREATE TABLE IF NOT EXISTS nonconformances (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  measurement_id INTEGER,
+  feature_id INTEGER NOT NULL,
+  product_id INTEGER,
+  sample_id INTEGER,
+  violation TEXT NOT NULL,
+  measured_value REAL NOT NULL,
+  limit_value REAL,
+  cause_code TEXT NOT NULL,
+  cause_description TEXT,
+  action_code TEXT NOT NULL,
+  action_description TEXT,
+  comment TEXT,
+  status TEXT NOT NULL DEFAULT 'open',
+  operator_id INTEGER,
+  workstation_id INTEGER,
+  workshop_id INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  closed_at DATETIME,
+  closed_by INTEGER,
+  FOREIGN KEY (measurement_id) REFERENCES measurements(id) ON DELETE SET NULL,
+  FOREIGN KEY (feature_id) REFERENCES features(id),
+  FOREIGN KEY (product_id) REFERENCES products(id),
+  FOREIGN KEY (sample_id) REFERENCES measurement_samples(id),
+  FOREIGN KEY (operator_id) REFERENCES users(id),
+  FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+  FOREIGN KEY (workshop_id) REFERENCES workshops(id),
+  FOREIGN KEY (closed_by) REFERENCES users(id)
+)`;
+
+export const NONCONFORMANCES_INDEX = 'CREATE INDEX IF NOT EXISTS idx_nonconformances_feature ON nonconformances(feature_id, created_at)';
+
+// Configurable quality alerts: each rule watches one kind of event and
+// routes what it raises by role, workshop and group
+export const NOTIFICATION_RULES_TABLE = `CREATE TABLE IF NOT EXISTS notification_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'warning',
+  enabled BOOLEAN DEFAULT 1,
+  feature_id INTEGER,
+  characteristic_class TEXT,
+  workshop_id INTEGER,
+  control_rules TEXT,
+  threshold REAL,
+  window_size INTEGER,
+  recipient_roles TEXT NOT NULL,
+  recipient_group_id INTEGER,
+  dedup_minutes INTEGER NOT NULL DEFAULT 240,
+  escalate_after_minutes INTEGER,
+  escalation_roles TEXT,
+  created_by INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE,
+  FOREIGN KEY (workshop_id) REFERENCES workshops(id),
+  FOREIGN KEY (recipient_group_id) REFERENCES groups(id),
+  FOREIGN KEY (created_by) REFERENCES users(id)
+)`;
+
+// One occurrence of a rule firing; repeats of an open event only bump its
+// counter so recipients are notified once until someone acknowledges it
+export const NOTIFICATION_EVENTS_TABLE = `CREATE TABLE IF NOT EXISTS notification_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  rule_id INTEGER NOT NULL,
+  event_key TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  feature_id INTEGER,
+  gauge_id INTEGER,
+  workshop_id INTEGER,
+  status TEXT NOT NULL DEFAULT 'open',
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  escalation_level INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  escalated_at DATETIME,
+  acknowledged_at DATETIME,
+  acknowledged_by INTEGER,
+  FOREIGN KEY (rule_id) REFERENCES notification_rules(id) ON DELETE CASCADE,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE SET NULL,
+  FOREIGN KEY (gauge_id) REFERENCES gauges(id) ON DELETE SET NULL,
+  FOREIGN KEY (workshop_id) REFERENCES workshops(id),
+  FOREIGN KEY (acknowledged_by) REFERENCES users(id)
+)`;
+
+export const NOTIFICATION_EVENTS_INDEX = 'CREATE INDEX IF NOT EXISTS idx_notification_events_key ON notification_events(rule_id, event_key, status)';
+
+// How often a feature is checked, per route operation (gamma) and
+// optionally per workstation
+export const INSPECTION_FREQUENCIES_TABLE = `CREATE TABLE IF NOT EXISTS inspection_frequencies (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  feature_id INTEGER NOT NULL,
+  gamma_id INTEGER,
+  workstation_id INTEGER,
+  trigger_type TEXT NOT NULL,
+  interval_value INTEGER,
+  sample_size INTEGER NOT NULL DEFAULT 1,
+  grace_minutes INTEGER NOT NULL DEFAULT 15,
+  active BOOLEAN DEFAULT 1,
+  notes TEXT,
+  created_by INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE CASCADE,
+  FOREIGN KEY (gamma_id) REFERENCES gammas(id),
+  FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+  FOREIGN KEY (created_by) REFERENCES users(id)
+)`;
+
+// Parts produced, tool changes and shift starts reported at a workstation
+export const PRODUCTION_EVENTS_TABLE = `CREATE TABLE IF NOT EXISTS production_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  workstation_id INTEGER NOT NULL,
+  gamma_id INTEGER,
+  event_type TEXT NOT NULL,
+  quantity INTEGER,
+  operator_id INTEGER,
+  notes TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+  FOREIGN KEY (gamma_id) REFERENCES gammas(id),
+  FOREIGN KEY (operator_id) REFERENCES users(id)
+)`;
+
+export const PRODUCTION_EVENTS_INDEX = 'CREATE INDEX IF NOT EXISTS idx_production_events_workstation ON production_events(workstation_id, created_at)';
+
+// Audit trail of scheduled checks: done on time, done late, or missed
+// As version 16 created it, kept verbatim for the migration checksum
+const INSPECTION_CHECKS_V16_TABLE = `CREATE TABLE IF NOT EXISTS inspection_checks (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  frequency_id INTEGER NOT NULL,
+  feature_id INTEGER NOT NULL,
+  workstation_id INTEGER NOT NULL,
+  due_at DATETIME NOT NULL,
+  status TEXT NOT NULL,
+  completed_at DATETIME,
+  sample_id INTEGER,
+  operator_id INTEGER,
+  recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (frequency_id, workstation_id, due_at),
+  FOREIGN KEY (frequency_id) REFERENCES inspection_frequencies(id) ON DELETE CASCADE,
+  FOREIGN KEY (feature_id) REFERENCES features(id),
+  FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+  FOREIGN KEY (sample_id) REFERENCES measurement_samples(id),
+  FOREIGN KEY (operator_id) REFERENCES users(id)
+)`;
+
+// A gap without checks is one missed row from its first due time, counting
+// the due times it covers; a check done late is a row of its own next to it
+const INSPECTION_CHECKS_DEFINITION = `
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  frequency_id INTEGER NOT NULL,
+  feature_id INTEGER NOT NULL,
+  workstation_id INTEGER NOT NULL,
+  due_at DATETIME NOT NULL,
+  status TEXT NOT NULL,
+  missed_count INTEGER NOT NULL DEFAULT 1,
+  completed_at DATETIME,
+  sample_id INTEGER,
+  operator_id INTEGER,
+  recorded_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (frequency_id, workstation_id, due_at, status),
+  FOREIGN KEY (frequency_id) REFERENCES inspection_frequencies(id) ON DELETE CASCADE,
+  FOREIGN KEY (feature_id) REFERENCES features(id),
+  FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+  FOREIGN KEY (sample_id) REFERENCES measurement_samples(id),
+  FOREIGN KEY (operator_id) REFERENCES users(id)
+`;
+
+export const INSPECTION_CHECKS_TABLE = `CREATE TABLE IF NOT EXISTS inspection_checks (${INSPECTION_CHECKS_DEFINITION})`;
+
+// AIAG control plans: a header per route, one line per characteristic
+// checked at an operation, and a frozen copy of each released revision
+export const CONTROL_PLANS_TABLE = `CREATE TABLE IF NOT EXISTS control_plans (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  route_id INTEGER NOT NULL,
+  product_id INTEGER,
+  plan_number TEXT NOT NULL,
+  phase TEXT NOT NULL DEFAULT 'production',
+  part_number TEXT,
+  part_name TEXT,
+  supplier_plant TEXT,
+  key_contact TEXT,
+  core_team TEXT,
+  notes TEXT,
+  revision INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'draft',
+  revision_date DATE,
+  created_by INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (route_id) REFERENCES routes(id) ON DELETE CASCADE,
+  FOREIGN KEY (product_id) REFERENCES products(id),
+  FOREIGN KEY (created_by) REFERENCES users(id)
+)`;
+
+export const CONTROL_PLAN_LINES_TABLE = `CREATE TABLE IF NOT EXISTS control_plan_lines (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  plan_id INTEGER NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  gamma_id INTEGER,
+  feature_id INTEGER,
+  process_number TEXT,
+  process_name TEXT,
+  machine TEXT,
+  characteristic_number TEXT,
+  product_characteristic TEXT,
+  process_characteristic TEXT,
+  special_class TEXT,
+  specification TEXT,
+  measurement_technique TEXT,
+  sample_size TEXT,
+  frequency TEXT,
+  control_method TEXT,
+  reaction_plan TEXT,
+  FOREIGN KEY (plan_id) REFERENCES control_plans(id) ON DELETE CASCADE,
+  FOREIGN KEY (gamma_id) REFERENCES gammas(id) ON DELETE SET NULL,
+  FOREIGN KEY (feature_id) REFERENCES features(id) ON DELETE SET NULL
+)`;
+
+export const CONTROL_PLAN_REVISIONS_TABLE = `CREATE TABLE IF NOT EXISTS control_plan_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  plan_id INTEGER NOT NULL,
+  revision INTEGER NOT NULL,
+  change_description TEXT NOT NULL,
+  snapshot TEXT NOT NULL,
+  released_by INTEGER,
+  released_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (plan_id, revision),
+  FOREIGN KEY (plan_id) REFERENCES control_plans(id) ON DELETE CASCADE,
+  FOREIGN KEY (released_by) REFERENCES users(id)
+)`;
+
+// Nonconformance report: a bad part or lot, its disposition and the 8D /
+// 5-Why investigation that closes it
+export const NCRS_TABLE = `CREATE TABLE IF NOT EXISTS ncrs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ncr_number TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual',
+  status TEXT NOT NULL DEFAULT 'open',
+  nonconformance_id INTEGER,
+  measurement_id INTEGER,
+  product_id INTEGER,
+  route_id INTEGER,
+  feature_id INTEGER,
+  serial_number TEXT,
+  lot_number TEXT,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  workshop_id INTEGER,
+  workstation_id INTEGER,
+  cause_code TEXT,
+  cause_description TEXT,
+  disposition TEXT,
+  disposition_notes TEXT,
+  assigned_to INTEGER,
+  due_date DATE,
+  team TEXT,
+  problem_description TEXT,
+  containment_action TEXT,
+  five_whys TEXT,
+  root_cause TEXT,
+  corrective_action TEXT,
+  verification TEXT,
+  preventive_action TEXT,
+  closure_notes TEXT,
+  created_by INTEGER,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  closed_at DATETIME,
+  closed_by INTEGER,
+  FOREIGN KEY (nonconformance_id) REFERENCES nonconformances(id) ON DELETE SET NULL,
+  FOREIGN KEY (measurement_id) REFERENCES measurements(id) ON DELETE SET NULL,
+  FOREIGN KEY (product_id) REFERENCES products(id),
+  FOREIGN KEY (route_id) REFERENCES routes(id),
+  FOREIGN KEY (feature_id) REFERENCES features(id),
+  FOREIGN KEY (workshop_id) REFERENCES workshops(id),
+  FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+  FOREIGN KEY (assigned_to) REFERENCES users(id),
+  FOREIGN KEY (created_by) REFERENCES users(id),
+  FOREIGN KEY (closed_by) REFERENCES users(id)
+)`;
+
+// Every status change of an NCR, with who made it and why
+export const NCR_HISTORY_TABLE = `CREATE TABLE IF NOT EXISTS ncr_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  ncr_id INTEGER NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  comment TEXT,
+  changed_by INTEGER,
+  changed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (ncr_id) REFERENCES ncrs(id) ON DELETE CASCADE,
+  FOREIGN KEY (changed_by) REFERENCES users(id)
+)`;
+
+export const NCRS_INDEX = 'CREATE INDEX IF NOT EXISTS idx_ncrs_workshop ON ncrs(workshop_id, created_at)';
+
+// Created by the desktop app's base schema
+export const LOGS_TABLE = `CREATE TABLE IF NOT EXISTS logs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  level TEXT NOT NULL,
+  message TEXT NOT NULL,
+  user_id INTEGER,
+  module TEXT,
+  action TEXT,
+  timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (user_id) REFERENCES users(id)
+)`;
+
+export const SHIFT_START_SETTING = `INSERT OR IGNORE INTO system_settings (setting_key, setting_value, description) VALUES
+  ('shift_start_times', '06:00,14:00,22:00', 'Local times (HH:MM, comma-separated) at which shifts start')`;
+
+export const CALIBRATION_WARNING_SETTING = `INSERT OR IGNORE INTO system_settings (setting_key, setting_value, description) VALUES
+  ('calibration_warning_days', '14', 'Days before a gauge calibration expires that a notification is raised')`;
+
+const GROUP_PERMISSION_COLUMNS = [
+  'families', 'products', 'features', 'gammas', 'measurements',
+  'sections', 'users', 'database', 'storage', 'logs'
+];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Schema version table',
+    steps: [
+      { kind: 'sql', sql: `CREATE TABLE IF NOT EXISTS schema_version (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        version INTEGER NOT NULL,
+        applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )` },
+    ],
+  },
+  {
+    version: 2,
+    name: 'Images, user settings and system settings',
+    steps: [
+      { kind: 'sql', sql: `CREATE TABLE IF NOT EXISTS images (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        filename TEXT UNIQUE NOT NULL,
+        image_data TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )` },
+      { kind: 'sql', sql: `CREATE TABLE IF NOT EXISTS user_settings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        setting_key TEXT NOT NULL,
+        setting_value TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id),
+        UNIQUE(user_id, setting_key)
+      )` },
+      { kind: 'addColumn', table: 'users', column: 'last_login_at', definition: 'DATETIME' },
+      { kind: 'addColumn', table: 'users', column: 'selected_workshop_id', definition: 'INTEGER' },
+      { kind: 'addColumn', table: 'users', column: 'selected_workstation_id', definition: 'INTEGER' },
+      { kind: 'addColumn', table: 'workshops', column: 'manager_user_id', definition: 'INTEGER' },
+      { kind: 'addColumn', table: 'features', column: 'workshop_id', definition: 'INTEGER' },
+      { kind: 'addColumn', table: 'workstations', column: 'location', definition: 'TEXT' },
+      { kind: 'sql', sql: `CREATE TABLE IF NOT EXISTS system_settings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        setting_key TEXT UNIQUE NOT NULL,
+        setting_value TEXT NOT NULL,
+        description TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )` },
+      { kind: 'sql', sql: `INSERT OR IGNORE INTO system_settings (setting_key, setting_value, description) VALUES
+        ('password_optional_for_production', 'true', 'Allow production users to have optional passwords'),
+        ('password_required_for_all', 'false', 'Force all users to have passwords'),
+        ('sidebar_always_visible', 'false', 'Keep sidebar always visible on desktop')` },
+    ],
+  },
+  {
+    version: 3,
+    name: 'Many-to-many family-workshop relationship',
+    steps: [
+      { kind: 'sql', sql: `CREATE TABLE IF NOT EXISTS family_workshops (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        family_id INTEGER NOT NULL,
+        workshop_id INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (family_id) REFERENCES families(id) ON DELETE CASCADE,
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id) ON DELETE CASCADE,
+        UNIQUE(family_id, workshop_id)
+      )` },
+      {
+        kind: 'sql',
+        sql: `INSERT OR IGNORE INTO family_workshops (family_id, workshop_id)
+          SELECT id, workshop_id FROM families WHERE workshop_id IS NOT NULL`,
+        when: { table: 'families', column: 'workshop_id', exists: true },
+      },
+      {
+        kind: 'rebuildTable',
+        table: 'families',
+        definition: FAMILIES_DEFINITION,
+        when: { table: 'families', column: 'workshop_id', exists: true },
+      },
+    ],
+  },
+  {
+    version: 4,
+    name: 'Feature images',
+    steps: [
+      { kind: 'addColumn', table: 'features', column: 'image_filename', definition: 'TEXT' },
+    ],
+  },
+  {
+    version: 5,
+    name: 'Features linked to routes',
+    steps: [
+      { kind: 'addColumn', table: 'features', column: 'gamma_id', definition: 'INTEGER REFERENCES gammas(id)' },
+    ],
+  },
+  {
+    version: 6,
+    name: 'Group permissions',
+    steps: GROUP_PERMISSION_COLUMNS.map((resource): MigrationStep => ({
+      kind: 'addColumn',
+      table: 'groups',
+      column: `permissions_${resource}`,
+      definition: "TEXT DEFAULT 'read'",
+    })),
+  },
+  {
+    version: 7,
+    name: 'Route workshops',
+    steps: [
+      { kind: 'addColumn', table: 'gammas', column: 'workshop_id', definition: 'INTEGER REFERENCES workshops(id)' },
+    ],
+  },
+  {
+    version: 8,
+    name: 'Attribute inspection data',
+    steps: [
+      // Whether a feature is measured (variable) or inspected go/no-go (defectives) or by defect count (defects)
+      { kind: 'addColumn', table: 'features', column: 'characteristic_type', definition: "TEXT DEFAULT 'variable'" },
+      { kind: 'sql', sql: `CREATE TABLE IF NOT EXISTS attribute_inspections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        feature_id INTEGER NOT NULL,
+        route_id INTEGER,
+        product_id INTEGER,
+        gamma_id INTEGER,
+        sample_size INTEGER NOT NULL,
+        defective_count INTEGER,
+        defect_count INTEGER,
+        lot_number TEXT,
+        operator_id INTEGER,
+        workstation_id INTEGER,
+        workshop_id INTEGER,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        notes TEXT,
+        FOREIGN KEY (feature_id) REFERENCES features(id),
+        FOREIGN KEY (route_id) REFERENCES routes(id),
+        FOREIGN KEY (product_id) REFERENCES products(id),
+        FOREIGN KEY (gamma_id) REFERENCES gammas(id),
+        FOREIGN KEY (operator_id) REFERENCES users(id),
+        FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id)
+      )` },
+    ],
+  },
+  {
+    version: 9,
+    name: 'Feature specification model',
+    steps: [
+      // Columns the feature editors already write but older web schemas lack
+      { kind: 'addColumn', table: 'features', column: 'route_id', definition: 'INTEGER' },
+      { kind: 'addColumn', table: 'features', column: 'image_url', definition: 'TEXT' },
+      { kind: 'addColumn', table: 'features', column: 'specification_type', definition: "TEXT DEFAULT 'nominal'" },
+      { kind: 'addColumn', table: 'features', column: 'target_value', definition: 'REAL' },
+      { kind: 'addColumn', table: 'features', column: 'tolerance_plus', definition: 'REAL' },
+      { kind: 'addColumn', table: 'features', column: 'tolerance_minus', definition: 'REAL' },
+      { kind: 'addColumn', table: 'features', column: 'unit', definition: 'TEXT' },
+      // Resolved limits, measurement resolution and characteristic class
+      { kind: 'addColumn', table: 'features', column: 'specification_min', definition: 'REAL' },
+      { kind: 'addColumn', table: 'features', column: 'specification_max', definition: 'REAL' },
+      { kind: 'addColumn', table: 'features', column: 'decimal_places', definition: 'INTEGER DEFAULT 3' },
+      { kind: 'addColumn', table: 'features', column: 'characteristic_class', definition: "TEXT DEFAULT 'minor'" },
+      // Free-text categories were stored in specification_type by the route editor
+      { kind: 'sql', sql: `UPDATE features SET specification_type = 'nominal'
+        WHERE specification_type IS NULL OR specification_type NOT IN ('nominal', 'range', 'maximum', 'minimum')` },
+      // Tolerances are stored as magnitudes
+      { kind: 'sql', sql: 'UPDATE features SET tolerance_minus = ABS(tolerance_minus) WHERE tolerance_minus < 0' },
+      { kind: 'sql', sql: `UPDATE features SET specification_max = target_value + ABS(tolerance_plus)
+        WHERE specification_max IS NULL AND target_value IS NOT NULL AND tolerance_plus IS NOT NULL
+          AND specification_type IN ('nominal', 'range', 'maximum')` },
+      { kind: 'sql', sql: `UPDATE features SET specification_min = target_value - tolerance_minus
+        WHERE specification_min IS NULL AND target_value IS NOT NULL AND tolerance_minus IS NOT NULL
+          AND specification_type IN ('nominal', 'range', 'minimum')` },
+    ],
+  },
+  {
+    version: 10,
+    name: 'Measurement samples',
+    steps: [
+      // One row per inspected part; the values measured on it share its id
+      { kind: 'sql', sql: `CREATE TABLE IF NOT EXISTS measurement_samples (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id INTEGER,
+        route_id INTEGER,
+        gamma_id INTEGER,
+        serial_number TEXT,
+        lot_number TEXT,
+        batch TEXT,
+        subgroup_number INTEGER,
+        operator_id INTEGER,
+        workstation_id INTEGER,
+        workshop_id INTEGER,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+        notes TEXT,
+        FOREIGN KEY (product_id) REFERENCES products(id),
+        FOREIGN KEY (route_id) REFERENCES routes(id),
+        FOREIGN KEY (gamma_id) REFERENCES gammas(id),
+        FOREIGN KEY (operator_id) REFERENCES users(id),
+        FOREIGN KEY (workstation_id) REFERENCES workstations(id),
+        FOREIGN KEY (workshop_id) REFERENCES workshops(id)
+      )` },
+      { kind: 'addColumn', table: 'measurements', column: 'sample_id', definition: 'INTEGER' },
+      { kind: 'addColumn', table: 'attribute_inspections', column: 'sample_id', definition: 'INTEGER' },
+    ],
+  },
+  {
+    version: 11,
+    name: 'Align web and desktop schemas',
+    steps: [
+      { kind: 'sql', sql: `CREATE TABLE IF NOT EXISTS sections (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        description TEXT,
+        image_filename TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )` },
+      // ALTER TABLE cannot add a CURRENT_TIMESTAMP default
+      { kind: 'addColumn', table: 'groups', column: 'updated_at', definition: 'DATETIME' },
+      { kind: 'addColumn', table: 'family_workshops', column: 'updated_at', definition: 'DATETIME' },
+      { kind: 'addColumn', table: 'routes', column: 'image_filename', definition: 'TEXT' },
+      { kind: 'addColumn', table: 'gammas', column: 'description', definition: 'TEXT' },
+      { kind: 'addColumn', table: 'products', column: 'route_id', definition: 'INTEGER REFERENCES routes(id)' },
+      { kind: 'addColumn', table: 'features', column: 'workstation_id', definition: 'INTEGER REFERENCES workstations(id)' },
+      { kind: 'addColumn', table: 'registration_codes', column: 'used', definition: 'BOOLEAN DEFAULT FALSE' },
+      { kind: 'addColumn', table: 'user_validation_requests', column: 'validated_at', definition: 'DATETIME' },
+      { kind: 'addColumn', table: 'user_validation_requests', column: 'rejection_reason', definition: 'TEXT' },
+      // Older web databases required a legacy value column that nothing writes
+      {
+        kind: 'rebuildTable',
+        table: 'measurements',
+        definition: MEASUREMENTS_DEFINITION,
+        when: { table: 'measurements', column: 'value', exists: true },
+      },
+    ],
+  },
+  {
+    version: 12,
+    name: 'Gage R&R studies',
+    steps: [
+      { kind: 'sql', sql: GAGE_STUDIES_TABLE },
+      // Planned readings of a study, in the randomized order they are taken
+      { kind: 'sql', sql: GAGE_STUDY_READINGS_TABLE },
+      { kind: 'sql', sql: GAGE_STUDY_READINGS_INDEX },
+    ],
+  },
+  {
+    version: 13,
+    name: 'Gauge registry and calibration',
+    steps: [
+      { kind: 'sql', sql: GAUGES_TABLE },
+      { kind: 'sql', sql: GAUGE_CALIBRATIONS_TABLE },
+      { kind: 'sql', sql: GAUGE_CALIBRATIONS_INDEX },
+      // Instrument each value was taken with
+      { kind: 'addColumn', table: 'measurements', column: 'gauge_id', definition: 'INTEGER REFERENCES gauges(id)' },
+      { kind: 'sql', sql: CALIBRATION_WARNING_SETTING },
+    ],
+  },
+  {
+    version: 14,
+    name: 'Reaction plans and nonconformances',
+    steps: [
+      { kind: 'sql', sql: REACTION_PLANS_TABLE },
+      { kind: 'sql', sql: REACTION_PLAN_ITEMS_TABLE },
+      { kind: 'sql', sql: NONCONFORMANCES_TABLE },
+      { kind: 'sql', sql: NONCONFORMANCES_INDEX },
+    ],
+  },
+  {
+    version: 15,
+    name: 'Notification rules',
+    steps: [
+      { kind: 'sql', sql: NOTIFICATION_RULES_TABLE },
+      { kind: 'sql', sql: NOTIFICATION_EVENTS_TABLE },
+      { kind: 'sql', sql: NOTIFICATION_EVENTS_INDEX },
+      { kind: 'addColumn', table: 'notifications', column: 'severity', definition: 'TEXT' },
+      // Acknowledging the event stops its escalation
+      { kind: 'addColumn', table: 'notifications', column: 'event_id', definition: 'INTEGER REFERENCES notification_events(id) ON DELETE SET NULL' },
+    ],
+  },
+  {
+    version: 16,
+    name: 'Inspection frequencies',
+    steps: [
+      { kind: 'sql', sql: INSPECTION_FREQUENCIES_TABLE },
+      { kind: 'sql', sql: PRODUCTION_EVENTS_TABLE },
+      { kind: 'sql', sql: PRODUCTION_EVENTS_INDEX },
+      { kind: 'sql', sql: INSPECTION_CHECKS_V16_TABLE },
+      { kind: 'sql', sql: SHIFT_START_SETTING },
+    ],
+  },
+  {
+    version: 17,
+    name: 'Control plans',
+    steps: [
+      { kind: 'sql', sql: CONTROL_PLANS_TABLE },
+      { kind: 'sql', sql: CONTROL_PLAN_LINES_TABLE },
+      { kind: 'sql', sql: CONTROL_PLAN_REVISIONS_TABLE },
+    ],
+  },
+  {
+    version: 18,
+    name: 'Nonconformance reports',
+    steps: [
+      { kind: 'sql', sql: NCRS_TABLE },
+      { kind: 'sql', sql: NCRS_INDEX },
+      { kind: 'sql', sql: NCR_HISTORY_TABLE },
+    ],
+  },
+  {
+    version: 19,
+    name: 'Reconcile desktop and web base schemas',
+    steps: [
+      // Columns and tables the desktop base schema creates and the web one lacked
+      { kind: 'addColumn', table: 'groups', column: 'permissions', definition: 'TEXT' },
+      { kind: 'addColumn', table: 'user_validation_requests', column: 'processed_at', definition: 'DATETIME' },
+      { kind: 'addColumn', table: 'user_validation_requests', column: 'processed_by', definition: 'INTEGER REFERENCES users(id)' },
+      { kind: 'sql', sql: LOGS_TABLE },
+    ],
+  },
+  {
+    version: 20,
+    name: 'Missed inspection gaps and late checks',
+    steps: [
+      { kind: 'rebuildTable', table: 'inspection_checks', definition: INSPECTION_CHECKS_DEFINITION },
+    ],
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Tables and columns of a database at LATEST_SCHEMA_VERSION, used to report
+// drift between the live database and what the migrations produce
+export const EXPECTED_SCHEMA: Record<string, string[]> = {
+  attribute_inspections: ['id', 'feature_id', 'route_id', 'product_id', 'gamma_id', 'sample_size', 'defective_count', 'defect_count', 'lot_number', 'operator_id', 'workstation_id', 'workshop_id', 'sample_id', 'timestamp', 'notes'],
+  control_plan_lines: ['id', 'plan_id', 'sort_order', 'gamma_id', 'feature_id', 'process_number', 'process_name', 'machine', 'characteristic_number', 'product_characteristic', 'process_characteristic', 'special_class', 'specification', 'measurement_technique', 'sample_size', 'frequency', 'control_method', 'reaction_plan'],
+  control_plan_revisions: ['id', 'plan_id', 'revision', 'change_description', 'snapshot', 'released_by', 'released_at'],
+  control_plans: ['id', 'route_id', 'product_id', 'plan_number', 'phase', 'part_number', 'part_name', 'supplier_plant', 'key_contact', 'core_team', 'notes', 'revision', 'status', 'revision_date', 'created_by', 'created_at', 'updated_at'],
+  families: ['id', 'name', 'description', 'image_filename', 'created_at', 'updated_at'],
+  family_workshops: ['id', 'family_id', 'workshop_id', 'created_at', 'updated_at'],
+  features: ['id', 'name', 'description', 'product_id', 'workshop_id', 'workstation_id', 'route_id', 'image_filename', 'image_url', 'gamma_id', 'characteristic_type', 'specification_type', 'target_value', 'tolerance_plus', 'tolerance_minus', 'specification_min', 'specification_max', 'unit', 'decimal_places', 'characteristic_class', 'created_at', 'updated_at'],
+  gage_studies: ['id', 'name', 'feature_id', 'gauge', 'part_count', 'operator_count', 'trial_count', 'tolerance', 'status', 'notes', 'workshop_id', 'created_by', 'created_at', 'updated_at', 'completed_at'],
+  gage_study_readings: ['id', 'study_id', 'part_number', 'operator_id', 'trial', 'run_order', 'measured_value', 'measured_at'],
+  gauge_calibrations: ['id', 'gauge_id', 'calibration_date', 'due_date', 'result', 'certificate', 'performed_by', 'notes', 'recorded_by', 'created_at'],
+  gauges: ['id', 'code', 'name', 'gauge_type', 'resolution', 'range_min', 'range_max', 'unit', 'location', 'workshop_id', 'status', 'calibration_interval_days', 'last_calibration_date', 'calibration_due_date', 'due_notified_for', 'notes', 'created_at', 'updated_at'],
+  gammas: ['id', 'name', 'description', 'product_id', 'sequence_number', 'operation_name', 'workstation', 'estimated_time', 'workshop_id', 'image_filename', 'created_at', 'updated_at'],
+  groups: ['id', 'name', 'description', 'permissions', ...GROUP_PERMISSION_COLUMNS.map(resource => `permissions_${resource}`), 'created_at', 'updated_at'],
+  images: ['id', 'filename', 'image_data', 'created_at'],
+  inspection_checks: ['id', 'frequency_id', 'feature_id', 'workstation_id', 'due_at', 'status', 'missed_count', 'completed_at', 'sample_id', 'operator_id', 'recorded_at'],
+  inspection_frequencies: ['id', 'feature_id', 'gamma_id', 'workstation_id', 'trigger_type', 'interval_value', 'sample_size', 'grace_minutes', 'active', 'notes', 'created_by', 'created_at', 'updated_at'],
+  logs: ['id', 'level', 'message', 'user_id', 'module', 'action', 'timestamp'],
+  measurement_samples: ['id', 'product_id', 'route_id', 'gamma_id', 'serial_number', 'lot_number', 'batch', 'subgroup_number', 'operator_id', 'workstation_id', 'workshop_id', 'timestamp', 'notes'],
+  measurements: ['id', 'product_id', 'feature_id', 'route_id', 'gamma_id', 'measured_value', 'operator_id', 'workstation_id', 'workshop_id', 'timestamp', 'notes', 'sample_id', 'gauge_id'],
+  ncr_history: ['id', 'ncr_id', 'from_status', 'to_status', 'comment', 'changed_by', 'changed_at'],
+  ncrs: ['id', 'ncr_number', 'title', 'source', 'status', 'nonconformance_id', 'measurement_id', 'product_id', 'route_id', 'feature_id', 'serial_number', 'lot_number', 'quantity', 'workshop_id', 'workstation_id', 'cause_code', 'cause_description', 'disposition', 'disposition_notes', 'assigned_to', 'due_date', 'team', 'problem_description', 'containment_action', 'five_whys', 'root_cause', 'corrective_action', 'verification', 'preventive_action', 'closure_notes', 'created_by', 'created_at', 'updated_at', 'closed_at', 'closed_by'],
+  nonconformances: ['id', 'measurement_id', 'feature_id', 'product_id', 'sample_id', 'violation', 'measured_value', 'limit_value', 'cause_code', 'cause_description', 'action_code', 'action_description', 'comment', 'status', 'operator_id', 'workstation_id', 'workshop_id', 'created_at', 'closed_at', 'closed_by'],
+  notification_events: ['id', 'rule_id', 'event_key', 'severity', 'title', 'message', 'feature_id', 'gauge_id', 'workshop_id', 'status', 'occurrences', 'escalation_level', 'created_at', 'last_seen_at', 'escalated_at', 'acknowledged_at', 'acknowledged_by'],
+  notification_rules: ['id', 'name', 'event_type', 'severity', 'enabled', 'feature_id', 'characteristic_class', 'workshop_id', 'control_rules', 'threshold', 'window_size', 'recipient_roles', 'recipient_group_id', 'dedup_minutes', 'escalate_after_minutes', 'escalation_roles', 'created_by', 'created_at', 'updated_at'],
+  notifications: ['id', 'type', 'title', 'message', 'user_id', 'read_at', 'created_at', 'severity', 'event_id'],
+  production_events: ['id', 'workstation_id', 'gamma_id', 'event_type', 'quantity', 'operator_id', 'notes', 'created_at'],
+  products: ['id', 'name', 'description', 'route_id', 'family_id', 'workshop_id', 'workstation_id', 'image_filename', 'created_at', 'updated_at'],
+  reaction_plan_items: ['id', 'plan_id', 'kind', 'code', 'description', 'sort_order'],
+  reaction_plans: ['id', 'feature_id', 'instructions', 'check_control_limits', 'created_by', 'created_at', 'updated_at'],
+  registration_codes: ['id', 'code', 'role', 'workshop_id', 'workstation_id', 'group_id', 'created_by', 'expires_at', 'used_at', 'used_by', 'used', 'created_at'],
+  routes: ['id', 'name', 'description', 'product_id', 'workshop_id', 'image_filename', 'created_at', 'updated_at'],
+  schema_migrations: ['version', 'name', 'checksum', 'applied_at'],
+  schema_version: ['id', 'version', 'applied_at'],
+  sections: ['id', 'name', 'description', 'image_filename', 'created_at', 'updated_at'],
+  system_settings: ['id', 'setting_key', 'setting_value', 'description', 'created_at', 'updated_at'],
+  user_preferences: ['id', 'user_id', 'preference_type', 'preference_value', 'created_at'],
+  user_settings: ['id', 'user_id', 'setting_key', 'setting_value', 'created_at', 'updated_at'],
+  user_validation_requests: ['id', 'registration_code', 'username', 'requested_role', 'requested_workshop_id', 'requested_workstation_id', 'requested_group_id', 'status', 'validated_by', 'validated_at', 'rejection_reason', 'processed_at', 'processed_by', 'created_at'],
+  users: ['id', 'username', 'password_hash', 'role', 'group_id', 'workstation_id', 'workshop_id', 'status', 'last_login_at', 'selected_workshop_id', 'selected_workstation_id', 'created_at', 'updated_at'],
+  workshop_methods: ['id', 'workshop_id', 'user_id', 'created_at', 'updated_at'],
+  workshops: ['id', 'name', 'description', 'manager_user_id', 'image_filename', 'created_at', 'updated_at'],
+  workstations: ['id', 'name', 'description', 'workshop_id', 'location', 'image_filename', 'created_at', 'updated_at'],
+};
+
+// FNV-1a hash of the migration content; a recorded checksum that no longer
+// matches means an applied migration was edited after the fact
+export const migrationChecksum = (migration: Migration): string => {
+  const content = JSON.stringify({ version: migration.version, name: migration.name, steps: migration.steps });
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Column names declared in a table definition (one column or constraint per line)
+export const definitionColumns = (definition: string): string[] => {
+  return definition
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !/^(FOREIGN|UNIQUE|PRIMARY|CHECK|CONSTRAINT)\b/i.test(line))
+    .map(line => line.split(/\s+/)[0]);
+};
@@ -0,0 +1,160 @@
+import toast from 'react-hot-toast';
+import { db } from './database';
+import { logger } from './logger';
+
+export interface WorkshopScope {
+  workshopIds: number[]; // Workshops the user belongs to or manages
+  plantWide: boolean; // True when no workshop filter applies
+  canSwitch: boolean; // Whether the user may toggle the plant-wide view
+}
+
+export interface ScopeCondition {
+  sql: string;
+  params: number[];
+}
+
+export interface ScopeUser {
+  id: number;
+  role: string;
+  workshop_id?: number | null;
+}
+
+// Roles allowed to leave their workshops for a plant-wide view
+const PLANT_WIDE_ROLES = ['admin', 'controle'];
+const PLANT_WIDE_STORAGE_KEY = 'workshop-scope-plant-wide';
+
+class WorkshopScopeService {
+  private user: ScopeUser | null = null;
+  private workshopIds: number[] = [];
+  // Nothing is visible until the user's workshops are known
+  private resolved = false;
+  private plantWide = false;
+  private listeners: Array<(scope: WorkshopScope) => void> = [];
+
+  // Subscribe to scope changes (login, logout, plant-wide toggle)
+  subscribe(listener: (scope: WorkshopScope) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  getScope(): WorkshopScope {
+    return {
+      workshopIds: [...this.workshopIds],
+      plantWide: this.plantWide,
+      canSwitch: this.canSwitch(),
+    };
+  }
+
+  // Resolve the workshops of a user: their own workshop plus the ones
+  // they manage as method engineer
+  async setUser(user: ScopeUser | null): Promise<void> {
+    this.user = user;
+    if (!user) {
+      this.workshopIds = [];
+      this.plantWide = true;
+      this.resolved = true;
+      this.notify();
+      return;
+    }
+
+    // Don't keep showing the previous user's rows while loading
+    this.resolved = false;
+    this.plantWide = false;
+    this.workshopIds = [];
+
+    let workshopIds: number[] = user.workshop_id ? [user.workshop_id] : [];
+    try {
+      const managed = await db.queryAll('SELECT workshop_id FROM workshop_methods WHERE user_id = ?', [user.id]);
+      if (this.user !== user) return; // Superseded by a later call
+      workshopIds = [...new Set([...workshopIds, ...managed.map(row => row.workshop_id)])];
+    } catch (error) {
+      console.error('Error loading user workshops:', error);
+    }
+
+    this.workshopIds = workshopIds;
+    this.resolved = true;
+    // Admins and controle users without a workshop have nothing to narrow to
+    this.plantWide = this.canSwitch()
+      && (workshopIds.length === 0 || localStorage.getItem(PLANT_WIDE_STORAGE_KEY) === 'true');
+    this.notify();
+  }
+
+  setPlantWide(plantWide: boolean): void {
+    if (!this.canSwitch() || this.workshopIds.length === 0) return;
+
+    this.plantWide = plantWide;
+    localStorage.setItem(PLANT_WIDE_STORAGE_KEY, String(plantWide));
+    this.notify();
+  }
+
+  isScoped(): boolean {
+    return !this.plantWide;
+  }
+
+  // Workshop assigned to records the user creates
+  getDefaultWorkshopId(): number | null {
+    return this.isScoped() && this.workshopIds.length > 0 ? this.workshopIds[0] : null;
+  }
+
+  includes(workshopId?: number | null): boolean {
+    if (!this.resolved) return false;
+    return !this.isScoped() || !workshopId || this.workshopIds.includes(workshopId);
+  }
+
+  // Guard for write paths: reports and logs a record outside the user's
+  // workshops, returns whether all given workshops are allowed
+  ensure(...workshopIds: (number | null | undefined)[]): boolean {
+    if (workshopIds.every(workshopId => this.includes(workshopId))) return true;
+
+    logger.logSecurity('WORKSHOP_SCOPE_DENIED', { workshopIds, scope: this.workshopIds }, this.user?.id?.toString());
+    toast.error('Records can only be assigned to your own workshops');
+    return false;
+  }
+
+  // SQL condition on a workshop_id column. Rows without a workshop are
+  // shared across the plant and stay visible.
+  condition(column: string): ScopeCondition {
+    if (!this.resolved) return { sql: '1 = 0', params: [] };
+    if (!this.isScoped()) return { sql: '1 = 1', params: [] };
+    if (this.workshopIds.length === 0) return { sql: `${column} IS NULL`, params: [] };
+
+    const placeholders = this.workshopIds.map(() => '?').join(',');
+    return {
+      sql: `(${column} IS NULL OR ${column} IN (${placeholders}))`,
+      params: [...this.workshopIds],
+    };
+  }
+
+  // Families belong to workshops through family_workshops; families not
+  // linked to any workshop are shared
+  familyCondition(familyIdColumn: string): ScopeCondition {
+    if (!this.resolved) return { sql: '1 = 0', params: [] };
+    if (!this.isScoped()) return { sql: '1 = 1', params: [] };
+
+    const unlinked = `NOT EXISTS (SELECT 1 FROM family_workshops sfw WHERE sfw.family_id = ${familyIdColumn})`;
+    if (this.workshopIds.length === 0) return { sql: unlinked, params: [] };
+
+    const placeholders = this.workshopIds.map(() => '?').join(',');
+    return {
+      sql: `(${unlinked} OR EXISTS (SELECT 1 FROM family_workshops sfw WHERE sfw.family_id = ${familyIdColumn} AND sfw.workshop_id IN (${placeholders})))`,
+      params: [...this.workshopIds],
+    };
+  }
+
+  private canSwitch(): boolean {
+    return !!this.user && PLANT_WIDE_ROLES.includes(this.user.role);
+  }
+
+  private notify(): void {
+    const scope = this.getScope();
+    this.listeners.forEach(listener => listener(scope));
+  }
+}
+
+// Export singleton instance
+export const workshopScopeService = new WorkshopScopeService();
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { authService } from '../services/authService';
+import { permissionService } from '../services/permissionService';
 import { db } from '../services/database';
 
 export type UserRole = 'admin' | 'controle' | 'method' | 'prod';
@@ -82,43 +83,8 @@ export const useUserStore = create<UserState>()(
         return currentUser.role === role;
       },
       
-      canAccessModule: (module) => {
-        const { currentUser } = get();
-        
-        switch (module) {
-          case 'measurements':
-            return true; // Measurements accessible to everyone (including no login)
-          case 'home':
-            return true; // Home accessible to everyone (including no login)
-          default:
-            if (!currentUser) return false; // Other modules require login
-            
-            switch (module) {
-              case 'sections':
-                return currentUser.role === 'admin' || currentUser.role === 'method';
-              case 'families':
-                return currentUser.role === 'admin' || currentUser.role === 'controle' || currentUser.role === 'method';
-              case 'products':
-                return currentUser.role === 'admin' || currentUser.role === 'controle' || currentUser.role === 'method';
-              case 'gammas':
-                return true; // All logged-in roles can access these
-              case 'features':
-                return currentUser.role === 'admin' || currentUser.role === 'controle' || currentUser.role === 'method';
-              case 'users':
-              case 'registration-codes':
-              case 'database':
-              case 'database-crud':
-              case 'translations':
-              case 'logs':
-              case 'storage':
-                return currentUser.role === 'admin';
-              case 'user-validation':
-                return currentUser.role === 'admin' || currentUser.role === 'method';
-              default:
-                return false;
-            }
-        }
-      },
+      // Module access follows the user's role and group rights
+      canAccessModule: (module) => permissionService.canAccessModule(module),
       
       getNavigationTarget: (fromModule, toModule) => {
         const { currentUser } = get();
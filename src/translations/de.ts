@@ -9,6 +9,15 @@ export const de = {
   'nav.gammas': 'Gammas',
   'nav.routes': 'Routen',
   'nav.measurements': 'Messungen',
+  'nav.capabilityReport': 'Fähigkeitsbericht',
+  'nav.gageRR': 'Messsystemanalyse',
+  'nav.gauges': 'Prüfmittel',
+  'nav.reactionPlans': 'Reaktionspläne',
+  'nav.notificationRules': 'Alarmregeln',
+  'nav.inspectionPlans': 'Prüffrequenzen',
+  'nav.controlPlans': 'Produktionslenkungspläne',
+  'nav.ncr': 'Abweichungsberichte (NCR)',
+  'nav.plantWideView': 'Werksweite Ansicht',
   'nav.users': 'Benutzer',
   'nav.database': 'Datenbank',
   'nav.storage': 'Speicher',
@@ -62,6 +71,35 @@ export const de = {
   'dashboard.welcome.prodSubtitle': 'Produktionsarbeitsplatz und Messungseingabe',
   'dashboard.welcome.default': 'Willkommen zum SPC-System',
   'dashboard.welcome.defaultSubtitle': 'Statistische Prozesskontrolle Dashboard',
+  'dashboard.widgets.keyFigures': 'Kennzahlen',
+  'dashboard.widgets.workshops': 'Werkstätten',
+  'dashboard.widgets.recentMeasurements': 'Letzte Messungen',
+  'dashboard.widgets.controlChart': 'Regelkarte',
+  'dashboard.widgets.cpkHeatmap': 'Cpk je Arbeitsplatz',
+  'dashboard.widgets.outOfControl': 'Außer Kontrolle',
+  'dashboard.widgets.overdueInspections': 'Fällige Prüfungen',
+  'dashboard.widgets.recentNcrs': 'Offene Abweichungsberichte',
+  'dashboard.widgets.pendingValidations': 'Ausstehende Freigaben',
+  'dashboard.widgets.quickActions': 'Schnellaktionen',
+  'dashboard.layout.customize': 'Anpassen',
+  'dashboard.layout.addWidget': 'Widget hinzufügen…',
+  'dashboard.layout.save': 'Layout speichern',
+  'dashboard.layout.cancel': 'Abbrechen',
+  'dashboard.layout.reset': 'Auf Standard zurücksetzen',
+  'dashboard.layout.saveRoleDefault': 'Als Rollenstandard speichern',
+  'dashboard.layout.saved': 'Dashboard gespeichert',
+  'dashboard.layout.roleSaved': 'Standard-Dashboard für {role} gespeichert',
+  'dashboard.layout.resetDone': 'Dashboard auf Standard zurückgesetzt',
+  'dashboard.layout.saveError': 'Dashboard konnte nicht gespeichert werden',
+  'dashboard.layout.empty': 'Ihr Dashboard ist leer. Fügen Sie über Anpassen Widgets hinzu.',
+  'dashboard.layout.drag': 'Zum Verschieben ziehen',
+  'dashboard.layout.width': 'Breite',
+  'dashboard.layout.height': 'Höhe',
+  'dashboard.layout.settings': 'Widget-Einstellungen',
+  'dashboard.layout.remove': 'Widget entfernen',
+  'dashboard.layout.feature': 'Merkmal wählen…',
+  'dashboard.layout.points': 'Letzte {count} Werte',
+  'dashboard.layout.days': 'Letzte {count} Tag(e)',
   
   // Auth
   'auth.login': 'Anmelden',
@@ -133,6 +171,13 @@ export const de = {
   'ui.notifications.markAllReadError': 'Fehler beim Markieren aller Benachrichtigungen als gelesen',
   'ui.notifications.noNotifications': 'Keine Benachrichtigungen',
   'ui.notifications.allCaughtUp': 'Sie sind auf dem neuesten Stand! Keine neuen Benachrichtigungen.',
+  'ui.notifications.acknowledge': 'Quittieren',
+  'ui.notifications.acknowledged': 'Alarm quittiert',
+  'ui.notifications.acknowledgedLabel': 'Quittiert',
+  'ui.notifications.acknowledgeError': 'Alarm konnte nicht quittiert werden',
+  'ui.notifications.severity.info': 'Info',
+  'ui.notifications.severity.warning': 'Warnung',
+  'ui.notifications.severity.critical': 'kritisch',
   
   // Breadcrumbs
   'ui.breadcrumb.home': 'Dashboard',
@@ -144,6 +189,14 @@ export const de = {
   'ui.breadcrumb.features': 'Eigenschaften',
   'ui.breadcrumb.gammas': 'Gammas',
   'ui.breadcrumb.measurements': 'Messungen',
+  'ui.breadcrumb.capability': 'Fähigkeitsbericht',
+  'ui.breadcrumb.gageRR': 'Messsystemanalyse',
+  'ui.breadcrumb.gauges': 'Prüfmittel',
+  'ui.breadcrumb.reactionPlans': 'Reaktionspläne',
+  'ui.breadcrumb.notificationRules': 'Alarmregeln',
+  'ui.breadcrumb.inspectionPlans': 'Prüffrequenzen',
+  'ui.breadcrumb.controlPlans': 'Produktionslenkungspläne',
+  'ui.breadcrumb.ncr': 'Abweichungsberichte',
   'ui.breadcrumb.users': 'Benutzer',
   'ui.breadcrumb.groups': 'Gruppen',
   'ui.breadcrumb.registrationCodes': 'Registrierungscodes',
@@ -154,6 +207,22 @@ export const de = {
   'ui.breadcrumb.systemSettings': 'Systemeinstellungen',
   'ui.breadcrumb.databaseCrud': 'Datenbank CRUD',
   'ui.breadcrumb.translations': 'Übersetzungen',
+  'ui.controlChart.title': 'Regelkarte',
+  'ui.controlChart.feature': 'Merkmal: {name}',
+  'ui.controlChart.chartType': 'Kartentyp',
+  'ui.controlChart.subgroupSize': 'Stichprobenumfang',
+  'ui.controlChart.recordedSubgroups': 'Erfasste Stichproben',
+  'ui.controlChart.resetZoom': 'Zoom zurücksetzen',
+  'ui.controlChart.zoomHint': 'Ziehen Sie über eine Karte oder die Übersicht unten, um einen Zeitbereich zu vergrößern.',
+  'ui.controlChart.notEnoughData': 'Nicht genügend Daten für diese Karte.',
+  'ui.controlChart.notEnoughDataHint': 'Mindestens zwei Punkte (oder zwei vollständige Stichproben) sind erforderlich.',
+  'ui.controlChart.ruleViolations': 'Regelverletzungen',
+  'ui.controlChart.noViolations': 'Keine Regelverletzungen erkannt.',
+  'ui.controlChart.pointCount': '{count} Punkt(e)',
+  'ui.controlChart.beyondLimits': '{chart}: {count} Punkt(e) außerhalb der Eingriffsgrenzen',
+  'ui.controlChart.loadError': 'Messwerte konnten nicht geladen werden',
+  'ui.controlChart.operator': 'Bediener: {name}',
+  'ui.controlChart.notes': 'Notizen: {notes}',
   
   // Production
   'production.dashboard.loadError': 'Fehler beim Laden der Dashboard-Daten',
@@ -173,6 +242,28 @@ export const de = {
   'production.dashboard.noFavoritesDescription': 'Beginnen Sie damit, Werkstätten, Arbeitsplätze und Routen zu Ihren Favoriten hinzuzufügen für schnellen Zugriff.',
   'production.dashboard.navigatePreferences': 'Zu Benutzereinstellungen navigieren, um Favoriten hinzuzufügen',
   'production.dashboard.manageFavorites': 'Favoriten verwalten',
+  'production.inspection.title': 'Fällige Prüfungen',
+  'production.inspection.summary': '{overdue} überfällig, {due} fällig',
+  'production.inspection.noWorkstation': 'Wählen Sie einen Arbeitsplatz, um die fälligen Prüfungen zu sehen.',
+  'production.inspection.empty': 'Für diesen Arbeitsplatz sind keine Prüffrequenzen festgelegt.',
+  'production.inspection.state.overdue': 'Überfällig',
+  'production.inspection.state.due': 'Fällig',
+  'production.inspection.state.ok': 'Im Plan',
+  'production.inspection.trigger.parts': 'Alle {value} Teile',
+  'production.inspection.trigger.minutes': 'Alle {value} Min.',
+  'production.inspection.trigger.shift-start': 'Bei Schichtbeginn',
+  'production.inspection.trigger.tool-change': 'Nach Werkzeugwechsel',
+  'production.inspection.sample': '{count} Teil(e)',
+  'production.inspection.dueSince': 'Fällig seit {time}',
+  'production.inspection.nextAt': 'Nächste um {time}',
+  'production.inspection.partsRemaining': 'Noch {count} Teile',
+  'production.inspection.waiting': 'Wartet auf Auslöser',
+  'production.inspection.partsProduced': 'Teile',
+  'production.inspection.addParts': 'Teile gefertigt',
+  'production.inspection.toolChange': 'Werkzeugwechsel',
+  'production.inspection.shiftStart': 'Schichtbeginn',
+  'production.inspection.eventRecorded': 'Produktionsereignis erfasst',
+  'production.inspection.eventError': 'Ereignis konnte nicht erfasst werden',
   'production.measurements.loadError': 'Fehler beim Laden der Daten',
   'production.measurements.selectProductRoute': 'Bitte wählen Sie ein Produkt und eine Route',
   'production.measurements.enterMeasurement': 'Bitte geben Sie mindestens eine Messung ein',
@@ -200,6 +291,52 @@ export const de = {
   'production.measurements.saveAsTemplate': 'Als Vorlage speichern',
   'production.measurements.noFeaturesAvailable': 'Keine Eigenschaften für dieses Produkt verfügbar',
   'production.measurements.enterValue': 'Wert eingeben',
+  'production.measurements.attributeDefectives': 'Gut/Schlecht',
+  'production.measurements.attributeDefects': 'Fehleranzahl',
+  'production.measurements.inspectedQuantity': 'Geprüfte Menge',
+  'production.measurements.defectiveCount': 'Fehlerhafte Teile',
+  'production.measurements.defectCount': 'Gefundene Fehler',
+  'production.measurements.defectivesExceedSample': 'Fehlerhafte Teile für {feature} dürfen die geprüfte Menge nicht überschreiten',
+  'production.measurements.critical': 'Kritisch',
+  'production.measurements.outOfSpecification': 'Außerhalb der Toleranz',
+  'production.measurements.serialNumber': 'Seriennummer',
+  'production.measurements.lotNumber': 'Losnummer',
+  'production.measurements.batch': 'Charge',
+  'production.measurements.gauge': 'Prüfmittel',
+  'production.measurements.gaugeScanPlaceholder': 'Prüfmittel-Nr. scannen oder eingeben',
+  'production.measurements.selectGauge': 'Prüfmittel wählen',
+  'production.measurements.gaugeRequired': 'Wählen Sie das für diese Messungen verwendete Prüfmittel',
+  'production.measurements.gaugeNotFound': 'Kein Prüfmittel mit Nr. {code}',
+  'production.measurements.gaugeOverdue': 'Prüfmittel {code} war am {date} zur Kalibrierung fällig und darf nicht verwendet werden',
+  'production.measurements.gaugeInactive': 'Prüfmittel {code} ist nicht in Betrieb',
+  'production.measurements.gaugeCalibrationDue': 'Kalibrierung fällig am {date}',
+  'production.measurements.gaugeOutOfRange': 'Der Wert für {feature} liegt außerhalb des Messbereichs von Prüfmittel {code}',
+  'production.ocap.title': 'Reaktion erforderlich',
+  'production.ocap.description': 'Diese Werte liegen außerhalb der Grenzen. Wählen Sie vor dem Speichern eine Ursache und die ergriffene Korrekturmaßnahme.',
+  'production.ocap.aboveUsl': 'Über der oberen Toleranzgrenze ({limit})',
+  'production.ocap.belowLsl': 'Unter der unteren Toleranzgrenze ({limit})',
+  'production.ocap.aboveUcl': 'Über der oberen Eingriffsgrenze ({limit})',
+  'production.ocap.belowLcl': 'Unter der unteren Eingriffsgrenze ({limit})',
+  'production.ocap.cause': 'Ursache',
+  'production.ocap.action': 'Korrekturmaßnahme',
+  'production.ocap.selectCause': 'Ursache wählen',
+  'production.ocap.selectAction': 'Maßnahme wählen',
+  'production.ocap.comment': 'Kommentar (optional)',
+  'production.ocap.confirm': 'Mit Reaktion speichern',
+  'production.ocap.correctValues': 'Werte korrigieren',
+  'production.ocap.recorded': '{count} Abweichung(en) erfasst und gemeldet',
+  'production.ocap.cause.TOOL': 'Werkzeugverschleiß oder -bruch',
+  'production.ocap.cause.SETUP': 'Einrichte- oder Korrekturfehler',
+  'production.ocap.cause.MATERIAL': 'Material oder Zulieferteil',
+  'production.ocap.cause.GAUGE': 'Mess- oder Prüfmittelfehler',
+  'production.ocap.cause.METHOD': 'Bediener oder Methode',
+  'production.ocap.cause.OTHER': 'Sonstige oder unbekannt',
+  'production.ocap.action.ADJUST': 'Prozess korrigieren und nachmessen',
+  'production.ocap.action.QUARANTINE': 'Teile seit der letzten i.O.-Prüfung sperren',
+  'production.ocap.action.STOP': 'Linie stoppen und Vorgesetzten rufen',
+  'production.ocap.action.RECHECK': 'Nachmessen, um den Wert zu bestätigen',
+  'production.measurements.subgroup': 'Untergruppe',
+  'production.measurements.newSubgroup': 'Neue Untergruppe',
   'production.measurements.operator': 'Operator',
   'production.measurements.enterOperatorName': 'Operatorname eingeben',
   'production.measurements.notesOptional': 'Notizen (Optional)',
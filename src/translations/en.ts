@@ -9,6 +9,15 @@ export const en = {
   'nav.gammas': 'Gammas',
   'nav.routes': 'Routes',
   'nav.measurements': 'Measurements',
+  'nav.capabilityReport': 'Capability Report',
+  'nav.gageRR': 'Gage R&R',
+  'nav.gauges': 'Gauges',
+  'nav.reactionPlans': 'Reaction Plans',
+  'nav.notificationRules': 'Alert Rules',
+  'nav.inspectionPlans': 'Inspection Frequencies',
+  'nav.controlPlans': 'Control Plans',
+  'nav.ncr': 'Nonconformances (NCR)',
+  'nav.plantWideView': 'Plant-wide view',
   'nav.users': 'Users',
   'nav.database': 'Database',
   'nav.storage': 'Storage',
@@ -62,6 +71,35 @@ export const en = {
   'dashboard.welcome.prodSubtitle': 'Production workstation and measurement entry',
   'dashboard.welcome.default': 'Welcome to SPC System',
   'dashboard.welcome.defaultSubtitle': 'Statistical Process Control Dashboard',
+  'dashboard.widgets.keyFigures': 'Key figures',
+  'dashboard.widgets.workshops': 'Workshops',
+  'dashboard.widgets.recentMeasurements': 'Recent measurements',
+  'dashboard.widgets.controlChart': 'Control chart',
+  'dashboard.widgets.cpkHeatmap': 'Cpk by workstation',
+  'dashboard.widgets.outOfControl': 'Out of control',
+  'dashboard.widgets.overdueInspections': 'Due inspections',
+  'dashboard.widgets.recentNcrs': 'Open NCRs',
+  'dashboard.widgets.pendingValidations': 'Pending validations',
+  'dashboard.widgets.quickActions': 'Quick actions',
+  'dashboard.layout.customize': 'Customize',
+  'dashboard.layout.addWidget': 'Add widget…',
+  'dashboard.layout.save': 'Save layout',
+  'dashboard.layout.cancel': 'Cancel',
+  'dashboard.layout.reset': 'Reset to default',
+  'dashboard.layout.saveRoleDefault': 'Save as role default',
+  'dashboard.layout.saved': 'Dashboard saved',
+  'dashboard.layout.roleSaved': 'Default dashboard saved for {role}',
+  'dashboard.layout.resetDone': 'Dashboard reset to the default',
+  'dashboard.layout.saveError': 'Could not save the dashboard',
+  'dashboard.layout.empty': 'Your dashboard is empty. Use Customize to add widgets.',
+  'dashboard.layout.drag': 'Drag to move',
+  'dashboard.layout.width': 'Width',
+  'dashboard.layout.height': 'Height',
+  'dashboard.layout.settings': 'Widget settings',
+  'dashboard.layout.remove': 'Remove widget',
+  'dashboard.layout.feature': 'Choose a feature…',
+  'dashboard.layout.points': 'Last {count} values',
+  'dashboard.layout.days': 'Last {count} day(s)',
   
   // Auth
   'auth.login': 'Login',
@@ -133,6 +171,13 @@ export const en = {
   'ui.notifications.markAllReadError': 'Failed to mark all notifications as read',
   'ui.notifications.noNotifications': 'No notifications',
   'ui.notifications.allCaughtUp': 'You\'re all caught up! No new notifications.',
+  'ui.notifications.acknowledge': 'Acknowledge',
+  'ui.notifications.acknowledged': 'Alert acknowledged',
+  'ui.notifications.acknowledgedLabel': 'Acknowledged',
+  'ui.notifications.acknowledgeError': 'Failed to acknowledge the alert',
+  'ui.notifications.severity.info': 'info',
+  'ui.notifications.severity.warning': 'warning',
+  'ui.notifications.severity.critical': 'critical',
   
   // Breadcrumbs
   'ui.breadcrumb.home': 'Dashboard',
@@ -144,6 +189,14 @@ export const en = {
   'ui.breadcrumb.features': 'Features',
   'ui.breadcrumb.gammas': 'Gammas',
   'ui.breadcrumb.measurements': 'Measurements',
+  'ui.breadcrumb.capability': 'Capability Report',
+  'ui.breadcrumb.gageRR': 'Gage R&R',
+  'ui.breadcrumb.gauges': 'Gauges',
+  'ui.breadcrumb.reactionPlans': 'Reaction Plans',
+  'ui.breadcrumb.notificationRules': 'Alert Rules',
+  'ui.breadcrumb.inspectionPlans': 'Inspection Frequencies',
+  'ui.breadcrumb.controlPlans': 'Control Plans',
+  'ui.breadcrumb.ncr': 'Nonconformance Reports',
   'ui.breadcrumb.users': 'Users',
   'ui.breadcrumb.groups': 'Groups',
   'ui.breadcrumb.registrationCodes': 'Registration Codes',
@@ -154,6 +207,22 @@ export const en = {
   'ui.breadcrumb.systemSettings': 'System Settings',
   'ui.breadcrumb.databaseCrud': 'Database CRUD',
   'ui.breadcrumb.translations': 'Translations',
+  'ui.controlChart.title': 'Control Chart',
+  'ui.controlChart.feature': 'Feature: {name}',
+  'ui.controlChart.chartType': 'Chart Type',
+  'ui.controlChart.subgroupSize': 'Subgroup Size',
+  'ui.controlChart.recordedSubgroups': 'Recorded subgroups',
+  'ui.controlChart.resetZoom': 'Reset Zoom',
+  'ui.controlChart.zoomHint': 'Drag across a chart or the overview below to zoom into a time range.',
+  'ui.controlChart.notEnoughData': 'Not enough data to draw this chart.',
+  'ui.controlChart.notEnoughDataHint': 'At least two points (or two complete subgroups) are required.',
+  'ui.controlChart.ruleViolations': 'Rule Violations',
+  'ui.controlChart.noViolations': 'No rule violations detected.',
+  'ui.controlChart.pointCount': '{count} point(s)',
+  'ui.controlChart.beyondLimits': '{chart}: {count} point(s) beyond the control limits',
+  'ui.controlChart.loadError': 'Failed to load measurements',
+  'ui.controlChart.operator': 'Operator: {name}',
+  'ui.controlChart.notes': 'Notes: {notes}',
   
   // Production
   'production.dashboard.loadError': 'Failed to load dashboard data',
@@ -173,6 +242,28 @@ export const en = {
   'production.dashboard.noFavoritesDescription': 'Start by adding workshops, workstations, and routes to your favorites for quick access.',
   'production.dashboard.navigatePreferences': 'Navigate to User Preferences to add favorites',
   'production.dashboard.manageFavorites': 'Manage Favorites',
+  'production.inspection.title': 'Inspection queue',
+  'production.inspection.summary': '{overdue} overdue, {due} due',
+  'production.inspection.noWorkstation': 'Select a workstation to see the inspections due there.',
+  'production.inspection.empty': 'No inspection frequencies are defined for this workstation.',
+  'production.inspection.state.overdue': 'Overdue',
+  'production.inspection.state.due': 'Due',
+  'production.inspection.state.ok': 'On schedule',
+  'production.inspection.trigger.parts': 'Every {value} parts',
+  'production.inspection.trigger.minutes': 'Every {value} min',
+  'production.inspection.trigger.shift-start': 'At shift start',
+  'production.inspection.trigger.tool-change': 'After a tool change',
+  'production.inspection.sample': '{count} part(s)',
+  'production.inspection.dueSince': 'Due since {time}',
+  'production.inspection.nextAt': 'Next at {time}',
+  'production.inspection.partsRemaining': '{count} parts to go',
+  'production.inspection.waiting': 'Waiting for the trigger',
+  'production.inspection.partsProduced': 'Parts',
+  'production.inspection.addParts': 'Parts produced',
+  'production.inspection.toolChange': 'Tool change',
+  'production.inspection.shiftStart': 'Start of shift',
+  'production.inspection.eventRecorded': 'Production event recorded',
+  'production.inspection.eventError': 'Failed to record the production event',
   'production.measurements.loadError': 'Failed to load data',
   'production.measurements.selectProductRoute': 'Please select a product and route',
   'production.measurements.enterMeasurement': 'Please enter at least one measurement',
@@ -200,6 +291,52 @@ export const en = {
   'production.measurements.saveAsTemplate': 'Save as Template',
   'production.measurements.noFeaturesAvailable': 'No features available for this product',
   'production.measurements.enterValue': 'Enter value',
+  'production.measurements.attributeDefectives': 'go/no-go',
+  'production.measurements.attributeDefects': 'defect count',
+  'production.measurements.inspectedQuantity': 'Inspected qty',
+  'production.measurements.defectiveCount': 'Defective parts',
+  'production.measurements.defectCount': 'Defects found',
+  'production.measurements.defectivesExceedSample': 'Defective parts for {feature} cannot exceed the inspected quantity',
+  'production.measurements.critical': 'Critical',
+  'production.measurements.outOfSpecification': 'Out of specification',
+  'production.measurements.serialNumber': 'Serial number',
+  'production.measurements.lotNumber': 'Lot number',
+  'production.measurements.batch': 'Batch',
+  'production.measurements.gauge': 'Gauge',
+  'production.measurements.gaugeScanPlaceholder': 'Scan or type the gauge ID',
+  'production.measurements.selectGauge': 'Select a gauge',
+  'production.measurements.gaugeRequired': 'Select the gauge used for these measurements',
+  'production.measurements.gaugeNotFound': 'No gauge with ID {code}',
+  'production.measurements.gaugeOverdue': 'Gauge {code} was due for calibration on {date} and cannot be used',
+  'production.measurements.gaugeInactive': 'Gauge {code} is not in service',
+  'production.measurements.gaugeCalibrationDue': 'calibration due {date}',
+  'production.measurements.gaugeOutOfRange': 'The value for {feature} is outside the range of gauge {code}',
+  'production.ocap.title': 'Reaction required',
+  'production.ocap.description': 'These values are out of limits. Choose a cause and the corrective action taken before they are recorded.',
+  'production.ocap.aboveUsl': 'Above the upper specification limit ({limit})',
+  'production.ocap.belowLsl': 'Below the lower specification limit ({limit})',
+  'production.ocap.aboveUcl': 'Above the upper control limit ({limit})',
+  'production.ocap.belowLcl': 'Below the lower control limit ({limit})',
+  'production.ocap.cause': 'Cause',
+  'production.ocap.action': 'Corrective action',
+  'production.ocap.selectCause': 'Select a cause',
+  'production.ocap.selectAction': 'Select an action',
+  'production.ocap.comment': 'Comment (optional)',
+  'production.ocap.confirm': 'Record with reaction',
+  'production.ocap.correctValues': 'Correct the values',
+  'production.ocap.recorded': '{count} nonconformance(s) recorded and reported',
+  'production.ocap.cause.TOOL': 'Tool wear or breakage',
+  'production.ocap.cause.SETUP': 'Setup or offset error',
+  'production.ocap.cause.MATERIAL': 'Material or incoming part',
+  'production.ocap.cause.GAUGE': 'Measurement or gauge error',
+  'production.ocap.cause.METHOD': 'Operator or method',
+  'production.ocap.cause.OTHER': 'Other or unknown',
+  'production.ocap.action.ADJUST': 'Adjust the process and re-measure',
+  'production.ocap.action.QUARANTINE': 'Quarantine the parts since the last good check',
+  'production.ocap.action.STOP': 'Stop the line and call the supervisor',
+  'production.ocap.action.RECHECK': 'Re-measure to confirm the value',
+  'production.measurements.subgroup': 'Subgroup',
+  'production.measurements.newSubgroup': 'New subgroup',
   'production.measurements.operator': 'Operator',
   'production.measurements.enterOperatorName': 'Enter operator name',
   'production.measurements.notesOptional': 'Notes (Optional)',
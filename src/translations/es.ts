@@ -9,6 +9,15 @@ export const es = {
   'nav.gammas': 'Gamas',
   'nav.routes': 'Gamas',
   'nav.measurements': 'Mediciones',
+  'nav.capabilityReport': 'Informe de capacidad',
+  'nav.gageRR': 'R&R de medición',
+  'nav.gauges': 'Instrumentos',
+  'nav.reactionPlans': 'Planes de reacción',
+  'nav.notificationRules': 'Reglas de alerta',
+  'nav.inspectionPlans': 'Frecuencias de inspección',
+  'nav.controlPlans': 'Planes de control',
+  'nav.ncr': 'No conformidades (RNC)',
+  'nav.plantWideView': 'Vista de toda la planta',
   'nav.users': 'Usuarios',
   'nav.database': 'Base de datos',
   'nav.storage': 'Almacenamiento',
@@ -62,6 +71,35 @@ export const es = {
   'dashboard.welcome.prodSubtitle': 'Estación de trabajo de producción y entrada de mediciones',
   'dashboard.welcome.default': 'Bienvenido al Sistema SPC',
   'dashboard.welcome.defaultSubtitle': 'Panel de Control Estadístico de Procesos',
+  'dashboard.widgets.keyFigures': 'Cifras clave',
+  'dashboard.widgets.workshops': 'Talleres',
+  'dashboard.widgets.recentMeasurements': 'Mediciones recientes',
+  'dashboard.widgets.controlChart': 'Gráfico de control',
+  'dashboard.widgets.cpkHeatmap': 'Cpk por puesto',
+  'dashboard.widgets.outOfControl': 'Fuera de control',
+  'dashboard.widgets.overdueInspections': 'Inspecciones pendientes',
+  'dashboard.widgets.recentNcrs': 'Informes de no conformidad abiertos',
+  'dashboard.widgets.pendingValidations': 'Validaciones pendientes',
+  'dashboard.widgets.quickActions': 'Acciones rápidas',
+  'dashboard.layout.customize': 'Personalizar',
+  'dashboard.layout.addWidget': 'Añadir widget…',
+  'dashboard.layout.save': 'Guardar diseño',
+  'dashboard.layout.cancel': 'Cancelar',
+  'dashboard.layout.reset': 'Restablecer predeterminado',
+  'dashboard.layout.saveRoleDefault': 'Guardar como predeterminado del rol',
+  'dashboard.layout.saved': 'Panel guardado',
+  'dashboard.layout.roleSaved': 'Panel predeterminado guardado para {role}',
+  'dashboard.layout.resetDone': 'Panel restablecido al predeterminado',
+  'dashboard.layout.saveError': 'No se pudo guardar el panel',
+  'dashboard.layout.empty': 'Su panel está vacío. Use Personalizar para añadir widgets.',
+  'dashboard.layout.drag': 'Arrastrar para mover',
+  'dashboard.layout.width': 'Ancho',
+  'dashboard.layout.height': 'Alto',
+  'dashboard.layout.settings': 'Ajustes del widget',
+  'dashboard.layout.remove': 'Quitar widget',
+  'dashboard.layout.feature': 'Elegir una característica…',
+  'dashboard.layout.points': 'Últimos {count} valores',
+  'dashboard.layout.days': 'Últimos {count} día(s)',
   
   // Auth
   'auth.login': 'Iniciar sesión',
@@ -133,6 +171,13 @@ export const es = {
   'ui.notifications.markAllReadError': 'Error al marcar todas las notificaciones como leídas',
   'ui.notifications.noNotifications': 'Sin notificaciones',
   'ui.notifications.allCaughtUp': '¡Estás al día! No hay nuevas notificaciones.',
+  'ui.notifications.acknowledge': 'Confirmar recepción',
+  'ui.notifications.acknowledged': 'Alerta confirmada',
+  'ui.notifications.acknowledgedLabel': 'Confirmada',
+  'ui.notifications.acknowledgeError': 'No se pudo confirmar la alerta',
+  'ui.notifications.severity.info': 'info',
+  'ui.notifications.severity.warning': 'advertencia',
+  'ui.notifications.severity.critical': 'crítica',
   
   // Breadcrumbs
   'ui.breadcrumb.home': 'Panel de control',
@@ -144,6 +189,14 @@ export const es = {
   'ui.breadcrumb.features': 'Características',
   'ui.breadcrumb.gammas': 'Gamas',
   'ui.breadcrumb.measurements': 'Mediciones',
+  'ui.breadcrumb.capability': 'Informe de capacidad',
+  'ui.breadcrumb.gageRR': 'R&R de medición',
+  'ui.breadcrumb.gauges': 'Instrumentos',
+  'ui.breadcrumb.reactionPlans': 'Planes de reacción',
+  'ui.breadcrumb.notificationRules': 'Reglas de alerta',
+  'ui.breadcrumb.inspectionPlans': 'Frecuencias de inspección',
+  'ui.breadcrumb.controlPlans': 'Planes de control',
+  'ui.breadcrumb.ncr': 'Informes de no conformidad',
   'ui.breadcrumb.users': 'Usuarios',
   'ui.breadcrumb.groups': 'Grupos',
   'ui.breadcrumb.registrationCodes': 'Códigos de Registro',
@@ -154,6 +207,22 @@ export const es = {
   'ui.breadcrumb.systemSettings': 'Configuración del Sistema',
   'ui.breadcrumb.databaseCrud': 'CRUD Base de Datos',
   'ui.breadcrumb.translations': 'Traducciones',
+  'ui.controlChart.title': 'Gráfico de control',
+  'ui.controlChart.feature': 'Característica: {name}',
+  'ui.controlChart.chartType': 'Tipo de gráfico',
+  'ui.controlChart.subgroupSize': 'Tamaño del subgrupo',
+  'ui.controlChart.recordedSubgroups': 'Subgrupos registrados',
+  'ui.controlChart.resetZoom': 'Restablecer zoom',
+  'ui.controlChart.zoomHint': 'Arrastre sobre un gráfico o sobre la vista general inferior para ampliar un intervalo de tiempo.',
+  'ui.controlChart.notEnoughData': 'No hay suficientes datos para dibujar este gráfico.',
+  'ui.controlChart.notEnoughDataHint': 'Se necesitan al menos dos puntos (o dos subgrupos completos).',
+  'ui.controlChart.ruleViolations': 'Violaciones de reglas',
+  'ui.controlChart.noViolations': 'No se detectaron violaciones de reglas.',
+  'ui.controlChart.pointCount': '{count} punto(s)',
+  'ui.controlChart.beyondLimits': '{chart}: {count} punto(s) fuera de los límites de control',
+  'ui.controlChart.loadError': 'Error al cargar las mediciones',
+  'ui.controlChart.operator': 'Operador: {name}',
+  'ui.controlChart.notes': 'Notas: {notes}',
   
   // Production
   'production.dashboard.loadError': 'Error al cargar datos del panel',
@@ -173,6 +242,28 @@ export const es = {
   'production.dashboard.noFavoritesDescription': 'Comienza agregando talleres, estaciones y rutas a tus favoritos para acceso rápido.',
   'production.dashboard.navigatePreferences': 'Navegar a Preferencias de Usuario para agregar favoritos',
   'production.dashboard.manageFavorites': 'Gestionar Favoritos',
+  'production.inspection.title': 'Cola de inspección',
+  'production.inspection.summary': '{overdue} atrasadas, {due} pendientes',
+  'production.inspection.noWorkstation': 'Seleccione un puesto para ver las inspecciones pendientes.',
+  'production.inspection.empty': 'No hay frecuencias de inspección definidas para este puesto.',
+  'production.inspection.state.overdue': 'Atrasada',
+  'production.inspection.state.due': 'Pendiente',
+  'production.inspection.state.ok': 'Al día',
+  'production.inspection.trigger.parts': 'Cada {value} piezas',
+  'production.inspection.trigger.minutes': 'Cada {value} min',
+  'production.inspection.trigger.shift-start': 'Al inicio del turno',
+  'production.inspection.trigger.tool-change': 'Tras un cambio de herramienta',
+  'production.inspection.sample': '{count} pieza(s)',
+  'production.inspection.dueSince': 'Pendiente desde {time}',
+  'production.inspection.nextAt': 'Próxima a las {time}',
+  'production.inspection.partsRemaining': 'Faltan {count} piezas',
+  'production.inspection.waiting': 'Esperando el disparador',
+  'production.inspection.partsProduced': 'Piezas',
+  'production.inspection.addParts': 'Piezas producidas',
+  'production.inspection.toolChange': 'Cambio de herramienta',
+  'production.inspection.shiftStart': 'Inicio de turno',
+  'production.inspection.eventRecorded': 'Evento de producción registrado',
+  'production.inspection.eventError': 'No se pudo registrar el evento',
   'production.measurements.loadError': 'Error al cargar datos',
   'production.measurements.selectProductRoute': 'Por favor selecciona un producto y ruta',
   'production.measurements.enterMeasurement': 'Por favor ingresa al menos una medición',
@@ -200,6 +291,52 @@ export const es = {
   'production.measurements.saveAsTemplate': 'Guardar como Plantilla',
   'production.measurements.noFeaturesAvailable': 'No hay características disponibles para este producto',
   'production.measurements.enterValue': 'Ingresar valor',
+  'production.measurements.attributeDefectives': 'pasa/no pasa',
+  'production.measurements.attributeDefects': 'número de defectos',
+  'production.measurements.inspectedQuantity': 'Cant. inspeccionada',
+  'production.measurements.defectiveCount': 'Piezas defectuosas',
+  'production.measurements.defectCount': 'Defectos encontrados',
+  'production.measurements.defectivesExceedSample': 'Las piezas defectuosas de {feature} no pueden superar la cantidad inspeccionada',
+  'production.measurements.critical': 'Crítica',
+  'production.measurements.outOfSpecification': 'Fuera de especificación',
+  'production.measurements.serialNumber': 'Número de serie',
+  'production.measurements.lotNumber': 'Número de lote',
+  'production.measurements.batch': 'Tanda',
+  'production.measurements.gauge': 'Instrumento',
+  'production.measurements.gaugeScanPlaceholder': 'Escanee o escriba el ID del instrumento',
+  'production.measurements.selectGauge': 'Seleccione un instrumento',
+  'production.measurements.gaugeRequired': 'Seleccione el instrumento usado para estas mediciones',
+  'production.measurements.gaugeNotFound': 'No hay ningún instrumento con ID {code}',
+  'production.measurements.gaugeOverdue': 'El instrumento {code} debía calibrarse el {date} y no puede usarse',
+  'production.measurements.gaugeInactive': 'El instrumento {code} no está en servicio',
+  'production.measurements.gaugeCalibrationDue': 'calibración el {date}',
+  'production.measurements.gaugeOutOfRange': 'El valor de {feature} está fuera del rango del instrumento {code}',
+  'production.ocap.title': 'Reacción requerida',
+  'production.ocap.description': 'Estos valores están fuera de límites. Elija una causa y la acción correctiva realizada antes de registrarlos.',
+  'production.ocap.aboveUsl': 'Por encima del límite superior de especificación ({limit})',
+  'production.ocap.belowLsl': 'Por debajo del límite inferior de especificación ({limit})',
+  'production.ocap.aboveUcl': 'Por encima del límite de control superior ({limit})',
+  'production.ocap.belowLcl': 'Por debajo del límite de control inferior ({limit})',
+  'production.ocap.cause': 'Causa',
+  'production.ocap.action': 'Acción correctiva',
+  'production.ocap.selectCause': 'Seleccione una causa',
+  'production.ocap.selectAction': 'Seleccione una acción',
+  'production.ocap.comment': 'Comentario (opcional)',
+  'production.ocap.confirm': 'Registrar con la reacción',
+  'production.ocap.correctValues': 'Corregir los valores',
+  'production.ocap.recorded': '{count} no conformidad(es) registrada(s) y notificada(s)',
+  'production.ocap.cause.TOOL': 'Desgaste o rotura de herramienta',
+  'production.ocap.cause.SETUP': 'Error de ajuste o compensación',
+  'production.ocap.cause.MATERIAL': 'Material o pieza de entrada',
+  'production.ocap.cause.GAUGE': 'Error de medición o de instrumento',
+  'production.ocap.cause.METHOD': 'Operario o método',
+  'production.ocap.cause.OTHER': 'Otra o desconocida',
+  'production.ocap.action.ADJUST': 'Ajustar el proceso y volver a medir',
+  'production.ocap.action.QUARANTINE': 'Poner en cuarentena las piezas desde el último control correcto',
+  'production.ocap.action.STOP': 'Parar la línea y llamar al supervisor',
+  'production.ocap.action.RECHECK': 'Volver a medir para confirmar el valor',
+  'production.measurements.subgroup': 'Subgrupo',
+  'production.measurements.newSubgroup': 'Nuevo subgrupo',
   'production.measurements.operator': 'Operador',
   'production.measurements.enterOperatorName': 'Ingresar nombre del operador',
   'production.measurements.notesOptional': 'Notas (Opcional)',
@@ -9,6 +9,15 @@ export const fr = {
   'nav.gammas': 'Gammes',
   'nav.routes': 'Gammes',
   'nav.measurements': 'Mesures',
+  'nav.capabilityReport': 'Rapport de capabilité',
+  'nav.gageRR': 'R&R instruments',
+  'nav.gauges': 'Instruments de mesure',
+  'nav.reactionPlans': 'Plans de réaction',
+  'nav.notificationRules': 'Règles d\'alerte',
+  'nav.inspectionPlans': 'Fréquences de contrôle',
+  'nav.controlPlans': 'Plans de surveillance',
+  'nav.ncr': 'Non-conformités (RNC)',
+  'nav.plantWideView': 'Vue usine complète',
   'nav.users': 'Utilisateurs',
   'nav.database': 'Base de données',
   'nav.storage': 'Stockage',
@@ -62,6 +71,35 @@ export const fr = {
   'dashboard.welcome.prodSubtitle': 'Poste de travail de production et saisie de mesures',
   'dashboard.welcome.default': 'Bienvenue dans le système SPC',
   'dashboard.welcome.defaultSubtitle': 'Tableau de bord de contrôle statistique des processus',
+  'dashboard.widgets.keyFigures': 'Chiffres clés',
+  'dashboard.widgets.workshops': 'Ateliers',
+  'dashboard.widgets.recentMeasurements': 'Mesures récentes',
+  'dashboard.widgets.controlChart': 'Carte de contrôle',
+  'dashboard.widgets.cpkHeatmap': 'Cpk par poste',
+  'dashboard.widgets.outOfControl': 'Hors contrôle',
+  'dashboard.widgets.overdueInspections': 'Contrôles à faire',
+  'dashboard.widgets.recentNcrs': 'Fiches de non-conformité ouvertes',
+  'dashboard.widgets.pendingValidations': 'Validations en attente',
+  'dashboard.widgets.quickActions': 'Actions rapides',
+  'dashboard.layout.customize': 'Personnaliser',
+  'dashboard.layout.addWidget': 'Ajouter un widget…',
+  'dashboard.layout.save': 'Enregistrer la disposition',
+  'dashboard.layout.cancel': 'Annuler',
+  'dashboard.layout.reset': 'Rétablir par défaut',
+  'dashboard.layout.saveRoleDefault': 'Définir par défaut pour le rôle',
+  'dashboard.layout.saved': 'Tableau de bord enregistré',
+  'dashboard.layout.roleSaved': 'Tableau de bord par défaut enregistré pour {role}',
+  'dashboard.layout.resetDone': 'Tableau de bord rétabli par défaut',
+  'dashboard.layout.saveError': 'Impossible d\'enregistrer le tableau de bord',
+  'dashboard.layout.empty': 'Votre tableau de bord est vide. Utilisez Personnaliser pour ajouter des widgets.',
+  'dashboard.layout.drag': 'Glisser pour déplacer',
+  'dashboard.layout.width': 'Largeur',
+  'dashboard.layout.height': 'Hauteur',
+  'dashboard.layout.settings': 'Paramètres du widget',
+  'dashboard.layout.remove': 'Retirer le widget',
+  'dashboard.layout.feature': 'Choisir une caractéristique…',
+  'dashboard.layout.points': '{count} dernières valeurs',
+  'dashboard.layout.days': '{count} dernier(s) jour(s)',
   
   // Auth
   'auth.login': 'Connexion',
@@ -133,6 +171,13 @@ export const fr = {
   'ui.notifications.markAllReadError': 'Échec du marquage de toutes les notifications comme lues',
   'ui.notifications.noNotifications': 'Aucune notification',
   'ui.notifications.allCaughtUp': 'Vous êtes à jour ! Aucune nouvelle notification.',
+  'ui.notifications.acknowledge': 'Acquitter',
+  'ui.notifications.acknowledged': 'Alerte acquittée',
+  'ui.notifications.acknowledgedLabel': 'Acquittée',
+  'ui.notifications.acknowledgeError': 'Échec de l\'acquittement de l\'alerte',
+  'ui.notifications.severity.info': 'info',
+  'ui.notifications.severity.warning': 'avertissement',
+  'ui.notifications.severity.critical': 'critique',
   
   // Breadcrumbs
   'ui.breadcrumb.home': 'Tableau de bord',
@@ -144,6 +189,14 @@ export const fr = {
   'ui.breadcrumb.features': 'Caractéristiques',
   'ui.breadcrumb.gammas': 'Gammas',
   'ui.breadcrumb.measurements': 'Mesures',
+  'ui.breadcrumb.capability': 'Rapport de capabilité',
+  'ui.breadcrumb.gageRR': 'R&R instruments',
+  'ui.breadcrumb.gauges': 'Instruments de mesure',
+  'ui.breadcrumb.reactionPlans': 'Plans de réaction',
+  'ui.breadcrumb.notificationRules': 'Règles d\'alerte',
+  'ui.breadcrumb.inspectionPlans': 'Fréquences de contrôle',
+  'ui.breadcrumb.controlPlans': 'Plans de surveillance',
+  'ui.breadcrumb.ncr': 'Rapports de non-conformité',
   'ui.breadcrumb.users': 'Utilisateurs',
   'ui.breadcrumb.groups': 'Groupes',
   'ui.breadcrumb.registrationCodes': 'Codes d\'enregistrement',
@@ -154,6 +207,22 @@ export const fr = {
   'ui.breadcrumb.systemSettings': 'Paramètres système',
   'ui.breadcrumb.databaseCrud': 'CRUD Base de données',
   'ui.breadcrumb.translations': 'Traductions',
+  'ui.controlChart.title': 'Carte de contrôle',
+  'ui.controlChart.feature': 'Caractéristique : {name}',
+  'ui.controlChart.chartType': 'Type de carte',
+  'ui.controlChart.subgroupSize': 'Taille du sous-groupe',
+  'ui.controlChart.recordedSubgroups': 'Sous-groupes enregistrés',
+  'ui.controlChart.resetZoom': 'Réinitialiser le zoom',
+  'ui.controlChart.zoomHint': 'Faites glisser sur une carte ou sur l\'aperçu ci-dessous pour zoomer sur une période.',
+  'ui.controlChart.notEnoughData': 'Pas assez de données pour tracer cette carte.',
+  'ui.controlChart.notEnoughDataHint': 'Au moins deux points (ou deux sous-groupes complets) sont nécessaires.',
+  'ui.controlChart.ruleViolations': 'Violations de règles',
+  'ui.controlChart.noViolations': 'Aucune violation de règle détectée.',
+  'ui.controlChart.pointCount': '{count} point(s)',
+  'ui.controlChart.beyondLimits': '{chart} : {count} point(s) hors des limites de contrôle',
+  'ui.controlChart.loadError': 'Échec du chargement des mesures',
+  'ui.controlChart.operator': 'Opérateur : {name}',
+  'ui.controlChart.notes': 'Remarques : {notes}',
   
   // Production
   'production.dashboard.loadError': 'Échec du chargement des données du tableau de bord',
@@ -173,6 +242,28 @@ export const fr = {
   'production.dashboard.noFavoritesDescription': 'Commencez par ajouter des ateliers, des postes de travail et des routes à vos favoris pour un accès rapide.',
   'production.dashboard.navigatePreferences': 'Naviguer vers les préférences utilisateur pour ajouter des favoris',
   'production.dashboard.manageFavorites': 'Gérer les favoris',
+  'production.inspection.title': 'Contrôles à réaliser',
+  'production.inspection.summary': '{overdue} en retard, {due} à faire',
+  'production.inspection.noWorkstation': 'Sélectionnez un poste pour voir les contrôles à y réaliser.',
+  'production.inspection.empty': 'Aucune fréquence de contrôle n\'est définie pour ce poste.',
+  'production.inspection.state.overdue': 'En retard',
+  'production.inspection.state.due': 'À faire',
+  'production.inspection.state.ok': 'À jour',
+  'production.inspection.trigger.parts': 'Toutes les {value} pièces',
+  'production.inspection.trigger.minutes': 'Toutes les {value} min',
+  'production.inspection.trigger.shift-start': 'En début d\'équipe',
+  'production.inspection.trigger.tool-change': 'Après un changement d\'outil',
+  'production.inspection.sample': '{count} pièce(s)',
+  'production.inspection.dueSince': 'À faire depuis {time}',
+  'production.inspection.nextAt': 'Prochain à {time}',
+  'production.inspection.partsRemaining': 'Encore {count} pièces',
+  'production.inspection.waiting': 'En attente du déclencheur',
+  'production.inspection.partsProduced': 'Pièces',
+  'production.inspection.addParts': 'Pièces produites',
+  'production.inspection.toolChange': 'Changement d\'outil',
+  'production.inspection.shiftStart': 'Début d\'équipe',
+  'production.inspection.eventRecorded': 'Événement de production enregistré',
+  'production.inspection.eventError': 'Échec de l\'enregistrement de l\'événement',
   'production.measurements.loadError': 'Échec du chargement des données',
   'production.measurements.selectProductRoute': 'Veuillez sélectionner un produit et une route',
   'production.measurements.enterMeasurement': 'Veuillez saisir au moins une mesure',
@@ -200,6 +291,52 @@ export const fr = {
   'production.measurements.saveAsTemplate': 'Enregistrer comme modèle',
   'production.measurements.noFeaturesAvailable': 'Aucune caractéristique disponible pour ce produit',
   'production.measurements.enterValue': 'Saisir une valeur',
+  'production.measurements.attributeDefectives': 'bon/mauvais',
+  'production.measurements.attributeDefects': 'nombre de défauts',
+  'production.measurements.inspectedQuantity': 'Qté contrôlée',
+  'production.measurements.defectiveCount': 'Pièces défectueuses',
+  'production.measurements.defectCount': 'Défauts trouvés',
+  'production.measurements.defectivesExceedSample': 'Les pièces défectueuses pour {feature} ne peuvent pas dépasser la quantité contrôlée',
+  'production.measurements.critical': 'Critique',
+  'production.measurements.outOfSpecification': 'Hors tolérance',
+  'production.measurements.serialNumber': 'Numéro de série',
+  'production.measurements.lotNumber': 'Numéro de lot',
+  'production.measurements.batch': 'Série de fabrication',
+  'production.measurements.gauge': 'Instrument de mesure',
+  'production.measurements.gaugeScanPlaceholder': 'Scanner ou saisir le n° d\'instrument',
+  'production.measurements.selectGauge': 'Choisir un instrument',
+  'production.measurements.gaugeRequired': 'Sélectionnez l\'instrument utilisé pour ces mesures',
+  'production.measurements.gaugeNotFound': 'Aucun instrument avec le n° {code}',
+  'production.measurements.gaugeOverdue': 'L\'instrument {code} devait être étalonné le {date} et ne peut pas être utilisé',
+  'production.measurements.gaugeInactive': 'L\'instrument {code} n\'est pas en service',
+  'production.measurements.gaugeCalibrationDue': 'étalonnage le {date}',
+  'production.measurements.gaugeOutOfRange': 'La valeur de {feature} est hors de l\'étendue de l\'instrument {code}',
+  'production.ocap.title': 'Réaction requise',
+  'production.ocap.description': 'Ces valeurs sont hors limites. Choisissez une cause et l\'action corrective réalisée avant leur enregistrement.',
+  'production.ocap.aboveUsl': 'Au-dessus de la tolérance supérieure ({limit})',
+  'production.ocap.belowLsl': 'En dessous de la tolérance inférieure ({limit})',
+  'production.ocap.aboveUcl': 'Au-dessus de la limite de contrôle supérieure ({limit})',
+  'production.ocap.belowLcl': 'En dessous de la limite de contrôle inférieure ({limit})',
+  'production.ocap.cause': 'Cause',
+  'production.ocap.action': 'Action corrective',
+  'production.ocap.selectCause': 'Choisir une cause',
+  'production.ocap.selectAction': 'Choisir une action',
+  'production.ocap.comment': 'Commentaire (facultatif)',
+  'production.ocap.confirm': 'Enregistrer avec la réaction',
+  'production.ocap.correctValues': 'Corriger les valeurs',
+  'production.ocap.recorded': '{count} non-conformité(s) enregistrée(s) et signalée(s)',
+  'production.ocap.cause.TOOL': 'Usure ou casse d\'outil',
+  'production.ocap.cause.SETUP': 'Erreur de réglage ou de décalage',
+  'production.ocap.cause.MATERIAL': 'Matière ou pièce entrante',
+  'production.ocap.cause.GAUGE': 'Erreur de mesure ou d\'instrument',
+  'production.ocap.cause.METHOD': 'Opérateur ou méthode',
+  'production.ocap.cause.OTHER': 'Autre ou inconnue',
+  'production.ocap.action.ADJUST': 'Régler le procédé et remesurer',
+  'production.ocap.action.QUARANTINE': 'Isoler les pièces depuis le dernier contrôle bon',
+  'production.ocap.action.STOP': 'Arrêter la ligne et appeler le responsable',
+  'production.ocap.action.RECHECK': 'Remesurer pour confirmer la valeur',
+  'production.measurements.subgroup': 'Sous-groupe',
+  'production.measurements.newSubgroup': 'Nouveau sous-groupe',
   'production.measurements.operator': 'Opérateur',
   'production.measurements.enterOperatorName': 'Saisir le nom de l\'opérateur',
   'production.measurements.notesOptional': 'Notes (optionnel)',
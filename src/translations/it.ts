@@ -9,6 +9,15 @@ export const it = {
   'nav.gammas': 'Gamme',
   'nav.routes': 'Rotte',
   'nav.measurements': 'Misure',
+  'nav.capabilityReport': 'Rapporto di capacità',
+  'nav.gageRR': 'R&R strumenti',
+  'nav.gauges': 'Strumenti di misura',
+  'nav.reactionPlans': 'Piani di reazione',
+  'nav.notificationRules': 'Regole di avviso',
+  'nav.inspectionPlans': 'Frequenze di controllo',
+  'nav.controlPlans': 'Piani di controllo',
+  'nav.ncr': 'Non conformità (RNC)',
+  'nav.plantWideView': 'Vista dell\'intero stabilimento',
   'nav.users': 'Utenti',
   'nav.database': 'Database',
   'nav.storage': 'Archiviazione',
@@ -62,6 +71,35 @@ export const it = {
   'dashboard.welcome.prodSubtitle': 'Postazione di produzione e inserimento misure',
   'dashboard.welcome.default': 'Benvenuto nel Sistema SPC',
   'dashboard.welcome.defaultSubtitle': 'Dashboard Controllo Statistico dei Processi',
+  'dashboard.widgets.keyFigures': 'Dati principali',
+  'dashboard.widgets.workshops': 'Reparti',
+  'dashboard.widgets.recentMeasurements': 'Misure recenti',
+  'dashboard.widgets.controlChart': 'Carta di controllo',
+  'dashboard.widgets.cpkHeatmap': 'Cpk per postazione',
+  'dashboard.widgets.outOfControl': 'Fuori controllo',
+  'dashboard.widgets.overdueInspections': 'Controlli in scadenza',
+  'dashboard.widgets.recentNcrs': 'Rapporti di non conformità aperti',
+  'dashboard.widgets.pendingValidations': 'Convalide in attesa',
+  'dashboard.widgets.quickActions': 'Azioni rapide',
+  'dashboard.layout.customize': 'Personalizza',
+  'dashboard.layout.addWidget': 'Aggiungi widget…',
+  'dashboard.layout.save': 'Salva layout',
+  'dashboard.layout.cancel': 'Annulla',
+  'dashboard.layout.reset': 'Ripristina predefinito',
+  'dashboard.layout.saveRoleDefault': 'Salva come predefinito del ruolo',
+  'dashboard.layout.saved': 'Dashboard salvata',
+  'dashboard.layout.roleSaved': 'Dashboard predefinita salvata per {role}',
+  'dashboard.layout.resetDone': 'Dashboard ripristinata',
+  'dashboard.layout.saveError': 'Impossibile salvare la dashboard',
+  'dashboard.layout.empty': 'La dashboard è vuota. Usa Personalizza per aggiungere widget.',
+  'dashboard.layout.drag': 'Trascina per spostare',
+  'dashboard.layout.width': 'Larghezza',
+  'dashboard.layout.height': 'Altezza',
+  'dashboard.layout.settings': 'Impostazioni widget',
+  'dashboard.layout.remove': 'Rimuovi widget',
+  'dashboard.layout.feature': 'Scegli una caratteristica…',
+  'dashboard.layout.points': 'Ultimi {count} valori',
+  'dashboard.layout.days': 'Ultimi {count} giorni',
   
   // Auth
   'auth.login': 'Accedi',
@@ -133,6 +171,13 @@ export const it = {
   'ui.notifications.markAllReadError': 'Errore nel segnare tutte le notifiche come lette',
   'ui.notifications.noNotifications': 'Nessuna notifica',
   'ui.notifications.allCaughtUp': 'Sei aggiornato! Nessuna nuova notifica.',
+  'ui.notifications.acknowledge': 'Prendi in carico',
+  'ui.notifications.acknowledged': 'Avviso preso in carico',
+  'ui.notifications.acknowledgedLabel': 'Presa in carico',
+  'ui.notifications.acknowledgeError': 'Impossibile prendere in carico l\'avviso',
+  'ui.notifications.severity.info': 'info',
+  'ui.notifications.severity.warning': 'avviso',
+  'ui.notifications.severity.critical': 'critico',
   
   // Breadcrumbs
   'ui.breadcrumb.home': 'Dashboard',
@@ -144,6 +189,14 @@ export const it = {
   'ui.breadcrumb.features': 'Caratteristiche',
   'ui.breadcrumb.gammas': 'Gamme',
   'ui.breadcrumb.measurements': 'Misure',
+  'ui.breadcrumb.capability': 'Rapporto di capacità',
+  'ui.breadcrumb.gageRR': 'R&R strumenti',
+  'ui.breadcrumb.gauges': 'Strumenti di misura',
+  'ui.breadcrumb.reactionPlans': 'Piani di reazione',
+  'ui.breadcrumb.notificationRules': 'Regole di avviso',
+  'ui.breadcrumb.inspectionPlans': 'Frequenze di controllo',
+  'ui.breadcrumb.controlPlans': 'Piani di controllo',
+  'ui.breadcrumb.ncr': 'Rapporti di non conformità',
   'ui.breadcrumb.users': 'Utenti',
   'ui.breadcrumb.groups': 'Gruppi',
   'ui.breadcrumb.registrationCodes': 'Codici di Registrazione',
@@ -154,6 +207,22 @@ export const it = {
   'ui.breadcrumb.systemSettings': 'Impostazioni Sistema',
   'ui.breadcrumb.databaseCrud': 'Database CRUD',
   'ui.breadcrumb.translations': 'Traduzioni',
+  'ui.controlChart.title': 'Carta di controllo',
+  'ui.controlChart.feature': 'Caratteristica: {name}',
+  'ui.controlChart.chartType': 'Tipo di carta',
+  'ui.controlChart.subgroupSize': 'Dimensione del sottogruppo',
+  'ui.controlChart.recordedSubgroups': 'Sottogruppi registrati',
+  'ui.controlChart.resetZoom': 'Reimposta zoom',
+  'ui.controlChart.zoomHint': 'Trascina su una carta o sulla panoramica sottostante per ingrandire un intervallo di tempo.',
+  'ui.controlChart.notEnoughData': 'Dati insufficienti per disegnare questa carta.',
+  'ui.controlChart.notEnoughDataHint': 'Sono necessari almeno due punti (o due sottogruppi completi).',
+  'ui.controlChart.ruleViolations': 'Violazioni delle regole',
+  'ui.controlChart.noViolations': 'Nessuna violazione delle regole rilevata.',
+  'ui.controlChart.pointCount': '{count} punto/i',
+  'ui.controlChart.beyondLimits': '{chart}: {count} punto/i oltre i limiti di controllo',
+  'ui.controlChart.loadError': 'Impossibile caricare le misurazioni',
+  'ui.controlChart.operator': 'Operatore: {name}',
+  'ui.controlChart.notes': 'Note: {notes}',
   
   // Production
   'production.dashboard.loadError': 'Errore nel caricamento dei dati del dashboard',
@@ -173,6 +242,28 @@ export const it = {
   'production.dashboard.noFavoritesDescription': 'Inizia aggiungendo laboratori, postazioni e rotte ai tuoi preferiti per accesso rapido.',
   'production.dashboard.navigatePreferences': 'Naviga alle Preferenze Utente per aggiungere preferiti',
   'production.dashboard.manageFavorites': 'Gestisci Preferiti',
+  'production.inspection.title': 'Coda dei controlli',
+  'production.inspection.summary': '{overdue} in ritardo, {due} da fare',
+  'production.inspection.noWorkstation': 'Seleziona una postazione per vedere i controlli da eseguire.',
+  'production.inspection.empty': 'Nessuna frequenza di controllo definita per questa postazione.',
+  'production.inspection.state.overdue': 'In ritardo',
+  'production.inspection.state.due': 'Da fare',
+  'production.inspection.state.ok': 'In regola',
+  'production.inspection.trigger.parts': 'Ogni {value} pezzi',
+  'production.inspection.trigger.minutes': 'Ogni {value} min',
+  'production.inspection.trigger.shift-start': 'A inizio turno',
+  'production.inspection.trigger.tool-change': 'Dopo un cambio utensile',
+  'production.inspection.sample': '{count} pezzo/i',
+  'production.inspection.dueSince': 'Da fare dalle {time}',
+  'production.inspection.nextAt': 'Prossimo alle {time}',
+  'production.inspection.partsRemaining': 'Mancano {count} pezzi',
+  'production.inspection.waiting': 'In attesa dell\'evento',
+  'production.inspection.partsProduced': 'Pezzi',
+  'production.inspection.addParts': 'Pezzi prodotti',
+  'production.inspection.toolChange': 'Cambio utensile',
+  'production.inspection.shiftStart': 'Inizio turno',
+  'production.inspection.eventRecorded': 'Evento di produzione registrato',
+  'production.inspection.eventError': 'Impossibile registrare l\'evento',
   'production.measurements.loadError': 'Errore nel caricamento dei dati',
   'production.measurements.selectProductRoute': 'Seleziona un prodotto e una rotta',
   'production.measurements.enterMeasurement': 'Inserisci almeno una misura',
@@ -200,6 +291,52 @@ export const it = {
   'production.measurements.saveAsTemplate': 'Salva come Template',
   'production.measurements.noFeaturesAvailable': 'Nessuna caratteristica disponibile per questo prodotto',
   'production.measurements.enterValue': 'Inserisci valore',
+  'production.measurements.attributeDefectives': 'passa/non passa',
+  'production.measurements.attributeDefects': 'numero di difetti',
+  'production.measurements.inspectedQuantity': 'Q.tà ispezionata',
+  'production.measurements.defectiveCount': 'Pezzi difettosi',
+  'production.measurements.defectCount': 'Difetti trovati',
+  'production.measurements.defectivesExceedSample': 'I pezzi difettosi per {feature} non possono superare la quantità ispezionata',
+  'production.measurements.critical': 'Critica',
+  'production.measurements.outOfSpecification': 'Fuori specifica',
+  'production.measurements.serialNumber': 'Numero di serie',
+  'production.measurements.lotNumber': 'Numero di lotto',
+  'production.measurements.batch': 'Carica',
+  'production.measurements.gauge': 'Strumento',
+  'production.measurements.gaugeScanPlaceholder': 'Scansiona o digita l\'ID dello strumento',
+  'production.measurements.selectGauge': 'Seleziona uno strumento',
+  'production.measurements.gaugeRequired': 'Seleziona lo strumento usato per queste misure',
+  'production.measurements.gaugeNotFound': 'Nessuno strumento con ID {code}',
+  'production.measurements.gaugeOverdue': 'Lo strumento {code} doveva essere tarato il {date} e non può essere usato',
+  'production.measurements.gaugeInactive': 'Lo strumento {code} non è in servizio',
+  'production.measurements.gaugeCalibrationDue': 'taratura entro il {date}',
+  'production.measurements.gaugeOutOfRange': 'Il valore di {feature} è fuori dal campo dello strumento {code}',
+  'production.ocap.title': 'Reazione richiesta',
+  'production.ocap.description': 'Questi valori sono fuori limite. Scegliere una causa e l\'azione correttiva eseguita prima di registrarli.',
+  'production.ocap.aboveUsl': 'Sopra il limite superiore di specifica ({limit})',
+  'production.ocap.belowLsl': 'Sotto il limite inferiore di specifica ({limit})',
+  'production.ocap.aboveUcl': 'Sopra il limite di controllo superiore ({limit})',
+  'production.ocap.belowLcl': 'Sotto il limite di controllo inferiore ({limit})',
+  'production.ocap.cause': 'Causa',
+  'production.ocap.action': 'Azione correttiva',
+  'production.ocap.selectCause': 'Selezionare una causa',
+  'production.ocap.selectAction': 'Selezionare un\'azione',
+  'production.ocap.comment': 'Commento (facoltativo)',
+  'production.ocap.confirm': 'Registra con la reazione',
+  'production.ocap.correctValues': 'Correggi i valori',
+  'production.ocap.recorded': '{count} non conformità registrate e segnalate',
+  'production.ocap.cause.TOOL': 'Usura o rottura utensile',
+  'production.ocap.cause.SETUP': 'Errore di piazzamento o correttore',
+  'production.ocap.cause.MATERIAL': 'Materiale o pezzo in ingresso',
+  'production.ocap.cause.GAUGE': 'Errore di misura o di strumento',
+  'production.ocap.cause.METHOD': 'Operatore o metodo',
+  'production.ocap.cause.OTHER': 'Altra o sconosciuta',
+  'production.ocap.action.ADJUST': 'Regolare il processo e rimisurare',
+  'production.ocap.action.QUARANTINE': 'Mettere in quarantena i pezzi dall\'ultimo controllo buono',
+  'production.ocap.action.STOP': 'Fermare la linea e chiamare il responsabile',
+  'production.ocap.action.RECHECK': 'Rimisurare per confermare il valore',
+  'production.measurements.subgroup': 'Sottogruppo',
+  'production.measurements.newSubgroup': 'Nuovo sottogruppo',
   'production.measurements.operator': 'Operatore',
   'production.measurements.enterOperatorName': 'Inserisci nome operatore',
   'production.measurements.notesOptional': 'Note (Opzionale)',
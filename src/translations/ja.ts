@@ -9,6 +9,15 @@ export const ja = {
   'nav.gammas': 'ガンマ',
   'nav.routes': 'ルート',
   'nav.measurements': '測定',
+  'nav.capabilityReport': '工程能力レポート',
+  'nav.gageRR': 'ゲージR&R',
+  'nav.gauges': '測定器',
+  'nav.reactionPlans': '対応計画',
+  'nav.notificationRules': 'アラートルール',
+  'nav.inspectionPlans': '検査頻度',
+  'nav.controlPlans': 'コントロールプラン',
+  'nav.ncr': '不適合報告 (NCR)',
+  'nav.plantWideView': '工場全体表示',
   'nav.users': 'ユーザー',
   'nav.database': 'データベース',
   'nav.storage': 'ストレージ',
@@ -62,6 +71,35 @@ export const ja = {
   'dashboard.welcome.prodSubtitle': '生産ワークステーションと測定入力',
   'dashboard.welcome.default': 'SPCシステムへようこそ',
   'dashboard.welcome.defaultSubtitle': '統計的プロセス制御ダッシュボード',
+  'dashboard.widgets.keyFigures': '主要指標',
+  'dashboard.widgets.workshops': '作業場',
+  'dashboard.widgets.recentMeasurements': '最近の測定',
+  'dashboard.widgets.controlChart': '管理図',
+  'dashboard.widgets.cpkHeatmap': '作業ステーション別 Cpk',
+  'dashboard.widgets.outOfControl': '管理外れ',
+  'dashboard.widgets.overdueInspections': '期限の検査',
+  'dashboard.widgets.recentNcrs': '未完了の不適合報告',
+  'dashboard.widgets.pendingValidations': '承認待ち',
+  'dashboard.widgets.quickActions': 'クイック操作',
+  'dashboard.layout.customize': 'カスタマイズ',
+  'dashboard.layout.addWidget': 'ウィジェットを追加…',
+  'dashboard.layout.save': 'レイアウトを保存',
+  'dashboard.layout.cancel': 'キャンセル',
+  'dashboard.layout.reset': '既定に戻す',
+  'dashboard.layout.saveRoleDefault': 'ロールの既定として保存',
+  'dashboard.layout.saved': 'ダッシュボードを保存しました',
+  'dashboard.layout.roleSaved': '{role} の既定ダッシュボードを保存しました',
+  'dashboard.layout.resetDone': 'ダッシュボードを既定に戻しました',
+  'dashboard.layout.saveError': 'ダッシュボードを保存できませんでした',
+  'dashboard.layout.empty': 'ダッシュボードは空です。カスタマイズからウィジェットを追加してください。',
+  'dashboard.layout.drag': 'ドラッグして移動',
+  'dashboard.layout.width': '幅',
+  'dashboard.layout.height': '高さ',
+  'dashboard.layout.settings': 'ウィジェット設定',
+  'dashboard.layout.remove': 'ウィジェットを削除',
+  'dashboard.layout.feature': '特性を選択…',
+  'dashboard.layout.points': '直近 {count} 件',
+  'dashboard.layout.days': '直近 {count} 日',
   
   // Auth
   'auth.login': 'ログイン',
@@ -133,6 +171,13 @@ export const ja = {
   'ui.notifications.markAllReadError': 'すべての通知を既読にするのに失敗しました',
   'ui.notifications.noNotifications': '通知なし',
   'ui.notifications.allCaughtUp': 'すべて最新です！新しい通知はありません。',
+  'ui.notifications.acknowledge': '確認する',
+  'ui.notifications.acknowledged': 'アラートを確認しました',
+  'ui.notifications.acknowledgedLabel': '確認済み',
+  'ui.notifications.acknowledgeError': 'アラートを確認できませんでした',
+  'ui.notifications.severity.info': '情報',
+  'ui.notifications.severity.warning': '警告',
+  'ui.notifications.severity.critical': '重大',
   
   // Breadcrumbs
   'ui.breadcrumb.home': 'ダッシュボード',
@@ -144,6 +189,14 @@ export const ja = {
   'ui.breadcrumb.features': '特徴',
   'ui.breadcrumb.gammas': 'ガンマ',
   'ui.breadcrumb.measurements': '測定',
+  'ui.breadcrumb.capability': '工程能力レポート',
+  'ui.breadcrumb.gageRR': 'ゲージR&R',
+  'ui.breadcrumb.gauges': '測定器',
+  'ui.breadcrumb.reactionPlans': '対応計画',
+  'ui.breadcrumb.notificationRules': 'アラートルール',
+  'ui.breadcrumb.inspectionPlans': '検査頻度',
+  'ui.breadcrumb.controlPlans': 'コントロールプラン',
+  'ui.breadcrumb.ncr': '不適合報告',
   'ui.breadcrumb.users': 'ユーザー',
   'ui.breadcrumb.groups': 'グループ',
   'ui.breadcrumb.registrationCodes': '登録コード',
@@ -154,6 +207,22 @@ export const ja = {
   'ui.breadcrumb.systemSettings': 'システム設定',
   'ui.breadcrumb.databaseCrud': 'データベースCRUD',
   'ui.breadcrumb.translations': '翻訳',
+  'ui.controlChart.title': '管理図',
+  'ui.controlChart.feature': '特性: {name}',
+  'ui.controlChart.chartType': '管理図の種類',
+  'ui.controlChart.subgroupSize': 'サブグループサイズ',
+  'ui.controlChart.recordedSubgroups': '記録済みサブグループ',
+  'ui.controlChart.resetZoom': 'ズームをリセット',
+  'ui.controlChart.zoomHint': '管理図または下の概要をドラッグして期間を拡大します。',
+  'ui.controlChart.notEnoughData': 'この管理図を描画するためのデータが不足しています。',
+  'ui.controlChart.notEnoughDataHint': '少なくとも2点（または完全なサブグループ2つ）が必要です。',
+  'ui.controlChart.ruleViolations': 'ルール違反',
+  'ui.controlChart.noViolations': 'ルール違反は検出されませんでした。',
+  'ui.controlChart.pointCount': '{count} 点',
+  'ui.controlChart.beyondLimits': '{chart}: 管理限界外の点 {count} 点',
+  'ui.controlChart.loadError': '測定値の読み込みに失敗しました',
+  'ui.controlChart.operator': '作業者: {name}',
+  'ui.controlChart.notes': 'メモ: {notes}',
   
   // Production
   'production.dashboard.loadError': 'ダッシュボードデータの読み込みに失敗しました',
@@ -173,6 +242,28 @@ export const ja = {
   'production.dashboard.noFavoritesDescription': 'クイックアクセスのためにワークショップ、ワークステーション、ルートをお気に入りに追加してください。',
   'production.dashboard.navigatePreferences': 'お気に入りを追加するためにユーザー設定に移動',
   'production.dashboard.manageFavorites': 'お気に入り管理',
+  'production.inspection.title': '検査キュー',
+  'production.inspection.summary': '期限超過 {overdue} 件、実施時期 {due} 件',
+  'production.inspection.noWorkstation': 'ワークステーションを選択すると、実施すべき検査が表示されます。',
+  'production.inspection.empty': 'このワークステーションには検査頻度が設定されていません。',
+  'production.inspection.state.overdue': '期限超過',
+  'production.inspection.state.due': '実施時期',
+  'production.inspection.state.ok': '予定どおり',
+  'production.inspection.trigger.parts': '{value} 個ごと',
+  'production.inspection.trigger.minutes': '{value} 分ごと',
+  'production.inspection.trigger.shift-start': 'シフト開始時',
+  'production.inspection.trigger.tool-change': '工具交換後',
+  'production.inspection.sample': '{count} 個',
+  'production.inspection.dueSince': '{time} から実施時期',
+  'production.inspection.nextAt': '次回 {time}',
+  'production.inspection.partsRemaining': '残り {count} 個',
+  'production.inspection.waiting': 'トリガー待ち',
+  'production.inspection.partsProduced': '個数',
+  'production.inspection.addParts': '生産数を登録',
+  'production.inspection.toolChange': '工具交換',
+  'production.inspection.shiftStart': 'シフト開始',
+  'production.inspection.eventRecorded': '生産イベントを記録しました',
+  'production.inspection.eventError': '生産イベントを記録できませんでした',
   'production.measurements.loadError': 'データの読み込みに失敗しました',
   'production.measurements.selectProductRoute': '製品とルートを選択してください',
   'production.measurements.enterMeasurement': '少なくとも1つの測定値を入力してください',
@@ -200,6 +291,52 @@ export const ja = {
   'production.measurements.saveAsTemplate': 'テンプレートとして保存',
   'production.measurements.noFeaturesAvailable': 'この製品に利用可能な特徴がありません',
   'production.measurements.enterValue': '値を入力',
+  'production.measurements.attributeDefectives': '合否',
+  'production.measurements.attributeDefects': '欠点数',
+  'production.measurements.inspectedQuantity': '検査数',
+  'production.measurements.defectiveCount': '不良品数',
+  'production.measurements.defectCount': '検出欠点数',
+  'production.measurements.defectivesExceedSample': '{feature} の不良品数は検査数を超えられません',
+  'production.measurements.critical': '重要',
+  'production.measurements.outOfSpecification': '規格外',
+  'production.measurements.serialNumber': 'シリアル番号',
+  'production.measurements.lotNumber': 'ロット番号',
+  'production.measurements.batch': 'バッチ',
+  'production.measurements.gauge': '測定器',
+  'production.measurements.gaugeScanPlaceholder': '測定器IDをスキャンまたは入力',
+  'production.measurements.selectGauge': '測定器を選択',
+  'production.measurements.gaugeRequired': 'この測定に使用した測定器を選択してください',
+  'production.measurements.gaugeNotFound': 'ID {code} の測定器はありません',
+  'production.measurements.gaugeOverdue': '測定器 {code} は {date} に校正期限を過ぎているため使用できません',
+  'production.measurements.gaugeInactive': '測定器 {code} は使用停止中です',
+  'production.measurements.gaugeCalibrationDue': '校正期限 {date}',
+  'production.measurements.gaugeOutOfRange': '{feature} の値が測定器 {code} の測定範囲外です',
+  'production.ocap.title': '対応が必要です',
+  'production.ocap.description': 'これらの値は限界を外れています。記録する前に原因と実施した是正処置を選択してください。',
+  'production.ocap.aboveUsl': '上限規格値（{limit}）を超えています',
+  'production.ocap.belowLsl': '下限規格値（{limit}）を下回っています',
+  'production.ocap.aboveUcl': '上方管理限界（{limit}）を超えています',
+  'production.ocap.belowLcl': '下方管理限界（{limit}）を下回っています',
+  'production.ocap.cause': '原因',
+  'production.ocap.action': '是正処置',
+  'production.ocap.selectCause': '原因を選択',
+  'production.ocap.selectAction': '処置を選択',
+  'production.ocap.comment': 'コメント（任意）',
+  'production.ocap.confirm': '対応とともに記録',
+  'production.ocap.correctValues': '値を修正',
+  'production.ocap.recorded': '{count} 件の不適合を記録し報告しました',
+  'production.ocap.cause.TOOL': '工具の摩耗・破損',
+  'production.ocap.cause.SETUP': '段取り・オフセットの誤り',
+  'production.ocap.cause.MATERIAL': '材料・受入部品',
+  'production.ocap.cause.GAUGE': '測定・測定器の誤り',
+  'production.ocap.cause.METHOD': '作業者・方法',
+  'production.ocap.cause.OTHER': 'その他・不明',
+  'production.ocap.action.ADJUST': '工程を調整して再測定',
+  'production.ocap.action.QUARANTINE': '前回の良品確認以降の部品を隔離',
+  'production.ocap.action.STOP': 'ラインを停止し監督者を呼ぶ',
+  'production.ocap.action.RECHECK': '再測定して値を確認',
+  'production.measurements.subgroup': 'サブグループ',
+  'production.measurements.newSubgroup': '新しいサブグループ',
   'production.measurements.operator': 'オペレーター',
   'production.measurements.enterOperatorName': 'オペレーター名を入力',
   'production.measurements.notesOptional': 'メモ（オプション）',
@@ -9,6 +9,15 @@ export const pt = {
   'nav.gammas': 'Gamas',
   'nav.routes': 'Rotas',
   'nav.measurements': 'Medições',
+  'nav.capabilityReport': 'Relatório de capacidade',
+  'nav.gageRR': 'R&R de medição',
+  'nav.gauges': 'Instrumentos',
+  'nav.reactionPlans': 'Planos de reação',
+  'nav.notificationRules': 'Regras de alerta',
+  'nav.inspectionPlans': 'Frequências de inspeção',
+  'nav.controlPlans': 'Planos de controle',
+  'nav.ncr': 'Não conformidades (RNC)',
+  'nav.plantWideView': 'Vista de toda a fábrica',
   'nav.users': 'Usuários',
   'nav.database': 'Base de Dados',
   'nav.storage': 'Armazenamento',
@@ -62,6 +71,35 @@ export const pt = {
   'dashboard.welcome.prodSubtitle': 'Posto de trabalho de produção e entrada de medições',
   'dashboard.welcome.default': 'Bem-vindo ao Sistema SPC',
   'dashboard.welcome.defaultSubtitle': 'Painel de Controlo Estatístico de Processos',
+  'dashboard.widgets.keyFigures': 'Números-chave',
+  'dashboard.widgets.workshops': 'Oficinas',
+  'dashboard.widgets.recentMeasurements': 'Medições recentes',
+  'dashboard.widgets.controlChart': 'Gráfico de controle',
+  'dashboard.widgets.cpkHeatmap': 'Cpk por posto',
+  'dashboard.widgets.outOfControl': 'Fora de controle',
+  'dashboard.widgets.overdueInspections': 'Inspeções pendentes',
+  'dashboard.widgets.recentNcrs': 'Relatórios de não conformidade abertos',
+  'dashboard.widgets.pendingValidations': 'Validações pendentes',
+  'dashboard.widgets.quickActions': 'Ações rápidas',
+  'dashboard.layout.customize': 'Personalizar',
+  'dashboard.layout.addWidget': 'Adicionar widget…',
+  'dashboard.layout.save': 'Salvar layout',
+  'dashboard.layout.cancel': 'Cancelar',
+  'dashboard.layout.reset': 'Restaurar padrão',
+  'dashboard.layout.saveRoleDefault': 'Salvar como padrão da função',
+  'dashboard.layout.saved': 'Painel salvo',
+  'dashboard.layout.roleSaved': 'Painel padrão salvo para {role}',
+  'dashboard.layout.resetDone': 'Painel restaurado para o padrão',
+  'dashboard.layout.saveError': 'Não foi possível salvar o painel',
+  'dashboard.layout.empty': 'Seu painel está vazio. Use Personalizar para adicionar widgets.',
+  'dashboard.layout.drag': 'Arraste para mover',
+  'dashboard.layout.width': 'Largura',
+  'dashboard.layout.height': 'Altura',
+  'dashboard.layout.settings': 'Configurações do widget',
+  'dashboard.layout.remove': 'Remover widget',
+  'dashboard.layout.feature': 'Escolher uma característica…',
+  'dashboard.layout.points': 'Últimos {count} valores',
+  'dashboard.layout.days': 'Últimos {count} dia(s)',
   
   // Auth
   'auth.login': 'Entrar',
@@ -133,6 +171,13 @@ export const pt = {
   'ui.notifications.markAllReadError': 'Erro ao marcar todas as notificações como lidas',
   'ui.notifications.noNotifications': 'Nenhuma notificação',
   'ui.notifications.allCaughtUp': 'Está em dia! Nenhuma nova notificação.',
+  'ui.notifications.acknowledge': 'Confirmar',
+  'ui.notifications.acknowledged': 'Alerta confirmado',
+  'ui.notifications.acknowledgedLabel': 'Confirmado',
+  'ui.notifications.acknowledgeError': 'Falha ao confirmar o alerta',
+  'ui.notifications.severity.info': 'info',
+  'ui.notifications.severity.warning': 'aviso',
+  'ui.notifications.severity.critical': 'crítico',
   
   // Breadcrumbs
   'ui.breadcrumb.home': 'Painel',
@@ -144,6 +189,14 @@ export const pt = {
   'ui.breadcrumb.features': 'Características',
   'ui.breadcrumb.gammas': 'Gamas',
   'ui.breadcrumb.measurements': 'Medições',
+  'ui.breadcrumb.capability': 'Relatório de capacidade',
+  'ui.breadcrumb.gageRR': 'R&R de medição',
+  'ui.breadcrumb.gauges': 'Instrumentos',
+  'ui.breadcrumb.reactionPlans': 'Planos de reação',
+  'ui.breadcrumb.notificationRules': 'Regras de alerta',
+  'ui.breadcrumb.inspectionPlans': 'Frequências de inspeção',
+  'ui.breadcrumb.controlPlans': 'Planos de controle',
+  'ui.breadcrumb.ncr': 'Relatórios de não conformidade',
   'ui.breadcrumb.users': 'Utilizadores',
   'ui.breadcrumb.groups': 'Grupos',
   'ui.breadcrumb.registrationCodes': 'Códigos de Registo',
@@ -154,6 +207,22 @@ export const pt = {
   'ui.breadcrumb.systemSettings': 'Configurações do Sistema',
   'ui.breadcrumb.databaseCrud': 'CRUD Base de Dados',
   'ui.breadcrumb.translations': 'Traduções',
+  'ui.controlChart.title': 'Gráfico de controle',
+  'ui.controlChart.feature': 'Característica: {name}',
+  'ui.controlChart.chartType': 'Tipo de gráfico',
+  'ui.controlChart.subgroupSize': 'Tamanho do subgrupo',
+  'ui.controlChart.recordedSubgroups': 'Subgrupos registrados',
+  'ui.controlChart.resetZoom': 'Redefinir zoom',
+  'ui.controlChart.zoomHint': 'Arraste sobre um gráfico ou sobre a visão geral abaixo para ampliar um intervalo de tempo.',
+  'ui.controlChart.notEnoughData': 'Dados insuficientes para desenhar este gráfico.',
+  'ui.controlChart.notEnoughDataHint': 'São necessários pelo menos dois pontos (ou dois subgrupos completos).',
+  'ui.controlChart.ruleViolations': 'Violações de regras',
+  'ui.controlChart.noViolations': 'Nenhuma violação de regra detectada.',
+  'ui.controlChart.pointCount': '{count} ponto(s)',
+  'ui.controlChart.beyondLimits': '{chart}: {count} ponto(s) fora dos limites de controle',
+  'ui.controlChart.loadError': 'Falha ao carregar as medições',
+  'ui.controlChart.operator': 'Operador: {name}',
+  'ui.controlChart.notes': 'Notas: {notes}',
   
   // Production
   'production.dashboard.loadError': 'Erro ao carregar dados do painel',
@@ -173,6 +242,28 @@ export const pt = {
   'production.dashboard.noFavoritesDescription': 'Comece adicionando laboratórios, postos de trabalho e rotas aos seus favoritos para acesso rápido.',
   'production.dashboard.navigatePreferences': 'Navegar para Preferências do Utilizador para adicionar favoritos',
   'production.dashboard.manageFavorites': 'Gerir Favoritos',
+  'production.inspection.title': 'Fila de inspeção',
+  'production.inspection.summary': '{overdue} atrasadas, {due} pendentes',
+  'production.inspection.noWorkstation': 'Selecione um posto para ver as inspeções pendentes.',
+  'production.inspection.empty': 'Nenhuma frequência de inspeção definida para este posto.',
+  'production.inspection.state.overdue': 'Atrasada',
+  'production.inspection.state.due': 'Pendente',
+  'production.inspection.state.ok': 'Em dia',
+  'production.inspection.trigger.parts': 'A cada {value} peças',
+  'production.inspection.trigger.minutes': 'A cada {value} min',
+  'production.inspection.trigger.shift-start': 'No início do turno',
+  'production.inspection.trigger.tool-change': 'Após troca de ferramenta',
+  'production.inspection.sample': '{count} peça(s)',
+  'production.inspection.dueSince': 'Pendente desde {time}',
+  'production.inspection.nextAt': 'Próxima às {time}',
+  'production.inspection.partsRemaining': 'Faltam {count} peças',
+  'production.inspection.waiting': 'Aguardando o gatilho',
+  'production.inspection.partsProduced': 'Peças',
+  'production.inspection.addParts': 'Peças produzidas',
+  'production.inspection.toolChange': 'Troca de ferramenta',
+  'production.inspection.shiftStart': 'Início de turno',
+  'production.inspection.eventRecorded': 'Evento de produção registrado',
+  'production.inspection.eventError': 'Falha ao registrar o evento',
   'production.measurements.loadError': 'Erro ao carregar dados',
   'production.measurements.selectProductRoute': 'Por favor selecione um produto e uma rota',
   'production.measurements.enterMeasurement': 'Por favor insira pelo menos uma medição',
@@ -200,6 +291,52 @@ export const pt = {
   'production.measurements.saveAsTemplate': 'Guardar como Modelo',
   'production.measurements.noFeaturesAvailable': 'Nenhuma característica disponível para este produto',
   'production.measurements.enterValue': 'Inserir valor',
+  'production.measurements.attributeDefectives': 'passa/não passa',
+  'production.measurements.attributeDefects': 'número de defeitos',
+  'production.measurements.inspectedQuantity': 'Qtd. inspecionada',
+  'production.measurements.defectiveCount': 'Peças defeituosas',
+  'production.measurements.defectCount': 'Defeitos encontrados',
+  'production.measurements.defectivesExceedSample': 'As peças defeituosas de {feature} não podem exceder a quantidade inspecionada',
+  'production.measurements.critical': 'Crítica',
+  'production.measurements.outOfSpecification': 'Fora de especificação',
+  'production.measurements.serialNumber': 'Número de série',
+  'production.measurements.lotNumber': 'Número de lote',
+  'production.measurements.batch': 'Fornada',
+  'production.measurements.gauge': 'Instrumento',
+  'production.measurements.gaugeScanPlaceholder': 'Leia ou digite o ID do instrumento',
+  'production.measurements.selectGauge': 'Selecione um instrumento',
+  'production.measurements.gaugeRequired': 'Selecione o instrumento usado nestas medições',
+  'production.measurements.gaugeNotFound': 'Nenhum instrumento com ID {code}',
+  'production.measurements.gaugeOverdue': 'O instrumento {code} devia ser calibrado em {date} e não pode ser usado',
+  'production.measurements.gaugeInactive': 'O instrumento {code} não está em serviço',
+  'production.measurements.gaugeCalibrationDue': 'calibração em {date}',
+  'production.measurements.gaugeOutOfRange': 'O valor de {feature} está fora da faixa do instrumento {code}',
+  'production.ocap.title': 'Reação necessária',
+  'production.ocap.description': 'Estes valores estão fora dos limites. Escolha uma causa e a ação corretiva tomada antes de registá-los.',
+  'production.ocap.aboveUsl': 'Acima do limite superior de especificação ({limit})',
+  'production.ocap.belowLsl': 'Abaixo do limite inferior de especificação ({limit})',
+  'production.ocap.aboveUcl': 'Acima do limite de controlo superior ({limit})',
+  'production.ocap.belowLcl': 'Abaixo do limite de controlo inferior ({limit})',
+  'production.ocap.cause': 'Causa',
+  'production.ocap.action': 'Ação corretiva',
+  'production.ocap.selectCause': 'Selecione uma causa',
+  'production.ocap.selectAction': 'Selecione uma ação',
+  'production.ocap.comment': 'Comentário (opcional)',
+  'production.ocap.confirm': 'Registar com a reação',
+  'production.ocap.correctValues': 'Corrigir os valores',
+  'production.ocap.recorded': '{count} não conformidade(s) registada(s) e comunicada(s)',
+  'production.ocap.cause.TOOL': 'Desgaste ou quebra de ferramenta',
+  'production.ocap.cause.SETUP': 'Erro de afinação ou compensação',
+  'production.ocap.cause.MATERIAL': 'Material ou peça recebida',
+  'production.ocap.cause.GAUGE': 'Erro de medição ou de instrumento',
+  'production.ocap.cause.METHOD': 'Operador ou método',
+  'production.ocap.cause.OTHER': 'Outra ou desconhecida',
+  'production.ocap.action.ADJUST': 'Ajustar o processo e voltar a medir',
+  'production.ocap.action.QUARANTINE': 'Colocar em quarentena as peças desde o último controlo bom',
+  'production.ocap.action.STOP': 'Parar a linha e chamar o supervisor',
+  'production.ocap.action.RECHECK': 'Voltar a medir para confirmar o valor',
+  'production.measurements.subgroup': 'Subgrupo',
+  'production.measurements.newSubgroup': 'Novo subgrupo',
   'production.measurements.operator': 'Operador',
   'production.measurements.enterOperatorName': 'Inserir nome do operador',
   'production.measurements.notesOptional': 'Notas (Opcional)',
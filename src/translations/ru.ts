@@ -9,6 +9,15 @@ export const ru = {
   'nav.gammas': 'Гаммы',
   'nav.routes': 'Маршруты',
   'nav.measurements': 'Измерения',
+  'nav.capabilityReport': 'Отчёт о воспроизводимости',
+  'nav.gageRR': 'Анализ R&R',
+  'nav.gauges': 'Средства измерений',
+  'nav.reactionPlans': 'Планы реагирования',
+  'nav.notificationRules': 'Правила оповещений',
+  'nav.inspectionPlans': 'Частота контроля',
+  'nav.controlPlans': 'Планы управления',
+  'nav.ncr': 'Несоответствия (NCR)',
+  'nav.plantWideView': 'Весь завод',
   'nav.users': 'Пользователи',
   'nav.database': 'База данных',
   'nav.storage': 'Хранилище',
@@ -62,6 +71,35 @@ export const ru = {
   'dashboard.welcome.prodSubtitle': 'Производственное рабочее место и ввод измерений',
   'dashboard.welcome.default': 'Добро пожаловать в систему SPC',
   'dashboard.welcome.defaultSubtitle': 'Панель статистического контроля процессов',
+  'dashboard.widgets.keyFigures': 'Ключевые показатели',
+  'dashboard.widgets.workshops': 'Цеха',
+  'dashboard.widgets.recentMeasurements': 'Последние измерения',
+  'dashboard.widgets.controlChart': 'Контрольная карта',
+  'dashboard.widgets.cpkHeatmap': 'Cpk по рабочим местам',
+  'dashboard.widgets.outOfControl': 'Вне контроля',
+  'dashboard.widgets.overdueInspections': 'Предстоящие проверки',
+  'dashboard.widgets.recentNcrs': 'Открытые отчёты о несоответствии',
+  'dashboard.widgets.pendingValidations': 'Ожидают подтверждения',
+  'dashboard.widgets.quickActions': 'Быстрые действия',
+  'dashboard.layout.customize': 'Настроить',
+  'dashboard.layout.addWidget': 'Добавить виджет…',
+  'dashboard.layout.save': 'Сохранить макет',
+  'dashboard.layout.cancel': 'Отмена',
+  'dashboard.layout.reset': 'Сбросить по умолчанию',
+  'dashboard.layout.saveRoleDefault': 'Сохранить как стандарт роли',
+  'dashboard.layout.saved': 'Панель сохранена',
+  'dashboard.layout.roleSaved': 'Стандартная панель сохранена для роли {role}',
+  'dashboard.layout.resetDone': 'Панель сброшена по умолчанию',
+  'dashboard.layout.saveError': 'Не удалось сохранить панель',
+  'dashboard.layout.empty': 'Панель пуста. Добавьте виджеты через «Настроить».',
+  'dashboard.layout.drag': 'Перетащите для перемещения',
+  'dashboard.layout.width': 'Ширина',
+  'dashboard.layout.height': 'Высота',
+  'dashboard.layout.settings': 'Настройки виджета',
+  'dashboard.layout.remove': 'Удалить виджет',
+  'dashboard.layout.feature': 'Выберите характеристику…',
+  'dashboard.layout.points': 'Последние {count} значений',
+  'dashboard.layout.days': 'Последние дни: {count}',
   
   // Auth
   'auth.login': 'Вход',
@@ -133,6 +171,13 @@ export const ru = {
   'ui.notifications.markAllReadError': 'Не удалось отметить все уведомления как прочитанные',
   'ui.notifications.noNotifications': 'Нет уведомлений',
   'ui.notifications.allCaughtUp': 'Вы в курсе! Нет новых уведомлений.',
+  'ui.notifications.acknowledge': 'Подтвердить',
+  'ui.notifications.acknowledged': 'Оповещение подтверждено',
+  'ui.notifications.acknowledgedLabel': 'Подтверждено',
+  'ui.notifications.acknowledgeError': 'Не удалось подтвердить оповещение',
+  'ui.notifications.severity.info': 'инфо',
+  'ui.notifications.severity.warning': 'предупреждение',
+  'ui.notifications.severity.critical': 'критично',
   
   // Breadcrumbs
   'ui.breadcrumb.home': 'Панель управления',
@@ -144,6 +189,14 @@ export const ru = {
   'ui.breadcrumb.features': 'Функции',
   'ui.breadcrumb.gammas': 'Гаммы',
   'ui.breadcrumb.measurements': 'Измерения',
+  'ui.breadcrumb.capability': 'Отчёт о воспроизводимости',
+  'ui.breadcrumb.gageRR': 'Анализ R&R',
+  'ui.breadcrumb.gauges': 'Средства измерений',
+  'ui.breadcrumb.reactionPlans': 'Планы реагирования',
+  'ui.breadcrumb.notificationRules': 'Правила оповещений',
+  'ui.breadcrumb.inspectionPlans': 'Частота контроля',
+  'ui.breadcrumb.controlPlans': 'Планы управления',
+  'ui.breadcrumb.ncr': 'Отчёты о несоответствии',
   'ui.breadcrumb.users': 'Пользователи',
   'ui.breadcrumb.groups': 'Группы',
   'ui.breadcrumb.registrationCodes': 'Коды регистрации',
@@ -154,6 +207,22 @@ export const ru = {
   'ui.breadcrumb.systemSettings': 'Системные настройки',
   'ui.breadcrumb.databaseCrud': 'CRUD База данных',
   'ui.breadcrumb.translations': 'Переводы',
+  'ui.controlChart.title': 'Контрольная карта',
+  'ui.controlChart.feature': 'Характеристика: {name}',
+  'ui.controlChart.chartType': 'Тип карты',
+  'ui.controlChart.subgroupSize': 'Размер подгруппы',
+  'ui.controlChart.recordedSubgroups': 'Записанные подгруппы',
+  'ui.controlChart.resetZoom': 'Сбросить масштаб',
+  'ui.controlChart.zoomHint': 'Проведите по карте или по обзору ниже, чтобы увеличить интервал времени.',
+  'ui.controlChart.notEnoughData': 'Недостаточно данных для построения карты.',
+  'ui.controlChart.notEnoughDataHint': 'Требуется не менее двух точек (или двух полных подгрупп).',
+  'ui.controlChart.ruleViolations': 'Нарушения правил',
+  'ui.controlChart.noViolations': 'Нарушений правил не обнаружено.',
+  'ui.controlChart.pointCount': 'точек: {count}',
+  'ui.controlChart.beyondLimits': '{chart}: точек за контрольными границами: {count}',
+  'ui.controlChart.loadError': 'Не удалось загрузить измерения',
+  'ui.controlChart.operator': 'Оператор: {name}',
+  'ui.controlChart.notes': 'Примечания: {notes}',
   
   // Production
   'production.dashboard.loadError': 'Не удалось загрузить данные панели',
@@ -173,6 +242,28 @@ export const ru = {
   'production.dashboard.noFavoritesDescription': 'Начните с добавления цехов, рабочих мест и маршрутов в избранное для быстрого доступа.',
   'production.dashboard.navigatePreferences': 'Перейдите в Пользовательские предпочтения для добавления избранного',
   'production.dashboard.manageFavorites': 'Управление избранным',
+  'production.inspection.title': 'Очередь контроля',
+  'production.inspection.summary': 'просрочено: {overdue}, к выполнению: {due}',
+  'production.inspection.noWorkstation': 'Выберите рабочее место, чтобы увидеть предстоящие проверки.',
+  'production.inspection.empty': 'Для этого рабочего места частота контроля не задана.',
+  'production.inspection.state.overdue': 'Просрочено',
+  'production.inspection.state.due': 'Пора',
+  'production.inspection.state.ok': 'По графику',
+  'production.inspection.trigger.parts': 'Каждые {value} деталей',
+  'production.inspection.trigger.minutes': 'Каждые {value} мин',
+  'production.inspection.trigger.shift-start': 'В начале смены',
+  'production.inspection.trigger.tool-change': 'После смены инструмента',
+  'production.inspection.sample': 'деталей: {count}',
+  'production.inspection.dueSince': 'Пора с {time}',
+  'production.inspection.nextAt': 'Следующая в {time}',
+  'production.inspection.partsRemaining': 'Осталось деталей: {count}',
+  'production.inspection.waiting': 'Ожидание события',
+  'production.inspection.partsProduced': 'Детали',
+  'production.inspection.addParts': 'Изготовлено',
+  'production.inspection.toolChange': 'Смена инструмента',
+  'production.inspection.shiftStart': 'Начало смены',
+  'production.inspection.eventRecorded': 'Производственное событие записано',
+  'production.inspection.eventError': 'Не удалось записать событие',
   'production.measurements.loadError': 'Не удалось загрузить данные',
   'production.measurements.selectProductRoute': 'Пожалуйста, выберите продукт и маршрут',
   'production.measurements.enterMeasurement': 'Пожалуйста, введите хотя бы одно измерение',
@@ -200,6 +291,52 @@ export const ru = {
   'production.measurements.saveAsTemplate': 'Сохранить как шаблон',
   'production.measurements.noFeaturesAvailable': 'Нет доступных функций для этого продукта',
   'production.measurements.enterValue': 'Введите значение',
+  'production.measurements.attributeDefectives': 'годен/не годен',
+  'production.measurements.attributeDefects': 'число дефектов',
+  'production.measurements.inspectedQuantity': 'Проверено шт.',
+  'production.measurements.defectiveCount': 'Дефектные детали',
+  'production.measurements.defectCount': 'Найдено дефектов',
+  'production.measurements.defectivesExceedSample': 'Число дефектных деталей для {feature} не может превышать количество проверенных',
+  'production.measurements.critical': 'Критическая',
+  'production.measurements.outOfSpecification': 'Вне допуска',
+  'production.measurements.serialNumber': 'Серийный номер',
+  'production.measurements.lotNumber': 'Номер партии',
+  'production.measurements.batch': 'Загрузка',
+  'production.measurements.gauge': 'Средство измерения',
+  'production.measurements.gaugeScanPlaceholder': 'Отсканируйте или введите номер СИ',
+  'production.measurements.selectGauge': 'Выберите СИ',
+  'production.measurements.gaugeRequired': 'Выберите СИ, которым выполнены измерения',
+  'production.measurements.gaugeNotFound': 'СИ с номером {code} не найдено',
+  'production.measurements.gaugeOverdue': 'Срок поверки СИ {code} истёк {date}, его нельзя использовать',
+  'production.measurements.gaugeInactive': 'СИ {code} выведено из эксплуатации',
+  'production.measurements.gaugeCalibrationDue': 'поверка до {date}',
+  'production.measurements.gaugeOutOfRange': 'Значение {feature} вне диапазона СИ {code}',
+  'production.ocap.title': 'Требуется реакция',
+  'production.ocap.description': 'Эти значения вне границ. Перед записью выберите причину и выполненное корректирующее действие.',
+  'production.ocap.aboveUsl': 'Выше верхней границы допуска ({limit})',
+  'production.ocap.belowLsl': 'Ниже нижней границы допуска ({limit})',
+  'production.ocap.aboveUcl': 'Выше верхней контрольной границы ({limit})',
+  'production.ocap.belowLcl': 'Ниже нижней контрольной границы ({limit})',
+  'production.ocap.cause': 'Причина',
+  'production.ocap.action': 'Корректирующее действие',
+  'production.ocap.selectCause': 'Выберите причину',
+  'production.ocap.selectAction': 'Выберите действие',
+  'production.ocap.comment': 'Комментарий (необязательно)',
+  'production.ocap.confirm': 'Записать с реакцией',
+  'production.ocap.correctValues': 'Исправить значения',
+  'production.ocap.recorded': 'Зарегистрировано и передано несоответствий: {count}',
+  'production.ocap.cause.TOOL': 'Износ или поломка инструмента',
+  'production.ocap.cause.SETUP': 'Ошибка наладки или коррекции',
+  'production.ocap.cause.MATERIAL': 'Материал или входящая деталь',
+  'production.ocap.cause.GAUGE': 'Ошибка измерения или средства измерения',
+  'production.ocap.cause.METHOD': 'Оператор или метод',
+  'production.ocap.cause.OTHER': 'Другое или неизвестно',
+  'production.ocap.action.ADJUST': 'Подналадить процесс и перемерить',
+  'production.ocap.action.QUARANTINE': 'Изолировать детали после последней годной проверки',
+  'production.ocap.action.STOP': 'Остановить линию и вызвать мастера',
+  'production.ocap.action.RECHECK': 'Перемерить для подтверждения значения',
+  'production.measurements.subgroup': 'Подгруппа',
+  'production.measurements.newSubgroup': 'Новая подгруппа',
   'production.measurements.operator': 'Оператор',
   'production.measurements.enterOperatorName': 'Введите имя оператора',
   'production.measurements.notesOptional': 'Заметки (необязательно)',
@@ -9,6 +9,15 @@ export const zh = {
   'nav.gammas': '伽马',
   'nav.routes': '路线',
   'nav.measurements': '测量',
+  'nav.capabilityReport': '能力分析报告',
+  'nav.gageRR': '量具 R&R',
+  'nav.gauges': '量具',
+  'nav.reactionPlans': '反应计划',
+  'nav.notificationRules': '警报规则',
+  'nav.inspectionPlans': '检验频次',
+  'nav.controlPlans': '控制计划',
+  'nav.ncr': '不合格报告 (NCR)',
+  'nav.plantWideView': '全厂视图',
   'nav.users': '用户',
   'nav.database': '数据库',
   'nav.storage': '存储',
@@ -62,6 +71,35 @@ export const zh = {
   'dashboard.welcome.prodSubtitle': '生产工作站和测量输入',
   'dashboard.welcome.default': '欢迎使用SPC系统',
   'dashboard.welcome.defaultSubtitle': '统计过程控制仪表板',
+  'dashboard.widgets.keyFigures': '关键指标',
+  'dashboard.widgets.workshops': '车间',
+  'dashboard.widgets.recentMeasurements': '最近测量',
+  'dashboard.widgets.controlChart': '控制图',
+  'dashboard.widgets.cpkHeatmap': '各工位 Cpk',
+  'dashboard.widgets.outOfControl': '失控',
+  'dashboard.widgets.overdueInspections': '待检验',
+  'dashboard.widgets.recentNcrs': '未结不合格报告',
+  'dashboard.widgets.pendingValidations': '待审核',
+  'dashboard.widgets.quickActions': '快捷操作',
+  'dashboard.layout.customize': '自定义',
+  'dashboard.layout.addWidget': '添加小部件…',
+  'dashboard.layout.save': '保存布局',
+  'dashboard.layout.cancel': '取消',
+  'dashboard.layout.reset': '恢复默认',
+  'dashboard.layout.saveRoleDefault': '保存为角色默认',
+  'dashboard.layout.saved': '仪表板已保存',
+  'dashboard.layout.roleSaved': '已保存 {role} 的默认仪表板',
+  'dashboard.layout.resetDone': '仪表板已恢复默认',
+  'dashboard.layout.saveError': '无法保存仪表板',
+  'dashboard.layout.empty': '仪表板为空。请使用自定义添加小部件。',
+  'dashboard.layout.drag': '拖动以移动',
+  'dashboard.layout.width': '宽度',
+  'dashboard.layout.height': '高度',
+  'dashboard.layout.settings': '小部件设置',
+  'dashboard.layout.remove': '移除小部件',
+  'dashboard.layout.feature': '选择特性…',
+  'dashboard.layout.points': '最近 {count} 个值',
+  'dashboard.layout.days': '最近 {count} 天',
   
   // Auth
   'auth.login': '登录',
@@ -133,6 +171,13 @@ export const zh = {
   'ui.notifications.markAllReadError': '标记所有通知为已读失败',
   'ui.notifications.noNotifications': '无通知',
   'ui.notifications.allCaughtUp': '您已全部更新！无新通知。',
+  'ui.notifications.acknowledge': '确认',
+  'ui.notifications.acknowledged': '警报已确认',
+  'ui.notifications.acknowledgedLabel': '已确认',
+  'ui.notifications.acknowledgeError': '确认警报失败',
+  'ui.notifications.severity.info': '信息',
+  'ui.notifications.severity.warning': '警告',
+  'ui.notifications.severity.critical': '严重',
   
   // Breadcrumbs
   'ui.breadcrumb.home': '仪表板',
@@ -144,6 +189,14 @@ export const zh = {
   'ui.breadcrumb.features': '特性',
   'ui.breadcrumb.gammas': '伽马',
   'ui.breadcrumb.measurements': '测量',
+  'ui.breadcrumb.capability': '能力分析报告',
+  'ui.breadcrumb.gageRR': '量具 R&R',
+  'ui.breadcrumb.gauges': '量具',
+  'ui.breadcrumb.reactionPlans': '反应计划',
+  'ui.breadcrumb.notificationRules': '警报规则',
+  'ui.breadcrumb.inspectionPlans': '检验频次',
+  'ui.breadcrumb.controlPlans': '控制计划',
+  'ui.breadcrumb.ncr': '不合格报告',
   'ui.breadcrumb.users': '用户',
   'ui.breadcrumb.groups': '组',
   'ui.breadcrumb.registrationCodes': '注册代码',
@@ -154,6 +207,22 @@ export const zh = {
   'ui.breadcrumb.systemSettings': '系统设置',
   'ui.breadcrumb.databaseCrud': '数据库CRUD',
   'ui.breadcrumb.translations': '翻译',
+  'ui.controlChart.title': '控制图',
+  'ui.controlChart.feature': '特性：{name}',
+  'ui.controlChart.chartType': '图表类型',
+  'ui.controlChart.subgroupSize': '子组大小',
+  'ui.controlChart.recordedSubgroups': '已记录的子组',
+  'ui.controlChart.resetZoom': '重置缩放',
+  'ui.controlChart.zoomHint': '在图表或下方概览上拖动以放大某个时间范围。',
+  'ui.controlChart.notEnoughData': '数据不足，无法绘制此图表。',
+  'ui.controlChart.notEnoughDataHint': '至少需要两个点（或两个完整的子组）。',
+  'ui.controlChart.ruleViolations': '规则违反',
+  'ui.controlChart.noViolations': '未检测到规则违反。',
+  'ui.controlChart.pointCount': '{count} 个点',
+  'ui.controlChart.beyondLimits': '{chart}：{count} 个点超出控制限',
+  'ui.controlChart.loadError': '加载测量数据失败',
+  'ui.controlChart.operator': '操作员：{name}',
+  'ui.controlChart.notes': '备注：{notes}',
   
   // Production
   'production.dashboard.loadError': '加载仪表板数据失败',
@@ -173,6 +242,28 @@ export const zh = {
   'production.dashboard.noFavoritesDescription': '开始将车间、工作站和路线添加到您的收藏中以快速访问。',
   'production.dashboard.navigatePreferences': '导航到用户偏好以添加收藏',
   'production.dashboard.manageFavorites': '管理收藏',
+  'production.inspection.title': '检验队列',
+  'production.inspection.summary': '{overdue} 项逾期，{due} 项到期',
+  'production.inspection.noWorkstation': '请选择工位以查看到期的检验。',
+  'production.inspection.empty': '此工位未定义检验频次。',
+  'production.inspection.state.overdue': '已逾期',
+  'production.inspection.state.due': '到期',
+  'production.inspection.state.ok': '按计划',
+  'production.inspection.trigger.parts': '每 {value} 件',
+  'production.inspection.trigger.minutes': '每 {value} 分钟',
+  'production.inspection.trigger.shift-start': '班次开始时',
+  'production.inspection.trigger.tool-change': '换刀后',
+  'production.inspection.sample': '{count} 件',
+  'production.inspection.dueSince': '自 {time} 起到期',
+  'production.inspection.nextAt': '下次 {time}',
+  'production.inspection.partsRemaining': '还剩 {count} 件',
+  'production.inspection.waiting': '等待触发',
+  'production.inspection.partsProduced': '件数',
+  'production.inspection.addParts': '已生产件数',
+  'production.inspection.toolChange': '换刀',
+  'production.inspection.shiftStart': '班次开始',
+  'production.inspection.eventRecorded': '生产事件已记录',
+  'production.inspection.eventError': '记录生产事件失败',
   'production.measurements.loadError': '加载数据失败',
   'production.measurements.selectProductRoute': '请选择产品和路线',
   'production.measurements.enterMeasurement': '请输入至少一个测量值',
@@ -200,6 +291,52 @@ export const zh = {
   'production.measurements.saveAsTemplate': '保存为模板',
   'production.measurements.noFeaturesAvailable': '此产品没有可用特性',
   'production.measurements.enterValue': '输入值',
+  'production.measurements.attributeDefectives': '通/止',
+  'production.measurements.attributeDefects': '缺陷数',
+  'production.measurements.inspectedQuantity': '检验数量',
+  'production.measurements.defectiveCount': '不良品数',
+  'production.measurements.defectCount': '发现缺陷',
+  'production.measurements.defectivesExceedSample': '{feature} 的不良品数不能超过检验数量',
+  'production.measurements.critical': '关键',
+  'production.measurements.outOfSpecification': '超出规格',
+  'production.measurements.serialNumber': '序列号',
+  'production.measurements.lotNumber': '批号',
+  'production.measurements.batch': '批次',
+  'production.measurements.gauge': '量具',
+  'production.measurements.gaugeScanPlaceholder': '扫描或输入量具编号',
+  'production.measurements.selectGauge': '选择量具',
+  'production.measurements.gaugeRequired': '请选择本次测量所用的量具',
+  'production.measurements.gaugeNotFound': '找不到编号为 {code} 的量具',
+  'production.measurements.gaugeOverdue': '量具 {code} 应于 {date} 校准，不能使用',
+  'production.measurements.gaugeInactive': '量具 {code} 未在用',
+  'production.measurements.gaugeCalibrationDue': '校准到期 {date}',
+  'production.measurements.gaugeOutOfRange': '{feature} 的值超出量具 {code} 的量程',
+  'production.ocap.title': '需要处置',
+  'production.ocap.description': '这些数值超出界限。记录前请选择原因和已采取的纠正措施。',
+  'production.ocap.aboveUsl': '高于规格上限（{limit}）',
+  'production.ocap.belowLsl': '低于规格下限（{limit}）',
+  'production.ocap.aboveUcl': '高于控制上限（{limit}）',
+  'production.ocap.belowLcl': '低于控制下限（{limit}）',
+  'production.ocap.cause': '原因',
+  'production.ocap.action': '纠正措施',
+  'production.ocap.selectCause': '选择原因',
+  'production.ocap.selectAction': '选择措施',
+  'production.ocap.comment': '备注（可选）',
+  'production.ocap.confirm': '连同处置一起记录',
+  'production.ocap.correctValues': '更正数值',
+  'production.ocap.recorded': '已记录并上报 {count} 条不合格',
+  'production.ocap.cause.TOOL': '刀具磨损或断裂',
+  'production.ocap.cause.SETUP': '调机或补偿错误',
+  'production.ocap.cause.MATERIAL': '材料或来料',
+  'production.ocap.cause.GAUGE': '测量或量具错误',
+  'production.ocap.cause.METHOD': '操作员或方法',
+  'production.ocap.cause.OTHER': '其他或未知',
+  'production.ocap.action.ADJUST': '调整过程并重新测量',
+  'production.ocap.action.QUARANTINE': '隔离自上次合格检验以来的零件',
+  'production.ocap.action.STOP': '停线并通知主管',
+  'production.ocap.action.RECHECK': '重新测量以确认数值',
+  'production.measurements.subgroup': '子组',
+  'production.measurements.newSubgroup': '新子组',
   'production.measurements.operator': '操作员',
   'production.measurements.enterOperatorName': '输入操作员姓名',
   'production.measurements.notesOptional': '备注（可选）',
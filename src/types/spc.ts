@@ -5,6 +5,7 @@ export interface DataPoint {
   value: number;
   subgroup?: number;
   batch?: string;
+  serialNumber?: string;
   operator?: string;
   notes?: string;
 }
@@ -16,6 +17,7 @@ export interface Subgroup {
   timestamp: Date;
   batch?: string;
   operator?: string;
+  dataPointIds?: string[]; // Source points when built from a DataPoint series
 }
 
 export interface ProcessData {
@@ -44,7 +46,25 @@ export type ChartType =
   | 'p-chart' 
   | 'np-chart' 
   | 'c-chart' 
-  | 'u-chart';
+  | 'u-chart'
+  | 'cusum'
+  | 'ewma';
+
+export type AttributeChartType = 'p-chart' | 'np-chart' | 'c-chart' | 'u-chart';
+
+// How a feature is inspected: measured value, go/no-go (defective units)
+// or counted nonconformities (defects)
+export type CharacteristicType = 'variable' | 'defectives' | 'defects';
+
+// One inspected lot for an attribute chart
+export interface AttributeSample {
+  id: string;
+  timestamp: Date;
+  sampleSize: number; // Units (or inspection areas) inspected
+  count: number; // Defective units (p, np) or nonconformities (c, u)
+  batch?: string;
+  operator?: string;
+}
 
 export interface ChartConfig {
   id: string;
@@ -66,6 +86,252 @@ export interface ControlLimits {
   sigmaLevel: number;
 }
 
+// Control chart constants for a subgroup size n (AIAG SPC manual, n = 2..25)
+export interface SpcConstants {
+  n: number;
+  A2: number;
+  A3: number;
+  B3: number;
+  B4: number;
+  D3: number;
+  D4: number;
+  d2: number;
+  c4: number;
+  E2: number;
+}
+
+// Limits for a complete control chart: the location chart (X̄, I, p, np, c, u)
+// and, for variables charts, the matching dispersion chart (R, S, MR)
+export interface ChartLimits {
+  chartType: ChartType;
+  subgroupSize: number; // Nominal subgroup size used for the limits
+  sigma: number; // Within-subgroup (short-term) sigma estimate
+  location: ControlLimits;
+  dispersion?: ControlLimits;
+  locationPoints: number[]; // Plotted statistic per subgroup (X̄, X, p, np, c, u)
+  dispersionPoints: number[]; // Plotted statistic per subgroup (R, S, MR)
+  pointLimits?: ControlLimits[]; // Per-point limits (variable lot sizes, EWMA start-up)
+  secondaryPoints?: number[]; // Lower CUSUM statistic, plotted below zero
+}
+
+// Time-weighted charts for small sustained shifts. k, h and L are in units
+// of sigma; target and sigma default to estimates from the series itself.
+export interface CusumOptions {
+  target?: number;
+  sigma?: number;
+  k?: number; // Reference value (allowance), typically half the shift to detect
+  h?: number; // Decision interval
+}
+
+export interface EwmaOptions {
+  target?: number;
+  sigma?: number;
+  lambda?: number; // Weight of the newest observation (0 < λ ≤ 1)
+  L?: number; // Width of the control limits
+}
+
+export interface TimeWeightedSignal {
+  index: number;
+  direction: 'up' | 'down';
+  estimatedMean: number; // Process mean estimated at the signal
+}
+
+export interface CusumResult {
+  target: number;
+  sigma: number;
+  k: number;
+  h: number;
+  decisionInterval: number; // H = h·σ
+  upper: number[]; // C+ per point
+  lower: number[]; // C− per point
+  signals: TimeWeightedSignal[];
+}
+
+export interface EwmaResult {
+  target: number;
+  sigma: number;
+  lambda: number;
+  L: number;
+  values: number[]; // z per point
+  limits: ControlLimits[]; // Exact (time-varying) limits per point
+  signals: TimeWeightedSignal[];
+}
+
+// Process capability (within-subgroup) and performance (overall) indices.
+// Indices that need a missing spec limit are null.
+export interface ProcessCapability {
+  count: number;
+  mean: number;
+  withinSigma: number; // R̄/d2, S̄/c4 or MR̄/d2
+  overallSigma: number; // Sample standard deviation of all values
+  cp: number | null;
+  cpk: number | null;
+  cpu: number | null;
+  cpl: number | null;
+  pp: number | null;
+  ppk: number | null;
+  ppu: number | null;
+  ppl: number | null;
+  cpm: number | null; // Requires Specifications.target
+  sigma: number; // Sigma level (3·Cpk)
+  ppmAboveUsl: number; // Expected, from the overall normal model
+  ppmBelowLsl: number;
+  ppm: number;
+  ppmWithin: number; // Expected, from the within-subgroup normal model
+  // How the indices were obtained. For transformed methods the indices and
+  // PPM come from the transformed scale; mean and sigmas stay in original units.
+  method?: CapabilityMethod;
+  methodReason?: string;
+  normality?: NormalityTest;
+  transformation?: CapabilityTransformation;
+}
+
+// Non-normal capability (ISO 22514-2)
+export type CapabilityMethod = 'normal' | 'box-cox' | 'johnson' | 'percentile';
+
+export interface NormalityTest {
+  test: 'anderson-darling' | 'shapiro-wilk';
+  statistic: number; // A² (small-sample adjusted) or W
+  pValue: number;
+  alpha: number;
+  isNormal: boolean; // pValue >= alpha
+}
+
+export type JohnsonFamily = 'SB' | 'SL' | 'SU';
+
+export type CapabilityTransformation =
+  | { type: 'box-cox'; lambda: number }
+  | { type: 'johnson'; family: JohnsonFamily; gamma: number; eta: number; epsilon: number; lambda: number };
+
+export interface CapabilityOptions {
+  sigmaMethod?: 'range' | 'stddev';
+  method?: CapabilityMethod | 'auto'; // 'auto' tries normal, Box-Cox, Johnson, then percentile
+  alpha?: number; // Significance level of the normality test
+}
+
+// Capability study report
+export interface IndexInterval {
+  estimate: number;
+  lower: number;
+  upper: number;
+}
+
+export interface CapabilityIntervals {
+  confidence: number; // e.g. 0.95
+  cp: IndexInterval | null;
+  cpk: IndexInterval | null;
+  pp: IndexInterval | null;
+  ppk: IndexInterval | null;
+}
+
+export interface HistogramBin {
+  start: number;
+  end: number;
+  count: number;
+}
+
+export interface ProbabilityPlotPoint {
+  value: number;
+  probability: number; // Plotting position (Blom)
+  z: number; // Standard normal quantile of the plotting position
+}
+
+export interface ObservedPpm {
+  ppmAboveUsl: number;
+  ppmBelowLsl: number;
+  ppm: number;
+}
+
+// Run rules (Nelson / Western Electric) evaluated against control limits
+export type ControlRuleKind =
+  | 'beyond-limits' // Point outside UCL/LCL
+  | 'beyond-zone' // `count` of `window` points beyond `zone`σ on the same side
+  | 'same-side' // `count` points in a row on the same side of the center line
+  | 'trend' // `count` points in a row steadily increasing or decreasing
+  | 'alternating' // `count` points in a row alternating up and down
+  | 'hugging' // `count` points in a row within `zone`σ of the center line
+  | 'mixture'; // `count` points in a row beyond `zone`σ, on both sides of the center line
+
+export interface ControlRule {
+  id: string;
+  name: string;
+  kind: ControlRuleKind;
+  enabled: boolean;
+  count: number;
+  window: number;
+  zone: number;
+}
+
+export interface ControlRuleResult {
+  id: string;
+  rule: string;
+  violated: boolean;
+  points: number[]; // Indices of the offending points
+}
+
+// Measurement system analysis: crossed Gage R&R (AIAG MSA, 4th edition)
+export interface GageRRDesign {
+  parts: number;
+  operators: number;
+  trials: number;
+}
+
+// One reading of a complete study; indices are zero-based
+export interface GageRRReading {
+  part: number;
+  operator: number;
+  trial: number;
+  value: number;
+}
+
+export type GageRRMethod = 'anova' | 'average-range';
+
+export interface GageAnovaRow {
+  source: 'part' | 'operator' | 'interaction' | 'repeatability' | 'total';
+  df: number;
+  ss: number;
+  ms: number;
+  f: number | null;
+  p: number | null;
+}
+
+export interface GageAnova {
+  rows: GageAnovaRow[];
+  // The operator × part interaction is pooled into repeatability when its
+  // p-value exceeds this level
+  interactionAlpha: number;
+  interactionPooled: boolean;
+}
+
+// One source of variation; percentages are null when not defined (no tolerance)
+export interface GageVarianceComponent {
+  source: 'grr' | 'repeatability' | 'reproducibility' | 'operator' | 'interaction' | 'part' | 'total';
+  variance: number;
+  stdDev: number;
+  studyVariation: number; // 6σ
+  percentContribution: number; // Share of the total variance
+  percentStudyVariation: number; // Share of the total standard deviation
+  percentTolerance: number | null;
+}
+
+export interface GageRRResult {
+  method: GageRRMethod;
+  design: GageRRDesign;
+  components: GageVarianceComponent[];
+  ev: number; // Equipment variation (repeatability), as a standard deviation
+  av: number; // Appraiser variation (reproducibility)
+  grr: number;
+  pv: number; // Part variation
+  tv: number; // Total variation
+  percentEV: number;
+  percentAV: number;
+  percentGRR: number;
+  percentPV: number;
+  percentTolerance: number | null; // %GRR of the tolerance
+  ndc: number; // Number of distinct categories; Infinity without gage variation
+  anova?: GageAnova;
+}
+
 // User and Authentication Types
 export interface User {
   id: number;
@@ -140,22 +406,73 @@ export interface Route {
   updated_at: string;
 }
 
-export interface Feature {
+// How a feature's tolerance is expressed: target ± tolerances (nominal),
+// explicit lower/upper limits (range), or a single limit (unilateral)
+export type SpecificationType = 'nominal' | 'range' | 'maximum' | 'minimum';
+
+export type CharacteristicClass = 'critical' | 'major' | 'minor';
+
+// Specification columns of the features table. specification_min/max are
+// always stored resolved so queries can test conformity directly.
+export interface FeatureSpecification {
+  specification_type?: SpecificationType;
+  target_value?: number | null;
+  tolerance_plus?: number | null; // Magnitude above target
+  tolerance_minus?: number | null; // Magnitude below target
+  specification_min?: number | null; // LSL
+  specification_max?: number | null; // USL
+  unit?: string;
+  decimal_places?: number; // Measurement resolution
+  characteristic_class?: CharacteristicClass;
+}
+
+export interface Feature extends FeatureSpecification {
   id: number;
   name: string;
   description?: string;
   route_id?: number;
   product_id?: number;
   workshop_id?: number;
-  specification_min?: number;
-  specification_max?: number;
-  target_value?: number;
-  unit?: string;
+  characteristic_type?: CharacteristicType;
   image_filename?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface AttributeInspection {
+  id: number;
+  feature_id: number;
+  route_id?: number;
+  product_id?: number;
+  sample_size: number;
+  defective_count?: number;
+  defect_count?: number;
+  lot_number?: string;
+  operator_id?: number;
+  workstation_id?: number;
+  workshop_id?: number;
+  sample_id?: number;
+  timestamp: string;
+  notes?: string;
+}
+
+// One inspected part: all values measured on it share the sample
+export interface MeasurementSample {
+  id: number;
+  product_id?: number;
+  route_id?: number;
+  gamma_id?: number;
+  serial_number?: string;
+  lot_number?: string;
+  batch?: string;
+  subgroup_number?: number;
+  operator_id?: number;
+  workstation_id?: number;
+  workshop_id?: number;
+  timestamp: string;
+  notes?: string;
+}
+
 export interface Measurement {
   id: number;
   feature_id: number;
@@ -165,10 +482,369 @@ export interface Measurement {
   operator_id?: number;
   workstation_id?: number;
   workshop_id?: number;
+  sample_id?: number;
+  gauge_id?: number;
   timestamp: string;
   notes?: string;
 }
 
+export type GaugeStatus = 'active' | 'out-of-service' | 'retired';
+
+// A measuring instrument; dates are ISO calendar dates (YYYY-MM-DD)
+export interface Gauge {
+  id: number;
+  code: string; // Gauge ID, as engraved or on its barcode label
+  name: string;
+  gauge_type?: string | null;
+  resolution?: number | null;
+  range_min?: number | null;
+  range_max?: number | null;
+  unit?: string | null;
+  location?: string | null;
+  workshop_id?: number | null;
+  status: GaugeStatus;
+  calibration_interval_days?: number | null;
+  last_calibration_date?: string | null;
+  calibration_due_date?: string | null;
+  due_notified_for?: string | null; // Due date the expiry notification was raised for
+  notes?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type CalibrationResult = 'pass' | 'adjusted' | 'fail';
+
+export interface GaugeCalibration {
+  id: number;
+  gauge_id: number;
+  calibration_date: string;
+  due_date?: string | null;
+  result: CalibrationResult;
+  certificate?: string | null;
+  performed_by?: string | null;
+  notes?: string | null;
+  recorded_by?: number | null;
+  created_at: string;
+}
+
+// Out-of-control action plans (OCAP)
+export type ViolationKind = 'above-usl' | 'below-lsl' | 'above-ucl' | 'below-lcl';
+
+export type ReactionPlanItemKind = 'cause' | 'action';
+
+export interface ReactionPlanItem {
+  id?: number;
+  kind: ReactionPlanItemKind;
+  code: string;
+  description?: string | null;
+  sort_order?: number;
+}
+
+export interface ReactionPlan {
+  id: number;
+  feature_id: number;
+  instructions?: string | null;
+  check_control_limits: boolean | number;
+  created_by?: number | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type NonconformanceStatus = 'open' | 'closed';
+
+export interface Nonconformance {
+  id: number;
+  measurement_id?: number | null;
+  feature_id: number;
+  product_id?: number | null;
+  sample_id?: number | null;
+  violation: ViolationKind;
+  measured_value: number;
+  limit_value?: number | null;
+  cause_code: string;
+  cause_description?: string | null;
+  action_code: string;
+  action_description?: string | null;
+  comment?: string | null;
+  status: NonconformanceStatus;
+  operator_id?: number | null;
+  workstation_id?: number | null;
+  workshop_id?: number | null;
+  created_at: string;
+  closed_at?: string | null;
+  closed_by?: number | null;
+}
+
+// Notification rules for quality events
+export type NotificationEventType = 'control-rule' | 'capability' | 'missed-inspection' | 'calibration-due';
+
+export type NotificationSeverity = 'info' | 'warning' | 'critical';
+
+export type NotificationEventStatus = 'open' | 'acknowledged';
+
+export interface NotificationRule {
+  id: number;
+  name: string;
+  event_type: NotificationEventType;
+  severity: NotificationSeverity;
+  enabled: boolean | number;
+  feature_id?: number | null; // Null watches every feature in scope
+  characteristic_class?: CharacteristicClass | null;
+  workshop_id?: number | null;
+  control_rules?: string | null; // Comma-separated Nelson rule ids
+  threshold?: number | null; // Minimum Cpk, hours of missed checks to look back over or days before calibration
+  window_size?: number | null; // Subgroups (capability) or points (control rules) examined
+  recipient_roles: string; // Comma-separated roles
+  recipient_group_id?: number | null;
+  dedup_minutes: number;
+  escalate_after_minutes?: number | null;
+  escalation_roles?: string | null;
+  created_by?: number | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface NotificationEvent {
+  id: number;
+  rule_id: number;
+  event_key: string;
+  severity: NotificationSeverity;
+  title: string;
+  message: string;
+  feature_id?: number | null;
+  gauge_id?: number | null;
+  workshop_id?: number | null;
+  status: NotificationEventStatus;
+  occurrences: number;
+  escalation_level: number;
+  created_at: string;
+  last_seen_at: string;
+  escalated_at?: string | null;
+  acknowledged_at?: string | null;
+  acknowledged_by?: number | null;
+}
+
+// Inspection frequencies (sampling plan) and their audit trail
+export type InspectionTrigger = 'parts' | 'minutes' | 'shift-start' | 'tool-change';
+
+export interface InspectionFrequency {
+  id: number;
+  feature_id: number;
+  gamma_id?: number | null; // Route operation; null for every operation measuring the feature
+  workstation_id?: number | null; // Null for the feature's own workstation or workshop
+  trigger_type: InspectionTrigger;
+  interval_value?: number | null; // Parts or minutes between checks
+  sample_size: number;
+  grace_minutes: number;
+  active: boolean | number;
+  notes?: string | null;
+  created_by?: number | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+export type ProductionEventType = 'parts' | 'tool-change' | 'shift-start';
+
+export interface ProductionEvent {
+  id: number;
+  workstation_id: number;
+  gamma_id?: number | null;
+  event_type: ProductionEventType;
+  quantity?: number | null;
+  operator_id?: number | null;
+  notes?: string | null;
+  created_at: string;
+}
+
+export type InspectionCheckStatus = 'done' | 'late' | 'missed';
+
+// Control plans (AIAG layout)
+export type ControlPlanPhase = 'prototype' | 'pre-launch' | 'production';
+
+export type ControlPlanStatus = 'draft' | 'released';
+
+export interface ControlPlan {
+  id: number;
+  route_id: number;
+  product_id?: number | null;
+  plan_number: string;
+  phase: ControlPlanPhase;
+  part_number?: string | null;
+  part_name?: string | null;
+  supplier_plant?: string | null;
+  key_contact?: string | null;
+  core_team?: string | null;
+  notes?: string | null;
+  revision: number;
+  status: ControlPlanStatus; // Edits to a released plan open the next revision as a draft
+  revision_date?: string | null;
+  created_by?: number | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+// Texts as printed; the ids only record where a generated line came from
+export interface ControlPlanLine {
+  id?: number;
+  gamma_id?: number | null;
+  feature_id?: number | null;
+  process_number: string;
+  process_name: string;
+  machine: string;
+  characteristic_number: string;
+  product_characteristic: string;
+  process_characteristic: string;
+  special_class: string;
+  specification: string;
+  measurement_technique: string;
+  sample_size: string;
+  frequency: string;
+  control_method: string;
+  reaction_plan: string;
+}
+
+export interface ControlPlanRevision {
+  id: number;
+  plan_id: number;
+  revision: number;
+  change_description: string;
+  snapshot: string; // JSON of the plan and its lines at release
+  released_by?: number | null;
+  released_at: string;
+}
+
+export interface InspectionCheck {
+  id: number;
+  frequency_id: number;
+  feature_id: number;
+  workstation_id: number;
+  due_at: string;
+  status: InspectionCheckStatus;
+  missed_count: number; // Due times a missed row stands for
+  completed_at?: string | null;
+  sample_id?: number | null;
+  operator_id?: number | null;
+  recorded_at: string;
+}
+
+// Nonconformance reports and their corrective actions
+export type NcrStatus = 'open' | 'investigating' | 'action' | 'verified' | 'closed';
+
+export type NcrDisposition = 'scrap' | 'rework' | 'use-as-is' | 'return';
+
+export type NcrSource = 'manual' | 'measurement';
+
+export interface Ncr {
+  id: number;
+  ncr_number: string;
+  title: string;
+  source: NcrSource;
+  status: NcrStatus;
+  nonconformance_id?: number | null; // Operator reaction it was raised from
+  measurement_id?: number | null;
+  product_id?: number | null;
+  route_id?: number | null;
+  feature_id?: number | null;
+  serial_number?: string | null;
+  lot_number?: string | null;
+  quantity: number;
+  workshop_id?: number | null;
+  workstation_id?: number | null;
+  cause_code?: string | null;
+  cause_description?: string | null;
+  disposition?: NcrDisposition | null;
+  disposition_notes?: string | null;
+  assigned_to?: number | null;
+  due_date?: string | null;
+  team?: string | null; // D1
+  problem_description?: string | null; // D2
+  containment_action?: string | null; // D3
+  five_whys?: string | null; // JSON array of answers, feeds D4
+  root_cause?: string | null; // D4
+  corrective_action?: string | null; // D5
+  verification?: string | null; // D6
+  preventive_action?: string | null; // D7
+  closure_notes?: string | null; // D8
+  created_by?: number | null;
+  created_at: string;
+  updated_at?: string;
+  closed_at?: string | null;
+  closed_by?: number | null;
+}
+
+export interface NcrHistoryEntry {
+  id: number;
+  ncr_id: number;
+  from_status?: NcrStatus | null;
+  to_status: NcrStatus;
+  comment?: string | null;
+  changed_by?: number | null;
+  changed_at: string;
+}
+
+// User-arranged home dashboards
+export type DashboardWidgetType =
+  | 'key-figures'
+  | 'workshops'
+  | 'recent-measurements'
+  | 'control-chart'
+  | 'cpk-heatmap'
+  | 'out-of-control'
+  | 'overdue-inspections'
+  | 'recent-ncrs'
+  | 'pending-validations'
+  | 'quick-actions';
+
+export interface DashboardWidgetConfig {
+  featureId?: number | null; // Control chart
+  points?: number; // Control chart: latest values plotted
+  days?: number; // Cpk heatmap and out-of-control count: period looked back on
+}
+
+export interface DashboardWidget {
+  id: string;
+  type: DashboardWidgetType;
+  width: number; // Columns of the 4-column grid
+  height: number; // Rows, 1 to 3
+  config: DashboardWidgetConfig;
+}
+
+export interface DashboardLayout {
+  widgets: DashboardWidget[];
+}
+
+export type GageStudyStatus = 'open' | 'completed';
+
+export interface GageStudy {
+  id: number;
+  name: string;
+  feature_id: number;
+  gauge: string;
+  part_count: number;
+  operator_count: number;
+  trial_count: number;
+  tolerance?: number | null; // Overrides the feature's specification width
+  status: GageStudyStatus;
+  notes?: string;
+  workshop_id?: number | null;
+  created_by?: number | null;
+  created_at: string;
+  updated_at?: string;
+  completed_at?: string | null;
+}
+
+// A planned reading; the value is null until the operator enters it
+export interface GageStudyReading {
+  id: number;
+  study_id: number;
+  part_number: number; // 1-based, as labelled on the parts
+  operator_id: number;
+  trial: number; // 1-based
+  run_order: number;
+  measured_value: number | null;
+  measured_at?: string | null;
+}
+
 // Utility Types
 export interface ApiResponse<T> {
   success: boolean;
@@ -0,0 +1,61 @@
+import { Gauge } from '../types/spc';
+
+// Calibration dates are calendar dates (YYYY-MM-DD) without a time zone;
+// they are compared in UTC so a due date means the whole day
+
+export type CalibrationState = 'ok' | 'due-soon' | 'overdue' | 'unscheduled';
+
+export const DEFAULT_CALIBRATION_WARNING_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseIsoDate = (date: string): number => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+// Today's date in local time, as the operator reads the calendar
+export const todayIsoDate = (now: Date = new Date()): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+export const addDays = (date: string, days: number): string =>
+  new Date(parseIsoDate(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+// Whole days from `from` to `date`; negative once the date has passed
+export const daysUntil = (date: string, from: string = todayIsoDate()): number =>
+  Math.round((parseIsoDate(date) - parseIsoDate(from)) / DAY_MS);
+
+// A gauge stays valid through its due date and is overdue the day after
+export const getCalibrationState = (
+  gauge: Pick<Gauge, 'calibration_due_date'>,
+  warningDays: number = DEFAULT_CALIBRATION_WARNING_DAYS,
+  today: string = todayIsoDate()
+): CalibrationState => {
+  if (!gauge.calibration_due_date) return 'unscheduled';
+  const days = daysUntil(gauge.calibration_due_date, today);
+  if (days < 0) return 'overdue';
+  return days <= warningDays ? 'due-soon' : 'ok';
+};
+
+// Due date of the next calibration after one done on `calibrationDate`
+export const nextCalibrationDue = (calibrationDate: string, intervalDays?: number | null): string | null =>
+  intervalDays && intervalDays > 0 ? addDays(calibrationDate, intervalDays) : null;
+
+export type GaugeBlockReason = 'inactive' | 'overdue';
+
+// Why measurements may not be taken with a gauge, or null if they may
+export const getGaugeBlockReason = (
+  gauge: Pick<Gauge, 'status' | 'calibration_due_date'>,
+  today: string = todayIsoDate()
+): GaugeBlockReason | null => {
+  if (gauge.status !== 'active') return 'inactive';
+  if (getCalibrationState(gauge, 0, today) === 'overdue') return 'overdue';
+  return null;
+};
+
+// Whether a value lies inside the gauge's measuring range (open ends allowed)
+export const isWithinGaugeRange = (gauge: Pick<Gauge, 'range_min' | 'range_max'>, value: number): boolean =>
+  (gauge.range_min === null || gauge.range_min === undefined || value >= gauge.range_min)
+  && (gauge.range_max === null || gauge.range_max === undefined || value <= gauge.range_max);
@@ -0,0 +1,174 @@
+import { ControlPlan, ControlPlanLine, ControlPlanPhase } from '../types/spc';
+
+export const CONTROL_PLAN_PHASES: { value: ControlPlanPhase; label: string }[] = [
+  { value: 'prototype', label: 'Prototype' },
+  { value: 'pre-launch', label: 'Pre-launch' },
+  { value: 'production', label: 'Production' },
+];
+
+// Columns of the AIAG control plan, in print order
+export const CONTROL_PLAN_COLUMNS: { key: keyof ControlPlanLine; label: string }[] = [
+  { key: 'process_number', label: 'Part / process number' },
+  { key: 'process_name', label: 'Process name / operation description' },
+  { key: 'machine', label: 'Machine, device, jig, tools' },
+  { key: 'characteristic_number', label: 'No.' },
+  { key: 'product_characteristic', label: 'Product' },
+  { key: 'process_characteristic', label: 'Process' },
+  { key: 'special_class', label: 'Special char. class' },
+  { key: 'specification', label: 'Product / process specification / tolerance' },
+  { key: 'measurement_technique', label: 'Evaluation / measurement technique' },
+  { key: 'sample_size', label: 'Size' },
+  { key: 'frequency', label: 'Frequency' },
+  { key: 'control_method', label: 'Control method' },
+  { key: 'reaction_plan', label: 'Reaction plan' },
+];
+
+export const emptyControlPlanLine = (): ControlPlanLine => ({
+  gamma_id: null,
+  feature_id: null,
+  process_number: '',
+  process_name: '',
+  machine: '',
+  characteristic_number: '',
+  product_characteristic: '',
+  process_characteristic: '',
+  special_class: '',
+  specification: '',
+  measurement_technique: '',
+  sample_size: '',
+  frequency: '',
+  control_method: '',
+  reaction_plan: '',
+});
+
+// Chart kept for a characteristic, from its type and the parts per check
+export const controlMethodFor = (characteristicType: string | null | undefined, sampleSize: number | null): string => {
+  if (characteristicType === 'attribute') return 'Attribute chart (p / np)';
+  if (sampleSize !== null && sampleSize > 1) return 'X̄-R chart';
+  return 'I-MR chart';
+};
+
+// What the plan and its lines looked like when a revision was released
+export interface ControlPlanSnapshot {
+  plan: ControlPlan & { route_name?: string; product_name?: string };
+  lines: ControlPlanLine[];
+}
+
+export interface ControlPlanDocumentRevision {
+  revision: number;
+  change_description: string;
+  released_at: string;
+  released_by_name?: string | null;
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const multiline = (value: unknown) => escapeHtml(value).replace(/\n/g, '<br>');
+
+// Self-contained landscape HTML page laid out like the AIAG control plan
+// form, for printing, saving as HTML or converting to PDF
+export const renderControlPlanHtml = (
+  snapshot: ControlPlanSnapshot,
+  revisions: ControlPlanDocumentRevision[]
+): string => {
+  const { plan, lines } = snapshot;
+  const phase = CONTROL_PLAN_PHASES.map(item =>
+    `<span class="phase">${item.value === plan.phase ? '☒' : '☐'} ${escapeHtml(item.label)}</span>`
+  ).join(' ');
+  const field = (label: string, value: unknown) =>
+    `<td><div class="label">${escapeHtml(label)}</div><div class="value">${multiline(value) || '&nbsp;'}</div></td>`;
+
+  const rows = lines.map(line =>
+    `<tr>${CONTROL_PLAN_COLUMNS.map(column => `<td>${multiline(line[column.key])}</td>`).join('')}</tr>`
+  ).join('\n');
+
+  const history = revisions.map(revision =>
+    `<tr><td>${revision.revision}</td><td>${escapeHtml(revision.released_at.slice(0, 10))}</td>` +
+    `<td>${multiline(revision.change_description)}</td><td>${escapeHtml(revision.released_by_name)}</td></tr>`
+  ).join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Control plan ${escapeHtml(plan.plan_number)} rev. ${plan.revision}</title>
+<style>
+  @page { size: A4 landscape; margin: 10mm; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 9pt; color: #000; margin: 0; }
+  h1 { font-size: 14pt; text-align: center; margin: 0 0 6px; }
+  .phases { text-align: center; margin-bottom: 6px; }
+  .phase { margin: 0 12px; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { border: 1px solid #000; padding: 3px 4px; vertical-align: top; }
+  th { background: #e5e7eb; font-size: 8pt; }
+  .header td { width: 25%; }
+  .label { font-size: 7pt; color: #444; }
+  .value { font-weight: bold; min-height: 12px; }
+  .lines { margin-top: 8px; }
+  .lines tr { page-break-inside: avoid; }
+  .history { margin-top: 12px; width: 60%; }
+  .draft { color: #b91c1c; font-weight: bold; text-align: center; margin-bottom: 4px; }
+</style>
+</head>
+<body>
+<h1>Control Plan</h1>
+<div class="phases">${phase}</div>
+${plan.status === 'draft' ? `<div class="draft">DRAFT - revision ${plan.revision} not released</div>` : ''}
+<table class="header">
+  <tr>
+    ${field('Control plan number', plan.plan_number)}
+    ${field('Key contact', plan.key_contact)}
+    ${field('Date (orig.)', plan.created_at.slice(0, 10))}
+    ${field('Date (rev.) / revision', `${plan.revision_date ?? '-'} / ${plan.revision}`)}
+  </tr>
+  <tr>
+    ${field('Part number', plan.part_number)}
+    ${field('Core team', plan.core_team)}
+    ${field('Part name / description', plan.part_name)}
+    ${field('Route', plan.route_name)}
+  </tr>
+  <tr>
+    ${field('Supplier / plant', plan.supplier_plant)}
+    ${field('Product', plan.product_name)}
+    <td colspan="2"><div class="label">Notes</div><div class="value">${multiline(plan.notes) || '&nbsp;'}</div></td>
+  </tr>
+</table>
+<table class="lines">
+  <thead>
+    <tr>
+      <th rowspan="2">Part / process number</th>
+      <th rowspan="2">Process name / operation description</th>
+      <th rowspan="2">Machine, device, jig, tools for mfg.</th>
+      <th colspan="3">Characteristics</th>
+      <th rowspan="2">Special char. class</th>
+      <th colspan="5">Methods</th>
+      <th rowspan="2">Reaction plan</th>
+    </tr>
+    <tr>
+      <th>No.</th><th>Product</th><th>Process</th>
+      <th>Product / process specification / tolerance</th>
+      <th>Evaluation / measurement technique</th>
+      <th>Size</th><th>Freq.</th>
+      <th>Control method</th>
+    </tr>
+  </thead>
+  <tbody>
+${rows}
+  </tbody>
+</table>
+${revisions.length > 0 ? `<table class="history">
+  <thead><tr><th>Rev.</th><th>Date</th><th>Change</th><th>Released by</th></tr></thead>
+  <tbody>
+${history}
+  </tbody>
+</table>` : ''}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,113 @@
+import { DashboardLayout, DashboardWidget, DashboardWidgetConfig, DashboardWidgetType } from '../types/spc';
+
+export const DASHBOARD_COLUMNS = 4;
+export const MAX_WIDGET_HEIGHT = 3;
+
+export interface WidgetDefinition {
+  type: DashboardWidgetType;
+  titleKey: string; // Translation key
+  width: number;
+  height: number;
+  config?: DashboardWidgetConfig;
+}
+
+// Every widget a user can place, with its size when added
+export const WIDGET_DEFINITIONS: WidgetDefinition[] = [
+  { type: 'key-figures', titleKey: 'dashboard.widgets.keyFigures', width: 4, height: 1 },
+  { type: 'workshops', titleKey: 'dashboard.widgets.workshops', width: 2, height: 2 },
+  { type: 'recent-measurements', titleKey: 'dashboard.widgets.recentMeasurements', width: 2, height: 2 },
+  { type: 'control-chart', titleKey: 'dashboard.widgets.controlChart', width: 2, height: 2, config: { featureId: null, points: 50 } },
+  { type: 'cpk-heatmap', titleKey: 'dashboard.widgets.cpkHeatmap', width: 2, height: 2, config: { days: 30 } },
+  { type: 'out-of-control', titleKey: 'dashboard.widgets.outOfControl', width: 1, height: 1, config: { days: 1 } },
+  { type: 'overdue-inspections', titleKey: 'dashboard.widgets.overdueInspections', width: 2, height: 2 },
+  { type: 'recent-ncrs', titleKey: 'dashboard.widgets.recentNcrs', width: 2, height: 2 },
+  { type: 'pending-validations', titleKey: 'dashboard.widgets.pendingValidations', width: 2, height: 1 },
+  { type: 'quick-actions', titleKey: 'dashboard.widgets.quickActions', width: 2, height: 1 },
+];
+
+export const widgetDefinition = (type: DashboardWidgetType): WidgetDefinition | undefined =>
+  WIDGET_DEFINITIONS.find(definition => definition.type === type);
+
+const clamp = (value: unknown, lowest: number, highest: number, fallback: number): number => {
+  const number = Math.round(Number(value));
+  return Number.isFinite(number) ? Math.min(highest, Math.max(lowest, number)) : fallback;
+};
+
+let nextId = 0;
+const widgetId = (type: DashboardWidgetType) => `${type}-${Date.now().toString(36)}-${nextId++}`;
+
+export const createWidget = (type: DashboardWidgetType): DashboardWidget => {
+  const definition = widgetDefinition(type);
+  return {
+    id: widgetId(type),
+    type,
+    width: definition?.width ?? 2,
+    height: definition?.height ?? 1,
+    config: { ...definition?.config },
+  };
+};
+
+// Grows or shrinks a widget by one step, within the grid
+export const resizeWidget = (widget: DashboardWidget, dimension: 'width' | 'height', step: number): DashboardWidget => ({
+  ...widget,
+  [dimension]: clamp(widget[dimension] + step, 1, dimension === 'width' ? DASHBOARD_COLUMNS : MAX_WIDGET_HEIGHT, widget[dimension]),
+});
+
+// Stored layouts are user data: unknown widgets are dropped and sizes
+// brought back into the grid, so an old or hand-edited value still renders
+export const parseLayout = (value: string | null | undefined): DashboardLayout | null => {
+  if (!value) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return null;
+  }
+  const widgets = (parsed as { widgets?: unknown })?.widgets;
+  if (!Array.isArray(widgets)) return null;
+
+  return {
+    widgets: widgets
+      .filter(widget => widget && widgetDefinition(widget.type))
+      .map((widget): DashboardWidget => {
+        const definition = widgetDefinition(widget.type) as WidgetDefinition;
+        return {
+          id: typeof widget.id === 'string' && widget.id ? widget.id : widgetId(widget.type),
+          type: widget.type,
+          width: clamp(widget.width, 1, DASHBOARD_COLUMNS, definition.width),
+          height: clamp(widget.height, 1, MAX_WIDGET_HEIGHT, definition.height),
+          config: { ...definition.config, ...(typeof widget.config === 'object' ? widget.config : {}) },
+        };
+      }),
+  };
+};
+
+const layoutOf = (...items: [DashboardWidgetType, number?, number?][]): DashboardLayout => ({
+  widgets: items.map(([type, width, height], index) => ({
+    ...createWidget(type),
+    id: `${type}-${index}`,
+    ...(width ? { width } : {}),
+    ...(height ? { height } : {}),
+  })),
+});
+
+// What each role sees until an administrator sets a default or the user
+// arranges their own dashboard
+export const BUILT_IN_LAYOUTS: Record<string, DashboardLayout> = {
+  admin: layoutOf(['key-figures'], ['workshops'], ['pending-validations', 2, 2], ['recent-ncrs'], ['out-of-control', 2, 2]),
+  method: layoutOf(['workshops'], ['cpk-heatmap'], ['overdue-inspections'], ['recent-ncrs']),
+  controle: layoutOf(['out-of-control'], ['overdue-inspections', 3, 1], ['cpk-heatmap'], ['recent-ncrs'], ['recent-measurements', 4, 2]),
+  prod: layoutOf(['quick-actions'], ['out-of-control', 2, 1], ['overdue-inspections'], ['recent-measurements']),
+};
+
+export const builtInLayout = (role: string): DashboardLayout =>
+  BUILT_IN_LAYOUTS[role] ?? layoutOf(['key-figures'], ['recent-measurements', 4, 2]);
+
+// Cell colour of the capability heatmap
+export const cpkColor = (value: number | null): string => {
+  if (value === null) return 'bg-gray-100 text-gray-400 dark:bg-gray-700 dark:text-gray-500';
+  if (value >= 1.67) return 'bg-green-500 text-white';
+  if (value >= 1.33) return 'bg-green-200 text-green-900';
+  if (value >= 1.0) return 'bg-yellow-200 text-yellow-900';
+  return 'bg-red-500 text-white';
+};
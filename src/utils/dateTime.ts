@@ -0,0 +1,13 @@
+// SQLite stores CURRENT_TIMESTAMP as UTC text ('YYYY-MM-DD HH:MM:SS'); these
+// convert between that text and Date, which `new Date(text)` would read as
+// local time
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Local wall-clock time to the UTC text format SQLite's CURRENT_TIMESTAMP produces
+export const toSqlTimestamp = (date: Date) => {
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+};
+
+// SQLite CURRENT_TIMESTAMP text (UTC) to a Date
+export const fromSqlTimestamp = (timestamp: string) => new Date(`${timestamp.replace(' ', 'T')}Z`);
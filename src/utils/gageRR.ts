@@ -0,0 +1,302 @@
+import {
+  GageAnova,
+  GageAnovaRow,
+  GageRRDesign,
+  GageRRReading,
+  GageRRResult,
+  GageVarianceComponent
+} from '../types/spc';
+import { fDistributionPValue, getSpcConstants, mean } from './statistics';
+
+// Study sizes the Average & Range constants cover
+export const GAGE_LIMITS = {
+  parts: { min: 2, max: 15 },
+  operators: { min: 2, max: 5 },
+  trials: { min: 2, max: 5 },
+};
+
+// AIAG: the interaction term is dropped when it is not significant at 25 %
+export const INTERACTION_ALPHA = 0.25;
+
+// Study variation spans 6σ (AIAG MSA 4th edition)
+const STUDY_VARIATION_MULTIPLIER = 6;
+
+// d2* for a single range of m values (g = 1), the basis of the K2 and K3
+// constants of the Average & Range method
+const D2_STAR: Record<number, number> = {
+  2: 1.41421, 3: 1.91155, 4: 2.23887, 5: 2.48124, 6: 2.67253, 7: 2.82981, 8: 2.96288,
+  9: 3.07794, 10: 3.17905, 11: 3.26909, 12: 3.35016, 13: 3.42378, 14: 3.49116, 15: 3.55333,
+};
+
+// Acceptance of %GRR (of study variation or tolerance): under 10 % the
+// system is acceptable, up to 30 % it may be, above it is not
+export type GageAcceptance = 'acceptable' | 'marginal' | 'unacceptable';
+
+export const assessGage = (percent: number): GageAcceptance => {
+  if (percent < 10) return 'acceptable';
+  if (percent <= 30) return 'marginal';
+  return 'unacceptable';
+};
+
+// Readings arranged as cells[part][operator] = trial values. Throws unless
+// every part, operator and trial has exactly one value.
+export const arrangeGageReadings = (readings: GageRRReading[], design: GageRRDesign): number[][][] => {
+  const cells = Array.from({ length: design.parts }, () =>
+    Array.from({ length: design.operators }, () => Array<number>(design.trials).fill(NaN))
+  );
+  readings.forEach(({ part, operator, trial, value }) => {
+    if (part >= design.parts || operator >= design.operators || trial >= design.trials) {
+      throw new RangeError(`Reading outside the study design (part ${part + 1}, operator ${operator + 1}, trial ${trial + 1})`);
+    }
+    cells[part][operator][trial] = value;
+  });
+
+  const complete = cells.every(row => row.every(cell => cell.every(value => Number.isFinite(value))));
+  if (!complete) {
+    throw new Error('The study is incomplete: every part needs a reading per operator and trial');
+  }
+  return cells;
+};
+
+// Variance components as standard deviations, 6σ spreads and percentages
+const buildComponents = (
+  variances: Partial<Record<GageVarianceComponent['source'], number>>,
+  totalVariance: number,
+  tolerance?: number | null
+): GageVarianceComponent[] => {
+  const totalStdDev = Math.sqrt(totalVariance);
+  const order: GageVarianceComponent['source'][] = ['grr', 'repeatability', 'reproducibility', 'operator', 'interaction', 'part', 'total'];
+
+  return order
+    .filter(source => variances[source] !== undefined)
+    .map(source => {
+      const variance = variances[source] as number;
+      const stdDev = Math.sqrt(variance);
+      const studyVariation = STUDY_VARIATION_MULTIPLIER * stdDev;
+      return {
+        source,
+        variance,
+        stdDev,
+        studyVariation,
+        percentContribution: totalVariance > 0 ? (100 * variance) / totalVariance : 0,
+        percentStudyVariation: totalStdDev > 0 ? (100 * stdDev) / totalStdDev : 0,
+        percentTolerance: tolerance && tolerance > 0 ? (100 * studyVariation) / tolerance : null,
+      };
+    });
+};
+
+const summarize = (
+  method: GageRRResult['method'],
+  design: GageRRDesign,
+  sigmas: { ev: number; av: number; pv: number },
+  components: GageVarianceComponent[],
+  tolerance?: number | null
+): GageRRResult => {
+  const { ev, av, pv } = sigmas;
+  const grr = Math.sqrt(ev * ev + av * av);
+  const tv = Math.sqrt(grr * grr + pv * pv);
+  const percent = (value: number) => (tv > 0 ? (100 * value) / tv : 0);
+
+  return {
+    method,
+    design,
+    components,
+    ev,
+    av,
+    grr,
+    pv,
+    tv,
+    percentEV: percent(ev),
+    percentAV: percent(av),
+    percentGRR: percent(grr),
+    percentPV: percent(pv),
+    percentTolerance: tolerance && tolerance > 0 ? (100 * STUDY_VARIATION_MULTIPLIER * grr) / tolerance : null,
+    // AIAG: ndc = 1.41 · PV / GRR, truncated, at least 1
+    ndc: grr > 0 ? Math.max(1, Math.floor((1.41 * pv) / grr)) : Infinity,
+  };
+};
+
+// Two-way crossed ANOVA with interaction (parts and operators random)
+export const calculateGageAnova = (
+  readings: GageRRReading[],
+  design: GageRRDesign,
+  tolerance?: number | null
+): GageRRResult => {
+  const cells = arrangeGageReadings(readings, design);
+  const { parts: p, operators: o, trials: r } = design;
+
+  const all = cells.flat(2);
+  const grandMean = mean(all);
+  const partMeans = cells.map(row => mean(row.flat()));
+  const operatorMeans = Array.from({ length: o }, (_, j) => mean(cells.flatMap(row => row[j])));
+  const cellMeans = cells.map(row => row.map(cell => mean(cell)));
+
+  const ssTotal = all.reduce((sum, value) => sum + (value - grandMean) ** 2, 0);
+  const ssPart = o * r * partMeans.reduce((sum, value) => sum + (value - grandMean) ** 2, 0);
+  const ssOperator = p * r * operatorMeans.reduce((sum, value) => sum + (value - grandMean) ** 2, 0);
+  const ssError = cells.reduce((sum, row, i) =>
+    sum + row.reduce((rowSum, cell, j) =>
+      rowSum + cell.reduce((cellSum, value) => cellSum + (value - cellMeans[i][j]) ** 2, 0), 0), 0);
+  const ssInteraction = Math.max(0, ssTotal - ssPart - ssOperator - ssError);
+
+  const dfPart = p - 1;
+  const dfOperator = o - 1;
+  const dfInteraction = (p - 1) * (o - 1);
+  const dfError = p * o * (r - 1);
+
+  const msPart = ssPart / dfPart;
+  const msOperator = ssOperator / dfOperator;
+  const msInteraction = ssInteraction / dfInteraction;
+  const msError = ssError / dfError;
+
+  const ratio = (numerator: number, denominator: number) => (denominator > 0 ? numerator / denominator : null);
+  const pValue = (f: number | null, df1: number, df2: number) => (f === null ? null : fDistributionPValue(f, df1, df2));
+
+  const interactionF = ratio(msInteraction, msError);
+  const interactionP = pValue(interactionF, dfInteraction, dfError);
+  const interactionPooled = interactionP !== null && interactionP > INTERACTION_ALPHA;
+
+  let rows: GageAnovaRow[];
+  let repeatability: number;
+  let interaction: number;
+  let operator: number;
+  let part: number;
+
+  if (interactionPooled) {
+    // Reduced model: the interaction joins the repeatability term
+    const ssPooled = ssInteraction + ssError;
+    const dfPooled = dfInteraction + dfError;
+    const msPooled = ssPooled / dfPooled;
+    const partF = ratio(msPart, msPooled);
+    const operatorF = ratio(msOperator, msPooled);
+    rows = [
+      { source: 'part', df: dfPart, ss: ssPart, ms: msPart, f: partF, p: pValue(partF, dfPart, dfPooled) },
+      { source: 'operator', df: dfOperator, ss: ssOperator, ms: msOperator, f: operatorF, p: pValue(operatorF, dfOperator, dfPooled) },
+      { source: 'repeatability', df: dfPooled, ss: ssPooled, ms: msPooled, f: null, p: null },
+    ];
+    repeatability = msPooled;
+    interaction = 0;
+    operator = Math.max(0, (msOperator - msPooled) / (p * r));
+    part = Math.max(0, (msPart - msPooled) / (o * r));
+  } else {
+    const partF = ratio(msPart, msInteraction);
+    const operatorF = ratio(msOperator, msInteraction);
+    rows = [
+      { source: 'part', df: dfPart, ss: ssPart, ms: msPart, f: partF, p: pValue(partF, dfPart, dfInteraction) },
+      { source: 'operator', df: dfOperator, ss: ssOperator, ms: msOperator, f: operatorF, p: pValue(operatorF, dfOperator, dfInteraction) },
+      { source: 'interaction', df: dfInteraction, ss: ssInteraction, ms: msInteraction, f: interactionF, p: interactionP },
+      { source: 'repeatability', df: dfError, ss: ssError, ms: msError, f: null, p: null },
+    ];
+    repeatability = msError;
+    interaction = Math.max(0, (msInteraction - msError) / r);
+    operator = Math.max(0, (msOperator - msInteraction) / (p * r));
+    part = Math.max(0, (msPart - msInteraction) / (o * r));
+  }
+  rows.push({ source: 'total', df: p * o * r - 1, ss: ssTotal, ms: ssTotal / (p * o * r - 1), f: null, p: null });
+
+  const reproducibility = operator + interaction;
+  const grr = repeatability + reproducibility;
+  const total = grr + part;
+  const components = buildComponents({
+    grr,
+    repeatability,
+    reproducibility,
+    operator,
+    ...(interactionPooled ? {} : { interaction }),
+    part,
+    total,
+  }, total, tolerance);
+
+  const anova: GageAnova = { rows, interactionAlpha: INTERACTION_ALPHA, interactionPooled };
+  return {
+    ...summarize('anova', design, {
+      ev: Math.sqrt(repeatability),
+      av: Math.sqrt(reproducibility),
+      pv: Math.sqrt(part),
+    }, components, tolerance),
+    anova,
+  };
+};
+
+// Average & Range method (AIAG MSA 4th edition, K1 = 1/d2, K2 and K3 = 1/d2*)
+export const calculateGageAverageRange = (
+  readings: GageRRReading[],
+  design: GageRRDesign,
+  tolerance?: number | null
+): GageRRResult => {
+  const cells = arrangeGageReadings(readings, design);
+  const { parts: p, operators: o, trials: r } = design;
+  if (!D2_STAR[o] || !D2_STAR[p]) {
+    throw new RangeError(`The Average & Range method supports ${GAGE_LIMITS.parts.min}-${GAGE_LIMITS.parts.max} parts and operators`);
+  }
+
+  const rangeOf = (values: number[]) => Math.max(...values) - Math.min(...values);
+  const averageRange = mean(Array.from({ length: o }, (_, j) => mean(cells.map(row => rangeOf(row[j])))));
+  const operatorMeans = Array.from({ length: o }, (_, j) => mean(cells.flatMap(row => row[j])));
+  const partMeans = cells.map(row => mean(row.flat()));
+
+  const ev = averageRange / getSpcConstants(r).d2;
+  const xDiff = rangeOf(operatorMeans);
+  const av = Math.sqrt(Math.max(0, (xDiff / D2_STAR[o]) ** 2 - (ev * ev) / (p * r)));
+  const pv = rangeOf(partMeans) / D2_STAR[p];
+
+  const grrVariance = ev * ev + av * av;
+  const total = grrVariance + pv * pv;
+  const components = buildComponents({
+    grr: grrVariance,
+    repeatability: ev * ev,
+    reproducibility: av * av,
+    part: pv * pv,
+    total,
+  }, total, tolerance);
+
+  return summarize('average-range', design, { ev, av, pv }, components, tolerance);
+};
+
+export interface GageChartData {
+  // [operator][part]: mean and range of the trials
+  cellMeans: number[][];
+  cellRanges: number[][];
+  partMeans: number[];
+  operatorMeans: number[];
+  grandMean: number;
+  averageRange: number;
+  // X̄ chart limits (X̄̄ ± A2·R̄) and R chart limits (D3·R̄, D4·R̄), trials as subgroup
+  xbarLimits: { lcl: number; center: number; ucl: number };
+  rangeLimits: { lcl: number; center: number; ucl: number };
+  // Individual readings, for the by-part and by-operator plots
+  byPart: number[][];
+  byOperator: number[][];
+}
+
+export const buildGageChartData = (readings: GageRRReading[], design: GageRRDesign): GageChartData => {
+  const cells = arrangeGageReadings(readings, design);
+  const { parts: p, operators: o, trials: r } = design;
+  const constants = getSpcConstants(r);
+
+  const cellMeans = Array.from({ length: o }, (_, j) => cells.map(row => mean(row[j])));
+  const cellRanges = Array.from({ length: o }, (_, j) => cells.map(row => Math.max(...row[j]) - Math.min(...row[j])));
+  const grandMean = mean(cells.flat(2));
+  const averageRange = mean(cellRanges.flat());
+
+  return {
+    cellMeans,
+    cellRanges,
+    partMeans: cells.map(row => mean(row.flat())),
+    operatorMeans: Array.from({ length: o }, (_, j) => mean(cells.flatMap(row => row[j]))),
+    grandMean,
+    averageRange,
+    xbarLimits: {
+      lcl: grandMean - constants.A2 * averageRange,
+      center: grandMean,
+      ucl: grandMean + constants.A2 * averageRange,
+    },
+    rangeLimits: {
+      lcl: constants.D3 * averageRange,
+      center: averageRange,
+      ucl: constants.D4 * averageRange,
+    },
+    byPart: Array.from({ length: p }, (_, i) => cells[i].flat()),
+    byOperator: Array.from({ length: o }, (_, j) => cells.flatMap(row => row[j])),
+  };
+};
@@ -0,0 +1,143 @@
+import { InspectionFrequency, InspectionTrigger } from '../types/spc';
+
+export type InspectionState = 'ok' | 'due' | 'overdue';
+
+export const INSPECTION_TRIGGERS: InspectionTrigger[] = ['parts', 'minutes', 'shift-start', 'tool-change'];
+
+// Triggers counted in parts or minutes need an interval
+export const triggerNeedsInterval = (trigger: InspectionTrigger) => trigger === 'parts' || trigger === 'minutes';
+
+export const TRIGGER_LABELS: Record<InspectionTrigger, string> = {
+  parts: 'Every N parts',
+  minutes: 'Every N minutes',
+  'shift-start': 'At shift start',
+  'tool-change': 'After a tool change',
+};
+
+// English wording used by the admin screens and the control plan
+export const describeInspectionFrequency = (trigger: InspectionTrigger, interval?: number | null): string => {
+  if (trigger === 'parts') return `Every ${interval} parts`;
+  if (trigger === 'minutes') return `Every ${interval} min`;
+  return TRIGGER_LABELS[trigger];
+};
+
+export const DEFAULT_SHIFT_START_TIMES = ['06:00', '14:00', '22:00'];
+
+// "06:00, 14:00,22:00" to sorted HH:MM entries; anything else is dropped
+export const parseShiftTimes = (value?: string | null): string[] => {
+  const times = (value ?? '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => /^([01]\d|2[0-3]):[0-5]\d$/.test(item));
+  return Array.from(new Set(times)).sort();
+};
+
+// Most recent local shift start at or before `now`, looking back to yesterday
+export const latestShiftStart = (times: string[], now: Date): Date | null => {
+  if (times.length === 0) return null;
+  const at = (dayOffset: number, time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate() + dayOffset, hours, minutes);
+  };
+  const today = times.map(time => at(0, time)).filter(start => start <= now);
+  return today.length > 0 ? today[today.length - 1] : at(-1, times[times.length - 1]);
+};
+
+export interface ScheduleInput {
+  frequency: Pick<InspectionFrequency, 'trigger_type' | 'interval_value' | 'grace_minutes'>;
+  // Last check of the feature at the workstation, or when the frequency took effect
+  since: Date;
+  now: Date;
+  // Production events after `since`, oldest first
+  parts: { at: Date; quantity: number }[];
+  toolChanges: Date[];
+  shiftStart: Date | null;
+}
+
+export interface ScheduleStatus {
+  state: InspectionState;
+  dueAt: Date | null;
+  partsRemaining?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const stateAt = (dueAt: Date, graceMinutes: number, now: Date): InspectionState => {
+  if (now < dueAt) return 'ok';
+  return now.getTime() > dueAt.getTime() + graceMinutes * MINUTE_MS ? 'overdue' : 'due';
+};
+
+// When the next check falls due and whether it is late. A check is due
+// from the moment its trigger fires and overdue once the grace period has
+// passed without a measurement.
+export const evaluateSchedule = ({ frequency, since, now, parts, toolChanges, shiftStart }: ScheduleInput): ScheduleStatus => {
+  const interval = frequency.interval_value ?? 0;
+  const grace = frequency.grace_minutes;
+
+  switch (frequency.trigger_type) {
+    case 'minutes': {
+      const dueAt = new Date(since.getTime() + interval * MINUTE_MS);
+      return { state: stateAt(dueAt, grace, now), dueAt };
+    }
+    case 'parts': {
+      let produced = 0;
+      for (const event of parts) {
+        produced += event.quantity;
+        if (produced >= interval) return { state: stateAt(event.at, grace, now), dueAt: event.at };
+      }
+      return { state: 'ok', dueAt: null, partsRemaining: Math.max(interval - produced, 0) };
+    }
+    case 'shift-start':
+      if (shiftStart && shiftStart > since) return { state: stateAt(shiftStart, grace, now), dueAt: shiftStart };
+      return { state: 'ok', dueAt: null };
+    case 'tool-change': {
+      const first = toolChanges.find(at => at > since);
+      return first ? { state: stateAt(first, grace, now), dueAt: first } : { state: 'ok', dueAt: null };
+    }
+  }
+};
+
+export interface Lapse {
+  // First and last due time whose grace period ran out, and how many there were
+  firstDueAt: Date;
+  lastDueAt: Date;
+  count: number;
+}
+
+// The due times since the last check whose grace period ran out, as one
+// gap. Part and minute counts keep falling due while no one measures; the
+// minutes are counted rather than listed, so a long stop stays cheap.
+export const lapseSince = (input: ScheduleInput): Lapse | null => {
+  const { frequency, since, now, parts } = input;
+  const interval = frequency.interval_value ?? 0;
+  const grace = frequency.grace_minutes;
+
+  switch (frequency.trigger_type) {
+    case 'minutes': {
+      if (!(interval > 0)) return null;
+      const first = since.getTime() + interval * MINUTE_MS;
+      const span = now.getTime() - grace * MINUTE_MS - first;
+      if (span <= 0) return null;
+      const count = Math.ceil(span / (interval * MINUTE_MS));
+      return { firstDueAt: new Date(first), lastDueAt: new Date(first + (count - 1) * interval * MINUTE_MS), count };
+    }
+    case 'parts': {
+      if (!(interval > 0)) return null;
+      // A batch crossing several counts at once is a single due time
+      const lapsed: Date[] = [];
+      let produced = 0;
+      let next = interval;
+      for (const event of parts) {
+        produced += event.quantity;
+        if (produced < next) continue;
+        if (stateAt(event.at, grace, now) === 'overdue') lapsed.push(event.at);
+        while (produced >= next) next += interval;
+      }
+      return lapsed.length > 0 ? { firstDueAt: lapsed[0], lastDueAt: lapsed[lapsed.length - 1], count: lapsed.length } : null;
+    }
+    default: {
+      const status = evaluateSchedule(input);
+      return status.state === 'overdue' && status.dueAt ? { firstDueAt: status.dueAt, lastDueAt: status.dueAt, count: 1 } : null;
+    }
+  }
+};
@@ -0,0 +1,131 @@
+import { Ncr, NcrDisposition, NcrStatus } from '../types/spc';
+
+export const NCR_STATUSES: { value: NcrStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'investigating', label: 'Investigating' },
+  { value: 'action', label: 'Action' },
+  { value: 'verified', label: 'Verified' },
+  { value: 'closed', label: 'Closed' },
+];
+
+export const ncrStatusLabel = (status: NcrStatus) =>
+  NCR_STATUSES.find(item => item.value === status)?.label ?? status;
+
+// Each status moves one step forward, or one step back when the work has to
+// be redone; a closed NCR can only be reopened for investigation
+export const NCR_TRANSITIONS: Record<NcrStatus, NcrStatus[]> = {
+  open: ['investigating'],
+  investigating: ['action', 'open'],
+  action: ['verified', 'investigating'],
+  verified: ['closed', 'action'],
+  closed: ['investigating'],
+};
+
+const statusIndex = (status: NcrStatus) => NCR_STATUSES.findIndex(item => item.value === status);
+
+export const isBackwardTransition = (from: NcrStatus, to: NcrStatus) => statusIndex(to) < statusIndex(from);
+
+export const NCR_DISPOSITIONS: { value: NcrDisposition; label: string }[] = [
+  { value: 'scrap', label: 'Scrap' },
+  { value: 'rework', label: 'Rework' },
+  { value: 'use-as-is', label: 'Use as is' },
+  { value: 'return', label: 'Return to supplier' },
+];
+
+export type EightDField =
+  | 'team' | 'problem_description' | 'containment_action' | 'root_cause'
+  | 'corrective_action' | 'verification' | 'preventive_action' | 'closure_notes';
+
+// The 8D report, in discipline order, with the NCR field holding each one
+export const EIGHT_D_SECTIONS: { key: EightDField; code: string; label: string }[] = [
+  { key: 'team', code: 'D1', label: 'Team' },
+  { key: 'problem_description', code: 'D2', label: 'Problem description' },
+  { key: 'containment_action', code: 'D3', label: 'Containment action' },
+  { key: 'root_cause', code: 'D4', label: 'Root cause' },
+  { key: 'corrective_action', code: 'D5', label: 'Corrective action' },
+  { key: 'verification', code: 'D6', label: 'Implementation and verification' },
+  { key: 'preventive_action', code: 'D7', label: 'Preventive action' },
+  { key: 'closure_notes', code: 'D8', label: 'Closure and recognition' },
+];
+
+export const FIVE_WHY_COUNT = 5;
+
+// Stored answers padded to five; anything unreadable counts as unanswered
+export const parseFiveWhys = (value?: string | null): string[] => {
+  let answers: unknown = [];
+  try {
+    answers = JSON.parse(value || '[]');
+  } catch {
+    answers = [];
+  }
+  const list = Array.isArray(answers) ? answers.map(item => String(item ?? '')) : [];
+  return Array.from({ length: FIVE_WHY_COUNT }, (_, index) => list[index] ?? '');
+};
+
+export const serializeFiveWhys = (answers: string[]): string | null => {
+  const trimmed = answers.map(answer => answer.trim());
+  while (trimmed.length > 0 && !trimmed[trimmed.length - 1]) trimmed.pop();
+  return trimmed.length > 0 ? JSON.stringify(trimmed) : null;
+};
+
+const filled = (value: unknown) => typeof value === 'string' ? value.trim().length > 0 : value != null;
+
+// What still has to be filled in before an NCR can move forward to `to`;
+// going back never has prerequisites
+export const missingForStatus = (ncr: Partial<Ncr>, to: NcrStatus): string[] => {
+  const missing: string[] = [];
+  if (to === 'investigating') {
+    if (!filled(ncr.assigned_to)) missing.push('an assignee');
+  }
+  if (to === 'action') {
+    if (!filled(ncr.cause_code)) missing.push('a cause code');
+    if (!filled(ncr.root_cause)) missing.push('the root cause (D4)');
+  }
+  if (to === 'verified') {
+    if (!filled(ncr.corrective_action)) missing.push('the corrective action (D5)');
+    if (!filled(ncr.verification)) missing.push('its verification (D6)');
+  }
+  if (to === 'closed') {
+    if (!filled(ncr.disposition)) missing.push('a disposition');
+  }
+  return missing;
+};
+
+export const formatNcrNumber = (year: number, sequence: number) => `NCR-${year}-${String(sequence).padStart(4, '0')}`;
+
+export interface NcrCauseCount {
+  cause: string;
+  description?: string | null;
+  ncrs: number;
+  quantity: number;
+}
+
+export interface ParetoBar {
+  cause: string;
+  description?: string | null;
+  value: number;
+  percent: number;
+  cumulativePercent: number;
+}
+
+// Causes from the most to the least frequent with their running share; the
+// "vital few" are the bars up to about 80 % cumulative
+export const buildPareto = (rows: NcrCauseCount[], measure: 'ncrs' | 'quantity'): ParetoBar[] => {
+  const total = rows.reduce((sum, row) => sum + row[measure], 0);
+  if (total === 0) return [];
+
+  let running = 0;
+  return [...rows]
+    .filter(row => row[measure] > 0)
+    .sort((a, b) => b[measure] - a[measure] || a.cause.localeCompare(b.cause))
+    .map(row => {
+      running += row[measure];
+      return {
+        cause: row.cause,
+        description: row.description,
+        value: row[measure],
+        percent: (row[measure] / total) * 100,
+        cumulativePercent: (running / total) * 100,
+      };
+    });
+};
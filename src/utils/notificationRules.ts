@@ -0,0 +1,83 @@
+import {
+  ControlRuleResult,
+  DataPoint,
+  FeatureSpecification,
+  NotificationEventType,
+  NotificationSeverity
+} from '../types/spc';
+import {
+  buildSubgroups,
+  calculateProcessCapability,
+  checkNelsonRules,
+  hasRecordedSubgroups,
+  MIN_SUBGROUP_SIZE,
+  NELSON_RULES
+} from './statistics';
+import { getSpecificationLimits } from './specifications';
+import { entryControlLimits } from './reactionPlans';
+
+export const NOTIFICATION_ROLES = ['admin', 'method', 'controle', 'prod'];
+
+export const SEVERITIES: NotificationSeverity[] = ['info', 'warning', 'critical'];
+
+// Defaults offered when a rule is created, per event type
+export const RULE_DEFAULTS: Record<NotificationEventType, { threshold: number | null; windowSize: number | null }> = {
+  'control-rule': { threshold: null, windowSize: 50 },
+  capability: { threshold: 1.33, windowSize: 25 },
+  'missed-inspection': { threshold: 8, windowSize: null },
+  'calibration-due': { threshold: 14, windowSize: null },
+};
+
+export const DEFAULT_DEDUP_MINUTES = 240;
+
+// Escalated events go out one level higher
+export const escalateSeverity = (severity: NotificationSeverity): NotificationSeverity =>
+  SEVERITIES[Math.min(SEVERITIES.indexOf(severity) + 1, SEVERITIES.length - 1)];
+
+// Roles and rule ids are stored as comma-separated lists
+export const parseList = (value?: string | null): string[] =>
+  (value ?? '').split(',').map(item => item.trim()).filter(Boolean);
+
+export const joinList = (items: string[]): string => items.join(',');
+
+// Run rules broken by the newest point of a series, judged against I-MR
+// limits from the series itself. Patterns that ended before the newest
+// point were reported when they happened.
+export const latestControlRuleViolations = (values: number[], ruleIds: string[]): ControlRuleResult[] => {
+  const limits = entryControlLimits(values);
+  if (!limits) return [];
+
+  const selected = ruleIds.length > 0 ? ruleIds : NELSON_RULES.map(rule => rule.id);
+  const overrides = Object.fromEntries(NELSON_RULES.map(rule => [rule.id, { enabled: selected.includes(rule.id) }]));
+  const last = values.length - 1;
+  return checkNelsonRules(values, limits, overrides).filter(result => result.points.includes(last));
+};
+
+// Cpk over the newest `windowSize` subgroups: the recorded subgroups when
+// there are any of at least two values, individual values otherwise.
+// Non-normal data judged by percentiles has no Cpk, so Ppk stands in.
+// Null until the window holds `minimumSize` subgroups (by default a full
+// window) or when the feature has no limit.
+export const windowCapability = (
+  points: DataPoint[],
+  specification: FeatureSpecification,
+  windowSize: number,
+  minimumSize: number = windowSize
+): { index: 'Cpk' | 'Ppk'; value: number; subgroups: number } | null => {
+  const specifications = getSpecificationLimits(specification);
+  if (specifications.usl === undefined && specifications.lsl === undefined) return null;
+
+  const recorded = hasRecordedSubgroups(points)
+    ? buildSubgroups(points).filter(subgroup => subgroup.values.length >= MIN_SUBGROUP_SIZE)
+    : [];
+  const subgroups = (recorded.length > 0
+    ? recorded
+    : buildSubgroups(points.map(point => ({ ...point, subgroup: undefined })), 1)
+  ).slice(-windowSize);
+  if (subgroups.length < minimumSize) return null;
+
+  // Same automatic model choice as the capability report
+  const { cpk, ppk } = calculateProcessCapability(subgroups, specifications);
+  if (cpk !== null) return { index: 'Cpk', value: cpk, subgroups: subgroups.length };
+  return ppk === null ? null : { index: 'Ppk', value: ppk, subgroups: subgroups.length };
+};
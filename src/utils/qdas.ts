@@ -0,0 +1,230 @@
+// Reader and writer for AQDEF (Q-DAS) transfer files. A .dfq file holds the
+// part and characteristic description (K1xxx, K2xxx) followed by the values
+// (K0xxx); a .dfd/.dfx pair splits the same content into two files.
+
+export interface QdasValue {
+  value: number; // Measured value, or the defect count of an attribute characteristic
+  attribute: number; // K0002 status flags, 0 for a valid value
+  timestamp?: Date;
+  batch?: string;
+  operator?: string;
+  partIdent?: string; // Serial number of the measured part
+  subgroupSize?: number; // Units inspected, for attribute characteristics
+}
+
+export interface QdasCharacteristic {
+  number: string;
+  description: string;
+  attribute: boolean; // K2004 = 1
+  nominal?: number;
+  lowerLimit?: number;
+  upperLimit?: number;
+  lowerAllowance?: number; // Negative tolerance relative to the nominal
+  upperAllowance?: number;
+  unit?: string;
+  decimalPlaces?: number;
+  characteristicClass?: number; // K2005: 0 unimportant ... 4 critical
+  values: QdasValue[];
+}
+
+export interface QdasPart {
+  number: string;
+  description: string;
+  characteristics: QdasCharacteristic[];
+}
+
+// Field separators of the compact value lines used by .dfx and many .dfq files
+const CHARACTERISTIC_SEPARATOR = '\u000f';
+const FIELD_SEPARATOR = '\u0014';
+
+// Position of each K0xxx field in a compact value line
+const VALUE_LINE_FIELDS = ['K0001', 'K0002', 'K0004', 'K0005', 'K0006', 'K0007', 'K0008', 'K0009', 'K0010', 'K0011', 'K0012'];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// K0004 is the local date and time, written DD.MM.YYYY/HH:MM:SS
+export const formatQdasDate = (date: Date): string => {
+  return `${pad(date.getDate())}.${pad(date.getMonth() + 1)}.${date.getFullYear()}/${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+export const parseQdasDate = (text: string): Date | undefined => {
+  const match = text.trim().match(/^(\d{1,2})\.(\d{1,2})\.(\d{2,4})(?:[/ ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (!match) return undefined;
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  const date = new Date(year, Number(match[2]) - 1, Number(match[1]), Number(match[4] || 0), Number(match[5] || 0), Number(match[6] || 0));
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const parseQdasNumber = (text: string): number | undefined => {
+  const value = Number(text.trim().replace(',', '.'));
+  return text.trim() !== '' && Number.isFinite(value) ? value : undefined;
+};
+
+const formatQdasNumber = (value: number, decimalPlaces?: number): string => {
+  return decimalPlaces !== undefined ? value.toFixed(decimalPlaces) : String(value);
+};
+
+// Newer qs-STAT versions write UTF-8, older ones Windows-1252
+export const decodeQdasFile = (data: Uint8Array): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    return new TextDecoder('windows-1252').decode(data);
+  }
+};
+
+// Written as Latin-1, which every qs-STAT version reads; other characters become '?'
+export const encodeQdasFile = (text: string) => {
+  return Uint8Array.from(text, char => {
+    const code = char.charCodeAt(0);
+    return code < 256 ? code : 63;
+  });
+};
+
+// Free text may not span lines or contain the value line separators
+const UNSAFE_TEXT = new RegExp(`[\\r\\n${CHARACTERISTIC_SEPARATOR}${FIELD_SEPARATOR}]+`, 'g');
+const cleanText = (text: string) => text.replace(UNSAFE_TEXT, ' ').trim();
+
+export const writeDfq = (part: QdasPart): string => {
+  const lines: string[] = [];
+  const field = (key: string, value: string | number | undefined) => {
+    if (value === undefined || value === '') return;
+    lines.push(`${key} ${typeof value === 'string' ? cleanText(value) : value}`);
+  };
+
+  field('K0100', part.characteristics.length);
+  field('K1001', part.number);
+  field('K1002', part.description);
+
+  part.characteristics.forEach((characteristic, index) => {
+    const i = index + 1;
+    const number = (value?: number) => value === undefined ? undefined : formatQdasNumber(value, characteristic.decimalPlaces);
+    field(`K2001/${i}`, characteristic.number);
+    field(`K2002/${i}`, characteristic.description);
+    field(`K2004/${i}`, characteristic.attribute ? 1 : 0);
+    field(`K2005/${i}`, characteristic.characteristicClass);
+    field(`K2022/${i}`, characteristic.decimalPlaces);
+    field(`K2101/${i}`, number(characteristic.nominal));
+    field(`K2110/${i}`, number(characteristic.lowerLimit));
+    field(`K2111/${i}`, number(characteristic.upperLimit));
+    field(`K2112/${i}`, number(characteristic.lowerAllowance));
+    field(`K2113/${i}`, number(characteristic.upperAllowance));
+    field(`K2142/${i}`, characteristic.unit);
+  });
+
+  // Values in K-field notation: a K0001 starts the next value of its characteristic
+  part.characteristics.forEach((characteristic, index) => {
+    const i = index + 1;
+    characteristic.values.forEach(value => {
+      field(`K0001/${i}`, characteristic.attribute ? value.value : formatQdasNumber(value.value, characteristic.decimalPlaces));
+      field(`K0002/${i}`, value.attribute);
+      field(`K0004/${i}`, value.timestamp ? formatQdasDate(value.timestamp) : undefined);
+      field(`K0006/${i}`, value.batch);
+      field(`K0008/${i}`, value.operator);
+      field(`K0014/${i}`, value.partIdent);
+      field(`K0020/${i}`, value.subgroupSize);
+    });
+  });
+
+  return lines.join('\r\n') + '\r\n';
+};
+
+const applyCharacteristicField = (characteristic: QdasCharacteristic, key: string, text: string) => {
+  switch (key) {
+    case 'K2001': characteristic.number = text.trim(); break;
+    case 'K2002': characteristic.description = text.trim(); break;
+    case 'K2004': characteristic.attribute = text.trim() === '1'; break;
+    case 'K2005': characteristic.characteristicClass = parseQdasNumber(text); break;
+    case 'K2022': characteristic.decimalPlaces = parseQdasNumber(text); break;
+    case 'K2101': characteristic.nominal = parseQdasNumber(text); break;
+    case 'K2110': characteristic.lowerLimit = parseQdasNumber(text); break;
+    case 'K2111': characteristic.upperLimit = parseQdasNumber(text); break;
+    case 'K2112': characteristic.lowerAllowance = parseQdasNumber(text); break;
+    case 'K2113': characteristic.upperAllowance = parseQdasNumber(text); break;
+    case 'K2142': characteristic.unit = text.trim(); break;
+  }
+};
+
+const applyValueField = (value: QdasValue, key: string, text: string) => {
+  switch (key) {
+    case 'K0002': value.attribute = parseQdasNumber(text) ?? 0; break;
+    case 'K0004': value.timestamp = parseQdasDate(text); break;
+    case 'K0006': value.batch = text.trim() || undefined; break;
+    case 'K0008': value.operator = text.trim() || undefined; break;
+    case 'K0014': value.partIdent = text.trim() || undefined; break;
+    case 'K0020': value.subgroupSize = parseQdasNumber(text); break;
+  }
+};
+
+// Parse the content of one or more files; pass the .dfd before its .dfx.
+// Characteristics belong to the part declared before them; K-fields without
+// an index refer to the first part or characteristic.
+export const parseQdas = (text: string): QdasPart[] => {
+  const parts: QdasPart[] = [];
+  // Characteristic numbers are global across the parts of a file
+  const characteristics = new Map<number, QdasCharacteristic>();
+  const lastValues = new Map<number, QdasValue>();
+
+  const getPart = (index: number) => {
+    while (parts.length < index) {
+      parts.push({ number: '', description: '', characteristics: [] });
+    }
+    return parts[index - 1];
+  };
+
+  const getCharacteristic = (index: number) => {
+    let characteristic = characteristics.get(index);
+    if (!characteristic) {
+      characteristic = { number: String(index), description: '', attribute: false, values: [] };
+      characteristics.set(index, characteristic);
+      getPart(Math.max(parts.length, 1)).characteristics.push(characteristic);
+    }
+    return characteristic;
+  };
+
+  const addValue = (index: number, valueText: string): QdasValue | undefined => {
+    const value = parseQdasNumber(valueText);
+    if (value === undefined) return undefined;
+    const entry: QdasValue = { value, attribute: 0 };
+    getCharacteristic(index).values.push(entry);
+    lastValues.set(index, entry);
+    return entry;
+  };
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.replace(/\s+$/, '');
+    if (line === '') continue;
+
+    const match = line.match(/^(K\d{4})(?:\/(\d+))?(?:\s(.*))?$/);
+    if (!match) {
+      // Compact value line: one block per characteristic, in order
+      line.split(CHARACTERISTIC_SEPARATOR).forEach((block, blockIndex) => {
+        const fields = block.split(FIELD_SEPARATOR);
+        const entry = addValue(blockIndex + 1, fields[0] ?? '');
+        if (!entry) return;
+        fields.slice(1).forEach((fieldText, fieldIndex) => {
+          applyValueField(entry, VALUE_LINE_FIELDS[fieldIndex + 1], fieldText);
+        });
+      });
+      continue;
+    }
+
+    const [, key, indexText, valueText = ''] = match;
+    const index = indexText ? parseInt(indexText, 10) : 1;
+
+    if (key.startsWith('K1')) {
+      const part = getPart(index);
+      if (key === 'K1001') part.number = valueText.trim();
+      if (key === 'K1002') part.description = valueText.trim();
+    } else if (key.startsWith('K2')) {
+      applyCharacteristicField(getCharacteristic(index), key, valueText);
+    } else if (key === 'K0001') {
+      addValue(index, valueText);
+    } else if (key !== 'K0100') {
+      const entry = lastValues.get(index);
+      if (entry) applyValueField(entry, key, valueText);
+    }
+  }
+
+  return parts.filter(part => part.number !== '' || part.characteristics.length > 0);
+};
@@ -0,0 +1,54 @@
+import { ControlLimits, FeatureSpecification, ReactionPlanItem, ViolationKind } from '../types/spc';
+import { calculateControlLimits } from './statistics';
+import { getSpecificationLimits } from './specifications';
+
+// Control limits for entry checks are individuals (I-MR) limits over the
+// feature's most recent values; fewer values give no reliable limits
+export const CONTROL_LIMIT_HISTORY = 100;
+export const MIN_CONTROL_LIMIT_HISTORY = 20;
+
+// Reaction offered when a feature has no plan of its own
+export const DEFAULT_REACTION_CAUSES: ReactionPlanItem[] = [
+  { kind: 'cause', code: 'TOOL', description: 'Tool wear or breakage' },
+  { kind: 'cause', code: 'SETUP', description: 'Setup or offset error' },
+  { kind: 'cause', code: 'MATERIAL', description: 'Material or incoming part' },
+  { kind: 'cause', code: 'GAUGE', description: 'Measurement or gauge error' },
+  { kind: 'cause', code: 'METHOD', description: 'Operator or method' },
+  { kind: 'cause', code: 'OTHER', description: 'Other or unknown' },
+];
+
+export const DEFAULT_REACTION_ACTIONS: ReactionPlanItem[] = [
+  { kind: 'action', code: 'ADJUST', description: 'Adjust the process and re-measure' },
+  { kind: 'action', code: 'QUARANTINE', description: 'Quarantine the parts since the last good check' },
+  { kind: 'action', code: 'STOP', description: 'Stop the line and call the supervisor' },
+  { kind: 'action', code: 'RECHECK', description: 'Re-measure to confirm the value' },
+];
+
+export interface LimitViolation {
+  kind: ViolationKind;
+  limit: number;
+}
+
+// Limits from history, or null while there are too few values
+export const entryControlLimits = (history: number[]): ControlLimits | null =>
+  history.length >= MIN_CONTROL_LIMIT_HISTORY ? calculateControlLimits(history, 3, 'i-mr') : null;
+
+// First limit a value breaks: the specification before the control limits
+export const detectLimitViolation = (
+  value: number,
+  specification: FeatureSpecification,
+  controlLimits: ControlLimits | null
+): LimitViolation | null => {
+  const { usl, lsl } = getSpecificationLimits(specification);
+  if (usl !== undefined && value > usl) return { kind: 'above-usl', limit: usl };
+  if (lsl !== undefined && value < lsl) return { kind: 'below-lsl', limit: lsl };
+
+  if (controlLimits && controlLimits.ucl > controlLimits.lcl) {
+    if (value > controlLimits.ucl) return { kind: 'above-ucl', limit: controlLimits.ucl };
+    if (value < controlLimits.lcl) return { kind: 'below-lcl', limit: controlLimits.lcl };
+  }
+  return null;
+};
+
+export const isSpecificationViolation = (kind: ViolationKind): boolean =>
+  kind === 'above-usl' || kind === 'below-lsl';
@@ -0,0 +1,132 @@
+import { CharacteristicClass, FeatureSpecification, SpecificationType, Specifications } from '../types/spc';
+
+export const DEFAULT_DECIMAL_PLACES = 3;
+
+export const SPECIFICATION_TYPES: { value: SpecificationType; label: string }[] = [
+  { value: 'nominal', label: 'Nominal ± tolerance (bilateral)' },
+  { value: 'range', label: 'Lower / upper limits (bilateral)' },
+  { value: 'maximum', label: 'Upper limit only (unilateral)' },
+  { value: 'minimum', label: 'Lower limit only (unilateral)' },
+];
+
+export const CHARACTERISTIC_CLASSES: { value: CharacteristicClass; label: string }[] = [
+  { value: 'critical', label: 'Critical' },
+  { value: 'major', label: 'Major' },
+  { value: 'minor', label: 'Minor' },
+];
+
+const isSet = (value: number | null | undefined): value is number => {
+  return value !== undefined && value !== null && !Number.isNaN(value);
+};
+
+// Older rows may hold free-text categories in specification_type
+const toSpecificationType = (value?: string): SpecificationType => {
+  return SPECIFICATION_TYPES.some(type => type.value === value) ? (value as SpecificationType) : 'nominal';
+};
+
+// Resolve the limits from the fields that are primary for the type:
+// target and tolerances for nominal, explicit limits otherwise (falling
+// back to target and tolerances when a limit is missing)
+export const normalizeSpecification = (spec: FeatureSpecification): FeatureSpecification => {
+  const type = toSpecificationType(spec.specification_type);
+  const target = isSet(spec.target_value) ? spec.target_value : null;
+  const plus = isSet(spec.tolerance_plus) ? Math.abs(spec.tolerance_plus) : null;
+  const minus = isSet(spec.tolerance_minus) ? Math.abs(spec.tolerance_minus) : null;
+  const derivedMax = target !== null && plus !== null ? target + plus : null;
+  const derivedMin = target !== null && minus !== null ? target - minus : null;
+
+  let min: number | null;
+  let max: number | null;
+  switch (type) {
+    case 'nominal':
+      min = derivedMin;
+      max = derivedMax;
+      break;
+    case 'range':
+      min = isSet(spec.specification_min) ? spec.specification_min : derivedMin;
+      max = isSet(spec.specification_max) ? spec.specification_max : derivedMax;
+      break;
+    case 'maximum':
+      min = null;
+      max = isSet(spec.specification_max) ? spec.specification_max : derivedMax;
+      break;
+    case 'minimum':
+      min = isSet(spec.specification_min) ? spec.specification_min : derivedMin;
+      max = null;
+      break;
+  }
+
+  const resolvedTarget = target ?? (type === 'range' && min !== null && max !== null ? (min + max) / 2 : null);
+  return {
+    specification_type: type,
+    target_value: resolvedTarget,
+    tolerance_plus: resolvedTarget !== null && max !== null ? max - resolvedTarget : null,
+    tolerance_minus: resolvedTarget !== null && min !== null ? resolvedTarget - min : null,
+    specification_min: min,
+    specification_max: max,
+    unit: spec.unit || '',
+    decimal_places: isSet(spec.decimal_places) ? Math.max(0, Math.min(6, Math.round(spec.decimal_places))) : DEFAULT_DECIMAL_PLACES,
+    characteristic_class: spec.characteristic_class || 'minor',
+  };
+};
+
+// Returns an error message, or null when the specification is usable
+export const validateSpecification = (spec: FeatureSpecification): string | null => {
+  const type = toSpecificationType(spec.specification_type);
+  if (type === 'nominal' && !isSet(spec.target_value)) {
+    return 'A nominal specification needs a target value';
+  }
+
+  const { specification_min: min, specification_max: max } = normalizeSpecification(spec);
+  if (type === 'maximum' && !isSet(max)) return 'An upper limit is required';
+  if (type === 'minimum' && !isSet(min)) return 'A lower limit is required';
+  if (type === 'range' && (!isSet(min) || !isSet(max))) return 'Both lower and upper limits are required';
+  if (isSet(min) && isSet(max) && min >= max) return 'The lower limit must be below the upper limit';
+  return null;
+};
+
+// Limits in the form used by the statistics utilities
+export const getSpecificationLimits = (spec: FeatureSpecification): Specifications => {
+  const resolved = normalizeSpecification(spec);
+  return {
+    usl: resolved.specification_max ?? undefined,
+    lsl: resolved.specification_min ?? undefined,
+    target: resolved.target_value ?? undefined,
+    unit: resolved.unit || '',
+  };
+};
+
+export const formatMeasurementValue = (value: number, spec: FeatureSpecification): string => {
+  return value.toFixed(spec.decimal_places ?? DEFAULT_DECIMAL_PLACES);
+};
+
+// Input step matching the feature's resolution, e.g. 0.001 for 3 decimals
+export const getMeasurementStep = (spec: FeatureSpecification): string => {
+  const decimals = spec.decimal_places ?? DEFAULT_DECIMAL_PLACES;
+  return decimals > 0 ? (1 / Math.pow(10, decimals)).toFixed(decimals) : '1';
+};
+
+// Human-readable specification, e.g. "10.000 +0.050/-0.020 mm" or "≤ 0.050 mm"
+export const formatSpecification = (spec: FeatureSpecification): string => {
+  const resolved = normalizeSpecification(spec);
+  const format = (value: number) => formatMeasurementValue(value, resolved);
+  const unit = resolved.unit ? ` ${resolved.unit}` : '';
+  const { target_value: target, specification_min: min, specification_max: max } = resolved;
+
+  switch (resolved.specification_type) {
+    case 'maximum':
+      return isSet(max) ? `≤ ${format(max)}${unit}` : '-';
+    case 'minimum':
+      return isSet(min) ? `≥ ${format(min)}${unit}` : '-';
+    case 'range':
+      return isSet(min) && isSet(max) ? `${format(min)} – ${format(max)}${unit}` : '-';
+    default:
+      if (!isSet(target)) return '-';
+      return `${format(target)} +${format(resolved.tolerance_plus ?? 0)}/-${format(resolved.tolerance_minus ?? 0)}${unit}`;
+  }
+};
+
+export const isOutOfSpecification = (value: number, spec: FeatureSpecification): boolean => {
+  const { usl, lsl } = getSpecificationLimits(spec);
+  return (usl !== undefined && value > usl) || (lsl !== undefined && value < lsl);
+};
@@ -0,0 +1,195 @@
+// Minimal CSV and XLSX readers for importing tabular data. Both return the
+// cells of the first sheet as strings, row by row.
+
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+// Comma, semicolon (European Excel exports) or tab, whichever the first line uses most
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Read the central directory of a zip archive
+const readZipEntries = (data: Uint8Array): Map<string, ZipEntry> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let end = data.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('Not a valid XLSX file');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipFile = async (data: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<string | null> => {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const start = entry.localHeaderOffset + 30
+    + view.getUint16(entry.localHeaderOffset + 26, true)
+    + view.getUint16(entry.localHeaderOffset + 28, true);
+  const compressed = data.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(compressed);
+  }
+  if (entry.method !== 8) {
+    throw new Error(`Unsupported compression in ${name}`);
+  }
+  const stream = new Blob([compressed]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (text: string): Document => new DOMParser().parseFromString(text, 'application/xml');
+
+// "BC12" -> 54 (zero-based column index)
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+// Text of a string item (<si> or <is>): its own <t> or those of its rich
+// text runs. Phonetic hints (<rPh>) also hold <t> elements and are skipped.
+const stringItemText = (item: Element): string => {
+  return Array.from(item.children)
+    .flatMap(child => child.localName === 'r' ? Array.from(child.children) : [child])
+    .filter(child => child.localName === 't')
+    .map(text => text.textContent || '')
+    .join('');
+};
+
+// Dates stay as Excel serial numbers; the importer converts them
+export const parseXlsx = async (data: Uint8Array): Promise<string[][]> => {
+  const entries = readZipEntries(data);
+
+  // The first sheet of the workbook, through its relationship id
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const workbook = await readZipFile(data, entries, 'xl/workbook.xml');
+  const relationships = await readZipFile(data, entries, 'xl/_rels/workbook.xml.rels');
+  if (workbook && relationships) {
+    const firstSheet = parseXml(workbook).getElementsByTagName('sheet')[0];
+    const relationId = firstSheet?.getAttribute('r:id');
+    const target = Array.from(parseXml(relationships).getElementsByTagName('Relationship'))
+      .find(relationship => relationship.getAttribute('Id') === relationId)
+      ?.getAttribute('Target');
+    if (target) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sharedStringsXml = await readZipFile(data, entries, 'xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml
+    ? Array.from(parseXml(sharedStringsXml).getElementsByTagName('si')).map(stringItemText)
+    : [];
+
+  const sheetXml = await readZipFile(data, entries, sheetPath);
+  if (!sheetXml) throw new Error('The workbook has no worksheet');
+
+  const rows: string[][] = [];
+  for (const rowElement of Array.from(parseXml(sheetXml).getElementsByTagName('row'))) {
+    const row: string[] = [];
+    for (const cellElement of Array.from(rowElement.getElementsByTagName('c'))) {
+      const reference = cellElement.getAttribute('r');
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = cellElement.getAttribute('t');
+      const rawValue = cellElement.getElementsByTagName('v')[0]?.textContent ?? '';
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[parseInt(rawValue, 10)] ?? '';
+      } else if (type === 'inlineStr') {
+        const inline = cellElement.getElementsByTagName('is')[0];
+        value = inline ? stringItemText(inline) : '';
+      } else {
+        value = rawValue;
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+export const readSpreadsheet = async (fileName: string, data: Uint8Array): Promise<string[][]> => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'xlsx') {
+    return parseXlsx(data);
+  }
+  if (extension === 'xls') {
+    throw new Error('Legacy .xls workbooks are not supported, save the sheet as .xlsx or .csv');
+  }
+  return parseCsv(new TextDecoder().decode(data));
+};
@@ -1,4 +1,5 @@
-import { ControlLimits, Specifications } from '../types/spc';
+import { AttributeChartType, AttributeInspection, AttributeSample, CapabilityIntervals, CapabilityOptions, CapabilityTransformation, ChartLimits, ChartType, ControlLimits, ControlRule, ControlRuleResult, CusumOptions, CusumResult, DataPoint, EwmaOptions, EwmaResult, HistogramBin, IndexInterval, NormalityTest, ObservedPpm, ProbabilityPlotPoint, ProcessCapability, SpcConstants, Specifications, Subgroup, TimeWeightedSignal } from '../types/spc';
+import { chunk } from './helpers';
 
 // Basic statistical functions
 export const mean = (values: number[]): number => {
@@ -134,39 +135,567 @@ export const calculateStatisticalSummary = (values: number[]): any => {
   };
 };
 
-// Control chart calculations
-export const calculateControlLimits = (
-  values: number[],
-  sigmaLevel: number = 3,
-  chartType: 'xbar-r' | 'xbar-s' | 'i-mr' = 'xbar-r'
+// Control chart constants (AIAG SPC manual), indexed by subgroup size n
+// Columns: A2, A3, B3, B4, D3, D4, d2, c4
+const SPC_CONSTANT_TABLE: Record<number, [number, number, number, number, number, number, number, number]> = {
+  2: [1.880, 2.659, 0, 3.267, 0, 3.267, 1.128, 0.7979],
+  3: [1.023, 1.954, 0, 2.568, 0, 2.574, 1.693, 0.8862],
+  4: [0.729, 1.628, 0, 2.266, 0, 2.282, 2.059, 0.9213],
+  5: [0.577, 1.427, 0, 2.089, 0, 2.114, 2.326, 0.9400],
+  6: [0.483, 1.287, 0.030, 1.970, 0, 2.004, 2.534, 0.9515],
+  7: [0.419, 1.182, 0.118, 1.882, 0.076, 1.924, 2.704, 0.9594],
+  8: [0.373, 1.099, 0.185, 1.815, 0.136, 1.864, 2.847, 0.9650],
+  9: [0.337, 1.032, 0.239, 1.761, 0.184, 1.816, 2.970, 0.9693],
+  10: [0.308, 0.975, 0.284, 1.716, 0.223, 1.777, 3.078, 0.9727],
+  11: [0.285, 0.927, 0.321, 1.679, 0.256, 1.744, 3.173, 0.9754],
+  12: [0.266, 0.886, 0.354, 1.646, 0.283, 1.717, 3.258, 0.9776],
+  13: [0.249, 0.850, 0.382, 1.618, 0.307, 1.693, 3.336, 0.9794],
+  14: [0.235, 0.817, 0.406, 1.594, 0.328, 1.672, 3.407, 0.9810],
+  15: [0.223, 0.789, 0.428, 1.572, 0.347, 1.653, 3.472, 0.9823],
+  16: [0.212, 0.763, 0.448, 1.552, 0.363, 1.637, 3.532, 0.9835],
+  17: [0.203, 0.739, 0.466, 1.534, 0.378, 1.622, 3.588, 0.9845],
+  18: [0.194, 0.718, 0.482, 1.518, 0.391, 1.608, 3.640, 0.9854],
+  19: [0.187, 0.698, 0.497, 1.503, 0.403, 1.597, 3.689, 0.9862],
+  20: [0.180, 0.680, 0.510, 1.490, 0.415, 1.585, 3.735, 0.9869],
+  21: [0.173, 0.663, 0.523, 1.477, 0.425, 1.575, 3.778, 0.9876],
+  22: [0.167, 0.647, 0.534, 1.466, 0.434, 1.566, 3.819, 0.9882],
+  23: [0.162, 0.633, 0.545, 1.455, 0.443, 1.557, 3.858, 0.9887],
+  24: [0.157, 0.619, 0.555, 1.445, 0.451, 1.548, 3.895, 0.9892],
+  25: [0.153, 0.606, 0.565, 1.435, 0.459, 1.541, 3.931, 0.9896],
+};
+
+export const MIN_SUBGROUP_SIZE = 2;
+export const MAX_SUBGROUP_SIZE = 25; // Largest tabulated size; larger subgroups use computed constants
+
+// Mean (d2) and standard deviation (d3) of the range of n standard normal
+// values, integrated numerically on a grid over ±8σ
+const normalRangeMoments = (n: number): { d2: number; d3: number } => {
+  const step = 0.05;
+  const cdf: number[] = [];
+  for (let i = 0; i <= 16 / step; i++) cdf.push(normalCDF(-8 + i * step));
+
+  let d2 = 0;
+  let secondMoment = 0; // E[W²] / 2, over x < y
+  cdf.forEach((fx, i) => {
+    const exceedance = 1 - fx ** n - (1 - fx) ** n;
+    d2 += exceedance * step;
+    secondMoment += 0.5 * exceedance * step * step;
+    for (let j = i + 1; j < cdf.length; j++) {
+      secondMoment += (1 - cdf[j] ** n - (1 - fx) ** n + (cdf[j] - fx) ** n) * step * step;
+    }
+  });
+  return { d2, d3: Math.sqrt(2 * secondMoment - d2 * d2) };
+};
+
+const computedConstants = new Map<number, SpcConstants>();
+
+// Constants past the table, from the same definitions the table was built
+// from: c4 in closed form, d2 and d3 from the distribution of the range
+const computeSpcConstants = (n: number): SpcConstants => {
+  const cached = computedConstants.get(n);
+  if (cached) return cached;
+
+  const c4 = Math.sqrt(2 / (n - 1)) * Math.exp(logGamma(n / 2) - logGamma((n - 1) / 2));
+  const { d2, d3 } = normalRangeMoments(n);
+  const sSpread = 3 * Math.sqrt(1 - c4 * c4) / c4;
+  const rSpread = 3 * d3 / d2;
+  const constants: SpcConstants = {
+    n,
+    A2: 3 / (d2 * Math.sqrt(n)),
+    A3: 3 / (c4 * Math.sqrt(n)),
+    B3: Math.max(0, 1 - sSpread),
+    B4: 1 + sSpread,
+    D3: Math.max(0, 1 - rSpread),
+    D4: 1 + rSpread,
+    d2,
+    c4,
+    E2: 3 / d2,
+  };
+  computedConstants.set(n, constants);
+  return constants;
+};
+
+// Tabulated constants up to n = 25, computed ones for larger subgroups
+export const getSpcConstants = (n: number): SpcConstants => {
+  if (!Number.isInteger(n) || n < MIN_SUBGROUP_SIZE) {
+    throw new RangeError(`No control chart constants for subgroup size ${n} (minimum ${MIN_SUBGROUP_SIZE})`);
+  }
+  const row = SPC_CONSTANT_TABLE[n];
+  if (!row) return computeSpcConstants(n);
+
+  const [A2, A3, B3, B4, D3, D4, d2, c4] = row;
+  return { n, A2, A3, B3, B4, D3, D4, d2, c4, E2: 3 / d2 };
+};
+
+// True when every point carries the subgroup number recorded at measurement time
+export const hasRecordedSubgroups = (dataPoints: DataPoint[]): boolean => {
+  return dataPoints.length > 0 && dataPoints.every(point => point.subgroup !== undefined);
+};
+
+// Group data points into subgroups: by their `subgroup` number when present,
+// otherwise by consecutive chunks of `subgroupSize` in timestamp order
+export const buildSubgroups = (dataPoints: DataPoint[], subgroupSize: number = 1): Subgroup[] => {
+  const sorted = [...dataPoints].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const groups: DataPoint[][] = [];
+  if (hasRecordedSubgroups(sorted)) {
+    const byNumber = new Map<number, DataPoint[]>();
+    sorted.forEach(point => {
+      const key = point.subgroup as number;
+      if (!byNumber.has(key)) {
+        byNumber.set(key, []);
+      }
+      byNumber.get(key)!.push(point);
+    });
+    [...byNumber.keys()].sort((a, b) => a - b).forEach(key => groups.push(byNumber.get(key)!));
+  } else {
+    const size = Math.max(1, Math.floor(subgroupSize));
+    for (let i = 0; i < sorted.length; i += size) {
+      groups.push(sorted.slice(i, i + size));
+    }
+  }
+
+  return groups.map((points, index) => ({
+    id: points[0].subgroup !== undefined ? `subgroup-${points[0].subgroup}` : `subgroup-${index + 1}`,
+    subgroupNumber: points[0].subgroup ?? index + 1,
+    values: points.map(point => point.value),
+    timestamp: points[0].timestamp,
+    batch: points[0].batch,
+    operator: points[0].operator,
+    dataPointIds: points.map(point => point.id),
+  }));
+};
+
+// Most frequent subgroup size, used as the nominal n for the limits
+const nominalSubgroupSize = (subgroups: Subgroup[]): number => {
+  const counts = new Map<number, number>();
+  subgroups.forEach(subgroup => {
+    counts.set(subgroup.values.length, (counts.get(subgroup.values.length) || 0) + 1);
+  });
+  let nominal = 0;
+  let best = 0;
+  counts.forEach((count, size) => {
+    if (count > best || (count === best && size > nominal)) {
+      nominal = size;
+      best = count;
+    }
+  });
+  return nominal;
+};
+
+const emptyLimits = (sigmaLevel: number): ControlLimits => ({ ucl: 0, lcl: 0, centerLine: 0, sigmaLevel });
+
+// Limits of the form CL ± k·spread, with the lower limit floored at zero when
+// the plotted statistic cannot be negative
+const symmetricLimits = (
+  centerLine: number,
+  spread: number,
+  sigmaLevel: number,
+  nonNegative: boolean = false
 ): ControlLimits => {
-  if (values.length === 0) {
-    return { ucl: 0, lcl: 0, centerLine: 0, sigmaLevel: 0 };
+  const lcl = centerLine - sigmaLevel * spread;
+  return {
+    ucl: centerLine + sigmaLevel * spread,
+    lcl: nonNegative ? Math.max(0, lcl) : lcl,
+    centerLine,
+    sigmaLevel,
+  };
+};
+
+// Dispersion limits from a tabulated upper factor (D4 or B4, defined for 3σ):
+// the factor is 1 + 3·(σ of the statistic / its mean), so it scales to any k
+const dispersionLimits = (centerLine: number, upperFactor: number, sigmaLevel: number): ControlLimits => {
+  const relativeSpread = (upperFactor - 1) / 3;
+  return {
+    ucl: centerLine * (1 + sigmaLevel * relativeSpread),
+    lcl: Math.max(0, centerLine * (1 - sigmaLevel * relativeSpread)),
+    centerLine,
+    sigmaLevel,
+  };
+};
+
+const calculateXbarRLimits = (subgroups: Subgroup[], sigmaLevel: number): ChartLimits => {
+  const usable = subgroups.filter(subgroup => subgroup.values.length >= MIN_SUBGROUP_SIZE);
+  const n = nominalSubgroupSize(usable);
+  const constants = getSpcConstants(n);
+
+  // Each subgroup's range is unbiased with its own d2, so mixed sizes stay correct
+  const ranges = usable.map(subgroup => range(subgroup.values));
+  const sigma = mean(usable.map((subgroup, i) => ranges[i] / getSpcConstants(subgroup.values.length).d2));
+  const means = usable.map(subgroup => mean(subgroup.values));
+  const grandMean = mean(means);
+  const rBar = constants.d2 * sigma;
+
+  return {
+    chartType: 'xbar-r',
+    subgroupSize: n,
+    sigma,
+    location: symmetricLimits(grandMean, sigma / Math.sqrt(n), sigmaLevel),
+    dispersion: dispersionLimits(rBar, constants.D4, sigmaLevel),
+    locationPoints: means,
+    dispersionPoints: ranges,
+  };
+};
+
+const calculateXbarSLimits = (subgroups: Subgroup[], sigmaLevel: number): ChartLimits => {
+  const usable = subgroups.filter(subgroup => subgroup.values.length >= MIN_SUBGROUP_SIZE);
+  const n = nominalSubgroupSize(usable);
+  const constants = getSpcConstants(n);
+
+  const deviations = usable.map(subgroup => standardDeviation(subgroup.values));
+  const sigma = mean(usable.map((subgroup, i) => deviations[i] / getSpcConstants(subgroup.values.length).c4));
+  const means = usable.map(subgroup => mean(subgroup.values));
+  const grandMean = mean(means);
+  const sBar = constants.c4 * sigma;
+
+  return {
+    chartType: 'xbar-s',
+    subgroupSize: n,
+    sigma,
+    location: symmetricLimits(grandMean, sigma / Math.sqrt(n), sigmaLevel),
+    dispersion: dispersionLimits(sBar, constants.B4, sigmaLevel),
+    locationPoints: means,
+    dispersionPoints: deviations,
+  };
+};
+
+const calculateIndividualsLimits = (subgroups: Subgroup[], sigmaLevel: number): ChartLimits => {
+  const values = subgroups.flatMap(subgroup => subgroup.values);
+  const movingRanges = calculateMovingRange(values);
+  const constants = getSpcConstants(2);
+  const mrBar = mean(movingRanges);
+  const sigma = mrBar / constants.d2;
+
+  return {
+    chartType: 'i-mr',
+    subgroupSize: 1,
+    sigma,
+    location: symmetricLimits(mean(values), sigma, sigmaLevel),
+    dispersion: dispersionLimits(mrBar, constants.D4, sigmaLevel),
+    locationPoints: values,
+    dispersionPoints: movingRanges,
+  };
+};
+
+// Attribute charts from inspected lots. p and u limits depend on each lot's
+// size, so every point gets its own limits; `location` holds the limits at
+// the average lot size for display
+export const calculateAttributeChart = (
+  samples: AttributeSample[],
+  chartType: AttributeChartType,
+  sigmaLevel: number = 3
+): ChartLimits => {
+  const usable = samples.filter(sample => sample.sampleSize > 0);
+  if (usable.length === 0) {
+    return {
+      chartType,
+      subgroupSize: 0,
+      sigma: 0,
+      location: emptyLimits(sigmaLevel),
+      locationPoints: [],
+      dispersionPoints: [],
+      pointLimits: [],
+    };
   }
 
-  const avg = mean(values);
-  let sigma: number;
+  const sizes = usable.map(sample => sample.sampleSize);
+  const counts = usable.map(sample => sample.count);
+  const totalInspected = sizes.reduce((sum, size) => sum + size, 0);
+  const totalCount = counts.reduce((sum, count) => sum + count, 0);
+  const averageSize = totalInspected / usable.length;
+
+  switch (chartType) {
+    case 'p-chart': {
+      const pBar = totalCount / totalInspected;
+      const sigma = Math.sqrt(pBar * (1 - pBar));
+      const limitsFor = (n: number): ControlLimits => {
+        const limits = symmetricLimits(pBar, sigma / Math.sqrt(n), sigmaLevel, true);
+        return { ...limits, ucl: Math.min(1, limits.ucl) };
+      };
+      return {
+        chartType,
+        subgroupSize: averageSize,
+        sigma,
+        location: limitsFor(averageSize),
+        locationPoints: counts.map((count, i) => count / sizes[i]),
+        dispersionPoints: [],
+        pointLimits: sizes.map(limitsFor),
+      };
+    }
+
+    case 'np-chart': {
+      const pBar = totalCount / totalInspected;
+      const sigma = Math.sqrt(pBar * (1 - pBar));
+      const limitsFor = (n: number): ControlLimits => symmetricLimits(n * pBar, Math.sqrt(n) * sigma, sigmaLevel, true);
+      return {
+        chartType,
+        subgroupSize: averageSize,
+        sigma,
+        location: limitsFor(averageSize),
+        locationPoints: counts,
+        dispersionPoints: [],
+        pointLimits: sizes.map(limitsFor),
+      };
+    }
+
+    case 'c-chart': {
+      // The c chart assumes a constant inspection area; use a u chart otherwise
+      const cBar = totalCount / usable.length;
+      const limits = symmetricLimits(cBar, Math.sqrt(cBar), sigmaLevel, true);
+      return {
+        chartType,
+        subgroupSize: averageSize,
+        sigma: Math.sqrt(cBar),
+        location: limits,
+        locationPoints: counts,
+        dispersionPoints: [],
+        pointLimits: sizes.map(() => limits),
+      };
+    }
+
+    case 'u-chart': {
+      const uBar = totalCount / totalInspected;
+      const limitsFor = (n: number): ControlLimits => symmetricLimits(uBar, Math.sqrt(uBar / n), sigmaLevel, true);
+      return {
+        chartType,
+        subgroupSize: averageSize,
+        sigma: Math.sqrt(uBar),
+        location: limitsFor(averageSize),
+        locationPoints: counts.map((count, i) => count / sizes[i]),
+        dispersionPoints: [],
+        pointLimits: sizes.map(limitsFor),
+      };
+    }
+  }
+};
+
+// Convert stored inspection records into chart samples: defectives for
+// p/np charts, nonconformities for c/u charts
+export const toAttributeSamples = (
+  inspections: AttributeInspection[],
+  chartType: AttributeChartType
+): AttributeSample[] => {
+  const countsDefectives = chartType === 'p-chart' || chartType === 'np-chart';
+  return inspections.map(inspection => ({
+    id: inspection.id.toString(),
+    timestamp: new Date(inspection.timestamp),
+    sampleSize: inspection.sample_size,
+    count: (countsDefectives ? inspection.defective_count : inspection.defect_count) ?? 0,
+    batch: inspection.lot_number,
+  }));
+};
+
+// Attribute subgroups hold one entry per inspected unit: for p/np charts a
+// defective flag (non-zero = defective), for c/u charts the nonconformity count
+const calculateAttributeLimits = (
+  subgroups: Subgroup[],
+  chartType: AttributeChartType,
+  sigmaLevel: number
+): ChartLimits => {
+  const countsDefectives = chartType === 'p-chart' || chartType === 'np-chart';
+  const samples: AttributeSample[] = subgroups.map(subgroup => ({
+    id: subgroup.id,
+    timestamp: subgroup.timestamp,
+    sampleSize: subgroup.values.length,
+    count: countsDefectives
+      ? subgroup.values.filter(value => value !== 0).length
+      : subgroup.values.reduce((sum, value) => sum + value, 0),
+    batch: subgroup.batch,
+  }));
+  return calculateAttributeChart(samples, chartType, sigmaLevel);
+};
+
+// Target and sigma for time-weighted charts: the series mean and the
+// moving-range estimate unless the caller provides known values
+const timeWeightedBaseline = (
+  values: number[],
+  target?: number,
+  sigma?: number
+): { target: number; sigma: number } => ({
+  target: target ?? mean(values),
+  sigma: sigma ?? mean(calculateMovingRange(values)) / getSpcConstants(2).d2,
+});
+
+const seriesValues = (dataPoints: DataPoint[]): number[] => {
+  return [...dataPoints]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .map(point => point.value);
+};
+
+const cusumFromValues = (values: number[], options: CusumOptions = {}): CusumResult => {
+  const { target, sigma } = timeWeightedBaseline(values, options.target, options.sigma);
+  const k = options.k ?? 0.5;
+  const h = options.h ?? 5;
+  const allowance = k * sigma;
+  const decisionInterval = h * sigma;
+
+  const upper: number[] = [];
+  const lower: number[] = [];
+  const signals: TimeWeightedSignal[] = [];
+  let cPlus = 0;
+  let cMinus = 0;
+  let runPlus = 0; // Points since C+ was last zero
+  let runMinus = 0;
+
+  values.forEach((value, index) => {
+    cPlus = Math.max(0, value - (target + allowance) + cPlus);
+    cMinus = Math.max(0, (target - allowance) - value + cMinus);
+    runPlus = cPlus > 0 ? runPlus + 1 : 0;
+    runMinus = cMinus > 0 ? runMinus + 1 : 0;
+    upper.push(cPlus);
+    lower.push(cMinus);
+
+    if (decisionInterval > 0 && cPlus > decisionInterval) {
+      signals.push({ index, direction: 'up', estimatedMean: target + allowance + cPlus / runPlus });
+    }
+    if (decisionInterval > 0 && cMinus > decisionInterval) {
+      signals.push({ index, direction: 'down', estimatedMean: target - allowance - cMinus / runMinus });
+    }
+  });
+
+  return { target, sigma, k, h, decisionInterval, upper, lower, signals };
+};
+
+const ewmaFromValues = (values: number[], options: EwmaOptions = {}): EwmaResult => {
+  const { target, sigma } = timeWeightedBaseline(values, options.target, options.sigma);
+  const lambda = options.lambda ?? 0.2;
+  const L = options.L ?? 3;
+
+  const ewmaValues: number[] = [];
+  const limits: ControlLimits[] = [];
+  const signals: TimeWeightedSignal[] = [];
+  let z = target;
+
+  values.forEach((value, index) => {
+    z = lambda * value + (1 - lambda) * z;
+    // Limits widen from the first point towards their asymptotic value
+    const spread = sigma * Math.sqrt((lambda / (2 - lambda)) * (1 - Math.pow(1 - lambda, 2 * (index + 1))));
+    const pointLimits = symmetricLimits(target, spread, L);
+    ewmaValues.push(z);
+    limits.push(pointLimits);
+
+    if (z > pointLimits.ucl) {
+      signals.push({ index, direction: 'up', estimatedMean: z });
+    } else if (z < pointLimits.lcl) {
+      signals.push({ index, direction: 'down', estimatedMean: z });
+    }
+  });
+
+  return { target, sigma, lambda, L, values: ewmaValues, limits, signals };
+};
+
+// Tabular CUSUM on a series of individual values
+export const calculateCusum = (dataPoints: DataPoint[], options: CusumOptions = {}): CusumResult => {
+  return cusumFromValues(seriesValues(dataPoints), options);
+};
+
+// EWMA on a series of individual values
+export const calculateEwma = (dataPoints: DataPoint[], options: EwmaOptions = {}): EwmaResult => {
+  return ewmaFromValues(seriesValues(dataPoints), options);
+};
+
+// Time-weighted charts on subgroups plot the subgroup means, with sigma
+// scaled to the standard error of the mean
+const calculateTimeWeightedLimits = (
+  subgroups: Subgroup[],
+  chartType: 'cusum' | 'ewma',
+  sigmaLevel: number
+): ChartLimits => {
+  const usable = subgroups.filter(subgroup => subgroup.values.length > 0);
+  const n = nominalSubgroupSize(usable);
+  const means = usable.map(subgroup => mean(subgroup.values));
+  const withinSigma = n >= MIN_SUBGROUP_SIZE
+    ? calculateXbarRLimits(usable, sigmaLevel).sigma
+    : mean(calculateMovingRange(means)) / getSpcConstants(2).d2;
+  const sigma = withinSigma / Math.sqrt(Math.max(1, n));
+
+  if (chartType === 'cusum') {
+    const cusum = cusumFromValues(means, { sigma });
+    return {
+      chartType,
+      subgroupSize: n,
+      sigma: withinSigma,
+      location: { ucl: cusum.decisionInterval, lcl: -cusum.decisionInterval, centerLine: 0, sigmaLevel: cusum.h },
+      locationPoints: cusum.upper,
+      dispersionPoints: [],
+      secondaryPoints: cusum.lower.map(value => -value),
+    };
+  }
+
+  const ewma = ewmaFromValues(means, { sigma, L: sigmaLevel });
+  const asymptoticSpread = sigma * Math.sqrt(ewma.lambda / (2 - ewma.lambda));
+  return {
+    chartType,
+    subgroupSize: n,
+    sigma: withinSigma,
+    location: symmetricLimits(ewma.target, asymptoticSpread, sigmaLevel),
+    locationPoints: ewma.values,
+    dispersionPoints: [],
+    pointLimits: ewma.limits,
+  };
+};
+
+// Control limits for any chart type from rational subgroups
+export const calculateChartLimits = (
+  subgroups: Subgroup[],
+  chartType: ChartType = 'xbar-r',
+  sigmaLevel: number = 3
+): ChartLimits => {
+  const hasData = subgroups.some(subgroup => subgroup.values.length > 0);
+  const hasSubgroups = subgroups.some(subgroup => subgroup.values.length >= MIN_SUBGROUP_SIZE);
+  const needsSubgroups = chartType === 'xbar-r' || chartType === 'xbar-s';
+
+  if (!hasData || (needsSubgroups && !hasSubgroups)) {
+    return {
+      chartType,
+      subgroupSize: 0,
+      sigma: 0,
+      location: emptyLimits(sigmaLevel),
+      dispersion: needsSubgroups || chartType === 'i-mr' ? emptyLimits(sigmaLevel) : undefined,
+      locationPoints: [],
+      dispersionPoints: [],
+    };
+  }
 
   switch (chartType) {
     case 'xbar-r':
-      sigma = calculateRange(values) / 2.326; // d2 constant for n=5
-      break;
+      return calculateXbarRLimits(subgroups, sigmaLevel);
     case 'xbar-s':
-      sigma = standardDeviation(values);
-      break;
+      return calculateXbarSLimits(subgroups, sigmaLevel);
     case 'i-mr':
-      sigma = standardDeviation(values);
-      break;
-    default:
-      sigma = standardDeviation(values);
+      return calculateIndividualsLimits(subgroups, sigmaLevel);
+    case 'p-chart':
+    case 'np-chart':
+    case 'c-chart':
+    case 'u-chart':
+      return calculateAttributeLimits(subgroups, chartType, sigmaLevel);
+    case 'cusum':
+    case 'ewma':
+      return calculateTimeWeightedLimits(subgroups, chartType, sigmaLevel);
   }
+};
 
-  return {
-    ucl: avg + (sigmaLevel * sigma),
-    lcl: avg - (sigmaLevel * sigma),
-    centerLine: avg,
-    sigmaLevel: sigmaLevel,
-  };
+// Location-chart limits for a flat series of individual values, split into
+// consecutive subgroups of `subgroupSize` for X̄ charts
+export const calculateControlLimits = (
+  values: number[],
+  sigmaLevel: number = 3,
+  chartType: ChartType = 'xbar-r',
+  subgroupSize: number = 5
+): ControlLimits => {
+  if (values.length === 0) {
+    return { ucl: 0, lcl: 0, centerLine: 0, sigmaLevel: 0 };
+  }
+
+  const size = chartType === 'xbar-r' || chartType === 'xbar-s' ? subgroupSize : 1;
+  const subgroups: Subgroup[] = chunk(values, size).map((subgroupValues, index) => ({
+    id: `subgroup-${index + 1}`,
+    subgroupNumber: index + 1,
+    values: subgroupValues,
+    timestamp: new Date(0),
+  }));
+
+  return calculateChartLimits(subgroups, chartType, sigmaLevel).location;
 };
 
 // Range calculation for X-bar R charts
@@ -188,100 +717,813 @@ export const calculateMovingRange = (values: number[]): number[] => {
 };
 
 // Process capability calculations
-export const calculateProcessCapability = (
-  values: number[],
-  specifications: Specifications
-): any => {
-  if (!specifications.usl || !specifications.lsl || values.length === 0) {
+
+// Short-term sigma: R̄/d2 or S̄/c4 for rational subgroups, MR̄/d2 for individuals
+export const estimateWithinSigma = (
+  subgroups: Subgroup[],
+  method: 'range' | 'stddev' = 'range'
+): number => {
+  const isIndividuals = subgroups.every(subgroup => subgroup.values.length <= 1);
+  const chartType: ChartType = isIndividuals ? 'i-mr' : method === 'stddev' ? 'xbar-s' : 'xbar-r';
+  return calculateChartLimits(subgroups, chartType).sigma;
+};
+
+const capabilityIndex = (distance: number, sigma: number): number | null => {
+  return sigma > 0 ? distance / (3 * sigma) : null;
+};
+
+const minIndex = (...indices: Array<number | null>): number | null => {
+  const available = indices.filter((index): index is number => index !== null);
+  return available.length > 0 ? Math.min(...available) : null;
+};
+
+const hasSpecLimits = ({ usl, lsl }: Specifications): boolean => {
+  return (usl !== undefined && usl !== null) || (lsl !== undefined && lsl !== null);
+};
+
+// Indices under the normal model
+const normalCapability = (
+  subgroups: Subgroup[],
+  specifications: Specifications,
+  sigmaMethod: 'range' | 'stddev'
+): ProcessCapability => {
+  const values = subgroups.flatMap(subgroup => subgroup.values);
+  const { usl, lsl, target } = specifications;
+  const hasUsl = usl !== undefined && usl !== null;
+  const hasLsl = lsl !== undefined && lsl !== null;
+
+  const avg = mean(values);
+  const withinSigma = values.length > 1 ? estimateWithinSigma(subgroups, sigmaMethod) : 0;
+  const overallSigma = values.length > 1 ? standardDeviation(values) : 0;
+
+  if ((!hasUsl && !hasLsl) || values.length === 0) {
     return {
-      cp: 0,
-      cpk: 0,
-      pp: 0,
-      ppk: 0,
-      cpu: 0,
-      cpl: 0,
+      count: values.length,
+      mean: avg,
+      withinSigma,
+      overallSigma,
+      cp: null,
+      cpk: null,
+      cpu: null,
+      cpl: null,
+      pp: null,
+      ppk: null,
+      ppu: null,
+      ppl: null,
+      cpm: null,
       sigma: 0,
+      ppmAboveUsl: 0,
+      ppmBelowLsl: 0,
       ppm: 0,
+      ppmWithin: 0,
     };
   }
 
+  // Cp/Cpk use within-subgroup variation, Pp/Ppk the overall variation
+  const cpu = hasUsl ? capabilityIndex(usl - avg, withinSigma) : null;
+  const cpl = hasLsl ? capabilityIndex(avg - lsl, withinSigma) : null;
+  const ppu = hasUsl ? capabilityIndex(usl - avg, overallSigma) : null;
+  const ppl = hasLsl ? capabilityIndex(avg - lsl, overallSigma) : null;
+  const cp = hasUsl && hasLsl && withinSigma > 0 ? (usl - lsl) / (6 * withinSigma) : null;
+  const pp = hasUsl && hasLsl && overallSigma > 0 ? (usl - lsl) / (6 * overallSigma) : null;
+  const cpk = minIndex(cpu, cpl);
+  const ppk = minIndex(ppu, ppl);
+
+  // Cpm (Taguchi) penalises the distance between the mean and the target
+  let cpm: number | null = null;
+  if (target !== undefined && target !== null && overallSigma > 0) {
+    const tau = Math.sqrt(Math.pow(overallSigma, 2) + Math.pow(avg - target, 2));
+    cpm = hasUsl && hasLsl
+      ? (usl - lsl) / (6 * tau)
+      : hasUsl
+        ? (usl - target) / (3 * tau)
+        : (target - (lsl as number)) / (3 * tau);
+  }
+
+  const expectedPpm = (sigma: number): { above: number; below: number } => {
+    if (sigma <= 0) {
+      return {
+        above: hasUsl && avg > usl ? 1e6 : 0,
+        below: hasLsl && avg < lsl ? 1e6 : 0,
+      };
+    }
+    return {
+      above: hasUsl ? (1 - normalCDF(usl, avg, sigma)) * 1e6 : 0,
+      below: hasLsl ? normalCDF(lsl, avg, sigma) * 1e6 : 0,
+    };
+  };
+  const overall = expectedPpm(overallSigma);
+  const within = expectedPpm(withinSigma);
+
+  return {
+    count: values.length,
+    mean: avg,
+    withinSigma,
+    overallSigma,
+    cp,
+    cpk,
+    cpu,
+    cpl,
+    pp,
+    ppk,
+    ppu,
+    ppl,
+    cpm,
+    sigma: cpk !== null ? 3 * cpk : 0,
+    ppmAboveUsl: overall.above,
+    ppmBelowLsl: overall.below,
+    ppm: overall.above + overall.below,
+    ppmWithin: within.above + within.below,
+  };
+};
+
+// Normality tests
+export const MIN_NORMALITY_SAMPLE = 8;
+
+const requireNormalitySample = (values: number[], maxSize: number = Infinity): void => {
+  if (values.length < 3 || values.length > maxSize) {
+    throw new RangeError(`Normality test requires between 3 and ${maxSize} values, got ${values.length}`);
+  }
+};
+
+// Anderson-Darling with the small-sample adjustment and p-value of
+// D'Agostino & Stephens (1986), mean and sigma estimated from the data
+export const andersonDarlingTest = (values: number[], alpha: number = 0.05): NormalityTest => {
+  requireNormalitySample(values);
+  const n = values.length;
   const avg = mean(values);
   const std = standardDeviation(values);
-  const usl = specifications.usl;
-  const lsl = specifications.lsl;
-  
-  // Cp - Process capability index
-  const cp = (usl - lsl) / (6 * std);
-  
-  // Cpk - Process capability index (centered)
-  const cpk = Math.min(
-    (usl - avg) / (3 * std),
-    (avg - lsl) / (3 * std)
-  );
-  
-  // Pp - Process performance index
-  const pp = (usl - lsl) / (6 * std);
-  
-  // Ppk - Process performance index (centered)
-  const ppk = Math.min(
-    (usl - avg) / (3 * std),
-    (avg - lsl) / (3 * std)
+  if (std === 0) {
+    return { test: 'anderson-darling', statistic: Infinity, pValue: 0, alpha, isNormal: false };
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const clamp = (p: number) => Math.min(1 - 1e-15, Math.max(1e-15, p));
+  const cdf = sorted.map(value => clamp(normalCDF(value, avg, std)));
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    sum += (2 * i + 1) * (Math.log(cdf[i]) + Math.log(1 - cdf[n - 1 - i]));
+  }
+  const a2 = -n - sum / n;
+  const statistic = a2 * (1 + 0.75 / n + 2.25 / (n * n));
+
+  let pValue: number;
+  if (statistic >= 0.6) {
+    pValue = Math.exp(1.2937 - 5.709 * statistic + 0.0186 * statistic * statistic);
+  } else if (statistic >= 0.34) {
+    pValue = Math.exp(0.9177 - 4.279 * statistic - 1.38 * statistic * statistic);
+  } else if (statistic >= 0.2) {
+    pValue = 1 - Math.exp(-8.318 + 42.796 * statistic - 59.938 * statistic * statistic);
+  } else {
+    pValue = 1 - Math.exp(-13.436 + 101.14 * statistic - 223.73 * statistic * statistic);
+  }
+  pValue = Math.min(1, Math.max(0, pValue));
+
+  return { test: 'anderson-darling', statistic, pValue, alpha, isNormal: pValue >= alpha };
+};
+
+// Shapiro-Wilk W with Royston's (1992) approximation, valid for 3 ≤ n ≤ 5000
+export const shapiroWilkTest = (values: number[], alpha: number = 0.05): NormalityTest => {
+  requireNormalitySample(values, 5000);
+  const n = values.length;
+  const sorted = [...values].sort((a, b) => a - b);
+  const avg = mean(sorted);
+  const ss = sorted.reduce((sum, value) => sum + Math.pow(value - avg, 2), 0);
+  if (ss === 0) {
+    return { test: 'shapiro-wilk', statistic: 0, pValue: 0, alpha, isNormal: false };
+  }
+
+  // Coefficients a_i
+  const a = new Array<number>(n).fill(0);
+  if (n === 3) {
+    a[0] = -Math.SQRT1_2;
+    a[2] = Math.SQRT1_2;
+  } else {
+    const m = sorted.map((_, i) => normalQuantile((i + 1 - 0.375) / (n + 0.25)));
+    const mm = m.reduce((sum, value) => sum + value * value, 0);
+    const u = 1 / Math.sqrt(n);
+    const polynomial = (coefficients: number[]) =>
+      coefficients.reduce((sum, coefficient, power) => sum + coefficient * Math.pow(u, power), 0);
+
+    const an = polynomial([m[n - 1] / Math.sqrt(mm), 0.221157, -0.147981, -2.07119, 4.434685, -2.706056]);
+    if (n > 5) {
+      const an1 = polynomial([m[n - 2] / Math.sqrt(mm), 0.042981, -0.293762, -1.752461, 5.682633, -3.582633]);
+      const phi = (mm - 2 * m[n - 1] * m[n - 1] - 2 * m[n - 2] * m[n - 2]) / (1 - 2 * an * an - 2 * an1 * an1);
+      for (let i = 2; i < n - 2; i++) a[i] = m[i] / Math.sqrt(phi);
+      a[n - 2] = an1;
+      a[1] = -an1;
+    } else {
+      const phi = (mm - 2 * m[n - 1] * m[n - 1]) / (1 - 2 * an * an);
+      for (let i = 1; i < n - 1; i++) a[i] = m[i] / Math.sqrt(phi);
+    }
+    a[n - 1] = an;
+    a[0] = -an;
+  }
+
+  const numerator = Math.pow(a.reduce((sum, coefficient, i) => sum + coefficient * sorted[i], 0), 2);
+  const statistic = Math.min(1, numerator / ss);
+
+  let pValue: number;
+  if (n === 3) {
+    pValue = (6 / Math.PI) * (Math.asin(Math.sqrt(statistic)) - Math.asin(Math.sqrt(0.75)));
+  } else if (n <= 11) {
+    const gamma = 0.459 * n - 2.273;
+    const w = -Math.log(gamma - Math.log(1 - statistic));
+    const mu = 0.544 - 0.39978 * n + 0.025054 * n * n - 0.0006714 * n * n * n;
+    const sigma = Math.exp(1.3822 - 0.77857 * n + 0.062767 * n * n - 0.0020322 * n * n * n);
+    pValue = 1 - normalCDF(w, mu, sigma);
+  } else {
+    const ln = Math.log(n);
+    const mu = -1.5861 - 0.31082 * ln - 0.083751 * ln * ln + 0.0038915 * ln * ln * ln;
+    const sigma = Math.exp(-0.4803 - 0.082676 * ln + 0.0030302 * ln * ln);
+    pValue = 1 - normalCDF(Math.log(1 - statistic), mu, sigma);
+  }
+  pValue = Number.isFinite(pValue) ? Math.min(1, Math.max(0, pValue)) : 0;
+
+  return { test: 'shapiro-wilk', statistic, pValue, alpha, isNormal: pValue >= alpha };
+};
+
+// Non-normal capability
+
+// Box-Cox lambda maximising the profile log-likelihood over [-5, 5]
+export const estimateBoxCoxLambda = (values: number[]): number => {
+  if (values.some(value => value <= 0)) {
+    throw new RangeError('Box-Cox transformation requires strictly positive values');
+  }
+  const logSum = values.reduce((sum, value) => sum + Math.log(value), 0);
+  const logLikelihood = (lambda: number): number => {
+    const transformed = values.map(value => boxCoxTransform(value, lambda));
+    return -(values.length / 2) * Math.log(variance(transformed, true)) + (lambda - 1) * logSum;
+  };
+
+  let best = 1;
+  let bestLikelihood = -Infinity;
+  for (let lambda = -5; lambda <= 5.0001; lambda += 0.05) {
+    const likelihood = logLikelihood(lambda);
+    if (likelihood > bestLikelihood) {
+      best = lambda;
+      bestLikelihood = likelihood;
+    }
+  }
+
+  // Golden-section refinement around the best grid point
+  let low = best - 0.05;
+  let high = best + 0.05;
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  for (let i = 0; i < 30; i++) {
+    const x1 = high - ratio * (high - low);
+    const x2 = low + ratio * (high - low);
+    if (logLikelihood(x1) > logLikelihood(x2)) high = x2;
+    else low = x1;
+  }
+  return Math.round(((low + high) / 2) * 100) / 100;
+};
+
+export const boxCoxTransform = (value: number, lambda: number): number => {
+  return Math.abs(lambda) < 1e-9 ? Math.log(value) : (Math.pow(value, lambda) - 1) / lambda;
+};
+
+// Linear interpolation between order statistics at position n·p + 0.5
+const sampleQuantile = (sorted: number[], p: number): number => {
+  const position = Math.min(sorted.length, Math.max(1, sorted.length * p + 0.5));
+  const lower = Math.floor(position);
+  const fraction = position - lower;
+  return lower >= sorted.length
+    ? sorted[sorted.length - 1]
+    : sorted[lower - 1] + fraction * (sorted[lower] - sorted[lower - 1]);
+};
+
+const johnsonTransform = (
+  value: number,
+  fit: Extract<CapabilityTransformation, { type: 'johnson' }>
+): number => {
+  const { family, gamma, eta, epsilon, lambda } = fit;
+  switch (family) {
+    case 'SU':
+      return gamma + eta * Math.asinh((value - epsilon) / lambda);
+    case 'SB':
+      return gamma + eta * Math.log((value - epsilon) / (epsilon + lambda - value));
+    case 'SL':
+      return gamma + eta * Math.log(value - epsilon);
+  }
+};
+
+// Slifker-Shapiro percentile fit for a single z
+const fitJohnsonAt = (
+  sorted: number[],
+  z: number
+): Extract<CapabilityTransformation, { type: 'johnson' }> | null => {
+  const x3z = sampleQuantile(sorted, normalCDF(3 * z));
+  const xz = sampleQuantile(sorted, normalCDF(z));
+  const xmz = sampleQuantile(sorted, normalCDF(-z));
+  const xm3z = sampleQuantile(sorted, normalCDF(-3 * z));
+  const m = x3z - xz;
+  const n = xmz - xm3z;
+  const p = xz - xmz;
+  if (m <= 0 || n <= 0 || p <= 0) return null;
+
+  const mid = (xz + xmz) / 2;
+  const ratio = (m * n) / (p * p);
+  let fit: Extract<CapabilityTransformation, { type: 'johnson' }>;
+
+  if (Math.abs(ratio - 1) < 0.01) {
+    const mp = m / p;
+    if (mp <= 1) return null;
+    const eta = (2 * z) / Math.log(mp);
+    fit = {
+      type: 'johnson',
+      family: 'SL',
+      eta,
+      gamma: eta * Math.log((mp - 1) / (p * Math.sqrt(mp))),
+      epsilon: mid - (p / 2) * ((mp + 1) / (mp - 1)),
+      lambda: 1,
+    };
+  } else if (ratio > 1) {
+    const mp = m / p;
+    const np = n / p;
+    if (mp + np <= 2) return null;
+    const eta = (2 * z) / Math.acosh(0.5 * (mp + np));
+    fit = {
+      type: 'johnson',
+      family: 'SU',
+      eta,
+      gamma: eta * Math.asinh((np - mp) / (2 * Math.sqrt(mp * np - 1))),
+      lambda: (2 * p * Math.sqrt(mp * np - 1)) / ((mp + np - 2) * Math.sqrt(mp + np + 2)),
+      epsilon: mid + (p * (np - mp)) / (2 * (mp + np - 2)),
+    };
+  } else {
+    const pm = p / m;
+    const pn = p / n;
+    const product = (1 + pm) * (1 + pn);
+    if (product <= 4) return null;
+    const eta = z / Math.acosh(0.5 * Math.sqrt(product));
+    const lambda = (p * Math.sqrt(Math.pow(product - 2, 2) - 4)) / (pm * pn - 1);
+    fit = {
+      type: 'johnson',
+      family: 'SB',
+      eta,
+      gamma: eta * Math.asinh(((pn - pm) * Math.sqrt(product - 4)) / (2 * (pm * pn - 1))),
+      lambda,
+      epsilon: mid - lambda / 2 + (p * (pn - pm)) / (2 * (pm * pn - 1)),
+    };
+  }
+
+  const valid = fit.eta > 0 && fit.lambda > 0 && sorted.every(value => Number.isFinite(johnsonTransform(value, fit)));
+  return valid ? fit : null;
+};
+
+// Johnson system fit: tries z from 0.25 to 1.25 and keeps the fit whose
+// transformed data has the highest Anderson-Darling p-value
+export const fitJohnsonDistribution = (
+  values: number[]
+): { fit: Extract<CapabilityTransformation, { type: 'johnson' }>; normality: NormalityTest } | null => {
+  const sorted = [...values].sort((a, b) => a - b);
+  let best: { fit: Extract<CapabilityTransformation, { type: 'johnson' }>; normality: NormalityTest } | null = null;
+
+  for (let step = 0; step <= 100; step++) {
+    const fit = fitJohnsonAt(sorted, 0.25 + step * 0.01);
+    if (!fit) continue;
+    const normality = andersonDarlingTest(sorted.map(value => johnsonTransform(value, fit)));
+    if (!best || normality.pValue > best.normality.pValue) {
+      best = { fit, normality };
+    }
+  }
+  return best;
+};
+
+// Indices computed on transformed data and limits. Limits outside the
+// transformation's support are treated as unreachable and dropped.
+const transformedCapability = (
+  subgroups: Subgroup[],
+  specifications: Specifications,
+  sigmaMethod: 'range' | 'stddev',
+  transform: (value: number) => number
+): ProcessCapability => {
+  const transformLimit = (limit?: number): number | undefined => {
+    if (limit === undefined || limit === null) return undefined;
+    const transformed = transform(limit);
+    return Number.isFinite(transformed) ? transformed : undefined;
+  };
+  const values = subgroups.flatMap(subgroup => subgroup.values);
+  const capability = normalCapability(
+    subgroups.map(subgroup => ({ ...subgroup, values: subgroup.values.map(transform) })),
+    {
+      ...specifications,
+      usl: transformLimit(specifications.usl),
+      lsl: transformLimit(specifications.lsl),
+      target: transformLimit(specifications.target),
+    },
+    sigmaMethod
   );
-  
-  // CPU and CPL
-  const cpu = (usl - avg) / (3 * std);
-  const cpl = (avg - lsl) / (3 * std);
-  
-  // Sigma level
-  const sigma = cpk * 3;
-  
-  // PPM (Parts Per Million) - estimated
-  const ppm = Math.max(0, (1 - cpk) * 1000000);
-  
   return {
-    cp,
-    cpk,
+    ...capability,
+    mean: mean(values),
+    withinSigma: values.length > 1 ? estimateWithinSigma(subgroups, sigmaMethod) : 0,
+    overallSigma: values.length > 1 ? standardDeviation(values) : 0,
+  };
+};
+
+// ISO 22514-2 percentile method: the 0.135 % and 99.865 % quantiles and the
+// median replace μ ± 3σ and μ. Only overall (Pp/Ppk) indices are defined.
+const percentileCapability = (subgroups: Subgroup[], specifications: Specifications): ProcessCapability => {
+  const values = subgroups.flatMap(subgroup => subgroup.values);
+  const sorted = [...values].sort((a, b) => a - b);
+  const { usl, lsl } = specifications;
+  const hasUsl = usl !== undefined && usl !== null;
+  const hasLsl = lsl !== undefined && lsl !== null;
+
+  const lower = sampleQuantile(sorted, 0.00135);
+  const center = sampleQuantile(sorted, 0.5);
+  const upper = sampleQuantile(sorted, 0.99865);
+  const spread = (distance: number, width: number): number | null => (width > 0 ? distance / width : null);
+
+  const ppu = hasUsl ? spread(usl - center, upper - center) : null;
+  const ppl = hasLsl ? spread(center - lsl, center - lower) : null;
+  const pp = hasUsl && hasLsl ? spread(usl - lsl, upper - lower) : null;
+  const ppk = minIndex(ppu, ppl);
+
+  // No distribution model: PPM is the observed fraction out of specification
+  const above = hasUsl ? (values.filter(value => value > usl).length / values.length) * 1e6 : 0;
+  const below = hasLsl ? (values.filter(value => value < lsl).length / values.length) * 1e6 : 0;
+
+  return {
+    count: values.length,
+    mean: mean(values),
+    withinSigma: values.length > 1 ? estimateWithinSigma(subgroups) : 0,
+    overallSigma: values.length > 1 ? standardDeviation(values) : 0,
+    cp: null,
+    cpk: null,
+    cpu: null,
+    cpl: null,
     pp,
     ppk,
-    cpu,
-    cpl,
-    sigma,
-    ppm,
+    ppu,
+    ppl,
+    cpm: null,
+    sigma: ppk !== null ? 3 * ppk : 0,
+    ppmAboveUsl: above,
+    ppmBelowLsl: below,
+    ppm: above + below,
+    ppmWithin: above + below,
+  };
+};
+
+const formatP = (pValue: number): string => (pValue < 0.001 ? '< 0.001' : `= ${pValue.toFixed(3)}`);
+
+// Accepts either rational subgroups or a flat series of individual values.
+// With method 'auto' the normal model is used when Anderson-Darling does
+// not reject normality, otherwise Box-Cox, then Johnson, then percentiles.
+export const calculateProcessCapability = (
+  data: number[] | Subgroup[],
+  specifications: Specifications,
+  options: CapabilityOptions = {}
+): ProcessCapability => {
+  const { sigmaMethod = 'range', method = 'auto', alpha = 0.05 } = options;
+  const subgroups: Subgroup[] = data.length > 0 && typeof data[0] === 'number'
+    ? (data as number[]).map((value, index) => ({
+        id: `subgroup-${index + 1}`,
+        subgroupNumber: index + 1,
+        values: [value],
+        timestamp: new Date(0),
+      }))
+    : (data as Subgroup[]);
+  const values = subgroups.flatMap(subgroup => subgroup.values);
+  const normality = values.length >= MIN_NORMALITY_SAMPLE ? andersonDarlingTest(values, alpha) : undefined;
+  const normalResult = (methodReason: string): ProcessCapability => ({
+    ...normalCapability(subgroups, specifications, sigmaMethod),
+    method: 'normal',
+    methodReason,
+    normality,
+  });
+
+  if (!hasSpecLimits(specifications) || values.length === 0) {
+    return normalResult('No specification limits');
+  }
+  if (!normality) {
+    return normalResult(`Fewer than ${MIN_NORMALITY_SAMPLE} values: normality cannot be assessed, normal model assumed`);
+  }
+
+  const testSummary = `Anderson-Darling p ${formatP(normality.pValue)}`;
+  if (method === 'normal') {
+    return normalResult(normality.isNormal
+      ? `Normal model requested; ${testSummary}`
+      : `Normal model requested although ${testSummary} rejects normality (α = ${alpha}); indices may be misleading`);
+  }
+  if (method === 'auto' && normality.isNormal) {
+    return normalResult(`${testSummary}: data consistent with a normal distribution (α = ${alpha})`);
+  }
+
+  const reasons: string[] = method === 'auto'
+    ? [`${testSummary} rejects normality (α = ${alpha})`]
+    : [`${method === 'box-cox' ? 'Box-Cox' : method === 'johnson' ? 'Johnson' : 'Percentile'} method requested; ${testSummary}`];
+
+  if (method === 'auto' || method === 'box-cox') {
+    if (values.every(value => value > 0)) {
+      const lambda = estimateBoxCoxLambda(values);
+      const transformed = andersonDarlingTest(values.map(value => boxCoxTransform(value, lambda)), alpha);
+      if (method === 'box-cox' || transformed.isNormal) {
+        return {
+          ...transformedCapability(subgroups, specifications, sigmaMethod, value => boxCoxTransform(value, lambda)),
+          method: 'box-cox',
+          methodReason: [...reasons, `Box-Cox (λ = ${lambda.toFixed(2)}) transformed data p ${formatP(transformed.pValue)}`].join('; '),
+          normality,
+          transformation: { type: 'box-cox', lambda },
+        };
+      }
+      reasons.push(`Box-Cox (λ = ${lambda.toFixed(2)}) still not normal (p ${formatP(transformed.pValue)})`);
+    } else {
+      reasons.push('Box-Cox not applicable to zero or negative values');
+    }
+  }
+
+  if (method === 'auto' || method === 'johnson') {
+    const johnson = fitJohnsonDistribution(values);
+    if (johnson && (method === 'johnson' || johnson.normality.pValue >= alpha)) {
+      return {
+        ...transformedCapability(subgroups, specifications, sigmaMethod, value => johnsonTransform(value, johnson.fit)),
+        method: 'johnson',
+        methodReason: [...reasons, `Johnson ${johnson.fit.family} transformed data p ${formatP(johnson.normality.pValue)}`].join('; '),
+        normality,
+        transformation: johnson.fit,
+      };
+    }
+    reasons.push(johnson
+      ? `Johnson ${johnson.fit.family} fit still not normal (p ${formatP(johnson.normality.pValue)})`
+      : 'no valid Johnson fit');
+  }
+
+  return {
+    ...percentileCapability(subgroups, specifications),
+    method: 'percentile',
+    methodReason: [...reasons, 'percentile method (0.135 % / 50 % / 99.865 % quantiles) used'].join('; '),
+    normality,
   };
 };
 
+// Chi-square quantile (Wilson-Hilferty approximation)
+const chiSquareQuantile = (p: number, degreesOfFreedom: number): number => {
+  const h = 2 / (9 * degreesOfFreedom);
+  return degreesOfFreedom * Math.pow(Math.max(0, 1 - h + normalQuantile(p) * Math.sqrt(h)), 3);
+};
+
+// Confidence intervals for the capability indices: chi-square intervals for
+// Cp/Pp and Bissell's normal approximation for Cpk/Ppk. Within indices use
+// `withinDegreesOfFreedom` when given (e.g. 0.9·k·(n−1) for R̄/d2), else n − 1.
+// Percentile capability has no sampling theory here, so no intervals.
+export const calculateCapabilityIntervals = (
+  capability: ProcessCapability,
+  confidence: number = 0.95,
+  withinDegreesOfFreedom?: number
+): CapabilityIntervals => {
+  const n = capability.count;
+  if (n < 2 || capability.method === 'percentile') {
+    return { confidence, cp: null, cpk: null, pp: null, ppk: null };
+  }
+
+  const alpha = 1 - confidence;
+  const z = normalQuantile(1 - alpha / 2);
+  const ratioInterval = (index: number | null, degreesOfFreedom: number): IndexInterval | null => {
+    if (index === null || degreesOfFreedom <= 0) return null;
+    return {
+      estimate: index,
+      lower: index * Math.sqrt(chiSquareQuantile(alpha / 2, degreesOfFreedom) / degreesOfFreedom),
+      upper: index * Math.sqrt(chiSquareQuantile(1 - alpha / 2, degreesOfFreedom) / degreesOfFreedom),
+    };
+  };
+  const bissellInterval = (index: number | null): IndexInterval | null => {
+    if (index === null) return null;
+    const margin = z * Math.sqrt(1 / (9 * n) + (index * index) / (2 * (n - 1)));
+    return { estimate: index, lower: index - margin, upper: index + margin };
+  };
+
+  return {
+    confidence,
+    cp: ratioInterval(capability.cp, withinDegreesOfFreedom ?? n - 1),
+    cpk: bissellInterval(capability.cpk),
+    pp: ratioInterval(capability.pp, n - 1),
+    ppk: bissellInterval(capability.ppk),
+  };
+};
+
+// Equal-width bins over the data range; Sturges' rule by default
+export const buildHistogram = (values: number[], binCount?: number): HistogramBin[] => {
+  if (values.length === 0) return [];
+
+  const low = min(values);
+  const high = max(values);
+  if (low === high) {
+    return [{ start: low - 0.5, end: high + 0.5, count: values.length }];
+  }
+
+  const count = Math.max(1, binCount ?? Math.ceil(Math.log2(values.length)) + 1);
+  const width = (high - low) / count;
+  const bins: HistogramBin[] = Array.from({ length: count }, (_, i) => ({
+    start: low + i * width,
+    end: low + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach(value => {
+    bins[Math.min(count - 1, Math.floor((value - low) / width))].count++;
+  });
+  return bins;
+};
+
+// Sorted values with Blom plotting positions, for a normal probability plot
+export const normalProbabilityPoints = (values: number[]): ProbabilityPlotPoint[] => {
+  const n = values.length;
+  return [...values]
+    .sort((a, b) => a - b)
+    .map((value, i) => {
+      const probability = (i + 1 - 0.375) / (n + 0.25);
+      return { value, probability, z: normalQuantile(probability) };
+    });
+};
+
+// Parts per million actually observed outside the specification limits
+export const calculateObservedPpm = (values: number[], specifications: Specifications): ObservedPpm => {
+  if (values.length === 0) return { ppmAboveUsl: 0, ppmBelowLsl: 0, ppm: 0 };
+
+  const { usl, lsl } = specifications;
+  const above = usl !== undefined ? values.filter(value => value > usl).length : 0;
+  const below = lsl !== undefined ? values.filter(value => value < lsl).length : 0;
+  const toPpm = (count: number) => (count / values.length) * 1e6;
+  return {
+    ppmAboveUsl: toPpm(above),
+    ppmBelowLsl: toPpm(below),
+    ppm: toPpm(above + below),
+  };
+};
+
+// Run rules (Nelson and Western Electric)
+export const NELSON_RULES: ControlRule[] = [
+  { id: 'nelson-1', name: 'Rule 1: Point beyond the control limits', kind: 'beyond-limits', enabled: true, count: 1, window: 1, zone: 3 },
+  { id: 'nelson-2', name: 'Rule 2: 9 points in a row on the same side of the center line', kind: 'same-side', enabled: true, count: 9, window: 9, zone: 0 },
+  { id: 'nelson-3', name: 'Rule 3: 6 points in a row steadily increasing or decreasing', kind: 'trend', enabled: true, count: 6, window: 6, zone: 0 },
+  { id: 'nelson-4', name: 'Rule 4: 14 points in a row alternating up and down', kind: 'alternating', enabled: true, count: 14, window: 14, zone: 0 },
+  { id: 'nelson-5', name: 'Rule 5: 2 of 3 points beyond 2σ on the same side', kind: 'beyond-zone', enabled: true, count: 2, window: 3, zone: 2 },
+  { id: 'nelson-6', name: 'Rule 6: 4 of 5 points beyond 1σ on the same side', kind: 'beyond-zone', enabled: true, count: 4, window: 5, zone: 1 },
+  { id: 'nelson-7', name: 'Rule 7: 15 points in a row within 1σ of the center line', kind: 'hugging', enabled: true, count: 15, window: 15, zone: 1 },
+  { id: 'nelson-8', name: 'Rule 8: 8 points in a row beyond 1σ, on both sides of the center line', kind: 'mixture', enabled: true, count: 8, window: 8, zone: 1 },
+];
+
+export const WESTERN_ELECTRIC_RULES: ControlRule[] = [
+  { id: 'weco-1', name: 'Rule 1: Point beyond 3σ limits', kind: 'beyond-limits', enabled: true, count: 1, window: 1, zone: 3 },
+  { id: 'weco-2', name: 'Rule 2: 2 of 3 consecutive points beyond 2σ limits', kind: 'beyond-zone', enabled: true, count: 2, window: 3, zone: 2 },
+  { id: 'weco-3', name: 'Rule 3: 4 of 5 consecutive points beyond 1σ limits', kind: 'beyond-zone', enabled: true, count: 4, window: 5, zone: 1 },
+  { id: 'weco-4', name: 'Rule 4: 8 consecutive points on same side of center line', kind: 'same-side', enabled: true, count: 8, window: 8, zone: 0 },
+];
+
+// Apply per-rule overrides (on/off, run length, window) on top of a rule set
+export const configureRules = (
+  rules: ControlRule[],
+  overrides: Record<string, Partial<Omit<ControlRule, 'id' | 'kind'>>> = {}
+): ControlRule[] => {
+  return rules.map(rule => {
+    const override = overrides[rule.id];
+    if (!override) return rule;
+    const configured = { ...rule, ...override };
+    // Run rules examine exactly `count` points
+    if (configured.kind !== 'beyond-zone') {
+      configured.window = configured.count;
+    }
+    return configured;
+  });
+};
+
+// Indices of every maximal run of consecutive points satisfying `test`
+// that is at least `count` long
+const findRuns = (length: number, count: number, test: (index: number) => boolean): number[] => {
+  const points: number[] = [];
+  let runStart = -1;
+  for (let i = 0; i <= length; i++) {
+    if (i < length && test(i)) {
+      if (runStart === -1) runStart = i;
+      continue;
+    }
+    if (runStart !== -1 && i - runStart >= count) {
+      for (let j = runStart; j < i; j++) points.push(j);
+    }
+    runStart = -1;
+  }
+  return points;
+};
+
+const evaluateRule = (values: number[], limits: ControlLimits, rule: ControlRule): number[] => {
+  const { centerLine, ucl, lcl } = limits;
+  const sigmaLevel = limits.sigmaLevel || 3;
+  // Zones are measured separately above and below the center line so that
+  // limits floored at zero keep their own zone widths
+  const upperSigma = (ucl - centerLine) / sigmaLevel;
+  const lowerSigma = (centerLine - lcl) / sigmaLevel;
+  const side = (value: number): number => (value > centerLine ? 1 : value < centerLine ? -1 : 0);
+  const beyond = (value: number, zone: number, direction: number): boolean =>
+    direction > 0 ? value > centerLine + zone * upperSigma : value < centerLine - zone * lowerSigma;
+
+  switch (rule.kind) {
+    case 'beyond-limits':
+      return values.map((value, i) => (value > ucl || value < lcl ? i : -1)).filter(i => i !== -1);
+
+    case 'beyond-zone': {
+      const flagged = new Set<number>();
+      for (let end = rule.window - 1; end < values.length; end++) {
+        const window = values.slice(end - rule.window + 1, end + 1);
+        [1, -1].forEach(direction => {
+          const hits = window
+            .map((value, offset) => (beyond(value, rule.zone, direction) ? end - rule.window + 1 + offset : -1))
+            .filter(i => i !== -1);
+          if (hits.length >= rule.count) {
+            hits.forEach(i => flagged.add(i));
+          }
+        });
+      }
+      return [...flagged].sort((a, b) => a - b);
+    }
+
+    case 'same-side': {
+      const above = findRuns(values.length, rule.count, i => side(values[i]) > 0);
+      const below = findRuns(values.length, rule.count, i => side(values[i]) < 0);
+      return [...above, ...below].sort((a, b) => a - b);
+    }
+
+    case 'trend': {
+      // A run of `count` points has `count - 1` increments in the same direction
+      const flagged = new Set<number>();
+      [1, -1].forEach(direction => {
+        findRuns(values.length - 1, rule.count - 1, i => Math.sign(values[i + 1] - values[i]) === direction)
+          .forEach(i => {
+            flagged.add(i);
+            flagged.add(i + 1);
+          });
+      });
+      return [...flagged].sort((a, b) => a - b);
+    }
+
+    case 'alternating': {
+      // `count` points alternate when each of their `count - 2` inner points is a turning point
+      const flagged = new Set<number>();
+      findRuns(values.length - 2, rule.count - 2, i => {
+        const first = Math.sign(values[i + 1] - values[i]);
+        const second = Math.sign(values[i + 2] - values[i + 1]);
+        return first !== 0 && second === -first;
+      }).forEach(i => {
+        flagged.add(i);
+        flagged.add(i + 1);
+        flagged.add(i + 2);
+      });
+      return [...flagged].sort((a, b) => a - b);
+    }
+
+    case 'hugging':
+      return findRuns(values.length, rule.count, i =>
+        !beyond(values[i], rule.zone, 1) && !beyond(values[i], rule.zone, -1)
+      );
+
+    case 'mixture': {
+      // `count` points in a row outside the 1σ zone with points on both
+      // sides; a run on one side only is a shift, left to rules 2 and 5
+      const flagged = new Set<number>();
+      for (let end = rule.count - 1; end < values.length; end++) {
+        const window = values.slice(end - rule.count + 1, end + 1);
+        const above = window.filter(value => beyond(value, rule.zone, 1)).length;
+        const below = window.filter(value => beyond(value, rule.zone, -1)).length;
+        if (above > 0 && below > 0 && above + below === rule.count) {
+          for (let i = end - rule.count + 1; i <= end; i++) flagged.add(i);
+        }
+      }
+      return [...flagged].sort((a, b) => a - b);
+    }
+  }
+};
+
+// Evaluate a rule set against a series plotted on a control chart
+export const evaluateControlRules = (
+  values: number[],
+  controlLimits: ControlLimits,
+  rules: ControlRule[] = NELSON_RULES
+): ControlRuleResult[] => {
+  return rules
+    .filter(rule => rule.enabled)
+    .map(rule => {
+      const points = values.length > 0 ? evaluateRule(values, controlLimits, rule) : [];
+      return { id: rule.id, rule: rule.name, violated: points.length > 0, points };
+    });
+};
+
+export const checkNelsonRules = (
+  values: number[],
+  controlLimits: ControlLimits,
+  overrides?: Record<string, Partial<Omit<ControlRule, 'id' | 'kind'>>>
+): ControlRuleResult[] => {
+  return evaluateControlRules(values, controlLimits, configureRules(NELSON_RULES, overrides));
+};
+
 // Western Electric Rules
 export const checkWesternElectricRules = (
   values: number[],
   controlLimits: ControlLimits,
-  _sigmaLevel: number = 3
-): Array<{ rule: string; violated: boolean; points: number[] }> => {
-  const rules = [
-    {
-      rule: 'Rule 1: Point beyond 3σ limits',
-      violated: values.some(value => value > controlLimits.ucl || value < controlLimits.lcl),
-      points: values.map((value, index) => 
-        value > controlLimits.ucl || value < controlLimits.lcl ? index : -1
-      ).filter(index => index !== -1),
-    },
-    {
-      rule: 'Rule 2: 2 of 3 consecutive points beyond 2σ limits',
-      violated: false, // Simplified - would need more complex logic
-      points: [],
-    },
-    {
-      rule: 'Rule 3: 4 of 5 consecutive points beyond 1σ limits',
-      violated: false, // Simplified - would need more complex logic
-      points: [],
-    },
-    {
-      rule: 'Rule 4: 8 consecutive points on same side of center line',
-      violated: false, // Simplified - would need more complex logic
-      points: [],
-    },
-  ];
-  
-  return rules;
+  overrides?: Record<string, Partial<Omit<ControlRule, 'id' | 'kind'>>>
+): ControlRuleResult[] => {
+  return evaluateControlRules(values, controlLimits, configureRules(WESTERN_ELECTRIC_RULES, overrides));
 };
 
 // Normal distribution functions
@@ -289,6 +1531,35 @@ export const normalCDF = (x: number, mean: number = 0, std: number = 1): number
   return 0.5 * (1 + erf((x - mean) / (std * Math.sqrt(2))));
 };
 
+export const normalPDF = (x: number, mean: number = 0, std: number = 1): number => {
+  const z = (x - mean) / std;
+  return Math.exp(-0.5 * z * z) / (std * Math.sqrt(2 * Math.PI));
+};
+
+// Inverse of the standard normal CDF (Acklam's rational approximation)
+export const normalQuantile = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  if (p < pLow || p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(p < pLow ? p : 1 - p));
+    const x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < pLow ? x : -x;
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
 export const erf = (x: number): number => {
   // Approximation of error function
   const a1 = 0.254829592;
@@ -307,6 +1578,66 @@ export const erf = (x: number): number => {
   return sign * y;
 };
 
+// Natural log of the gamma function (Lanczos approximation, g = 7)
+export const logGamma = (x: number): number => {
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = coefficients[0];
+  for (let i = 1; i < coefficients.length; i++) {
+    sum += coefficients[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+// Continued fraction of the incomplete beta function (modified Lentz)
+const betaContinuedFraction = (x: number, a: number, b: number): number => {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  d = 1 / (Math.abs(d) < tiny ? tiny : d);
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const even = (m * (b - m) * x) / ((a + 2 * m - 1) * (a + 2 * m));
+    d = 1 / (Math.abs(1 + even * d) < tiny ? tiny : 1 + even * d);
+    c = Math.abs(1 + even / c) < tiny ? tiny : 1 + even / c;
+    result *= d * c;
+
+    const odd = -((a + m) * (a + b + m) * x) / ((a + 2 * m) * (a + 2 * m + 1));
+    d = 1 / (Math.abs(1 + odd * d) < tiny ? tiny : 1 + odd * d);
+    c = Math.abs(1 + odd / c) < tiny ? tiny : 1 + odd / c;
+    const delta = d * c;
+    result *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return result;
+};
+
+// Regularized incomplete beta function I_x(a, b)
+export const incompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  // The continued fraction converges fastest on this side of the mean
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(x, a, b)) / a
+    : 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+};
+
+// P(F > f) for an F distribution with (df1, df2) degrees of freedom
+export const fDistributionPValue = (f: number, df1: number, df2: number): number => {
+  if (!Number.isFinite(f)) return 0;
+  if (f <= 0) return 1;
+  return incompleteBeta(df2 / (df2 + df1 * f), df2 / 2, df1 / 2);
+};
+
 // Confidence intervals
 export const confidenceInterval = (
   values: number[],